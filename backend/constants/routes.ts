@@ -16,6 +16,7 @@ export const ROUTES = {
   HEALTH: '/health',
   API_ROOT: API_VERSION,
   API_DOCS: `${API_VERSION}/docs`,
+  TAXII: '/taxii2',
 } as const;
 
 /**
@@ -37,6 +38,7 @@ export const MODULE_ROUTES = {
   DARK_WEB: `${API_VERSION}/dark-web`,
   COMPLIANCE: `${API_VERSION}/compliance`,
   AUTOMATION: `${API_VERSION}/automation`,
+  ENRICHMENT: `${API_VERSION}/enrichment`,
 } as const;
 
 /**
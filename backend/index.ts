@@ -72,6 +72,18 @@ import caseManagement from './modules/case-management';
 import metrics from './modules/metrics';
 import draftWorkspace from './modules/draft-workspace';
 import dashboard from './modules/dashboard';
+import taxii from './modules/taxii';
+import enrichment from './modules/enrichment';
+import { executionEngine } from './modules/playbooks/execution-engine';
+import { playbookTriggers } from './modules/playbooks/triggers';
+import { stixExporter } from './modules/stix/exporter';
+import { ingestPipeline, logListeners } from './modules/siem/ingestion';
+import { correlationEngine } from './modules/siem/correlation';
+import { iocSweep } from './modules/siem/ioc';
+import { searchScheduler } from './modules/siem/search';
+import scoreDecayJob from './modules/ioc-management/services/scoreDecayJob';
+import graphLinker from './modules/ioc-management/services/graphLinker';
+import allowListService from './modules/ioc-management/services/allowListService';
 
 /**
  * Express Application Instance
@@ -366,6 +378,9 @@ app.use(MODULE_ROUTES.IOC_MANAGEMENT, iocManagement);
 /** Threat Intelligence Feeds - External feed integration and management */
 app.use(MODULE_ROUTES.THREAT_FEEDS, threatFeeds);
 
+/** Enrichment - GeoIP, ASN, passive DNS, WHOIS and reputation lookups */
+app.use(MODULE_ROUTES.ENRICHMENT, enrichment);
+
 /** Risk Assessment - Risk scoring and analysis */
 app.use(MODULE_ROUTES.RISK_ASSESSMENT, riskAssessment);
 
@@ -404,6 +419,9 @@ app.use('/api/v1/dashboard', dashboard);
 /** Draft Workspace - Temporary workspace for drafts and work-in-progress */
 app.use('/api/v1', draftWorkspace);
 
+/** TAXII 2.1 - Standard intelligence sharing with partners and security tools */
+app.use(ROUTES.TAXII, taxii);
+
 /**
  * Global Error Handler Middleware
  *
@@ -493,6 +511,15 @@ app.use((req: Request, res: Response): void => {
  * - Interactive API documentation URL
  * - Feature count and operational status
  *
+ * Once listening, playbook executions interrupted by the previous shutdown are
+ * resumed from their last checkpoint, and playbook triggers subscribe to
+ * incident, IOC and SIEM alert events. Syslog listeners configured through
+ * SIEM_SYSLOG_*_PORT start feeding the SIEM ingestion pipeline, which publishes
+ * its throughput and drop counters to the metrics module. The SIEM streaming
+ * correlation engine restores its open windows from the last snapshot, and the
+ * SIEM IOC sweep loads the active IOCs it matches ingested events against.
+ * Scheduled SIEM saved searches are then run every scheduler tick.
+ *
  * In production environments, ensure:
  * - Environment variables are properly configured
  * - Database connections are established before accepting traffic
@@ -523,6 +550,32 @@ Features: ${MODULES.PRIMARY_COUNT} Primary | ${MODULES.SUB_FEATURES_COUNT}+ Sub-
 Status: ${STATUS.OPERATIONAL}
 Environment: ${process.env.NODE_ENV || ENVIRONMENT.DEVELOPMENT}
   `);
+
+  // Resume playbook executions interrupted by the previous shutdown
+  executionEngine.recoverExecutions().catch((error: Error) => {
+    console.error('❌ Playbook execution recovery failed:', error.message);
+  });
+  playbookTriggers.start();
+
+  ingestPipeline.startMetrics();
+  logListeners.start().catch((error: Error) => {
+    console.error('❌ Syslog listeners failed to start:', error.message);
+  });
+  correlationEngine.start().catch((error: Error) => {
+    console.error('❌ SIEM correlation engine failed to start:', error.message);
+  });
+  iocSweep.start().catch((error: Error) => {
+    console.error('❌ SIEM IOC sweep failed to start:', error.message);
+  });
+  searchScheduler.start();
+  scoreDecayJob.start();
+  graphLinker.start();
+  allowListService.start().catch((error: Error) => {
+    console.error('❌ IoC allow-list failed to load:', error.message);
+  });
+  stixExporter.start().catch((error: Error) => {
+    console.error('❌ STIX ID backfill failed:', error.message);
+  });
 });
 
 /**
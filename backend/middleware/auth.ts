@@ -57,6 +57,7 @@ import { tokenBlacklist } from '../utils/tokenBlacklist';
  * @property {string} [sub] - JWT standard subject claim containing user ID
  * @property {string} email - User's email address for identification
  * @property {string} [role] - User's role for authorization (e.g., 'admin', 'analyst', 'viewer')
+ * @property {string[]} [teams] - Teams the user belongs to, for sharing (e.g., saved SIEM searches)
  * @property {number} [iat] - Inherited from JwtPayload - Token issued at timestamp (seconds since epoch)
  * @property {number} [exp] - Inherited from JwtPayload - Token expiration timestamp (seconds since epoch)
  * @property {string} [iss] - Inherited from JwtPayload - Token issuer
@@ -81,6 +82,7 @@ interface DecodedToken extends JwtPayload {
   sub?: string;
   email: string;
   role?: string;
+  teams?: string[];
 }
 
 /**
@@ -138,7 +140,7 @@ interface DecodedToken extends JwtPayload {
  *
  * @remarks
  * The middleware expects the Authorization header in the format: "Bearer <JWT_TOKEN>"
- * After successful authentication, req.user will contain: { id, email, role }
+ * After successful authentication, req.user will contain: { id, email, role, teams }
  * The middleware uses the tokenBlacklist utility for revocation checks, which supports
  * both individual token revocation and user-level token invalidation.
  *
@@ -183,6 +185,7 @@ async function authenticate(req: Request, res: Response, next: NextFunction): Pr
       id: userId,
       email: decoded.email,
       role: decoded.role || 'viewer',
+      teams: decoded.teams || [],
     };
 
     logger.debug('User authenticated', {
@@ -273,6 +276,7 @@ function optionalAuth(req: Request, res: Response, next: NextFunction): void {
       id: decoded.id || decoded.sub || '',
       email: decoded.email,
       role: decoded.role || 'viewer',
+      teams: decoded.teams || [],
     };
 
     logger.debug('User authenticated (optional)', {
@@ -483,6 +487,7 @@ function requireAnalyst(req: Request, res: Response, next: NextFunction): void {
  * @property {string} id - Unique user identifier (UUID or database primary key)
  * @property {string} email - User's email address for identification and communication
  * @property {string} role - User's role for authorization (e.g., 'admin', 'analyst', 'viewer')
+ * @property {string[]} [teams] - Teams the user belongs to
  *
  * @example
  * ```typescript
@@ -501,6 +506,7 @@ interface UserData {
   id: string;
   email: string;
   role: string;
+  teams?: string[];
 }
 
 /**
@@ -508,7 +514,7 @@ interface UserData {
  *
  * Creates a JSON Web Token containing user identity and role information, signed with
  * the application's secret key. The token includes standard JWT claims (sub, iat, exp,
- * iss, aud) along with custom user data (id, email, role). Tokens are configured with
+ * iss, aud) along with custom user data (id, email, role, teams). Tokens are configured with
  * expiration time and can be verified by the {@link authenticate} middleware.
  *
  * The generated token should be:
@@ -517,7 +523,7 @@ interface UserData {
  * - Included in subsequent API requests via the Authorization header
  *
  * @function generateToken
- * @param {UserData} user - User data to encode in the token (id, email, role)
+ * @param {UserData} user - User data to encode in the token (id, email, role, teams)
  * @returns {string} Signed JWT token string ready to be sent to client
  *
  * @example
@@ -582,6 +588,7 @@ function generateToken(user: UserData): string {
       sub: user.id,
       email: user.email,
       role: user.role || 'viewer',
+      teams: user.teams || [],
     },
     config.security.jwt.secret,
     {
@@ -596,7 +603,7 @@ function generateToken(user: UserData): string {
  * Express middleware for refreshing JWT authentication tokens.
  *
  * Generates a new JWT token for an authenticated user while maintaining their current
- * session data (id, email, role). This middleware must be used after {@link authenticate}
+ * session data (id, email, role, teams). This middleware must be used after {@link authenticate}
  * to ensure req.user is populated. The new token is attached to res.locals.newToken
  * for the route handler to return to the client.
  *
@@ -704,6 +711,7 @@ function refreshToken(req: Request, res: Response, next: NextFunction): void {
       id: req.user.id,
       email: req.user.email,
       role: req.user.role,
+      teams: req.user.teams,
     });
 
     // Attach new token to response
@@ -0,0 +1,133 @@
+/**
+ * EntityRelationship Model - Sequelize
+ * Typed links between intelligence entities (IOCs, threat actors, campaigns,
+ * malware, incidents, vulnerabilities)
+ *
+ * Relationships and sightings imported from STIX are stored here, as are the
+ * edges of the IOC relationship graph. A sighting links the sighted entity as
+ * source and has no target. Entity IDs are strings because linked entities
+ * live in several stores, not all keyed by UUID.
+ */
+
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  Unique,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt,
+  Index,
+} from 'sequelize-typescript';
+
+export type RelatedEntityType =
+  | 'ioc'
+  | 'threat_actor'
+  | 'campaign'
+  | 'malware'
+  | 'incident'
+  | 'vulnerability';
+
+@Table({
+  tableName: 'entity_relationships',
+  underscored: true,
+  timestamps: true,
+  indexes: [
+    { fields: ['source_type', 'source_id'] },
+    { fields: ['target_type', 'target_id'] },
+    { fields: ['relationship_type'] },
+  ],
+})
+export default class EntityRelationship extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+    id!: string;
+
+  @Unique
+  @Column({
+    type: DataType.STRING,
+    field: 'stix_id',
+  })
+    stixId?: string;
+
+  @AllowNull(false)
+  @Index
+  @Column({
+    type: DataType.STRING,
+    field: 'relationship_type',
+  })
+    relationshipType!: string;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING,
+    field: 'source_type',
+  })
+    sourceType!: RelatedEntityType;
+
+  @AllowNull(false)
+  @Column({
+    type: DataType.STRING,
+    field: 'source_id',
+  })
+    sourceId!: string;
+
+  @Column({
+    type: DataType.STRING,
+    field: 'target_type',
+  })
+    targetType?: RelatedEntityType;
+
+  @Column({
+    type: DataType.STRING,
+    field: 'target_id',
+  })
+    targetId?: string;
+
+  @Column(DataType.TEXT)
+    description?: string;
+
+  @Column(DataType.INTEGER)
+    confidence?: number;
+
+  @AllowNull(false)
+  @Default(1)
+  @Column(DataType.INTEGER)
+    count!: number;
+
+  @Column({
+    type: DataType.DATE,
+    field: 'first_seen',
+  })
+    firstSeen?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    field: 'last_seen',
+  })
+    lastSeen?: Date;
+
+  @Column(DataType.STRING)
+    source?: string;
+
+  @Column(DataType.JSONB)
+    metadata?: any;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+    createdAt!: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+    updatedAt!: Date;
+}
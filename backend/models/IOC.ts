@@ -10,6 +10,7 @@ import {
   DataType,
   PrimaryKey,
   Default,
+  Unique,
   AllowNull,
   CreatedAt,
   UpdatedAt,
@@ -32,6 +33,13 @@ export default class IOC extends Model {
   @Column(DataType.UUID)
     id!: string;
 
+  @Unique
+  @Column({
+    type: DataType.STRING,
+    field: 'stix_id',
+  })
+    stixId?: string;
+
   @AllowNull(false)
   @Index
   @Column(DataType.STRING)
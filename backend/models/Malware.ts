@@ -0,0 +1,109 @@
+/**
+ * Malware Model - Sequelize
+ * Malware families and variants tracked as threat intelligence
+ */
+
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  PrimaryKey,
+  Default,
+  Unique,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt,
+  Index,
+} from 'sequelize-typescript';
+
+@Table({
+  tableName: 'malware',
+  underscored: true,
+  timestamps: true,
+  indexes: [
+    { fields: ['name'] },
+    { fields: ['is_family'] },
+  ],
+})
+export default class Malware extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+    id!: string;
+
+  @Unique
+  @Column({
+    type: DataType.STRING,
+    field: 'stix_id',
+  })
+    stixId?: string;
+
+  @AllowNull(false)
+  @Index
+  @Column(DataType.STRING)
+    name!: string;
+
+  @Column(DataType.TEXT)
+    description?: string;
+
+  @AllowNull(false)
+  @Default([])
+  @Column({
+    type: DataType.ARRAY(DataType.STRING),
+    field: 'malware_types',
+  })
+    malwareTypes!: string[];
+
+  @Default(false)
+  @AllowNull(false)
+  @Column({
+    type: DataType.BOOLEAN,
+    field: 'is_family',
+  })
+    isFamily!: boolean;
+
+  @AllowNull(false)
+  @Default([])
+  @Column(DataType.ARRAY(DataType.STRING))
+    aliases!: string[];
+
+  @AllowNull(false)
+  @Default([])
+  @Column(DataType.ARRAY(DataType.STRING))
+    capabilities!: string[];
+
+  @Column({
+    type: DataType.DATE,
+    field: 'first_seen',
+  })
+    firstSeen?: Date;
+
+  @Column({
+    type: DataType.DATE,
+    field: 'last_seen',
+  })
+    lastSeen?: Date;
+
+  @AllowNull(false)
+  @Default([])
+  @Column(DataType.ARRAY(DataType.STRING))
+    tags!: string[];
+
+  @Column(DataType.JSONB)
+    metadata?: any;
+
+  @CreatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'created_at',
+  })
+    createdAt!: Date;
+
+  @UpdatedAt
+  @Column({
+    type: DataType.DATE,
+    field: 'updated_at',
+  })
+    updatedAt!: Date;
+}
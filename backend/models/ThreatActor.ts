@@ -31,6 +31,13 @@ export default class ThreatActor extends Model {
   @Column(DataType.UUID)
     id!: string;
 
+  @Unique
+  @Column({
+    type: DataType.STRING,
+    field: 'stix_id',
+  })
+    stixId?: string;
+
   @Unique
   @AllowNull(false)
   @Index
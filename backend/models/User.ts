@@ -71,6 +71,7 @@ import AuditLog from './AuditLog';
  * @property {string} [lastName] - User's last name (optional)
  * @property {string} role - User role for RBAC (e.g., 'admin', 'analyst', 'viewer')
  * @property {boolean} isActive - Account active status for soft deletion
+ * @property {string[]} [teams] - Teams the user belongs to, for sharing saved work
  * @property {Date} [lastLogin] - Timestamp of most recent successful login
  * @property {Date} createdAt - Account creation timestamp (auto-managed)
  * @property {Date} updatedAt - Last modification timestamp (auto-managed)
@@ -348,6 +349,31 @@ export default class User extends Model {
   })
     capabilities?: string[];
 
+  /**
+   * Teams the user belongs to.
+   *
+   * Team names carried in the user's tokens, so resources shared with a team
+   * (such as saved SIEM searches) are visible to its members.
+   *
+   * @type {string[] | undefined}
+   * @optional
+   *
+   * @remarks
+   * - Database column: `teams` (JSONB array)
+   * - Changes apply from the user's next login or token refresh
+   *
+   * @example
+   * ```typescript
+   * await user.update({ teams: ['soc', 'threat-intel'] });
+   * ```
+   */
+  @Default([])
+  @Column({
+    type: DataType.JSONB,
+    field: 'teams',
+  })
+    teams?: string[];
+
   /**
    * Organization identifier for multi-tenant support.
    *
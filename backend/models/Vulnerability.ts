@@ -33,6 +33,13 @@ export default class Vulnerability extends Model {
   @Column(DataType.UUID)
     id!: string;
 
+  @Unique
+  @Column({
+    type: DataType.STRING,
+    field: 'stix_id',
+  })
+    stixId?: string;
+
   @Unique
   @Column({
     type: DataType.STRING,
@@ -90,6 +97,9 @@ export default class Vulnerability extends Model {
   })
     patchedAt?: Date;
 
+  @Column(DataType.JSONB)
+    metadata?: any;
+
   @CreatedAt
   @Column({
     type: DataType.DATE,
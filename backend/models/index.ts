@@ -11,6 +11,8 @@ import AuditLog from './AuditLog';
 import IOC from './IOC';
 import ThreatActor from './ThreatActor';
 import PlaybookExecution from './PlaybookExecution';
+import Malware from './Malware';
+import EntityRelationship from './EntityRelationship';
 
 // Export all models
 export {
@@ -22,6 +24,8 @@ export {
   IOC,
   ThreatActor,
   PlaybookExecution,
+  Malware,
+  EntityRelationship,
 };
 
 // Export model array for initialization
@@ -34,6 +38,8 @@ export const models = [
   IOC,
   ThreatActor,
   PlaybookExecution,
+  Malware,
+  EntityRelationship,
 ];
 
 export default {
@@ -45,4 +51,6 @@ export default {
   IOC,
   ThreatActor,
   PlaybookExecution,
+  Malware,
+  EntityRelationship,
 };
@@ -94,6 +94,7 @@ router.post('/login', async (req: Request, res: Response): Promise<void> => {
         id: user.id,
         email: user.email,
         role: user.role,
+        teams: user.teams || [],
       },
       config.security.jwt.secret,
       {
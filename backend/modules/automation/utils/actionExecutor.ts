@@ -4,6 +4,7 @@
  */
 
 import logger from './logger';
+import allowListService, { describeMatch } from '../../ioc-management/services/allowListService';
 
 class ActionExecutor {
   /**
@@ -31,7 +32,7 @@ class ActionExecutor {
       let result;
       switch (action.type) {
         case 'block_ip':
-          result = await this.blockIP(action.parameters);
+          result = await this.blockIP(action.parameters, action.id);
           break;
         case 'isolate_endpoint':
           result = await this.isolateEndpoint(action.parameters);
@@ -123,9 +124,20 @@ class ActionExecutor {
   }
 
   /**
-   * Block IP address
+   * Block IP address, unless it is allow-listed
    */
-  async blockIP(params) {
+  async blockIP(params, actionId?: string) {
+    const allowListed = allowListService.check(params.ip_address, 'ip', {
+      context: 'automation',
+      source: 'playbook',
+      sourceId: actionId,
+    });
+    if (allowListed) {
+      throw new Error(
+        `Refusing to block allow-listed IP ${params.ip_address}: matches ${describeMatch(allowListed)}`,
+      );
+    }
+
     logger.info('Blocking IP', params);
     // Integration with firewall/network devices
     return {
@@ -771,6 +771,60 @@ export async function getCaseComments(req: Request, res: Response): Promise<void
   }
 }
 
+/**
+ * Retrieves the indicators of compromise found in the comments of a case.
+ *
+ * Indicators are extracted from each comment when it is added, with defanged forms
+ * refanged and private IP ranges and allow-listed domains dropped. Occurrences are
+ * summed over all comments, so analysts can pivot on what the investigation turned up.
+ *
+ * @async
+ * @param {Request} req - Express request object with route parameters
+ * @param {string} req.params.id - Unique identifier of the case
+ * @param {Response} res - Express response object
+ * @returns {Promise<void>} Resolves when response is sent
+ *
+ * @throws {Error} When the case does not exist
+ *
+ * @example
+ * // GET /api/v1/cases/case-123/iocs
+ *
+ * // Response (200):
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "type": "domain",
+ *       "value": "evil-corp.top",
+ *       "iocType": "domain",
+ *       "occurrences": 3
+ *     }
+ *   ],
+ *   "count": 1
+ * }
+ *
+ * // Error Response (404):
+ * {
+ *   "success": false,
+ *   "error": "Case not found"
+ * }
+ */
+export async function getCaseIndicators(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const indicators = await caseManagementService.getCaseIndicators(id);
+
+    res.json({
+      success: true,
+      data: indicators,
+      count: indicators.length,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch indicators';
+    res.status(404).json({ success: false, error: message });
+  }
+}
+
 /**
  * Retrieves the chronological timeline of all events for a specific case.
  *
@@ -25,6 +25,7 @@ router.delete('/cases/:id/tasks/:taskId', controller.deleteTask);
 // Comment endpoints
 router.post('/cases/:id/comments', controller.addComment);
 router.get('/cases/:id/comments', controller.getCaseComments);
+router.get('/cases/:id/iocs', controller.getCaseIndicators);
 
 // Timeline endpoint
 router.get('/cases/:id/timeline', controller.getCaseTimeline);
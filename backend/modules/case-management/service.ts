@@ -5,6 +5,8 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
+import iocExtractor from '../ioc-management/services/iocExtractor';
+import type { ExtractedIndicator } from '../ioc-management/types';
 import {
   Case,
   CaseTask,
@@ -337,6 +339,7 @@ class CaseManagementService extends EventEmitter {
       user_id: userId,
       type: request.type || CommentType.COMMENT,
       content: request.content,
+      iocs: [...iocExtractor.extract(request.content).indicators],
       metadata: request.metadata,
       created_at: new Date(),
       updated_at: new Date(),
@@ -364,6 +367,28 @@ class CaseManagementService extends EventEmitter {
     return comments;
   }
 
+  /**
+   * Get the indicators found in the comments of a case, with their
+   * occurrences over all comments
+   */
+  async getCaseIndicators(caseId: string): Promise<ExtractedIndicator[]> {
+    if (!this.cases.has(caseId)) {
+      throw new Error('Case not found');
+    }
+
+    const indicators = new Map<string, ExtractedIndicator>();
+    const comments = await this.getCaseComments(caseId);
+    comments.flatMap((c) => c.iocs).forEach((ioc) => {
+      const key = `${ioc.type}:${ioc.value}`;
+      const seen = indicators.get(key);
+      indicators.set(key, seen
+        ? { ...seen, occurrences: seen.occurrences + ioc.occurrences }
+        : ioc);
+    });
+
+    return Array.from(indicators.values());
+  }
+
   /**
    * Get case timeline
    */
@@ -375,6 +400,27 @@ class CaseManagementService extends EventEmitter {
     return events;
   }
 
+  /**
+   * Add timeline events that happened earlier, keeping their timestamps
+   */
+  async addTimelineEvents(
+    caseId: string,
+    events: Array<{ event_type: string; event_data: Record<string, any>; timestamp: Date }>,
+    userId: string
+  ): Promise<CaseTimelineEvent[]> {
+    if (!this.cases.has(caseId)) {
+      throw new Error('Case not found');
+    }
+
+    return Promise.all(events.map((event) => this.addTimelineEvent(
+      caseId,
+      event.event_type,
+      event.event_data,
+      userId,
+      event.timestamp
+    )));
+  }
+
   /**
    * Create case template
    */
@@ -476,7 +522,8 @@ class CaseManagementService extends EventEmitter {
     caseId: string,
     eventType: string,
     eventData: Record<string, any>,
-    userId?: string
+    userId?: string,
+    timestamp: Date = new Date()
   ): Promise<CaseTimelineEvent> {
     const event: CaseTimelineEvent = {
       id: uuidv4(),
@@ -484,7 +531,7 @@ class CaseManagementService extends EventEmitter {
       event_type: eventType,
       event_data: eventData,
       user_id: userId,
-      timestamp: new Date(),
+      timestamp,
     };
 
     this.timeline.set(event.id, event);
@@ -3,6 +3,8 @@
  * Enhanced incident case handling with workflow and collaboration
  */
 
+import type { ExtractedIndicator } from '../ioc-management/types';
+
 /**
  * Case status
  */
@@ -110,6 +112,7 @@ export interface CaseComment {
   user_id: string;
   type: CommentType;
   content: string;
+  iocs: ExtractedIndicator[]; // indicators found in the content
   metadata?: Record<string, any>;
   created_at: Date;
   updated_at: Date;
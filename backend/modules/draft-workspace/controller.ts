@@ -231,6 +231,32 @@ export async function getDraftRevisions(req: Request, res: Response): Promise<vo
   }
 }
 
+/**
+ * Get indicators found in a draft
+ */
+export async function getDraftIndicators(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Unauthorized' });
+      return;
+    }
+
+    const indicators = await draftWorkspaceService.getDraftIndicators(id, userId);
+
+    res.json({
+      success: true,
+      data: indicators,
+      count: indicators.length,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to extract indicators';
+    res.status(400).json({ success: false, error: message });
+  }
+}
+
 /**
  * Restore draft to specific revision
  */
@@ -17,6 +17,7 @@ router.put('/drafts/:id', controller.updateDraft);
 router.post('/drafts/:id/submit', controller.submitDraft);
 router.post('/drafts/:id/discard', controller.discardDraft);
 router.delete('/drafts/:id', controller.deleteDraft);
+router.get('/drafts/:id/iocs', controller.getDraftIndicators);
 
 // Revision endpoints
 router.get('/drafts/:id/revisions', controller.getDraftRevisions);
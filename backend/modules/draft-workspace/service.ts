@@ -5,6 +5,8 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
+import iocExtractor from '../ioc-management/services/iocExtractor';
+import type { ExtractedIndicator } from '../ioc-management/types';
 import {
   Draft,
   DraftRevision,
@@ -17,6 +19,16 @@ import {
   DraftStatus,
 } from './types';
 
+/**
+ * Text values of draft content, at any depth
+ */
+const contentText = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(contentText);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(contentText);
+  return [];
+};
+
 /**
  * Draft workspace service
  */
@@ -243,6 +255,20 @@ class DraftWorkspaceService extends EventEmitter {
     return revisions;
   }
 
+  /**
+   * Get the indicators found in the text of a draft's content
+   */
+  async getDraftIndicators(draftId: string, userId: string): Promise<ExtractedIndicator[]> {
+    const draft = await this.getDraft(draftId, userId);
+
+    if (!draft) {
+      throw new Error('Draft not found');
+    }
+
+    const text = [draft.title, ...contentText(draft.content)].join('\n');
+    return [...iocExtractor.extract(text).indicators];
+  }
+
   /**
    * Restore draft to a specific revision
    */
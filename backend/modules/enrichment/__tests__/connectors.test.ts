@@ -0,0 +1,269 @@
+/**
+ * Test suite for the built-in enrichment connectors
+ */
+
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import {
+  GeoIpConnector,
+  AsnConnector,
+  PassiveDnsConnector,
+  WhoisConnector,
+  HttpReputationConnector,
+  virusTotalService,
+  abuseIpDbService,
+  IpRangeTable,
+} from '../connectors';
+import { parseCsvLine } from '../connectors/files';
+
+describe('IP range table', () => {
+  it('should find the network holding IPv4, IPv6 and IPv4-mapped addresses', () => {
+    const table = new IpRangeTable<string>();
+    table.add('10.0.0.0/8', 'ten');
+    table.add('192.168.1.0/24', 'lan');
+    table.add('2001:db8::/32', 'doc');
+    table.add('::ffff:203.0.113.0/120', 'mapped');
+    expect(table.add('10.0.0.0/40', 'bad')).toBe(false);
+
+    expect(table.find('10.200.3.4')).toBe('ten');
+    expect(table.find('192.168.1.255')).toBe('lan');
+    expect(table.find('192.168.2.1')).toBeUndefined();
+    expect(table.find('2001:db8:1::5')).toBe('doc');
+    expect(table.find('203.0.113.9')).toBe('mapped');
+    expect(table.find('::ffff:10.1.1.1')).toBe('ten');
+    expect(table.find('not an ip')).toBeUndefined();
+  });
+
+  it('should split quoted CSV fields', () => {
+    expect(parseCsvLine('1.0.0.0/24,13335,"Cloudflare, ""Inc."""'))
+      .toEqual(['1.0.0.0/24', '13335', 'Cloudflare, "Inc."']);
+  });
+});
+
+describe('Offline enrichment connectors', () => {
+  let dir: string;
+  const file = (name: string, lines: string[]) => {
+    const path = join(dir, name);
+    writeFileSync(path, `${lines.join('\n')}\n`);
+    return path;
+  };
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'enrichment-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should locate addresses with GeoLite2 city blocks and locations', async () => {
+    const connector = new GeoIpConnector({
+      paths: [
+        file('City-Blocks-IPv4.csv', [
+          'network,geoname_id,registered_country_geoname_id,latitude,longitude',
+          '81.2.69.0/24,2643743,2635167,51.5142,-0.0931',
+          '89.160.20.0/24,,2661886,,',
+        ]),
+        file('City-Blocks-IPv6.csv', [
+          'network,geoname_id,registered_country_geoname_id,latitude,longitude',
+          '2a02:cf40::/29,2643743,2635167,51.5,-0.1',
+        ]),
+      ],
+      locations: [file('City-Locations-en.csv', [
+        'geoname_id,locale_code,country_iso_code,country_name,city_name',
+        '2643743,en,GB,"United Kingdom",London',
+        '2661886,en,SE,Sweden,',
+      ])],
+      cacheTtl: 60,
+    });
+
+    expect(connector.isConfigured()).toBe(true);
+    expect(await connector.lookup({ type: 'ip', value: '81.2.69.160' })).toEqual({
+      geolocation: {
+        country: 'GB', city: 'London', latitude: 51.5142, longitude: -0.0931,
+      },
+    });
+    expect((await connector.lookup({ type: 'ip', value: '89.160.20.112' })).geolocation)
+      .toMatchObject({ country: 'SE', city: undefined });
+    expect((await connector.lookup({ type: 'ip', value: '2a02:cf40::1' })).geolocation.city)
+      .toBe('London');
+    expect(await connector.lookup({ type: 'ip', value: '8.8.8.8' })).toBeUndefined();
+  });
+
+  it('should find the autonomous system of an address', async () => {
+    const connector = new AsnConnector({
+      paths: [file('ASN-Blocks.csv', [
+        'network,autonomous_system_number,autonomous_system_organization',
+        '1.0.0.0/24,13335,"Cloudflare, Inc."',
+      ])],
+      cacheTtl: 60,
+    });
+
+    expect(await connector.lookup({ type: 'ip', value: '1.0.0.1' }))
+      .toEqual({ asn: { asn: 'AS13335', organization: 'Cloudflare, Inc.' } });
+    expect(new AsnConnector({ paths: [], cacheTtl: 60 }).isConfigured()).toBe(false);
+  });
+
+  it('should look passive DNS up by name and by resolved address', async () => {
+    const connector = new PassiveDnsConnector({
+      paths: [file('pdns.ndjson', [
+        JSON.stringify({
+          rrname: 'evil.example.',
+          rrtype: 'A',
+          rdata: ['203.0.113.5'],
+          time_first: 1700000000,
+          time_last: 1700086400,
+          count: 12,
+        }),
+        'not json',
+        JSON.stringify({
+          rrname: 'cdn.evil.example', rrtype: 'A', rdata: '203.0.113.5', time_last: 1710000000,
+        }),
+      ])],
+      cacheTtl: 60,
+    });
+
+    const byName = await connector.lookup({ type: 'domain', value: 'EVIL.example' });
+    expect(byName.dns).toEqual([{
+      rrname: 'evil.example',
+      rrtype: 'A',
+      rdata: '203.0.113.5',
+      firstSeen: '2023-11-14T22:13:20.000Z',
+      lastSeen: '2023-11-15T22:13:20.000Z',
+      count: 12,
+    }]);
+
+    const byAddress = await connector.lookup({ type: 'ip', value: '203.0.113.5' });
+    expect(byAddress.dns.map((record) => record.rrname)).toEqual(['cdn.evil.example', 'evil.example']);
+  });
+
+  it('should return the WHOIS record of the closest registered parent domain', async () => {
+    const connector = new WhoisConnector({
+      paths: [file('whois.ndjson', [
+        JSON.stringify({
+          domain_name: 'Evil.Example',
+          registrar: 'Example Registrar',
+          creation_date: '2024-01-02',
+          registrant_organization: 'Evil Corp',
+          registrant_country: 'PA',
+        }),
+      ])],
+      cacheTtl: 60,
+    });
+
+    expect(await connector.lookup({ type: 'domain', value: 'login.evil.example' })).toEqual({
+      whois: {
+        domain: 'evil.example',
+        registrar: 'Example Registrar',
+        createdDate: '2024-01-02T00:00:00.000Z',
+        expiresDate: undefined,
+        registrant: 'Evil Corp',
+        country: 'PA',
+      },
+    });
+    expect(await connector.lookup({ type: 'domain', value: 'example' })).toBeUndefined();
+  });
+
+  it('should report a failure to read its files', async () => {
+    const connector = new WhoisConnector({ paths: [join(dir, 'missing.ndjson')], cacheTtl: 60 });
+    await expect(connector.lookup({ type: 'domain', value: 'a.example' })).rejects.toThrow();
+  });
+});
+
+describe('HTTP reputation connectors', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { url: string; headers: Record<string, any> }[] = [];
+
+  beforeAll((done) => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers });
+      const reply = (status: number, body: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      if (req.url === '/vt/ip_addresses/198.51.100.7') {
+        reply(200, {
+          data: {
+            attributes: {
+              last_analysis_stats: {
+                malicious: 30, suspicious: 10, harmless: 40, undetected: 20,
+              },
+              last_analysis_date: 1700000000,
+              country: 'RU',
+              asn: 64500,
+              as_owner: 'Bulletproof Hosting',
+            },
+          },
+        });
+      } else if (req.url.startsWith('/abuse/check?ipAddress=198.51.100.7')) {
+        reply(200, {
+          data: {
+            abuseConfidenceScore: 85, totalReports: 42, countryCode: 'RU', isp: 'BP Hosting',
+          },
+        });
+      } else if (req.url.startsWith('/vt/urls/')) {
+        reply(500, { error: 'boom' });
+      } else {
+        reply(404, { error: 'NotFoundError' });
+      }
+    });
+    server.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  const config = (path: string, apiKey: string = 'secret') => ({
+    url: `${baseUrl}${path}`,
+    apiKey,
+    timeout: 5,
+    rateLimit: { requests: 4, interval: 60 },
+    cacheTtl: 60,
+  });
+
+  it('should score VirusTotal analysis stats and pass the API key', async () => {
+    const connector = new HttpReputationConnector(virusTotalService, config('/vt'));
+
+    expect(await connector.lookup({ type: 'ip', value: '198.51.100.7' })).toEqual({
+      reputation: {
+        score: 65,
+        category: 'suspicious',
+        detections: 30,
+        total: 100,
+        lastReportedAt: '2023-11-14T22:13:20.000Z',
+      },
+      geolocation: { country: 'RU' },
+      asn: { asn: 'AS64500', organization: 'Bulletproof Hosting' },
+    });
+    expect(requests[requests.length - 1].headers['x-apikey']).toBe('secret');
+
+    expect(await connector.lookup({ type: 'domain', value: 'unknown.example' })).toBeUndefined();
+    await expect(connector.lookup({ type: 'url', value: 'http://evil.example/x' }))
+      .rejects.toThrow('virustotal responded with HTTP 500');
+    expect(requests[requests.length - 1].url)
+      .toBe(`/vt/urls/${Buffer.from('http://evil.example/x').toString('base64url')}`);
+  });
+
+  it('should invert the AbuseIPDB confidence score', async () => {
+    const connector = new HttpReputationConnector(abuseIpDbService, config('/abuse'));
+
+    expect(await connector.lookup({ type: 'ip', value: '198.51.100.7' })).toEqual({
+      reputation: {
+        score: 15, category: 'malicious', detections: 42, lastReportedAt: undefined,
+      },
+      geolocation: { country: 'RU', isp: 'BP Hosting' },
+    });
+    expect(requests[requests.length - 1].headers.key).toBe('secret');
+    expect(new HttpReputationConnector(abuseIpDbService, config('/abuse', ''))
+      .isConfigured()).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Test suite for the enrichment service and its use by IOC enrichment
+ */
+
+import { EnrichmentService } from '../services/enrichmentService';
+import enrichmentService from '../services/enrichmentService';
+import connectorRegistry, { ConnectorRegistry } from '../registry';
+import { EnrichmentError } from '../errors';
+import iocService from '../../ioc-management/services/iocService';
+import IoC from '../../ioc-management/models/IoC';
+import type {
+  EnrichmentConnector, EnrichmentFindings, EnrichmentRecord, Observable,
+} from '../types';
+
+jest.mock('../../../utils/cache', () => {
+  const store = new Map<string, string>();
+  return {
+    cacheService: {
+      get: async (key: string) => (store.has(key) ? JSON.parse(store.get(key)) : null),
+      set: async (key: string, value: unknown) => {
+        store.set(key, JSON.stringify(value));
+        return true;
+      },
+      clear: () => store.clear(),
+    },
+  };
+});
+
+jest.mock('../../ioc-management/models/IoC', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), findOneAndUpdate: jest.fn() },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { cacheService } = require('../../../utils/cache');
+
+type Lookup = (observable: Observable) => Promise<EnrichmentFindings | undefined>;
+
+const connector = (
+  name: string,
+  lookup: Lookup,
+  overrides: Partial<EnrichmentConnector> = {},
+): EnrichmentConnector & { calls: Observable[] } => {
+  const calls: Observable[] = [];
+  return {
+    name,
+    description: name,
+    observableTypes: ['ip', 'domain'],
+    provides: ['reputation'],
+    rateLimit: { requests: 0, interval: 60 },
+    cacheTtl: 60,
+    isConfigured: () => true,
+    lookup: (observable) => {
+      calls.push(observable);
+      return lookup(observable);
+    },
+    calls,
+    ...overrides,
+  };
+};
+
+const record = (
+  source: string,
+  status: EnrichmentRecord['status'],
+  findings?: EnrichmentFindings,
+): EnrichmentRecord => ({
+  source,
+  observable: { type: 'ip', value: '198.51.100.7' },
+  status,
+  fetchedAt: new Date('2026-01-01T00:00:00Z'),
+  cached: false,
+  findings,
+});
+
+describe('Enrichment service', () => {
+  beforeEach(() => {
+    cacheService.clear();
+  });
+
+  it('should query matching connectors and cache their results', async () => {
+    const geo = connector('geo', async () => ({ geolocation: { country: 'NL' } }), {
+      provides: ['geolocation'],
+    });
+    const unconfigured = connector('off', async () => ({}), { isConfigured: () => false });
+    const hashes = connector('hashes', async () => ({}), { observableTypes: ['hash'] });
+    const service = new EnrichmentService(new ConnectorRegistry([geo, unconfigured, hashes]));
+
+    const [first] = await service.enrich({ type: 'ip', value: ' 198.51.100.7 ' });
+    expect(first).toMatchObject({
+      source: 'geo',
+      status: 'ok',
+      cached: false,
+      observable: { type: 'ip', value: '198.51.100.7' },
+      findings: { geolocation: { country: 'NL' } },
+    });
+
+    const [second] = await service.enrich({ type: 'ip', value: '198.51.100.7' });
+    expect(second.cached).toBe(true);
+    expect(second.fetchedAt).toBeInstanceOf(Date);
+    expect(geo.calls).toHaveLength(1);
+
+    await service.enrich({ type: 'ip', value: '198.51.100.7' }, { refresh: true });
+    expect(geo.calls).toHaveLength(2);
+    expect(unconfigured.calls).toHaveLength(0);
+    expect(hashes.calls).toHaveLength(0);
+
+    expect(await service.enrich({ type: 'ip', value: '1.1.1.1' }, { findings: ['dns'] }))
+      .toEqual([]);
+    expect(await service.enrich({ type: 'ip', value: '1.1.1.1' }, { connectors: ['other'] }))
+      .toEqual([]);
+  });
+
+  it('should report failed lookups without caching them', async () => {
+    let fail = true;
+    const flaky = connector('flaky', async () => {
+      if (fail) throw new Error('service unavailable');
+      return undefined;
+    });
+    const service = new EnrichmentService(new ConnectorRegistry([flaky]));
+
+    expect(await service.enrich({ type: 'domain', value: 'Evil.Example.' })).toEqual([
+      expect.objectContaining({
+        status: 'error',
+        error: 'service unavailable',
+        observable: { type: 'domain', value: 'evil.example' },
+      }),
+    ]);
+
+    fail = false;
+    const [retried] = await service.enrich({ type: 'domain', value: 'evil.example' });
+    expect(retried).toMatchObject({ status: 'not_found', cached: false });
+    expect(flaky.calls).toHaveLength(2);
+  });
+
+  it('should skip lookups beyond the connector rate limit', async () => {
+    const limited = connector('limited', async () => ({}), {
+      rateLimit: { requests: 1, interval: 3600 },
+    });
+    const service = new EnrichmentService(new ConnectorRegistry([limited]));
+
+    const [first] = await service.enrich({ type: 'ip', value: '203.0.113.1' });
+    const [second] = await service.enrich({ type: 'ip', value: '203.0.113.2' });
+    expect(first.status).toBe('ok');
+    expect(second.status).toBe('rate_limited');
+    expect(limited.calls).toHaveLength(1);
+  });
+
+  it('should summarize findings across connectors', () => {
+    const service = new EnrichmentService(new ConnectorRegistry([]));
+    const summary = service.summarize([
+      record('geoip', 'ok', { geolocation: { country: 'NL', city: 'Amsterdam' } }),
+      record('virustotal', 'ok', {
+        geolocation: { country: 'DE', latitude: 52.4 },
+        asn: { asn: 'AS64500' },
+        reputation: { score: 20, category: 'malicious', detections: 40 },
+      }),
+      record('abuseipdb', 'ok', {
+        reputation: { score: 60, category: 'suspicious', detections: 2 },
+      }),
+      record('broken', 'error'),
+    ]);
+
+    expect(summary).toEqual({
+      geolocation: { country: 'NL', city: 'Amsterdam', latitude: 52.4 },
+      asn: { asn: 'AS64500' },
+      dns: undefined,
+      whois: undefined,
+      reputation: { score: 40, category: 'suspicious', detections: 42 },
+    });
+  });
+
+  it('should keep previous records when a refresh was rate limited', () => {
+    const service = new EnrichmentService(new ConnectorRegistry([]));
+    const previous = [record('geoip', 'ok', {}), record('virustotal', 'ok', {})];
+
+    const merged = service.mergeRecords(previous, [
+      record('geoip', 'not_found'),
+      record('virustotal', 'rate_limited'),
+      record('abuseipdb', 'rate_limited'),
+    ]);
+
+    expect(merged.map((entry) => [entry.source, entry.status])).toEqual([
+      ['virustotal', 'ok'],
+      ['geoip', 'not_found'],
+      ['abuseipdb', 'rate_limited'],
+    ]);
+  });
+});
+
+describe('IOC enrichment', () => {
+  const reputation = connector('test-reputation', async () => ({
+    reputation: { score: 10, category: 'malicious', detections: 55 },
+    geolocation: { country: 'RU', isp: 'BP Hosting' },
+    asn: { asn: 'AS64500' },
+  }), { provides: ['reputation', 'geolocation', 'asn'] });
+
+  beforeAll(() => {
+    connectorRegistry.register(reputation);
+  });
+
+  afterAll(() => {
+    connectorRegistry.unregister(reputation.name);
+  });
+
+  beforeEach(() => {
+    cacheService.clear();
+  });
+
+  it('should store the summary and the source records on the IOC', async () => {
+    const ioc = {
+      id: 'ioc-1', type: 'ip', value: '198.51.100.7', enrichment: { sources: [] },
+    };
+    (IoC.findOne as jest.Mock).mockResolvedValue(ioc);
+    (IoC.findOneAndUpdate as jest.Mock).mockImplementation(async (_filter, update) => ({
+      ...ioc, ...update,
+    }));
+
+    const enriched = await iocService.enrichIoC('ioc-1', { connectors: [reputation.name] });
+
+    const update = (IoC.findOneAndUpdate as jest.Mock).mock.calls[0][1];
+    expect(update.enrichment).toMatchObject({
+      reputation_score: 10,
+      geolocation: { country: 'RU', isp: 'BP Hosting', asn: 'AS64500' },
+      sources: [expect.objectContaining({ source: reputation.name, status: 'ok' })],
+    });
+    expect(update.enrichment.enriched_at).toBeInstanceOf(Date);
+    expect(enriched.enrichment.reputation_score).toBe(10);
+    expect(enrichmentService.listConnectors().map((info) => info.name))
+      .toContain(reputation.name);
+  });
+
+  it('should refuse IOC types without an observable form', async () => {
+    (IoC.findOne as jest.Mock).mockResolvedValue({
+      id: 'ioc-2', type: 'registry_key', value: 'HKLM\\Run',
+    });
+
+    await expect(iocService.enrichIoC('ioc-2')).rejects.toThrow('cannot be enriched');
+    await expect(iocService.enrichIoC('ioc-2')).rejects.toBeInstanceOf(EnrichmentError);
+    expect(IoC.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Enrichment Connector Configuration
+ * Offline sources read local files, given as comma-separated paths:
+ * - ENRICHMENT_GEOIP_BLOCKS and ENRICHMENT_GEOIP_LOCATIONS: MaxMind GeoLite2
+ *   City or Country CSV (blocks and locations files, IPv4 and IPv6)
+ * - ENRICHMENT_ASN_BLOCKS: MaxMind GeoLite2 ASN CSV
+ * - ENRICHMENT_PASSIVE_DNS_FILES: passive DNS in Common Output Format (NDJSON)
+ * - ENRICHMENT_WHOIS_FILES: WHOIS records (NDJSON)
+ *
+ * HTTP reputation services are used once their API key is set
+ * (ENRICHMENT_VIRUSTOTAL_API_KEY, ENRICHMENT_ABUSEIPDB_API_KEY); their base URL
+ * (ENRICHMENT_<SERVICE>_URL) can point at a local stand-in. ENRICHMENT_<SERVICE>_RATE
+ * lookups are allowed every ENRICHMENT_<SERVICE>_RATE_INTERVAL seconds, and
+ * ENRICHMENT_HTTP_TIMEOUT is the request timeout in seconds. Results of every
+ * connector are cached for ENRICHMENT_<CONNECTOR>_CACHE_TTL seconds.
+ */
+
+import type { ConnectorRateLimit } from '../types';
+
+export interface FileConnectorConfig {
+  readonly paths: readonly string[];
+  readonly cacheTtl: number;
+}
+
+export interface GeoIpConnectorConfig extends FileConnectorConfig {
+  readonly locations: readonly string[];
+}
+
+export interface HttpConnectorConfig {
+  readonly url: string;
+  readonly apiKey?: string;
+  readonly timeout: number; // seconds
+  readonly rateLimit: ConnectorRateLimit;
+  readonly cacheTtl: number;
+}
+
+export interface ConnectorConfig {
+  readonly geoip: GeoIpConnectorConfig;
+  readonly asn: FileConnectorConfig;
+  readonly passiveDns: FileConnectorConfig;
+  readonly whois: FileConnectorConfig;
+  readonly virustotal: HttpConnectorConfig;
+  readonly abuseipdb: HttpConnectorConfig;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const pathsFromEnv = (name: string): string[] => (process.env[name] || '')
+  .split(',')
+  .map((path) => path.trim())
+  .filter(Boolean);
+
+const httpFromEnv = (
+  name: string,
+  url: string,
+  { requests, interval }: ConnectorRateLimit,
+): HttpConnectorConfig => ({
+  url: (process.env[`ENRICHMENT_${name}_URL`] || url).replace(/\/+$/, ''),
+  apiKey: process.env[`ENRICHMENT_${name}_API_KEY`] || undefined,
+  timeout: numberFromEnv('ENRICHMENT_HTTP_TIMEOUT', 10),
+  rateLimit: {
+    requests: numberFromEnv(`ENRICHMENT_${name}_RATE`, requests),
+    interval: numberFromEnv(`ENRICHMENT_${name}_RATE_INTERVAL`, interval),
+  },
+  cacheTtl: numberFromEnv(`ENRICHMENT_${name}_CACHE_TTL`, 3600),
+});
+
+/**
+ * Read the connector configuration from the environment
+ */
+export const loadConnectorConfig = (): ConnectorConfig => ({
+  geoip: {
+    paths: pathsFromEnv('ENRICHMENT_GEOIP_BLOCKS'),
+    locations: pathsFromEnv('ENRICHMENT_GEOIP_LOCATIONS'),
+    cacheTtl: numberFromEnv('ENRICHMENT_GEOIP_CACHE_TTL', 86400),
+  },
+  asn: {
+    paths: pathsFromEnv('ENRICHMENT_ASN_BLOCKS'),
+    cacheTtl: numberFromEnv('ENRICHMENT_ASN_CACHE_TTL', 86400),
+  },
+  passiveDns: {
+    paths: pathsFromEnv('ENRICHMENT_PASSIVE_DNS_FILES'),
+    cacheTtl: numberFromEnv('ENRICHMENT_PASSIVE_DNS_CACHE_TTL', 3600),
+  },
+  whois: {
+    paths: pathsFromEnv('ENRICHMENT_WHOIS_FILES'),
+    cacheTtl: numberFromEnv('ENRICHMENT_WHOIS_CACHE_TTL', 86400),
+  },
+  // Free API quotas: 4 lookups a minute for VirusTotal, 1000 a day for AbuseIPDB
+  virustotal: httpFromEnv('VIRUSTOTAL', 'https://www.virustotal.com/api/v3', {
+    requests: 4, interval: 60,
+  }),
+  abuseipdb: httpFromEnv('ABUSEIPDB', 'https://api.abuseipdb.com/api/v2', {
+    requests: 1000, interval: 86400,
+  }),
+});
+
+export default { loadConnectorConfig };
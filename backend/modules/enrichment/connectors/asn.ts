@@ -0,0 +1,76 @@
+/**
+ * ASN Connector
+ * Finds the autonomous system announcing an IP address in an offline MaxMind
+ * GeoLite2 ASN CSV database (`network`, `autonomous_system_number`,
+ * `autonomous_system_organization`). The files are loaded on the first lookup.
+ */
+
+import { IpRangeTable } from './ipRangeTable';
+import { readCsv } from './files';
+import logger from '../utils/logger';
+import type { FileConnectorConfig } from '../config/connectors';
+import type {
+  AsnInfo, EnrichmentConnector, EnrichmentFindings, Observable,
+} from '../types';
+
+class AsnConnector implements EnrichmentConnector {
+  readonly name = 'asn';
+
+  readonly description = 'Offline MaxMind GeoLite2 ASN database';
+
+  readonly observableTypes = ['ip' as const];
+
+  readonly provides = ['asn' as const];
+
+  readonly rateLimit = { requests: 0, interval: 60 };
+
+  readonly cacheTtl: number;
+
+  private table?: Promise<IpRangeTable<AsnInfo>>;
+
+  constructor(private config: FileConnectorConfig) {
+    this.cacheTtl = config.cacheTtl;
+  }
+
+  isConfigured(): boolean {
+    return this.config.paths.length > 0;
+  }
+
+  async lookup({ value }: Observable): Promise<EnrichmentFindings | undefined> {
+    const asn = (await this.load()).find(value);
+    return asn ? { asn } : undefined;
+  }
+
+  /**
+   * Read the files again on the next lookup
+   */
+  reload(): void {
+    this.table = undefined;
+  }
+
+  private load(): Promise<IpRangeTable<AsnInfo>> {
+    if (!this.table) {
+      this.table = this.read().catch((error) => {
+        this.table = undefined;
+        throw error;
+      });
+    }
+    return this.table;
+  }
+
+  private async read(): Promise<IpRangeTable<AsnInfo>> {
+    const table = new IpRangeTable<AsnInfo>();
+    await readCsv(this.config.paths, (row) => {
+      if (!row.autonomous_system_number) return;
+      table.add(row.network, {
+        asn: `AS${row.autonomous_system_number}`,
+        organization: row.autonomous_system_organization || undefined,
+      });
+    });
+    logger.info('ASN database loaded', { networks: table.size });
+    return table;
+  }
+}
+
+export { AsnConnector };
+export default AsnConnector;
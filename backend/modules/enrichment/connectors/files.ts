@@ -0,0 +1,103 @@
+/**
+ * Dataset File Readers
+ * Offline connectors stream their files line by line, so large dumps are not
+ * held in memory as text. CSV files start with a header row; NDJSON files
+ * hold one JSON object per line, and lines that do not parse are skipped.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+/**
+ * Call `onLine` for every line of every file, in order
+ */
+export const readLines = async (
+  paths: readonly string[],
+  onLine: (line: string) => void,
+): Promise<void> => {
+  await paths.reduce(async (previous, path) => {
+    await previous;
+    const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+    for await (const line of lines) onLine(line);
+  }, Promise.resolve());
+};
+
+/**
+ * Split a CSV line; quoted fields may contain commas and doubled quotes
+ */
+export const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += char;
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+/**
+ * Call `onRow` with every data row of every CSV file, keyed by its header
+ */
+export const readCsv = async (
+  paths: readonly string[],
+  onRow: (row: Record<string, string>) => void,
+): Promise<void> => {
+  await paths.reduce(async (previous, path) => {
+    await previous;
+    let header: string[] | undefined;
+    await readLines([path], (line) => {
+      if (!line.trim()) return;
+      const fields = parseCsvLine(line);
+      if (!header) {
+        header = fields.map((name) => name.trim());
+        return;
+      }
+      onRow(Object.fromEntries(header.map((name, i) => [name, fields[i] ?? ''])));
+    });
+  }, Promise.resolve());
+};
+
+/**
+ * Call `onRecord` with every JSON object of every NDJSON file
+ */
+export const readNdjson = async (
+  paths: readonly string[],
+  onRecord: (record: Record<string, any>) => void,
+): Promise<void> => {
+  await readLines(paths, (line) => {
+    if (!line.trim()) return;
+    try {
+      const record = JSON.parse(line);
+      if (record && typeof record === 'object' && !Array.isArray(record)) onRecord(record);
+    } catch (error) {
+      // Not JSON: skipped
+    }
+  });
+};
+
+/**
+ * ISO form of an epoch-seconds or date-string timestamp
+ */
+export const toIsoDate = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = typeof value === 'number' ? value * 1000 : Date.parse(String(value));
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
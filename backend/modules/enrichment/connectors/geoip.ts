@@ -0,0 +1,98 @@
+/**
+ * GeoIP Connector
+ * Locates IP addresses with an offline MaxMind GeoLite2 City or Country CSV
+ * database: the blocks files map networks to a geoname ID (and, for City, to
+ * coordinates), the locations files map geoname IDs to country and city.
+ * Blocks files that carry `country_iso_code` and `city_name` themselves need
+ * no locations file. The files are loaded on the first lookup.
+ */
+
+import { IpRangeTable } from './ipRangeTable';
+import { readCsv } from './files';
+import logger from '../utils/logger';
+import type { GeoIpConnectorConfig } from '../config/connectors';
+import type {
+  EnrichmentConnector, EnrichmentFindings, GeoLocation, Observable,
+} from '../types';
+
+interface Place {
+  readonly country?: string;
+  readonly city?: string;
+}
+
+const coordinate = (value: string): number | undefined => (
+  value === undefined || value === '' ? undefined : Number(value)
+);
+
+class GeoIpConnector implements EnrichmentConnector {
+  readonly name = 'geoip';
+
+  readonly description = 'Offline MaxMind GeoLite2 City/Country database';
+
+  readonly observableTypes = ['ip' as const];
+
+  readonly provides = ['geolocation' as const];
+
+  readonly rateLimit = { requests: 0, interval: 60 };
+
+  readonly cacheTtl: number;
+
+  private table?: Promise<IpRangeTable<GeoLocation>>;
+
+  constructor(private config: GeoIpConnectorConfig) {
+    this.cacheTtl = config.cacheTtl;
+  }
+
+  isConfigured(): boolean {
+    return this.config.paths.length > 0;
+  }
+
+  async lookup({ value }: Observable): Promise<EnrichmentFindings | undefined> {
+    const geolocation = (await this.load()).find(value);
+    return geolocation ? { geolocation } : undefined;
+  }
+
+  /**
+   * Read the files again on the next lookup
+   */
+  reload(): void {
+    this.table = undefined;
+  }
+
+  private load(): Promise<IpRangeTable<GeoLocation>> {
+    if (!this.table) {
+      this.table = this.read().catch((error) => {
+        this.table = undefined;
+        throw error;
+      });
+    }
+    return this.table;
+  }
+
+  private async read(): Promise<IpRangeTable<GeoLocation>> {
+    const places = new Map<string, Place>();
+    await readCsv(this.config.locations, (row) => {
+      places.set(row.geoname_id, {
+        country: row.country_iso_code || undefined,
+        city: row.city_name || undefined,
+      });
+    });
+
+    const table = new IpRangeTable<GeoLocation>();
+    await readCsv(this.config.paths, (row) => {
+      const place = places.get(row.geoname_id)
+        || places.get(row.registered_country_geoname_id)
+        || { country: row.country_iso_code || undefined, city: row.city_name || undefined };
+      table.add(row.network, {
+        ...place,
+        latitude: coordinate(row.latitude),
+        longitude: coordinate(row.longitude),
+      });
+    });
+    logger.info('GeoIP database loaded', { networks: table.size, locations: places.size });
+    return table;
+  }
+}
+
+export { GeoIpConnector };
+export default GeoIpConnector;
@@ -0,0 +1,86 @@
+/**
+ * HTTP Reputation Connector
+ * Looks observables up in a reputation web service described by an
+ * HttpReputationService: where to send the lookup, how to pass the API key
+ * and how to read the response. The base URL comes from the configuration,
+ * so a local service with the same API can stand in for the real one. A 404
+ * means the service does not know the observable.
+ */
+
+import logger from '../utils/logger';
+import type { HttpConnectorConfig } from '../config/connectors';
+import type {
+  EnrichmentConnector,
+  EnrichmentFindings,
+  FindingKind,
+  Observable,
+  ObservableType,
+  ReputationCategory,
+} from '../types';
+
+export interface HttpReputationService {
+  readonly name: string;
+  readonly description: string;
+  readonly observableTypes: readonly ObservableType[];
+  readonly provides: readonly FindingKind[];
+  /** Path and query of the lookup, relative to the base URL */
+  path(observable: Observable): string;
+  /** Headers carrying the API key */
+  headers(apiKey: string): Record<string, string>;
+  /** Findings in a successful response, if any */
+  parse(body: any): EnrichmentFindings | undefined;
+}
+
+/**
+ * Category of a 0 (malicious) to 100 (clean) reputation score
+ */
+export const reputationCategory = (score: number): ReputationCategory => {
+  if (score < 30) return 'malicious';
+  if (score < 70) return 'suspicious';
+  return 'clean';
+};
+
+class HttpReputationConnector implements EnrichmentConnector {
+  readonly name: string;
+
+  readonly description: string;
+
+  readonly observableTypes: readonly ObservableType[];
+
+  readonly provides: readonly FindingKind[];
+
+  readonly rateLimit: HttpConnectorConfig['rateLimit'];
+
+  readonly cacheTtl: number;
+
+  constructor(private service: HttpReputationService, private config: HttpConnectorConfig) {
+    this.name = service.name;
+    this.description = service.description;
+    this.observableTypes = service.observableTypes;
+    this.provides = service.provides;
+    this.rateLimit = config.rateLimit;
+    this.cacheTtl = config.cacheTtl;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.apiKey);
+  }
+
+  async lookup(observable: Observable): Promise<EnrichmentFindings | undefined> {
+    const response = await fetch(`${this.config.url}${this.service.path(observable)}`, {
+      headers: { Accept: 'application/json', ...this.service.headers(this.config.apiKey) },
+      signal: AbortSignal.timeout(this.config.timeout * 1000),
+    });
+    if (response.status === 404) return undefined;
+    if (!response.ok) {
+      logger.warn('Reputation service lookup failed', {
+        connector: this.name, status: response.status,
+      });
+      throw new Error(`${this.name} responded with HTTP ${response.status}`);
+    }
+    return this.service.parse(await response.json());
+  }
+}
+
+export { HttpReputationConnector };
+export default HttpReputationConnector;
@@ -0,0 +1,40 @@
+/**
+ * Built-in Enrichment Connectors
+ */
+
+import { GeoIpConnector } from './geoip';
+import { AsnConnector } from './asn';
+import { PassiveDnsConnector } from './passiveDns';
+import { WhoisConnector } from './whois';
+import { HttpReputationConnector } from './httpReputation';
+import { virusTotalService, abuseIpDbService } from './reputationServices';
+import { loadConnectorConfig } from '../config/connectors';
+import type { ConnectorConfig } from '../config/connectors';
+import type { EnrichmentConnector } from '../types';
+
+/**
+ * One connector per built-in source; unconfigured ones are skipped at lookup
+ */
+export const createBuiltInConnectors = (
+  config: ConnectorConfig = loadConnectorConfig(),
+): EnrichmentConnector[] => [
+  new GeoIpConnector(config.geoip),
+  new AsnConnector(config.asn),
+  new PassiveDnsConnector(config.passiveDns),
+  new WhoisConnector(config.whois),
+  new HttpReputationConnector(virusTotalService, config.virustotal),
+  new HttpReputationConnector(abuseIpDbService, config.abuseipdb),
+];
+
+export {
+  GeoIpConnector,
+  AsnConnector,
+  PassiveDnsConnector,
+  WhoisConnector,
+  HttpReputationConnector,
+  virusTotalService,
+  abuseIpDbService,
+};
+export { reputationCategory } from './httpReputation';
+export type { HttpReputationService } from './httpReputation';
+export { IpRangeTable } from './ipRangeTable';
@@ -0,0 +1,87 @@
+/**
+ * IP Range Table
+ * Maps CIDR networks to values and finds the network holding an address with
+ * a binary search. Ranges are expected not to overlap, as in MaxMind
+ * databases; IPv4-mapped IPv6 networks and addresses are treated as IPv4.
+ */
+
+import { isIP } from 'net';
+import { parseIp } from '../../siem/ioc/iocIndex';
+
+interface Range<T> {
+  readonly start: bigint;
+  readonly end: bigint;
+  readonly value: T;
+}
+
+const ADDRESS_BITS = { 4: 32, 6: 128 };
+
+const pow2 = (bits: number): bigint => BigInt(2) ** BigInt(bits);
+
+class IpRangeTable<T> {
+  private ranges: Record<4 | 6, Range<T>[]> = { 4: [], 6: [] };
+
+  private sorted = true;
+
+  /**
+   * Add a network; false when it is not a valid CIDR range or address
+   */
+  add(network: string, value: T): boolean {
+    const [address, prefixText] = network.trim().split('/');
+    const ip = parseIp(address);
+    if (!ip) return false;
+
+    const bits = ADDRESS_BITS[ip.version];
+    let prefix = prefixText === undefined ? bits : Number(prefixText);
+    // ::ffff:0:0/96 and below describe IPv4 networks
+    if (ip.version === 4 && isIP(address) === 6) prefix -= 96;
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false;
+
+    const size = pow2(bits - prefix);
+    const start = (ip.value / size) * size;
+    this.ranges[ip.version].push({ start, end: start + size - BigInt(1), value });
+    this.sorted = false;
+    return true;
+  }
+
+  /**
+   * Value of the network holding the address
+   */
+  find(address: string): T | undefined {
+    const ip = parseIp(address);
+    if (!ip) return undefined;
+    if (!this.sorted) this.sort();
+
+    const ranges = this.ranges[ip.version];
+    let low = 0;
+    let high = ranges.length - 1;
+    let candidate: Range<T> | undefined;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (ranges[middle].start <= ip.value) {
+        candidate = ranges[middle];
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return candidate && candidate.end >= ip.value ? candidate.value : undefined;
+  }
+
+  get size(): number {
+    return this.ranges[4].length + this.ranges[6].length;
+  }
+
+  private sort(): void {
+    [4, 6].forEach((version) => {
+      this.ranges[version].sort((a: Range<T>, b: Range<T>) => {
+        if (a.start === b.start) return 0;
+        return a.start < b.start ? -1 : 1;
+      });
+    });
+    this.sorted = true;
+  }
+}
+
+export { IpRangeTable };
+export default IpRangeTable;
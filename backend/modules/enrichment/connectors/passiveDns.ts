@@ -0,0 +1,111 @@
+/**
+ * Passive DNS Connector
+ * Looks up local passive DNS dumps in the Passive DNS Common Output Format
+ * (NDJSON with `rrname`, `rrtype`, `rdata`, `time_first`, `time_last` and
+ * `count`). A domain returns the records observed for that name, an IP
+ * address the records that resolved to it. The files are loaded on the first
+ * lookup.
+ */
+
+import { readNdjson, toIsoDate } from './files';
+import logger from '../utils/logger';
+import type { FileConnectorConfig } from '../config/connectors';
+import type {
+  EnrichmentConnector, EnrichmentFindings, Observable, PassiveDnsRecord,
+} from '../types';
+
+interface DnsIndex {
+  readonly byName: Map<string, PassiveDnsRecord[]>;
+  readonly byData: Map<string, PassiveDnsRecord[]>;
+}
+
+// Newest records returned per lookup
+const MAX_RECORDS = 100;
+
+const normalizeName = (value: string): string => value.trim().toLowerCase().replace(/\.$/, '');
+
+const append = (index: Map<string, PassiveDnsRecord[]>, key: string, record: PassiveDnsRecord) => {
+  const records = index.get(key);
+  if (records) records.push(record);
+  else index.set(key, [record]);
+};
+
+class PassiveDnsConnector implements EnrichmentConnector {
+  readonly name = 'passive-dns';
+
+  readonly description = 'Local passive DNS dump (Common Output Format)';
+
+  readonly observableTypes = ['domain' as const, 'ip' as const];
+
+  readonly provides = ['dns' as const];
+
+  readonly rateLimit = { requests: 0, interval: 60 };
+
+  readonly cacheTtl: number;
+
+  private index?: Promise<DnsIndex>;
+
+  constructor(private config: FileConnectorConfig) {
+    this.cacheTtl = config.cacheTtl;
+  }
+
+  isConfigured(): boolean {
+    return this.config.paths.length > 0;
+  }
+
+  async lookup({ type, value }: Observable): Promise<EnrichmentFindings | undefined> {
+    const { byName, byData } = await this.load();
+    const records = (type === 'ip' ? byData : byName).get(normalizeName(value));
+    if (!records) return undefined;
+    return {
+      dns: [...records]
+        .sort((a, b) => (b.lastSeen || '').localeCompare(a.lastSeen || ''))
+        .slice(0, MAX_RECORDS),
+    };
+  }
+
+  /**
+   * Read the files again on the next lookup
+   */
+  reload(): void {
+    this.index = undefined;
+  }
+
+  private load(): Promise<DnsIndex> {
+    if (!this.index) {
+      this.index = this.read().catch((error) => {
+        this.index = undefined;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  private async read(): Promise<DnsIndex> {
+    const index: DnsIndex = { byName: new Map(), byData: new Map() };
+    let count = 0;
+    await readNdjson(this.config.paths, (entry) => {
+      if (typeof entry.rrname !== 'string' || entry.rdata === undefined) return;
+      const rrname = normalizeName(entry.rrname);
+      (Array.isArray(entry.rdata) ? entry.rdata : [entry.rdata]).forEach((data) => {
+        const rdata = normalizeName(String(data));
+        const record: PassiveDnsRecord = {
+          rrname,
+          rrtype: String(entry.rrtype || 'A').toUpperCase(),
+          rdata,
+          firstSeen: toIsoDate(entry.time_first),
+          lastSeen: toIsoDate(entry.time_last),
+          count: typeof entry.count === 'number' ? entry.count : undefined,
+        };
+        append(index.byName, rrname, record);
+        append(index.byData, rdata, record);
+        count += 1;
+      });
+    });
+    logger.info('Passive DNS dump loaded', { records: count });
+    return index;
+  }
+}
+
+export { PassiveDnsConnector };
+export default PassiveDnsConnector;
@@ -0,0 +1,84 @@
+/**
+ * Reputation Services
+ * API descriptions of the HTTP reputation services with built-in connectors:
+ * - VirusTotal v3: IPs, domains, URLs and file hashes; the score is the share
+ *   of engines not flagging the observable (suspicious verdicts count half)
+ * - AbuseIPDB v2: IPs; the score is 100 minus the abuse confidence
+ */
+
+import { reputationCategory } from './httpReputation';
+import { toIsoDate } from './files';
+import type { HttpReputationService } from './httpReputation';
+import type { Observable } from '../types';
+
+const VIRUSTOTAL_PATHS = {
+  ip: 'ip_addresses',
+  domain: 'domains',
+  hash: 'files',
+  url: 'urls',
+};
+
+export const virusTotalService: HttpReputationService = {
+  name: 'virustotal',
+  description: 'VirusTotal v3 API',
+  observableTypes: ['ip', 'domain', 'url', 'hash'],
+  provides: ['reputation', 'geolocation', 'asn'],
+  path: ({ type, value }: Observable) => {
+    // URLs are identified by their unpadded base64url form
+    const id = type === 'url' ? Buffer.from(value).toString('base64url') : value;
+    return `/${VIRUSTOTAL_PATHS[type]}/${encodeURIComponent(id)}`;
+  },
+  headers: (apiKey) => ({ 'x-apikey': apiKey }),
+  parse: (body) => {
+    const attributes = body?.data?.attributes;
+    if (!attributes) return undefined;
+
+    const stats = attributes.last_analysis_stats || {};
+    const total = Object.values(stats)
+      .filter((count): count is number => typeof count === 'number')
+      .reduce((sum, count) => sum + count, 0);
+    const malicious = Number(stats.malicious) || 0;
+    const suspicious = Number(stats.suspicious) || 0;
+    const score = Math.round(100 * (1 - (malicious + suspicious / 2) / (total || 1)));
+
+    return {
+      reputation: total ? {
+        score,
+        category: reputationCategory(score),
+        detections: malicious,
+        total,
+        lastReportedAt: toIsoDate(attributes.last_analysis_date),
+      } : undefined,
+      geolocation: attributes.country ? { country: attributes.country } : undefined,
+      asn: attributes.asn
+        ? { asn: `AS${attributes.asn}`, organization: attributes.as_owner }
+        : undefined,
+    };
+  },
+};
+
+export const abuseIpDbService: HttpReputationService = {
+  name: 'abuseipdb',
+  description: 'AbuseIPDB v2 API',
+  observableTypes: ['ip'],
+  provides: ['reputation', 'geolocation'],
+  path: ({ value }: Observable) => `/check?ipAddress=${encodeURIComponent(value)}&maxAgeInDays=90`,
+  headers: (apiKey) => ({ Key: apiKey }),
+  parse: (body) => {
+    const data = body?.data;
+    if (!data || typeof data.abuseConfidenceScore !== 'number') return undefined;
+
+    const score = 100 - data.abuseConfidenceScore;
+    return {
+      reputation: {
+        score,
+        category: reputationCategory(score),
+        detections: data.totalReports,
+        lastReportedAt: toIsoDate(data.lastReportedAt),
+      },
+      geolocation: data.countryCode || data.isp
+        ? { country: data.countryCode || undefined, isp: data.isp || undefined }
+        : undefined,
+    };
+  },
+};
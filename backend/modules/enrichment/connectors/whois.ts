@@ -0,0 +1,93 @@
+/**
+ * WHOIS Connector
+ * Looks up domains in local WHOIS dumps (NDJSON with `domain_name`,
+ * `registrar`, `creation_date`, `expiration_date`, `registrant_name` or
+ * `registrant_organization`, and `registrant_country`). A subdomain returns
+ * the record of the closest parent domain in the dump. The files are loaded
+ * on the first lookup.
+ */
+
+import { readNdjson, toIsoDate } from './files';
+import logger from '../utils/logger';
+import type { FileConnectorConfig } from '../config/connectors';
+import type {
+  EnrichmentConnector, EnrichmentFindings, Observable, WhoisInfo,
+} from '../types';
+
+const normalizeName = (value: string): string => value.trim().toLowerCase().replace(/\.$/, '');
+
+const text = (value: unknown): string | undefined => (
+  typeof value === 'string' && value.trim() ? value.trim() : undefined
+);
+
+class WhoisConnector implements EnrichmentConnector {
+  readonly name = 'whois';
+
+  readonly description = 'Local WHOIS dump';
+
+  readonly observableTypes = ['domain' as const];
+
+  readonly provides = ['whois' as const];
+
+  readonly rateLimit = { requests: 0, interval: 60 };
+
+  readonly cacheTtl: number;
+
+  private records?: Promise<Map<string, WhoisInfo>>;
+
+  constructor(private config: FileConnectorConfig) {
+    this.cacheTtl = config.cacheTtl;
+  }
+
+  isConfigured(): boolean {
+    return this.config.paths.length > 0;
+  }
+
+  async lookup({ value }: Observable): Promise<EnrichmentFindings | undefined> {
+    const records = await this.load();
+    const labels = normalizeName(value).split('.');
+    // sub.example.com, then example.com; a bare TLD is never a registration
+    const whois = labels.slice(0, -1)
+      .map((_, i) => records.get(labels.slice(i).join('.')))
+      .find(Boolean);
+    return whois ? { whois } : undefined;
+  }
+
+  /**
+   * Read the files again on the next lookup
+   */
+  reload(): void {
+    this.records = undefined;
+  }
+
+  private load(): Promise<Map<string, WhoisInfo>> {
+    if (!this.records) {
+      this.records = this.read().catch((error) => {
+        this.records = undefined;
+        throw error;
+      });
+    }
+    return this.records;
+  }
+
+  private async read(): Promise<Map<string, WhoisInfo>> {
+    const records = new Map<string, WhoisInfo>();
+    await readNdjson(this.config.paths, (entry) => {
+      const domain = text(entry.domain_name) || text(entry.domain);
+      if (!domain) return;
+      records.set(normalizeName(domain), {
+        domain: normalizeName(domain),
+        registrar: text(entry.registrar),
+        createdDate: toIsoDate(entry.creation_date),
+        expiresDate: toIsoDate(entry.expiration_date),
+        registrant: text(entry.registrant_name) || text(entry.registrant_organization),
+        country: text(entry.registrant_country),
+      });
+    });
+    logger.info('WHOIS dump loaded', { domains: records.size });
+    return records;
+  }
+}
+
+export { WhoisConnector };
+export default WhoisConnector;
@@ -0,0 +1,30 @@
+import enrichmentService from '../services/enrichmentService';
+
+class EnrichmentController {
+  async listConnectors(req, res) {
+    try {
+      res.json({ success: true, data: enrichmentService.listConnectors() });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
+  async lookup(req, res) {
+    try {
+      const {
+        type, value, connectors, findings, refresh,
+      } = req.body;
+      const records = await enrichmentService.enrich({ type, value }, {
+        connectors, findings, refresh,
+      });
+      res.json({
+        success: true,
+        data: { records, summary: enrichmentService.summarize(records) },
+      });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+}
+
+export default new EnrichmentController();
@@ -0,0 +1,16 @@
+/**
+ * Enrichment Errors
+ */
+
+/**
+ * Error carrying the HTTP status to answer an enrichment request with
+ */
+export class EnrichmentError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'EnrichmentError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,23 @@
+import express from 'express';
+import enrichmentRoutes from './routes/enrichmentRoutes';
+
+const router = express.Router();
+
+// Health check route
+router.get('/health', (req, res) => {
+  res.json({
+    module: 'enrichment',
+    status: 'operational',
+    version: '1.0.0',
+    subFeatures: [
+      'geoip',
+      'asn',
+      'passive-dns',
+      'whois',
+      'http-reputation',
+    ],
+  });
+});
+
+router.use('/', enrichmentRoutes);
+export default router;
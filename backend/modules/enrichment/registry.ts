@@ -0,0 +1,57 @@
+/**
+ * Enrichment Connector Registry
+ * Connectors are registered by name, replacing any connector of the same name,
+ * and listed in registration order. The default registry holds the built-in
+ * connectors.
+ */
+
+import { createBuiltInConnectors } from './connectors';
+import type { ConnectorInfo, EnrichmentConnector, ObservableType } from './types';
+
+class ConnectorRegistry {
+  private connectors = new Map<string, EnrichmentConnector>();
+
+  constructor(connectors: readonly EnrichmentConnector[] = []) {
+    connectors.forEach((connector) => this.register(connector));
+  }
+
+  register(connector: EnrichmentConnector): void {
+    this.connectors.set(connector.name, connector);
+  }
+
+  unregister(name: string): boolean {
+    return this.connectors.delete(name);
+  }
+
+  get(name: string): EnrichmentConnector | undefined {
+    return this.connectors.get(name);
+  }
+
+  list(): EnrichmentConnector[] {
+    return Array.from(this.connectors.values());
+  }
+
+  /**
+   * Configured connectors able to look up the observable type
+   */
+  forType(type: ObservableType): EnrichmentConnector[] {
+    return this.list().filter((connector) => (
+      connector.observableTypes.includes(type) && connector.isConfigured()
+    ));
+  }
+
+  describe(): ConnectorInfo[] {
+    return this.list().map((connector) => ({
+      name: connector.name,
+      description: connector.description,
+      observableTypes: connector.observableTypes,
+      provides: connector.provides,
+      rateLimit: connector.rateLimit,
+      cacheTtl: connector.cacheTtl,
+      configured: connector.isConfigured(),
+    }));
+  }
+}
+
+export { ConnectorRegistry };
+export default new ConnectorRegistry(createBuiltInConnectors());
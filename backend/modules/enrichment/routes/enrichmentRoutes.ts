@@ -0,0 +1,13 @@
+import express from 'express';
+import enrichmentController from '../controllers/enrichmentController';
+import { validate } from '../../../middleware/validator';
+import validatorSchemas from '../validators/enrichmentValidator';
+
+const router = express.Router();
+
+const { lookupSchema } = validatorSchemas;
+
+router.get('/connectors', enrichmentController.listConnectors);
+router.post('/lookup', validate({ body: lookupSchema }), enrichmentController.lookup);
+
+export default router;
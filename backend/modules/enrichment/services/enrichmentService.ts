@@ -0,0 +1,204 @@
+/**
+ * Enrichment Service
+ * Looks observables up in every configured connector that handles their type,
+ * in parallel, and returns one record per connector. Each connector's result
+ * is cached under its own key for the connector's cache TTL (in Redis; without
+ * a Redis connection every lookup reaches the source). A lookup beyond a
+ * connector's rate limit is not queued but reported as `rate_limited`.
+ */
+
+import { cacheService } from '../../../utils/cache';
+import SourceRateLimiter from '../../../utils/sourceRateLimiter';
+import connectorRegistry from '../registry';
+import type { ConnectorRegistry } from '../registry';
+import { reputationCategory } from '../connectors';
+import logger from '../utils/logger';
+import type {
+  ConnectorInfo,
+  EnrichmentConnector,
+  EnrichmentFindings,
+  EnrichmentRecord,
+  EnrichOptions,
+  GeoLocation,
+  Observable,
+  ObservableType,
+} from '../types';
+
+// IOC and threat indicator types that can be enriched
+const OBSERVABLE_TYPES: Record<string, ObservableType> = {
+  ip: 'ip',
+  domain: 'domain',
+  url: 'url',
+  email: 'email',
+  hash: 'hash',
+  md5: 'hash',
+  sha1: 'hash',
+  sha256: 'hash',
+  hash_md5: 'hash',
+  hash_sha1: 'hash',
+  hash_sha256: 'hash',
+};
+
+/**
+ * Observable type of an IOC or indicator type, if it can be enriched
+ */
+export const toObservableType = (type: string): ObservableType | undefined => (
+  OBSERVABLE_TYPES[type]
+);
+
+/**
+ * Observable in the form used for lookups, cache keys and records
+ */
+export const normalizeObservable = ({ type, value }: Observable): Observable => ({
+  type,
+  value: type === 'url' ? value.trim() : value.trim().toLowerCase().replace(/\.$/, ''),
+});
+
+const sameLookup = (a: EnrichmentRecord, b: EnrichmentRecord): boolean => (
+  a.source === b.source
+  && a.observable.type === b.observable.type
+  && a.observable.value === b.observable.value
+);
+
+// Earlier locations win; later ones only fill in missing fields
+const mergeLocations = (locations: readonly GeoLocation[]): GeoLocation | undefined => (
+  locations.length ? locations.reduceRight((merged, location) => ({
+    ...merged,
+    ...Object.fromEntries(Object.entries(location).filter(([, value]) => value !== undefined)),
+  }), {} as GeoLocation) : undefined
+);
+
+class EnrichmentService {
+  private limiters = new WeakMap<EnrichmentConnector, SourceRateLimiter>();
+
+  private registry: ConnectorRegistry;
+
+  constructor(registry: ConnectorRegistry = connectorRegistry) {
+    this.registry = registry;
+  }
+
+  listConnectors(): ConnectorInfo[] {
+    return this.registry.describe();
+  }
+
+  /**
+   * Look an observable up in the configured connectors for its type
+   */
+  async enrich(observable: Observable, options: EnrichOptions = {}): Promise<EnrichmentRecord[]> {
+    const target = normalizeObservable(observable);
+    const connectors = this.registry.forType(target.type).filter((connector) => (
+      (!options.connectors || options.connectors.includes(connector.name))
+      && (!options.findings || connector.provides.some((kind) => options.findings.includes(kind)))
+    ));
+    return Promise.all(connectors.map((connector) => (
+      this.lookup(connector, target, options.refresh)
+    )));
+  }
+
+  /**
+   * Look several observables up; records are returned in observable order
+   */
+  async enrichAll(
+    observables: readonly Observable[],
+    options: EnrichOptions = {},
+  ): Promise<EnrichmentRecord[]> {
+    const results = await Promise.all(observables.map((observable) => (
+      this.enrich(observable, options)
+    )));
+    return results.flat();
+  }
+
+  /**
+   * Combine the successful records: the first connector (in registry order)
+   * with a finding wins, locations are merged, passive DNS records are joined
+   * and reputation scores averaged
+   */
+  summarize(records: readonly EnrichmentRecord[]): EnrichmentFindings {
+    const findings = records
+      .filter((record) => record.status === 'ok' && record.findings)
+      .map((record) => record.findings);
+    const scores = findings.map((found) => found.reputation).filter(Boolean);
+    const score = scores.length
+      ? Math.round(scores.reduce((sum, verdict) => sum + verdict.score, 0) / scores.length)
+      : undefined;
+
+    return {
+      geolocation: mergeLocations(findings.map((found) => found.geolocation).filter(Boolean)),
+      asn: findings.map((found) => found.asn).find(Boolean),
+      dns: findings.some((found) => found.dns)
+        ? findings.flatMap((found) => found.dns || [])
+        : undefined,
+      whois: findings.map((found) => found.whois).find(Boolean),
+      reputation: score === undefined ? undefined : {
+        score,
+        category: reputationCategory(score),
+        detections: scores.reduce((sum, verdict) => sum + (verdict.detections || 0), 0),
+      },
+    };
+  }
+
+  /**
+   * Records to keep on an enriched IOC or threat: new records replace those of
+   * the same source and observable, except lookups skipped by a rate limit,
+   * which keep the previous record
+   */
+  mergeRecords(
+    previous: readonly EnrichmentRecord[],
+    next: readonly EnrichmentRecord[],
+  ): EnrichmentRecord[] {
+    const replacing = next.filter((record) => (
+      record.status !== 'rate_limited' || !previous.some((old) => sameLookup(old, record))
+    ));
+    return [
+      ...previous.filter((old) => !replacing.some((record) => sameLookup(old, record))),
+      ...replacing,
+    ];
+  }
+
+  private async lookup(
+    connector: EnrichmentConnector,
+    observable: Observable,
+    refresh: boolean = false,
+  ): Promise<EnrichmentRecord> {
+    const key = `enrichment:${connector.name}:${observable.type}:${observable.value}`;
+    if (!refresh) {
+      const cached = await cacheService.get<EnrichmentRecord>(key);
+      if (cached) return { ...cached, fetchedAt: new Date(cached.fetchedAt), cached: true };
+    }
+
+    const base = {
+      source: connector.name, observable, fetchedAt: new Date(), cached: false,
+    };
+    if (!this.limiter(connector).tryTake(connector.name)) {
+      logger.warn('Enrichment lookup skipped by rate limit', { connector: connector.name });
+      return { ...base, status: 'rate_limited' };
+    }
+
+    let record: EnrichmentRecord;
+    try {
+      const findings = await connector.lookup(observable);
+      record = findings ? { ...base, status: 'ok', findings } : { ...base, status: 'not_found' };
+    } catch (error) {
+      logger.warn('Enrichment lookup failed', {
+        connector: connector.name, type: observable.type, error: (error as Error).message,
+      });
+      return { ...base, status: 'error', error: (error as Error).message };
+    }
+
+    await cacheService.set(key, record, connector.cacheTtl);
+    return record;
+  }
+
+  private limiter(connector: EnrichmentConnector): SourceRateLimiter {
+    let limiter = this.limiters.get(connector);
+    if (!limiter) {
+      const { requests, interval } = connector.rateLimit;
+      limiter = new SourceRateLimiter(requests / interval, requests);
+      this.limiters.set(connector, limiter);
+    }
+    return limiter;
+  }
+}
+
+export { EnrichmentService };
+export default new EnrichmentService();
@@ -0,0 +1,133 @@
+/**
+ * Enrichment Type Definitions
+ * Connectors look up observables (IPs, domains, URLs, hashes, email addresses)
+ * in one source each; every lookup is kept as a record of what that source
+ * said and when.
+ */
+
+export type ObservableType = 'ip' | 'domain' | 'url' | 'hash' | 'email';
+
+export interface Observable {
+  readonly type: ObservableType;
+  readonly value: string;
+}
+
+/**
+ * Kinds of findings a connector can provide
+ */
+export type FindingKind = 'geolocation' | 'asn' | 'dns' | 'whois' | 'reputation';
+
+export interface GeoLocation {
+  readonly country?: string; // ISO 3166-1 alpha-2
+  readonly city?: string;
+  readonly latitude?: number;
+  readonly longitude?: number;
+  readonly isp?: string;
+}
+
+export interface AsnInfo {
+  readonly asn: string; // AS12345
+  readonly organization?: string;
+}
+
+/**
+ * Passive DNS observation; times are ISO strings
+ */
+export interface PassiveDnsRecord {
+  readonly rrname: string;
+  readonly rrtype: string;
+  readonly rdata: string;
+  readonly firstSeen?: string;
+  readonly lastSeen?: string;
+  readonly count?: number;
+}
+
+/**
+ * WHOIS registration of the registered domain; dates are ISO strings
+ */
+export interface WhoisInfo {
+  readonly domain: string;
+  readonly registrar?: string;
+  readonly createdDate?: string;
+  readonly expiresDate?: string;
+  readonly registrant?: string;
+  readonly country?: string;
+}
+
+export type ReputationCategory = 'malicious' | 'suspicious' | 'clean';
+
+/**
+ * Reputation from 0 (malicious) to 100 (clean)
+ */
+export interface ReputationVerdict {
+  readonly score: number;
+  readonly category: ReputationCategory;
+  readonly detections?: number; // Engines or reporters flagging the observable
+  readonly total?: number;
+  readonly lastReportedAt?: string;
+}
+
+export interface EnrichmentFindings {
+  readonly geolocation?: GeoLocation;
+  readonly asn?: AsnInfo;
+  readonly dns?: readonly PassiveDnsRecord[];
+  readonly whois?: WhoisInfo;
+  readonly reputation?: ReputationVerdict;
+}
+
+/**
+ * ok: the source knows the observable; not_found: it does not; error: the
+ * lookup failed; rate_limited: the lookup was skipped to respect the
+ * source's rate limit
+ */
+export type EnrichmentStatus = 'ok' | 'not_found' | 'error' | 'rate_limited';
+
+/**
+ * What one source said about one observable
+ */
+export interface EnrichmentRecord {
+  readonly source: string;
+  readonly observable: Observable;
+  readonly status: EnrichmentStatus;
+  readonly fetchedAt: Date;
+  readonly cached: boolean;
+  readonly findings?: EnrichmentFindings;
+  readonly error?: string;
+}
+
+/**
+ * At most `requests` lookups per `interval` seconds; 0 requests is unlimited
+ */
+export interface ConnectorRateLimit {
+  readonly requests: number;
+  readonly interval: number;
+}
+
+export interface EnrichmentConnector {
+  readonly name: string;
+  readonly description: string;
+  readonly observableTypes: readonly ObservableType[];
+  readonly provides: readonly FindingKind[];
+  readonly rateLimit: ConnectorRateLimit;
+  readonly cacheTtl: number; // seconds
+  /** Whether the connector has the data files or credentials it needs */
+  isConfigured(): boolean;
+  /** Findings for the observable, or undefined when the source does not know it */
+  lookup(observable: Observable): Promise<EnrichmentFindings | undefined>;
+}
+
+export interface ConnectorInfo {
+  readonly name: string;
+  readonly description: string;
+  readonly observableTypes: readonly ObservableType[];
+  readonly provides: readonly FindingKind[];
+  readonly rateLimit: ConnectorRateLimit;
+  readonly cacheTtl: number;
+  readonly configured: boolean;
+}
+
+export interface EnrichOptions {
+  readonly connectors?: readonly string[]; // Only these connectors
+  readonly findings?: readonly FindingKind[]; // Only connectors providing these
+  readonly refresh?: boolean; // Bypass the cache
+}
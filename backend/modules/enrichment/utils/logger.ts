@@ -0,0 +1,10 @@
+/**
+ * Enrichment Module Logger
+ * Uses centralized Winston logger with module context
+ */
+
+import { createModuleLogger } from '../../../utils/logger';
+
+const logger = createModuleLogger('enrichment');
+
+export default logger;
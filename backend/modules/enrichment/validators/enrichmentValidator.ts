@@ -0,0 +1,19 @@
+/**
+ * Enrichment Validation Schemas
+ */
+
+import Joi from 'joi';
+
+const lookupSchema = Joi.object({
+  type: Joi.string().valid('ip', 'domain', 'url', 'hash', 'email').required(),
+  value: Joi.string().max(2048).required(),
+  connectors: Joi.array().items(Joi.string()).optional(),
+  findings: Joi.array().items(
+    Joi.string().valid('geolocation', 'asn', 'dns', 'whois', 'reputation'),
+  ).optional(),
+  refresh: Joi.boolean().default(false),
+});
+
+export default {
+  lookupSchema,
+};
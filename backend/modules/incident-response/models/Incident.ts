@@ -15,7 +15,7 @@ const TimelineEventSchema = new mongoose.Schema({
     type: String,
     enum: [
       'created', 'updated', 'assigned', 'escalated', 'resolved', 'closed',
-      'reopened', 'comment', 'evidence_added', 'workflow_executed',
+      'reopened', 'comment', 'evidence_added', 'workflow_executed', 'siem_event',
     ],
     required: true,
   },
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import Incident from '../models/Incident';
 import logger from '../utils/logger';
 
@@ -29,7 +30,10 @@ interface ListOptions {
   sort?: string;
 }
 
-class IncidentService {
+/**
+ * Emits `incident:created` and `incident:severity_changed`
+ */
+class IncidentService extends EventEmitter {
   /**
    * Create a new incident
    */
@@ -58,6 +62,7 @@ class IncidentService {
 
       await incident.save();
       logger.info(`Incident created: ${incident.ticket_number}`);
+      this.emit('incident:created', incident);
       return incident;
     } catch (error) {
       logger.error('Error creating incident:', error);
@@ -104,6 +109,8 @@ class IncidentService {
         });
       }
 
+      const previousSeverity = incident.severity;
+
       // Update fields
       Object.assign(incident, updates);
 
@@ -117,6 +124,13 @@ class IncidentService {
 
       await incident.save();
       logger.info(`Incident updated: ${incident.ticket_number}`);
+
+      if (updates.severity && updates.severity !== previousSeverity) {
+        this.emit('incident:severity_changed', {
+          incident,
+          previous_severity: previousSeverity,
+        });
+      }
       return incident;
     } catch (error) {
       logger.error('Error updating incident:', error);
@@ -230,6 +244,23 @@ class IncidentService {
     }
   }
 
+  /**
+   * Add timeline events that happened earlier, keeping their timestamps
+   */
+  async addTimelineEvents(identifier: string, events: any[]): Promise<any[]> {
+    try {
+      const incident = await this.getIncident(identifier);
+
+      incident.timeline.push(...events);
+
+      await incident.save();
+      return incident.timeline;
+    } catch (error) {
+      logger.error('Error adding timeline events:', error);
+      throw error;
+    }
+  }
+
   /**
    * List incidents with filters
    */
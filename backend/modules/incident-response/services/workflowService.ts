@@ -6,6 +6,7 @@
 import Workflow from '../models/Workflow';
 import Incident from '../models/Incident';
 import logger from '../utils/logger';
+import allowListService, { describeMatch } from '../../ioc-management/services/allowListService';
 
 class WorkflowService {
   /**
@@ -210,9 +211,9 @@ class WorkflowService {
       case 'isolate_asset':
         return this._isolateAsset(incident, action.parameters);
       case 'block_ip':
-        return this._blockIP(action.parameters);
+        return this._blockIP(incident, action.parameters);
       case 'block_domain':
-        return this._blockDomain(action.parameters);
+        return this._blockDomain(incident, action.parameters);
       case 'disable_account':
         return this._disableAccount(action.parameters);
       case 'send_notification':
@@ -242,16 +243,37 @@ class WorkflowService {
     return { status: 'success', asset_id: params.asset_id };
   }
 
-  async _blockIP(params) {
+  async _blockIP(incident, params) {
+    const refused = this._refuseAllowListed(incident, params.ip_address, 'ip');
+    if (refused) return refused;
+
     logger.info(`Blocking IP: ${params.ip_address}`);
     return { status: 'success', ip_address: params.ip_address };
   }
 
-  async _blockDomain(params) {
+  async _blockDomain(incident, params) {
+    const refused = this._refuseAllowListed(incident, params.domain, 'domain');
+    if (refused) return refused;
+
     logger.info(`Blocking domain: ${params.domain}`);
     return { status: 'success', domain: params.domain };
   }
 
+  /**
+   * Refusal of a block action on an allow-listed value, if it is one
+   */
+  _refuseAllowListed(incident, value, type) {
+    const match = allowListService.check(value, type, {
+      context: 'automation',
+      source: 'incident-workflow',
+      sourceId: incident.id,
+    });
+    if (!match) return undefined;
+
+    logger.warn(`Refusing to block allow-listed ${type}: ${value}`);
+    return { status: 'refused', message: `${value} matches ${describeMatch(match)}` };
+  }
+
   async _disableAccount(params) {
     logger.info(`Disabling account: ${params.username}`);
     return { status: 'success', username: params.username };
@@ -0,0 +1,163 @@
+/**
+ * Test suite for the IoC allow-list
+ */
+
+import { AllowListService } from '../services/allowListService';
+import allowListService from '../services/allowListService';
+import iocService from '../services/iocService';
+import AllowListEntry from '../models/AllowListEntry';
+import AllowListHit from '../models/AllowListHit';
+import IoC from '../models/IoC';
+
+jest.mock('../models/AllowListEntry', () => ({
+  __esModule: true,
+  default: { find: jest.fn(), findOneAndUpdate: jest.fn(), findOneAndDelete: jest.fn() },
+}));
+
+jest.mock('../models/AllowListHit', () => ({
+  __esModule: true,
+  default: { insertMany: jest.fn() },
+}));
+
+jest.mock('../models/IoC', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn() },
+}));
+
+jest.mock('../../threat-feeds/services/feedService', () => ({
+  __esModule: true,
+  default: { calculateReliabilityScore: jest.fn() },
+}));
+
+const entryModel = AllowListEntry as unknown as Record<string, jest.Mock>;
+const hitModel = AllowListHit as unknown as Record<string, jest.Mock>;
+const iocModel = IoC as unknown as Record<string, jest.Mock>;
+
+const ENTRIES = [
+  {
+    id: 'entry-1', kind: 'domain', value: 'corp.example', reason: 'Our domain',
+  },
+  {
+    id: 'entry-2', kind: 'cidr', value: '198.18.0.0/15', reason: 'Lab network',
+  },
+  {
+    id: 'entry-3', kind: 'value', value: 'd41d8cd98f00b204e9800998ecf8427e', reason: 'Empty file',
+  },
+  {
+    id: 'entry-4', kind: 'domain', value: 'old-partner.example', expiresAt: new Date('2020-01-01'),
+  },
+];
+
+const lean = (value: unknown) => ({ lean: async () => value });
+
+describe('IoC allow-list', () => {
+  let service: AllowListService;
+
+  beforeEach(async () => {
+    entryModel.find.mockImplementation(() => lean(ENTRIES));
+    hitModel.insertMany.mockResolvedValue([]);
+    service = new AllowListService();
+    await service.refresh();
+  });
+
+  it('should match the bundled lists on exact values and ranges only', () => {
+    expect(service.match('8.8.8.8', 'ip')).toMatchObject({
+      list: 'cloud-provider-ranges', kind: 'cidr', entry: '8.8.8.0/24',
+    });
+    expect(service.match('2606:4700:4700:0:0:0:0:1111'))
+      .toMatchObject({ entry: '2606:4700:4700::/48' });
+    expect(service.match('https://WWW.Google.com/search?q=1', 'url'))
+      .toMatchObject({ list: 'top-domains', entry: 'www.google.com' });
+    expect(service.match('sites.google.com', 'domain')).toBeUndefined();
+    expect(service.match('8.8.9.8', 'ip')).toBeUndefined();
+  });
+
+  it('should match ranges that overlap an allow-listed range', () => {
+    expect(service.match('8.0.0.0/8', 'ip')).toMatchObject({
+      list: 'cloud-provider-ranges', entry: '8.8.8.0/24',
+    });
+    expect(service.match('1.1.0.0/16', 'cidr')?.entry).toBe('1.1.1.0/24');
+    expect(service.match('8.8.8.128/25', 'cidr')?.entry).toBe('8.8.8.0/24');
+    expect(service.match('198.18.4.0/24')?.entryId).toBe('entry-2');
+    expect(service.match('2606:4700::/32', 'cidr')?.entry).toBe('2606:4700:4700::/48');
+    expect(service.match('203.0.113.0/24', 'cidr')).toBeUndefined();
+    expect(service.match('8.0.0.0/8', 'url')).toBeUndefined();
+  });
+
+  it('should match managed domains with their subdomains, URLs and email addresses', () => {
+    expect(service.match('vpn.corp.example')).toMatchObject({
+      list: 'organisation', entryId: 'entry-1', kind: 'domain', reason: 'Our domain',
+    });
+    expect(service.match('http://intranet.corp.example:8080/login', 'url')?.entryId)
+      .toBe('entry-1');
+    expect(service.match('it@corp.example', 'email')?.entryId).toBe('entry-1');
+    expect(service.match('notcorp.example')).toBeUndefined();
+    expect(service.match('http://198.19.4.1/payload', 'url')?.entryId).toBe('entry-2');
+    expect(service.match('D41D8CD98F00B204E9800998ECF8427E', 'md5')?.entryId).toBe('entry-3');
+    expect(service.match('www.old-partner.example')).toBeUndefined();
+
+    service.configure({ bundledLists: [] });
+    expect(service.match('8.8.8.8')).toBeUndefined();
+    expect(service.match('vpn.corp.example')).toBeDefined();
+  });
+
+  it('should screen values and record a hit for each allow-listed one', () => {
+    const listener = jest.fn();
+    service.on('allow-list:hit', listener);
+
+    const result = service.screen(
+      [{ indicator: '1.1.1.1', type: 'ip' }, { indicator: 'evil.top', type: 'domain' }],
+      (item) => ({ value: item.indicator, type: item.type }),
+      { context: 'feed', source: 'Open Feed', sourceId: 'feed-1' },
+    );
+
+    expect(result.allowed).toEqual([{ indicator: 'evil.top', type: 'domain' }]);
+    expect(result.blocked).toHaveLength(1);
+    expect(hitModel.insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      value: '1.1.1.1',
+      type: 'ip',
+      context: 'feed',
+      source: 'Open Feed',
+      sourceId: 'feed-1',
+      list: 'cloud-provider-ranges',
+      entry: '1.1.1.0/24',
+    })]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.match('evil.top')).toBeUndefined();
+  });
+
+  it('should normalize new entries and reject values their kind cannot match', async () => {
+    entryModel.findOneAndUpdate.mockImplementation((filter) => lean({ id: 'entry-5', ...filter }));
+
+    await service.addEntry({
+      kind: 'domain', value: '*.Partner.Example.', reason: 'Partner',
+    }, 'u-1');
+    expect(entryModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { kind: 'domain', value: 'partner.example' },
+      expect.objectContaining({
+        $set: expect.objectContaining({ reason: 'Partner', createdBy: 'u-1' }),
+      }),
+      { upsert: true, new: true },
+    );
+    expect(entryModel.find).toHaveBeenCalledTimes(2);
+
+    await expect(service.addEntry({ kind: 'cidr', value: '10.0.0.0/33' }, 'u-1'))
+      .rejects.toThrow('Invalid CIDR range');
+    await expect(service.addEntry({ kind: 'domain', value: 'not a domain' }, 'u-1'))
+      .rejects.toThrow('Invalid domain');
+  });
+
+  it('should refuse to record allow-listed IoCs', async () => {
+    const source = {
+      name: 'Open Feed', reliability: 60, sourceType: 'open_source' as const, feedId: 'feed-1',
+    };
+
+    await expect(iocService.create({ value: '9.9.9.9', type: 'ip', source }))
+      .rejects.toThrow('Allow-listed IoC: 9.9.9.9 matches cidr 9.9.9.0/24');
+    expect(iocModel.findOne).not.toHaveBeenCalled();
+    expect(hitModel.insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      value: '9.9.9.9', context: 'feed', source: 'Open Feed', sourceId: 'feed-1',
+    })]);
+    expect(allowListService.match('www.github.com')).toBeDefined();
+  });
+});
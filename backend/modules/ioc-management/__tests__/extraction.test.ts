@@ -0,0 +1,126 @@
+/**
+ * Test suite for free-text IoC extraction
+ */
+
+import { IocExtractor } from '../services/iocExtractor';
+import iocService from '../services/iocService';
+import { publicSuffix, registrableDomain } from '../utils/publicSuffix';
+import { isBitcoinAddress, isReservedIP } from '../utils/addresses';
+import { MAX_EXTRACT_TEXT_LENGTH } from '../config/extraction';
+import iocValidator from '../validators/iocValidator';
+
+jest.mock('../services/iocService', () => ({
+  __esModule: true,
+  default: { create: jest.fn() },
+}));
+
+const SHA256 = '275a021bbfb6489e54d471899f7db9d1663fc695ec2fe2a2c4538aabf651fd0f';
+
+const REPORT = `
+Phishing from billing[@]invoices-portal[.]co.uk led to hxxps://login.invoices-portal[.]co.uk/auth?u=1).
+The dropper (SHA256 ${SHA256.toUpperCase()}) beacons to 185.220.101.4 and 2a03:2880:f12f:83::25de,
+over the 45.9.148.0/24 range, and to update-cdn(dot)top. It was staged on 10.0.0.5 and fe80::1.
+Exploits CVE-2021-44228 (T1190) then runs T1059.001; persistence via
+HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Run\\updater. Ransom goes to
+bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq. Again: 185.220.101.4, see report.pdf.
+Headers mention mail.microsoft.com and www.example.com.
+`;
+
+describe('IoC extraction', () => {
+  const extractor = new IocExtractor();
+
+  beforeEach(() => {
+    extractor.configure({ allowList: ['example.com'] });
+  });
+
+  it('should refang defanged indicators', () => {
+    expect(extractor.refang('hxxps://evil[.]com[/]a and fxp://files(dot)evil { . } net'))
+      .toBe('https://evil.com/a and ftp://files.evil.net');
+    expect(extractor.refang('ops[at]evil[.]com, 1.2.3[.]4, h[tt]p[:]//evil.com'))
+      .toBe('ops@evil.com, 1.2.3.4, http://evil.com');
+  });
+
+  it('should extract typed indicators in order of appearance', () => {
+    const result = extractor.extract(REPORT, { allowList: ['microsoft.com'] });
+
+    expect(result.indicators.map((indicator) => [indicator.type, indicator.value])).toEqual([
+      ['email', 'billing@invoices-portal.co.uk'],
+      ['url', 'https://login.invoices-portal.co.uk/auth?u=1'],
+      ['sha256', SHA256],
+      ['ipv4', '185.220.101.4'],
+      ['ipv6', '2a03:2880:f12f:83::25de'],
+      ['cidr', '45.9.148.0/24'],
+      ['domain', 'update-cdn.top'],
+      ['cve', 'CVE-2021-44228'],
+      ['mitre_technique', 'T1190'],
+      ['mitre_technique', 'T1059.001'],
+      ['registry_key', 'HKCU\\Software\\Microsoft\\Windows\\CurrentVersion\\Run\\updater'],
+      ['bitcoin_address', 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq'],
+    ]);
+    expect(result.indicators.find((indicator) => indicator.type === 'ipv4'))
+      .toEqual({
+        type: 'ipv4', value: '185.220.101.4', iocType: 'ip', occurrences: 2,
+      });
+    expect(result.indicators.find((indicator) => indicator.type === 'cidr').iocType)
+      .toBeUndefined();
+    expect(result.dropped).toEqual({ private: 2, allowListed: 2 });
+  });
+
+  it('should keep private ranges and filter on types when asked', () => {
+    const result = extractor.extract(REPORT, { includePrivate: true, types: ['ipv4', 'ipv6'] });
+
+    expect(result.indicators.map((indicator) => indicator.value)).toEqual([
+      '185.220.101.4', '2a03:2880:f12f:83::25de', '10.0.0.5', 'fe80::1',
+    ]);
+  });
+
+  it('should only take domains that end in a public suffix', () => {
+    const text = 'evil.co.uk co.uk readme.txt a.b.ck ads.evil.xn--p1ai 1.2.3.4.5';
+    expect(extractor.extract(text).indicators.map((indicator) => indicator.value))
+      .toEqual(['evil.co.uk', 'a.b.ck', 'ads.evil.xn--p1ai']);
+
+    expect(publicSuffix('www.evil.co.uk')).toBe('co.uk');
+    expect(publicSuffix('a.b.ck')).toBe('b.ck');
+    expect(publicSuffix('www.ck')).toBe('ck');
+    expect(publicSuffix('server.localdomain')).toBeUndefined();
+    expect(registrableDomain('cdn.static.evil.com')).toBe('evil.com');
+    expect(registrableDomain('co.uk')).toBeUndefined();
+  });
+
+  it('should refuse texts over the length cap', () => {
+    const text = `${'a'.repeat(MAX_EXTRACT_TEXT_LENGTH)} 185.220.101.4`;
+
+    expect(() => extractor.extract(text)).toThrow('Text is longer than');
+    expect(iocValidator.iocExtractSchema.validate({ text }).error?.message).toMatch('less than or equal');
+    expect(iocValidator.iocExtractSchema.validate({ text: REPORT }).error).toBeUndefined();
+  });
+
+  it('should check address ranges and Bitcoin checksums', () => {
+    expect(['10.1.2.3', '172.31.0.1', '192.168.1.1', '127.0.0.1', '::1', 'fd00::1']
+      .map(isReservedIP)).toEqual([true, true, true, true, true, true]);
+    expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111'].map(isReservedIP))
+      .toEqual([false, false, false]);
+
+    expect(isBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa')).toBe(true);
+    expect(isBitcoinAddress('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe(true);
+    expect(isBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb')).toBe(false);
+    expect(isBitcoinAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0'))
+      .toBe(true);
+    expect(isBitcoinAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdr')).toBe(false);
+  });
+
+  it('should record the indicators that can be IoCs and keep going on failures', async () => {
+    const source = { name: 'analyst-notes', reliability: 70, sourceType: 'internal' as const };
+    (iocService.create as jest.Mock).mockImplementation(async ({ value }) => {
+      if (value === 'CVE-2021-44228') throw new Error('Invalid IoC');
+      return { id: `ioc-${value}` };
+    });
+
+    const { indicators } = extractor.extract('CVE-2021-44228 T1190 update-cdn.top 185.220.101.4');
+    const result = await extractor.record(indicators, source);
+
+    expect(result).toEqual({ recorded: 2, failed: 1 });
+    expect(iocService.create).toHaveBeenCalledTimes(3);
+    expect(iocService.create).toHaveBeenCalledWith({ value: '185.220.101.4', type: 'ip', source });
+  });
+});
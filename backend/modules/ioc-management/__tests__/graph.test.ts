@@ -0,0 +1,315 @@
+/**
+ * Test suite for the IoC relationship graph
+ */
+
+import graphService, { GraphService } from '../services/graphService';
+import { GraphLinker } from '../services/graphLinker';
+import feedService from '../../threat-feeds/services/feedService';
+import malwareService from '../../malware-analysis/services/malwareService';
+import iocService from '../services/iocService';
+import IoC from '../models/IoC';
+import ThreatActor from '../../threat-actors/models/ThreatActor';
+import { entityRelationshipRepository } from '../../../repositories';
+
+jest.mock('../../../repositories', () => ({
+  entityRelationshipRepository: {
+    findForEntities: jest.fn(),
+    findLink: jest.fn(),
+    findById: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  iocRepository: { findMany: async () => [] },
+  threatActorRepository: { findMany: async () => [] },
+  malwareRepository: { findMany: async () => [] },
+  vulnerabilityRepository: { findMany: async () => [] },
+}));
+
+jest.mock('../services/iocService', () => ({
+  __esModule: true,
+  default: { create: jest.fn() },
+}));
+
+jest.mock('../../threat-feeds/services/feedService', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return { __esModule: true, default: new EventEmitter() };
+});
+
+jest.mock('../../malware-analysis/services/malwareService', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return { __esModule: true, default: new EventEmitter() };
+});
+
+jest.mock('../models/IoC', () => ({ __esModule: true, default: { find: jest.fn() } }));
+
+jest.mock('../../threat-actors/models/ThreatActor', () => ({
+  __esModule: true,
+  default: { find: jest.fn() },
+}));
+
+jest.mock('../../malware-analysis/models/MalwareSample', () => ({
+  __esModule: true,
+  default: { find: async () => [] },
+}));
+
+jest.mock('../../incident-response/models/Incident', () => ({
+  __esModule: true,
+  default: { find: async () => [] },
+}));
+
+const relationships = entityRelationshipRepository as unknown as Record<string, jest.Mock>;
+
+const relationship = (
+  id: string,
+  relationshipType: string,
+  source: [string, string],
+  target?: [string, string],
+) => ({
+  id,
+  relationshipType,
+  sourceType: source[0],
+  sourceId: source[1],
+  targetType: target?.[0],
+  targetId: target?.[1],
+  count: 1,
+});
+
+// domain -> ip <- other domain, a dropper sample, and the campaign the domain belongs to
+const STORED = [
+  relationship('e1', 'resolves-to', ['ioc', 'domain-1'], ['ioc', 'ip-1']),
+  relationship('e2', 'resolves-to', ['ioc', 'domain-2'], ['ioc', 'ip-1']),
+  relationship('e3', 'drops', ['malware', 'sample-1'], ['ioc', 'domain-1']),
+  relationship('e4', 'attributed-to', ['ioc', 'domain-1'], ['campaign', 'campaign-1']),
+  relationship('e5', 'sighting', ['ioc', 'domain-1']),
+];
+
+const IOCS = [
+  { id: 'domain-1', value: 'evil.example', type: 'domain' },
+  { id: 'domain-2', value: 'other.example', type: 'domain' },
+  { id: 'ip-1', value: '203.0.113.9', type: 'ip' },
+];
+
+describe('IoC relationship graph', () => {
+  const graph = new GraphService();
+
+  beforeEach(() => {
+    graph.configure({ maxDepth: 3, maxNodes: 500 });
+    relationships.findForEntities.mockImplementation(async (entities, types) => STORED.filter(
+      (stored) => (!types || types.includes(stored.relationshipType)) && entities.some(
+        ({ type, id }) => (stored.sourceType === type && stored.sourceId === id)
+          || (stored.targetType === type && stored.targetId === id),
+      ),
+    ));
+    (IoC.find as jest.Mock).mockImplementation(async (filter) => IOCS
+      .filter((ioc) => filter.id.$in.includes(ioc.id)));
+    (ThreatActor.find as jest.Mock).mockResolvedValue([{
+      id: 'actor-1',
+      name: 'APT-X',
+      campaigns: [{ campaign_id: 'campaign-1', name: 'Operation Dusk' }],
+    }]);
+  });
+
+  it('should return the N-hop neighbourhood with labels', async () => {
+    const result = await graph.neighbourhood({ type: 'ioc', id: 'ip-1' }, { depth: 2 });
+
+    expect(result.nodes.map((node) => [node.id, node.depth, node.label])).toEqual([
+      ['ip-1', 0, '203.0.113.9'],
+      ['domain-1', 1, 'evil.example'],
+      ['domain-2', 1, 'other.example'],
+      ['sample-1', 2, 'sample-1'],
+      ['campaign-1', 2, 'Operation Dusk'],
+    ]);
+    expect(result.nodes.find((node) => node.id === 'sample-1').found).toBe(false);
+    expect(result.nodes.find((node) => node.id === 'campaign-1').data)
+      .toEqual({ threatActorId: 'actor-1', threatActor: 'APT-X' });
+    expect(result.edges.map((edge) => edge.id)).toEqual(['e1', 'e2', 'e3', 'e4']);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should read drops as dropped-by and filter on edge and node types', async () => {
+    const dropped = await graph.neighbourhood(
+      { type: 'ioc', id: 'domain-1' },
+      { edgeTypes: ['dropped-by'] },
+    );
+
+    expect(relationships.findForEntities).toHaveBeenCalledWith(
+      [{ type: 'ioc', id: 'domain-1' }],
+      ['dropped-by', 'drops', 'downloads'],
+      expect.anything(),
+    );
+    expect(dropped.edges).toEqual([expect.objectContaining({
+      type: 'dropped-by',
+      source: { type: 'ioc', id: 'domain-1' },
+      target: { type: 'malware', id: 'sample-1' },
+    })]);
+
+    const iocsOnly = await graph.neighbourhood(
+      { type: 'ioc', id: 'domain-1' },
+      { depth: 3, nodeTypes: ['ioc'] },
+    );
+    expect(iocsOnly.nodes.map((node) => node.id)).toEqual(['domain-1', 'ip-1', 'domain-2']);
+  });
+
+  it('should stop at the node limit and the maximum depth', async () => {
+    const limited = await graph.neighbourhood({ type: 'ioc', id: 'ip-1' }, { limit: 2 });
+    expect(limited.nodes).toHaveLength(2);
+    expect(limited.truncated).toBe(true);
+    expect(relationships.findForEntities).toHaveBeenCalledTimes(1);
+    expect(relationships.findForEntities).toHaveBeenCalledWith(
+      [{ type: 'ioc', id: 'ip-1' }],
+      undefined,
+      { limit: 3, order: [['lastSeen', 'DESC NULLS LAST'], ['id', 'ASC']] },
+    );
+
+    // A full page of rows may leave edges unread even when the nodes fit
+    relationships.findForEntities.mockResolvedValueOnce(['e1', 'e6', 'e7', 'e8'].map((id) => (
+      relationship(id, 'resolves-to', ['ioc', 'domain-1'], ['ioc', 'ip-1'])
+    )));
+    const capped = await graph.neighbourhood({ type: 'ioc', id: 'ip-1' }, { limit: 3 });
+    expect(capped.nodes).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+
+    graph.configure({ maxDepth: 1 });
+    const shallow = await graph.neighbourhood({ type: 'ioc', id: 'ip-1' }, { depth: 3 });
+    expect(shallow.nodes.map((node) => node.depth)).toEqual([0, 1, 1]);
+  });
+
+  it('should group pivots by edge type and direction', async () => {
+    const pivots = await graph.pivots({ type: 'ioc', id: 'domain-1' });
+
+    expect(pivots.map((group) => [
+      group.edgeType, group.direction, group.nodes.map((node) => node.id),
+    ])).toEqual([
+      ['resolves-to', 'outbound', ['ip-1']],
+      ['dropped-by', 'outbound', ['sample-1']],
+      ['attributed-to', 'outbound', ['campaign-1']],
+    ]);
+  });
+
+  it('should create edges once and count them again after', async () => {
+    const seenAt = new Date('2020-05-01T00:00:00Z');
+    relationships.findLink.mockResolvedValueOnce(null);
+    relationships.create.mockImplementation(async (attributes) => ({ id: 'new', ...attributes }));
+
+    const created = await graph.link(
+      { type: 'ioc', id: 'ip-1' },
+      'observed-in',
+      { type: 'incident', id: 'inc-1' },
+      { origin: 'manual', seenAt },
+    );
+    expect(created).toMatchObject({
+      id: 'new', type: 'observed-in', count: 1, origin: 'manual',
+    });
+
+    relationships.findLink.mockResolvedValueOnce({ id: 'new', count: 1, lastSeen: seenAt });
+    relationships.update.mockImplementation(async (id, attributes) => ({
+      ...relationship(id, 'observed-in', ['ioc', 'ip-1'], ['incident', 'inc-1']), ...attributes,
+    }));
+    const counted = await graph.link(
+      { type: 'ioc', id: 'ip-1' },
+      'observed-in',
+      { type: 'incident', id: 'inc-1' },
+    );
+    expect(counted.count).toBe(2);
+    expect(counted.lastSeen.getTime()).toBeGreaterThan(seenAt.getTime());
+
+    await expect(graph.link({ type: 'ioc', id: 'ip-1' }, 'resolves-to', { type: 'ioc', id: 'ip-1' }))
+      .rejects.toThrow('cannot be linked to itself');
+  });
+
+  it('should record linked indicators as IoCs once and keep going on failures', async () => {
+    const source = { name: 'sandbox', reliability: 80, sourceType: 'internal' as const };
+    (iocService.create as jest.Mock).mockImplementation(async ({ value }) => {
+      if (value === 'not an indicator') throw new Error('Invalid IoC');
+      return { id: `ioc-${value}` };
+    });
+    relationships.findLink.mockResolvedValue(null);
+    relationships.create.mockImplementation(async (attributes) => ({ id: 'edge', ...attributes }));
+
+    const sample = { type: 'malware' as const, id: 'sample-1' };
+    const result = await graph.linkIndicators([
+      { source: sample, edgeType: 'communicates-with', target: { value: 'evil.example' } },
+      {
+        source: { value: 'evil.example' },
+        edgeType: 'resolves-to',
+        target: { value: '203.0.113.9', type: 'ip' },
+      },
+      { source: { value: 'not an indicator' }, edgeType: 'dropped-by', target: sample },
+    ], source);
+
+    expect(result).toEqual({ linked: 2, failed: 1 });
+    expect(iocService.create).toHaveBeenCalledTimes(3);
+    expect(iocService.create).toHaveBeenCalledWith({
+      value: '203.0.113.9', type: 'ip', source,
+    });
+    expect(relationships.create).toHaveBeenCalledWith(expect.objectContaining({
+      relationshipType: 'resolves-to',
+      sourceId: 'ioc-evil.example',
+      targetId: 'ioc-203.0.113.9',
+      source: 'sandbox',
+    }));
+  });
+});
+
+describe('IoC graph linker', () => {
+  const linker = new GraphLinker();
+  let linkIndicators: jest.SpyInstance;
+
+  beforeEach(() => {
+    linkIndicators = jest.spyOn(graphService, 'linkIndicators')
+      .mockResolvedValue({ linked: 0, failed: 0 });
+    linker.start();
+  });
+
+  afterEach(() => {
+    linker.stop();
+  });
+
+  it('should link the IOCs extracted from malware samples', () => {
+    malwareService.emit('iocs:extracted', {
+      sampleId: 'sample-1',
+      ips: [{ value: '203.0.113.1' }],
+      domains: [{ value: 'c2.example', resolved: ['203.0.113.1'] }],
+      urls: [],
+      emails: [{ value: 'ops@c2.example' }],
+      hashes: [{ value: 'a'.repeat(64), algorithm: 'sha256' }],
+      filePaths: [],
+      registryKeys: [{ value: 'HKEY_CURRENT_USER\\Run\\updater' }],
+      mutexes: [],
+    });
+
+    const sample = { type: 'malware', id: 'sample-1' };
+    expect(linkIndicators).toHaveBeenCalledWith([
+      { source: sample, edgeType: 'communicates-with', target: { value: '203.0.113.1', type: 'ip' } },
+      { source: sample, edgeType: 'communicates-with', target: { value: 'c2.example', type: 'domain' } },
+      {
+        source: { value: 'c2.example', type: 'domain' },
+        edgeType: 'resolves-to',
+        target: { value: '203.0.113.1', type: 'ip' },
+      },
+      { source: { value: 'a'.repeat(64), type: 'sha256' }, edgeType: 'dropped-by', target: sample },
+      {
+        source: { value: 'HKEY_CURRENT_USER\\Run\\updater', type: 'registry_key' },
+        edgeType: 'dropped-by',
+        target: sample,
+      },
+    ], expect.objectContaining({ name: 'malware-analysis' }), { origin: 'malware-analysis' });
+  });
+
+  it('should link feed relationships under the feed source until stopped', () => {
+    const source = {
+      name: 'Partner STIX', reliability: 60, sourceType: 'community', feedId: 'feed-1',
+    };
+    const links = [{
+      source: { value: 'c2.example' }, edgeType: 'resolves-to', target: { value: '203.0.113.1' },
+    }];
+
+    feedService.emit('feed:relationships', { feedId: 'feed-1', source, links });
+    expect(linkIndicators).toHaveBeenCalledWith(links, source, { origin: 'feed:feed-1' });
+
+    linker.stop();
+    feedService.emit('feed:relationships', { feedId: 'feed-1', source, links });
+    expect(linkIndicators).toHaveBeenCalledTimes(1);
+  });
+});
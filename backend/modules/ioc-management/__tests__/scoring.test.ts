@@ -0,0 +1,168 @@
+/**
+ * Test suite for IoC confidence scoring and decay
+ */
+
+import iocService from '../services/iocService';
+import IoC from '../models/IoC';
+import feedService from '../../threat-feeds/services/feedService';
+import { halfLifeDays } from '../config/scoring';
+
+jest.mock('../models/IoC', () => ({
+  __esModule: true,
+  default: {
+    find: jest.fn(), findOne: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn(),
+  },
+}));
+
+jest.mock('../../threat-feeds/services/feedService', () => ({
+  __esModule: true,
+  default: { calculateReliabilityScore: jest.fn() },
+}));
+
+const iocModel = IoC as unknown as Record<string, jest.Mock>;
+const feeds = feedService as jest.Mocked<typeof feedService>;
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const source = (name: string, reliability: number, feedId?: string) => ({
+  name, reliability, sourceType: 'open_source' as const, feedId,
+});
+
+describe('IoC confidence scoring', () => {
+  beforeEach(() => {
+    iocService.configureScoring({ floor: 20 });
+    iocModel.findOneAndUpdate.mockImplementation(async (filter, update) => ({
+      id: filter.id, ...update,
+    }));
+  });
+
+  it('should halve the score every half-life of the IoC type', () => {
+    const factors = { sourceReliabilities: [80], sightings: 0, lastActivity: NOW };
+
+    const fresh = iocService.scoreConfidence({ ...factors, type: 'ip' }, NOW);
+    expect(fresh).toMatchObject({
+      confidence: 48, baseScore: 48, reliability: 80, corroboration: 0, decay: 1,
+    });
+
+    const aged = { ...factors, lastActivity: daysAgo(10) };
+    expect(iocService.scoreConfidence({ ...aged, type: 'ip' }, NOW))
+      .toMatchObject({
+        confidence: 24, halfLifeDays: 10, ageDays: 10, decay: 0.5,
+      });
+    expect(iocService.scoreConfidence({ ...aged, type: 'sha256' }, NOW).confidence).toBe(47);
+  });
+
+  it('should reward corroborating sources and sightings', () => {
+    const score = iocService.scoreConfidence({
+      type: 'domain', sourceReliabilities: [70, 90], sightings: 5, lastActivity: NOW,
+    }, NOW);
+
+    expect(score).toMatchObject({
+      reliability: 80, corroboration: 50, sightings: 50, baseScore: 68, confidence: 68,
+    });
+  });
+
+  it('should read half-lives from the environment', () => {
+    process.env.IOC_HALF_LIFE_DAYS_HASH = '500';
+    try {
+      expect(halfLifeDays('hash_md5')).toBe(500);
+      expect(halfLifeDays('sha1')).toBe(500);
+      expect(halfLifeDays('ip')).toBe(10);
+      expect(halfLifeDays('unknown')).toBe(90);
+    } finally {
+      delete process.env.IOC_HALF_LIFE_DAYS_HASH;
+    }
+  });
+
+  it('should score a new source into the confidence and keep the breakdown', async () => {
+    iocModel.findOne.mockResolvedValue({
+      id: 'ioc-1', type: 'domain', first_seen: new Date(), sources: [source('osint', 60)],
+    });
+
+    const updated = await iocService.updateConfidence('ioc-1', source('vendor', 100));
+
+    expect(updated.confidence).toBe(58);
+    expect(updated.scoring).toMatchObject({ reliability: 80, corroboration: 50 });
+  });
+
+  it('should recompute active IoCs with feed reliability and expire decayed ones', async () => {
+    const updated = jest.fn();
+    iocService.on('ioc:updated', updated);
+    const iocs = [
+      {
+        id: 'fresh',
+        type: 'hash_sha256',
+        confidence: 50,
+        first_seen: daysAgo(30),
+        hits: 2,
+        sources: [source('abuse.ch', 40, 'feed-1')],
+      },
+      {
+        id: 'stale',
+        type: 'ip',
+        confidence: 50,
+        first_seen: daysAgo(90),
+        last_seen: daysAgo(30),
+        sources: [source('abuse.ch', 40, 'feed-1')],
+      },
+    ];
+    // Active IoCs are streamed, as plain objects, from a cursor
+    const query: Record<string, jest.Mock> = {
+      select: jest.fn(() => query),
+      lean: jest.fn(() => query),
+      cursor: jest.fn(() => ({
+        eachAsync: (score: (ioc: any) => Promise<void>) => iocs.reduce(
+          async (previous, ioc) => {
+            await previous;
+            await score(ioc);
+          },
+          Promise.resolve(),
+        ),
+      })),
+    };
+    iocModel.find.mockReturnValue(query);
+    feeds.calculateReliabilityScore.mockResolvedValue({ score: 90 } as any);
+
+    const result = await iocService.recomputeScores(NOW);
+    iocService.off('ioc:updated', updated);
+
+    expect(result).toEqual({ scored: 2, expired: 1, failed: 0 });
+    expect(iocModel.find).toHaveBeenCalledWith({ status: 'active' });
+    expect(query.select)
+      .toHaveBeenCalledWith('id type confidence scoring sources first_seen last_seen hits created_at');
+    expect(query.lean).toHaveBeenCalled();
+    expect(query.cursor).toHaveBeenCalledWith({ batchSize: 500 });
+    expect(feeds.calculateReliabilityScore).toHaveBeenCalledTimes(1);
+    expect(iocModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { id: 'fresh' },
+      expect.objectContaining({ confidence: 56 }),
+      { new: true },
+    );
+
+    const [, update] = iocModel.findOneAndUpdate.mock.calls
+      .find(([filter]) => filter.id === 'stale');
+    expect(update.$set).toMatchObject({
+      status: 'expired',
+      confidence: 7,
+      scoring: { ageDays: 30, halfLifeDays: 10, reliability: 90 },
+      'metadata.expirationReason': 'Confidence 7 fell below the floor of 20 after 30 days'
+        + ' without activity (half-life 10 days)',
+      'metadata.expiredAt': expect.any(Date),
+    });
+    expect(update).not.toHaveProperty('metadata');
+    expect(updated).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count sightings and keep the latest one', async () => {
+    iocModel.updateOne.mockResolvedValue({});
+    const seenAt = daysAgo(1);
+
+    await iocService.recordSighting('ioc-1', seenAt);
+
+    expect(iocModel.updateOne).toHaveBeenCalledWith(
+      { id: 'ioc-1' },
+      { $inc: { hits: 1 }, $max: { last_seen: seenAt } },
+    );
+  });
+});
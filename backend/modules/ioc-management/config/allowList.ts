@@ -0,0 +1,39 @@
+/**
+ * IoC Allow-list Configuration
+ * IOC_ALLOW_LIST_BUNDLED (comma-separated) names the bundled lists applied
+ * besides the organisation's own entries, all of them by default; set it to
+ * `none` to apply none. Entries are reloaded every
+ * IOC_ALLOW_LIST_REFRESH_SECONDS seconds to pick up changes made by other
+ * instances.
+ */
+
+import { BUNDLED_ALLOW_LISTS } from '../data/allowLists';
+
+const DEFAULT_REFRESH_SECONDS = 300;
+
+export interface AllowListConfig {
+  readonly bundledLists: readonly string[];
+  readonly refreshInterval: number; // seconds
+}
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+const bundledFromEnv = (): readonly string[] => {
+  const names = process.env.IOC_ALLOW_LIST_BUNDLED;
+  if (!names) return BUNDLED_ALLOW_LISTS.map((list) => list.name);
+  if (names.trim().toLowerCase() === 'none') return [];
+  return names.split(',').map((name) => name.trim()).filter(Boolean);
+};
+
+/**
+ * Read the allow-list configuration from the environment
+ */
+export const loadAllowListConfig = (): AllowListConfig => ({
+  bundledLists: bundledFromEnv(),
+  refreshInterval: numberFromEnv('IOC_ALLOW_LIST_REFRESH_SECONDS') ?? DEFAULT_REFRESH_SECONDS,
+});
+
+export default { loadAllowListConfig };
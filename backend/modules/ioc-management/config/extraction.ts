@@ -0,0 +1,31 @@
+/**
+ * IoC Extraction Configuration
+ * Domains in IOC_EXTRACTION_ALLOW_LIST (comma-separated) are dropped from
+ * extracted indicators, with their subdomains, and so are URLs and email
+ * addresses on them. The domains reserved for documentation always are.
+ * Texts longer than MAX_EXTRACT_TEXT_LENGTH characters are refused: every
+ * matcher scans the whole text synchronously.
+ */
+
+// RFC 2606 and RFC 6761 names, which appear in examples but never in attacks
+const RESERVED_DOMAINS = ['example.com', 'example.net', 'example.org'];
+
+export const MAX_EXTRACT_TEXT_LENGTH = 512 * 1024;
+
+export interface ExtractionConfig {
+  readonly allowList: readonly string[];
+}
+
+/**
+ * Read the extraction configuration from the environment
+ */
+export const loadExtractionConfig = (): ExtractionConfig => ({
+  allowList: [
+    ...RESERVED_DOMAINS,
+    ...(process.env.IOC_EXTRACTION_ALLOW_LIST || '').split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean),
+  ],
+});
+
+export default { loadExtractionConfig };
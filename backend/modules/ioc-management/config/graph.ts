@@ -0,0 +1,25 @@
+/**
+ * IoC Relationship Graph Configuration
+ * Neighbourhood queries go at most IOC_GRAPH_MAX_DEPTH hops from the root and
+ * return at most IOC_GRAPH_MAX_NODES nodes.
+ */
+
+export interface GraphConfig {
+  readonly maxDepth: number;
+  readonly maxNodes: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Read the graph configuration from the environment
+ */
+export const loadGraphConfig = (): GraphConfig => ({
+  maxDepth: numberFromEnv('IOC_GRAPH_MAX_DEPTH', 3),
+  maxNodes: numberFromEnv('IOC_GRAPH_MAX_NODES', 500),
+});
+
+export default { loadGraphConfig };
@@ -0,0 +1,68 @@
+/**
+ * IoC Confidence Scoring Configuration
+ * Confidence halves every half-life without activity. Half-lives are in days
+ * per IoC type: override with IOC_HALF_LIFE_DAYS (all types) or
+ * IOC_HALF_LIFE_DAYS_<TYPE>, e.g. IOC_HALF_LIFE_DAYS_IP=7 (hash types share
+ * IOC_HALF_LIFE_DAYS_HASH). Every IOC_SCORE_INTERVAL seconds the scores of
+ * active IoCs are recomputed, and those below IOC_SCORE_FLOOR are expired.
+ */
+
+const DEFAULT_HALF_LIFE_DAYS = 90;
+
+// Network infrastructure is cheap to rotate; file artifacts stay relevant for longer
+const TYPE_HALF_LIFE_DAYS: Record<string, number> = {
+  ip: 10,
+  domain: 30,
+  url: 30,
+  email: 60,
+  user_agent: 60,
+  hash: 365,
+  file_name: 180,
+  file_path: 180,
+  registry_key: 180,
+  mutex: 180,
+  cve: 730,
+};
+
+const HASH_TYPES = ['md5', 'sha1', 'sha256', 'hash_md5', 'hash_sha1', 'hash_sha256'];
+
+export interface ScoringWeights {
+  readonly reliability: number;
+  readonly corroboration: number;
+  readonly sightings: number;
+}
+
+export interface ScoringConfig {
+  readonly floor: number; // 0-100
+  readonly interval: number; // seconds
+  readonly weights: ScoringWeights;
+  readonly sightingsHalfScore: number; // sightings worth half the sightings score
+}
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+/**
+ * Half-life in days of an IoC type
+ */
+export const halfLifeDays = (type: string): number => {
+  const key = HASH_TYPES.includes(type) ? 'hash' : type;
+  return numberFromEnv(`IOC_HALF_LIFE_DAYS_${key.toUpperCase()}`)
+    ?? numberFromEnv('IOC_HALF_LIFE_DAYS')
+    ?? TYPE_HALF_LIFE_DAYS[key]
+    ?? DEFAULT_HALF_LIFE_DAYS;
+};
+
+/**
+ * Read the scoring configuration from the environment
+ */
+export const loadScoringConfig = (): ScoringConfig => ({
+  floor: numberFromEnv('IOC_SCORE_FLOOR') ?? 20,
+  interval: numberFromEnv('IOC_SCORE_INTERVAL') ?? 3600,
+  weights: { reliability: 0.6, corroboration: 0.2, sightings: 0.2 },
+  sightingsHalfScore: 5,
+});
+
+export default { halfLifeDays, loadScoringConfig };
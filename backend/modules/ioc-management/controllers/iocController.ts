@@ -1,4 +1,9 @@
 import iocService from '../services/iocService';
+import scoreDecayJob from '../services/scoreDecayJob';
+import graphService from '../services/graphService';
+import iocExtractor from '../services/iocExtractor';
+import allowListService from '../services/allowListService';
+import { EnrichmentError } from '../../enrichment/errors';
 
 class IocController {
   async create(req, res) {
@@ -66,6 +71,97 @@ class IocController {
     }
   }
 
+  async enrich(req, res) {
+    try {
+      const item = await iocService.enrichIoC(req.params.id, req.body);
+      res.json({ success: true, data: item });
+    } catch (error) {
+      const status = error instanceof EnrichmentError ? error.status : 400;
+      res.status(status).json({ success: false, error: error.message });
+    }
+  }
+
+  async getScore(req, res) {
+    try {
+      const score = await iocService.getScore(req.params.id);
+      res.json({ success: true, data: score });
+    } catch (error) {
+      res.status(404).json({ success: false, error: error.message });
+    }
+  }
+
+  async recomputeScores(req, res) {
+    try {
+      const result = await scoreDecayJob.run();
+      if (!result) {
+        res.status(409).json({ success: false, error: 'Scores are already being recomputed' });
+        return;
+      }
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  async extract(req, res) {
+    try {
+      const {
+        text, record, source, ...options
+      } = req.body;
+      const result = iocExtractor.extract(text, options);
+      const recorded = record ? await iocExtractor.record(result.indicators, source) : undefined;
+      res.json({ success: true, data: { ...result, ...(recorded && { recorded }) } });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
+  async getGraph(req, res) {
+    try {
+      const { type, id } = req.params;
+      const graph = await graphService.neighbourhood({ type, id }, req.query);
+      res.json({ success: true, data: graph });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  async getPivots(req, res) {
+    try {
+      const { type, id } = req.params;
+      const pivots = await graphService.pivots({ type, id });
+      res.json({ success: true, data: pivots });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  async createEdge(req, res) {
+    try {
+      const {
+        source, type, target, confidence, description,
+      } = req.body;
+      const edge = await graphService.link(source, type, target, {
+        confidence,
+        description,
+        origin: 'manual',
+        metadata: { createdBy: req.user?.id || 'system' },
+      });
+      res.status(201).json({ success: true, data: edge });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
+  async deleteEdge(req, res) {
+    try {
+      const result = await graphService.unlink(req.params.edgeId);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(404).json({ success: false, error: error.message });
+    }
+  }
+
   async checkIoC(req, res) {
     try {
       const { value, type } = req.body;
@@ -75,6 +171,74 @@ class IocController {
       res.status(400).json({ success: false, error: error.message });
     }
   }
+
+  async listAllowList(req, res) {
+    try {
+      const entries = await allowListService.listEntries();
+      res.json({ success: true, data: entries });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  async addAllowListEntry(req, res) {
+    try {
+      const entry = await allowListService.addEntry(req.body, req.user?.id || 'system');
+      res.status(201).json({ success: true, data: entry });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
+  async removeAllowListEntry(req, res) {
+    try {
+      const result = await allowListService.removeEntry(req.params.entryId);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(404).json({ success: false, error: error.message });
+    }
+  }
+
+  async listBundledAllowLists(req, res) {
+    res.json({ success: true, data: allowListService.bundledLists() });
+  }
+
+  /**
+   * Impact check before blocking or importing: which of the values are
+   * allow-listed, and by which entry
+   */
+  async checkAllowList(req, res) {
+    try {
+      const results = allowListService.checkValues(req.body.values);
+      res.json({
+        success: true,
+        data: {
+          allowListed: results.filter((result) => result.match).length,
+          results,
+        },
+      });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
+  async listAllowListHits(req, res) {
+    try {
+      const hits = await allowListService.hits(req.query);
+      res.json({ success: true, data: hits });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
+
+  async summarizeAllowListHits(req, res) {
+    try {
+      const summary = await allowListService.hitSummary(req.query);
+      res.json({ success: true, data: summary });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
+    }
+  }
 }
 
 export default new IocController();
@@ -0,0 +1,84 @@
+/**
+ * Bundled Allow-lists
+ * Values that feeds keep reporting by mistake: the sites everyone visits and
+ * the service addresses of large providers. They are lists of exact values
+ * and ranges, never of domain suffixes, because subdomains and customer
+ * address space of the same providers do host attacks.
+ */
+
+import type { AllowListEntryKind } from '../types';
+
+export interface BundledAllowListEntry {
+  readonly kind: AllowListEntryKind;
+  readonly value: string;
+  readonly reason?: string;
+}
+
+export interface BundledAllowList {
+  readonly name: string;
+  readonly description: string;
+  readonly entries: readonly BundledAllowListEntry[];
+}
+
+// Apex domains of the most visited sites; each is taken with its www. host
+const TOP_DOMAINS = [
+  'google.com', 'youtube.com', 'facebook.com', 'instagram.com', 'whatsapp.com',
+  'twitter.com', 'x.com', 'linkedin.com', 'wikipedia.org', 'reddit.com',
+  'amazon.com', 'ebay.com', 'paypal.com', 'netflix.com', 'spotify.com',
+  'apple.com', 'icloud.com', 'microsoft.com', 'office.com', 'live.com',
+  'outlook.com', 'bing.com', 'msn.com', 'windows.com', 'windowsupdate.com',
+  'microsoftonline.com', 'yahoo.com', 'baidu.com', 'qq.com', 'yandex.ru',
+  'vk.com', 'tiktok.com', 'twitch.tv', 'zoom.us', 'slack.com',
+  'salesforce.com', 'adobe.com', 'oracle.com', 'ibm.com', 'cisco.com',
+  'intel.com', 'samsung.com', 'cloudflare.com', 'akamai.com', 'mozilla.org',
+  'github.com', 'gitlab.com', 'atlassian.com', 'stackoverflow.com', 'wordpress.org',
+  'python.org', 'npmjs.com', 'ubuntu.com', 'debian.org', 'digicert.com',
+  'letsencrypt.org', 'verisign.com', 'gstatic.com', 'googleapis.com', 'doubleclick.net',
+];
+
+// Service ranges operated by the providers themselves; ranges their
+// customers rent (cloud compute, CDN edges) are left out on purpose
+const PROVIDER_RANGES: readonly [string, string][] = [
+  ['8.8.8.0/24', 'Google Public DNS'],
+  ['8.8.4.0/24', 'Google Public DNS'],
+  ['2001:4860:4860::/48', 'Google Public DNS'],
+  ['1.1.1.0/24', 'Cloudflare DNS'],
+  ['1.0.0.0/24', 'Cloudflare DNS'],
+  ['2606:4700:4700::/48', 'Cloudflare DNS'],
+  ['9.9.9.0/24', 'Quad9 DNS'],
+  ['149.112.112.0/24', 'Quad9 DNS'],
+  ['2620:fe::/48', 'Quad9 DNS'],
+  ['208.67.222.0/24', 'Cisco OpenDNS'],
+  ['208.67.220.0/24', 'Cisco OpenDNS'],
+  ['13.107.6.152/31', 'Microsoft 365 Exchange Online'],
+  ['13.107.18.10/31', 'Microsoft 365 Exchange Online'],
+  ['13.107.128.0/22', 'Microsoft 365 Exchange Online'],
+  ['23.103.160.0/20', 'Microsoft 365 Exchange Online'],
+  ['40.96.0.0/13', 'Microsoft 365 Exchange Online'],
+  ['40.104.0.0/15', 'Microsoft 365 Exchange Online'],
+  ['52.96.0.0/14', 'Microsoft 365 Exchange Online'],
+  ['131.253.33.215/32', 'Microsoft 365 Exchange Online'],
+  ['132.245.0.0/16', 'Microsoft 365 Exchange Online'],
+  ['150.171.32.0/22', 'Microsoft 365 Exchange Online'],
+  ['204.79.197.215/32', 'Microsoft 365 Exchange Online'],
+];
+
+export const BUNDLED_ALLOW_LISTS: readonly BundledAllowList[] = [
+  {
+    name: 'top-domains',
+    description: 'Apex and www. hosts of the most visited sites',
+    entries: TOP_DOMAINS.flatMap((domain) => [
+      { kind: 'value' as const, value: domain, reason: 'Top site' },
+      { kind: 'value' as const, value: `www.${domain}`, reason: 'Top site' },
+    ]),
+  },
+  {
+    name: 'cloud-provider-ranges',
+    description: 'Public DNS resolvers and provider-operated service ranges',
+    entries: PROVIDER_RANGES.map(([range, reason]) => ({
+      kind: 'cidr' as const, value: range, reason,
+    })),
+  },
+];
+
+export default BUNDLED_ALLOW_LISTS;
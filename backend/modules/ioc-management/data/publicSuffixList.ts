@@ -0,0 +1,326 @@
+/**
+ * Bundled Public Suffix List
+ * ICANN section of the Public Suffix List (https://publicsuffix.org/list/),
+ * limited to ASCII rules: every top-level domain, and the second-level domains
+ * that registries open to registration (`co.uk`, `com.au`, `*.ck`, ...).
+ * Geographic and sectoral suffixes below them are left out.
+ *
+ * Rules use the list's syntax: `*.` for wildcards, `!` for exceptions and
+ * `//` for comments. Unlike the list, a line may hold several rules.
+ *
+ * This Source Code Form is subject to the terms of the Mozilla Public License,
+ * v. 2.0. If a copy of the MPL was not distributed with this file, You can
+ * obtain one at https://mozilla.org/MPL/2.0/.
+ */
+
+export const PUBLIC_SUFFIX_LIST = `
+// ===BEGIN ICANN DOMAINS===
+
+// Top-level domains
+aaa aarp abb abbott abbvie abc able abogado abudhabi ac academy accenture accountant accountants
+aco actor ad ads adult ae aeg aero aetna af afl africa ag agakhan agency ai aig airbus airforce
+airtel akdn al alibaba alipay allfinanz allstate ally alsace alstom am amazon americanexpress
+americanfamily amex amfam amica amsterdam analytics android anquan anz ao aol apartments app
+apple aq aquarelle ar arab aramco archi army arpa art arte as asda asia associates at athleta
+attorney au auction audi audible audio auspost author auto autos aw aws ax axa az azure ba baby
+baidu banamex band bank bar barcelona barclaycard barclays barefoot bargains baseball basketball
+bauhaus bayern bb bbc bbt bbva bcg bcn be beats beauty beer bentley berlin best bestbuy bet bf
+bg bh bharti bi bible bid bike bing bingo bio biz bj black blackfriday blockbuster blog
+bloomberg blue bm bms bmw bn bnpparibas bo boats boehringer bofa bom bond boo book booking bosch
+bostik boston bot boutique box br bradesco bridgestone broadway broker brother brussels bs bt
+build builders business buy buzz bv bw by bz bzh ca cab cafe cal call calvinklein cam camera
+camp canon capetown capital capitalone car caravan cards care career careers cars casa case cash
+casino cat catering catholic cba cbn cbre cc cd center ceo cern cf cfa cfd cg ch chanel channel
+charity chase chat cheap chintai christmas chrome church ci cipriani circle cisco citadel citi
+citic city cl claims cleaning click clinic clinique clothing cloud club clubmed cm cn co coach
+codes coffee college cologne com commbank community company compare computer comsec condos
+construction consulting contact contractors cooking cool coop corsica country coupon coupons
+courses cpa cr credit creditcard creditunion cricket crown crs cruise cruises cu cuisinella cv
+cw cx cy cymru cyou cz dad dance data date dating datsun day dclk dds de deal dealer deals
+degree delivery dell deloitte delta democrat dental dentist desi design dev dhl diamonds diet
+digital direct directory discount discover dish diy dj dk dm dnp do docs doctor dog domains dot
+download drive dtv dubai dunlop dupont durban dvag dvr dz earth eat ec eco edeka edu education
+ee eg email emerck energy engineer engineering enterprises epson equipment ericsson erni es esq
+estate et eu eurovision eus events exchange expert exposed express extraspace fage fail
+fairwinds faith family fan fans farm farmers fashion fast fedex feedback ferrari ferrero fi
+fidelity fido film final finance financial fire firestone firmdale fish fishing fit fitness fj
+flickr flights flir florist flowers fly fm fo foo food football ford forex forsale forum
+foundation fox fr free fresenius frl frogans frontier ftr fujitsu fun fund furniture futbol fyi
+ga gal gallery gallo gallup game games gap garden gay gb gbiz gd gdn ge gea gent genting george
+gf gg ggee gh gi gift gifts gives giving gl glass gle global globo gm gmail gmbh gmo gmx gn
+godaddy gold goldpoint golf goo goodyear goog google gop got gov gp gq gr grainger graphics
+gratis green gripe grocery group gs gt gu gucci guge guide guitars guru gw gy hair hamburg
+hangout haus hbo hdfc hdfcbank health healthcare help helsinki here hermes hiphop hisamitsu
+hitachi hiv hk hkt hm hn hockey holdings holiday homedepot homegoods homes homesense honda horse
+hospital host hosting hot hotels hotmail house how hr hsbc ht hu hughes hyatt hyundai ibm icbc
+ice icu id ie ieee ifm ikano il im imamat imdb immo immobilien in inc industries infiniti info
+ing ink institute insurance insure int international intuit investments io ipiranga iq ir irish
+is ismaili ist istanbul it itau itv jaguar java jcb je jeep jetzt jewelry jio jll jmp jnj jo
+jobs joburg jot joy jp jpmorgan jprs juegos juniper kaufen kddi ke kerryhotels kerryproperties
+kfh kg ki kia kids kim kindle kitchen kiwi km kn koeln komatsu kosher kp kpmg kpn kr krd kred
+kuokgroup kw ky kyoto kz la lacaixa lamborghini lamer lancaster land landrover lanxess lasalle
+lat latino latrobe law lawyer lb lc lds lease leclerc lefrak legal lego lexus lgbt li lidl life
+lifeinsurance lifestyle lighting like lilly limited limo lincoln link live living lk llc llp
+loan loans locker locus lol london lotte lotto love lpl lplfinancial lr ls lt ltd ltda lu
+lundbeck luxe luxury lv ly ma madrid maif maison makeup man management mango map market
+marketing markets marriott marshalls mattel mba mc mckinsey md me med media meet melbourne meme
+memorial men menu merck merckmsd mg mh miami microsoft mil mini mint mit mitsubishi mk ml mlb
+mls mma mn mo mobi mobile moda moe moi mom monash money monster mormon mortgage moscow moto
+motorcycles mov movie mp mq mr ms msd mt mtn mtr mu museum music mv mw mx my mz na nab nagoya
+name navy nba nc ne nec net netbank netflix network neustar new news next nextdirect nexus nf
+nfl ng ngo nhk ni nico nike nikon ninja nissan nissay nl no nokia norton now nowruz nowtv nr nra
+nrw ntt nu nyc nz obi observer office okinawa olayan olayangroup ollo om omega one ong onion onl
+online ooo open oracle orange org organic origins osaka otsuka ott ovh pa page panasonic paris
+pars partners parts party pay pccw pe pet pf pfizer ph pharmacy phd philips phone photo
+photography photos physio pics pictet pictures pid pin ping pink pioneer pizza pk pl place play
+playstation plumbing plus pm pn pnc pohl poker politie porn post pr pramerica praxi press prime
+pro prod productions prof progressive promo properties property protection pru prudential ps pt
+pub pw pwc py qa qpon quebec quest racing radio re read realestate realtor realty recipes red
+redstone redumbrella rehab reise reisen reit reliance ren rent rentals repair report republican
+rest restaurant review reviews rexroth rich richardli ricoh ril rio rip ro rocks rodeo rogers
+room rs rsvp ru rugby ruhr run rw rwe ryukyu sa saarland safe safety sakura sale salon samsclub
+samsung sandvik sandvikcoromant sanofi sap sarl sas save saxo sb sbi sbs sc scb schaeffler
+schmidt scholarships school schule schwarz science scot sd se search seat secure security seek
+select sener services seven sew sex sexy sfr sg sh shangrila sharp shell shia shiksha shoes shop
+shopping shouji show si silk sina singles site sj sk ski skin sky skype sl sling sm smart smile
+sn sncf so soccer social softbank software sohu solar solutions song sony soy spa space sport
+spot sr srl ss st stada staples star statebank statefarm stc stcgroup stockholm storage store
+stream studio study style su sucks supplies supply support surf surgery suzuki sv swatch swiss
+sx sy sydney systems sz tab taipei talk taobao target tatamotors tatar tattoo tax taxi tc tci td
+tdk team tech technology tel temasek tennis teva tf tg th thd theater theatre tiaa tickets
+tienda tips tires tirol tj tjmaxx tjx tk tkmaxx tl tm tmall tn to today tokyo tools top toray
+toshiba total tours town toyota toys tr trade trading training travel travelers
+travelersinsurance trust trv tt tube tui tunes tushu tv tvs tw tz ua ubank ubs ug uk unicom
+university uno uol ups us uy uz va vacations vana vanguard vc ve vegas ventures verisign
+versicherung vet vg vi viajes video vig viking villas vin vip virgin visa vision viva vivo
+vlaanderen vn vodka volvo vote voting voto voyage vu wales walmart walter wang wanggou watch
+watches weather weatherchannel webcam weber website wed wedding weibo weir wf whoswho wien wiki
+williamhill win windows wine winners wme wolterskluwer woodside work works world wow ws wtc wtf
+xbox xerox xihuan xin xn--11b4c3d xn--1ck2e1b xn--1qqw23a xn--2scrj9c xn--30rr7y xn--3bst00m
+xn--3ds443g xn--3e0b707e xn--3hcrj9c xn--3pxu8k xn--42c2d9a xn--45br5cyl xn--45brj9c xn--45q11c
+xn--4dbrk0ce xn--4gbrim xn--54b7fta0cc xn--55qw42g xn--55qx5d xn--5su34j936bgsg xn--5tzm5g
+xn--6frz82g xn--6qq986b3xl xn--80adxhks xn--80ao21a xn--80aqecdr1a xn--80asehdb xn--80aswg
+xn--8y0a063a xn--90a3ac xn--90ae xn--90ais xn--9dbq2a xn--9et52u xn--9krt00a xn--b4w605ferd
+xn--bck1b9a5dre4c xn--c1avg xn--c2br7g xn--cck2b3b xn--cckwcxetd xn--cg4bki
+xn--clchc0ea0b2g2a9gcd xn--czr694b xn--czrs0t xn--czru2d xn--d1acj3b xn--d1alf xn--e1a4c
+xn--eckvdtc9d xn--efvy88h xn--fct429k xn--fhbei xn--fiq228c5hs xn--fiq64b xn--fiqs8s xn--fiqz9s
+xn--fjq720a xn--flw351e xn--fpcrj9c3d xn--fzc2c9e2c xn--fzys8d69uvgm xn--g2xx48c xn--gckr3f0f
+xn--gecrj9c xn--gk3at1e xn--h2breg3eve xn--h2brj9c xn--h2brj9c8c xn--hxt814e xn--i1b6b1a6a2e
+xn--imr513n xn--io0a7i xn--j1aef xn--j1amh xn--j6w193g xn--jlq480n2rg xn--jvr189m
+xn--kcrx77d1x4a xn--kprw13d xn--kpry57d xn--kput3i xn--l1acc xn--lgbbat1ad8j xn--mgb2ddes
+xn--mgb9awbf xn--mgba3a3ejt xn--mgba3a4f16a xn--mgba3a4fra xn--mgba7c0bbn0a xn--mgbaam7a8h
+xn--mgbab2bd xn--mgbah1a3hjkrd xn--mgbai9a5eva00b xn--mgbai9azgqp6j xn--mgbayh7gpa xn--mgbbh1a
+xn--mgbbh1a71e xn--mgbc0a9azcg xn--mgbca7dzdo xn--mgbcpq6gpa1a xn--mgberp4a5d4a87g
+xn--mgberp4a5d4ar xn--mgbgu82a xn--mgbi4ecexp xn--mgbpl2fh xn--mgbqly7c0a67fbc xn--mgbqly7cvafr
+xn--mgbt3dhd xn--mgbtf8fl xn--mgbtx2b xn--mgbx4cd0ab xn--mix082f xn--mix891f xn--mk1bu44c
+xn--mxtq1m xn--ngbc5azd xn--ngbe9e0a xn--ngbrx xn--nnx388a xn--node xn--nqv7f xn--nqv7fs00ema
+xn--nyqy26a xn--o3cw4h xn--ogbpf8fl xn--otu796d xn--p1acf xn--p1ai xn--pgbs0dh xn--pssy2u
+xn--q7ce6a xn--q9jyb4c xn--qcka1pmc xn--qxa6a xn--qxam xn--rhqv96g xn--rovu88b xn--rvc1e0am3e
+xn--s9brj9c xn--ses554g xn--t60b56a xn--tckwe xn--tiq49xqyj xn--unup4y xn--vermgensberater-ctb
+xn--vermgensberatung-pwb xn--vhquv xn--vuq861b xn--w4r85el8fhu5dnra xn--w4rs40l xn--wgbh1c
+xn--wgbl6a xn--xhq521b xn--xkc2al3hye2a xn--xkc2dl3a5ee0h xn--y9a3aq xn--yfro4i67o xn--ygbi2ammx
+xn--zfr164b xxx xyz yachts yahoo yamaxun yandex ye yodobashi yoga yokohama you youtube yt yun
+zappos zara zero zip zm zone zuerich zw
+
+// Second-level domains open to registration, by top-level domain
+com.ac edu.ac gov.ac mil.ac net.ac org.ac
+ac.ae co.ae gov.ae mil.ae net.ae org.ae
+com.af edu.af gov.af net.af org.af
+co.ag com.ag net.ag org.ag
+com.ai net.ai org.ai
+com.al edu.al gov.al mil.al net.al org.al
+co.am com.am net.am org.am
+co.ao edu.ao gov.ao org.ao
+com.ar edu.ar gob.ar gov.ar int.ar mil.ar net.ar org.ar
+gov.as
+ac.at co.at or.at
+com.au edu.au gov.au net.au org.au
+com.aw
+biz.az co.az com.az edu.az gov.az info.az int.az mil.az net.az org.az
+com.ba edu.ba gov.ba mil.ba net.ba org.ba
+biz.bb co.bb com.bb edu.bb gov.bb info.bb net.bb org.bb
+*.bd
+ac.be
+gov.bf
+com.bh edu.bh gov.bh net.bh org.bh
+co.bi com.bi edu.bi or.bi org.bi
+co.bj com.bj edu.bj info.bj net.bj org.bj
+com.bm edu.bm gov.bm net.bm org.bm
+com.bn edu.bn gov.bn net.bn org.bn
+com.bo edu.bo gob.bo info.bo int.bo mil.bo net.bo org.bo
+*.nom.br com.br edu.br gov.br mil.br net.br org.br
+com.bs edu.bs gov.bs net.bs org.bs
+com.bt edu.bt gov.bt net.bt org.bt
+ac.bw co.bw gov.bw net.bw org.bw
+com.by gov.by mil.by
+co.bz com.bz edu.bz gov.bz net.bz org.bz
+gov.cd
+ac.ci co.ci com.ci edu.ci go.ci gouv.ci int.ci net.ci or.ci org.ci
+*.ck
+co.cl gob.cl gov.cl mil.cl
+co.cm com.cm gov.cm net.cm
+ac.cn com.cn edu.cn gov.cn mil.cn net.cn org.cn
+com.co edu.co gov.co mil.co net.co org.co
+ac.cr co.cr go.cr or.cr
+com.cu edu.cu gob.cu net.cu org.cu
+com.cv edu.cv int.cv net.cv org.cv
+com.cw edu.cw net.cw org.cw
+gov.cx
+ac.cy biz.cy com.cy gov.cy ltd.cy mil.cy net.cy org.cy
+co.dm com.dm edu.dm gov.dm net.dm org.dm
+com.do edu.do gob.do gov.do mil.do net.do org.do
+com.dz edu.dz gov.dz net.dz org.dz
+com.ec edu.ec gob.ec gov.ec info.ec mil.ec net.ec org.ec
+com.ee edu.ee gov.ee org.ee
+ac.eg com.eg edu.eg gov.eg info.eg mil.eg net.eg org.eg
+*.er
+com.es edu.es gob.es org.es
+biz.et com.et edu.et gov.et info.et net.et org.et
+ac.fj biz.fj com.fj gov.fj info.fj mil.fj net.fj org.fj
+*.fk
+com.fm edu.fm net.fm org.fm
+com.fr gouv.fr
+edu.gd gov.gd
+com.ge edu.ge gov.ge net.ge org.ge
+co.gg net.gg org.gg
+com.gh edu.gh gov.gh mil.gh org.gh
+com.gi edu.gi gov.gi ltd.gi org.gi
+co.gl com.gl edu.gl net.gl org.gl
+ac.gn com.gn edu.gn gov.gn net.gn org.gn
+com.gp edu.gp net.gp org.gp
+com.gr edu.gr gov.gr net.gr org.gr
+com.gt edu.gt gob.gt mil.gt net.gt org.gt
+com.gu edu.gu gov.gu info.gu net.gu org.gu
+co.gy com.gy edu.gy gov.gy net.gy org.gy
+com.hk edu.hk gov.hk net.hk org.hk
+com.hn edu.hn gob.hn mil.hn net.hn org.hn
+com.hr
+com.ht edu.ht gouv.ht info.ht net.ht org.ht
+co.hu info.hu org.hu
+ac.id biz.id co.id go.id mil.id net.id or.id
+gov.ie
+ac.il co.il gov.il net.il org.il
+ac.im co.im com.im net.im org.im
+ac.in biz.in co.in com.in edu.in gov.in info.in int.in mil.in net.in org.in
+co.io com.io edu.io gov.io mil.io net.io org.io
+com.iq edu.iq gov.iq mil.iq net.iq org.iq
+ac.ir co.ir gov.ir net.ir org.ir
+co.it edu.it go.it gov.it or.it
+co.je net.je org.je
+*.jm
+com.jo edu.jo gov.jo mil.jo net.jo org.jo
+*.kawasaki.jp *.kitakyushu.jp *.kobe.jp *.nagoya.jp *.sapporo.jp *.sendai.jp *.yokohama.jp ac.jp
+co.jp go.jp ne.jp or.jp
+ac.ke co.ke go.ke info.ke ne.ke or.ke
+com.kg edu.kg gov.kg mil.kg net.kg org.kg
+*.kh
+biz.ki com.ki edu.ki gov.ki info.ki net.ki org.ki
+com.km edu.km gouv.km gov.km mil.km org.km
+edu.kn gov.kn net.kn org.kn
+com.kp edu.kp gov.kp org.kp
+ac.kr co.kr go.kr mil.kr ne.kr or.kr
+com.kw edu.kw gov.kw net.kw org.kw
+com.ky edu.ky net.ky org.ky
+com.kz edu.kz gov.kz mil.kz net.kz org.kz
+com.la edu.la gov.la info.la int.la net.la org.la
+com.lb edu.lb gov.lb net.lb org.lb
+co.lc com.lc edu.lc gov.lc net.lc org.lc
+ac.lk com.lk edu.lk gov.lk int.lk ltd.lk net.lk org.lk
+com.lr edu.lr gov.lr net.lr org.lr
+ac.ls biz.ls co.ls edu.ls gov.ls info.ls net.ls org.ls
+gov.lt
+com.lv edu.lv gov.lv mil.lv net.lv org.lv
+com.ly edu.ly gov.ly net.ly org.ly plc.ly
+ac.ma co.ma gov.ma net.ma org.ma
+ac.me co.me edu.me gov.me net.me org.me
+co.mg com.mg edu.mg gov.mg mil.mg org.mg
+com.mk edu.mk gov.mk net.mk org.mk
+ac.ml com.ml edu.ml gouv.ml gov.ml info.ml net.ml org.ml
+*.mm
+edu.mn gov.mn org.mn
+com.mo edu.mo gov.mo net.mo org.mo
+gov.mr
+com.ms edu.ms gov.ms net.ms org.ms
+com.mt edu.mt net.mt org.mt
+ac.mu co.mu com.mu gov.mu net.mu or.mu org.mu
+biz.mv com.mv edu.mv gov.mv info.mv int.mv mil.mv net.mv org.mv
+ac.mw biz.mw co.mw com.mw edu.mw gov.mw int.mw net.mw org.mw
+com.mx edu.mx gob.mx net.mx org.mx
+biz.my com.my edu.my gov.my mil.my net.my org.my
+ac.mz co.mz edu.mz gov.mz mil.mz net.mz org.mz
+co.na com.na gov.na net.na org.na
+com.nf info.nf net.nf
+com.ng edu.ng gov.ng mil.ng net.ng org.ng
+ac.ni biz.ni co.ni com.ni edu.ni gob.ni info.ni int.ni mil.ni net.ni org.ni
+mil.no
+*.np
+biz.nr com.nr edu.nr gov.nr info.nr net.nr org.nr
+ac.nz co.nz govt.nz mil.nz net.nz org.nz
+co.om com.om edu.om gov.om net.om org.om
+ac.pa com.pa edu.pa gob.pa net.pa org.pa
+com.pe edu.pe gob.pe mil.pe net.pe org.pe
+com.pf edu.pf org.pf
+*.pg
+com.ph edu.ph gov.ph mil.ph net.ph org.ph
+ac.pk biz.pk com.pk edu.pk gob.pk gov.pk net.pk org.pk
+biz.pl com.pl edu.pl gov.pl info.pl mil.pl net.pl org.pl
+co.pn edu.pn gov.pn net.pn org.pn
+ac.pr biz.pr com.pr edu.pr gov.pr info.pr net.pr org.pr
+com.ps edu.ps gov.ps net.ps org.ps
+com.pt edu.pt gov.pt int.pt net.pt org.pt
+gov.pw
+com.py edu.py gov.py mil.py net.py org.py
+com.qa edu.qa gov.qa mil.qa net.qa org.qa
+com.re
+com.ro info.ro org.ro
+ac.rs co.rs edu.rs gov.rs org.rs
+ac.rw co.rw gov.rw mil.rw net.rw org.rw
+com.sa edu.sa gov.sa net.sa org.sa
+com.sb edu.sb gov.sb net.sb org.sb
+com.sc edu.sc gov.sc net.sc org.sc
+com.sd edu.sd gov.sd info.sd net.sd org.sd
+ac.se org.se
+com.sg edu.sg gov.sg net.sg org.sg
+com.sh gov.sh mil.sh net.sh org.sh
+com.sl edu.sl gov.sl net.sl org.sl
+com.sn edu.sn gouv.sn org.sn
+com.so edu.so gov.so net.so org.so
+biz.ss co.ss com.ss edu.ss gov.ss net.ss org.ss
+co.st com.st edu.st mil.st net.st org.st
+com.sv edu.sv gob.sv org.sv
+gov.sx
+com.sy edu.sy gov.sy mil.sy net.sy org.sy
+ac.sz co.sz org.sz
+ac.th co.th go.th net.th or.th
+ac.tj biz.tj co.tj com.tj edu.tj go.tj gov.tj int.tj mil.tj net.tj org.tj
+gov.tl
+co.tm com.tm edu.tm gov.tm mil.tm net.tm org.tm
+com.tn gov.tn info.tn net.tn org.tn
+com.to edu.to gov.to mil.to net.to org.to
+biz.tr com.tr edu.tr gov.tr info.tr mil.tr net.tr org.tr
+biz.tt co.tt com.tt edu.tt gov.tt info.tt mil.tt net.tt org.tt
+com.tw edu.tw gov.tw mil.tw net.tw org.tw
+ac.tz co.tz go.tz info.tz mil.tz ne.tz or.tz
+com.ua edu.ua gov.ua net.ua org.ua
+ac.ug co.ug com.ug edu.ug go.ug gov.ug mil.ug ne.ug or.ug org.ug
+*.sch.uk ac.uk co.uk gov.uk ltd.uk net.uk nhs.uk org.uk plc.uk police.uk
+co.us ne.us or.us
+com.uy edu.uy mil.uy net.uy org.uy
+co.uz com.uz net.uz org.uz
+com.vc edu.vc gov.vc mil.vc net.vc org.vc
+co.ve com.ve edu.ve gob.ve gov.ve info.ve int.ve mil.ve net.ve org.ve
+edu.vg
+co.vi com.vi net.vi org.vi
+ac.vn biz.vn com.vn edu.vn gov.vn info.vn int.vn net.vn org.vn
+com.vu edu.vu net.vu org.vu
+com.ws edu.ws gov.ws net.ws org.ws
+com.ye edu.ye gov.ye mil.ye net.ye org.ye
+ac.za co.za edu.za gov.za mil.za net.za org.za
+ac.zm biz.zm co.zm com.zm edu.zm gov.zm info.zm mil.zm net.zm org.zm
+ac.zw co.zw gov.zw mil.zw org.zw
+!www.ck
+
+// ===END ICANN DOMAINS===
+`;
+
+export default PUBLIC_SUFFIX_LIST;
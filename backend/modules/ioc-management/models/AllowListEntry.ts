@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Organisation allow-list entry; `value` is stored normalized (lower case,
+ * canonical CIDR). Expired entries are kept but no longer match.
+ */
+const AllowListEntrySchema = new mongoose.Schema({
+  id: {
+    type: String, default: uuidv4, unique: true, index: true,
+  },
+  kind: { type: String, enum: ['value', 'cidr', 'domain'], required: true },
+  value: { type: String, required: true },
+  reason: { type: String, required: true },
+  createdBy: { type: String, required: true },
+  expiresAt: Date,
+}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } });
+
+AllowListEntrySchema.index({ kind: 1, value: 1 }, { unique: true });
+
+export default mongoose.model('AllowListEntry', AllowListEntrySchema);
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Allow-listed value caught on its way in, or in an automation action
+ */
+const AllowListHitSchema = new mongoose.Schema({
+  id: {
+    type: String, default: uuidv4, unique: true, index: true,
+  },
+  value: { type: String, required: true },
+  type: String,
+  context: {
+    type: String, enum: ['feed', 'stix_import', 'manual', 'automation'], required: true,
+  },
+  source: { type: String, required: true },
+  sourceId: String,
+  // Entry that matched (AllowListMatch)
+  list: { type: String, required: true },
+  entryId: String,
+  kind: { type: String, enum: ['value', 'cidr', 'domain'] },
+  entry: String,
+}, { timestamps: { createdAt: 'created_at', updatedAt: false } });
+
+AllowListHitSchema.index({ source: 1, created_at: -1 });
+// Hits are kept for 180 days
+AllowListHitSchema.index({ created_at: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+export default mongoose.model('AllowListHit', AllowListHitSchema);
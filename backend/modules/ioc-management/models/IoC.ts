@@ -6,11 +6,15 @@ const IoCSchema = new mongoose.Schema({
     type: String, default: uuidv4, unique: true, index: true,
   },
   value: { type: String, required: true, index: true },
+  // Value as validated by iocService, used to find duplicates
+  normalizedValue: { type: String, index: true },
   type: {
     type: String,
     enum: [
       'ip', 'domain', 'url', 'hash_md5', 'hash_sha1', 'hash_sha256',
       'email', 'file_name', 'registry_key', 'mutex',
+      // Types detected by iocService
+      'md5', 'sha1', 'sha256', 'cve', 'file_path', 'user_agent',
     ],
     required: true,
     index: true,
@@ -23,6 +27,14 @@ const IoCSchema = new mongoose.Schema({
     type: String, enum: ['active', 'expired', 'whitelisted', 'false_positive'], default: 'active', index: true,
   },
   source: { type: String, required: true },
+  sources: [{
+    _id: false,
+    name: String,
+    reliability: Number,
+    sourceType: String,
+    url: String,
+    feedId: String,
+  }],
   first_seen: { type: Date, default: Date.now },
   last_seen: Date,
   expiration_date: Date,
@@ -34,11 +46,17 @@ const IoCSchema = new mongoose.Schema({
     geolocation: {
       country: String,
       city: String,
+      latitude: Number,
+      longitude: Number,
       asn: String,
+      isp: String,
     },
     reputation_score: Number,
     whois: mongoose.Schema.Types.Mixed,
     dns_records: [mongoose.Schema.Types.Mixed],
+    // What each enrichment connector returned, and when
+    sources: [mongoose.Schema.Types.Mixed],
+    enriched_at: Date,
   },
   context: String,
   tags: [String],
@@ -47,7 +65,10 @@ const IoCSchema = new mongoose.Schema({
     validation_date: Date,
     validator: String,
   },
+  // Sightings in SIEM events; last_seen is the latest one
   hits: { type: Number, default: 0 },
+  // Breakdown of the last confidence score (ConfidenceScore)
+  scoring: mongoose.Schema.Types.Mixed,
   metadata: mongoose.Schema.Types.Mixed,
 }, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } });
 
@@ -5,7 +5,31 @@ import validatorSchemas from '../validators/iocValidator';
 
 const router = express.Router();
 
-const { iocSchema, iocUpdateSchema } = validatorSchemas;
+const {
+  iocSchema,
+  iocUpdateSchema,
+  iocEnrichSchema,
+  iocExtractSchema,
+  graphEntitySchema,
+  graphQuerySchema,
+  graphEdgeSchema,
+  allowListEntrySchema,
+  allowListCheckSchema,
+  allowListHitQuerySchema,
+} = validatorSchemas;
+
+// Allow-list; registered first, as GET /:id would take its GET routes
+router.get('/allow-list', iocController.listAllowList);
+router.post('/allow-list', validate({ body: allowListEntrySchema }), iocController.addAllowListEntry);
+router.delete('/allow-list/:entryId', validate({
+  params: Joi.object({ entryId: Joi.string().required() }),
+}), iocController.removeAllowListEntry);
+router.get('/allow-list/bundled', iocController.listBundledAllowLists);
+router.post('/allow-list/check', validate({ body: allowListCheckSchema }), iocController.checkAllowList);
+router.get('/allow-list/hits', validate({ query: allowListHitQuerySchema }), iocController.listAllowListHits);
+router.get('/allow-list/hits/summary', validate({
+  query: allowListHitQuerySchema,
+}), iocController.summarizeAllowListHits);
 
 // Base CRUD routes
 router.post('/', validate({ body: iocSchema }), iocController.create);
@@ -21,5 +45,25 @@ router.delete('/:id', validate({ params: Joi.object({ id: commonSchemas.objectId
 router.post('/bulk', iocController.bulkImport);
 router.get('/export', iocController.exportIoCs);
 router.post('/check', iocController.checkIoC);
+router.post('/extract', validate({ body: iocExtractSchema }), iocController.extract);
+router.post('/scores/recompute', iocController.recomputeScores);
+router.get('/:id/score', validate({
+  params: Joi.object({ id: Joi.string().required() }),
+}), iocController.getScore);
+router.post('/:id/enrich', validate({
+  params: Joi.object({ id: Joi.string().required() }),
+  body: iocEnrichSchema,
+}), iocController.enrich);
+
+// Relationship graph
+router.post('/graph/edges', validate({ body: graphEdgeSchema }), iocController.createEdge);
+router.delete('/graph/edges/:edgeId', validate({
+  params: Joi.object({ edgeId: Joi.string().required() }),
+}), iocController.deleteEdge);
+router.get('/graph/:type/:id', validate({
+  params: graphEntitySchema,
+  query: graphQuerySchema,
+}), iocController.getGraph);
+router.get('/graph/:type/:id/pivots', validate({ params: graphEntitySchema }), iocController.getPivots);
 
 export default router;
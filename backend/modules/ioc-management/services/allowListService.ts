@@ -0,0 +1,500 @@
+/**
+ * IoC Allow-list Service
+ * Organisation-wide allow-list of values that must never be recorded or acted
+ * on as indicators: exact values, CIDR ranges and domains with their
+ * subdomains, managed through the API, plus the bundled lists enabled in the
+ * configuration. Values are matched against an in-memory index, which holds
+ * the bundled lists from the start, takes in the managed entries on start and
+ * after each change, and is rebuilt periodically to pick up changes made by
+ * other instances.
+ *
+ * URLs and email addresses match on their host as well, and hosts that are IP
+ * addresses on the ranges. CIDR values match a range they overlap, so a block
+ * of a range never takes in allow-listed addresses. Every value caught on its
+ * way in is recorded as a hit (AllowListHit) with the source it came from.
+ * Emits `allow-list:hit` with each hit and `allow-list:changed` after entries
+ * are added or removed.
+ */
+
+import { EventEmitter } from 'events';
+import { BlockList, isIP } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import AllowListEntry from '../models/AllowListEntry';
+import AllowListHit from '../models/AllowListHit';
+import logger from '../utils/logger';
+import { BUNDLED_ALLOW_LISTS } from '../data/allowLists';
+import { loadAllowListConfig } from '../config/allowList';
+import type { AllowListConfig } from '../config/allowList';
+import type {
+  AllowListContext,
+  AllowListEntryInput,
+  AllowListEntryKind,
+  AllowListHitContext,
+  AllowListHitSummary,
+  AllowListMatch,
+  IndicatorRef,
+} from '../types';
+
+// Types whose values have a host; values of other types only match exactly
+const HOST_TYPES = ['ip', 'domain', 'url', 'email'];
+
+// Types whose values may be CIDR ranges
+const RANGE_TYPES = ['ip', 'cidr'];
+
+const ORGANISATION_LIST = 'organisation';
+
+const DEFAULT_HIT_LIMIT = 100;
+
+const HOSTNAME = /^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*$/;
+
+interface IndexedRange {
+  readonly match: AllowListMatch;
+  readonly range: ParsedRange;
+  readonly addresses: BlockList;
+}
+
+interface AllowListIndex {
+  readonly values: ReadonlyMap<string, AllowListMatch>;
+  readonly domains: ReadonlyMap<string, AllowListMatch>;
+  readonly ranges: readonly IndexedRange[];
+}
+
+interface IndexEntry extends AllowListMatch {
+  readonly expiresAt?: Date;
+}
+
+export interface AllowListCheck {
+  readonly value: string;
+  readonly type?: string;
+  readonly match?: AllowListMatch;
+}
+
+export interface AllowListScreen<T> {
+  readonly allowed: T[];
+  readonly blocked: { readonly item: T; readonly match: AllowListMatch }[];
+}
+
+export interface AllowListHitQuery {
+  readonly source?: string;
+  readonly context?: AllowListContext;
+  readonly since?: Date;
+  readonly limit?: number;
+}
+
+interface ParsedRange {
+  readonly network: string;
+  readonly prefix: number;
+  readonly family: 'ipv4' | 'ipv6';
+}
+
+/**
+ * Network and prefix length of a CIDR range; a bare address is a range of one
+ */
+const parseRange = (range: string): ParsedRange => {
+  const [network, prefixText, ...rest] = range.split('/');
+  const version = isIP(network);
+  const maxPrefix = version === 6 ? 128 : 32;
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (!version || rest.length || !Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) {
+    throw new Error(`Invalid CIDR range: ${range}`);
+  }
+  return { network, prefix, family: version === 6 ? 'ipv6' : 'ipv4' };
+};
+
+/**
+ * Normalized form of an entry value; throws on values its kind cannot match
+ */
+export const normalizeEntryValue = (kind: AllowListEntryKind, value: string): string => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) throw new Error('Allow-list entry value is empty');
+
+  if (kind === 'cidr') {
+    const { network, prefix } = parseRange(normalized);
+    return `${network}/${prefix}`;
+  }
+  if (kind === 'domain') {
+    const domain = normalized.replace(/^\*?\./, '').replace(/\.$/, '');
+    if (!HOSTNAME.test(domain)) throw new Error(`Invalid domain: ${value}`);
+    return domain;
+  }
+  return normalized;
+};
+
+/**
+ * Host of a value: the host of a URL, the domain of an email address, or the
+ * value itself for IPs and domains
+ */
+const hostOf = (value: string, type?: string): string | undefined => {
+  if (type && !HOST_TYPES.includes(type)) return undefined;
+
+  if (value.includes('://')) {
+    try {
+      return new URL(value).hostname.replace(/^\[|\]$/g, '') || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  const email = /^[^@\s]+@([^@\s]+)$/.exec(value);
+  if (email) return email[1];
+  if (isIP(value)) return value;
+  const domain = value.replace(/\.$/, '');
+  return domain.includes('.') && HOSTNAME.test(domain) ? domain : undefined;
+};
+
+const addressesOf = ({ network, prefix, family }: ParsedRange): BlockList => {
+  const addresses = new BlockList();
+  addresses.addSubnet(network, prefix, family);
+  return addresses;
+};
+
+/**
+ * CIDR range a value is, if it is one
+ */
+const rangeOf = (value: string, type?: string): ParsedRange | undefined => {
+  if ((type && !RANGE_TYPES.includes(type)) || !value.includes('/')) return undefined;
+  try {
+    return parseRange(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Indexed range that overlaps a range: two ranges overlap when either one
+ * holds the network address of the other
+ */
+const overlapping = (
+  ranges: readonly IndexedRange[],
+  range: ParsedRange,
+): IndexedRange | undefined => {
+  const addresses = addressesOf(range);
+  return ranges.find((indexed) => indexed.range.family === range.family
+    && (indexed.addresses.check(range.network, range.family)
+      || addresses.check(indexed.range.network, range.family)));
+};
+
+const isExpired = (entry: IndexEntry, now: Date): boolean => (
+  !!entry.expiresAt && new Date(entry.expiresAt) <= now
+);
+
+/**
+ * Index the entries that have not expired
+ */
+const buildIndex = (entries: readonly IndexEntry[], now: Date = new Date()): AllowListIndex => {
+  const values = new Map<string, AllowListMatch>();
+  const domains = new Map<string, AllowListMatch>();
+  const ranges: IndexedRange[] = [];
+
+  entries.filter((entry) => !isExpired(entry, now)).forEach((match) => {
+    // Exact IP values are ranges of one, so every notation of the address matches
+    if (match.kind === 'cidr' || (match.kind === 'value' && isIP(match.entry))) {
+      const range = parseRange(match.entry);
+      ranges.push({ match, range, addresses: addressesOf(range) });
+    } else if (match.kind === 'domain') {
+      if (!domains.has(match.entry)) domains.set(match.entry, match);
+    } else if (!values.has(match.entry)) {
+      values.set(match.entry, match);
+    }
+  });
+
+  return { values, domains, ranges };
+};
+
+const toIndexEntry = (entry: any): IndexEntry => ({
+  list: ORGANISATION_LIST,
+  entryId: entry.id,
+  kind: entry.kind,
+  entry: entry.value,
+  reason: entry.reason,
+  expiresAt: entry.expiresAt,
+});
+
+/**
+ * Short description of a match, for log lines and error messages
+ */
+export const describeMatch = (match: AllowListMatch): string => {
+  const description = `${match.kind} ${match.entry} on the ${match.list} allow-list`;
+  return match.reason ? `${description} (${match.reason})` : description;
+};
+
+class AllowListService extends EventEmitter {
+  private config: AllowListConfig = loadAllowListConfig();
+
+  private entries: readonly IndexEntry[] = [];
+
+  private index: AllowListIndex = buildIndex(this.bundledEntries());
+
+  private refreshTimer?: NodeJS.Timeout;
+
+  // ========================================
+  // Matching
+  // ========================================
+
+  /**
+   * Allow-list entry a value matches, if any; `type` is an IoC or feed
+   * indicator type, and values without one are matched as whatever they look like
+   */
+  match(value: string, type?: string): AllowListMatch | undefined {
+    const normalized = String(value ?? '').trim().toLowerCase();
+    if (!normalized) return undefined;
+
+    const exact = this.index.values.get(normalized);
+    if (exact) return exact;
+
+    const range = rangeOf(normalized, type);
+    if (range) return overlapping(this.index.ranges, range)?.match;
+
+    const host = hostOf(normalized, type);
+    if (!host) return undefined;
+    if (host !== normalized && this.index.values.has(host)) return this.index.values.get(host);
+
+    const version = isIP(host);
+    if (version) {
+      const family = version === 6 ? 'ipv6' : 'ipv4';
+      return this.index.ranges.find(({ addresses }) => addresses.check(host, family))?.match;
+    }
+
+    const labels = host.split('.');
+    const suffix = labels.map((label, index) => labels.slice(index).join('.'))
+      .find((candidate) => this.index.domains.has(candidate));
+    return suffix ? this.index.domains.get(suffix) : undefined;
+  }
+
+  /**
+   * Match a value on its way in, recording a hit when it is allow-listed
+   */
+  check(
+    value: string,
+    type: string | undefined,
+    origin: AllowListHitContext,
+  ): AllowListMatch | undefined {
+    const match = this.match(value, type);
+    if (match) this.recordHits([{ value, type, match }], origin);
+    return match;
+  }
+
+  /**
+   * Split items into those that may go on and those that are allow-listed,
+   * recording a hit for each allow-listed one
+   */
+  screen<T>(
+    items: readonly T[],
+    indicatorOf: (item: T) => { value: string; type?: string },
+    origin: AllowListHitContext,
+  ): AllowListScreen<T> {
+    const result: AllowListScreen<T> = { allowed: [], blocked: [] };
+    const hits: { value: string; type?: string; match: AllowListMatch }[] = [];
+
+    items.forEach((item) => {
+      const { value, type } = indicatorOf(item);
+      const match = this.match(value, type);
+      if (match) {
+        result.blocked.push({ item, match });
+        hits.push({ value, type, match });
+      } else {
+        result.allowed.push(item);
+      }
+    });
+
+    this.recordHits(hits, origin);
+    return result;
+  }
+
+  /**
+   * Impact check: which of these values a block or an import would skip, and why
+   */
+  checkValues(indicators: readonly IndicatorRef[]): AllowListCheck[] {
+    return indicators.map(({ value, type }) => ({ value, type, match: this.match(value, type) }));
+  }
+
+  // ========================================
+  // Entries
+  // ========================================
+
+  /**
+   * Managed entries, expired ones included
+   */
+  async listEntries(): Promise<any[]> {
+    return AllowListEntry.find({}).sort({ created_at: -1 }).lean();
+  }
+
+  /**
+   * Add an entry, or update the reason and expiry of the existing one
+   */
+  async addEntry(input: AllowListEntryInput, createdBy: string): Promise<any> {
+    const value = normalizeEntryValue(input.kind, input.value);
+    const entry = await AllowListEntry.findOneAndUpdate(
+      { kind: input.kind, value },
+      {
+        $set: { reason: input.reason || 'No reason given', expiresAt: input.expiresAt, createdBy },
+        $setOnInsert: { id: uuidv4() },
+      },
+      { upsert: true, new: true },
+    ).lean();
+
+    logger.info('Allow-list entry saved', { id: (entry as any).id, kind: input.kind, value });
+    await this.refresh();
+    this.emit('allow-list:changed', { added: entry });
+    return entry;
+  }
+
+  async removeEntry(entryId: string): Promise<{ deleted: true; id: string }> {
+    const entry = await AllowListEntry.findOneAndDelete({ id: entryId });
+    if (!entry) throw new Error('Allow-list entry not found');
+
+    logger.info('Allow-list entry removed', { id: entryId });
+    await this.refresh();
+    this.emit('allow-list:changed', { removed: entryId });
+    return { deleted: true, id: entryId };
+  }
+
+  /**
+   * Bundled lists, and whether the configuration applies them
+   */
+  bundledLists(): { name: string; description: string; entries: number; enabled: boolean }[] {
+    return BUNDLED_ALLOW_LISTS.map((list) => ({
+      name: list.name,
+      description: list.description,
+      entries: list.entries.length,
+      enabled: this.config.bundledLists.includes(list.name),
+    }));
+  }
+
+  // ========================================
+  // Hits
+  // ========================================
+
+  async hits(query: AllowListHitQuery = {}): Promise<any[]> {
+    return AllowListHit.find(this.hitFilter(query))
+      .sort({ created_at: -1 })
+      .limit(query.limit || DEFAULT_HIT_LIMIT)
+      .lean();
+  }
+
+  /**
+   * Hits per source, the sources with the most first
+   */
+  async hitSummary(query: AllowListHitQuery = {}): Promise<AllowListHitSummary[]> {
+    const groups = await AllowListHit.aggregate([
+      { $match: this.hitFilter(query) },
+      {
+        $group: {
+          _id: { source: '$source', context: '$context' },
+          hits: { $sum: 1 },
+          values: { $addToSet: '$value' },
+          lastHit: { $max: '$created_at' },
+        },
+      },
+      { $sort: { hits: -1 } },
+    ]);
+
+    return groups.map((group) => ({
+      source: group._id.source,
+      context: group._id.context,
+      hits: group.hits,
+      values: group.values.length,
+      lastHit: group.lastHit,
+    }));
+  }
+
+  // ========================================
+  // Index
+  // ========================================
+
+  /**
+   * Reload the managed entries and rebuild the index; returns the number of
+   * entries in effect
+   */
+  async refresh(): Promise<number> {
+    const now = new Date();
+    const entries = await AllowListEntry.find({
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    }).lean();
+
+    this.entries = entries.map(toIndexEntry);
+    this.reindex(now);
+    return this.entries.length;
+  }
+
+  configure(options: Partial<AllowListConfig>): void {
+    this.config = { ...this.config, ...options };
+    this.reindex();
+  }
+
+  /**
+   * Load the managed entries and reload them periodically
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch((error) => {
+        logger.error('Failed to refresh IoC allow-list', { error: error.message });
+      });
+    }, this.config.refreshInterval * 1000);
+    this.refreshTimer.unref();
+    await this.refresh();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  private reindex(now: Date = new Date()): void {
+    this.index = buildIndex([...this.entries, ...this.bundledEntries()], now);
+  }
+
+  private bundledEntries(): IndexEntry[] {
+    return BUNDLED_ALLOW_LISTS.filter((list) => this.config.bundledLists.includes(list.name))
+      .flatMap((list) => list.entries.map((entry) => ({
+        list: list.name,
+        kind: entry.kind,
+        entry: normalizeEntryValue(entry.kind, entry.value),
+        reason: entry.reason,
+      })));
+  }
+
+  private hitFilter(query: AllowListHitQuery): Record<string, any> {
+    return {
+      ...(query.source && { source: query.source }),
+      ...(query.context && { context: query.context }),
+      ...(query.since && { created_at: { $gte: query.since } }),
+    };
+  }
+
+  /**
+   * Record hits without holding up the caller
+   */
+  private recordHits(
+    hits: readonly { value: string; type?: string; match: AllowListMatch }[],
+    origin: AllowListHitContext,
+  ): void {
+    if (!hits.length) return;
+
+    const records = hits.map(({ value, type, match }) => ({
+      id: uuidv4(),
+      value,
+      type,
+      context: origin.context,
+      source: origin.source,
+      sourceId: origin.sourceId,
+      list: match.list,
+      entryId: match.entryId,
+      kind: match.kind,
+      entry: match.entry,
+    }));
+
+    logger.warn('Allow-listed values caught', {
+      context: origin.context,
+      source: origin.source,
+      count: records.length,
+    });
+    records.forEach((record) => this.emit('allow-list:hit', record));
+    AllowListHit.insertMany(records).catch((error) => {
+      logger.error('Failed to record allow-list hits', { error: error.message });
+    });
+  }
+}
+
+export { AllowListService };
+export default new AllowListService();
@@ -0,0 +1,90 @@
+/**
+ * IoC Graph Linker
+ * Adds relationship graph edges for what other modules learn: relationships
+ * between the indicators of threat feeds, and the IOCs extracted from malware
+ * samples (network indicators the sample communicates with, artifacts it
+ * dropped and the addresses its domains resolved to).
+ */
+
+import graphService from './graphService';
+import feedService from '../../threat-feeds/services/feedService';
+import malwareService from '../../malware-analysis/services/malwareService';
+import logger from '../utils/logger';
+import type { EntityRef, IndicatorEdge, IoCSource } from '../types';
+import type { ExtractedIOCs } from '../../malware-analysis/types';
+
+// IOCs extracted from samples come from our own sandbox
+const MALWARE_ANALYSIS_SOURCE: IoCSource = {
+  name: 'malware-analysis',
+  reliability: 80,
+  sourceType: 'internal',
+};
+
+/**
+ * Graph edges between a sample and the IOCs extracted from it
+ */
+export const extractedIOCEdges = (iocs: ExtractedIOCs): IndicatorEdge[] => {
+  const sample: EntityRef = { type: 'malware', id: iocs.sampleId };
+  const artifacts = [
+    ...iocs.hashes.map((hash) => ({ value: hash.value, type: hash.algorithm })),
+    ...iocs.filePaths.map((path) => ({ value: path.value, type: 'file_path' as const })),
+    ...iocs.registryKeys.map((key) => ({ value: key.value, type: 'registry_key' as const })),
+    ...iocs.mutexes.map((mutex) => ({ value: mutex.value, type: 'mutex' as const })),
+  ];
+
+  return [
+    ...iocs.ips.map((ip): IndicatorEdge => ({
+      source: sample, edgeType: 'communicates-with', target: { value: ip.value, type: 'ip' },
+    })),
+    ...iocs.domains.map((domain): IndicatorEdge => ({
+      source: sample, edgeType: 'communicates-with', target: { value: domain.value, type: 'domain' },
+    })),
+    ...iocs.urls.map((url): IndicatorEdge => ({
+      source: sample, edgeType: 'communicates-with', target: { value: url.value, type: 'url' },
+    })),
+    ...iocs.domains.flatMap((domain) => (domain.resolved || []).map((ip): IndicatorEdge => ({
+      source: { value: domain.value, type: 'domain' },
+      edgeType: 'resolves-to',
+      target: { value: ip, type: 'ip' },
+    }))),
+    ...artifacts.map((artifact): IndicatorEdge => ({
+      source: artifact, edgeType: 'dropped-by', target: sample,
+    })),
+  ];
+};
+
+class GraphLinker {
+  private subscribed = false;
+
+  private readonly onFeedRelationships = (
+    { feedId, source, links }: { feedId: string; source: IoCSource; links: IndicatorEdge[] },
+  ): void => {
+    graphService.linkIndicators(links, source, { origin: `feed:${feedId}` })
+      .catch((error) => logger.error('Failed to link feed indicators', { feedId, error }));
+  };
+
+  private readonly onIOCsExtracted = (iocs: ExtractedIOCs): void => {
+    graphService.linkIndicators(extractedIOCEdges(iocs), MALWARE_ANALYSIS_SOURCE, {
+      origin: 'malware-analysis',
+    }).catch((error) => logger.error('Failed to link extracted IOCs', {
+      sampleId: iocs.sampleId, error,
+    }));
+  };
+
+  start(): void {
+    this.stop();
+    feedService.on('feed:relationships', this.onFeedRelationships);
+    malwareService.on('iocs:extracted', this.onIOCsExtracted);
+    this.subscribed = true;
+  }
+
+  stop(): void {
+    if (!this.subscribed) return;
+    feedService.off('feed:relationships', this.onFeedRelationships);
+    malwareService.off('iocs:extracted', this.onIOCsExtracted);
+    this.subscribed = false;
+  }
+}
+
+export { GraphLinker };
+export default new GraphLinker();
@@ -0,0 +1,121 @@
+/**
+ * Graph Node Lookups
+ * Labels and summaries for graph nodes, loaded in one batch per entity type.
+ * IoCs, threat actors and malware are looked up in the module stores first
+ * and in the STIX import stores second; campaigns are those of threat actors.
+ */
+
+import IoC from '../models/IoC';
+import ThreatActor from '../../threat-actors/models/ThreatActor';
+import MalwareSample from '../../malware-analysis/models/MalwareSample';
+import Incident from '../../incident-response/models/Incident';
+import {
+  iocRepository,
+  threatActorRepository,
+  malwareRepository,
+  vulnerabilityRepository,
+} from '../../../repositories';
+import logger from '../utils/logger';
+import type { GraphEntityType } from '../types';
+
+export interface NodeDetails {
+  readonly label: string;
+  readonly data: Record<string, any>;
+}
+
+type Loader = (ids: string[]) => Promise<Map<string, NodeDetails>>;
+
+const byId = (entities: any[], describe: (entity: any) => NodeDetails) => new Map(
+  entities.map((entity): [string, NodeDetails] => [entity.id, describe(entity)]),
+);
+
+// Look the IDs up in each store in turn, until all are found. A store that
+// fails (e.g. on IDs that are not UUIDs) does not hide what the others found.
+const firstOf = (...loaders: Loader[]): Loader => async (ids) => {
+  const found = new Map<string, NodeDetails>();
+  await loaders.reduce(async (previous, loader) => {
+    await previous;
+    const missing = ids.filter((id) => !found.has(id));
+    if (!missing.length) return;
+    try {
+      (await loader(missing)).forEach((details, id) => found.set(id, details));
+    } catch (error) {
+      logger.warn('Graph node lookup failed', { error: (error as Error).message });
+    }
+  }, Promise.resolve());
+  return found;
+};
+
+const describeIoC = (ioc: any): NodeDetails => ({
+  label: ioc.value,
+  data: {
+    value: ioc.value, type: ioc.type, status: ioc.status, confidence: ioc.confidence,
+  },
+});
+
+const LOADERS: { [type in GraphEntityType]: Loader } = {
+  ioc: firstOf(
+    async (ids) => byId(await IoC.find({ id: { $in: ids } }), describeIoC),
+    async (ids) => byId(await iocRepository.findMany({ id: ids }), describeIoC),
+  ),
+  threat_actor: firstOf(
+    async (ids) => byId(await ThreatActor.find({ id: { $in: ids } }), (actor) => ({
+      label: actor.name, data: { aliases: actor.aliases },
+    })),
+    async (ids) => byId(await threatActorRepository.findMany({ id: ids }), (actor) => ({
+      label: actor.name, data: { aliases: actor.aliases },
+    })),
+  ),
+  campaign: async (ids) => {
+    const actors = await ThreatActor.find({ 'campaigns.campaign_id': { $in: ids } });
+    const found = new Map<string, NodeDetails>();
+    actors.forEach((actor: any) => actor.campaigns
+      .filter((campaign: any) => ids.includes(campaign.campaign_id))
+      .forEach((campaign: any) => found.set(campaign.campaign_id, {
+        label: campaign.name || campaign.campaign_id,
+        data: { threatActorId: actor.id, threatActor: actor.name },
+      })));
+    return found;
+  },
+  malware: firstOf(
+    async (ids) => byId(await MalwareSample.find({ id: { $in: ids } }), (sample) => ({
+      label: sample.file_name, data: { hashes: sample.hashes },
+    })),
+    async (ids) => byId(await malwareRepository.findMany({ id: ids }), (malware) => ({
+      label: malware.name, data: { type: malware.type },
+    })),
+  ),
+  incident: async (ids) => byId(await Incident.find({ id: { $in: ids } }), (incident) => ({
+    label: incident.title, data: { severity: incident.severity, status: incident.status },
+  })),
+  vulnerability: async (ids) => byId(
+    await vulnerabilityRepository.findMany({ id: ids }),
+    (vulnerability) => ({
+      label: vulnerability.cveId || vulnerability.title,
+      data: { title: vulnerability.title, severity: vulnerability.severity },
+    }),
+  ),
+};
+
+/**
+ * Details of the given nodes, keyed by `type:id`. Nodes whose entity cannot
+ * be found, or whose store fails, are left out.
+ */
+export const describeNodes = async (
+  refs: readonly { type: GraphEntityType; id: string }[],
+): Promise<Map<string, NodeDetails>> => {
+  const idsByType = new Map<GraphEntityType, string[]>();
+  refs.forEach(({ type, id }) => idsByType.set(type, [...(idsByType.get(type) || []), id]));
+
+  const details = new Map<string, NodeDetails>();
+  await Promise.all([...idsByType].map(async ([type, ids]) => {
+    try {
+      (await LOADERS[type](ids)).forEach((node, id) => details.set(`${type}:${id}`, node));
+    } catch (error) {
+      logger.warn('Graph node lookup failed', { type, error: (error as Error).message });
+    }
+  }));
+  return details;
+};
+
+export default { describeNodes };
@@ -0,0 +1,279 @@
+/**
+ * IoC Relationship Graph Service
+ * Typed edges between IoCs, threat actors, campaigns, malware, incidents and
+ * vulnerabilities, N-hop neighbourhoods and pivots over them.
+ *
+ * Edges are entity relationships, shared with the STIX importer. Relationships
+ * imported from STIX keep their type, except `drops` and `downloads`, which
+ * read as `dropped-by` in the other direction. Sightings have no target and
+ * are not edges.
+ */
+
+import { entityRelationshipRepository } from '../../../repositories';
+import type { EntityRelationship } from '../../../repositories';
+import iocService from './iocService';
+import logger from '../utils/logger';
+import { loadGraphConfig } from '../config/graph';
+import type { GraphConfig } from '../config/graph';
+import type {
+  EntityRef,
+  GraphEdge,
+  GraphEdgeType,
+  GraphNeighbourhood,
+  GraphNode,
+  IndicatorEdge,
+  IndicatorRef,
+  IoCSource,
+  LinkOptions,
+  NeighbourhoodOptions,
+  PivotGroup,
+} from '../types';
+import { describeNodes } from './graphNodes';
+
+// STIX relationship types read as graph edges in the opposite direction
+const REVERSED_TYPES: Record<string, GraphEdgeType> = {
+  drops: 'dropped-by',
+  downloads: 'dropped-by',
+};
+
+const keyOf = (ref: EntityRef): string => `${ref.type}:${ref.id}`;
+
+const isIndicator = (end: EntityRef | IndicatorRef): end is IndicatorRef => 'value' in end;
+
+/**
+ * Stored relationship types to query for the given edge types
+ */
+const storedTypes = (edgeTypes?: readonly string[]): string[] | undefined => edgeTypes
+  && edgeTypes.flatMap((type) => [
+    type,
+    ...Object.keys(REVERSED_TYPES).filter((stored) => REVERSED_TYPES[stored] === type),
+  ]);
+
+/**
+ * Graph edge of a stored relationship, or undefined for sightings
+ */
+const toEdge = (relationship: EntityRelationship): GraphEdge | undefined => {
+  if (!relationship.targetType || !relationship.targetId) return undefined;
+
+  const source = { type: relationship.sourceType, id: relationship.sourceId };
+  const target = { type: relationship.targetType, id: relationship.targetId };
+  const reversed = REVERSED_TYPES[relationship.relationshipType];
+  return {
+    id: relationship.id,
+    type: reversed || relationship.relationshipType,
+    source: reversed ? target : source,
+    target: reversed ? source : target,
+    count: relationship.count,
+    confidence: relationship.confidence ?? undefined,
+    firstSeen: relationship.firstSeen ?? undefined,
+    lastSeen: relationship.lastSeen ?? undefined,
+    origin: relationship.source ?? undefined,
+  };
+};
+
+class GraphService {
+  private config: GraphConfig = loadGraphConfig();
+
+  /**
+   * Link two entities, or count the link again if it exists
+   */
+  async link(
+    source: EntityRef,
+    edgeType: GraphEdgeType,
+    target: EntityRef,
+    options: LinkOptions = {},
+  ): Promise<GraphEdge> {
+    if (keyOf(source) === keyOf(target)) {
+      throw new Error('An entity cannot be linked to itself');
+    }
+
+    const seenAt = options.seenAt || new Date();
+    const existing = await entityRelationshipRepository.findLink(
+      source.type,
+      source.id,
+      edgeType,
+      target.type,
+      target.id,
+    );
+
+    if (existing) {
+      const updated = await entityRelationshipRepository.update(existing.id, {
+        count: existing.count + 1,
+        lastSeen: existing.lastSeen && existing.lastSeen > seenAt ? existing.lastSeen : seenAt,
+        confidence: options.confidence ?? existing.confidence,
+      });
+      return toEdge(updated);
+    }
+
+    const created = await entityRelationshipRepository.create({
+      relationshipType: edgeType,
+      sourceType: source.type,
+      sourceId: source.id,
+      targetType: target.type,
+      targetId: target.id,
+      count: 1,
+      firstSeen: seenAt,
+      lastSeen: seenAt,
+      confidence: options.confidence,
+      description: options.description,
+      source: options.origin || 'manual',
+      metadata: options.metadata,
+    });
+    logger.info('Graph edge created', { id: created.id, type: edgeType });
+    return toEdge(created);
+  }
+
+  /**
+   * Remove an edge
+   */
+  async unlink(edgeId: string): Promise<{ deleted: true; id: string }> {
+    const existing = await entityRelationshipRepository.findById(edgeId);
+    if (!existing) throw new Error('Edge not found');
+
+    await entityRelationshipRepository.delete(edgeId);
+    logger.info('Graph edge deleted', { id: edgeId });
+    return { deleted: true, id: edgeId };
+  }
+
+  /**
+   * Entities up to `depth` hops from the root and the edges between them.
+   * Edge and node type filters apply to every hop; the root is always kept.
+   */
+  async neighbourhood(
+    root: EntityRef,
+    options: NeighbourhoodOptions = {},
+  ): Promise<GraphNeighbourhood> {
+    const depth = Math.min(Math.max(options.depth ?? 1, 1), this.config.maxDepth);
+    const limit = Math.min(options.limit ?? this.config.maxNodes, this.config.maxNodes);
+    const relationshipTypes = storedTypes(options.edgeTypes);
+
+    const depths = new Map<string, { ref: EntityRef; depth: number }>([
+      [keyOf(root), { ref: { type: root.type, id: root.id }, depth: 0 }],
+    ]);
+    const edges = new Map<string, GraphEdge>();
+    let frontier: EntityRef[] = [root];
+    let truncated = false;
+
+    for (let hop = 1; hop <= depth && frontier.length && !truncated; hop += 1) {
+      // Each hop starts from the entities the previous one reached. It reads
+      // the most recently seen edges, one past the node limit, so a hop with
+      // more edges than that is reported as truncated.
+      // eslint-disable-next-line no-await-in-loop
+      const relationships = await entityRelationshipRepository.findForEntities(
+        frontier,
+        relationshipTypes,
+        { limit: limit + 1, order: [['lastSeen', 'DESC NULLS LAST'], ['id', 'ASC']] },
+      );
+      const next: EntityRef[] = [];
+
+      truncated = relationships.map(toEdge).filter(Boolean).some((edge) => {
+        const unseen = [edge.source, edge.target].filter((end) => !depths.has(keyOf(end)));
+        if (unseen.some((end) => options.nodeTypes && !options.nodeTypes.includes(end.type))) {
+          return false;
+        }
+        // Stop expanding once the cap is reached
+        if (depths.size + unseen.length > limit) return true;
+
+        unseen.forEach((end) => {
+          depths.set(keyOf(end), { ref: end, depth: hop });
+          next.push(end);
+        });
+        edges.set(edge.id, edge);
+        return false;
+      }) || relationships.length > limit;
+      frontier = next;
+    }
+
+    const refs = [...depths.values()].map((entry) => entry.ref);
+    const details = await describeNodes(refs);
+    const nodes: GraphNode[] = [...depths].map(([key, entry]) => ({
+      ...entry.ref,
+      depth: entry.depth,
+      label: details.get(key)?.label || entry.ref.id,
+      found: details.has(key),
+      data: details.get(key)?.data,
+    }));
+
+    return {
+      root: { type: root.type, id: root.id }, nodes, edges: [...edges.values()], truncated,
+    };
+  }
+
+  /**
+   * Direct neighbours of an entity, grouped by edge type and direction
+   */
+  async pivots(root: EntityRef): Promise<PivotGroup[]> {
+    const { nodes, edges } = await this.neighbourhood(root, { depth: 1 });
+    const nodesByKey = new Map(nodes.map((node): [string, GraphNode] => [keyOf(node), node]));
+    const groups = new Map<string, { group: PivotGroup; nodes: GraphNode[] }>();
+
+    edges.forEach((edge) => {
+      const direction: PivotGroup['direction'] = keyOf(edge.source) === keyOf(root) ? 'outbound' : 'inbound';
+      const neighbour = direction === 'outbound' ? edge.target : edge.source;
+      const key = `${edge.type}:${direction}`;
+      if (!groups.has(key)) {
+        const group = { edgeType: edge.type, direction, nodes: [] as GraphNode[] };
+        groups.set(key, { group, nodes: group.nodes });
+      }
+      const node = nodesByKey.get(keyOf(neighbour));
+      // `drops` and `downloads` between the same entities are one pivot
+      if (!groups.get(key).nodes.includes(node)) groups.get(key).nodes.push(node);
+    });
+
+    return [...groups.values()].map((entry) => entry.group);
+  }
+
+  /**
+   * The IoC an indicator is recorded as, recording it if it is new
+   */
+  async recordIndicator(indicator: IndicatorRef, source: IoCSource): Promise<EntityRef> {
+    const ioc = await iocService.create({ value: indicator.value, type: indicator.type, source });
+    return { type: 'ioc', id: ioc.id };
+  }
+
+  /**
+   * Record the indicators at either end of the edges as IoCs and link them.
+   * A failing edge is logged and counted without stopping the others.
+   */
+  async linkIndicators(
+    edges: readonly IndicatorEdge[],
+    source: IoCSource,
+    options: LinkOptions = {},
+  ): Promise<{ linked: number; failed: number }> {
+    const recorded = new Map<string, Promise<EntityRef>>();
+    const resolve = (end: EntityRef | IndicatorRef): Promise<EntityRef> => {
+      if (!isIndicator(end)) return Promise.resolve(end);
+      const key = `${end.type || ''}:${end.value}`;
+      if (!recorded.has(key)) recorded.set(key, this.recordIndicator(end, source));
+      return recorded.get(key);
+    };
+
+    const result = { linked: 0, failed: 0 };
+    await edges.reduce(async (previous, edge) => {
+      await previous;
+      try {
+        await this.link(await resolve(edge.source), edge.edgeType, await resolve(edge.target), {
+          origin: source.name,
+          ...options,
+          confidence: edge.confidence ?? options.confidence,
+        });
+        result.linked += 1;
+      } catch (error) {
+        result.failed += 1;
+        logger.warn('Failed to link indicators', {
+          edgeType: edge.edgeType, error: (error as Error).message,
+        });
+      }
+    }, Promise.resolve());
+
+    if (edges.length) logger.info('Indicators linked', { source: source.name, ...result });
+    return result;
+  }
+
+  configure(options: Partial<GraphConfig>): void {
+    this.config = { ...this.config, ...options };
+  }
+}
+
+export { GraphService };
+export default new GraphService();
@@ -0,0 +1,283 @@
+/**
+ * IoC Extractor
+ * Deterministic extraction of indicators from free text: pasted notes, PDFs
+ * converted to text and email bodies. Defanged indicators (`hxxp://`, `[.]`,
+ * `(dot)`, ...) are refanged first. Private and reserved IP ranges, domains
+ * on the extraction allow-list and values on the IoC allow-list
+ * (allowListService) are dropped, and domains must end in a public suffix.
+ *
+ * Matchers run in turn over the text, each blanking out what it matched, so
+ * that the host of a URL or the domain of an email address is not reported
+ * again on its own.
+ */
+
+import { isIP } from 'net';
+import iocService from './iocService';
+import allowListService from './allowListService';
+import logger from '../utils/logger';
+import { isBitcoinAddress, isReservedIP } from '../utils/addresses';
+import { registrableDomain } from '../utils/publicSuffix';
+import { MAX_EXTRACT_TEXT_LENGTH, loadExtractionConfig } from '../config/extraction';
+import type { ExtractionConfig } from '../config/extraction';
+import type {
+  ExtractedIndicator,
+  ExtractedIndicatorType,
+  ExtractionOptions,
+  ExtractionResult,
+  IoCSource,
+  IoCType,
+} from '../types';
+
+type Verdict = 'private' | 'allowListed';
+
+interface Candidate {
+  readonly type: ExtractedIndicatorType;
+  readonly value: string;
+}
+
+// Whether an address or host name is dropped, or is not a valid one at all
+interface Checks {
+  readonly ip: (address: string) => Verdict | undefined;
+  readonly host: (host: string) => Verdict | 'invalid' | undefined;
+}
+
+interface Matcher {
+  readonly pattern: RegExp;
+  // The indicator a match is, a reason to drop it, or undefined if it is not one
+  readonly parse: (match: string, checks: Checks) => Candidate | Verdict | undefined;
+}
+
+// Defanged forms, in the order they are refanged
+const REFANG_PATTERNS: readonly [RegExp, string][] = [
+  [/\s*[[({]\s*(?:\.|dot)\s*[\])}]\s*/gi, '.'],
+  [/\s*[[({]\s*(?:@|at)\s*[\])}]\s*/gi, '@'],
+  [/[[({]\s*:\/\/\s*[\])}]/g, '://'],
+  [/[[({]\s*:\s*[\])}]/g, ':'],
+  [/[[({]\s*\/\s*[\])}]/g, '/'],
+  [/\bh(?:xx|\[tt\]|\*\*|xt|tx)p(s?):\/\//gi, 'http$1://'],
+  [/\bfxp(s?):\/\//gi, 'ftp$1://'],
+];
+
+const IOC_TYPES: Partial<Record<ExtractedIndicatorType, IoCType>> = {
+  ipv4: 'ip',
+  ipv6: 'ip',
+  domain: 'domain',
+  url: 'url',
+  email: 'email',
+  md5: 'md5',
+  sha1: 'sha1',
+  sha256: 'sha256',
+  cve: 'cve',
+  registry_key: 'registry_key',
+};
+
+const HASH_TYPES: Record<number, ExtractedIndicatorType> = {
+  32: 'md5',
+  40: 'sha1',
+  64: 'sha256',
+  128: 'sha512',
+};
+
+const REGISTRY_HIVES = [
+  'HKEY_LOCAL_MACHINE', 'HKEY_CURRENT_USER', 'HKEY_CLASSES_ROOT', 'HKEY_USERS',
+  'HKEY_CURRENT_CONFIG', 'HKLM', 'HKCU', 'HKCR', 'HKU', 'HKCC',
+];
+
+const ipCandidate = (
+  type: 'ipv4' | 'ipv6',
+  value: string,
+  checks: Checks,
+): Candidate | Verdict => {
+  const [address, prefix] = value.split('/');
+  return checks.ip(address) || { type: prefix === undefined ? type : 'cidr', value };
+};
+
+const MATCHERS: readonly Matcher[] = [
+  {
+    pattern: /\b(?:https?|s?ftps?):\/\/[^\s<>"'`{}|\\^[\]]+/gi,
+    parse: (match, checks) => {
+      const trimmed = match.replace(/[.,;:!?'"]+$/, '').replace(/^([^(]*)\)+$/, '$1');
+      let url: URL;
+      try {
+        url = new URL(trimmed);
+      } catch (error) {
+        return undefined;
+      }
+      const verdict = checks.host(url.hostname.replace(/^\[|\]$/g, ''));
+      if (verdict === 'invalid') return undefined;
+      if (verdict) return verdict;
+      // Scheme and host are case-insensitive, the rest is kept as written
+      const value = trimmed.replace(/^[a-z]+:\/\/[^/?#]+/i, (origin) => origin.toLowerCase());
+      return { type: 'url', value };
+    },
+  },
+  {
+    pattern: /\b[a-z0-9._%+-]+@(?:[a-z0-9-]+\.)+[a-z0-9-]+\b/gi,
+    parse: (match, checks) => {
+      const verdict = checks.host(match.split('@')[1]);
+      if (verdict === 'invalid') return undefined;
+      return verdict || { type: 'email', value: match.toLowerCase() };
+    },
+  },
+  {
+    pattern: new RegExp(`\\b(?:${REGISTRY_HIVES.join('|')})\\\\[^\\s"'<>|,;]+`, 'gi'),
+    parse: (match) => {
+      const value = match.replace(/[\\.]+$/, '');
+      return value.includes('\\') ? { type: 'registry_key', value } : undefined;
+    },
+  },
+  {
+    pattern: /(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?:\/\d{1,2})?(?!\d|\.\d)/g,
+    parse: (match, checks) => {
+      const [address, prefix] = match.split('/');
+      if (isIP(address) !== 4 || Number(prefix ?? 0) > 32) return undefined;
+      return ipCandidate('ipv4', match, checks);
+    },
+  },
+  {
+    pattern: /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}(?:[0-9a-f]{1,4}|(?:\d{1,3}\.){3}\d{1,3})?(?:\/\d{1,3})?(?![\w:]|\.\w)/gi,
+    parse: (match, checks) => {
+      const [address, prefix] = match.toLowerCase().split('/');
+      if (isIP(address) !== 6 || Number(prefix ?? 0) > 128) return undefined;
+      return ipCandidate('ipv6', match.toLowerCase(), checks);
+    },
+  },
+  {
+    pattern: /\b[a-f0-9]{32,128}\b/gi,
+    parse: (match) => HASH_TYPES[match.length]
+      && { type: HASH_TYPES[match.length], value: match.toLowerCase() },
+  },
+  {
+    pattern: /\bCVE-\d{4}-\d{4,7}\b/gi,
+    parse: (match) => ({ type: 'cve', value: match.toUpperCase() }),
+  },
+  {
+    pattern: /\bT\d{4}(?:\.\d{3})?\b/g,
+    parse: (match) => ({ type: 'mitre_technique', value: match }),
+  },
+  {
+    pattern: /\b(?:[13][1-9A-HJ-NP-Za-km-z]{24,33}|bc1[02-9ac-hj-np-z]{6,87}|BC1[02-9AC-HJ-NP-Z]{6,87})\b/g,
+    parse: (match) => (isBitcoinAddress(match)
+      ? { type: 'bitcoin_address', value: /^bc1/i.test(match) ? match.toLowerCase() : match }
+      : undefined),
+  },
+  {
+    pattern: /\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+(?:xn--[a-z0-9-]{1,59}|[a-z]{2,63})\b(?!-)/gi,
+    parse: (match, checks) => {
+      const verdict = checks.host(match);
+      if (verdict === 'invalid') return undefined;
+      return verdict || { type: 'domain', value: match.toLowerCase() };
+    },
+  },
+];
+
+class IocExtractor {
+  private config: ExtractionConfig = loadExtractionConfig();
+
+  /**
+   * Undo defanging, e.g. `hxxps://evil[.]com` to `https://evil.com`
+   */
+  refang(text: string): string {
+    return REFANG_PATTERNS.reduce((refanged, [pattern, replacement]) => refanged
+      .replace(pattern, replacement), text);
+  }
+
+  /**
+   * Indicators in a text, in the order they first appear
+   */
+  extract(text: string, options: ExtractionOptions = {}): ExtractionResult {
+    if (text.length > MAX_EXTRACT_TEXT_LENGTH) {
+      throw new Error(`Text is longer than ${MAX_EXTRACT_TEXT_LENGTH} characters`);
+    }
+    const allowList = [...this.config.allowList, ...(options.allowList || [])]
+      .map((domain) => domain.toLowerCase().replace(/^\*?\./, ''));
+    const checks: Checks = {
+      ip: (address) => {
+        if (isReservedIP(address) && !options.includePrivate) return 'private';
+        return allowListService.match(address, 'ip') ? 'allowListed' : undefined;
+      },
+      host: (host) => {
+        const name = host.toLowerCase().replace(/\.$/, '');
+        if (isIP(name)) return checks.ip(name);
+        if (!registrableDomain(name)) return 'invalid';
+        return allowList.some((domain) => name === domain || name.endsWith(`.${domain}`))
+          || allowListService.match(name, 'domain')
+          ? 'allowListed'
+          : undefined;
+      },
+    };
+
+    const found = new Map<string, { indicator: Candidate; offset: number; occurrences: number }>();
+    const dropped = { private: new Set<string>(), allowListed: new Set<string>() };
+
+    MATCHERS.reduce((remaining, matcher) => remaining.replace(matcher.pattern, (match, ...args) => {
+      const offset: number = args[args.length - 2];
+      const parsed = matcher.parse(match, checks);
+      if (typeof parsed === 'string') {
+        dropped[parsed].add(match.toLowerCase());
+      } else if (parsed) {
+        this.count(found, parsed, offset);
+      }
+      return ' '.repeat(match.length);
+    }), this.refang(text));
+
+    const indicators: ExtractedIndicator[] = [...found.values()]
+      .filter((entry) => !options.types || options.types.includes(entry.indicator.type))
+      .sort((a, b) => a.offset - b.offset)
+      .map(({ indicator, occurrences }) => ({
+        ...indicator,
+        ...(IOC_TYPES[indicator.type] && { iocType: IOC_TYPES[indicator.type] }),
+        occurrences,
+      }));
+
+    return {
+      indicators,
+      dropped: { private: dropped.private.size, allowListed: dropped.allowListed.size },
+    };
+  }
+
+  /**
+   * Record the extracted indicators that can be IoCs. An indicator that fails
+   * is logged and counted without stopping the others.
+   */
+  async record(
+    indicators: readonly ExtractedIndicator[],
+    source: IoCSource,
+  ): Promise<{ recorded: number; failed: number }> {
+    const result = { recorded: 0, failed: 0 };
+    const recordable = indicators.filter((indicator) => indicator.iocType);
+    await recordable.reduce(async (previous, indicator) => {
+      await previous;
+      try {
+        await iocService.create({ value: indicator.value, type: indicator.iocType, source });
+        result.recorded += 1;
+      } catch (error) {
+        result.failed += 1;
+        logger.warn('Failed to record extracted indicator', {
+          type: indicator.type, error: (error as Error).message,
+        });
+      }
+    }, Promise.resolve());
+
+    logger.info('Extracted indicators recorded', { source: source.name, ...result });
+    return result;
+  }
+
+  configure(options: Partial<ExtractionConfig>): void {
+    this.config = { ...this.config, ...options };
+  }
+
+  private count(
+    found: Map<string, { indicator: Candidate; offset: number; occurrences: number }>,
+    indicator: Candidate,
+    offset: number,
+  ): void {
+    const key = `${indicator.type}:${indicator.value}`;
+    const entry = found.get(key);
+    if (entry) entry.occurrences += 1;
+    else found.set(key, { indicator, offset, occurrences: 1 });
+  }
+}
+
+export { IocExtractor };
+export default new IocExtractor();
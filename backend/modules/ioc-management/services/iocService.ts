@@ -10,9 +10,17 @@
  * 7. IoC search and filtering
  */
 
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import IoC from '../models/IoC';
 import logger from '../utils/logger';
+import { halfLifeDays, loadScoringConfig } from '../config/scoring';
+import type { ScoringConfig } from '../config/scoring';
+import feedService from '../../threat-feeds/services/feedService';
+import enrichmentService, { toObservableType } from '../../enrichment/services/enrichmentService';
+import { EnrichmentError } from '../../enrichment/errors';
+import allowListService, { describeMatch } from './allowListService';
+import type { EnrichOptions } from '../../enrichment/types';
 import type {
   IoCType,
   IoCStatus,
@@ -22,6 +30,9 @@ import type {
   ImportResult,
   ImportError,
   ConfidenceFactors,
+  ConfidenceScore,
+  ScoringFactors,
+  ScoreRecomputeResult,
   IoCStatistics,
   EnrichmentData,
 } from '../types';
@@ -44,6 +55,7 @@ interface UpdateIoCInput {
   readonly tags?: readonly string[];
   readonly expiresAt?: Date;
   readonly lastSeen?: Date;
+  readonly scoring?: ConfidenceScore;
   readonly metadata?: Record<string, any>;
 }
 
@@ -66,7 +78,23 @@ interface IoCSearchQuery {
   readonly sortOrder?: 'asc' | 'desc';
 }
 
-class IocService {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reliability of a source that has none, and of IoCs recorded without sources
+const DEFAULT_RELIABILITY = 50;
+
+// Score recomputes read active IoCs in batches of this size, with only the fields scoring reads
+const SCORE_BATCH_SIZE = 500;
+const SCORED_FIELDS = 'id type confidence scoring sources first_seen last_seen hits created_at';
+
+/**
+ * Emits `ioc:created` for new IoCs, not for new sources of existing ones,
+ * `ioc:updated` with the updated IoC (status changes included) and
+ * `ioc:deleted` with { id }
+ */
+class IocService extends EventEmitter {
+  private scoringConfig: ScoringConfig = loadScoringConfig();
+
   // ========================================
   // 1. IoC Collection and Validation
   // ========================================
@@ -90,6 +118,16 @@ class IocService {
       // Normalize the value
       const normalizedValue = validation.normalizedValue || input.value;
 
+      // Refuse allow-listed values, whatever the source says about them
+      const allowListed = allowListService.check(normalizedValue, type, {
+        context: input.source.feedId ? 'feed' : 'manual',
+        source: input.source.name,
+        sourceId: input.source.feedId,
+      });
+      if (allowListed) {
+        throw new Error(`Allow-listed IoC: ${input.value} matches ${describeMatch(allowListed)}`);
+      }
+
       // Check for duplicates
       const existing = await IoC.findOne({
         normalizedValue,
@@ -112,6 +150,7 @@ class IocService {
         confidence: input.confidence || 50,
         severity: input.severity || 'medium',
         tags: input.tags || [],
+        source: input.source.name,
         sources: [input.source],
         firstSeen: new Date(),
         lastSeen: new Date(),
@@ -123,6 +162,7 @@ class IocService {
 
       await ioc.save();
       logger.info('IoC created successfully', { id: ioc.id, type });
+      this.emit('ioc:created', ioc);
 
       return ioc;
     } catch (error) {
@@ -324,73 +364,197 @@ class IocService {
     return Math.min(100, sourceCount * 20);
   }
 
+  /**
+   * Decaying confidence score: source reliability, corroborating sources and
+   * sightings make up the base score, which halves every half-life of the
+   * IoC type since the IoC was first seen or last sighted
+   */
+  scoreConfidence(factors: ScoringFactors, now: Date = new Date()): ConfidenceScore {
+    const { weights, sightingsHalfScore } = this.scoringConfig;
+    const reliabilities = factors.sourceReliabilities.length
+      ? factors.sourceReliabilities
+      : [DEFAULT_RELIABILITY];
+    const reliability = reliabilities.reduce((sum, value) => sum + value, 0) / reliabilities.length;
+    // A second source is worth 50, a fourth 75
+    const corroboration = 100 * (1 - 1 / reliabilities.length);
+    const sightings = (100 * factors.sightings) / (factors.sightings + sightingsHalfScore);
+    const baseScore = reliability * weights.reliability
+      + corroboration * weights.corroboration
+      + sightings * weights.sightings;
+
+    const idle = now.getTime() - new Date(factors.lastActivity).getTime();
+    const ageDays = Math.max(0, idle / DAY_MS);
+    const halfLife = halfLifeDays(factors.type);
+    const decay = 0.5 ** (ageDays / halfLife);
+
+    return {
+      confidence: Math.min(100, Math.max(0, Math.round(baseScore * decay))),
+      baseScore: Math.round(baseScore),
+      reliability: Math.round(reliability),
+      corroboration: Math.round(corroboration),
+      sightings: Math.round(sightings),
+      ageDays: Math.round(ageDays * 10) / 10,
+      halfLifeDays: halfLife,
+      decay: Math.round(decay * 1000) / 1000,
+      scoredAt: now,
+    };
+  }
+
+  /**
+   * Current score of an IoC, without storing it
+   */
+  async getScore(iocId: string): Promise<ConfidenceScore> {
+    const ioc = await this.getById(iocId);
+    return this.scoreIoC(ioc, ioc.sources || []);
+  }
+
   /**
    * Update confidence based on new data
    */
   async updateConfidence(iocId: string, newSource?: IoCSource): Promise<any> {
     const ioc = await this.getById(iocId);
-    const ageInDays = Math.floor((Date.now() - ioc.firstSeen.getTime()) / (1000 * 60 * 60 * 24));
-
-    const factors: ConfidenceFactors = {
-      sourceReliability: this.getAverageSourceReliability(ioc.sources),
-      ageOfIoC: ageInDays,
-      numberOfSources: ioc.sources.length + (newSource ? 1 : 0),
-      validationResults: 100, // Passed validation
-      falsePositiveHistory: ioc.status === 'false_positive' ? 0 : 100,
-    };
+    const sources: IoCSource[] = [...(ioc.sources || [])];
+    if (newSource && !sources.some((source) => source.name === newSource.name)) {
+      sources.push(newSource);
+    }
+
+    const score = await this.scoreIoC(ioc, sources);
+    return this.update(iocId, { confidence: score.confidence, scoring: score });
+  }
+
+  /**
+   * Recompute the score of every active IoC, one at a time, streaming them
+   * from a cursor; IoCs whose confidence decayed below the floor are expired
+   * with the reason
+   */
+  async recomputeScores(now: Date = new Date()): Promise<ScoreRecomputeResult> {
+    const feedScores = new Map<string, Promise<number | undefined>>();
+    const counts = { scored: 0, expired: 0, failed: 0 };
+
+    await IoC.find({ status: 'active' })
+      .select(SCORED_FIELDS)
+      .lean()
+      .cursor({ batchSize: SCORE_BATCH_SIZE })
+      .eachAsync(async (ioc: any) => {
+        try {
+          const score = await this.scoreIoC(ioc, ioc.sources || [], now, feedScores);
+          counts.scored += 1;
+          if (score.confidence < this.scoringConfig.floor) {
+            await this.expireIoC(ioc.id, `Confidence ${score.confidence} fell below the floor of `
+              + `${this.scoringConfig.floor} after ${score.ageDays} days without activity `
+              + `(half-life ${score.halfLifeDays} days)`, score);
+            counts.expired += 1;
+          } else if (score.confidence !== ioc.confidence || !ioc.scoring) {
+            await this.update(ioc.id, { confidence: score.confidence, scoring: score });
+          }
+        } catch (error) {
+          counts.failed += 1;
+          logger.error('Error scoring IoC', { id: ioc.id, error: (error as Error).message });
+        }
+      });
+
+    logger.info('IoC scores recomputed', counts);
+    return counts;
+  }
 
-    const newConfidence = this.calculateConfidence(factors);
+  configureScoring(options: Partial<ScoringConfig>): void {
+    this.scoringConfig = { ...this.scoringConfig, ...options };
+  }
+
+  getScoringConfig(): ScoringConfig {
+    return this.scoringConfig;
+  }
 
-    return this.update(iocId, { confidence: newConfidence });
+  private async scoreIoC(
+    ioc: any,
+    sources: readonly IoCSource[],
+    now: Date = new Date(),
+    feedScores: Map<string, Promise<number | undefined>> = new Map(),
+  ): Promise<ConfidenceScore> {
+    const firstSeen = new Date(ioc.first_seen || ioc.firstSeen || ioc.created_at || now);
+    const lastSighting = ioc.last_seen && new Date(ioc.last_seen);
+    return this.scoreConfidence({
+      type: ioc.type,
+      sourceReliabilities: await Promise.all(sources.map((source) => (
+        this.sourceReliability(source, feedScores)
+      ))),
+      sightings: ioc.hits || 0,
+      lastActivity: lastSighting && lastSighting > firstSeen ? lastSighting : firstSeen,
+    }, now);
   }
 
   /**
-   * Get average reliability of sources
+   * Reliability of a source: the score of its threat feed, computed once per
+   * recompute, or else the reliability it was recorded with
    */
-  private getAverageSourceReliability(sources: any[]): number {
-    if (sources.length === 0) return 50;
-    const total = sources.reduce((sum: number, source: any) => sum + source.reliability, 0);
-    return total / sources.length;
+  private async sourceReliability(
+    source: IoCSource,
+    feedScores: Map<string, Promise<number | undefined>>,
+  ): Promise<number> {
+    const recorded = typeof source.reliability === 'number'
+      ? source.reliability
+      : DEFAULT_RELIABILITY;
+    if (!source.feedId) return recorded;
+
+    if (!feedScores.has(source.feedId)) {
+      feedScores.set(source.feedId, feedService.calculateReliabilityScore(source.feedId)
+        .then((reliability) => reliability.score)
+        .catch((error) => {
+          logger.warn('Feed reliability unavailable', {
+            feedId: source.feedId, error: (error as Error).message,
+          });
+          return undefined;
+        }));
+    }
+    return (await feedScores.get(source.feedId)) ?? recorded;
   }
 
   // ========================================
-  // 4. Automated IoC Enrichment (Stub)
+  // 4. Automated IoC Enrichment
   // ========================================
 
   /**
-   * Enrich IoC with external threat intelligence
-   * Note: Requires API keys for external services
+   * Enrich an IoC through the enrichment connectors for its type. What each
+   * source returned is kept in `enrichment.sources`; geolocation, WHOIS,
+   * passive DNS and the reputation score summarize those records.
    */
-  async enrichIoC(iocId: string): Promise<any> {
+  async enrichIoC(iocId: string, options: EnrichOptions = {}): Promise<any> {
     try {
       const ioc = await this.getById(iocId);
-      logger.info('Enriching IoC', { id: iocId, type: ioc.type });
-
-      const enrichment: EnrichmentData = {};
-
-      // Stub implementations - would integrate with real APIs
-      if (ioc.type === 'ip') {
-        enrichment.geolocation = {
-          country: 'US',
-          city: 'Unknown',
-          latitude: 0,
-          longitude: 0,
-          asn: 'AS0000',
-          isp: 'Unknown ISP',
-        };
+      const type = toObservableType(ioc.type);
+      if (!type) {
+        throw new EnrichmentError(422, `IoCs of type ${ioc.type} cannot be enriched`);
       }
+      logger.info('Enriching IoC', { id: iocId, type: ioc.type });
 
-      if (ioc.type === 'domain') {
-        enrichment.whois = {
-          registrar: 'Unknown',
-          createdDate: new Date(),
-          expiresDate: new Date(),
-          registrant: 'Unknown',
-          country: 'US',
-        };
-      }
+      const records = await enrichmentService.enrich({ type, value: ioc.value }, options);
+      const sources = enrichmentService.mergeRecords(ioc.enrichment?.sources || [], records);
+      const {
+        geolocation, asn, whois, dns, reputation,
+      } = enrichmentService.summarize(sources);
+
+      const enrichment: EnrichmentData = {
+        geolocation: geolocation || asn ? {
+          country: geolocation?.country,
+          city: geolocation?.city,
+          latitude: geolocation?.latitude,
+          longitude: geolocation?.longitude,
+          asn: asn?.asn,
+          isp: geolocation?.isp || asn?.organization,
+        } : undefined,
+        whois: whois ? {
+          registrar: whois.registrar,
+          createdDate: whois.createdDate && new Date(whois.createdDate),
+          expiresDate: whois.expiresDate && new Date(whois.expiresDate),
+          registrant: whois.registrant,
+          country: whois.country,
+        } : undefined,
+        reputation_score: reputation?.score,
+        dns_records: dns,
+        sources,
+        enriched_at: new Date(),
+      };
 
-      // Update IoC with enrichment data
       const updated = await IoC.findOneAndUpdate(
         { id: iocId },
         {
@@ -404,7 +568,10 @@ class IocService {
         throw new Error('Failed to update IoC with enrichment');
       }
 
-      logger.info('IoC enriched successfully', { id: iocId });
+      logger.info('IoC enriched successfully', {
+        id: iocId,
+        sources: records.map((record) => `${record.source}:${record.status}`),
+      });
       return updated;
     } catch (error) {
       logger.error('Error enriching IoC', { error: (error as Error).message });
@@ -417,14 +584,40 @@ class IocService {
   // ========================================
 
   /**
-   * Mark IoC as expired
+   * Mark IoC as expired; `score` is the decayed score that expired it. Only
+   * the expiration fields of its metadata are set, the rest is kept.
    */
-  async expireIoC(iocId: string, reason: string): Promise<any> {
+  async expireIoC(iocId: string, reason: string, score?: ConfidenceScore): Promise<any> {
     logger.info('Expiring IoC', { id: iocId, reason });
-    return this.update(iocId, {
-      status: 'expired',
-      metadata: { expirationReason: reason, expiredAt: new Date() },
-    });
+    const now = new Date();
+    const updated = await IoC.findOneAndUpdate(
+      { id: iocId },
+      {
+        $set: {
+          status: 'expired',
+          ...(score && { confidence: score.confidence, scoring: score }),
+          'metadata.expirationReason': reason,
+          'metadata.expiredAt': now,
+          updatedAt: now,
+        },
+      },
+      { new: true },
+    );
+
+    if (!updated) {
+      throw new Error('IoC not found');
+    }
+
+    this.emit('ioc:updated', updated);
+    return updated;
+  }
+
+  /**
+   * Count a sighting of an IoC in observed events; sightings raise its score
+   * and restart its decay
+   */
+  async recordSighting(iocId: string, seenAt: Date = new Date()): Promise<void> {
+    await IoC.updateOne({ id: iocId }, { $inc: { hits: 1 }, $max: { last_seen: seenAt } });
   }
 
   /**
@@ -440,10 +633,14 @@ class IocService {
   }
 
   /**
-   * Whitelist an IoC
+   * Whitelist an IoC, and allow-list its value so that it is not recorded again
    */
   async whitelistIoC(iocId: string, reason: string, expiresAt?: Date): Promise<any> {
     logger.info('Whitelisting IoC', { id: iocId, reason });
+    const ioc = await this.getById(iocId);
+    await allowListService.addEntry({
+      kind: 'value', value: ioc.normalizedValue || ioc.value, reason, expiresAt,
+    }, 'system');
     return this.update(iocId, {
       status: 'whitelisted',
       expiresAt,
@@ -738,6 +935,7 @@ class IocService {
     }
 
     logger.info('IoC updated', { id, updates: Object.keys(updates) });
+    this.emit('ioc:updated', updated);
     return updated;
   }
 
@@ -747,6 +945,7 @@ class IocService {
 
     await item.deleteOne();
     logger.info('IoC deleted', { id });
+    this.emit('ioc:deleted', { id });
 
     return { deleted: true, id };
   }
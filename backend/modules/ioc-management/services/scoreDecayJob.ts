@@ -0,0 +1,57 @@
+/**
+ * IoC Score Decay Job
+ * Recomputes the confidence of the active IoCs every scoring interval, so
+ * scores decay while an IoC is neither corroborated nor sighted, and IoCs
+ * that fall below the floor are expired.
+ */
+
+import iocService from './iocService';
+import logger from '../utils/logger';
+import type { ScoreRecomputeResult } from '../types';
+
+class ScoreDecayJob {
+  private timer?: NodeJS.Timeout;
+
+  private running = false;
+
+  private lastRun?: { readonly at: Date; readonly result: ScoreRecomputeResult };
+
+  /**
+   * Recompute now, unless a run is already in progress
+   */
+  async run(now: Date = new Date()): Promise<ScoreRecomputeResult | undefined> {
+    if (this.running) return undefined;
+    this.running = true;
+    try {
+      const result = await iocService.recomputeScores(now);
+      this.lastRun = { at: now, result };
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  status(): { running: boolean; lastRunAt?: Date; lastResult?: ScoreRecomputeResult } {
+    return {
+      running: this.running,
+      lastRunAt: this.lastRun?.at,
+      lastResult: this.lastRun?.result,
+    };
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.run().catch((error) => logger.error('IoC score decay run failed', { error }));
+    }, iocService.getScoringConfig().interval * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export { ScoreDecayJob };
+export default new ScoreDecayJob();
@@ -3,6 +3,8 @@
  * Comprehensive types for Indicator of Compromise management
  */
 
+import type { EnrichmentRecord, PassiveDnsRecord } from '../enrichment/types';
+
 /**
  * Supported IoC types
  */
@@ -39,6 +41,7 @@ export interface IoCSource {
   readonly reliability: number; // 0-100
   readonly sourceType: 'commercial' | 'open_source' | 'internal' | 'community';
   readonly url?: string;
+  readonly feedId?: string; // threat feed whose reliability score applies
 }
 
 /**
@@ -63,7 +66,8 @@ export interface ValidationResult {
 }
 
 /**
- * Enrichment data from external sources
+ * Enrichment data from external sources; `sources` keeps what each
+ * enrichment connector returned, and when
  */
 export interface EnrichmentData {
   virustotal?: {
@@ -94,6 +98,10 @@ export interface EnrichmentData {
     asn: string;
     isp: string;
   };
+  reputation_score?: number; // 0 (malicious) to 100 (clean)
+  dns_records?: readonly PassiveDnsRecord[];
+  sources?: readonly EnrichmentRecord[];
+  enriched_at?: Date;
 }
 
 /**
@@ -211,6 +219,231 @@ export interface ConfidenceFactors {
   readonly falsePositiveHistory: number;
 }
 
+/**
+ * Inputs of the decaying confidence score
+ */
+export interface ScoringFactors {
+  readonly type: string;
+  readonly sourceReliabilities: readonly number[]; // 0-100 per source
+  readonly sightings: number;
+  readonly lastActivity: Date; // first seen, or the latest sighting
+}
+
+/**
+ * Decaying confidence score and how it was reached; components are 0-100
+ */
+export interface ConfidenceScore {
+  readonly confidence: number; // baseScore after decay
+  readonly baseScore: number;
+  readonly reliability: number;
+  readonly corroboration: number;
+  readonly sightings: number;
+  readonly ageDays: number;
+  readonly halfLifeDays: number;
+  readonly decay: number; // 0-1
+  readonly scoredAt: Date;
+}
+
+/**
+ * Outcome of recomputing the scores of the active IoCs
+ */
+export interface ScoreRecomputeResult {
+  readonly scored: number;
+  readonly expired: number;
+  readonly failed: number;
+}
+
+/**
+ * Entities that can be nodes of the relationship graph
+ */
+export type GraphEntityType =
+  | 'ioc'
+  | 'threat_actor'
+  | 'campaign'
+  | 'malware'
+  | 'incident'
+  | 'vulnerability';
+
+/**
+ * Edge types of the relationship graph
+ */
+export type GraphEdgeType =
+  | 'resolves-to'
+  | 'communicates-with'
+  | 'dropped-by'
+  | 'attributed-to'
+  | 'observed-in';
+
+export interface EntityRef {
+  readonly type: GraphEntityType;
+  readonly id: string;
+}
+
+/**
+ * Graph node; `label` falls back to the ID when the entity cannot be found
+ */
+export interface GraphNode extends EntityRef {
+  readonly label: string;
+  readonly depth: number; // hops from the root
+  readonly found: boolean;
+  readonly data?: Record<string, any>;
+}
+
+/**
+ * Graph edge, pointing from source to target
+ */
+export interface GraphEdge {
+  readonly id: string;
+  readonly type: string; // a GraphEdgeType, or a STIX relationship type
+  readonly source: EntityRef;
+  readonly target: EntityRef;
+  readonly count: number;
+  readonly confidence?: number;
+  readonly firstSeen?: Date;
+  readonly lastSeen?: Date;
+  readonly origin?: string; // what created the edge
+}
+
+export interface GraphNeighbourhood {
+  readonly root: EntityRef;
+  readonly nodes: readonly GraphNode[];
+  readonly edges: readonly GraphEdge[];
+  readonly truncated: boolean; // the node limit was reached
+}
+
+export interface NeighbourhoodOptions {
+  readonly depth?: number;
+  readonly edgeTypes?: readonly string[];
+  readonly nodeTypes?: readonly GraphEntityType[];
+  readonly limit?: number;
+}
+
+/**
+ * Neighbours of an entity reached over one edge type in one direction
+ */
+export interface PivotGroup {
+  readonly edgeType: string;
+  readonly direction: 'outbound' | 'inbound';
+  readonly nodes: readonly GraphNode[];
+}
+
+export interface LinkOptions {
+  readonly origin?: string;
+  readonly confidence?: number;
+  readonly seenAt?: Date;
+  readonly description?: string;
+  readonly metadata?: Record<string, any>;
+}
+
+/**
+ * Indicator value standing for the IoC it is recorded as
+ */
+export interface IndicatorRef {
+  readonly value: string;
+  readonly type?: IoCType; // detected when missing
+}
+
+/**
+ * Edge whose ends may be indicators not yet recorded as IoCs
+ */
+export interface IndicatorEdge {
+  readonly source: EntityRef | IndicatorRef;
+  readonly edgeType: GraphEdgeType;
+  readonly target: EntityRef | IndicatorRef;
+  readonly confidence?: number;
+}
+
+/**
+ * Indicator types found by free-text extraction
+ */
+export type ExtractedIndicatorType =
+  | 'ipv4'
+  | 'ipv6'
+  | 'cidr'
+  | 'domain'
+  | 'url'
+  | 'email'
+  | 'md5'
+  | 'sha1'
+  | 'sha256'
+  | 'sha512'
+  | 'cve'
+  | 'mitre_technique'
+  | 'bitcoin_address'
+  | 'registry_key';
+
+/**
+ * Indicator found in free text, refanged and normalized
+ */
+export interface ExtractedIndicator {
+  readonly type: ExtractedIndicatorType;
+  readonly value: string;
+  readonly iocType?: IoCType; // type to record it as, if it can be an IoC
+  readonly occurrences: number;
+}
+
+export interface ExtractionOptions {
+  readonly types?: readonly ExtractedIndicatorType[];
+  readonly allowList?: readonly string[]; // domains dropped with their subdomains
+  readonly includePrivate?: boolean; // keep private and reserved IP ranges
+}
+
+export interface ExtractionResult {
+  readonly indicators: readonly ExtractedIndicator[];
+  readonly dropped: {
+    readonly private: number;
+    readonly allowListed: number;
+  };
+}
+
+/**
+ * How an allow-list entry matches: the exact value, an IP range, or a domain
+ * with its subdomains (and URLs and email addresses on them)
+ */
+export type AllowListEntryKind = 'value' | 'cidr' | 'domain';
+
+/**
+ * Where an allow-listed value was caught
+ */
+export type AllowListContext = 'feed' | 'stix_import' | 'manual' | 'automation';
+
+export interface AllowListEntryInput {
+  readonly kind: AllowListEntryKind;
+  readonly value: string;
+  readonly reason?: string;
+  readonly expiresAt?: Date;
+}
+
+/**
+ * Allow-list entry a value matched; `list` is `organisation` for managed
+ * entries, or the name of a bundled list
+ */
+export interface AllowListMatch {
+  readonly list: string;
+  readonly entryId?: string; // managed entries only
+  readonly kind: AllowListEntryKind;
+  readonly entry: string;
+  readonly reason?: string;
+}
+
+export interface AllowListHitContext {
+  readonly context: AllowListContext;
+  readonly source: string; // feed, bundle, user or action the value came from
+  readonly sourceId?: string;
+}
+
+/**
+ * Allow-list hits of one source, for reviewing the sources that keep
+ * sending allow-listed values
+ */
+export interface AllowListHitSummary {
+  readonly source: string;
+  readonly context: AllowListContext;
+  readonly hits: number;
+  readonly values: number; // distinct values
+  readonly lastHit: Date;
+}
+
 /**
  * IoC statistics
  */
@@ -0,0 +1,111 @@
+/**
+ * Address Checks
+ * Private and reserved IP ranges, and checksums of Bitcoin addresses.
+ */
+
+import { createHash } from 'crypto';
+import { BlockList, isIP } from 'net';
+
+// Private, loopback, link-local, documentation, multicast and otherwise
+// reserved ranges (RFC 6890), which are never indicators of compromise
+const RESERVED_RANGES: readonly [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+// Block lists match IPv4 addresses against IPv4-mapped IPv6 ranges too, so
+// ::ffff:0:0/96 would take in every IPv4 address
+const reserved = new BlockList();
+RESERVED_RANGES.forEach(([network, prefix, family]) => reserved.addSubnet(network, prefix, family));
+
+/**
+ * Whether an IP address is in a private or reserved range
+ */
+export const isReservedIP = (ip: string): boolean => {
+  const version = isIP(ip);
+  if (!version) return false;
+  return reserved.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const sha256 = (data: Buffer): Buffer => createHash('sha256').update(data).digest();
+
+/**
+ * Whether a legacy (P2PKH or P2SH) Bitcoin address has a valid Base58Check checksum
+ */
+const isBase58Address = (address: string): boolean => {
+  let value = BigInt(0);
+  for (let index = 0; index < address.length; index += 1) {
+    const digit = BASE58_ALPHABET.indexOf(address[index]);
+    if (digit < 0) return false;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  // Version byte, 20-byte hash and 4-byte checksum
+  const hex = value.toString(16).padStart(50, '0');
+  if (hex.length !== 50) return false;
+  const bytes = Buffer.from(hex, 'hex');
+  const payload = bytes.subarray(0, 21);
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return [0x00, 0x05].includes(payload[0]) && checksum.equals(bytes.subarray(21));
+};
+
+/* eslint-disable no-bitwise */
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+// Checksum constants of bech32 (segwit v0) and bech32m (v1 and later, BIP 350)
+const BECH32_CONSTANTS = [1, 0x2bc830a3];
+
+const bech32Polymod = (values: number[]): number => values.reduce((checksum, value) => {
+  const top = checksum >>> 25;
+  return BECH32_GENERATORS.reduce(
+    (next, generator, bit) => ((top >>> bit) & 1 ? next ^ generator : next),
+    ((checksum & 0x1ffffff) << 5) ^ value,
+  ) >>> 0;
+}, 1);
+
+/**
+ * Whether a segwit (`bc1`) Bitcoin address has a valid bech32 or bech32m checksum
+ */
+const isBech32Address = (address: string): boolean => {
+  const lower = address.toLowerCase();
+  if (lower !== address && address.toUpperCase() !== address) return false;
+
+  const data = [...lower.slice(3)].map((char) => BECH32_ALPHABET.indexOf(char));
+  if (data.length < 7 || data.some((value) => value < 0)) return false;
+
+  const expanded = [...'bc'].map((char) => char.charCodeAt(0) >> 5)
+    .concat(0, [...'bc'].map((char) => char.charCodeAt(0) & 31));
+  return BECH32_CONSTANTS.includes(bech32Polymod([...expanded, ...data]));
+};
+/* eslint-enable no-bitwise */
+
+/**
+ * Whether a string is a Bitcoin mainnet address with a valid checksum
+ */
+export const isBitcoinAddress = (address: string): boolean => (
+  /^bc1/i.test(address) ? isBech32Address(address) : isBase58Address(address)
+);
+
+export default { isReservedIP, isBitcoinAddress };
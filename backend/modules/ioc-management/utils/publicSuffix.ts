@@ -0,0 +1,79 @@
+/**
+ * Public Suffix Lookups
+ * Public suffixes and registrable domains of host names, from the bundled
+ * Public Suffix List. Names whose top-level domain is not on the list have no
+ * public suffix, so they are not registrable domains.
+ */
+
+import { PUBLIC_SUFFIX_LIST } from '../data/publicSuffixList';
+
+interface SuffixRules {
+  readonly rules: ReadonlySet<string>;
+  readonly wildcards: ReadonlySet<string>;
+  readonly exceptions: ReadonlySet<string>;
+}
+
+/**
+ * Parse rules in Public Suffix List syntax
+ */
+export const parseSuffixRules = (list: string): SuffixRules => {
+  const rules = new Set<string>();
+  const wildcards = new Set<string>();
+  const exceptions = new Set<string>();
+
+  list.split('\n')
+    .map((line) => line.replace(/\/\/.*$/, '').trim())
+    .flatMap((line) => (line ? line.split(/\s+/) : []))
+    .forEach((rule) => {
+      const normalized = rule.toLowerCase();
+      if (normalized.startsWith('!')) exceptions.add(normalized.slice(1));
+      else if (normalized.startsWith('*.')) wildcards.add(normalized.slice(2));
+      else rules.add(normalized);
+    });
+
+  return { rules, wildcards, exceptions };
+};
+
+const BUNDLED_RULES = parseSuffixRules(PUBLIC_SUFFIX_LIST);
+
+/**
+ * Public suffix of a host name, e.g. `co.uk` for `www.example.co.uk`, or
+ * undefined when no rule matches
+ */
+export const publicSuffix = (
+  hostname: string,
+  suffixRules: SuffixRules = BUNDLED_RULES,
+): string | undefined => {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.some((label) => !label)) return undefined;
+
+  // The longest matching rule wins, and exceptions win over the wildcards they are under
+  for (let index = 0; index < labels.length; index += 1) {
+    const candidate = labels.slice(index).join('.');
+    if (suffixRules.exceptions.has(candidate)) return labels.slice(index + 1).join('.');
+    if (suffixRules.rules.has(candidate)) return candidate;
+    if (index + 1 < labels.length && suffixRules.wildcards.has(labels.slice(index + 1).join('.'))) {
+      return candidate;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Registrable domain of a host name: its public suffix and one more label,
+ * e.g. `example.co.uk` for `www.example.co.uk`
+ */
+export const registrableDomain = (
+  hostname: string,
+  suffixRules: SuffixRules = BUNDLED_RULES,
+): string | undefined => {
+  const suffix = publicSuffix(hostname, suffixRules);
+  if (!suffix) return undefined;
+
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  const suffixLength = suffix.split('.').length;
+  if (labels.length <= suffixLength) return undefined;
+  return labels.slice(-suffixLength - 1).join('.');
+};
+
+export default { parseSuffixRules, publicSuffix, registrableDomain };
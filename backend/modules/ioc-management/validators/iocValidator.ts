@@ -3,6 +3,7 @@
  */
 
 import Joi from 'joi';
+import { MAX_EXTRACT_TEXT_LENGTH } from '../config/extraction';
 
 // Create/Update IoC schema
 const iocSchema = Joi.object({
@@ -43,7 +44,104 @@ const iocUpdateSchema = Joi.object({
   status: Joi.string().valid('active', 'inactive', 'expired').optional(),
 }).min(1);
 
+// Enrichment through the enrichment module connectors
+const iocEnrichSchema = Joi.object({
+  connectors: Joi.array().items(Joi.string()).optional(),
+  findings: Joi.array().items(
+    Joi.string().valid('geolocation', 'asn', 'dns', 'whois', 'reputation'),
+  ).optional(),
+  refresh: Joi.boolean().default(false),
+});
+
+// Free-text extraction
+const EXTRACTED_INDICATOR_TYPES = [
+  'ipv4', 'ipv6', 'cidr', 'domain', 'url', 'email', 'md5', 'sha1', 'sha256', 'sha512',
+  'cve', 'mitre_technique', 'bitcoin_address', 'registry_key',
+];
+
+const iocExtractSchema = Joi.object({
+  text: Joi.string().max(MAX_EXTRACT_TEXT_LENGTH).required(),
+  types: Joi.array().items(Joi.string().valid(...EXTRACTED_INDICATOR_TYPES)).optional(),
+  allowList: Joi.array().items(Joi.string().hostname()).optional(),
+  includePrivate: Joi.boolean().default(false),
+  // Record the indicators that can be IoCs, under the given source
+  record: Joi.boolean().default(false),
+  source: Joi.object({
+    name: Joi.string().required(),
+    reliability: Joi.number().min(0).max(100).default(50),
+    sourceType: Joi.string().valid('commercial', 'open_source', 'internal', 'community')
+      .default('internal'),
+    url: Joi.string().uri().optional(),
+  }).when('record', { is: true, then: Joi.required() }),
+});
+
+// Relationship graph
+const GRAPH_ENTITY_TYPES = [
+  'ioc', 'threat_actor', 'campaign', 'malware', 'incident', 'vulnerability',
+];
+
+const GRAPH_EDGE_TYPES = [
+  'resolves-to', 'communicates-with', 'dropped-by', 'attributed-to', 'observed-in',
+];
+
+const graphEntitySchema = Joi.object({
+  type: Joi.string().valid(...GRAPH_ENTITY_TYPES).required(),
+  id: Joi.string().required(),
+});
+
+const graphQuerySchema = Joi.object({
+  depth: Joi.number().integer().min(1).optional(),
+  // Edge types other than the graph's own are those of STIX relationships
+  edgeTypes: Joi.array().items(Joi.string()).single().optional(),
+  nodeTypes: Joi.array().items(Joi.string().valid(...GRAPH_ENTITY_TYPES)).single().optional(),
+  limit: Joi.number().integer().min(1).optional(),
+});
+
+const graphEdgeSchema = Joi.object({
+  source: graphEntitySchema.required(),
+  type: Joi.string().valid(...GRAPH_EDGE_TYPES).required(),
+  target: graphEntitySchema.required(),
+  confidence: Joi.number().min(0).max(100).optional(),
+  description: Joi.string().optional(),
+});
+
+const ALLOW_LIST_KINDS = ['value', 'cidr', 'domain'];
+const ALLOW_LIST_CONTEXTS = ['feed', 'stix_import', 'manual', 'automation'];
+
+const allowListEntrySchema = Joi.object({
+  kind: Joi.string().valid(...ALLOW_LIST_KINDS).required(),
+  value: Joi.string().trim().required(),
+  reason: Joi.string().required(),
+  expiresAt: Joi.date().iso().greater('now')
+    .optional(),
+});
+
+// Impact check: the values a block or an import is about to act on
+const allowListCheckSchema = Joi.object({
+  values: Joi.array().items(Joi.object({
+    value: Joi.string().required(),
+    type: Joi.string().optional(),
+  })).min(1).max(1000)
+    .required(),
+});
+
+const allowListHitQuerySchema = Joi.object({
+  source: Joi.string().optional(),
+  context: Joi.string().valid(...ALLOW_LIST_CONTEXTS).optional(),
+  since: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(1000)
+    .optional(),
+});
+
 export default {
   iocSchema,
   iocUpdateSchema,
+  iocEnrichSchema,
+  iocExtractSchema,
+  graphEntitySchema,
+  graphQuerySchema,
+  graphEdgeSchema,
+  allowListEntrySchema,
+  allowListCheckSchema,
+  allowListHitQuerySchema,
 };
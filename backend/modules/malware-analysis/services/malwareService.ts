@@ -10,6 +10,7 @@
  * 7. YARA rule generation
  */
 
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import MalwareSample from '../models/MalwareSample';
@@ -55,7 +56,10 @@ import type {
   MitreTactic,
 } from '../types';
 
-class MalwareService {
+/**
+ * Emits `iocs:extracted` with the ExtractedIOCs of a sample
+ */
+class MalwareService extends EventEmitter {
   // Analysis queue
   private readonly analysisQueue: Map<string, SubmissionRequest> = new Map();
 
@@ -737,6 +741,7 @@ class MalwareService {
       };
 
       logger.info('IOC extraction complete', { sampleId, totalIOCs: iocs.totalIOCs });
+      this.emit('iocs:extracted', iocs);
       return iocs;
     } catch (error) {
       logger.error('Error extracting IOCs', { error, sampleId });
@@ -111,6 +111,23 @@ export async function getUsageMetrics(req: Request, res: Response): Promise<void
   }
 }
 
+/**
+ * Get SIEM log ingestion metrics summary
+ */
+export async function getIngestMetrics(req: Request, res: Response): Promise<void> {
+  try {
+    const metrics = await metricsService.getIngestMetrics();
+
+    res.json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Failed to fetch ingest metrics';
+    res.status(500).json({ success: false, error: message });
+  }
+}
+
 /**
  * Analyze metric trend
  */
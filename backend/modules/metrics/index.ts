@@ -16,6 +16,7 @@ router.post('/metrics/query', controller.queryMetrics);
 router.get('/metrics/security', controller.getSecurityMetrics);
 router.get('/metrics/performance', controller.getPerformanceMetrics);
 router.get('/metrics/usage', controller.getUsageMetrics);
+router.get('/metrics/ingest', controller.getIngestMetrics);
 
 // Trend analysis
 router.get('/metrics/:metricName/trend', controller.analyzeTrend);
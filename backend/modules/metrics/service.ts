@@ -14,6 +14,7 @@ import {
   SecurityMetrics,
   PerformanceMetrics,
   UsageMetrics,
+  IngestMetrics,
   TrendAnalysis,
   RecordMetricRequest,
   MetricQuery,
@@ -182,6 +183,24 @@ class MetricsService extends EventEmitter {
     return metrics;
   }
 
+  /**
+   * Get SIEM log ingestion metrics summary
+   */
+  async getIngestMetrics(): Promise<IngestMetrics> {
+    const metrics: IngestMetrics = {
+      received: await this.getMetricValue('siem.ingest.received', MetricType.COUNTER),
+      processed: await this.getMetricValue('siem.ingest.processed', MetricType.COUNTER),
+      dead_lettered: await this.getMetricValue('siem.ingest.dead_lettered', MetricType.COUNTER),
+      dropped_queue_full: await this.getMetricValue('siem.ingest.dropped.queue_full', MetricType.COUNTER),
+      dropped_rate_limited: await this.getMetricValue('siem.ingest.dropped.rate_limited', MetricType.COUNTER),
+      dropped_oversized: await this.getMetricValue('siem.ingest.dropped.oversized', MetricType.COUNTER),
+      queue_depth: await this.getMetricValue('siem.ingest.queue_depth', MetricType.GAUGE),
+      throughput_per_second: await this.getMetricValue('siem.ingest.throughput', MetricType.GAUGE),
+    };
+
+    return metrics;
+  }
+
   /**
    * Analyze metric trend
    */
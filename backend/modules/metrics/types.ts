@@ -165,6 +165,20 @@ export interface UsageMetrics {
   data_volume_processed: number;
 }
 
+/**
+ * SIEM log ingestion metrics, published by the ingestion pipeline
+ */
+export interface IngestMetrics {
+  received: number;
+  processed: number;
+  dead_lettered: number;
+  dropped_queue_full: number;
+  dropped_rate_limited: number;
+  dropped_oversized: number;
+  queue_depth: number;
+  throughput_per_second: number;
+}
+
 /**
  * Trend analysis
  */
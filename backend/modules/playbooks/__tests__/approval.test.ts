@@ -0,0 +1,289 @@
+/**
+ * Playbook Approval and Wait Tests
+ */
+
+import { PlaybookExecutionEngine } from '../execution-engine';
+import { PlaybookError } from '../errors';
+import { playbookExecutionRepository } from '../../../repositories';
+import { notificationService } from '../../notifications/service';
+import { ActionType, ComponentType, ExecutionStatus, PlaybookStatus, TriggerType } from '../types';
+import type { Playbook, PlaybookComponent, PlaybookExecution } from '../types';
+
+// Plain functions, since jest resets mock implementations before each test
+jest.mock('../../../repositories', () => {
+  const records = new Map<string, any>();
+  const copy = (value: any) => JSON.parse(JSON.stringify(value));
+  const matching = (statuses: string[]) => [...records.values()]
+    .filter(record => statuses.includes(record.status))
+    .map(copy);
+  return {
+    playbookExecutionRepository: {
+      records,
+      create: async (data: any) => { records.set(data.id, copy(data)); },
+      update: async (id: string, data: any) => {
+        records.set(id, { ...records.get(id), ...copy(data) });
+      },
+      updateIfStatus: async (id: string, status: string, data: any) => {
+        if (records.get(id)?.status !== status) return false;
+        records.set(id, { ...records.get(id), ...copy(data) });
+        return true;
+      },
+      findById: async (id: string) => (records.has(id) ? copy(records.get(id)) : null),
+      findRunning: async () => matching(['pending', 'running']),
+      findByStatus: async (status: string) => matching([status])
+    }
+  };
+});
+
+jest.mock('../../notifications/service', () => ({
+  notificationService: { createNotification: jest.fn() }
+}));
+
+jest.mock('../../incident-response/services/incidentService', () => ({
+  __esModule: true,
+  default: {}
+}));
+jest.mock('../../ioc-management/services/iocService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../ai/service', () => ({ aiService: {} }));
+jest.mock('../../stix/exporter', () => ({ stixExporter: {} }));
+
+const { records } = playbookExecutionRepository as any;
+
+const component = (
+  id: string,
+  type: ComponentType,
+  config: Record<string, any>,
+  next?: string[]
+): PlaybookComponent => ({
+  id, type, name: id, config: config as any, position: { x: 0, y: 0 }, next
+});
+
+const notify = (id: string) => component(id, ComponentType.ACTION, {
+  actionType: ActionType.SEND_NOTIFICATION, parameters: { message: id }
+});
+
+const playbook = (components: PlaybookComponent[]): Playbook => ({
+  id: 'playbook-1',
+  name: 'Block attacker',
+  status: PlaybookStatus.ACTIVE,
+  created_by: 'user-1',
+  created_at: new Date(),
+  updated_at: new Date(),
+  components: [
+    component('trigger', ComponentType.TRIGGER, { triggerType: TriggerType.MANUAL }, [
+      components[0].id
+    ]),
+    ...components
+  ]
+});
+
+const approvalPlaybook = (config: Record<string, any> = {}) => playbook([
+  component('approve', ComponentType.APPROVAL, {
+    approvers: '{{owners}}',
+    message: 'Block {{ip}}?',
+    approvedNext: 'block',
+    rejectedNext: 'skip',
+    ...config
+  }),
+  notify('block'),
+  notify('skip')
+]);
+
+const next = (engine: PlaybookExecutionEngine, event: string) => (
+  new Promise<PlaybookExecution>(resolve => { engine.once(event, resolve); })
+);
+
+// Actions run after the approval, other than the approval notification itself
+const actionMessages = () => (notificationService.createNotification as jest.Mock).mock.calls
+  .map(([input]) => input.message)
+  .filter(message => !message.startsWith('Block '));
+
+describe('Playbook approvals and waits', () => {
+  let engine: PlaybookExecutionEngine;
+
+  beforeEach(() => {
+    records.clear();
+    engine = new PlaybookExecutionEngine();
+    (notificationService.createNotification as jest.Mock).mockResolvedValue([{ id: 'n-1' }]);
+  });
+
+  it('should suspend on an approval and notify the approvers', async () => {
+    const waiting = next(engine, 'execution:waiting');
+    const { id } = await engine.execute(approvalPlaybook(), 'user-1', {
+      owners: ['user-2', 'user-3'], ip: '203.0.113.7'
+    });
+    await waiting;
+
+    expect(notificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Approval required: approve',
+      message: 'Block 203.0.113.7?',
+      user_ids: ['user-2', 'user-3'],
+      entity_type: 'playbook_execution',
+      entity_id: id
+    }), 'user-1');
+
+    // Parked in the store, not held in memory
+    const execution = await new PlaybookExecutionEngine().getExecution(id);
+    expect(execution.status).toBe(ExecutionStatus.WAITING);
+    expect(records.get(id).status).toBe('waiting');
+    expect(execution.steps[0]).toMatchObject({
+      key: 'approve',
+      status: ExecutionStatus.WAITING,
+      approval: { approvers: ['user-2', 'user-3'], timeout_decision: 'rejected' }
+    });
+    expect(actionMessages()).toEqual([]);
+  });
+
+  it('should record who approved and why, then take the approved branch', async () => {
+    const waiting = next(engine, 'execution:waiting');
+    const { id } = await engine.execute(approvalPlaybook(), 'user-1', { owners: ['user-2'] });
+    await waiting;
+
+    await expect(engine.decide(id, { approved: true, userId: 'user-9' }))
+      .rejects.toMatchObject({ status: 403 });
+
+    const completed = next(engine, 'execution:completed');
+    await engine.decide(id, { approved: true, userId: 'user-2', reason: 'Confirmed C2 host' });
+    const execution = await completed;
+
+    expect(actionMessages()).toEqual(['block']);
+    expect(execution.steps[0]).toMatchObject({
+      status: ExecutionStatus.COMPLETED,
+      output: { approved: true, decided_by: 'user-2', reason: 'Confirmed C2 host' },
+      approval: { decision: 'approved', decided_by: 'user-2', timed_out: false }
+    });
+    await expect(engine.decide(id, { approved: false, userId: 'user-2' }))
+      .rejects.toThrow(new PlaybookError(409, 'No approval is pending'));
+  });
+
+  it('should take a decision made while the approvers are being notified', async () => {
+    let release: (value: unknown) => void;
+    const notifying = new Promise<void>(resolve => {
+      (notificationService.createNotification as jest.Mock).mockImplementationOnce(() => {
+        resolve();
+        return new Promise(done => { release = done; });
+      });
+    });
+    const parked = jest.fn();
+    engine.on('execution:waiting', parked);
+
+    const completed = next(engine, 'execution:completed');
+    const { id } = await engine.execute(approvalPlaybook(), 'user-1', { owners: ['user-2'] });
+    await notifying;
+    await engine.decide(id, { approved: true, userId: 'user-2' });
+    release([{ id: 'n-1' }]);
+    const execution = await completed;
+
+    expect(parked).not.toHaveBeenCalled();
+    expect(actionMessages()).toEqual(['block']);
+    expect(execution.steps[0]).toMatchObject({
+      status: ExecutionStatus.COMPLETED,
+      output: { approved: true, decided_by: 'user-2' }
+    });
+  });
+
+  it('should let only the first of two concurrent decisions continue', async () => {
+    const waiting = next(engine, 'execution:waiting');
+    const { id } = await engine.execute(approvalPlaybook(), 'user-1', { owners: ['user-2'] });
+    await waiting;
+
+    // The second decision comes in through another process
+    const completed = next(engine, 'execution:completed');
+    const [first, second] = await Promise.allSettled([
+      engine.decide(id, { approved: true, userId: 'user-2' }),
+      new PlaybookExecutionEngine().decide(id, { approved: false, userId: 'user-2' })
+    ]);
+    await completed;
+
+    expect(first.status).toBe('fulfilled');
+    expect(second).toMatchObject({ status: 'rejected', reason: { status: 409 } });
+    expect(actionMessages()).toEqual(['block']);
+    expect(records.get(id).status).toBe('success');
+  });
+
+  it('should take the rejected branch when an approver rejects', async () => {
+    const waiting = next(engine, 'execution:waiting');
+    const { id } = await engine.execute(approvalPlaybook(), 'user-1', { owners: ['user-2'] });
+    await waiting;
+
+    const completed = next(engine, 'execution:completed');
+    await engine.decide(id, { approved: false, userId: 'user-2', reason: 'Shared hosting' });
+    await completed;
+
+    expect(actionMessages()).toEqual(['skip']);
+  });
+
+  it('should follow the default branch when the approval times out', async () => {
+    const completed = next(engine, 'execution:completed');
+    const definition = approvalPlaybook({ timeout: 0.05, timeoutDecision: 'approved' });
+    await engine.execute(definition, 'user-1', { owners: ['user-2'] });
+    const execution = await completed;
+
+    expect(actionMessages()).toEqual(['block']);
+    expect(execution.steps[0].approval).toMatchObject({
+      decision: 'approved', timed_out: true, reason: 'Approval timed out'
+    });
+    expect(execution.steps[0].approval.decided_by).toBeUndefined();
+  });
+
+  it('should park on a wait and continue after the duration', async () => {
+    const waiting = next(engine, 'execution:waiting');
+    const completed = next(engine, 'execution:completed');
+    const { id } = await engine.execute(playbook([
+      component('pause', ComponentType.WAIT, { duration: 0.05 }, ['after']),
+      notify('after')
+    ]), 'user-1');
+
+    await waiting;
+    const parked = await engine.getExecution(id);
+    expect(parked.status).toBe(ExecutionStatus.WAITING);
+    expect(parked.steps[0].resume_at).toBeInstanceOf(Date);
+    expect(actionMessages()).toEqual([]);
+
+    await completed;
+    expect(actionMessages()).toEqual(['after']);
+  });
+
+  it('should not wait for a timestamp that has passed', async () => {
+    const completed = next(engine, 'execution:completed');
+    await engine.execute(playbook([
+      component('pause', ComponentType.WAIT, { until: '{{not_before}}' }, ['after']),
+      notify('after')
+    ]), 'user-1', { not_before: '2020-01-01T00:00:00Z' });
+
+    const execution = await completed;
+    expect(execution.steps[0].output).toEqual({ waited_until: new Date('2020-01-01T00:00:00Z') });
+  });
+
+  it('should re-arm waits of stored executions at startup', async () => {
+    const definition = playbook([
+      component('pause', ComponentType.WAIT, { duration: 3600 }, ['after']),
+      notify('after')
+    ]);
+    records.set('execution-1', {
+      id: 'execution-1',
+      status: 'waiting',
+      triggeredBy: 'user-1',
+      startedAt: new Date().toISOString(),
+      metadata: {
+        playbook: definition,
+        attempts: 1,
+        steps: [{
+          key: 'pause',
+          component_id: 'pause',
+          component_name: 'pause',
+          status: 'waiting',
+          resume_at: new Date(Date.now() - 1000).toISOString()
+        }]
+      }
+    });
+
+    const completed = next(engine, 'execution:completed');
+    expect(await engine.recoverExecutions())
+      .toEqual({ resumed: [], failed: [], waiting: ['execution-1'] });
+    await completed;
+
+    expect(actionMessages()).toEqual(['after']);
+    expect(records.get('execution-1').status).toBe('success');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Durable Playbook Execution Tests
+ */
+
+import { PlaybookExecutionEngine, executionEngine } from '../execution-engine';
+import { playbookController } from '../controller';
+import { playbookExecutionRepository } from '../../../repositories';
+import incidentService from '../../incident-response/services/incidentService';
+import { notificationService } from '../../notifications/service';
+import { ActionType, ComponentType, ExecutionStatus, PlaybookStatus, TriggerType } from '../types';
+import type { Playbook, PlaybookComponent, PlaybookExecution } from '../types';
+
+// Stored like JSONB columns: dates come back as strings. Plain functions, since
+// jest resets mock implementations before each test
+jest.mock('../../../repositories', () => {
+  const records = new Map<string, any>();
+  const writes: string[] = [];
+  const copy = (value: any) => JSON.parse(JSON.stringify(value));
+  return {
+    playbookExecutionRepository: {
+      records,
+      writes,
+      create: async (data: any) => {
+        writes.push('create');
+        records.set(data.id, copy(data));
+      },
+      update: async (id: string, data: any) => {
+        writes.push('update');
+        records.set(id, { ...records.get(id), ...copy(data) });
+      },
+      findById: async (id: string) => (records.has(id) ? copy(records.get(id)) : null),
+      findRunning: async () => [...records.values()]
+        .filter(record => ['pending', 'running'].includes(record.status))
+        .map(copy),
+      findByStatus: async (status: string) => [...records.values()]
+        .filter(record => record.status === status)
+        .map(copy)
+    }
+  };
+});
+
+jest.mock('../../incident-response/services/incidentService', () => ({
+  __esModule: true,
+  default: { createIncident: jest.fn() }
+}));
+
+jest.mock('../../notifications/service', () => ({
+  notificationService: { createNotification: jest.fn() }
+}));
+
+jest.mock('../../ioc-management/services/iocService', () => ({ __esModule: true, default: {} }));
+jest.mock('../../ai/service', () => ({ aiService: {} }));
+jest.mock('../../stix/exporter', () => ({ stixExporter: {} }));
+
+const { records, writes } = playbookExecutionRepository as any;
+
+const action = (
+  id: string,
+  actionType: ActionType,
+  parameters: Record<string, any>,
+  next?: string[]
+): PlaybookComponent => ({
+  id,
+  type: ComponentType.ACTION,
+  name: id,
+  config: { actionType, parameters },
+  position: { x: 0, y: 0 },
+  next
+});
+
+const playbook: Playbook = {
+  id: 'playbook-1',
+  name: 'Phishing response',
+  status: PlaybookStatus.ACTIVE,
+  created_by: 'user-1',
+  created_at: new Date(),
+  updated_at: new Date(),
+  components: [
+    {
+      id: 'trigger',
+      type: ComponentType.TRIGGER,
+      name: 'Trigger',
+      config: { triggerType: TriggerType.MANUAL },
+      position: { x: 0, y: 0 },
+      next: ['create']
+    },
+    action('create', ActionType.CREATE_INCIDENT, { title: 'Phishing' }, ['loop']),
+    {
+      id: 'loop',
+      type: ComponentType.LOOP,
+      name: 'Each recipient',
+      config: { collection: 'recipients', itemVariable: 'recipient', body: ['warn'] },
+      position: { x: 0, y: 0 },
+      next: ['close']
+    },
+    action('warn', ActionType.SEND_NOTIFICATION, {
+      user_id: '{{recipient}}', message: 'See {{steps.create.ticket_number}}'
+    }),
+    action('close', ActionType.SEND_NOTIFICATION, {
+      message: 'Done {{steps.create.ticket_number}}'
+    })
+  ]
+};
+
+const settle = (engine: PlaybookExecutionEngine, start: () => Promise<unknown>) => (
+  new Promise<PlaybookExecution>((resolve, reject) => {
+    engine.once('execution:completed', resolve);
+    engine.once('execution:failed', resolve);
+    start().catch(reject);
+  })
+);
+
+const response = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() });
+
+describe('Durable playbook executions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    records.clear();
+    writes.length = 0;
+    (incidentService.createIncident as jest.Mock).mockResolvedValue({
+      id: 'incident-1', ticket_number: 'INC-202401-0001', status: 'new'
+    });
+    (notificationService.createNotification as jest.Mock).mockResolvedValue([{ id: 'n-1' }]);
+  });
+
+  it('should checkpoint every step and serve finished executions from the store', async () => {
+    const engine = new PlaybookExecutionEngine();
+    const execution = await settle(engine, () => (
+      engine.execute(playbook, 'user-1', { recipients: ['user-2'] })
+    ));
+
+    expect(execution.status).toBe(ExecutionStatus.COMPLETED);
+    // Created, running, then a start and end checkpoint for each of four steps
+    expect(writes).toEqual(['create', ...Array(10).fill('update')]);
+
+    const record = records.get(execution.id);
+    expect(record).toMatchObject({
+      playbookId: 'playbook-1',
+      playbookName: 'Phishing response',
+      status: 'success',
+      triggeredBy: 'user-1',
+      result: { create: { ticket_number: 'INC-202401-0001' } }
+    });
+    expect(record.metadata.steps.map((step: any) => step.key))
+      .toEqual(['create', 'loop', 'loop/0/warn', 'close']);
+
+    // A new process reads the execution back from the store
+    const restored = await new PlaybookExecutionEngine().getExecution(execution.id);
+    expect(restored.status).toBe(ExecutionStatus.COMPLETED);
+    expect(restored.steps[0].started_at).toBeInstanceOf(Date);
+  });
+
+  it('should retry from the failed step with the saved context', async () => {
+    (notificationService.createNotification as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'n-1' }])
+      .mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+    const first = new PlaybookExecutionEngine();
+    const failed = await settle(first, () => (
+      first.execute(playbook, 'user-1', { recipients: ['user-2', 'user-3'] })
+    ));
+    expect(failed.status).toBe(ExecutionStatus.FAILED);
+    expect(records.get(failed.id))
+      .toMatchObject({ status: 'failed', errorMessage: 'SMTP unavailable' });
+
+    // Retried after a restart
+    const second = new PlaybookExecutionEngine();
+    const retried = await settle(second, () => second.retry(failed.id));
+
+    expect(retried.status).toBe(ExecutionStatus.COMPLETED);
+    expect(retried.attempts).toBe(2);
+    expect(incidentService.createIncident).toHaveBeenCalledTimes(1);
+
+    const messages = (notificationService.createNotification as jest.Mock).mock.calls
+      .map(([input]) => [input.user_ids, input.message]);
+    expect(messages).toEqual([
+      [['user-2'], 'See INC-202401-0001'],
+      [['user-3'], 'See INC-202401-0001'],
+      [['user-3'], 'See INC-202401-0001'],
+      [['user-1'], 'Done INC-202401-0001']
+    ]);
+    expect(retried.steps.filter(step => step.status === ExecutionStatus.FAILED)
+      .map(step => [step.key, step.attempt])).toEqual([['loop', 1], ['loop/1/warn', 1]]);
+    expect(records.get(failed.id).status).toBe('success');
+  });
+
+  it('should resume interrupted executions at startup', async () => {
+    records.set('execution-1', {
+      id: 'execution-1',
+      playbookId: playbook.id,
+      playbookName: playbook.name,
+      status: 'running',
+      triggeredBy: 'user-1',
+      startedAt: new Date().toISOString(),
+      metadata: {
+        playbook,
+        trigger_data: { recipients: [] },
+        attempts: 1,
+        steps: [
+          {
+            key: 'create',
+            component_id: 'create',
+            component_name: 'create',
+            status: ExecutionStatus.COMPLETED,
+            output: { incident_id: 'incident-9', ticket_number: 'INC-202401-0009' }
+          },
+          { key: 'loop', component_id: 'loop', component_name: 'loop', status: 'running' }
+        ]
+      }
+    });
+    records.set('execution-2', {
+      id: 'execution-2', status: 'pending', startedAt: new Date().toISOString(), metadata: {}
+    });
+
+    const engine = new PlaybookExecutionEngine();
+    const completed = new Promise<PlaybookExecution>(resolve => {
+      engine.once('execution:completed', resolve);
+    });
+
+    expect(await engine.recoverExecutions())
+      .toEqual({ resumed: ['execution-1'], failed: ['execution-2'], waiting: [] });
+
+    const resumed = await completed;
+    expect(incidentService.createIncident).not.toHaveBeenCalled();
+    expect(notificationService.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Done INC-202401-0009' }),
+      'user-1'
+    );
+    expect(resumed.steps[1]).toMatchObject({ status: 'failed', error: 'Interrupted by a restart' });
+    expect(records.get('execution-2'))
+      .toMatchObject({ status: 'failed', errorMessage: 'Interrupted by a restart' });
+  });
+
+  it('should only retry failed executions through the API', async () => {
+    const execution = await settle(executionEngine, () => (
+      executionEngine.execute(playbook, 'user-1', { recipients: [] })
+    ));
+
+    const conflict = response();
+    await playbookController.retryExecution(
+      { params: { executionId: execution.id } } as any, conflict as any, jest.fn()
+    );
+    expect(conflict.status).toHaveBeenCalledWith(409);
+
+    const missing = response();
+    await playbookController.retryExecution(
+      { params: { executionId: 'unknown' } } as any, missing as any, jest.fn()
+    );
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Playbook Execution Engine Tests
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { PlaybookExecutionEngine } from '../execution-engine';
+import * as addresses from '../../ioc-management/utils/addresses';
+import incidentService from '../../incident-response/services/incidentService';
+import iocService from '../../ioc-management/services/iocService';
+import { notificationService } from '../../notifications/service';
+import { aiService } from '../../ai/service';
+import { executionStore } from '../execution-store';
+import { ActionType, ComponentType, ExecutionStatus, PlaybookStatus, TriggerType } from '../types';
+import type { Playbook, PlaybookComponent, PlaybookExecution } from '../types';
+
+jest.mock('../../incident-response/services/incidentService', () => ({
+  __esModule: true,
+  default: { createIncident: jest.fn(), updateIncident: jest.fn() }
+}));
+
+jest.mock('../../ioc-management/services/iocService', () => ({
+  __esModule: true,
+  default: {
+    checkIndicator: jest.fn(),
+    enrichIoC: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    search: jest.fn()
+  }
+}));
+
+jest.mock('../../notifications/service', () => ({
+  notificationService: { createNotification: jest.fn() }
+}));
+
+jest.mock('../../ai/service', () => ({
+  aiService: { analyzeThreat: jest.fn(), summarize: jest.fn(), extractIOCs: jest.fn() }
+}));
+
+jest.mock('../../stix/exporter', () => ({
+  stixExporter: { exportEntities: jest.fn() }
+}));
+
+jest.mock('../execution-store', () => ({
+  executionStore: { create: jest.fn(), save: jest.fn(), load: jest.fn() }
+}));
+
+const trigger = (next: string[]): PlaybookComponent => ({
+  id: 'trigger',
+  type: ComponentType.TRIGGER,
+  name: 'Trigger',
+  config: { triggerType: TriggerType.MANUAL },
+  position: { x: 0, y: 0 },
+  next
+});
+
+const action = (
+  id: string,
+  actionType: ActionType,
+  parameters: Record<string, any>,
+  next?: string[]
+): PlaybookComponent => ({
+  id,
+  type: ComponentType.ACTION,
+  name: id,
+  config: { actionType, parameters },
+  position: { x: 0, y: 0 },
+  next
+});
+
+const playbook = (components: PlaybookComponent[]): Playbook => ({
+  id: 'playbook-1',
+  name: 'Test playbook',
+  status: PlaybookStatus.ACTIVE,
+  components,
+  created_by: 'user-1',
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+describe('PlaybookExecutionEngine', () => {
+  let engine: PlaybookExecutionEngine;
+
+  const run = (definition: Playbook, triggerData?: any) => (
+    new Promise<PlaybookExecution>(resolve => {
+      engine.once('execution:completed', resolve);
+      engine.once('execution:failed', resolve);
+      engine.execute(definition, 'user-1', triggerData);
+    })
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    engine = new PlaybookExecutionEngine();
+    (incidentService.createIncident as jest.Mock).mockResolvedValue({
+      id: 'incident-1', ticket_number: 'INC-202401-0001', status: 'new'
+    });
+    (notificationService.createNotification as jest.Mock)
+      .mockResolvedValue([{ id: 'notification-1' }]);
+  });
+
+  it('should call the real services and pass step outputs to later steps', async () => {
+    const execution = await run(playbook([
+      trigger(['create']),
+      action('create', ActionType.CREATE_INCIDENT, {
+        title: 'Phishing from {{sender}}', severity: 'high', category: 'phishing'
+      }, ['notify']),
+      action('notify', ActionType.SEND_NOTIFICATION, {
+        message: 'Opened {{steps.create.ticket_number}}',
+        entity_type: 'incident',
+        entity_id: '{{steps.create.incident_id}}'
+      })
+    ]), { sender: 'attacker@example.com' });
+
+    expect(execution.status).toBe(ExecutionStatus.COMPLETED);
+    expect(incidentService.createIncident).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Phishing from attacker@example.com',
+      severity: 'high',
+      category: 'phishing',
+      reported_by: 'user-1'
+    }));
+    expect(notificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Opened INC-202401-0001',
+      entity_id: 'incident-1',
+      user_ids: ['user-1']
+    }), 'user-1');
+    expect(execution.steps.map(step => step.output)).toEqual([
+      { incident_id: 'incident-1', ticket_number: 'INC-202401-0001', status: 'new' },
+      { sent: true, notification_ids: ['notification-1'] }
+    ]);
+  });
+
+  it('should only pass incident fields a playbook may set', async () => {
+    const execution = await run(playbook([
+      trigger(['create']),
+      action('create', ActionType.CREATE_INCIDENT, {
+        title: 'Phishing', tags: ['email'], status: 'closed', reported_by: 'someone-else', sla: {}
+      })
+    ]));
+
+    expect(execution.status).toBe(ExecutionStatus.COMPLETED);
+    const [incident] = (incidentService.createIncident as jest.Mock).mock.calls[0];
+    expect(incident).toMatchObject({ title: 'Phishing', tags: ['email'], reported_by: 'user-1' });
+    expect(incident).not.toHaveProperty('status');
+    expect(incident).not.toHaveProperty('sla');
+  });
+
+  it.each([
+    ['http://169.254.169.254/latest/meta-data/', '169.254.169.254 is a private or reserved address'],
+    ['http://[::ffff:127.0.0.1]:8080/', '::ffff:7f00:1 is a private or reserved address'],
+    ['http://localhost:9/', 'Refusing to connect to localhost'],
+    ['file:///etc/passwd', 'Unsupported URL protocol: file:']
+  ])('should refuse HTTP requests to %s', async (url, error) => {
+    const execution = await run(playbook([
+      trigger(['call']),
+      action('call', ActionType.HTTP_REQUEST, { url })
+    ]));
+
+    expect(execution.status).toBe(ExecutionStatus.FAILED);
+    expect(execution.error).toContain(error);
+  });
+
+  it('should refuse redirects to internal addresses', async () => {
+    jest.spyOn(addresses, 'isReservedIP').mockImplementation(ip => ip === '127.0.0.2');
+    const requested: string[] = [];
+    const server = http.createServer((req, res) => {
+      requested.push(`${req.headers.host}${req.url}`);
+      const { port } = server.address() as AddressInfo;
+      res.writeHead(302, { Location: `http://127.0.0.2:${port}/internal` }).end();
+    });
+    await new Promise<void>(resolve => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const execution = await run(playbook([
+        trigger(['call']),
+        action('call', ActionType.HTTP_REQUEST, { url: `http://127.0.0.1:${port}/start` })
+      ]));
+
+      expect(execution.status).toBe(ExecutionStatus.FAILED);
+      expect(execution.error).toContain('127.0.0.2 is a private or reserved address');
+      expect(requested).toEqual([`127.0.0.1:${port}/start`]);
+    } finally {
+      await new Promise(resolve => {
+        server.close(resolve);
+      });
+    }
+  });
+
+  it('should run the loop body once per item with a scoped item variable', async () => {
+    (iocService.checkIndicator as jest.Mock).mockImplementation(async (value: string) => ({
+      found: true, indicator: { id: `ioc-${value}` }
+    }));
+    (iocService.enrichIoC as jest.Mock).mockImplementation(async (id: string) => ({
+      id, enrichment: { source: 'test' }
+    }));
+
+    const execution = await run(playbook([
+      trigger(['loop']),
+      {
+        id: 'loop',
+        type: ComponentType.LOOP,
+        name: 'Each IP',
+        config: { collection: 'alert.ips', itemVariable: 'ip', body: ['enrich'] },
+        position: { x: 0, y: 0 },
+        next: ['summary']
+      },
+      action('enrich', ActionType.ENRICH_IOC, { value: '{{ip}}', type: 'ip' }),
+      action('summary', ActionType.SEND_NOTIFICATION, { message: 'Enriched {{steps.loop}}' })
+    ]), { alert: { ips: ['10.0.0.1', '10.0.0.2'] } });
+
+    expect(execution.status).toBe(ExecutionStatus.COMPLETED);
+    expect(iocService.checkIndicator).toHaveBeenNthCalledWith(1, '10.0.0.1', 'ip');
+    expect(iocService.checkIndicator).toHaveBeenNthCalledWith(2, '10.0.0.2', 'ip');
+
+    const loopStep = execution.steps.find(step => step.component_id === 'loop');
+    expect(loopStep.output).toEqual([
+      { enrich: { enriched: true, ioc_id: 'ioc-10.0.0.1', enrichment: { source: 'test' } } },
+      { enrich: { enriched: true, ioc_id: 'ioc-10.0.0.2', enrichment: { source: 'test' } } }
+    ]);
+    expect((notificationService.createNotification as jest.Mock).mock.calls[0][0].message)
+      .toContain('ioc-10.0.0.2');
+  });
+
+  it('should fail a loop over a non-array variable', async () => {
+    const execution = await run(playbook([
+      trigger(['loop']),
+      {
+        id: 'loop',
+        type: ComponentType.LOOP,
+        name: 'Each IP',
+        config: { collection: 'missing', itemVariable: 'ip', body: [] },
+        position: { x: 0, y: 0 }
+      }
+    ]));
+
+    expect(execution.status).toBe(ExecutionStatus.FAILED);
+    expect(execution.error).toBe("Loop collection 'missing' is not an array");
+  });
+
+  it('should join parallel branches and merge their outputs', async () => {
+    (aiService.analyzeThreat as jest.Mock).mockResolvedValue('Likely commodity malware');
+
+    const execution = await run(playbook([
+      trigger(['fan-out']),
+      {
+        id: 'fan-out',
+        type: ComponentType.PARALLEL,
+        name: 'Fan out',
+        config: { branches: [['create'], ['analyze']] },
+        position: { x: 0, y: 0 },
+        next: ['notify']
+      },
+      action('create', ActionType.CREATE_INCIDENT, { title: 'Malware' }),
+      action('analyze', ActionType.AI_ANALYSIS, { data: '{{sample}}' }),
+      action('notify', ActionType.SEND_NOTIFICATION, {
+        message: '{{steps.create.ticket_number}}: {{steps.analyze.analysis}}'
+      })
+    ]), { sample: { family: 'emotet' } });
+
+    expect(execution.status).toBe(ExecutionStatus.COMPLETED);
+    expect(aiService.analyzeThreat).toHaveBeenCalledWith({ family: 'emotet' });
+    expect((notificationService.createNotification as jest.Mock).mock.calls[0][0].message)
+      .toBe('INC-202401-0001: Likely commodity malware');
+  });
+
+  it('should wait for all branches before failing in wait_all mode', async () => {
+    (incidentService.createIncident as jest.Mock)
+      .mockRejectedValue(new Error('Database unavailable'));
+
+    const execution = await run(playbook([
+      trigger(['fan-out']),
+      {
+        id: 'fan-out',
+        type: ComponentType.PARALLEL,
+        name: 'Fan out',
+        config: { branches: [['create'], ['first', 'second']], mode: 'wait_all' },
+        position: { x: 0, y: 0 }
+      },
+      action('create', ActionType.CREATE_INCIDENT, { title: 'Malware' }),
+      action('first', ActionType.SEND_NOTIFICATION, { message: 'one' }),
+      action('second', ActionType.SEND_NOTIFICATION, { message: 'two' })
+    ]));
+
+    expect(execution.status).toBe(ExecutionStatus.FAILED);
+    expect(execution.error).toContain('1 of 2 parallel branches failed: Database unavailable');
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop sibling branches in fail_fast mode', async () => {
+    (incidentService.createIncident as jest.Mock)
+      .mockRejectedValue(new Error('Database unavailable'));
+    (notificationService.createNotification as jest.Mock).mockImplementationOnce(() => (
+      new Promise(resolve => setTimeout(() => resolve([{ id: 'notification-1' }]), 20))
+    ));
+
+    const execution = await run(playbook([
+      trigger(['fan-out']),
+      {
+        id: 'fan-out',
+        type: ComponentType.PARALLEL,
+        name: 'Fan out',
+        config: { branches: [['create'], ['first', 'second']], mode: 'fail_fast' },
+        position: { x: 0, y: 0 }
+      },
+      action('create', ActionType.CREATE_INCIDENT, { title: 'Malware' }),
+      action('first', ActionType.SEND_NOTIFICATION, { message: 'one' }),
+      action('second', ActionType.SEND_NOTIFICATION, { message: 'two' })
+    ]));
+
+    // The step fails once the slow branch has stopped, so nothing saves after the end
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(execution.status).toBe(ExecutionStatus.FAILED);
+    expect(execution.error).toBe('Database unavailable');
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(1);
+    expect(execution.steps.find(step => step.component_id === 'first')?.status)
+      .toBe(ExecutionStatus.COMPLETED);
+    const saves = (executionStore.save as jest.Mock).mock.calls;
+    expect(saves.every(([, savedPlaybook]) => savedPlaybook)).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Playbook Condition Expression Tests
+ */
+
+import { parseExpression, ExpressionError } from '../expression-parser';
+import { evaluateCondition, evaluateExpression } from '../expression-evaluator';
+import { playbookController } from '../controller';
+import { ComponentType } from '../types';
+
+jest.mock('../actions', () => ({
+  playbookActions: { execute: jest.fn() }
+}));
+
+jest.mock('../execution-store', () => ({ executionStore: {} }));
+
+const variables = {
+  trigger: { severity: 'high', count: 7, source_ip: '10.1.2.3', tags: ['phishing', 'finance'] },
+  steps: {
+    lookup: { found: true, results: [{ score: 91 }, { score: 40 }] },
+    notify: null
+  }
+};
+
+const errorOf = (expression: string): ExpressionError => {
+  try {
+    parseExpression(expression);
+  } catch (error) {
+    return error as ExpressionError;
+  }
+  throw new Error(`Expected '${expression}' to be rejected`);
+};
+
+describe('Condition expressions', () => {
+  it('should evaluate comparisons, boolean logic and path access', () => {
+    expect(evaluateCondition('trigger.severity == \'high\' and trigger.count >= 5', variables))
+      .toBe(true);
+    expect(evaluateCondition(
+      'steps.lookup.results[0].score > 90 && !steps.lookup.found',
+      variables
+    )).toBe(false);
+    expect(evaluateCondition('(trigger.count < 3 or steps.lookup.found) and not false', variables))
+      .toBe(true);
+    expect(evaluateCondition('trigger["severity"] != "low"', variables)).toBe(true);
+    expect(evaluateExpression('steps.lookup.results', variables)).toHaveLength(2);
+  });
+
+  it('should provide in, contains, matches and helper functions', () => {
+    expect(evaluateCondition('trigger.severity in [\'high\', \'critical\']', variables)).toBe(true);
+    expect(evaluateCondition('\'finance\' not in trigger.tags', variables)).toBe(false);
+    expect(evaluateCondition('trigger.tags contains \'phishing\'', variables)).toBe(true);
+    expect(evaluateCondition('trigger.source_ip matches \'^10\\.\'', variables)).toBe(true);
+    expect(evaluateCondition(
+      'len(steps.lookup.results) == 2 and exists(trigger.severity)',
+      variables
+    )).toBe(true);
+    expect(evaluateCondition('startsWith(upper(trigger.severity), \'HI\')', variables)).toBe(true);
+    expect(evaluateCondition('contains(lower(\'ABC\'), \'b\')', variables)).toBe(true);
+  });
+
+  it('should treat missing values as null without coercing types', () => {
+    expect(evaluateCondition('trigger.missing == null and steps.notify == null', variables))
+      .toBe(true);
+    expect(evaluateCondition('trigger.missing > 3', variables)).toBe(false);
+    expect(evaluateCondition('trigger.missing', variables)).toBe(false);
+    expect(evaluateCondition('trigger.count == \'7\'', variables)).toBe(false);
+
+    expect(() => evaluateCondition('trigger.count > \'5\'', variables))
+      .toThrow('Cannot compare number with string using \'>\' at position 0');
+    expect(() => evaluateCondition('trigger.count and true', variables))
+      .toThrow('Expected a boolean but found number at position 0');
+    expect(() => evaluateCondition('trigger.tags', variables)).toThrow(ExpressionError);
+  });
+
+  it('should not reach prototypes or run code', () => {
+    expect(evaluateExpression('trigger.constructor', variables)).toBeUndefined();
+    expect(evaluateExpression('trigger.__proto__', variables)).toBeUndefined();
+    expect(evaluateExpression('trigger.tags.constructor', variables)).toBeUndefined();
+    expect(evaluateExpression('toString', variables)).toBeUndefined();
+
+    expect(errorOf('process.exit(1)').message)
+      .toBe('Expected end of expression but found \'(\' at position 12');
+    expect(errorOf('require(\'fs\')').message).toBe('Unknown function \'require\' at position 0');
+    expect(errorOf('constructor(\'return 1\')').message).toContain('Unknown function');
+  });
+
+  it('should report syntax errors with positions', () => {
+    expect(errorOf('trigger.count = 5')).toMatchObject({ position: 14 });
+    expect(errorOf('trigger.count > ').message)
+      .toBe('Expected a value but found end of expression at position 16');
+    expect(errorOf('(a == 1').message)
+      .toBe('Expected \')\' but found end of expression at position 7');
+    expect(errorOf('a == \'open').message).toBe('Unterminated string literal at position 5');
+    expect(errorOf('len(a, b)').message).toBe('len() takes 1 argument at position 0');
+    expect(errorOf('a & b').position).toBe(2);
+    expect(errorOf('').message).toBe('Expression is empty at position 0');
+    expect(errorOf(`${'('.repeat(40)}a${')'.repeat(40)}`).message).toContain('nested more than');
+  });
+
+  it('should reject unsafe regular expressions', () => {
+    expect(errorOf('a matches \'(a+)+$\'').message)
+      .toBe('Regular expression has nested quantifiers at position 10');
+    expect(errorOf('matches(a, \'[\')').message).toContain('Invalid regular expression');
+    expect(() => evaluateCondition('a matches b', { a: 'aaaa', b: '(\\w*)*' }))
+      .toThrow('nested quantifiers');
+  });
+});
+
+describe('Playbook validation on save', () => {
+  const res = () => ({ status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() });
+  const condition = (id: string, expression: string) => ({
+    id, type: ComponentType.CONDITION, name: id, config: { expression }, position: { x: 0, y: 0 }
+  });
+
+  it('should reject condition expressions with their component and position', async () => {
+    const response = res();
+    await playbookController.create({
+      body: { name: 'Bad', components: [condition('ok', 'a == 1'), condition('bad', 'a ==')] },
+      user: { id: 'user-1' }
+    } as any, response as any, jest.fn());
+
+    expect(response.status).toHaveBeenCalledWith(400);
+    expect(response.json).toHaveBeenCalledWith({
+      success: false,
+      error: 'Invalid condition expression',
+      details: [{
+        component_id: 'bad',
+        message: 'Expected a value but found end of expression at position 4',
+        position: 4
+      }]
+    });
+  });
+
+  it('should accept valid playbooks', async () => {
+    const response = res();
+    await playbookController.create({
+      body: { name: 'Good', components: [condition('ok', 'steps.lookup.found')] },
+      user: { id: 'user-1' }
+    } as any, response as any, jest.fn());
+
+    expect(response.status).toHaveBeenCalledWith(201);
+  });
+});
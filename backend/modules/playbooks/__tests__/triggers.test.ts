@@ -0,0 +1,231 @@
+/**
+ * Playbook Trigger Tests
+ */
+
+import { PlaybookTriggers, validateTriggers } from '../triggers';
+import { parseCron, nextRun } from '../cron';
+import { executionEngine } from '../execution-engine';
+import { evaluateCondition } from '../expression-evaluator';
+import Incident from '../../incident-response/models/Incident';
+import incidentService from '../../incident-response/services/incidentService';
+import iocService from '../../ioc-management/services/iocService';
+import siemService from '../../siem/services/siemService';
+import { ComponentType, PlaybookStatus, TriggerEvent, TriggerType } from '../types';
+import type { Playbook, TriggerConfig } from '../types';
+
+jest.mock('../execution-engine', () => ({
+  executionEngine: { execute: jest.fn() }
+}));
+
+jest.mock('../../incident-response/services/incidentService', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return { __esModule: true, default: new EventEmitter() };
+});
+jest.mock('../../ioc-management/services/iocService', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return { __esModule: true, default: new EventEmitter() };
+});
+jest.mock('../../siem/services/siemService', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return { __esModule: true, default: new EventEmitter() };
+});
+
+const execute = executionEngine.execute as jest.Mock;
+
+const playbook = (id: string, config: Partial<TriggerConfig>): Playbook => ({
+  id,
+  name: id,
+  status: PlaybookStatus.ACTIVE,
+  created_by: 'author-1',
+  created_at: new Date(),
+  updated_at: new Date(),
+  components: [{
+    id: 'trigger',
+    type: ComponentType.TRIGGER,
+    name: 'Trigger',
+    config: { triggerType: TriggerType.EVENT, ...config } as TriggerConfig,
+    position: { x: 0, y: 0 }
+  }]
+});
+
+const severity = (...values: string[]) => ({
+  mode: 'and' as const,
+  filters: [{ key: 'severity', operator: 'eq' as const, values }],
+  filterGroups: []
+});
+
+// Like a mongoose document
+const incident = (id: string, value: string) => ({
+  toObject: () => ({ id, severity: value }),
+  id
+});
+
+const runs = () => execute.mock.calls.map(([{ id }, user, data]) => [id, user, data]);
+
+describe('Cron schedules', () => {
+  const after = new Date('2024-03-15T10:17:30Z'); // A Friday
+
+  it('should find the next matching minute in UTC', () => {
+    const next = (expression: string) => nextRun(parseCron(expression), after).toISOString();
+
+    expect(next('* * * * *')).toBe('2024-03-15T10:18:00.000Z');
+    expect(next('*/15 * * * *')).toBe('2024-03-15T10:30:00.000Z');
+    expect(next('0 9-17/4 * * *')).toBe('2024-03-15T13:00:00.000Z');
+    expect(next('30 2 * * MON,wed')).toBe('2024-03-18T02:30:00.000Z');
+    expect(next('0 0 1 jan *')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 12 * * 7')).toBe('2024-03-17T12:00:00.000Z');
+    // Either day field may match when both are restricted
+    expect(next('0 0 20 * 6')).toBe('2024-03-16T00:00:00.000Z');
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('Invalid minute \'60\'');
+    expect(() => parseCron('* * * FOO *')).toThrow('Invalid month \'FOO\'');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid range');
+    expect(() => nextRun(parseCron('0 0 31 2 *'), after)).toThrow('never matches');
+  });
+});
+
+describe('Playbook triggers', () => {
+  let triggers: PlaybookTriggers;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-15T10:17:30Z') });
+    execute.mockResolvedValue({ id: 'execution-1' });
+    triggers = new PlaybookTriggers();
+    triggers.start();
+  });
+
+  afterEach(() => {
+    triggers.stop();
+    jest.useRealTimers();
+  });
+
+  it('should start playbooks whose event and filters match', () => {
+    triggers.register(playbook('high', {
+      eventType: TriggerEvent.INCIDENT_CREATED, filters: severity('high', 'critical')
+    }));
+    triggers.register(playbook('escalated', { eventType: TriggerEvent.INCIDENT_SEVERITY_CHANGED }));
+    triggers.register({ ...playbook('draft', {}), status: PlaybookStatus.DRAFT });
+
+    incidentService.emit('incident:created', incident('incident-1', 'low'));
+    incidentService.emit('incident:created', incident('incident-2', 'critical'));
+    incidentService.emit('incident:severity_changed', {
+      incident: incident('incident-1', 'high'), previous_severity: 'low'
+    });
+
+    expect(runs()).toEqual([
+      ['high', 'author-1', expect.objectContaining({
+        event: 'incident.created', incident: expect.objectContaining({ id: 'incident-2' })
+      })],
+      ['escalated', 'author-1', expect.objectContaining({
+        event: 'incident.severity_changed', previous_severity: 'low'
+      })]
+    ]);
+  });
+
+  it('should pass model documents to executions as plain objects', () => {
+    triggers.register(playbook('any', { eventType: TriggerEvent.INCIDENT_CREATED }));
+
+    incidentService.emit('incident:created', new Incident({
+      title: 'Ransomware on file server',
+      description: 'Files encrypted on fs-01',
+      severity: 'high',
+      category: 'ransomware',
+      reported_by: 'user-1'
+    }));
+
+    const [[, , data]] = runs();
+    expect(data.incident).not.toBeInstanceOf(Incident);
+    expect(evaluateCondition("incident.severity == 'high'", data)).toBe(true);
+  });
+
+  it('should apply the IOC confidence threshold and SIEM alert triggers', () => {
+    triggers.register(playbook('ioc', { eventType: TriggerEvent.IOC_CREATED, minConfidence: 80 }));
+    triggers.register(playbook('alert', { eventType: TriggerEvent.SIEM_ALERT_RAISED }));
+
+    iocService.emit('ioc:created', { id: 'ioc-1', confidence: 60 });
+    iocService.emit('ioc:created', { id: 'ioc-2', confidence: 85 });
+    siemService.emit('alert:raised', { id: 'alert-1', severity: 'high' });
+
+    expect(runs().map(([id, , data]) => [id, (data.ioc || data.alert).id]))
+      .toEqual([['ioc', 'ioc-2'], ['alert', 'alert-1']]);
+  });
+
+  it('should batch events within the debounce window into one execution', () => {
+    triggers.register(playbook('batched', {
+      eventType: TriggerEvent.SIEM_ALERT_RAISED, debounce: 60
+    }));
+
+    siemService.emit('alert:raised', { id: 'alert-1' });
+    jest.advanceTimersByTime(30000);
+    siemService.emit('alert:raised', { id: 'alert-2' });
+    siemService.emit('alert:raised', { id: 'alert-3' });
+    expect(execute).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(30000);
+    siemService.emit('alert:raised', { id: 'alert-4' });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    const [[, , data]] = execute.mock.calls;
+    expect(data).toMatchObject({ alert: { id: 'alert-1' }, event_count: 3 });
+    expect(data.events.map((event: any) => event.alert.id))
+      .toEqual(['alert-1', 'alert-2', 'alert-3']);
+
+    // The fourth alert opened a new window
+    jest.advanceTimersByTime(60000);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop events over the rate limit until the window slides', () => {
+    triggers.register(playbook('limited', {
+      eventType: TriggerEvent.IOC_CREATED, rateLimit: { max: 2, window: 60 }
+    }));
+
+    ['ioc-1', 'ioc-2', 'ioc-3'].forEach(id => iocService.emit('ioc:created', { id }));
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(61000);
+    iocService.emit('ioc:created', { id: 'ioc-4' });
+    expect(runs().map(([, , data]) => data.ioc.id)).toEqual(['ioc-1', 'ioc-2', 'ioc-4']);
+  });
+
+  it('should run scheduled playbooks until they are unregistered', () => {
+    triggers.register(playbook('nightly', {
+      triggerType: TriggerType.SCHEDULED, schedule: '0 * * * *'
+    }));
+
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(runs().map(([, , data]) => data)).toEqual([
+      { event: 'schedule', scheduled_at: new Date('2024-03-15T11:00:00Z') },
+      { event: 'schedule', scheduled_at: new Date('2024-03-15T12:00:00Z') }
+    ]);
+
+    triggers.unregister('nightly');
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report invalid trigger settings', () => {
+    const [component] = playbook('bad', {
+      triggerType: TriggerType.SCHEDULED, schedule: '61 * * * *', minConfidence: 150
+    }).components;
+
+    expect(validateTriggers([component])).toEqual([
+      {
+        component_id: 'trigger',
+        message: 'Invalid minute \'61\' in cron expression \'61 * * * *\''
+      },
+      { component_id: 'trigger', message: 'minConfidence must be between 0 and 100' }
+    ]);
+    expect(validateTriggers(playbook('event', {
+      eventType: 'case.created' as TriggerEvent, filters: severity()
+    }).components)).toEqual([
+      { component_id: 'trigger', message: 'Unknown trigger event \'case.created\'' },
+      { component_id: 'trigger', message: 'Filter \'severity\' has no values' }
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Playbook Action Handlers
+ * Runs playbook actions against the platform's services
+ */
+
+import axios from 'axios';
+import incidentService from '../incident-response/services/incidentService';
+import iocService from '../ioc-management/services/iocService';
+import { notificationService } from '../notifications/service';
+import { NotificationCategory, NotificationSeverity } from '../notifications/types';
+import { aiService } from '../ai/service';
+import { ContentFormat } from '../ai/types';
+import { stixExporter } from '../stix/exporter';
+import { checkOutboundUrl, guardedRequestConfig } from './http-guard';
+import type { ExecutionContext } from './types';
+import { ActionType } from './types';
+
+type ActionHandler = (params: Record<string, any>, context: ExecutionContext) => Promise<any>;
+
+const PLAYBOOK_SOURCE = {
+  name: 'playbook',
+  reliability: 50,
+  sourceType: 'internal' as const
+};
+
+const HTTP_TIMEOUT = 30000;
+const HTTP_MAX_CONTENT_LENGTH = 1024 * 1024;
+// Response bodies larger than this are kept in step outputs as shortened text
+const HTTP_MAX_OUTPUT_LENGTH = 16 * 1024;
+
+// Incident fields a playbook may set; the rest are the incident service's to manage
+const INCIDENT_FIELDS = [
+  'title',
+  'description',
+  'severity',
+  'category',
+  'priority',
+  'assigned_to',
+  'affected_assets',
+  'related_threats',
+  'related_iocs',
+  'tags'
+];
+
+const pick = (source: Record<string, any>, keys: string[]): Record<string, any> => (
+  Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]))
+);
+
+/**
+ * Response body as kept in a step output: as parsed when small enough,
+ * otherwise the start of its text
+ */
+const outputBody = (data: any): { data: any; truncated?: boolean } => {
+  const text = typeof data === 'string' ? data : JSON.stringify(data ?? null);
+  if (text.length <= HTTP_MAX_OUTPUT_LENGTH) return { data };
+  return { data: text.slice(0, HTTP_MAX_OUTPUT_LENGTH), truncated: true };
+};
+
+export class PlaybookActions {
+  private handlers: Record<string, ActionHandler> = {
+    [ActionType.CREATE_INCIDENT]: (params, context) => this.createIncident(params, context),
+    [ActionType.UPDATE_ENTITY]: (params, context) => this.updateEntity(params, context),
+    [ActionType.SEND_NOTIFICATION]: (params, context) => this.sendNotification(params, context),
+    [ActionType.CREATE_IOC]: params => this.createIOC(params),
+    [ActionType.ENRICH_IOC]: params => this.enrichIOC(params),
+    [ActionType.RUN_QUERY]: params => this.runQuery(params),
+    [ActionType.HTTP_REQUEST]: params => this.httpRequest(params),
+    [ActionType.AI_ANALYSIS]: params => this.aiAnalysis(params),
+    [ActionType.EXPORT_DATA]: params => this.exportData(params)
+  };
+
+  /**
+   * Run an action with resolved parameters
+   */
+  async execute(
+    actionType: ActionType,
+    params: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<any> {
+    const handler = this.handlers[actionType];
+    if (!handler) {
+      throw new Error(`Unknown action type: ${actionType}`);
+    }
+    return handler(params || {}, context);
+  }
+
+  /**
+   * Open an incident reported by the user who triggered the playbook
+   */
+  private async createIncident(
+    params: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<any> {
+    if (!params.title) {
+      throw new Error('create_incident requires a title');
+    }
+
+    const incident = await incidentService.createIncident({
+      ...pick(params, INCIDENT_FIELDS),
+      description: params.description || params.title,
+      severity: params.severity || 'medium',
+      category: params.category || 'other',
+      reported_by: context.user_id,
+      metadata: { ...(params.metadata || {}), playbook_execution_id: context.execution_id }
+    });
+
+    return {
+      incident_id: incident.id,
+      ticket_number: incident.ticket_number,
+      status: incident.status
+    };
+  }
+
+  /**
+   * Update an incident or IOC
+   */
+  private async updateEntity(params: Record<string, any>, context: ExecutionContext): Promise<any> {
+    const { entity_type: entityType, entity_id: entityId, updates = {} } = params;
+
+    switch (entityType) {
+      case 'incident':
+        await incidentService.updateIncident(entityId, updates, context.user_id);
+        break;
+      case 'ioc':
+        await iocService.update(entityId, updates);
+        break;
+      default:
+        throw new Error(`Unsupported entity type for update_entity: ${entityType}`);
+    }
+
+    return { updated: true, entity_type: entityType, entity_id: entityId };
+  }
+
+  /**
+   * Notify users, defaulting to the user who triggered the playbook
+   */
+  private async sendNotification(
+    params: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<any> {
+    const userIds = params.user_ids || (params.user_id ? [params.user_id] : [context.user_id]);
+
+    const notifications = await notificationService.createNotification({
+      title: params.title || 'Playbook notification',
+      message: params.message,
+      severity: params.severity || NotificationSeverity.INFO,
+      category: params.category || NotificationCategory.AUTOMATION,
+      user_ids: userIds,
+      channels: params.channels,
+      entity_type: params.entity_type,
+      entity_id: params.entity_id,
+      metadata: { playbook_execution_id: context.execution_id }
+    }, context.user_id);
+
+    return {
+      sent: notifications.length > 0,
+      notification_ids: notifications.map(notification => notification.id)
+    };
+  }
+
+  /**
+   * Create an IOC, or add the playbook as a source of an existing one
+   */
+  private async createIOC(params: Record<string, any>): Promise<any> {
+    const ioc = await iocService.create({
+      value: params.value,
+      type: params.type,
+      confidence: params.confidence,
+      severity: params.severity,
+      tags: params.tags,
+      source: PLAYBOOK_SOURCE,
+      metadata: params.metadata
+    });
+
+    return { ioc_id: ioc.id, type: ioc.type, value: ioc.value };
+  }
+
+  /**
+   * Enrich an IOC given by ID, or by value and type
+   */
+  private async enrichIOC(params: Record<string, any>): Promise<any> {
+    let iocId = params.ioc_id;
+
+    if (!iocId) {
+      const lookup = await iocService.checkIndicator(params.value || params.ioc, params.type);
+      if (!lookup.found) {
+        throw new Error(`IOC ${params.value || params.ioc} not found`);
+      }
+      iocId = lookup.indicator.id;
+    }
+
+    const ioc = await iocService.enrichIoC(iocId);
+    return { enriched: true, ioc_id: ioc.id, enrichment: ioc.enrichment };
+  }
+
+  /**
+   * Search IOCs
+   */
+  private async runQuery(params: Record<string, any>): Promise<any> {
+    const results = await iocService.search(params.query || params);
+    return { results, count: results.length };
+  }
+
+  /**
+   * Call an external HTTP endpoint; non-2xx responses fail the step. Internal
+   * addresses are refused (see ./http-guard), and only the status and the
+   * (possibly shortened) body are kept
+   */
+  private async httpRequest(params: Record<string, any>): Promise<any> {
+    if (!params.url) {
+      throw new Error('http_request requires a url');
+    }
+    const url = checkOutboundUrl(params.url);
+
+    const response = await axios.request({
+      url: url.href,
+      method: params.method || 'GET',
+      headers: params.headers,
+      params: params.query,
+      data: params.body,
+      timeout: Math.min(Number(params.timeout) || HTTP_TIMEOUT, HTTP_TIMEOUT),
+      maxContentLength: HTTP_MAX_CONTENT_LENGTH,
+      maxBodyLength: HTTP_MAX_CONTENT_LENGTH,
+      ...guardedRequestConfig
+    });
+
+    return { status: response.status, ...outputBody(response.data) };
+  }
+
+  /**
+   * Run an AI analysis of playbook data
+   */
+  private async aiAnalysis(params: Record<string, any>): Promise<any> {
+    const input = params.data ?? params.content ?? params.text;
+
+    switch (params.analysis || 'threat') {
+      case 'threat':
+        return { analysis: await aiService.analyzeThreat(input) };
+      case 'summary':
+        return {
+          analysis: await aiService.summarize(String(input), params.format || ContentFormat.TEXT)
+        };
+      case 'extract_iocs':
+        return { analysis: await aiService.extractIOCs(String(input)) };
+      default:
+        throw new Error(`Unsupported AI analysis: ${params.analysis}`);
+    }
+  }
+
+  /**
+   * Export stored intelligence as a STIX bundle
+   */
+  private async exportData(params: Record<string, any>): Promise<any> {
+    const { bundle, skipped } = await stixExporter.exportEntities(params);
+    return {
+      bundle_id: bundle.id,
+      object_count: bundle.objects.length,
+      bundle,
+      skipped
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const playbookActions = new PlaybookActions();
@@ -4,12 +4,43 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { executionEngine } from './execution-engine';
-import type { Playbook } from './types';
-import { PlaybookStatus } from './types';
+import { parseExpression, ExpressionError } from './expression-parser';
+import { PlaybookError } from './errors';
+import { playbookTriggers, validateTriggers } from './triggers';
+import type {
+  ConditionConfig,
+  ExpressionValidationError,
+  Playbook,
+  PlaybookComponent
+} from './types';
+import { ComponentType, ExecutionStatus, PlaybookStatus } from './types';
 
 // In-memory storage for demo (would be database in production)
 const playbooks: Map<string, Playbook> = new Map();
 
+/**
+ * Parse every condition expression up front, so authors see errors on save
+ */
+const validateConditions = (components: PlaybookComponent[]): ExpressionValidationError[] => {
+  const errors: ExpressionValidationError[] = [];
+
+  for (const component of components) {
+    if (component.type !== ComponentType.CONDITION) {
+      continue;
+    }
+    try {
+      parseExpression((component.config as ConditionConfig)?.expression);
+    } catch (error: any) {
+      if (!(error instanceof ExpressionError)) {
+        throw error;
+      }
+      errors.push({ component_id: component.id, message: error.message, position: error.position });
+    }
+  }
+
+  return errors;
+};
+
 export class PlaybookController {
   /**
    * Create a new playbook
@@ -26,6 +57,10 @@ export class PlaybookController {
         return;
       }
 
+      if (!this.checkConditions(components, res) || !this.checkTriggers(components, res)) {
+        return;
+      }
+
       const playbook: Playbook = {
         id: `playbook-${Date.now()}`,
         name,
@@ -39,6 +74,7 @@ export class PlaybookController {
       };
 
       playbooks.set(playbook.id, playbook);
+      playbookTriggers.register(playbook);
 
       res.status(201).json({
         success: true,
@@ -106,12 +142,18 @@ export class PlaybookController {
 
       const { name, description, components, status, tags } = req.body;
 
+      if (components
+        && (!this.checkConditions(components, res) || !this.checkTriggers(components, res))) {
+        return;
+      }
+
       if (name) playbook.name = name;
       if (description !== undefined) playbook.description = description;
       if (components) playbook.components = components;
       if (status) playbook.status = status;
       if (tags) playbook.tags = tags;
       playbook.updated_at = new Date();
+      playbookTriggers.register(playbook);
 
       res.json({
         success: true,
@@ -128,6 +170,7 @@ export class PlaybookController {
   async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const deleted = playbooks.delete(req.params.id);
+      playbookTriggers.unregister(req.params.id);
 
       if (!deleted) {
         res.status(404).json({
@@ -191,7 +234,7 @@ export class PlaybookController {
    */
   async getExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const execution = executionEngine.getExecution(req.params.executionId);
+      const execution = await executionEngine.getExecution(req.params.executionId);
 
       if (!execution) {
         res.status(404).json({
@@ -210,6 +253,54 @@ export class PlaybookController {
     }
   }
 
+  /**
+   * Retry a failed execution from the failed component, with the saved context
+   */
+  async retryExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const execution = await executionEngine.getExecution(req.params.executionId);
+
+      if (!execution) {
+        res.status(404).json({
+          success: false,
+          error: 'Execution not found'
+        });
+        return;
+      }
+
+      if (execution.status !== ExecutionStatus.FAILED) {
+        res.status(409).json({
+          success: false,
+          error: `Only failed executions can be retried, this one is ${execution.status}`
+        });
+        return;
+      }
+
+      const retried = await executionEngine.retry(execution.id);
+
+      res.json({
+        success: true,
+        data: retried
+      });
+    } catch (error: any) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a pending approval step
+   */
+  async approve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.decide(req, res, next, true);
+  }
+
+  /**
+   * Reject a pending approval step
+   */
+  async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await this.decide(req, res, next, false);
+  }
+
   /**
    * Cancel execution
    */
@@ -225,6 +316,74 @@ export class PlaybookController {
       next(error);
     }
   }
+
+  /**
+   * Record an approver's decision, with an optional reason
+   */
+  private async decide(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    approved: boolean
+  ): Promise<void> {
+    try {
+      const { reason, step_key: stepKey } = req.body || {};
+      const execution = await executionEngine.decide(req.params.executionId, {
+        approved,
+        userId: req.user!.id,
+        reason,
+        stepKey
+      });
+
+      res.json({
+        success: true,
+        data: execution
+      });
+    } catch (error: any) {
+      if (error instanceof PlaybookError) {
+        res.status(error.status).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Reject playbooks with invalid condition expressions, reporting each error position
+   */
+  private checkConditions(components: PlaybookComponent[], res: Response): boolean {
+    const errors = validateConditions(Array.isArray(components) ? components : []);
+    if (errors.length === 0) {
+      return true;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: 'Invalid condition expression',
+      details: errors
+    });
+    return false;
+  }
+
+  /**
+   * Reject playbooks with invalid trigger schedules, events or filters
+   */
+  private checkTriggers(components: PlaybookComponent[], res: Response): boolean {
+    const errors = validateTriggers(Array.isArray(components) ? components : []);
+    if (errors.length === 0) {
+      return true;
+    }
+
+    res.status(400).json({
+      success: false,
+      error: 'Invalid trigger',
+      details: errors
+    });
+    return false;
+  }
 }
 
 export const playbookController = new PlaybookController();
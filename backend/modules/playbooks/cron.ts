@@ -0,0 +1,150 @@
+/**
+ * Cron Schedules
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), in UTC.
+ * Fields accept `*`, numbers, names (JAN, MON), ranges, lists and `/step`.
+ */
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+  },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+// Give up looking for a matching time after this many years, e.g. for 30 February
+const SEARCH_YEARS = 5;
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either one may match
+  anyDay: boolean;
+}
+
+const parseValue = (value: string, field: FieldSpec, expression: string): number => {
+  const index = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  const number = index >= 0 ? index + (field.name === 'month' ? 1 : 0) : Number(value);
+
+  const valid = /^\w+$/.test(value) && Number.isInteger(number);
+  if (!valid || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} '${value}' in cron expression '${expression}'`);
+  }
+  return number;
+};
+
+const parseField = (source: string, field: FieldSpec, expression: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range, stepSource] = part.split('/');
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step '${stepSource}' in cron expression '${expression}'`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [first, last] = range.split('-');
+      start = parseValue(first, field, expression);
+      // A single value with a step, such as 5/15, runs to the end of the range
+      if (last !== undefined) {
+        end = parseValue(last, field, expression);
+      } else if (stepSource === undefined) {
+        end = start;
+      }
+    }
+    if (start > end) {
+      throw new Error(`Invalid range '${range}' in cron expression '${expression}'`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a cron expression
+ * @throws Error naming the invalid field
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = String(expression || '').trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression '${expression}' must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (source, index) => parseField(source, FIELDS[index], expression)
+  );
+
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: fields[2] !== '*' && fields[4] !== '*'
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+};
+
+/**
+ * First time strictly after `after` that matches the schedule
+ */
+export const nextRun = (schedule: CronSchedule, after: Date = new Date()): Date => {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that cannot match before stepping minutes
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression '${schedule.expression}' never matches`);
+};
@@ -0,0 +1,16 @@
+/**
+ * Playbook Errors
+ */
+
+/**
+ * Error carrying the HTTP status to answer a request with
+ */
+export class PlaybookError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'PlaybookError';
+    this.status = status;
+  }
+}
@@ -14,12 +14,56 @@ import type {
   PlaybookComponent,
   ActionConfig,
   ConditionConfig,
-  ActionType
+  LoopConfig,
+  ParallelConfig,
+  ApprovalConfig,
+  ApprovalDecision,
+  WaitConfig
 } from './types';
 import { ExecutionStatus as Status, ComponentType } from './types';
+import { playbookActions } from './actions';
+import { evaluateCondition } from './expression-evaluator';
+import { executionStore } from './execution-store';
+import type { StoredExecution } from './execution-store';
+import { PlaybookError } from './errors';
+import { notificationService } from '../notifications/service';
+import { NotificationCategory, NotificationSeverity } from '../notifications/types';
+import { createModuleLogger } from '../../utils/logger';
 
+const DEFAULT_MAX_ITERATIONS = 1000;
+
+const INTERRUPTED = 'Interrupted by a restart';
+
+// Longest delay setTimeout supports; longer waits are re-armed when it fires
+const MAX_TIMER_DELAY = 2147483647;
+
+// Thrown to unwind a run when a step starts waiting; not a failure
+const SUSPENDED = new Error('Execution suspended');
+
+const logger = createModuleLogger('playbooks');
+
+/**
+ * Read a dotted path such as `steps.lookup.results` from variables
+ */
+const getPath = (source: any, path: string): any => path
+  .split('.')
+  .reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), source);
+
+/**
+ * Executions are checkpointed to the execution store after every status and
+ * step change. Live executions are also kept in memory until they finish.
+ *
+ * Approval and wait steps suspend an execution: the run unwinds, the execution is
+ * stored as waiting and leaves memory, and only a timer for its next deadline is kept.
+ * A decision or deadline continues it by replaying its completed steps.
+ */
 export class PlaybookExecutionEngine extends EventEmitter {
   private executions: Map<string, PlaybookExecution> = new Map();
+  private playbooks: Map<string, Playbook> = new Map();
+  private aborts: Map<string, { aborted: boolean }> = new Map();
+  private checkpoints: Map<string, Promise<void>> = new Map();
+  private replays: Map<string, Map<string, ExecutionStep>> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
 
   /**
    * Execute a playbook
@@ -32,70 +76,248 @@ export class PlaybookExecutionEngine extends EventEmitter {
     const execution: PlaybookExecution = {
       id: uuidv4(),
       playbook_id: playbook.id,
+      playbook_name: playbook.name,
       status: Status.PENDING,
       started_at: new Date(),
       triggered_by: triggeredBy,
       trigger_data: triggerData,
-      steps: []
+      steps: [],
+      attempts: 1
     };
 
-    this.executions.set(execution.id, execution);
+    await executionStore.create(execution, playbook);
+    this.track(execution, playbook);
     this.emit('execution:created', execution);
 
     // Start execution in background
-    this.executePlaybook(playbook, execution).catch(error => {
-      execution.status = Status.FAILED;
-      execution.error = error.message;
-      execution.completed_at = new Date();
-      this.emit('execution:failed', execution, error);
+    this.run(playbook, execution);
+
+    return execution;
+  }
+
+  /**
+   * Retry a failed execution from the component that failed.
+   * Steps completed by earlier attempts are not run again; their saved outputs are
+   * replayed so later steps see the same context.
+   */
+  async retry(executionId: string): Promise<PlaybookExecution> {
+    const stored = await this.load(executionId);
+    if (!stored) {
+      throw new Error('Execution not found');
+    }
+    if (stored.execution.status !== Status.FAILED) {
+      throw new Error('Only failed executions can be retried');
+    }
+    if (!stored.playbook) {
+      throw new Error('The playbook definition of this execution was not saved');
+    }
+
+    this.resume(stored.execution, stored.playbook);
+    return stored.execution;
+  }
+
+  /**
+   * Recover executions left pending or running by a previous process.
+   * Steps that were running are marked failed, since their effects are unknown;
+   * executions are then resumed from those steps, or marked failed when `resume` is off.
+   * Timers of waiting executions are re-armed.
+   */
+  async recoverExecutions(
+    options: { resume?: boolean } = {}
+  ): Promise<{ resumed: string[]; failed: string[]; waiting: string[] }> {
+    const { resume = true } = options;
+    const resumed: string[] = [];
+    const failed: string[] = [];
+    const waiting: string[] = [];
+
+    for (const { execution, playbook } of await executionStore.findInterrupted()) {
+      if (this.executions.has(execution.id)) {
+        continue;
+      }
+
+      execution.steps
+        .filter(step => step.status === Status.RUNNING)
+        .forEach(step => {
+          step.status = Status.FAILED;
+          step.error = INTERRUPTED;
+        });
+
+      if (resume && playbook) {
+        this.resume(execution, playbook);
+        resumed.push(execution.id);
+      } else {
+        execution.status = Status.FAILED;
+        execution.error = INTERRUPTED;
+        execution.completed_at = new Date();
+        await executionStore.save(execution, playbook);
+        failed.push(execution.id);
+      }
+    }
+
+    for (const { execution } of await executionStore.findWaiting()) {
+      if (!this.executions.has(execution.id)) {
+        this.schedule(execution);
+        waiting.push(execution.id);
+      }
+    }
+
+    if (resumed.length > 0 || failed.length > 0) {
+      logger.info('Recovered interrupted playbook executions', { resumed, failed });
+    }
+    return { resumed, failed, waiting };
+  }
+
+  /**
+   * Approve or reject a pending approval step. Only its named approvers may decide.
+   * The step can be omitted when the execution has a single pending approval.
+   */
+  async decide(
+    executionId: string,
+    decision: { approved: boolean; userId: string; reason?: string; stepKey?: string }
+  ): Promise<PlaybookExecution> {
+    const stored = await this.load(executionId);
+    if (!stored) {
+      throw new PlaybookError(404, 'Execution not found');
+    }
+
+    const { execution, playbook } = stored;
+    const pending = this.pendingSteps(execution)
+      .filter(step => step.approval && (!decision.stepKey || step.key === decision.stepKey));
+
+    if (pending.length === 0) {
+      throw new PlaybookError(409, 'No approval is pending');
+    }
+    if (pending.length > 1) {
+      throw new PlaybookError(409, 'Several approvals are pending; name one with step_key');
+    }
+
+    const [step] = pending;
+    if (!step.approval.approvers.includes(decision.userId)) {
+      throw new PlaybookError(403, 'Only the named approvers can decide this approval');
+    }
+
+    this.recordDecision(step, decision.approved ? 'approved' : 'rejected', {
+      decided_by: decision.userId,
+      reason: decision.reason
     });
+    this.emit('approval:decided', execution, step);
+
+    if (this.executions.has(executionId)) {
+      // Still running other steps, or still notifying the approvers: the run
+      // continues past the approval once it gets there
+      this.replays.get(executionId)?.set(step.key, step);
+      await this.checkpoint(execution);
+    } else if (execution.status === Status.WAITING) {
+      if (!(await this.claim(execution, playbook))) {
+        throw new PlaybookError(409, 'No approval is pending');
+      }
+      this.proceed(execution, playbook);
+    } else {
+      // A failed execution takes the decision into account when retried
+      await executionStore.save(execution, playbook);
+    }
 
     return execution;
   }
 
+  /**
+   * Start another attempt of a stored execution
+   */
+  private resume(execution: PlaybookExecution, playbook: Playbook): void {
+    execution.attempts = (execution.attempts || 1) + 1;
+    execution.completed_at = undefined;
+    execution.outputs = undefined;
+    execution.error = undefined;
+
+    this.emit('execution:resumed', execution);
+    this.proceed(execution, playbook);
+  }
+
+  /**
+   * Run a stored execution again, replaying the steps it completed
+   */
+  private proceed(execution: PlaybookExecution, playbook: Playbook): void {
+    this.completeDueSteps(execution);
+    const completed = new Map(
+      execution.steps
+        .filter(step => step.key && step.status === Status.COMPLETED)
+        .map(step => [step.key, step])
+    );
+
+    execution.status = Status.PENDING;
+    this.track(execution, playbook);
+    this.replays.set(execution.id, completed);
+    this.run(playbook, execution, completed);
+  }
+
+  /**
+   * Run an execution in the background, recording failures
+   */
+  private run(
+    playbook: Playbook,
+    execution: PlaybookExecution,
+    completed: Map<string, ExecutionStep> = new Map()
+  ): void {
+    this.executePlaybook(playbook, execution, completed).catch(async error => {
+      if (error === SUSPENDED && execution.status !== Status.CANCELLED) {
+        await this.park(execution);
+        return;
+      }
+      if (execution.status !== Status.CANCELLED) {
+        execution.status = Status.FAILED;
+        execution.error = error.message;
+        execution.completed_at = new Date();
+      }
+      await this.finish(execution);
+      this.emit('execution:failed', execution, error);
+    });
+  }
+
   /**
    * Execute playbook workflow
    */
   private async executePlaybook(
     playbook: Playbook,
-    execution: PlaybookExecution
+    execution: PlaybookExecution,
+    completed: Map<string, ExecutionStep>
   ): Promise<void> {
     execution.status = Status.RUNNING;
+    await this.checkpoint(execution);
     this.emit('execution:started', execution);
 
     const context: ExecutionContext = {
       execution_id: execution.id,
-      variables: execution.trigger_data || {},
-      user_id: execution.triggered_by
+      variables: { ...(execution.trigger_data || {}), steps: {} },
+      user_id: execution.triggered_by,
+      abort: this.aborts.get(execution.id),
+      path: '',
+      completed
     };
 
-    try {
-      // Find trigger component
-      const trigger = playbook.components.find(c => c.type === ComponentType.TRIGGER);
-      if (!trigger) {
-        throw new Error('No trigger component found');
-      }
+    // Find trigger component
+    const trigger = playbook.components.find(c => c.type === ComponentType.TRIGGER);
+    if (!trigger) {
+      throw new Error('No trigger component found');
+    }
 
-      // Execute workflow starting from trigger
-      if (trigger.next && trigger.next.length > 0) {
-        for (const nextId of trigger.next) {
-          await this.executeComponent(playbook, nextId, execution, context);
-        }
-      }
+    // Execute workflow starting from trigger
+    await this.executeSequence(playbook, trigger.next || [], execution, context);
 
-      execution.status = Status.COMPLETED;
-      execution.completed_at = new Date();
-      this.emit('execution:completed', execution);
-    } catch (error: any) {
-      execution.status = Status.FAILED;
-      execution.error = error.message;
-      execution.completed_at = new Date();
-      throw error;
+    // Cancelled while running
+    if (context.abort?.aborted) {
+      await this.finish(execution);
+      return;
     }
+
+    execution.status = Status.COMPLETED;
+    execution.completed_at = new Date();
+    execution.outputs = context.variables.steps;
+    await this.finish(execution);
+    this.emit('execution:completed', execution);
   }
 
   /**
-   * Execute a single component
+   * Execute a single component, or replay its output if an earlier attempt completed it
    */
   private async executeComponent(
     playbook: Playbook,
@@ -108,14 +330,85 @@ export class PlaybookExecutionEngine extends EventEmitter {
       throw new Error(`Component ${componentId} not found`);
     }
 
-    const step: ExecutionStep = {
-      component_id: componentId,
+    // Cancelled, or a fail-fast parallel branch failed: stop starting new steps
+    if (context.abort?.aborted) {
+      return undefined;
+    }
+
+    const key = `${context.path || ''}${componentId}`;
+    const checkpointed = context.completed?.get(key);
+
+    let result: any;
+    if (checkpointed) {
+      result = checkpointed.output;
+      if (component.type === ComponentType.PARALLEL) {
+        this.mergeBranchOutputs(result, context);
+      }
+      this.recordOutput(component, result, context);
+    } else {
+      result = await this.executeStep(playbook, component, key, execution, context);
+    }
+
+    // Execute next components
+    await this.executeSequence(playbook, component.next || [], execution, context);
+
+    // Handle conditional and approval branching
+    const nextId = this.branchTarget(component, result);
+    if (nextId) {
+      await this.executeComponent(playbook, nextId, execution, context);
+    }
+
+    return result;
+  }
+
+  /**
+   * Branch taken after a condition or approval step
+   */
+  private branchTarget(component: PlaybookComponent, result: any): string | undefined {
+    if (component.type === ComponentType.CONDITION) {
+      const config = component.config as ConditionConfig;
+      return result ? config.trueNext : config.falseNext;
+    }
+    if (component.type === ComponentType.APPROVAL) {
+      const config = component.config as ApprovalConfig;
+      return result?.approved ? config.approvedNext : config.rejectedNext;
+    }
+    return undefined;
+  }
+
+  /**
+   * Run a component as a step, checkpointing it when it starts and ends.
+   * A step still waiting for a decision or deadline suspends the run again; a loop or
+   * parallel step that was suspended inside runs again in its existing step record.
+   */
+  private async executeStep(
+    playbook: Playbook,
+    component: PlaybookComponent,
+    key: string,
+    execution: PlaybookExecution,
+    context: ExecutionContext
+  ): Promise<any> {
+    const waiting = execution.steps.find(
+      existing => existing.key === key && existing.status === Status.WAITING
+    );
+    if (waiting && this.isPending(waiting)) {
+      throw SUSPENDED;
+    }
+
+    const step: ExecutionStep = waiting || {
+      key,
+      attempt: execution.attempts,
+      component_id: component.id,
       component_name: component.name,
       status: Status.RUNNING,
       started_at: new Date()
     };
 
-    execution.steps.push(step);
+    step.status = Status.RUNNING;
+    if (!waiting) {
+      execution.steps.push(step);
+    }
+    await this.checkpoint(execution);
     this.emit('step:started', execution, step);
 
     try {
@@ -129,10 +422,16 @@ export class PlaybookExecutionEngine extends EventEmitter {
           result = await this.executeCondition(component, context);
           break;
         case ComponentType.LOOP:
-          result = await this.executeLoop(playbook, component, execution, context);
+          result = await this.executeLoop(playbook, component, key, execution, context);
           break;
         case ComponentType.PARALLEL:
-          result = await this.executeParallel(playbook, component, execution, context);
+          result = await this.executeParallel(playbook, component, key, execution, context);
+          break;
+        case ComponentType.APPROVAL:
+          result = await this.requestApproval(component, step, execution, context);
+          break;
+        case ComponentType.WAIT:
+          result = await this.startWait(component, step, context);
           break;
         default:
           throw new Error(`Unsupported component type: ${component.type}`);
@@ -141,34 +440,116 @@ export class PlaybookExecutionEngine extends EventEmitter {
       step.status = Status.COMPLETED;
       step.completed_at = new Date();
       step.output = result;
+      this.recordOutput(component, result, context);
+      await this.checkpoint(execution);
       this.emit('step:completed', execution, step);
 
-      // Execute next components
-      if (component.next && component.next.length > 0) {
-        for (const nextId of component.next) {
-          await this.executeComponent(playbook, nextId, execution, context);
-        }
-      }
-
-      // Handle conditional branching
-      if (component.type === ComponentType.CONDITION) {
-        const config = component.config as ConditionConfig;
-        const nextId = result ? config.trueNext : config.falseNext;
-        if (nextId) {
-          await this.executeComponent(playbook, nextId, execution, context);
-        }
-      }
-
       return result;
     } catch (error: any) {
+      if (error === SUSPENDED) {
+        step.status = Status.WAITING;
+        await this.checkpoint(execution);
+        this.emit('step:waiting', execution, step);
+        throw error;
+      }
+
+      // A failed loop or parallel step already recorded the failing step inside it
       step.status = Status.FAILED;
       step.completed_at = new Date();
       step.error = error.message;
+      await this.checkpoint(execution);
       this.emit('step:failed', execution, step, error);
       throw error;
     }
   }
 
+  /**
+   * Notify the approvers and suspend until they decide or the approval times out
+   */
+  private async requestApproval(
+    component: PlaybookComponent,
+    step: ExecutionStep,
+    execution: PlaybookExecution,
+    context: ExecutionContext
+  ): Promise<any> {
+    const config = component.config as ApprovalConfig;
+    const resolved = this.resolveVariables(config.approvers, context.variables);
+    const approvers = (Array.isArray(resolved) ? resolved : [resolved])
+      .filter(approver => typeof approver === 'string' && approver && !approver.includes('{{'));
+
+    if (approvers.length === 0) {
+      throw new Error('Approval requires at least one approver');
+    }
+
+    const requestedAt = new Date();
+    const timeoutAt = config.timeout
+      ? new Date(requestedAt.getTime() + config.timeout * 1000)
+      : undefined;
+    const playbookName = execution.playbook_name || 'A playbook';
+    const message = this.resolveVariables(config.message, context.variables)
+      || `${playbookName} is waiting for approval of '${component.name}'`;
+
+    step.approval = {
+      approvers,
+      message,
+      requested_at: requestedAt,
+      timeout_at: timeoutAt,
+      timeout_decision: config.timeoutDecision || 'rejected'
+    };
+    step.resume_at = timeoutAt;
+
+    // Pending from here on, so approvers can decide as soon as they are notified
+    step.status = Status.WAITING;
+    await this.checkpoint(execution);
+
+    await notificationService.createNotification({
+      title: `Approval required: ${component.name}`,
+      message,
+      severity: NotificationSeverity.WARNING,
+      category: NotificationCategory.AUTOMATION,
+      user_ids: approvers,
+      entity_type: 'playbook_execution',
+      entity_id: execution.id,
+      metadata: { step_key: step.key, timeout_at: timeoutAt }
+    }, execution.triggered_by);
+
+    // Decided while the notification was sent: carry on instead of suspending
+    if (!this.isPending(step)) {
+      return step.output;
+    }
+    throw SUSPENDED;
+  }
+
+  /**
+   * Suspend until a duration has passed or a timestamp is reached
+   */
+  private async startWait(
+    component: PlaybookComponent,
+    step: ExecutionStep,
+    context: ExecutionContext
+  ): Promise<{ waited_until: Date }> {
+    const config = component.config as WaitConfig;
+    let until: Date;
+
+    if (config.until !== undefined) {
+      until = new Date(this.resolveVariables(config.until, context.variables));
+      if (Number.isNaN(until.getTime())) {
+        throw new Error(`Invalid wait timestamp: ${config.until}`);
+      }
+    } else if (typeof config.duration === 'number' && config.duration >= 0) {
+      until = new Date(Date.now() + config.duration * 1000);
+    } else {
+      throw new Error('Wait requires a duration or an until timestamp');
+    }
+
+    if (until.getTime() <= Date.now()) {
+      return { waited_until: until };
+    }
+
+    step.resume_at = until;
+    throw SUSPENDED;
+  }
+
   /**
    * Execute an action component
    */
@@ -177,94 +558,212 @@ export class PlaybookExecutionEngine extends EventEmitter {
     context: ExecutionContext
   ): Promise<any> {
     const config = component.config as ActionConfig;
-    
+
     // Resolve variables in parameters
     const params = this.resolveVariables(config.parameters, context.variables);
 
-    switch (config.actionType) {
-      case 'create_incident':
-        return { incident_id: uuidv4(), ...params };
-      
-      case 'update_entity':
-        return { updated: true, entity_id: params.entity_id };
-      
-      case 'send_notification':
-        console.log(`Notification: ${params.message}`);
-        return { sent: true };
-      
-      case 'enrich_ioc':
-        return { enriched: true, ioc: params.ioc };
-      
-      case 'run_query':
-        return { results: [] };
-      
-      case 'http_request':
-        // Simulate HTTP request
-        return { status: 200, data: {} };
-      
-      case 'ai_analysis':
-        return { analysis: 'AI analysis result' };
-      
-      case 'export_data':
-        return { file_path: '/exports/data.json' };
-      
-      default:
-        throw new Error(`Unknown action type: ${config.actionType}`);
-    }
-  }
-
-  /**
-   * Execute a condition component
+    return playbookActions.execute(config.actionType, params, context);
+  }
+
+  /**
+   * Execute a condition component.
+   * Expressions are evaluated by the sandboxed expression language; syntax and
+   * type errors fail the step instead of silently taking the false branch.
    */
   private async executeCondition(
     component: PlaybookComponent,
     context: ExecutionContext
   ): Promise<boolean> {
     const config = component.config as ConditionConfig;
-    
-    // Simple expression evaluation
-    // In production, use a safe eval library
-    try {
-      const func = new Function(...Object.keys(context.variables), `return ${config.expression}`);
-      return func(...Object.values(context.variables));
-    } catch (error) {
-      console.error('Condition evaluation error:', error);
-      return false;
-    }
+    return evaluateCondition(config.expression, context.variables);
   }
 
   /**
-   * Execute a loop component
+   * Execute a loop component: the body runs once per item of a variable collection.
+   * Each iteration gets its own scope holding the item, so body steps do not see
+   * each other's outputs. Returns the body step outputs of every iteration.
    */
   private async executeLoop(
     playbook: Playbook,
     component: PlaybookComponent,
+    key: string,
     execution: PlaybookExecution,
     context: ExecutionContext
-  ): Promise<any[]> {
-    // Simplified loop execution
-    return [];
+  ): Promise<Record<string, any>[]> {
+    const config = component.config as LoopConfig;
+    const collection = getPath(context.variables, config.collection);
+
+    if (!Array.isArray(collection)) {
+      throw new Error(`Loop collection '${config.collection}' is not an array`);
+    }
+
+    const maxIterations = config.maxIterations || DEFAULT_MAX_ITERATIONS;
+    if (collection.length > maxIterations) {
+      throw new Error(
+        `Loop collection has ${collection.length} items, more than the limit of ${maxIterations}`
+      );
+    }
+
+    const results: Record<string, any>[] = [];
+    for (const [index, item] of collection.entries()) {
+      const scope = this.createScope(context, `${key}/${index}/`, {
+        [config.itemVariable || 'item']: item,
+        loop: { index, count: collection.length }
+      });
+      await this.executeSequence(playbook, config.body || [], execution, scope);
+      results.push(this.scopeOutputs(scope, context));
+    }
+
+    return results;
   }
 
   /**
-   * Execute parallel branches
+   * Execute parallel branches, each in its own scope, and join them.
+   * In wait_all mode every branch runs to completion before failures are reported;
+   * in fail_fast mode the first failure stops the other branches and, once they have
+   * stopped, fails the component. No branch is left running after the component ends.
+   * Branch step outputs are merged back so later steps can reference them.
    */
   private async executeParallel(
     playbook: Playbook,
     component: PlaybookComponent,
+    key: string,
+    execution: PlaybookExecution,
+    context: ExecutionContext
+  ): Promise<Record<string, any>[]> {
+    const config = component.config as ParallelConfig;
+    const abort = { aborted: false };
+    let firstFailure: unknown;
+
+    // A suspended branch resolves to SUSPENDED, so the other branches keep running
+    const branches = (config.branches || []).map(async (branch, index) => {
+      const scope = this.createScope(context, `${key}/${index}/`, {}, abort);
+      try {
+        await this.executeSequence(playbook, branch, execution, scope);
+      } catch (error) {
+        if (error === SUSPENDED) {
+          return SUSPENDED;
+        }
+        if (config.mode === 'fail_fast' && !abort.aborted) {
+          abort.aborted = true;
+          firstFailure = error;
+        }
+        throw error;
+      }
+      return this.scopeOutputs(scope, context);
+    });
+
+    const settled = await Promise.allSettled(branches);
+    if (firstFailure !== undefined) {
+      throw firstFailure;
+    }
+    const failures = settled
+      .filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+      .map(outcome => outcome.reason?.message || String(outcome.reason));
+
+    if (failures.length > 0) {
+      const summary = `${failures.length} of ${settled.length} parallel branches failed`;
+      throw new Error(`${summary}: ${failures.join('; ')}`);
+    }
+    const results = settled.map(
+      outcome => (outcome as PromiseFulfilledResult<Record<string, any> | Error>).value
+    );
+
+    if (results.includes(SUSPENDED)) {
+      throw SUSPENDED;
+    }
+
+    const outputs = results as Record<string, any>[];
+    this.mergeBranchOutputs(outputs, context);
+    return outputs;
+  }
+
+  /**
+   * Make the step outputs of parallel branches available to later steps
+   */
+  private mergeBranchOutputs(results: Record<string, any>[], context: ExecutionContext): void {
+    (results || []).forEach(outputs => Object.assign(context.variables.steps, outputs));
+  }
+
+  /**
+   * Execute components one after another
+   */
+  private async executeSequence(
+    playbook: Playbook,
+    componentIds: string[],
     execution: PlaybookExecution,
     context: ExecutionContext
-  ): Promise<any[]> {
-    // Simplified parallel execution
-    return [];
+  ): Promise<void> {
+    for (const componentId of componentIds) {
+      await this.executeComponent(playbook, componentId, execution, context);
+    }
   }
 
   /**
-   * Resolve variables in object
+   * Make a step's output available to later steps
+   */
+  private recordOutput(component: PlaybookComponent, result: any, context: ExecutionContext): void {
+    context.variables.steps = context.variables.steps || {};
+    context.variables.steps[component.id] = result;
+
+    const { outputVariable } = component.config as ActionConfig;
+    if (outputVariable) {
+      context.variables[outputVariable] = result;
+    }
+  }
+
+  /**
+   * Child context with a copy of the parent's variables, so writes stay in the scope.
+   * The path prefixes the keys of steps run in the scope.
+   */
+  private createScope(
+    context: ExecutionContext,
+    path: string,
+    variables: Record<string, any> = {},
+    abort: { aborted: boolean } | undefined = context.abort
+  ): ExecutionContext {
+    return {
+      ...context,
+      variables: {
+        ...context.variables,
+        steps: { ...(context.variables.steps || {}) },
+        ...variables
+      },
+      abort,
+      path
+    };
+  }
+
+  /**
+   * Step outputs recorded in a scope but not in its parent
+   */
+  private scopeOutputs(scope: ExecutionContext, parent: ExecutionContext): Record<string, any> {
+    const parentSteps = parent.variables.steps || {};
+    return Object.fromEntries(
+      Object.entries(scope.variables.steps)
+        .filter(([componentId, output]) => parentSteps[componentId] !== output)
+    );
+  }
+
+  /**
+   * Resolve `{{name}}` and `{{dotted.path}}` references in an object.
+   * A string that is a single reference resolves to the raw value, so arrays and
+   * objects can be passed between steps.
    */
   private resolveVariables(obj: any, variables: Record<string, any>): any {
     if (typeof obj === 'string') {
-      return obj.replace(/\{\{(\w+)\}\}/g, (match, name) => variables[name] || match);
+      const reference = obj.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+      if (reference) {
+        const value = getPath(variables, reference[1]);
+        return value === undefined ? obj : value;
+      }
+      return obj.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, path) => {
+        const value = getPath(variables, path);
+        if (value === undefined || value === null) {
+          return match;
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
     }
     
     if (Array.isArray(obj)) {
@@ -283,25 +782,230 @@ export class PlaybookExecutionEngine extends EventEmitter {
   }
 
   /**
-   * Get execution status
+   * Approval and wait steps still waiting for a decision or deadline
+   */
+  private pendingSteps(execution: PlaybookExecution): ExecutionStep[] {
+    return execution.steps.filter(step => this.isPending(step));
+  }
+
+  private isPending(step: ExecutionStep): boolean {
+    return step.status === Status.WAITING && Boolean(step.approval || step.resume_at);
+  }
+
+  /**
+   * Complete waits that have ended and approvals that have timed out
+   */
+  private completeDueSteps(execution: PlaybookExecution): number {
+    const due = this.pendingSteps(execution)
+      .filter(step => step.resume_at && new Date(step.resume_at).getTime() <= Date.now());
+
+    due.forEach(step => {
+      if (step.approval) {
+        this.recordDecision(step, step.approval.timeout_decision, {
+          reason: 'Approval timed out',
+          timed_out: true
+        });
+      } else {
+        this.completeWaitingStep(step, { waited_until: step.resume_at });
+      }
+    });
+
+    return due.length;
+  }
+
+  private recordDecision(
+    step: ExecutionStep,
+    decision: ApprovalDecision,
+    details: { decided_by?: string; reason?: string; timed_out?: boolean }
+  ): void {
+    Object.assign(step.approval, {
+      decision, decided_at: new Date(), timed_out: false, ...details
+    });
+    this.completeWaitingStep(step, {
+      approved: decision === 'approved',
+      decision,
+      decided_by: step.approval.decided_by,
+      reason: step.approval.reason,
+      timed_out: step.approval.timed_out
+    });
+  }
+
+  private completeWaitingStep(step: ExecutionStep, output: any): void {
+    step.status = Status.COMPLETED;
+    step.completed_at = new Date();
+    step.output = output;
+  }
+
+  /**
+   * Store a suspended execution as waiting and release it from memory. If its
+   * approvals were decided while other steps ran, it continues straight away.
+   */
+  private async park(execution: PlaybookExecution): Promise<void> {
+    const playbook = this.playbooks.get(execution.id);
+    this.completeDueSteps(execution);
+
+    if (this.pendingSteps(execution).length === 0) {
+      await this.finish(execution);
+      this.proceed(execution, playbook);
+      return;
+    }
+
+    execution.status = Status.WAITING;
+    await this.finish(execution);
+    this.schedule(execution);
+    this.emit('execution:waiting', execution);
+  }
+
+  /**
+   * Arm a timer for the next wait or approval timeout of a waiting execution
+   */
+  private schedule(execution: PlaybookExecution): void {
+    clearTimeout(this.timers.get(execution.id));
+    this.timers.delete(execution.id);
+
+    const deadlines = this.pendingSteps(execution)
+      .filter(step => step.resume_at)
+      .map(step => new Date(step.resume_at).getTime());
+    if (deadlines.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...deadlines) - Date.now(), 0), MAX_TIMER_DELAY);
+    const timer = setTimeout(() => {
+      this.wake(execution.id).catch(error => {
+        logger.error('Failed to continue waiting playbook execution', {
+          executionId: execution.id,
+          error: error.message
+        });
+      });
+    }, delay);
+    timer.unref();
+    this.timers.set(execution.id, timer);
+  }
+
+  /**
+   * Continue a waiting execution whose deadline has passed
+   */
+  private async wake(executionId: string): Promise<void> {
+    this.timers.delete(executionId);
+    if (this.executions.has(executionId)) {
+      return;
+    }
+
+    const stored = await executionStore.load(executionId);
+    if (!stored || stored.execution.status !== Status.WAITING) {
+      return;
+    }
+
+    if (this.completeDueSteps(stored.execution) > 0) {
+      if (await this.claim(stored.execution, stored.playbook)) {
+        this.proceed(stored.execution, stored.playbook);
+      }
+    } else {
+      this.schedule(stored.execution);
+    }
+  }
+
+  /**
+   * Take over a stored waiting execution to continue it. The write is guarded
+   * on the stored status, so of a decision and a deadline, or of two
+   * decisions, only the first continues it.
+   */
+  private async claim(execution: PlaybookExecution, playbook: Playbook): Promise<boolean> {
+    execution.status = Status.PENDING;
+    return executionStore.saveIfStatus(execution, playbook, Status.WAITING);
+  }
+
+  /**
+   * Get execution status, from memory while running and from the store otherwise
    */
-  getExecution(executionId: string): PlaybookExecution | undefined {
-    return this.executions.get(executionId);
+  async getExecution(executionId: string): Promise<PlaybookExecution | undefined> {
+    return (await this.load(executionId))?.execution;
   }
 
   /**
-   * Cancel execution
+   * Cancel execution; a running step finishes, but no further steps start
    */
   async cancelExecution(executionId: string): Promise<void> {
-    const execution = this.executions.get(executionId);
-    if (!execution) {
+    const stored = await this.load(executionId);
+    if (!stored) {
       throw new Error('Execution not found');
     }
 
+    const { execution, playbook } = stored;
+    if (execution.status === Status.COMPLETED || execution.status === Status.CANCELLED) {
+      throw new Error(`Execution is already ${execution.status}`);
+    }
     execution.status = Status.CANCELLED;
     execution.completed_at = new Date();
+
+    clearTimeout(this.timers.get(executionId));
+    this.timers.delete(executionId);
+
+    const abort = this.aborts.get(executionId);
+    if (abort) {
+      abort.aborted = true;
+      await this.checkpoint(execution);
+    } else {
+      await executionStore.save(execution, playbook);
+    }
     this.emit('execution:cancelled', execution);
   }
+
+  private async load(executionId: string): Promise<StoredExecution | undefined> {
+    const execution = this.executions.get(executionId);
+    if (execution) {
+      return { execution, playbook: this.playbooks.get(executionId) };
+    }
+    return executionStore.load(executionId);
+  }
+
+  /**
+   * Keep a running execution in memory
+   */
+  private track(execution: PlaybookExecution, playbook: Playbook): void {
+    this.executions.set(execution.id, execution);
+    this.playbooks.set(execution.id, playbook);
+    this.aborts.set(execution.id, { aborted: false });
+  }
+
+  /**
+   * Save the final state and drop the execution from memory
+   */
+  private async finish(execution: PlaybookExecution): Promise<void> {
+    await this.checkpoint(execution);
+    this.executions.delete(execution.id);
+    this.playbooks.delete(execution.id);
+    this.aborts.delete(execution.id);
+    this.checkpoints.delete(execution.id);
+    this.replays.delete(execution.id);
+  }
+
+  /**
+   * Save the execution's current state. Writes for one execution are queued, so
+   * parallel branches cannot overwrite a newer checkpoint with an older one.
+   * A failed write is logged and does not fail the execution. Once the
+   * execution has finished its final state is saved and nothing else is.
+   */
+  private checkpoint(execution: PlaybookExecution): Promise<void> {
+    const playbook = this.playbooks.get(execution.id);
+    if (!playbook) {
+      return Promise.resolve();
+    }
+
+    const previous = this.checkpoints.get(execution.id) || Promise.resolve();
+    const next = previous
+      .then(() => executionStore.save(execution, playbook))
+      .catch(error => {
+        logger.error('Failed to checkpoint playbook execution', {
+          executionId: execution.id,
+          error: error.message
+        });
+      });
+
+    this.checkpoints.set(execution.id, next);
+    return next;
+  }
 }
 
 /**
@@ -0,0 +1,152 @@
+/**
+ * Playbook Execution Store
+ * Persists executions and their step checkpoints through the PlaybookExecution repository
+ */
+
+import { playbookExecutionRepository } from '../../repositories';
+import type { PlaybookExecution as ExecutionRecord } from '../../repositories';
+import type { Playbook, PlaybookExecution } from './types';
+import { ExecutionStatus } from './types';
+
+// The repository and its statistics call completed executions 'success'
+const STORED_STATUS: Record<ExecutionStatus, string> = {
+  [ExecutionStatus.PENDING]: 'pending',
+  [ExecutionStatus.RUNNING]: 'running',
+  [ExecutionStatus.COMPLETED]: 'success',
+  [ExecutionStatus.FAILED]: 'failed',
+  [ExecutionStatus.CANCELLED]: 'cancelled',
+  [ExecutionStatus.WAITING]: 'waiting'
+};
+
+const EXECUTION_STATUS: Record<string, ExecutionStatus> = Object.fromEntries(
+  Object.entries(STORED_STATUS).map(([status, stored]) => [stored, status as ExecutionStatus])
+);
+
+/**
+ * An execution together with the playbook definition it runs
+ */
+export interface StoredExecution {
+  execution: PlaybookExecution;
+  playbook?: Playbook;
+}
+
+export class ExecutionStore {
+  /**
+   * Save a new execution with a snapshot of its playbook, so it can resume
+   * even if the playbook changes or the process restarts
+   */
+  async create(execution: PlaybookExecution, playbook: Playbook): Promise<void> {
+    await playbookExecutionRepository.create({
+      id: execution.id,
+      playbookId: playbook.id,
+      playbookName: playbook.name,
+      startedAt: execution.started_at,
+      triggeredBy: execution.triggered_by,
+      ...this.toRecord(execution),
+      metadata: { ...this.toMetadata(execution), playbook }
+    });
+  }
+
+  /**
+   * Checkpoint status, steps and outputs
+   */
+  async save(execution: PlaybookExecution, playbook: Playbook): Promise<void> {
+    await playbookExecutionRepository.update(execution.id, {
+      ...this.toRecord(execution),
+      metadata: { ...this.toMetadata(execution), playbook }
+    });
+  }
+
+  /**
+   * Checkpoint only if the stored execution still has the given status;
+   * false when something else changed it first
+   */
+  async saveIfStatus(
+    execution: PlaybookExecution,
+    playbook: Playbook,
+    status: ExecutionStatus
+  ): Promise<boolean> {
+    return playbookExecutionRepository.updateIfStatus(execution.id, STORED_STATUS[status], {
+      ...this.toRecord(execution),
+      metadata: { ...this.toMetadata(execution), playbook }
+    });
+  }
+
+  /**
+   * Load an execution and its playbook snapshot
+   */
+  async load(executionId: string): Promise<StoredExecution | undefined> {
+    const record = await playbookExecutionRepository.findById(executionId);
+    return record ? this.fromRecord(record) : undefined;
+  }
+
+  /**
+   * Executions that were pending or running when the process stopped
+   */
+  async findInterrupted(): Promise<StoredExecution[]> {
+    const records = await playbookExecutionRepository.findRunning();
+    return records.map(record => this.fromRecord(record));
+  }
+
+  /**
+   * Executions suspended on an approval or a wait
+   */
+  async findWaiting(): Promise<StoredExecution[]> {
+    const records = await playbookExecutionRepository.findByStatus(STORED_STATUS.waiting);
+    return records.map(record => this.fromRecord(record));
+  }
+
+  private toRecord(execution: PlaybookExecution): Record<string, any> {
+    const completedAt = execution.completed_at;
+    return {
+      status: STORED_STATUS[execution.status],
+      completedAt: completedAt || null,
+      duration: completedAt
+        ? Math.floor((completedAt.getTime() - execution.started_at.getTime()) / 1000)
+        : null,
+      result: execution.status === ExecutionStatus.COMPLETED ? execution.outputs : null,
+      errorMessage: execution.error || null
+    };
+  }
+
+  private toMetadata(execution: PlaybookExecution): Record<string, any> {
+    return {
+      trigger_data: execution.trigger_data,
+      steps: execution.steps,
+      attempts: execution.attempts
+    };
+  }
+
+  private fromRecord(record: ExecutionRecord): StoredExecution {
+    const metadata = record.metadata || {};
+    const toDate = (value?: string | Date) => (value ? new Date(value) : undefined);
+
+    return {
+      execution: {
+        id: record.id,
+        playbook_id: record.playbookId,
+        playbook_name: record.playbookName,
+        status: EXECUTION_STATUS[record.status] || ExecutionStatus.FAILED,
+        started_at: new Date(record.startedAt),
+        completed_at: toDate(record.completedAt),
+        triggered_by: record.triggeredBy,
+        trigger_data: metadata.trigger_data,
+        steps: (metadata.steps || []).map((step: any) => ({
+          ...step,
+          started_at: toDate(step.started_at),
+          completed_at: toDate(step.completed_at),
+          resume_at: toDate(step.resume_at)
+        })),
+        attempts: metadata.attempts || 1,
+        outputs: record.result || undefined,
+        error: record.errorMessage || undefined
+      },
+      playbook: metadata.playbook
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const executionStore = new ExecutionStore();
@@ -0,0 +1,233 @@
+/**
+ * Playbook Condition Expression Evaluator
+ * Evaluates parsed condition expressions against execution variables
+ *
+ * Paths only read own properties of plain data, comparisons never coerce
+ * between types, and regular expressions are screened before use.
+ */
+
+import { ExpressionError, compilePattern, parseExpression } from './expression-parser';
+import type { ExpressionNode, PathSegment } from './types';
+
+// Longest string `matches` will run a regular expression over
+export const MAX_MATCH_LENGTH = 10000;
+
+const isNullish = (value: unknown): value is null | undefined => (
+  value === null || value === undefined
+);
+
+/**
+ * Type name used in error messages
+ */
+const typeName = (value: unknown): string => {
+  if (isNullish(value)) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Read one path segment; anything other than own properties of objects and arrays is undefined
+ */
+const readSegment = (value: unknown, segment: PathSegment): unknown => {
+  if (isNullish(value) || typeof value !== 'object') {
+    return undefined;
+  }
+  if (typeof segment === 'number') {
+    return Array.isArray(value) ? value[segment] : undefined;
+  }
+  return Object.prototype.hasOwnProperty.call(value, segment)
+    ? (value as { [key: string]: unknown })[segment]
+    : undefined;
+};
+
+/**
+ * Deep equality without type coercion; null and missing values are equal
+ */
+const valuesEqual = (a: unknown, b: unknown): boolean => {
+  if (isNullish(a) || isNullish(b)) {
+    return isNullish(a) && isNullish(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  }
+  if (typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length
+      && keys.every(key => valuesEqual(readSegment(a, key), readSegment(b, key)));
+  }
+  return a === b;
+};
+
+const expectString = (value: unknown, what: string, position: number): string => {
+  if (typeof value !== 'string') {
+    throw new ExpressionError(`${what} expects a string but found ${typeName(value)}`, position);
+  }
+  return value;
+};
+
+const matches = (value: unknown, pattern: unknown, position: number): boolean => {
+  if (isNullish(value)) {
+    return false;
+  }
+  const subject = expectString(value, 'matches', position);
+  if (subject.length > MAX_MATCH_LENGTH) {
+    throw new ExpressionError(
+      `matches cannot test strings longer than ${MAX_MATCH_LENGTH} characters`,
+      position
+    );
+  }
+  return compilePattern(expectString(pattern, 'matches', position), position).test(subject);
+};
+
+/**
+ * Membership test: an item of an array, or a substring of a string
+ */
+const contains = (container: unknown, item: unknown, position: number): boolean => {
+  if (isNullish(container)) {
+    return false;
+  }
+  if (Array.isArray(container)) {
+    return container.some(member => valuesEqual(member, item));
+  }
+  if (typeof container === 'string') {
+    return container.includes(expectString(item, 'String containment', position));
+  }
+  throw new ExpressionError(`Cannot test membership in ${typeName(container)}`, position);
+};
+
+/**
+ * Ordering comparison between two numbers or two strings; missing values never match
+ */
+const compareOrdered = (
+  operator: string,
+  left: unknown,
+  right: unknown,
+  position: number
+): boolean => {
+  if (isNullish(left) || isNullish(right)) {
+    return false;
+  }
+  const bothNumbers = typeof left === 'number' && typeof right === 'number';
+  const bothStrings = typeof left === 'string' && typeof right === 'string';
+  if (!bothNumbers && !bothStrings) {
+    throw new ExpressionError(
+      `Cannot compare ${typeName(left)} with ${typeName(right)} using '${operator}'`,
+      position
+    );
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+};
+
+/**
+ * Logical operands must be booleans; a missing value counts as false
+ */
+const toBoolean = (value: unknown, position: number): boolean => {
+  if (isNullish(value)) {
+    return false;
+  }
+  if (typeof value !== 'boolean') {
+    throw new ExpressionError(`Expected a boolean but found ${typeName(value)}`, position);
+  }
+  return value;
+};
+
+type CallNode = Extract<ExpressionNode, { kind: 'call' }>;
+
+const callFunction = (node: CallNode, args: unknown[]): unknown => {
+  const [first, second] = args;
+
+  switch (node.name) {
+    case 'len':
+      if (isNullish(first)) return 0;
+      if (typeof first === 'string' || Array.isArray(first)) return first.length;
+      if (typeof first === 'object') return Object.keys(first).length;
+      throw new ExpressionError(
+        `len expects a string, array or object but found ${typeName(first)}`,
+        node.position
+      );
+    case 'exists':
+      return !isNullish(first);
+    case 'lower':
+      return isNullish(first) ? null : expectString(first, 'lower', node.position).toLowerCase();
+    case 'upper':
+      return isNullish(first) ? null : expectString(first, 'upper', node.position).toUpperCase();
+    case 'contains':
+      return contains(first, second, node.position);
+    case 'matches':
+      return matches(first, second, node.position);
+    case 'startsWith':
+      return !isNullish(first)
+        && expectString(first, 'startsWith', node.position)
+          .startsWith(expectString(second, 'startsWith', node.position));
+    default:
+      return !isNullish(first)
+        && expectString(first, 'endsWith', node.position)
+          .endsWith(expectString(second, 'endsWith', node.position));
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, variables: Record<string, any>): unknown => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'array':
+      return node.items.map(item => evaluateNode(item, variables));
+    case 'path':
+      return [node.root, ...node.segments].reduce<unknown>(readSegment, variables);
+    case 'not':
+      return !toBoolean(evaluateNode(node.operand, variables), node.operand.position);
+    case 'logical': {
+      // Short-circuits, so later operands may rely on earlier existence checks
+      const test = (operand: ExpressionNode) => (
+        toBoolean(evaluateNode(operand, variables), operand.position)
+      );
+      return node.operator === 'and' ? node.operands.every(test) : node.operands.some(test);
+    }
+    case 'call':
+      return callFunction(node, node.args.map(arg => evaluateNode(arg, variables)));
+    default: {
+      const left = evaluateNode(node.left, variables);
+      const right = evaluateNode(node.right, variables);
+      switch (node.operator) {
+        case '==': return valuesEqual(left, right);
+        case '!=': return !valuesEqual(left, right);
+        case 'in': return contains(right, left, node.right.position);
+        case 'not in': return !contains(right, left, node.right.position);
+        case 'contains': return contains(left, right, node.left.position);
+        case 'matches': return matches(left, right, node.right.position);
+        default: return compareOrdered(node.operator, left, right, node.position);
+      }
+    }
+  }
+};
+
+/**
+ * Evaluate an expression (source or parsed) against variables
+ * @throws ExpressionError for syntax errors and type errors during evaluation
+ */
+export const evaluateExpression = (
+  expression: string | ExpressionNode,
+  variables: Record<string, any>
+): unknown => {
+  const ast = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return evaluateNode(ast, variables || {});
+};
+
+/**
+ * Evaluate a condition, which must produce a boolean (a missing value counts as false)
+ */
+export const evaluateCondition = (
+  expression: string | ExpressionNode,
+  variables: Record<string, any>
+): boolean => {
+  const ast = typeof expression === 'string' ? parseExpression(expression) : expression;
+  return toBoolean(evaluateNode(ast, variables || {}), ast.position);
+};
@@ -0,0 +1,452 @@
+/**
+ * Playbook Condition Expression Parser
+ * Grammar-based parser for the condition language used by playbook components
+ *
+ * The language only reads variables and calls a fixed set of helpers, so
+ * analyst-authored conditions never run code inside the API process:
+ *
+ *   steps.lookup.found and trigger.severity in ['high', 'critical']
+ *   len(steps.search.results) > 0 or not exists(trigger.owner)
+ *   lower(alert.source_ip) matches '^10\.' && alert.count >= 5
+ */
+
+import type {
+  ComparisonOperator,
+  ExpressionFunction,
+  ExpressionNode,
+  MembershipOperator,
+  PathSegment
+} from './types';
+
+/**
+ * Error raised for syntax, validation and evaluation problems, carrying the
+ * character offset in the expression where the problem was found
+ */
+export class ExpressionError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type TokenType =
+  | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'dot'
+  | 'operator' | 'keyword' | 'identifier' | 'string' | 'number' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const TOKEN_LABELS: { [type in TokenType]?: string } = {
+  lparen: '\'(\'',
+  rparen: '\')\'',
+  rbracket: '\']\'',
+  identifier: 'a name',
+  eof: 'end of expression'
+};
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'contains', 'matches', 'true', 'false', 'null'];
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+
+/**
+ * Helpers callable from expressions, with their number of arguments
+ */
+export const EXPRESSION_FUNCTIONS: { [name in ExpressionFunction]: number } = {
+  len: 1,
+  exists: 1,
+  lower: 1,
+  upper: 1,
+  contains: 2,
+  matches: 2,
+  startsWith: 2,
+  endsWith: 2
+};
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 32;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_CACHED_PATTERNS = 100;
+
+// A group containing a quantifier that is itself quantified, e.g. (a+)+ or (\w*)*,
+// can backtrack exponentially and is rejected
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)\s*[+*{]/;
+
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Compile a `matches` pattern, rejecting patterns prone to catastrophic backtracking.
+ * Problems are raised as `PatternError`, so other pattern languages can share the screen.
+ */
+export const compilePattern = (
+  pattern: string,
+  position: number,
+  PatternError: new (message: string, at: number) => Error = ExpressionError
+): RegExp => {
+  const cached = patternCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new PatternError(
+      `Regular expression is longer than ${MAX_PATTERN_LENGTH} characters`,
+      position
+    );
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    throw new PatternError('Regular expression has nested quantifiers', position);
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch (error: any) {
+    throw new PatternError(`Invalid regular expression: ${error.message}`, position);
+  }
+
+  if (patternCache.size >= MAX_CACHED_PATTERNS) {
+    patternCache.delete(patternCache.keys().next().value);
+  }
+  patternCache.set(pattern, regex);
+  return regex;
+};
+
+/**
+ * Split an expression string into tokens
+ */
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const quote = input[start];
+    const escapes: { [key: string]: string } = {
+      n: '\n', t: '\t', '\\': '\\', '\'': '\'', '"': '"'
+    };
+    let value = '';
+    let j = start + 1;
+    while (j < input.length) {
+      const ch = input[j];
+      if (ch === '\\') {
+        const escaped = escapes[input[j + 1]];
+        // Unknown escapes are kept as-is so regular expressions like '\d' read naturally
+        value += escaped !== undefined ? escaped : `\\${input[j + 1] ?? ''}`;
+        j += 2;
+      } else if (ch === quote) {
+        i = j + 1;
+        return value;
+      } else {
+        value += ch;
+        j += 1;
+      }
+    }
+    throw new ExpressionError('Unterminated string literal', start);
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if ('()[],.'.includes(ch)) {
+      const types: { [key: string]: TokenType } = {
+        '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma', '.': 'dot'
+      };
+      tokens.push({ type: types[ch], value: ch, position: start });
+      i += 1;
+    } else if ('=!<>&|'.includes(ch)) {
+      const two = input.slice(i, i + 2);
+      if (['==', '!=', '<=', '>=', '&&', '||'].includes(two)) {
+        tokens.push({ type: 'operator', value: two, position: start });
+        i += 2;
+      } else if ('<>!'.includes(ch)) {
+        tokens.push({ type: 'operator', value: ch, position: start });
+        i += 1;
+      } else if (ch === '=') {
+        throw new ExpressionError('Unexpected \'=\', use \'==\' to compare values', start);
+      } else {
+        throw new ExpressionError(`Unexpected character '${ch}', use '${ch}${ch}'`, start);
+      }
+    } else if (ch === '\'' || ch === '"') {
+      tokens.push({ type: 'string', value: readQuoted(start), position: start });
+    } else if (/\d/.test(ch) || (ch === '-' && /\d/.test(input[i + 1] || ''))) {
+      const match = input.slice(i).match(/^-?\d+(\.\d+)?/) as RegExpMatchArray;
+      tokens.push({ type: 'number', value: match[0], position: start });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const match = input.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/) as RegExpMatchArray;
+      const word = match[0];
+      const type = KEYWORDS.includes(word) ? 'keyword' : 'identifier';
+      tokens.push({ type, value: word, position: start });
+      i += word.length;
+    } else {
+      throw new ExpressionError(`Unexpected character '${ch}'`, start);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class ExpressionParser {
+  private pos = 0;
+
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const expression = this.parseOr();
+    this.expect('eof');
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.pos += 1;
+    return token;
+  }
+
+  private is(type: TokenType, value?: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === type && (value === undefined || token.value === value);
+  }
+
+  private expect(type: TokenType, value?: string): Token {
+    if (!this.is(type, value)) {
+      const token = this.peek();
+      const expected = value ? `'${value}'` : TOKEN_LABELS[type] || type;
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+      throw new ExpressionError(`Expected ${expected} but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  private nested<T>(position: number, parse: () => T): T {
+    this.depth += 1;
+    if (this.depth > MAX_DEPTH) {
+      throw new ExpressionError(
+        `Expression is nested more than ${MAX_DEPTH} levels deep`,
+        position
+      );
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  // or: and (('or' | '||') and)*
+  private parseOr(): ExpressionNode {
+    return this.parseLogical('or', ['or', '||'], () => this.parseAnd());
+  }
+
+  // and: not (('and' | '&&') not)*
+  private parseAnd(): ExpressionNode {
+    return this.parseLogical('and', ['and', '&&'], () => this.parseNot());
+  }
+
+  private parseLogical(
+    operator: 'and' | 'or',
+    spellings: string[],
+    parseOperand: () => ExpressionNode
+  ): ExpressionNode {
+    const first = parseOperand();
+    const operands = [first];
+    while ((this.is('keyword') || this.is('operator')) && spellings.includes(this.peek().value)) {
+      this.next();
+      operands.push(parseOperand());
+    }
+    if (operands.length === 1) {
+      return first;
+    }
+    return { kind: 'logical', operator, operands, position: first.position };
+  }
+
+  // not: ('not' | '!') not | comparison
+  private parseNot(): ExpressionNode {
+    if (this.is('keyword', 'not') || this.is('operator', '!')) {
+      const { position } = this.next();
+      return this.nested(position, () => ({ kind: 'not', operand: this.parseNot(), position }));
+    }
+    return this.parseComparison();
+  }
+
+  // comparison: primary ((compareOp | 'in' | 'not' 'in' | 'contains' | 'matches') primary)?
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    let operator: ComparisonOperator | MembershipOperator | undefined;
+
+    const { value } = this.peek();
+    if (this.is('operator') && COMPARISON_OPERATORS.includes(value as ComparisonOperator)) {
+      operator = this.next().value as ComparisonOperator;
+    } else if (this.is('keyword', 'not') && this.is('keyword', 'in', 1)) {
+      this.pos += 2;
+      operator = 'not in';
+    } else if (['in', 'contains', 'matches'].some(keyword => this.is('keyword', keyword))) {
+      operator = this.next().value as MembershipOperator;
+    }
+
+    if (!operator) {
+      return left;
+    }
+
+    const right = this.parsePrimary();
+    if (operator === 'matches' && right.kind === 'literal' && typeof right.value === 'string') {
+      compilePattern(right.value, right.position);
+    }
+    return { kind: 'comparison', operator, left, right, position: left.position };
+  }
+
+  // primary: literal | array | call | path | '(' or ')'
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'string':
+        this.next();
+        return { kind: 'literal', value: token.value, position: token.position };
+      case 'number':
+        this.next();
+        return { kind: 'literal', value: Number(token.value), position: token.position };
+      case 'keyword':
+        if (['true', 'false', 'null'].includes(token.value)) {
+          this.next();
+          const literals: { [key: string]: boolean | null } = {
+            true: true, false: false, null: null
+          };
+          return { kind: 'literal', value: literals[token.value], position: token.position };
+        }
+        // contains and matches are both infix operators and functions
+        if (['contains', 'matches'].includes(token.value) && this.is('lparen', undefined, 1)) {
+          return this.parseCall();
+        }
+        break;
+      case 'lparen':
+        return this.nested(token.position, () => {
+          this.next();
+          const expression = this.parseOr();
+          this.expect('rparen');
+          return expression;
+        });
+      case 'lbracket':
+        return this.nested(token.position, () => this.parseArray());
+      case 'identifier':
+        return this.is('lparen', undefined, 1) ? this.parseCall() : this.parsePath();
+      default:
+        break;
+    }
+
+    const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+    throw new ExpressionError(`Expected a value but found ${found}`, token.position);
+  }
+
+  // array: '[' (primary (',' primary)*)? ']'
+  private parseArray(): ExpressionNode {
+    const { position } = this.expect('lbracket');
+    const items: ExpressionNode[] = [];
+    if (!this.is('rbracket')) {
+      items.push(this.parsePrimary());
+      while (this.is('comma')) {
+        this.next();
+        items.push(this.parsePrimary());
+      }
+    }
+    this.expect('rbracket');
+    return { kind: 'array', items, position };
+  }
+
+  // call: identifier '(' (or (',' or)*)? ')'
+  private parseCall(): ExpressionNode {
+    const { value: name, position } = this.next();
+    if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name)) {
+      throw new ExpressionError(`Unknown function '${name}'`, position);
+    }
+    const arity = EXPRESSION_FUNCTIONS[name as ExpressionFunction];
+
+    return this.nested(position, () => {
+      this.expect('lparen');
+      const args: ExpressionNode[] = [];
+      if (!this.is('rparen')) {
+        args.push(this.parseOr());
+        while (this.is('comma')) {
+          this.next();
+          args.push(this.parseOr());
+        }
+      }
+      this.expect('rparen');
+
+      if (args.length !== arity) {
+        const plural = arity === 1 ? '' : 's';
+        throw new ExpressionError(`${name}() takes ${arity} argument${plural}`, position);
+      }
+      const pattern = args[1];
+      if (name === 'matches' && pattern.kind === 'literal' && typeof pattern.value === 'string') {
+        compilePattern(pattern.value, pattern.position);
+      }
+      return { kind: 'call', name: name as ExpressionFunction, args, position };
+    });
+  }
+
+  // path: identifier ('.' identifier | '[' (number | string) ']')*
+  private parsePath(): ExpressionNode {
+    const { value: root, position } = this.expect('identifier');
+    const segments: PathSegment[] = [];
+
+    for (;;) {
+      if (this.is('dot')) {
+        this.next();
+        const token = this.peek();
+        // Keywords are allowed as property names, e.g. steps.check.in
+        if (token.type !== 'identifier' && token.type !== 'keyword') {
+          this.expect('identifier');
+        }
+        segments.push(this.next().value);
+      } else if (this.is('lbracket')) {
+        this.next();
+        const token = this.peek();
+        if (token.type === 'number' && /^\d+$/.test(token.value)) {
+          segments.push(Number(this.next().value));
+        } else if (token.type === 'string') {
+          segments.push(this.next().value);
+        } else {
+          throw new ExpressionError(
+            'Expected an array index or quoted property name',
+            token.position
+          );
+        }
+        this.expect('rbracket');
+      } else {
+        return { kind: 'path', root, segments, position };
+      }
+    }
+  }
+}
+
+/**
+ * Parse a condition expression
+ * @throws ExpressionError when the expression is malformed
+ */
+export const parseExpression = (expression: string): ExpressionNode => {
+  if (typeof expression !== 'string' || expression.trim() === '') {
+    throw new ExpressionError('Expression is empty', 0);
+  }
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0);
+  }
+  return new ExpressionParser(tokenize(expression)).parse();
+};
@@ -0,0 +1,94 @@
+/**
+ * Outbound HTTP Guard
+ * Keeps playbook HTTP requests off the platform's own network: only http and
+ * https URLs, and never hosts that resolve to loopback, private, link-local
+ * (cloud metadata) or otherwise reserved addresses. Resolved addresses are
+ * checked when each connection is made, through the agents' DNS lookup, so
+ * DNS rebinding cannot get around the check. Node does not look up hosts
+ * given as IP addresses, so those are checked on the URL itself: before the
+ * request and again before following each redirect.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP } from 'net';
+import type { LookupFunction } from 'net';
+import { isReservedIP } from '../ioc-management/utils/addresses';
+
+/**
+ * IPv4 address of an IPv4-mapped IPv6 address (`::ffff:7f00:1` or
+ * `::ffff:127.0.0.1`), or the address itself
+ */
+const unmapped = (address: string): string => {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) return dotted[1];
+
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return address;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [Math.floor(high / 256), high % 256, Math.floor(low / 256), low % 256].join('.');
+};
+
+/**
+ * Whether playbooks must not connect to an IP address
+ */
+export const isBlockedAddress = (address: string): boolean => isReservedIP(unmapped(address));
+
+const refusal = (host: string, address: string): Error => (
+  new Error(`Refusing to connect to ${host}: ${address} is a private or reserved address`)
+);
+
+/**
+ * DNS lookup that fails for hosts resolving to blocked addresses
+ */
+export const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address: any, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address : [{ address, family }];
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked) {
+      callback(refusal(hostname, blocked.address), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+};
+
+/**
+ * Check a URL before requesting it; hosts given as IP addresses are never
+ * looked up, so they are checked here
+ */
+export const checkOutboundUrl = (url: string): URL => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw refusal(parsed.hostname, host);
+  }
+  return parsed;
+};
+
+/**
+ * Agents and redirect hook for axios requests: every connection goes through
+ * the guarded lookup and every redirect target through checkOutboundUrl
+ */
+export const guardedRequestConfig = {
+  httpAgent: new http.Agent({ lookup: guardedLookup }),
+  httpsAgent: new https.Agent({ lookup: guardedLookup }),
+  beforeRedirect: (options: Record<string, any>) => {
+    checkOutboundUrl(options.href);
+  }
+};
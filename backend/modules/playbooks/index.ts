@@ -46,6 +46,21 @@ router.get('/executions/:executionId',
   playbookController.getExecution.bind(playbookController)
 );
 
+router.post('/executions/:executionId/retry',
+  requireCapability(CAPABILITIES.PLAYBOOK_EXECUTE),
+  playbookController.retryExecution.bind(playbookController)
+);
+
+router.post('/executions/:executionId/approve',
+  requireCapability(CAPABILITIES.PLAYBOOK_EXECUTE),
+  playbookController.approve.bind(playbookController)
+);
+
+router.post('/executions/:executionId/reject',
+  requireCapability(CAPABILITIES.PLAYBOOK_EXECUTE),
+  playbookController.reject.bind(playbookController)
+);
+
 router.post('/executions/:executionId/cancel',
   requireCapability(CAPABILITIES.PLAYBOOK_EXECUTE),
   playbookController.cancelExecution.bind(playbookController)
@@ -0,0 +1,304 @@
+/**
+ * Playbook Triggers
+ * Starts active playbooks on incident, IOC and SIEM alert events, and on cron schedules
+ */
+
+import { EventEmitter } from 'events';
+import { executionEngine } from './execution-engine';
+import { parseCron, nextRun } from './cron';
+import type { CronSchedule } from './cron';
+import type {
+  Playbook,
+  PlaybookComponent,
+  TriggerConfig,
+  TriggerRateLimit,
+  TriggerValidationError
+} from './types';
+import { ComponentType, PlaybookStatus, TriggerEvent, TriggerType } from './types';
+import incidentService from '../incident-response/services/incidentService';
+import iocService from '../ioc-management/services/iocService';
+import siemService from '../siem/services/siemService';
+import { booleanLogicEngine, validateFilterGroup } from '../../utils/filtering';
+import { createModuleLogger } from '../../utils/logger';
+
+const DEFAULT_RATE_LIMIT: TriggerRateLimit = { max: 100, window: 3600 };
+
+// Events kept in the trigger data of a debounced execution; the rest are only counted
+const MAX_BATCHED_EVENTS = 100;
+
+// Longest delay setTimeout supports; longer waits are re-armed when it fires
+const MAX_TIMER_DELAY = 2147483647;
+
+const logger = createModuleLogger('playbooks');
+
+type TriggerData = Record<string, any>;
+
+interface Registration {
+  playbook: Playbook;
+  config: TriggerConfig;
+  schedule?: CronSchedule;
+  timer?: NodeJS.Timeout;
+}
+
+interface Batch {
+  events: TriggerData[];
+  count: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Service documents are matched, and passed to executions, as plain objects:
+ * expressions only read own properties, which documents keep out of reach
+ */
+const plain = (entity: any): Record<string, any> => (
+  entity && typeof entity.toObject === 'function' ? entity.toObject() : entity || {}
+);
+
+/**
+ * Check trigger settings up front, so authors see errors on save
+ */
+export const validateTriggers = (components: PlaybookComponent[]): TriggerValidationError[] => {
+  const errors: TriggerValidationError[] = [];
+  const report = (component: PlaybookComponent, message: string) => {
+    errors.push({ component_id: component.id, message });
+  };
+
+  for (const component of components) {
+    if (component.type !== ComponentType.TRIGGER) {
+      continue;
+    }
+    const config = (component.config || {}) as TriggerConfig;
+
+    if (config.triggerType === TriggerType.SCHEDULED) {
+      try {
+        nextRun(parseCron(config.schedule));
+      } catch (error: any) {
+        report(component, error.message);
+      }
+    }
+    if (config.triggerType === TriggerType.EVENT
+      && !Object.values(TriggerEvent).includes(config.eventType)) {
+      report(component, `Unknown trigger event '${config.eventType}'`);
+    }
+    if (config.filters) {
+      const { filters } = config;
+      if (!Array.isArray(filters.filters) || !Array.isArray(filters.filterGroups)) {
+        report(component, 'Filters must have filters and filterGroups arrays');
+      } else {
+        validateFilterGroup(filters).forEach(message => report(component, message));
+      }
+    }
+    if (config.minConfidence !== undefined
+      && !(config.minConfidence >= 0 && config.minConfidence <= 100)) {
+      report(component, 'minConfidence must be between 0 and 100');
+    }
+    if (config.debounce !== undefined && !(config.debounce >= 0)) {
+      report(component, 'debounce must be a number of seconds');
+    }
+    if (config.rateLimit && !(config.rateLimit.max >= 1 && config.rateLimit.window > 0)) {
+      report(component, 'rateLimit needs a max of at least 1 and a window in seconds');
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Each active playbook with an event or scheduled trigger is registered here.
+ * Matching events are debounced and rate limited per playbook before an
+ * execution starts; events over the limit are dropped and logged.
+ */
+export class PlaybookTriggers {
+  private registrations: Map<string, Registration> = new Map();
+  private batches: Map<string, Batch> = new Map();
+  private runs: Map<string, number[]> = new Map();
+  private listeners: Array<[EventEmitter, string, (...args: any[]) => void]> = [];
+
+  /**
+   * Subscribe to service events
+   */
+  start(): void {
+    if (this.listeners.length > 0) {
+      return;
+    }
+
+    this.listen(incidentService, 'incident:created', incident => {
+      this.handleEvent(TriggerEvent.INCIDENT_CREATED, incident, { incident: plain(incident) });
+    });
+    this.listen(incidentService, 'incident:severity_changed', change => {
+      this.handleEvent(TriggerEvent.INCIDENT_SEVERITY_CHANGED, change.incident, {
+        incident: plain(change.incident),
+        previous_severity: change.previous_severity
+      });
+    });
+    this.listen(iocService, 'ioc:created', ioc => {
+      this.handleEvent(TriggerEvent.IOC_CREATED, ioc, { ioc: plain(ioc) });
+    });
+    this.listen(siemService, 'alert:raised', alert => {
+      this.handleEvent(TriggerEvent.SIEM_ALERT_RAISED, alert, { alert: plain(alert) });
+    });
+  }
+
+  /**
+   * Unsubscribe and drop all registrations, pending batches and timers
+   */
+  stop(): void {
+    this.listeners.forEach(([emitter, event, listener]) => emitter.off(event, listener));
+    this.listeners = [];
+    [...this.registrations.keys()].forEach(id => this.unregister(id));
+    this.runs.clear();
+  }
+
+  /**
+   * Register or refresh a playbook's trigger; inactive playbooks are unregistered
+   */
+  register(playbook: Playbook): void {
+    this.unregister(playbook.id);
+
+    const trigger = playbook.components?.find(component => (
+      component.type === ComponentType.TRIGGER
+    ));
+    const config = trigger?.config as TriggerConfig;
+    if (playbook.status !== PlaybookStatus.ACTIVE || !config) {
+      return;
+    }
+
+    const registration: Registration = { playbook, config };
+    if (config.triggerType === TriggerType.SCHEDULED) {
+      registration.schedule = parseCron(config.schedule);
+      this.arm(registration);
+    } else if (config.triggerType !== TriggerType.EVENT) {
+      return;
+    }
+
+    this.registrations.set(playbook.id, registration);
+  }
+
+  /**
+   * Stop triggering a playbook; events waiting in its debounce window are dropped
+   */
+  unregister(playbookId: string): void {
+    const registration = this.registrations.get(playbookId);
+    if (registration?.timer) {
+      clearTimeout(registration.timer);
+    }
+    const batch = this.batches.get(playbookId);
+    if (batch) {
+      clearTimeout(batch.timer);
+    }
+
+    this.registrations.delete(playbookId);
+    this.batches.delete(playbookId);
+  }
+
+  /**
+   * Start every playbook whose trigger matches the event
+   */
+  handleEvent(event: TriggerEvent, entity: any, data: TriggerData): void {
+    const subject = plain(entity);
+
+    for (const registration of this.registrations.values()) {
+      const { config } = registration;
+      if (config.triggerType !== TriggerType.EVENT || config.eventType !== event) {
+        continue;
+      }
+      if (event === TriggerEvent.IOC_CREATED && config.minConfidence !== undefined
+        && !(subject.confidence >= config.minConfidence)) {
+        continue;
+      }
+      if (config.filters && !booleanLogicEngine.evaluate(config.filters, subject)) {
+        continue;
+      }
+
+      const triggerData = { event, ...data, fired_at: new Date() };
+      if (config.debounce > 0) {
+        this.debounce(registration, triggerData);
+      } else {
+        this.launch(registration, triggerData);
+      }
+    }
+  }
+
+  private listen(emitter: EventEmitter, event: string, listener: (payload: any) => void): void {
+    emitter.on(event, listener);
+    this.listeners.push([emitter, event, listener]);
+  }
+
+  /**
+   * Collect events from the first one until the window ends, then start one
+   * execution with the first event's data plus `events` and `event_count`
+   */
+  private debounce(registration: Registration, triggerData: TriggerData): void {
+    const { id } = registration.playbook;
+    const batch = this.batches.get(id);
+
+    if (batch) {
+      batch.count += 1;
+      if (batch.events.length < MAX_BATCHED_EVENTS) {
+        batch.events.push(triggerData);
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const { events, count } = this.batches.get(id);
+      this.batches.delete(id);
+      this.launch(registration, { ...events[0], events, event_count: count });
+    }, registration.config.debounce * 1000);
+    timer.unref();
+
+    this.batches.set(id, { events: [triggerData], count: 1, timer });
+  }
+
+  /**
+   * Arm the timer for the next scheduled run
+   */
+  private arm(registration: Registration): void {
+    const due = nextRun(registration.schedule);
+    const delay = Math.min(due.getTime() - Date.now(), MAX_TIMER_DELAY);
+
+    registration.timer = setTimeout(() => {
+      if (Date.now() >= due.getTime()) {
+        this.launch(registration, { event: 'schedule', scheduled_at: due });
+      }
+      this.arm(registration);
+    }, delay);
+    registration.timer.unref();
+  }
+
+  /**
+   * Start an execution as the playbook's author, unless the rate limit is reached
+   */
+  private launch(registration: Registration, triggerData: TriggerData): void {
+    const { playbook, config } = registration;
+    const { max, window } = config.rateLimit || DEFAULT_RATE_LIMIT;
+    const now = Date.now();
+    const runs = (this.runs.get(playbook.id) || []).filter(time => time > now - window * 1000);
+
+    if (runs.length >= max) {
+      this.runs.set(playbook.id, runs);
+      logger.warn('Playbook trigger rate limit reached, event dropped', {
+        playbookId: playbook.id,
+        event: triggerData.event,
+        max,
+        window
+      });
+      return;
+    }
+
+    runs.push(now);
+    this.runs.set(playbook.id, runs);
+
+    executionEngine.execute(playbook, playbook.created_by, triggerData).catch(error => {
+      logger.error('Failed to start triggered playbook', {
+        playbookId: playbook.id,
+        error: error.message
+      });
+    });
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const playbookTriggers = new PlaybookTriggers();
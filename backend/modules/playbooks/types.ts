@@ -3,6 +3,8 @@
  * Adapted from OpenCTI Platform
  */
 
+import type { FilterGroup } from '../../utils/filtering';
+
 export enum PlaybookStatus {
   DRAFT = 'draft',
   ACTIVE = 'active',
@@ -15,7 +17,8 @@ export enum ExecutionStatus {
   RUNNING = 'running',
   COMPLETED = 'completed',
   FAILED = 'failed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  WAITING = 'waiting' // Suspended until an approval decision or a point in time
 }
 
 export enum ComponentType {
@@ -23,7 +26,9 @@ export enum ComponentType {
   CONDITION = 'condition',
   ACTION = 'action',
   LOOP = 'loop',
-  PARALLEL = 'parallel'
+  PARALLEL = 'parallel',
+  APPROVAL = 'approval',
+  WAIT = 'wait'
 }
 
 export enum TriggerType {
@@ -37,6 +42,7 @@ export enum ActionType {
   CREATE_INCIDENT = 'create_incident',
   UPDATE_ENTITY = 'update_entity',
   SEND_NOTIFICATION = 'send_notification',
+  CREATE_IOC = 'create_ioc',
   ENRICH_IOC = 'enrich_ioc',
   RUN_QUERY = 'run_query',
   HTTP_REQUEST = 'http_request',
@@ -70,17 +76,35 @@ export type ComponentConfig =
   | ConditionConfig 
   | ActionConfig 
   | LoopConfig 
-  | ParallelConfig;
+  | ParallelConfig
+  | ApprovalConfig
+  | WaitConfig;
+
+export enum TriggerEvent {
+  INCIDENT_CREATED = 'incident.created',
+  INCIDENT_SEVERITY_CHANGED = 'incident.severity_changed',
+  IOC_CREATED = 'ioc.created',
+  SIEM_ALERT_RAISED = 'siem_alert.raised'
+}
 
 export interface TriggerConfig {
   triggerType: TriggerType;
-  schedule?: string; // Cron expression
-  eventType?: string;
+  schedule?: string; // Cron expression, in UTC
+  eventType?: TriggerEvent;
   webhookUrl?: string;
+  filters?: FilterGroup; // Matched against the incident, IOC or alert
+  minConfidence?: number; // IOC events only, 0-100
+  debounce?: number; // Seconds; events within the window start one execution
+  rateLimit?: TriggerRateLimit; // Defaults to 100 executions an hour
+}
+
+export interface TriggerRateLimit {
+  max: number;
+  window: number; // Seconds
 }
 
 export interface ConditionConfig {
-  expression: string; // JavaScript expression
+  expression: string; // Condition expression, see expression-parser.ts
   trueNext?: string;
   falseNext?: string;
 }
@@ -88,31 +112,57 @@ export interface ConditionConfig {
 export interface ActionConfig {
   actionType: ActionType;
   parameters: Record<string, any>;
+  outputVariable?: string; // Also store the output under this variable name
 }
 
 export interface LoopConfig {
-  collection: string; // Variable name
+  collection: string; // Variable name or dotted path
   itemVariable: string;
   body: string[]; // Component IDs
+  maxIterations?: number;
 }
 
+export type ParallelMode = 'wait_all' | 'fail_fast';
+
 export interface ParallelConfig {
   branches: string[][]; // Array of component ID arrays
+  mode?: ParallelMode; // Defaults to wait_all
+}
+
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export interface ApprovalConfig {
+  approvers: string[] | string; // User IDs, or a reference such as {{incident.owners}}
+  message?: string;
+  timeout?: number; // Seconds; without one the approval waits indefinitely
+  timeoutDecision?: ApprovalDecision; // Branch taken on timeout, defaults to rejected
+  approvedNext?: string;
+  rejectedNext?: string;
+}
+
+export interface WaitConfig {
+  duration?: number; // Seconds
+  until?: string; // ISO 8601 timestamp, or a reference to one
 }
 
 export interface PlaybookExecution {
   id: string;
   playbook_id: string;
+  playbook_name?: string;
   status: ExecutionStatus;
   started_at: Date;
   completed_at?: Date;
   triggered_by: string;
   trigger_data?: any;
   steps: ExecutionStep[];
+  attempts?: number; // Incremented by each retry or resume
+  outputs?: Record<string, any>; // Step outputs by component ID, once completed
   error?: string;
 }
 
 export interface ExecutionStep {
+  key?: string; // Component ID, prefixed by enclosing loop iterations and parallel branches
+  attempt?: number;
   component_id: string;
   component_name: string;
   status: ExecutionStatus;
@@ -121,10 +171,74 @@ export interface ExecutionStep {
   input?: any;
   output?: any;
   error?: string;
+  resume_at?: Date; // When a waiting step times out or its wait ends
+  approval?: ApprovalRecord;
+}
+
+export interface ApprovalRecord {
+  approvers: string[];
+  message?: string;
+  requested_at: Date;
+  timeout_at?: Date;
+  timeout_decision: ApprovalDecision;
+  decision?: ApprovalDecision;
+  decided_by?: string; // Unset when the approval timed out
+  decided_at?: Date;
+  reason?: string;
+  timed_out?: boolean;
 }
 
 export interface ExecutionContext {
   execution_id: string;
-  variables: Record<string, any>;
+  variables: Record<string, any>; // Trigger data, plus step outputs under `steps.<component id>`
   user_id: string;
+  abort?: { aborted: boolean }; // Set on cancellation, or when a fail-fast parallel branch fails
+  path?: string; // Step key prefix of the enclosing loop iteration or parallel branch
+  completed?: Map<string, ExecutionStep>; // Steps of earlier attempts, replayed when resuming
+}
+
+// ========================================
+// Condition Expressions
+// ========================================
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type MembershipOperator = 'in' | 'not in' | 'contains' | 'matches';
+
+export type ExpressionFunction =
+  | 'len'
+  | 'exists'
+  | 'lower'
+  | 'upper'
+  | 'contains'
+  | 'matches'
+  | 'startsWith'
+  | 'endsWith';
+
+export type PathSegment = string | number;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean | null; position: number }
+  | { kind: 'array'; items: ExpressionNode[]; position: number }
+  | { kind: 'path'; root: string; segments: PathSegment[]; position: number }
+  | { kind: 'not'; operand: ExpressionNode; position: number }
+  | { kind: 'logical'; operator: 'and' | 'or'; operands: ExpressionNode[]; position: number }
+  | {
+    kind: 'comparison';
+    operator: ComparisonOperator | MembershipOperator;
+    left: ExpressionNode;
+    right: ExpressionNode;
+    position: number;
+  }
+  | { kind: 'call'; name: ExpressionFunction; args: ExpressionNode[]; position: number };
+
+export interface ExpressionValidationError {
+  component_id: string;
+  message: string;
+  position: number;
+}
+
+export interface TriggerValidationError {
+  component_id: string;
+  message: string;
 }
@@ -55,6 +55,36 @@ describe('ReportController', () => {
     });
   });
 
+  describe('ingest', () => {
+    it('should create a report from its text', async () => {
+      const mockItem = {
+        id: 'test-123',
+        name: 'Vendor Report',
+        metadata: { iocs: [{ type: 'domain', value: 'update-cdn.top', occurrences: 1 }] },
+      };
+
+      req.body = { name: 'Vendor Report', text: 'C2 at update-cdn[.]top', format: 'pdf' };
+      (reportService.ingest as jest.Mock).mockResolvedValue(mockItem);
+
+      await reportController.ingest(req, res);
+
+      expect(reportService.ingest).toHaveBeenCalledWith(req.body);
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith(mockItem);
+    });
+
+    it('should handle errors when ingesting report', async () => {
+      const error = new Error('Database connection failed');
+      req.body = { name: 'Vendor Report', text: 'C2 at update-cdn[.]top' };
+      (reportService.ingest as jest.Mock).mockRejectedValue(error);
+
+      await reportController.ingest(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: error.message });
+    });
+  });
+
   describe('getById', () => {
     it('should retrieve a report by ID successfully', async () => {
       const mockItem = {
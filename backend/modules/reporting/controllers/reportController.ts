@@ -10,6 +10,15 @@ class ReportController {
     }
   }
 
+  async ingest(req, res) {
+    try {
+      const item = await reportService.ingest(req.body);
+      res.status(201).json(item);
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+
   async getById(req, res) {
     try {
       const item = await reportService.getById(req.params.id);
@@ -5,9 +5,10 @@ import validatorSchemas from '../validators/reportValidator';
 
 const router = express.Router();
 
-const { reportSchema, reportUpdateSchema } = validatorSchemas;
+const { reportSchema, reportUpdateSchema, reportIngestSchema } = validatorSchemas;
 
 router.post('/', validate({ body: reportSchema }), reportController.create);
+router.post('/ingest', validate({ body: reportIngestSchema }), reportController.ingest);
 router.get('/', reportController.list);
 router.get('/:id', validate({ params: Joi.object({ id: commonSchemas.objectId.required() }) }), reportController.getById);
 router.put('/:id', validate({
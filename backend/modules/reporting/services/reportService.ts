@@ -13,6 +13,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import Report from '../models/Report';
 import logger from '../utils/logger';
+import iocExtractor from '../../ioc-management/services/iocExtractor';
+import type { IoCSource } from '../../ioc-management/types';
 import type {
   ReportTemplate,
   TemplateSection,
@@ -50,6 +52,44 @@ class ReportService {
     return item;
   }
 
+  /**
+   * Create a report from its text (pasted, converted from a PDF or an email
+   * body), keeping the indicators found in it in `metadata.iocs`. With
+   * `record`, the indicators that can be IoCs are recorded under `source`.
+   */
+  async ingest(data: {
+    name: string;
+    description?: string;
+    text: string;
+    format?: 'text' | 'pdf' | 'email';
+    tags?: string[];
+    allowList?: string[];
+    record?: boolean;
+    source?: IoCSource;
+  }) {
+    const { indicators, dropped } = iocExtractor.extract(data.text, { allowList: data.allowList });
+    const recorded = data.record ? await iocExtractor.record(indicators, data.source) : undefined;
+
+    const item = new Report({
+      name: data.name,
+      description: data.description,
+      tags: data.tags,
+      metadata: {
+        ingestion: {
+          format: data.format || 'text',
+          length: data.text.length,
+          ingestedAt: new Date(),
+          dropped,
+          ...(recorded && { recorded }),
+        },
+        iocs: indicators,
+      },
+    });
+    await item.save();
+    logger.info(`Report ingested: ${item.id}`, { indicators: indicators.length });
+    return item;
+  }
+
   async getById(id: string) {
     const item = await Report.findOne({ id });
     if (!item) throw new Error('Report not found');
@@ -3,6 +3,7 @@
  */
 
 import Joi from 'joi';
+import { MAX_EXTRACT_TEXT_LENGTH } from '../../ioc-management/config/extraction';
 
 // Create/Update report schema
 const reportSchema = Joi.object({
@@ -48,7 +49,28 @@ const reportUpdateSchema = Joi.object({
   tags: Joi.array().items(Joi.string()).optional(),
 }).min(1);
 
+// Ingest schema: a report from its text, with the indicators found in it
+const reportIngestSchema = Joi.object({
+  name: Joi.string().min(3).max(500).required(),
+  description: Joi.string().optional(),
+  text: Joi.string().max(MAX_EXTRACT_TEXT_LENGTH).required(),
+  // Where the text came from: pasted, converted from a PDF, or an email body
+  format: Joi.string().valid('text', 'pdf', 'email').default('text'),
+  tags: Joi.array().items(Joi.string()).optional(),
+  allowList: Joi.array().items(Joi.string().hostname()).optional(),
+  // Record the indicators that can be IoCs, under the given source
+  record: Joi.boolean().default(false),
+  source: Joi.object({
+    name: Joi.string().required(),
+    reliability: Joi.number().min(0).max(100).default(50),
+    sourceType: Joi.string().valid('commercial', 'open_source', 'internal', 'community')
+      .default('open_source'),
+    url: Joi.string().uri().optional(),
+  }).when('record', { is: true, then: Joi.required() }),
+});
+
 export default {
   reportSchema,
   reportUpdateSchema,
+  reportIngestSchema,
 };
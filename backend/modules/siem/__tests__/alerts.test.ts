@@ -0,0 +1,191 @@
+/**
+ * Test suite for SIEM alert storage, grouping, suppression and assignment
+ */
+
+import { auditLogService } from '../../../services/AuditLogService';
+import {
+  setAlertStore, MemoryAlertStore, setSearchStore, MemorySearchStore,
+} from '../storage';
+import { toAlertFilter } from '../storage/mongoAlertStore';
+import siemService from '../services/siemService';
+import type { DetectionRule, NormalizedEvent } from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+jest.mock('../../../services/AuditLogService', () => ({
+  auditLogService: { logAction: jest.fn() },
+}));
+
+const event = (id: string, fields: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  id,
+  timestamp: new Date(),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'authentication',
+  eventType: 'auth_failure',
+  message: `Failed login ${id}`,
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+describe('SIEM alert lifecycle', () => {
+  let store: MemoryAlertStore;
+  let rule: DetectionRule;
+
+  const raise = async (id: string, fields: Partial<NormalizedEvent>) => (
+    (await siemService.evaluateRules(event(id, fields), [rule]))[0]
+  );
+
+  beforeEach(async () => {
+    store = new MemoryAlertStore();
+    setAlertStore(store);
+    setSearchStore(new MemorySearchStore());
+    siemService.configureAlerts({ groupWindow: 3600, maxGroupedEvents: 1000 });
+    rule = await siemService.createDetectionRule({
+      name: 'Failed login',
+      description: '',
+      type: 'pattern_match',
+      enabled: true,
+      severity: 'medium',
+      conditions: [{ field: 'eventType', operator: 'equals', value: 'auth_failure' }],
+      actions: [],
+      tags: [],
+      createdBy: 'user-1',
+    });
+  });
+
+  it('should group duplicates under one parent and count occurrences', async () => {
+    const raised = jest.fn();
+    const grouped = jest.fn();
+    siemService.on('alert:raised', raised);
+    siemService.on('alert:grouped', grouped);
+
+    const parent = await raise('e1', { sourceIp: '203.0.113.9', username: 'root' });
+    const duplicate = await raise('e2', { sourceIp: '203.0.113.9', username: 'root' });
+    const other = await raise('e3', { sourceIp: '198.51.100.1', username: 'root' });
+    siemService.off('alert:raised', raised);
+    siemService.off('alert:grouped', grouped);
+
+    expect(duplicate.parentId).toBe(parent.id);
+    expect(other.parentId).toBeUndefined();
+    expect(raised).toHaveBeenCalledTimes(2);
+    expect(grouped).toHaveBeenCalledWith(duplicate, expect.objectContaining({ id: parent.id }));
+
+    const { total, alerts } = await siemService.listAlerts();
+    expect(total).toBe(2);
+    expect(await siemService.getAlert(parent.id)).toMatchObject({
+      occurrences: 2, events: ['e1', 'e2'],
+    });
+    expect((await siemService.listAlerts({ parentId: parent.id })).alerts.map((a) => a.id))
+      .toEqual([duplicate.id]);
+    expect(alerts.map((alert) => alert.occurrences).sort()).toEqual([1, 2]);
+  });
+
+  it('should raise a new parent once the previous one is resolved', async () => {
+    const first = await raise('e1', { hostname: 'web-1' });
+    await siemService.updateAlertStatus(first.id, 'false_positive', 'user-1');
+    const second = await raise('e2', { hostname: 'web-1' });
+
+    expect(second.parentId).toBeUndefined();
+    expect(second.occurrences).toBe(1);
+  });
+
+  it('should stop adding events to a parent past the cap', async () => {
+    siemService.configureAlerts({ maxGroupedEvents: 2 });
+    const parent = await raise('e1', { hostname: 'web-2' });
+    await raise('e2', { hostname: 'web-2' });
+    await raise('e3', { hostname: 'web-2' });
+
+    expect(await siemService.getAlert(parent.id)).toMatchObject({
+      occurrences: 3, events: ['e1', 'e2'],
+    });
+  });
+
+  it('should drop alerts covered by an active suppression and count its hits', async () => {
+    const suppression = await siemService.createAlertSuppression({
+      ruleId: rule.id,
+      fields: { sourceIp: '10.0.0.5', username: 'scanner' },
+      reason: 'Vulnerability scanner',
+      expiresAt: new Date(Date.now() + 60000),
+    }, 'user-1');
+    await siemService.createAlertSuppression({
+      ruleId: rule.id,
+      fields: { hostname: 'lab-1' },
+      reason: 'Lab host, expired',
+      expiresAt: new Date(Date.now() - 1000),
+    }, 'user-1');
+
+    expect(await raise('e1', { sourceIp: '10.0.0.5', username: 'scanner' })).toBeUndefined();
+    expect(await raise('e2', { sourceIp: '10.0.0.5', username: 'alice' })).toBeDefined();
+    expect(await raise('e3', { hostname: 'lab-1' })).toBeDefined();
+
+    const active = await siemService.listAlertSuppressions({ active: true });
+    expect(active).toEqual([expect.objectContaining({ id: suppression.id, hits: 1 })]);
+    expect(await siemService.listAlertSuppressions({ ruleId: rule.id })).toHaveLength(2);
+
+    await siemService.deleteAlertSuppression(suppression.id, 'user-1');
+    expect(await raise('e4', { sourceIp: '10.0.0.5', username: 'scanner' })).toBeDefined();
+    await expect(siemService.createAlertSuppression({
+      ruleId: 'unknown', fields: {}, reason: 'x',
+    }, 'user-1')).rejects.toThrow('Rule not found');
+  });
+
+  it('should keep detection rules in the alert store', async () => {
+    expect(await store.getRule(rule.id)).toMatchObject({ name: 'Failed login' });
+    await siemService.updateDetectionRule(rule.id, { enabled: false });
+    expect(await store.findRules({ enabled: true })).toEqual([]);
+
+    setAlertStore(new MemoryAlertStore());
+    await expect(siemService.getDetectionRule(rule.id)).rejects.toThrow('not found');
+    setAlertStore(store);
+    expect(await siemService.getDetectionRule(rule.id)).toMatchObject({ enabled: false });
+  });
+
+  it('should assign alerts and audit every change', async () => {
+    const alert = await raise('e1', { username: 'bob' });
+
+    const assigned = await siemService.assignAlert(alert.id, 'analyst-7', 'user-1');
+    expect(assigned).toMatchObject({ assignee: 'analyst-7', assignedAt: expect.any(Date) });
+    expect((await siemService.listAlerts({ assignee: 'analyst-7' })).total).toBe(1);
+    const unassigned = await siemService.assignAlert(alert.id, null, 'user-1');
+    expect(unassigned.assignee).toBeUndefined();
+    await siemService.updateAlertStatus(alert.id, 'acknowledged', 'user-2');
+
+    expect((auditLogService.logAction as jest.Mock).mock.calls).toEqual([
+      ['user-1', 'siem.alert.assigned', 'siem_alert', alert.id, { from: null, to: 'analyst-7' }],
+      ['user-1', 'siem.alert.assigned', 'siem_alert', alert.id, { from: 'analyst-7', to: null }],
+      ['user-2', 'siem.alert.status_changed', 'siem_alert', alert.id, {
+        from: 'new', to: 'acknowledged',
+      }],
+    ]);
+  });
+
+  it('should keep the change when the audit log cannot be written', async () => {
+    (auditLogService.logAction as jest.Mock).mockRejectedValue(new Error('database down'));
+    const alert = await raise('e1', { username: 'carol' });
+
+    await expect(siemService.updateAlertStatus(alert.id, 'acknowledged', 'user-1'))
+      .resolves.toMatchObject({ status: 'acknowledged' });
+  });
+
+  it('should translate alert filters into MongoDB filters', () => {
+    expect(toAlertFilter({ status: ['new'], assignee: 'analyst-7' })).toEqual({
+      parentId: { $exists: false }, status: { $in: ['new'] }, assignee: 'analyst-7',
+    });
+    expect(toAlertFilter({ parentId: 'alert-1' })).toEqual({ parentId: 'alert-1' });
+    expect(toAlertFilter({ escalationCorrelationId: 'corr-1' })).toEqual({
+      parentId: { $exists: false }, 'escalation.correlationIds': 'corr-1',
+    });
+  });
+});
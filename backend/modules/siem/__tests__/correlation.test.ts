@@ -0,0 +1,266 @@
+/**
+ * Test suite for the SIEM streaming correlation engine
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CorrelationEngine } from '../correlation';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+} from '../storage';
+import siemService from '../services/siemService';
+import type {
+  Alert, NormalizedEvent, RuleExpression, StreamingCorrelationRule,
+} from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+const START = Date.parse('2024-01-01T00:00:00Z');
+
+const event = (
+  id: string,
+  seconds: number,
+  fields: Partial<NormalizedEvent> = {},
+): NormalizedEvent => ({
+  id,
+  timestamp: new Date(START + seconds * 1000),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'authentication',
+  eventType: 'auth_failure',
+  message: `Event ${id}`,
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+const eventType = (value: string): RuleExpression => ({
+  type: 'condition', condition: { field: 'eventType', operator: 'equals', value },
+});
+
+const rule = (fields: Record<string, any>): StreamingCorrelationRule => ({
+  id: 'rule-1',
+  name: 'Test rule',
+  description: '',
+  enabled: true,
+  severity: 'high',
+  groupBy: ['username'],
+  window: { type: 'sliding', size: 60 },
+  tags: [],
+  createdAt: new Date(),
+  createdBy: 'tester',
+  ...fields,
+} as StreamingCorrelationRule);
+
+const createEngine = (options: Record<string, number> = {}) => new CorrelationEngine({
+  maxKeys: 100,
+  maxEntriesPerKey: 100,
+  tickInterval: 5,
+  snapshotInterval: 60,
+  ...options,
+});
+
+describe('CorrelationEngine', () => {
+  it('should fire a sliding threshold once per burst and per group key', () => {
+    const engine = createEngine();
+    engine.setRule(rule({ type: 'threshold', match: eventType('auth_failure'), count: 3 }));
+
+    expect(engine.process(event('a1', 0, { username: 'alice' }))).toEqual([]);
+    expect(engine.process(event('b1', 1, { username: 'bob' }))).toEqual([]);
+    expect(engine.process(event('a2', 5, { username: 'alice' }))).toEqual([]);
+    // Outside the window of a1: only a2 and a3 count
+    expect(engine.process(event('a3', 61, { username: 'alice' }))).toEqual([]);
+    const [match] = engine.process(event('a4', 62, { username: 'alice' }));
+
+    expect(match).toMatchObject({
+      ruleId: 'rule-1', type: 'threshold', key: 'alice', events: ['a2', 'a3', 'a4'],
+    });
+    expect(match.details).toEqual({ count: 3 });
+    expect(engine.process(event('a5', 63, { username: 'alice' }))).toEqual([]);
+  });
+
+  it('should count distinct values in tumbling windows', () => {
+    const engine = createEngine();
+    engine.setRule(rule({
+      type: 'threshold',
+      groupBy: ['sourceIp'],
+      window: { type: 'tumbling', size: 60 },
+      match: eventType('auth_failure'),
+      distinctField: 'username',
+      distinctCount: 3,
+    }));
+    const from = (id: string, seconds: number, username: string) => engine.process(
+      event(id, seconds, { sourceIp: '10.0.0.5', username }),
+    );
+
+    from('e1', 10, 'alice');
+    from('e2', 20, 'alice');
+    from('e3', 59, 'bob');
+    // New bucket: the earlier users no longer count
+    expect(from('e4', 61, 'carol')).toEqual([]);
+    from('e5', 70, 'dave');
+    const [match] = from('e6', 80, 'erin');
+
+    expect(match.windowStart).toEqual(new Date(START + 60000));
+    expect(match.windowEnd).toEqual(new Date(START + 120000));
+    expect(match.details).toEqual({ count: 3, distinctCount: 3 });
+    expect(from('e7', 90, 'frank')).toEqual([]);
+  });
+
+  it('should match sequences in order within the window', () => {
+    const engine = createEngine();
+    engine.setRule(rule({
+      type: 'sequence',
+      window: { type: 'sliding', size: 300 },
+      steps: [
+        { name: 'failure', match: eventType('auth_failure') },
+        { name: 'success', match: eventType('auth_success') },
+        { name: 'escalation', match: eventType('privilege_escalation') },
+      ],
+    }));
+    const as = (id: string, seconds: number, type: string, username = 'alice') => engine.process(
+      event(id, seconds, { eventType: type, username }),
+    );
+
+    expect(as('s0', 0, 'auth_success')).toEqual([]);
+    as('f1', 10, 'auth_failure');
+    as('x1', 20, 'privilege_escalation', 'bob');
+    as('s1', 30, 'auth_success');
+    const [match] = as('p1', 40, 'privilege_escalation');
+
+    expect(match).toMatchObject({ type: 'sequence', events: ['f1', 's1', 'p1'] });
+    expect(match.details.steps).toEqual(['failure', 'success', 'escalation']);
+
+    as('f2', 100, 'auth_failure');
+    as('s2', 200, 'auth_success');
+    // Run started at 100 has expired by 401
+    expect(as('p2', 401, 'privilege_escalation')).toEqual([]);
+  });
+
+  it('should fire absence rules when the expected event does not follow', () => {
+    const engine = createEngine();
+    engine.setRule(rule({
+      type: 'absence',
+      groupBy: ['hostname'],
+      window: { type: 'sliding', size: 120 },
+      trigger: eventType('backup_started'),
+      expected: eventType('backup_completed'),
+    }));
+    const listener = jest.fn();
+    engine.on('match', listener);
+
+    engine.process(event('t1', 0, { hostname: 'db-1', eventType: 'backup_started' }));
+    engine.process(event('t2', 0, { hostname: 'db-2', eventType: 'backup_started' }));
+    engine.process(event('c2', 60, { hostname: 'db-2', eventType: 'backup_completed' }));
+
+    expect(engine.advance(START + 119000)).toEqual([]);
+    const matches = engine.advance(START + 120000);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ type: 'absence', key: 'db-1', events: ['t1'] });
+    expect(listener).toHaveBeenCalledWith(matches[0]);
+    expect(engine.advance(START + 240000)).toEqual([]);
+  });
+
+  it('should evict the least recently used keys when state is full', () => {
+    const engine = createEngine({ maxKeys: 2, maxEntriesPerKey: 2 });
+    engine.setRule(rule({ type: 'threshold', match: eventType('auth_failure'), count: 5 }));
+
+    engine.process(event('a1', 0, { username: 'alice' }));
+    engine.process(event('b1', 1, { username: 'bob' }));
+    engine.process(event('a2', 2, { username: 'alice' }));
+    engine.process(event('c1', 3, { username: 'carol' }));
+    engine.process(event('a3', 4, { username: 'alice' }));
+
+    expect(engine.stats()).toMatchObject({
+      rules: 1, keys: 2, entries: 3, processed: 5, evictedKeys: 1, evictedEntries: 1,
+    });
+  });
+
+  it('should restore open windows from a snapshot', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'siem-correlation-'));
+    const path = join(dir, 'nested', 'snapshot.json');
+    const thresholdRule = rule({ type: 'threshold', match: eventType('auth_failure'), count: 3 });
+    try {
+      const engine = createEngine();
+      engine.setRule(thresholdRule);
+      engine.process(event('a1', 0, { username: 'alice' }));
+      engine.process(event('a2', 1, { username: 'alice' }));
+      await engine.saveSnapshot(path);
+
+      const restored = createEngine();
+      restored.setRule(thresholdRule);
+      expect(await restored.loadSnapshot(path)).toBe(true);
+      const [match] = restored.process(event('a3', 2, { username: 'alice' }));
+
+      expect(match.events).toEqual(['a1', 'a2', 'a3']);
+      expect(await restored.loadSnapshot(join(dir, 'missing.json'))).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SiemService correlation rules', () => {
+  const store = new MemoryEventStore();
+
+  beforeAll(() => {
+    setEventStore(store);
+    setAlertStore(new MemoryAlertStore());
+  });
+
+  it('should raise an alert and tag the events when a rule matches', async () => {
+    const created = await siemService.createCorrelationRule({
+      name: 'Password spray',
+      description: 'Failures for many users from one address',
+      type: 'threshold',
+      enabled: true,
+      severity: 'high',
+      groupBy: ['sourceIp'],
+      window: { type: 'sliding', size: 300 },
+      tags: ['credential-access'],
+      match: eventType('auth_failure'),
+      distinctField: 'username',
+      distinctCount: 2,
+      createdBy: 'analyst',
+    });
+    const raised = new Promise<Alert>((resolve) => {
+      siemService.once('alert:raised', resolve);
+    });
+
+    await siemService.ingestLog(JSON.stringify({
+      eventType: 'auth_failure', sourceIp: '10.1.1.1', username: 'alice',
+    }), 'json');
+    await siemService.ingestLog(JSON.stringify({
+      eventType: 'auth_failure', sourceIp: '10.1.1.1', username: 'bob',
+    }), 'json');
+    const alert = await raised;
+
+    expect(alert).toMatchObject({
+      ruleId: created.id,
+      ruleName: 'Password spray',
+      severity: 'high',
+      tags: ['credential-access'],
+      metadata: expect.objectContaining({
+        ruleType: 'correlation', correlationType: 'threshold', key: '10.1.1.1', distinctCount: 2,
+      }),
+    });
+    expect(alert.events).toHaveLength(2);
+    const stored = await store.find({ fields: { correlationId: alert.metadata.correlationId } });
+    expect(stored.map((item) => item.id).sort()).toEqual([...alert.events].sort());
+    expect(await siemService.getCorrelationRule(created.id)).toEqual(created);
+    await siemService.deleteCorrelationRule(created.id);
+    await expect(siemService.getCorrelationRule(created.id)).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Test suite for escalating SIEM alerts to incidents and cases
+ */
+
+import incidentService from '../../incident-response/services/incidentService';
+import { caseManagementService } from '../../case-management/service';
+import { auditLogService } from '../../../services/AuditLogService';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+} from '../storage';
+import siemService from '../services/siemService';
+import type { DetectionRule, NormalizedEvent } from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+jest.mock('../../../services/AuditLogService', () => ({
+  auditLogService: { logAction: jest.fn() },
+}));
+
+jest.mock('../../incident-response/services/incidentService', () => ({
+  __esModule: true,
+  default: {
+    createIncident: jest.fn(),
+    getIncident: jest.fn(),
+    updateIncident: jest.fn(),
+    addEvidence: jest.fn(),
+    addTimelineEvents: jest.fn(),
+    deleteIncident: jest.fn(),
+  },
+}));
+
+const incidents = incidentService as jest.Mocked<typeof incidentService>;
+
+const START = Date.parse('2024-03-01T10:00:00Z');
+
+const event = (id: string, seconds: number, fields: Partial<NormalizedEvent> = {}) => ({
+  id,
+  timestamp: new Date(START + seconds * 1000),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'authentication',
+  eventType: 'auth_failure',
+  message: `Failed login ${id}`,
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+} as NormalizedEvent);
+
+describe('SIEM alert escalation', () => {
+  let events: MemoryEventStore;
+  let rule: DetectionRule;
+
+  const raise = async (item: NormalizedEvent) => {
+    await events.insert(item);
+    return (await siemService.evaluateRules(item, [rule]))[0];
+  };
+
+  beforeEach(async () => {
+    events = new MemoryEventStore();
+    setEventStore(events);
+    setAlertStore(new MemoryAlertStore());
+    rule = await siemService.createDetectionRule({
+      name: 'Failed login',
+      description: 'Repeated failed logins',
+      type: 'pattern_match',
+      enabled: true,
+      severity: 'high',
+      conditions: [{ field: 'eventType', operator: 'equals', value: 'auth_failure' }],
+      actions: [],
+      tags: ['credential-access'],
+      createdBy: 'user-1',
+    });
+    incidents.createIncident.mockImplementation(async (data) => ({
+      ...data, id: 'incident-1', ticket_number: 'INC-2024-0001', status: 'new',
+    }));
+  });
+
+  it('should create an incident carrying the events as evidence and timeline', async () => {
+    const alert = await raise(event('e1', 0, { sourceIp: '203.0.113.5', correlationId: 'corr-1' }));
+
+    const escalated = await siemService.escalateAlert(alert.id, {
+      target: 'incident', category: 'unauthorized_access',
+    }, 'user-1');
+
+    expect(incidents.createIncident).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Failed login',
+      severity: 'high',
+      priority: 'high',
+      category: 'unauthorized_access',
+      reported_by: 'user-1',
+      tags: ['credential-access'],
+      metadata: { siem: { alertIds: [alert.id], correlationIds: ['corr-1'] } },
+    }));
+    expect(incidents.addEvidence).toHaveBeenCalledWith('incident-1', expect.objectContaining({
+      type: 'log',
+      collected_by: 'user-1',
+      metadata: expect.objectContaining({
+        alertId: alert.id, events: [expect.objectContaining({ id: 'e1' })],
+      }),
+    }));
+    const [, timeline] = incidents.addTimelineEvents.mock.calls[0];
+    expect(timeline.map((entry) => entry.event_type)).toEqual(['siem_event', 'escalated']);
+    expect(timeline[0]).toMatchObject({
+      timestamp: new Date(START),
+      metadata: { eventId: 'e1', sourceIp: '203.0.113.5' },
+    });
+
+    expect(escalated.escalation).toMatchObject({
+      target: 'incident',
+      id: 'incident-1',
+      reference: 'INC-2024-0001',
+      correlationIds: ['corr-1'],
+      escalatedBy: 'user-1',
+    });
+    expect(auditLogService.logAction).toHaveBeenCalledWith(
+      'user-1',
+      'siem.alert.escalated',
+      'siem_alert',
+      alert.id,
+      expect.objectContaining({ target: 'incident', id: 'incident-1', created: true }),
+    );
+    await expect(siemService.escalateAlert(alert.id, { target: 'case' }, 'user-1'))
+      .rejects.toThrow('already escalated to incident INC-2024-0001');
+  });
+
+  it('should create a case with the events and their original timestamps', async () => {
+    const alert = await raise(event('e1', 30, { hostname: 'web-1' }));
+
+    const escalated = await siemService.escalateAlert(alert.id, {
+      target: 'case', title: 'Brute force on web-1', priority: 'critical',
+    }, 'user-2');
+
+    const caseData = await caseManagementService.getCase(escalated.escalation.id);
+    expect(caseData).toMatchObject({
+      title: 'Brute force on web-1',
+      priority: 'critical',
+      category: 'security_incident',
+      metadata: { siem: { alertIds: [alert.id], correlationIds: [] } },
+    });
+    const comments = await caseManagementService.getCaseComments(caseData.id);
+    expect(comments).toEqual([expect.objectContaining({
+      type: 'system', metadata: expect.objectContaining({ alertId: alert.id }),
+    })]);
+    const timeline = await caseManagementService.getCaseTimeline(caseData.id);
+    expect(timeline.find((entry) => entry.event_type === 'siem_event')).toMatchObject({
+      timestamp: new Date(START + 30000),
+      event_data: { eventId: 'e1', hostname: 'web-1' },
+    });
+  });
+
+  it('should offer later alerts with the same correlation ID to the open incident', async () => {
+    const first = await raise(event('e1', 0, { username: 'alice', correlationId: 'corr-7' }));
+    await siemService.escalateAlert(first.id, { target: 'incident' }, 'user-1');
+    incidents.getIncident.mockResolvedValue({
+      id: 'incident-1', ticket_number: 'INC-2024-0001', status: 'investigating', metadata: {},
+    });
+
+    const later = await raise(event('e2', 60, { username: 'bob', correlationId: 'corr-7' }));
+    const unrelated = await raise(event('e3', 60, { username: 'carol' }));
+
+    expect(later.escalationOffer).toEqual({
+      target: 'incident',
+      id: 'incident-1',
+      reference: 'INC-2024-0001',
+      correlationId: 'corr-7',
+      alertId: first.id,
+    });
+    expect(unrelated.escalationOffer).toBeUndefined();
+
+    const added = await siemService.escalateAlert(later.id, {
+      target: 'incident', targetId: 'incident-1',
+    }, 'user-1');
+    expect(added.escalation).toMatchObject({ id: 'incident-1' });
+    expect(added.escalationOffer).toBeUndefined();
+    expect(incidents.createIncident).toHaveBeenCalledTimes(1);
+    expect(incidents.updateIncident).toHaveBeenCalledWith('incident-1', {
+      metadata: { siem: { alertIds: [later.id], correlationIds: ['corr-7'] } },
+    }, 'user-1');
+
+    incidents.getIncident.mockResolvedValue({ id: 'incident-1', status: 'closed' });
+    const afterClose = await raise(event('e4', 120, { username: 'dave', correlationId: 'corr-7' }));
+    expect(afterClose.escalationOffer).toBeUndefined();
+    await expect(siemService.escalateAlert(afterClose.id, {
+      target: 'incident', targetId: 'incident-1',
+    }, 'user-1')).rejects.toThrow('is closed');
+  });
+
+  it('should reject unknown escalation targets', async () => {
+    const alert = await raise(event('e1', 0, { username: 'erin' }));
+    incidents.getIncident.mockRejectedValue(new Error('Incident not found'));
+
+    await expect(siemService.escalateAlert(alert.id, {
+      target: 'incident', targetId: 'INC-404',
+    }, 'user-1')).rejects.toThrow('Incident not found');
+    await expect(siemService.escalateAlert(alert.id, {
+      target: 'case', targetId: 'missing',
+    }, 'user-1')).rejects.toThrow('Case not found');
+    expect((await siemService.getAlert(alert.id)).escalation).toBeUndefined();
+    expect((await siemService.getAlert(alert.id)).escalationClaim).toBeUndefined();
+  });
+
+  it('should escalate an alert once when requests race', async () => {
+    const alert = await raise(event('e1', 0, { username: 'frank' }));
+
+    const [first, second] = await Promise.allSettled([
+      siemService.escalateAlert(alert.id, { target: 'incident' }, 'user-1'),
+      siemService.escalateAlert(alert.id, { target: 'incident' }, 'user-2'),
+    ]);
+
+    expect(first).toMatchObject({ status: 'fulfilled', value: { escalation: { id: 'incident-1' } } });
+    expect(second).toMatchObject({
+      status: 'rejected', reason: { message: 'Alert is being escalated' },
+    });
+    expect(incidents.createIncident).toHaveBeenCalledTimes(1);
+    expect((await siemService.getAlert(alert.id)).escalationClaim).toBeUndefined();
+  });
+
+  it('should not leave a partly escalated incident behind when a later step fails', async () => {
+    const alert = await raise(event('e1', 0, { username: 'grace' }));
+    incidents.addTimelineEvents.mockRejectedValueOnce(new Error('Timeline unavailable'));
+
+    await expect(siemService.escalateAlert(alert.id, { target: 'incident' }, 'user-1'))
+      .rejects.toThrow('Timeline unavailable');
+    expect(incidents.deleteIncident).toHaveBeenCalledWith('incident-1');
+    const failed = await siemService.getAlert(alert.id);
+    expect(failed.escalation).toBeUndefined();
+    expect(failed.escalationClaim).toBeUndefined();
+
+    // Deleting fails too: the alert links to the incident, so a retry cannot duplicate it
+    incidents.addTimelineEvents.mockRejectedValueOnce(new Error('Timeline unavailable'));
+    incidents.deleteIncident.mockRejectedValueOnce(new Error('Database unavailable'));
+    await expect(siemService.escalateAlert(alert.id, { target: 'incident' }, 'user-1'))
+      .rejects.toThrow('Timeline unavailable');
+    const linked = await siemService.getAlert(alert.id);
+    expect(linked.escalation).toMatchObject({ target: 'incident', id: 'incident-1' });
+    expect(linked.escalationClaim).toBeUndefined();
+    await expect(siemService.escalateAlert(alert.id, { target: 'incident' }, 'user-1'))
+      .rejects.toThrow('already escalated to incident INC-2024-0001');
+    expect(incidents.createIncident).toHaveBeenCalledTimes(2);
+  });
+});
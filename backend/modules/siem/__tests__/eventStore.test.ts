@@ -0,0 +1,168 @@
+/**
+ * Test suite for SIEM event storage, indexes and retention
+ */
+
+import SiemEvent from '../models/SiemEvent';
+import { retentionDays } from '../config/retention';
+import { toFilter } from '../storage/mongoEventStore';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+} from '../storage';
+import siemService from '../services/siemService';
+import type { NormalizedEvent } from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+const event = (id: string, fields: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  id,
+  timestamp: new Date(),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'authentication',
+  eventType: 'auth_failure',
+  message: `Failed login ${id}`,
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+describe('SiemEvent model', () => {
+  afterEach(() => {
+    delete process.env.SIEM_RETENTION_DAYS;
+    delete process.env.SIEM_RETENTION_DAYS_FIREWALL;
+  });
+
+  it('should declare time-range, text and TTL indexes', () => {
+    const indexes = SiemEvent.schema.indexes();
+
+    expect(indexes).toEqual(expect.arrayContaining([
+      [{ timestamp: -1 }, expect.anything()],
+      [{ sourceIp: 1, timestamp: -1 }, expect.anything()],
+      [{ eventType: 1, timestamp: -1 }, expect.anything()],
+      [{ expiresAt: 1 }, expect.objectContaining({ expireAfterSeconds: 0 })],
+    ]));
+    expect(indexes.find(([fields]) => fields.message === 'text')?.[0]).toMatchObject({
+      message: 'text', rawLog: 'text', commandLine: 'text',
+    });
+  });
+
+  it('should expire events after the retention of their source type', () => {
+    const timestamp = new Date('2024-01-01T00:00:00Z');
+    const expiry = (sourceType: string) => (new SiemEvent({ sourceType, timestamp }) as any)
+      .expiresAt.toISOString();
+
+    expect(expiry('firewall')).toBe('2024-01-31T00:00:00.000Z');
+    expect(expiry('windows_event')).toBe('2024-06-29T00:00:00.000Z');
+    expect(expiry('json')).toBe('2024-03-31T00:00:00.000Z');
+
+    process.env.SIEM_RETENTION_DAYS = '7';
+    process.env.SIEM_RETENTION_DAYS_FIREWALL = '14';
+    expect(retentionDays('firewall')).toBe(14);
+    expect(retentionDays('syslog')).toBe(7);
+  });
+
+  it('should translate event queries into MongoDB filters', () => {
+    const start = new Date('2024-05-01T00:00:00Z');
+
+    expect(toFilter({
+      timeRange: { start },
+      fields: { sourceIp: '10.0.0.5', severity: ['high', 'critical'], hostname: undefined },
+      text: 'mimikatz',
+    })).toEqual({
+      timestamp: { $gte: start },
+      sourceIp: '10.0.0.5',
+      severity: { $in: ['high', 'critical'] },
+      $text: { $search: 'mimikatz' },
+    });
+  });
+});
+
+describe('SIEM service with the memory store', () => {
+  let store: MemoryEventStore;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+    setEventStore(store);
+    setAlertStore(new MemoryAlertStore());
+  });
+
+  it('should correlate stored events and tag them with the correlation ID', async () => {
+    await store.insert(event('e1', { sourceIp: '203.0.113.9' }));
+    await store.insert(event('e2', { sourceIp: '203.0.113.9' }));
+    await store.insert(event('e3', { sourceIp: '203.0.113.9' }));
+    await store.insert(event('e4', { sourceIp: '198.51.100.1' }));
+    await store.insert(event('old', {
+      sourceIp: '203.0.113.9', timestamp: new Date(Date.now() - 2 * 3600 * 1000),
+    }));
+
+    const results = await siemService.correlateEvents({
+      id: 'brute-force',
+      name: 'Brute force',
+      description: '',
+      eventTypes: ['auth_failure'],
+      timeWindow: 3600,
+      minimumEvents: 3,
+      conditions: { sourceIp: true },
+      severity: 'high',
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].events.map((e) => e.id)).toEqual(['e1', 'e2', 'e3']);
+
+    const tagged = await store.find({ fields: { correlationId: results[0].correlationId } });
+    expect(tagged.map((e) => e.id).sort()).toEqual(['e1', 'e2', 'e3']);
+  });
+
+  it('should only raise threshold alerts once enough matching events are stored', async () => {
+    const rule = await siemService.createDetectionRule({
+      name: 'Repeated failures',
+      description: '',
+      type: 'threshold',
+      enabled: true,
+      severity: 'high',
+      conditions: [{ field: 'username', operator: 'equals', value: 'root' }],
+      threshold: 2,
+      timeWindow: 600,
+      actions: [],
+      tags: [],
+      createdBy: 'user-1',
+    });
+
+    await store.insert(event('a', { username: 'admin' }));
+    await store.insert(event('b', { username: 'root' }));
+    expect(await siemService.evaluateRules(event('b', { username: 'root' }), [rule])).toEqual([]);
+
+    await store.insert(event('c', { username: 'root' }));
+    expect(await siemService.evaluateRules(event('c', { username: 'root' }), [rule]))
+      .toHaveLength(1);
+    expect(await siemService.evaluateRules(event('d', { username: 'admin' }), [rule])).toEqual([]);
+  });
+
+  it('should page and sort search results', async () => {
+    const at = (hour: number) => new Date(`2024-05-01T0${hour}:00:00Z`);
+    await store.insert(event('low', { severity: 'low', timestamp: at(1) }));
+    await store.insert(event('high', { severity: 'high', timestamp: at(2) }));
+    await store.insert(event('info', { severity: 'info', timestamp: at(3) }));
+
+    const search = (extra: Record<string, any>) => siemService.forensicSearch({
+      query: '',
+      timeRange: { start: new Date('2024-05-01T00:00:00Z'), end: new Date('2024-05-02T00:00:00Z') },
+      ...extra,
+    });
+
+    expect((await search({})).map((e) => e.id)).toEqual(['info', 'high', 'low']);
+    expect((await search({ sortBy: 'timestamp', limit: 1, offset: 1 })).map((e) => e.id))
+      .toEqual(['high']);
+    expect(await store.count({ fields: { severity: ['low', 'high'] } })).toBe(2);
+  });
+});
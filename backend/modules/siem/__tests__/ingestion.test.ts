@@ -0,0 +1,305 @@
+/**
+ * Test suite for SIEM network listeners and the ingestion pipeline
+ */
+
+import dgram from 'dgram';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import siemRouter from '../index';
+import siemService from '../services/siemService';
+import {
+  setEventStore, setAlertStore, MemoryEventStore, MemoryAlertStore,
+} from '../storage';
+import {
+  ingestPipeline, logListeners, IngestPipeline, SyslogFramer,
+} from '../ingestion';
+import SourceRateLimiter from '../../../utils/sourceRateLimiter';
+import { loadIngestionConfig } from '../config/ingestion';
+import { metricsService } from '../../metrics/service';
+import { errorHandler } from '../../../middleware/errorHandler';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+const SYSLOG = '<34>Oct 11 22:14:15 mymachine su: su root failed';
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  const deadline = Date.now() + 2000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    // eslint-disable-next-line no-await-in-loop
+    await new Promise((resolve) => {
+      setTimeout(resolve, 10);
+    });
+  }
+};
+
+describe('SIEM log ingestion', () => {
+  let store: MemoryEventStore;
+
+  beforeEach(() => {
+    store = new MemoryEventStore();
+    setEventStore(store);
+    setAlertStore(new MemoryAlertStore());
+  });
+
+  it('should split octet-counted and newline-framed syslog streams', () => {
+    const framer = new SyslogFramer(64);
+    const first = `${Buffer.byteLength(SYSLOG.slice(0, 20))} ${SYSLOG.slice(0, 20)}`;
+
+    expect(framer.push(Buffer.from(`${first}<13>plain line\r\n<13>par`)))
+      .toEqual({ messages: [SYSLOG.slice(0, 20), '<13>plain line'], oversized: 0 });
+    expect(framer.push(Buffer.from('tial\n9 <13>te'))).toEqual({
+      messages: ['<13>partial'], oversized: 0,
+    });
+    expect(framer.push(Buffer.from('st!'))).toEqual({ messages: ['<13>test!'], oversized: 0 });
+
+    // Oversized frames are skipped without losing the frames after them
+    expect(framer.push(Buffer.from(`100 ${'x'.repeat(60)}`)).oversized).toBe(1);
+    expect(framer.push(Buffer.from(`${'x'.repeat(40)}5 <13>a`)).messages).toEqual(['<13>a']);
+    expect(framer.push(Buffer.from('y'.repeat(70))).oversized).toBe(1);
+    expect(framer.push(Buffer.from('yy\n<13>after\n')).messages).toEqual(['<13>after']);
+    expect(framer.push(Buffer.from('<13>no trailer')).messages).toEqual([]);
+    expect(framer.flush()).toBe('<13>no trailer');
+  });
+
+  it('should rate limit each source with a token bucket', () => {
+    const limiter = new SourceRateLimiter(2, 3);
+
+    expect([1, 2, 3, 4].map(() => limiter.tryTake('10.0.0.1', 0)))
+      .toEqual([true, true, true, false]);
+    expect(limiter.tryTake('10.0.0.2', 0)).toBe(true);
+    expect(limiter.tryTake('10.0.0.1', 500)).toBe(true);
+    expect(limiter.tryTake('10.0.0.1', 500)).toBe(false);
+
+    limiter.prune(10000);
+    expect(limiter.size).toBe(0);
+  });
+
+  it('should apply backpressure and dead-letter logs that fail to parse', async () => {
+    const pipeline = new IngestPipeline({
+      queueCapacity: 5, concurrency: 1, rateLimit: 0, rateBurst: 0, deadLetterLimit: 2,
+    });
+    const release: (() => void)[] = [];
+    const ingest = siemService.ingestLog.bind(siemService);
+    jest.spyOn(siemService, 'ingestLog').mockImplementation(async (rawLog, sourceType) => {
+      await new Promise<void>((resolve) => {
+        release.push(resolve);
+      });
+      return ingest(rawLog, sourceType);
+    });
+    const events: string[] = [];
+    pipeline.on('saturated', () => events.push('saturated'));
+    pipeline.on('drain', () => events.push('drain'));
+    const origin = { source: '192.0.2.1', transport: 'tcp' as const };
+
+    // One log in the worker, five queued, the rest refused
+    const outcomes = Array.from({ length: 8 }, (_, i) => pipeline.submit(
+      i < 6 ? SYSLOG : `not json ${i}`,
+      i < 6 ? 'syslog' : 'json',
+      origin,
+    ));
+    expect(outcomes).toEqual([
+      'accepted', 'accepted', 'accepted', 'accepted', 'accepted', 'accepted',
+      'queue_full', 'queue_full',
+    ]);
+    expect(events).toEqual(['saturated']);
+    expect(pipeline.stats()).toMatchObject({ queueDepth: 5, saturated: true });
+
+    const releaseNext = async () => {
+      await waitFor(() => release.length > 0);
+      release.shift()!();
+    };
+    while (events.length < 2) {
+      // eslint-disable-next-line no-await-in-loop
+      await releaseNext();
+    }
+    expect(events).toEqual(['saturated', 'drain']);
+    expect(pipeline.stats().queueDepth).toBeLessThan(2);
+
+    // Let the rest through; the invalid JSON lines are dead-lettered
+    pipeline.submit('not json', 'json', origin);
+    pipeline.submit('not json either', 'json', origin);
+    const state = { finished: false };
+    const done = pipeline.idle().then(() => {
+      state.finished = true;
+    });
+    while (!state.finished) {
+      // eslint-disable-next-line no-await-in-loop
+      await waitFor(() => release.length > 0 || state.finished);
+      release.shift()?.();
+    }
+    await done;
+
+    expect(pipeline.stats()).toMatchObject({
+      received: 10, processed: 6, deadLettered: 2, dropped: { queue_full: 2 }, queueDepth: 0,
+    });
+    expect(pipeline.listDeadLetters()).toEqual([
+      expect.objectContaining({ rawLog: 'not json either', error: 'Invalid JSON format' }),
+      expect.objectContaining({ rawLog: 'not json', source: '192.0.2.1', transport: 'tcp' }),
+    ]);
+    expect(await store.count({ fields: { sourceType: 'syslog' } })).toBe(6);
+  });
+
+  describe('network listeners', () => {
+    beforeAll(async () => {
+      await logListeners.start({
+        ...loadIngestionConfig(), host: '127.0.0.1', udpPort: 0, tcpPort: 0, tlsPort: undefined,
+      });
+    });
+
+    afterAll(async () => {
+      await logListeners.stop();
+    });
+
+    it('should ingest syslog over TCP with either framing', async () => {
+      const { tcp } = logListeners.ports();
+      const before = ingestPipeline.stats().received;
+      const socket = net.connect(tcp!, '127.0.0.1');
+      const nginx = '<13>Oct 11 22:14:16 web01 nginx: reload';
+      socket.end(`${Buffer.byteLength(SYSLOG)} ${SYSLOG}${nginx}\n`);
+
+      await waitFor(() => ingestPipeline.stats().received === before + 2);
+      await ingestPipeline.idle();
+
+      const events = await store.find({ fields: { sourceType: 'syslog' } });
+      expect(events.map((e) => e.processName).sort()).toEqual(['nginx', 'su']);
+    });
+
+    it('should ingest UDP datagrams and rate limit each sender', async () => {
+      const { udp } = logListeners.ports();
+      ingestPipeline.configure({ rateLimit: 1, rateBurst: 3 });
+      const before = ingestPipeline.stats();
+      const client = dgram.createSocket('udp4');
+      const send = (message: string) => new Promise((resolve) => {
+        client.send(message, udp!, '127.0.0.1', resolve);
+      });
+
+      await send(`${SYSLOG}\n${SYSLOG}`);
+      await send(SYSLOG);
+      await send(SYSLOG);
+      client.close();
+
+      await waitFor(() => ingestPipeline.stats().received === before.received + 4);
+      await ingestPipeline.idle();
+
+      const after = ingestPipeline.stats();
+      expect(after.processed - before.processed).toBe(3);
+      expect(after.dropped.rate_limited - before.dropped.rate_limited).toBe(1);
+    });
+
+    it('should refuse connections past the cap and close idle ones', async () => {
+      await logListeners.start({
+        ...loadIngestionConfig(), host: '127.0.0.1', tcpPort: 0, maxConnections: 1, idleTimeout: 0.2,
+      });
+      const { tcp } = logListeners.ports();
+      const connect = () => new Promise<net.Socket>((resolve) => {
+        const socket = net.connect(tcp!, '127.0.0.1', () => resolve(socket));
+      });
+      const closed = (socket: net.Socket) => new Promise<number>((resolve) => {
+        const opened = Date.now();
+        socket.on('error', () => {});
+        socket.on('close', () => resolve(Date.now() - opened));
+      });
+
+      const first = await connect();
+      const firstClosed = closed(first);
+      const second = await connect();
+
+      expect(await closed(second)).toBeLessThan(150);
+      expect(first.destroyed).toBe(false);
+      expect(await firstClosed).toBeGreaterThanOrEqual(150);
+    });
+  });
+
+  describe('HTTP bulk endpoint', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll((done) => {
+      ingestPipeline.configure({ rateLimit: 1000, rateBurst: 1000 });
+      const app = express();
+      app.use(express.json());
+      app.use('/siem', siemRouter);
+      app.use(errorHandler);
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(done);
+    });
+
+    const post = async (path: string, body: string, type = 'application/x-ndjson') => {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST', headers: { 'Content-Type': type }, body,
+      });
+      return { status: response.status, body: await response.json() };
+    };
+
+    it('should queue NDJSON lines and dead-letter invalid ones', async () => {
+      ingestPipeline.clearDeadLetters();
+      const body = [
+        JSON.stringify({ eventType: 'auth_failure', username: 'alice' }),
+        JSON.stringify({ rawLog: SYSLOG, sourceType: 'syslog' }),
+        '{not json',
+        JSON.stringify({ rawLog: 'x', sourceType: 'pcap' }),
+        '',
+      ].join('\n');
+
+      const result = await post('/siem/ingest/bulk', body);
+      expect(result.status).toBe(202);
+      expect(result.body.data).toEqual({
+        accepted: 2, invalid: 2, dropped: { queue_full: 0, rate_limited: 0, oversized: 0 },
+      });
+
+      await ingestPipeline.idle();
+      expect(await store.count({ fields: { username: 'alice' } })).toBe(1);
+
+      const response = await fetch(`${baseUrl}/siem/ingest/dead-letters?limit=10`);
+      const { data } = await response.json();
+      expect(data.map((letter: any) => letter.error)).toEqual([
+        "Unknown source type 'pcap'", 'Invalid NDJSON line',
+      ]);
+
+      expect((await post('/siem/ingest/bulk', '{}', 'application/json')).status).toBe(415);
+      expect((await post('/siem/ingest/bulk?sourceType=pcap', '{}')).status).toBe(400);
+    });
+
+    it('should answer 503 when the queue is full', async () => {
+      ingestPipeline.configure({ queueCapacity: 0 });
+      try {
+        const result = await post('/siem/ingest/bulk', JSON.stringify({ message: 'hello' }));
+        expect(result.status).toBe(503);
+        expect(result.body.data.dropped.queue_full).toBe(1);
+      } finally {
+        ingestPipeline.configure({ queueCapacity: loadIngestionConfig().queueCapacity });
+      }
+    });
+  });
+
+  it('should publish ingest counters to the metrics module', async () => {
+    const stats = ingestPipeline.stats();
+
+    await ingestPipeline.flushMetrics();
+
+    expect(await metricsService.getIngestMetrics()).toMatchObject({
+      received: stats.received,
+      processed: stats.processed,
+      dropped_queue_full: stats.dropped.queue_full,
+      dropped_rate_limited: stats.dropped.rate_limited,
+      queue_depth: 0,
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Test suite for the SIEM IOC sweep index, live matching and retro-hunts
+ */
+
+import iocService from '../../ioc-management/services/iocService';
+import { IocIndex, iocSweep, toSweepIndicator } from '../ioc';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+} from '../storage';
+import siemService from '../services/siemService';
+import type {
+  Alert, NormalizedEvent, RetroHuntResult, SweepIndicator,
+} from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+jest.mock('../../ioc-management/services/iocService', () => {
+  const events = jest.requireActual('events');
+  const service = new events.EventEmitter();
+  service.list = jest.fn();
+  service.getById = jest.fn();
+  service.recordSighting = jest.fn();
+  return { __esModule: true, default: service };
+});
+
+const iocs = iocService as jest.Mocked<typeof iocService>;
+
+const indicator = (
+  id: string,
+  type: SweepIndicator['type'],
+  value: string,
+): SweepIndicator => ({
+  id, type, value, confidence: 90, severity: 'high', source: 'feed', tags: [],
+});
+
+const event = (fields: Partial<NormalizedEvent>): NormalizedEvent => ({
+  id: 'event-1',
+  timestamp: new Date(),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'network',
+  eventType: 'connection',
+  message: '',
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+const matchedIds = (index: IocIndex, fields: Partial<NormalizedEvent>) => (
+  index.match(event(fields)).map((match) => match.indicator.id).sort()
+);
+
+describe('IocIndex', () => {
+  it('should match addresses against IPs and CIDR ranges of both versions', () => {
+    const index = new IocIndex();
+    index.upsert(indicator('ip', 'ip', '203.0.113.7'));
+    index.upsert(indicator('v4-range', 'cidr', '198.51.100.0/24'));
+    index.upsert(indicator('v6-range', 'cidr', '2001:db8::/32'));
+
+    expect(matchedIds(index, { sourceIp: '203.0.113.7' })).toEqual(['ip']);
+    expect(matchedIds(index, { destIp: '::ffff:198.51.100.42' })).toEqual(['v4-range']);
+    expect(matchedIds(index, { destIp: '2001:0db8:0:0::1' })).toEqual(['v6-range']);
+    expect(matchedIds(index, { sourceIp: '198.51.101.1', destIp: '2001:db9::1' })).toEqual([]);
+    expect(index.upsert(indicator('bad', 'cidr', '10.0.0.0/33'))).toBe(false);
+  });
+
+  it('should match domains with their subdomains and URLs by host', () => {
+    const index = new IocIndex();
+    index.upsert(indicator('domain', 'domain', 'Evil.example.'));
+    index.upsert(indicator('url', 'url', 'HTTP://cdn.evil.example/payload.bin#x'));
+
+    expect(matchedIds(index, { domain: 'a.b.evil.example' })).toEqual(['domain']);
+    expect(matchedIds(index, { url: 'http://cdn.evil.example/payload.bin' }))
+      .toEqual(['domain', 'url']);
+    expect(matchedIds(index, { domain: 'notevil.example' })).toEqual([]);
+    expect(index.match(event({ domain: 'evil.example', url: 'https://evil.example/' })))
+      .toEqual([expect.objectContaining({ field: 'domain' })]);
+  });
+
+  it('should match hashes and email addresses ignoring case', () => {
+    const index = new IocIndex();
+    index.upsert(indicator('hash', 'hash', 'D41D8CD98F00B204E9800998ECF8427E'));
+    index.upsert(indicator('email', 'email', 'attacker@phish.example'));
+
+    expect(matchedIds(index, { fileHash: 'd41d8cd98f00b204e9800998ecf8427e' })).toEqual(['hash']);
+    expect(matchedIds(index, { metadata: { sender: 'Attacker@Phish.example' } }))
+      .toEqual(['email']);
+  });
+
+  it('should replace and remove indicators as they change', () => {
+    const index = new IocIndex();
+    index.upsert(indicator('ioc-1', 'ip', '192.0.2.1'));
+    index.upsert(indicator('ioc-1', 'ip', '192.0.2.2'));
+
+    expect(matchedIds(index, { sourceIp: '192.0.2.1' })).toEqual([]);
+    expect(matchedIds(index, { sourceIp: '192.0.2.2' })).toEqual(['ioc-1']);
+    expect(index.remove('ioc-1')).toBe(true);
+    expect(matchedIds(index, { sourceIp: '192.0.2.2' })).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+
+  it('should only index active, unexpired IOCs of supported types', () => {
+    const ioc = {
+      id: 'ioc-1', type: 'sha256', value: 'a'.repeat(64), status: 'active', confidence: 70,
+    };
+    expect(toSweepIndicator(ioc)).toMatchObject({
+      type: 'hash', confidence: 70, severity: 'medium', source: 'unknown',
+    });
+    expect(toSweepIndicator({ ...ioc, type: 'ip', value: '10.0.0.0/8' })?.type).toBe('cidr');
+    expect(toSweepIndicator({ ...ioc, status: 'expired' })).toBeUndefined();
+    expect(toSweepIndicator({ ...ioc, expiresAt: new Date(Date.now() - 1000) })).toBeUndefined();
+    expect(toSweepIndicator({ ...ioc, type: 'mutex' })).toBeUndefined();
+  });
+});
+
+describe('SIEM IOC sweep', () => {
+  const store = new MemoryEventStore();
+
+  const alertFor = (iocId: string) => new Promise<Alert>((resolve) => {
+    const listener = (alert: Alert) => {
+      if (alert.metadata.iocId === iocId) {
+        siemService.off('alert:raised', listener);
+        resolve(alert);
+      }
+    };
+    siemService.on('alert:raised', listener);
+  });
+
+  beforeAll(() => {
+    setEventStore(store);
+    setAlertStore(new MemoryAlertStore());
+  });
+
+  beforeEach(() => {
+    iocs.recordSighting.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    iocSweep.stop();
+  });
+
+  it('should raise alerts for ingested events that match an active IOC', async () => {
+    iocs.list.mockResolvedValue([{
+      id: 'ioc-c2',
+      type: 'ip',
+      value: '198.51.100.0/24',
+      status: 'active',
+      confidence: 85,
+      severity: 'critical',
+      source: 'abuse-feed',
+      tags: ['c2'],
+    }]);
+    await iocSweep.start();
+    const raised = alertFor('ioc-c2');
+
+    await siemService.ingestLog(JSON.stringify({
+      eventType: 'connection', sourceIp: '10.0.0.5', destIp: '198.51.100.20',
+    }), 'json');
+    const alert = await raised;
+
+    expect(alert).toMatchObject({
+      ruleId: 'ioc-sweep',
+      severity: 'critical',
+      title: 'IOC match: 198.51.100.0/24',
+      tags: ['c2'],
+      metadata: {
+        ruleType: 'ioc_match',
+        iocType: 'cidr',
+        confidence: 85,
+        source: 'abuse-feed',
+        field: 'destIp',
+        value: '198.51.100.20',
+        retroHunt: false,
+      },
+    });
+    expect(iocSweep.stats()).toMatchObject({ indicators: 1, byType: { cidr: 1 } });
+    expect(iocs.recordSighting).toHaveBeenCalledWith('ioc-c2', expect.any(Date));
+
+    iocService.emit('ioc:updated', { id: 'ioc-c2', type: 'ip', status: 'expired' });
+    expect(iocSweep.stats().indicators).toBe(0);
+  });
+
+  it('should retro-hunt stored events for a new high-confidence IOC', async () => {
+    iocs.list.mockResolvedValue([]);
+    iocSweep.configure({ retroHuntMinConfidence: 80, retroHuntDays: 7, retroHuntBatchSize: 1 });
+    await iocSweep.start();
+    await siemService.ingestLog(JSON.stringify({
+      eventType: 'dns_query', domain: 'login.bad-domain.example',
+    }), 'json');
+    await siemService.ingestLog(JSON.stringify({
+      eventType: 'dns_query', domain: 'good.example',
+    }), 'json');
+
+    const raised = alertFor('ioc-domain');
+    const hunted = new Promise<RetroHuntResult>((resolve) => {
+      iocSweep.once('retro_hunt', resolve);
+    });
+    iocService.emit('ioc:created', {
+      id: 'ioc-low', type: 'domain', value: 'good.example', status: 'active', confidence: 40,
+    });
+    iocService.emit('ioc:created', {
+      id: 'ioc-domain', type: 'domain', value: 'bad-domain.example', status: 'active', confidence: 95,
+    });
+
+    const [alert, result] = await Promise.all([raised, hunted]);
+    expect(alert.metadata).toMatchObject({
+      iocValue: 'bad-domain.example', field: 'domain', retroHunt: true,
+    });
+    expect(result).toMatchObject({ iocId: 'ioc-domain', matched: 1, truncated: false });
+    expect(result.scanned).toBeGreaterThanOrEqual(2);
+    expect(iocSweep.stats()).toMatchObject({ indicators: 2, retroHunts: 1 });
+    expect(iocs.recordSighting).not.toHaveBeenCalled();
+
+    await iocSweep.retroHunt(toSweepIndicator({
+      id: 'ioc-domain', type: 'domain', value: 'bad-domain.example', status: 'active',
+    }));
+    expect(iocs.recordSighting).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to retro-hunt IOCs it cannot match', async () => {
+    iocs.getById.mockResolvedValue({
+      id: 'ioc-mutex', type: 'mutex', value: 'Global\\x', status: 'active',
+    });
+    await expect(siemService.retroHuntIoc('ioc-mutex')).rejects.toThrow('can be hunted');
+
+    iocs.getById.mockRejectedValue(new Error('IoC not found'));
+    await expect(siemService.retroHuntIoc('missing')).rejects.toThrow('IOC not found');
+  });
+});
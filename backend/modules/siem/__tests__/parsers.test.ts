@@ -0,0 +1,255 @@
+/**
+ * Test suite for SIEM log parsers against fixture logs
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  parseSyslog, parseRfc3164, parseLeef, parseAccessLog, parseFirewall, parseIds,
+} from '../parsers';
+import {
+  setEventStore, setAlertStore, MemoryEventStore, MemoryAlertStore,
+} from '../storage';
+import siemService from '../services/siemService';
+
+const fixture = (name: string): string[] => readFileSync(join(__dirname, 'fixtures', name), 'utf8')
+  .split('\n')
+  .filter(Boolean);
+
+describe('SIEM log parsers', () => {
+  describe('syslog', () => {
+    it('should parse RFC 5424 headers and structured data', () => {
+      const [app, su, nil] = fixture('syslog-rfc5424.log').map((line) => parseSyslog(line));
+
+      expect(app.event).toMatchObject({
+        timestamp: new Date('2024-10-11T22:14:15.003Z'),
+        hostname: 'mymachine.example.com',
+        processName: 'evntslog',
+        eventType: 'ID47',
+        sourceIp: '192.0.2.10',
+        severity: 'medium',
+        message: 'An application event log entry...',
+      });
+      expect(app.event?.metadata).toMatchObject({
+        facility: 20,
+        syslogSeverity: 5,
+        structuredData: {
+          'exampleSDID@32473': { iut: '3', eventSource: 'Application', eventID: '1011' },
+          origin: { ip: '192.0.2.10' },
+        },
+      });
+      expect(app.fieldConfidence).toMatchObject({ timestamp: 1, hostname: 1, severity: 0.8 });
+
+      expect(su.event).toMatchObject({
+        timestamp: new Date('2024-10-12T05:14:15.000Z'),
+        processName: 'su',
+        severity: 'critical',
+        message: "'su root' failed for lonvick on /dev/pts/8",
+      });
+      expect(su.event?.processId).toBeUndefined();
+
+      // Every header field is NILVALUE; escapes in parameter values are resolved
+      expect(nil.event?.metadata.structuredData).toEqual({
+        meta: { note: 'quote " bracket ] slash \\ done' },
+      });
+      expect(nil.fieldConfidence).toMatchObject({ timestamp: 0, eventType: 0 });
+      expect(nil.fieldConfidence).not.toHaveProperty('hostname');
+    });
+
+    it('should infer the missing year of RFC 3164 timestamps', () => {
+      const [su, sshd, cron] = fixture('syslog-rfc3164.log');
+      const newYear = new Date('2025-01-01T00:00:10Z');
+
+      expect(parseSyslog(su, newYear).event).toMatchObject({
+        timestamp: new Date('2024-10-11T22:14:15Z'),
+        hostname: 'mymachine',
+        processName: 'su',
+        processId: 2301,
+        severity: 'critical',
+      });
+      expect(parseSyslog(sshd, newYear).event?.timestamp).toEqual(new Date('2024-12-31T23:59:58Z'));
+      expect(parseSyslog(sshd, newYear).fieldConfidence).toMatchObject({ timestamp: 0.8 });
+
+      // Without PRI and HOSTNAME the first word is the tag
+      const later = parseRfc3164(cron, new Date('2025-01-02T12:00:00Z'));
+      expect(later.event).toMatchObject({
+        timestamp: new Date('2025-01-02T03:04:05Z'),
+        processName: 'cron.daily',
+        message: 'job finished',
+      });
+      expect(later.event?.hostname).toBeUndefined();
+      expect(later.fieldConfidence).toMatchObject({ severity: 0 });
+      expect(parseRfc3164(cron, newYear).event?.timestamp)
+        .toEqual(new Date('2024-01-02T03:04:05Z'));
+
+      expect(parseSyslog('not a syslog line').success).toBe(false);
+    });
+  });
+
+  it('should parse LEEF 1.0 and 2.0 with custom delimiters', () => {
+    const [v1, caret, hex] = fixture('leef.log').map(parseLeef);
+
+    expect(v1.event).toMatchObject({
+      sourceIp: '10.50.1.1',
+      destIp: '2.10.20.20',
+      sourcePort: 1234,
+      destPort: 443,
+      username: 'joe.black',
+      category: 'anomaly',
+      eventType: '15345',
+      severity: 'high',
+      timestamp: new Date('2024-10-11T20:14:15.003Z'),
+    });
+    expect(v1.event?.metadata).toMatchObject({ version: '1.0', vendor: 'Microsoft' });
+    expect(v1.event?.metadata.attributes.spoofedIP).toBe('10.50.1.1');
+
+    expect(caret.event?.metadata).toMatchObject({ version: '2.0', delimiter: '^' });
+    expect(caret.event?.metadata.attributes.msg).toBe('Suspicious ^ traffic');
+    expect(caret.event).toMatchObject({
+      destPort: 21, severity: 'medium', timestamp: new Date(1728684855000),
+    });
+
+    expect(hex.event).toMatchObject({
+      sourceIp: '172.16.0.4', protocol: 'TCP', hostname: 'fw-edge-1', eventType: 'deny',
+    });
+    expect(hex.event?.metadata).toMatchObject({
+      delimiter: '\t', syslogHeader: 'Oct 11 22:14:15 qradar',
+    });
+    expect(hex.fieldConfidence).toMatchObject({ sourceIp: 1, severity: 0.8, timestamp: 0 });
+
+    expect(parseLeef('CEF:0|not|leef').success).toBe(false);
+  });
+
+  it('should parse Apache and Nginx combined access logs', () => {
+    const [combined, escaped, common] = fixture('access.log');
+
+    expect(parseAccessLog(combined, 'apache').event).toMatchObject({
+      sourceType: 'apache',
+      sourceIp: '203.0.113.5',
+      username: 'frank',
+      timestamp: new Date('2024-10-10T20:55:36Z'),
+      action: 'GET',
+      url: '/apache_pb.gif',
+      outcome: 'success',
+      metadata: expect.objectContaining({
+        status: 200,
+        bytes: 2326,
+        referrer: 'http://www.example.com/start.html',
+        userAgent: 'Mozilla/4.08 [en] (Win98; I ;Nav)',
+        format: 'combined',
+      }),
+    });
+
+    const denied = parseAccessLog(escaped, 'nginx');
+    expect(denied.event).toMatchObject({ outcome: 'failure', severity: 'low' });
+    expect(denied.event?.metadata).toMatchObject({ userAgent: 'python-requests/2.31 "scanner"' });
+    expect(denied.event?.username).toBeUndefined();
+    expect(denied.fieldConfidence).toMatchObject({ severity: 0.5, outcome: 0.8 });
+
+    const failed = parseAccessLog(common, 'nginx');
+    expect(failed.event).toMatchObject({ hostname: 'proxy.internal', severity: 'medium' });
+    expect(failed.event?.metadata).toMatchObject({ bytes: 0, format: 'common' });
+    expect(failed.event?.sourceIp).toBeUndefined();
+  });
+
+  it('should parse netfilter and key=value firewall logs', () => {
+    const [ufw, fortigate] = fixture('firewall.log')
+      .map((line) => parseFirewall(line, new Date('2024-12-01T00:00:00Z')));
+
+    expect(ufw.event).toMatchObject({
+      timestamp: new Date('2024-10-11T22:14:15Z'),
+      hostname: 'fw01',
+      sourceIp: '203.0.113.9',
+      destIp: '10.0.0.4',
+      sourcePort: 51234,
+      destPort: 22,
+      protocol: 'TCP',
+      action: 'deny',
+      severity: 'low',
+    });
+    expect(ufw.event?.metadata).toMatchObject({ inInterface: 'eth0' });
+    expect(ufw.fieldConfidence).toMatchObject({ action: 0.5, timestamp: 0.8, sourceIp: 1 });
+
+    expect(fortigate.event).toMatchObject({
+      timestamp: new Date('2024-10-11T20:14:15Z'),
+      hostname: 'FGT-HQ',
+      protocol: 'tcp',
+      action: 'accept',
+      severity: 'info',
+    });
+    expect(fortigate.fieldConfidence).toMatchObject({ action: 1, protocol: 0.8, severity: 0 });
+
+    expect(parseFirewall('Oct 11 22:14:15 fw01 kernel: link up').success).toBe(false);
+  });
+
+  describe('IDS', () => {
+    it('should parse Snort and Suricata fast.log alerts', () => {
+      const [snort] = fixture('snort-fast.log')
+        .map((line) => parseIds(line, new Date('2024-11-01T00:00:00Z')));
+      const [mssql, icmp6] = fixture('suricata-fast.log').map((line) => parseIds(line));
+
+      expect(snort.event).toMatchObject({
+        timestamp: new Date('2024-10-11T22:14:15.123Z'),
+        sourceIp: '192.168.1.5',
+        destIp: '192.168.1.1',
+        protocol: 'icmp',
+        category: 'Misc activity',
+        severity: 'low',
+        message: 'ICMP Ping detected',
+        eventType: 'ids_alert',
+      });
+      expect(snort.event?.sourcePort).toBeUndefined();
+      expect(snort.fieldConfidence).toMatchObject({ timestamp: 0.8 });
+
+      expect(mssql.event).toMatchObject({
+        timestamp: new Date('2024-10-11T22:14:15.003Z'),
+        sourceIp: '203.0.113.5',
+        sourcePort: 44321,
+        destPort: 1433,
+        severity: 'medium',
+        metadata: expect.objectContaining({ gid: 1, sid: 2010935, rev: 3 }),
+      });
+      expect(mssql.fieldConfidence).toMatchObject({ timestamp: 1 });
+
+      expect(icmp6.event).toMatchObject({
+        sourceIp: '2001:db8::1', destIp: '2001:db8::2', protocol: 'ipv6-icmp', severity: 'high',
+      });
+    });
+
+    it('should parse Suricata EVE JSON events', () => {
+      const [alert, dns] = fixture('suricata-eve.json').map((line) => parseIds(line));
+
+      expect(alert.event).toMatchObject({
+        timestamp: new Date('2024-10-11T22:14:15.003Z'),
+        eventType: 'ids_alert',
+        sourceIp: '203.0.113.5',
+        destPort: 80,
+        protocol: 'tcp',
+        action: 'allowed',
+        severity: 'low',
+        domain: 'intranet.example.com',
+        url: '/admin',
+        message: 'ET USER_AGENTS Go HTTP Client User-Agent',
+        metadata: expect.objectContaining({ sid: 2024897, appProto: 'http' }),
+      });
+
+      expect(dns.event).toMatchObject({
+        eventType: 'dns', domain: 'evil.example.net', category: 'intrusion_detection',
+      });
+      expect(dns.fieldConfidence).toMatchObject({ severity: 0, category: 0, domain: 1 });
+
+      expect(parseIds('{"no": "event type"}').success).toBe(false);
+    });
+  });
+
+  it('should keep field confidence on ingested events', async () => {
+    setEventStore(new MemoryEventStore());
+    setAlertStore(new MemoryAlertStore());
+    const [line] = fixture('suricata-fast.log');
+
+    const { event } = await siemService.ingestLog(line, 'ids_ips');
+
+    expect(event).toMatchObject({ sourceType: 'ids_ips', sourceIp: '203.0.113.5' });
+    expect(event.metadata.fieldConfidence).toMatchObject({ sourceIp: 1, timestamp: 1 });
+  });
+});
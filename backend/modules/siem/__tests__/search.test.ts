@@ -0,0 +1,279 @@
+/**
+ * Test suite for the SIEM search language, saved searches and scheduled alerts
+ */
+
+import { auditLogService } from '../../../services/AuditLogService';
+import {
+  parseQuery, SearchQueryError, FieldCatalog, SearchScheduler, meetsThreshold, searchScheduler,
+} from '../search';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+  setSearchStore, MemorySearchStore,
+} from '../storage';
+import { toGroupFilter } from '../storage/mongoEventStore';
+import siemService from '../services/siemService';
+import type { NormalizedEvent, SavedSearch, SavedSearchThresholdMatch } from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+jest.mock('../../../services/AuditLogService', () => ({
+  auditLogService: { logAction: jest.fn() },
+}));
+
+const event = (id: string, fields: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  id,
+  timestamp: new Date(),
+  sourceType: 'json',
+  severity: 'info',
+  category: 'network',
+  eventType: 'connection',
+  message: '',
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+const flush = () => new Promise((resolve) => { setImmediate(resolve); });
+
+describe('SIEM search query language', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('should parse fields, wildcards, quotes and free text', () => {
+    expect(parseQuery('hostname:web-01 username:adm* "failed login"', now)).toEqual({
+      mode: 'and',
+      filters: [
+        { key: 'hostname', operator: 'eq', values: ['web-01'] },
+        { key: 'username', operator: 'wildcard', values: ['adm*'] },
+      ],
+      filterGroups: [{
+        mode: 'or',
+        filters: ['message', 'rawLog', 'commandLine', 'url', 'domain'].map((key) => ({
+          key, operator: 'contains', values: ['failed login'],
+        })),
+        filterGroups: [],
+      }],
+    });
+  });
+
+  it('should parse boolean operators with NOT binding tighter than AND and OR', () => {
+    const group = parseQuery('severity:high OR severity:critical AND -hostname:db*', now);
+
+    expect(group.mode).toBe('or');
+    expect(group.filters).toEqual([{ key: 'severity', operator: 'eq', values: ['high'] }]);
+    expect(group.filterGroups[0]).toEqual({
+      mode: 'and',
+      filters: [{ key: 'severity', operator: 'eq', values: ['critical'] }],
+      filterGroups: [{
+        mode: 'not',
+        filters: [{ key: 'hostname', operator: 'wildcard', values: ['db*'] }],
+        filterGroups: [],
+      }],
+    });
+  });
+
+  it('should parse CIDR ranges, numeric ranges and relative time ranges', () => {
+    expect(parseQuery('sourceIp:10.0.0.0/8', now).filters)
+      .toEqual([{ key: 'sourceIp', operator: 'cidr', values: ['10.0.0.0/8'] }]);
+    expect(parseQuery('destinationPort:[1024 TO *}', now).filters)
+      .toEqual([{ key: 'destinationPort', operator: 'gte', values: ['1024'] }]);
+    expect(parseQuery('timestamp:[now-1h TO now]', now).filters).toEqual([
+      { key: 'timestamp', operator: 'gte', values: [String(now.getTime() - 3600000)] },
+      { key: 'timestamp', operator: 'lte', values: [String(now.getTime())] },
+    ]);
+  });
+
+  it('should report where a query is malformed', () => {
+    expect(() => parseQuery('(severity:high', now)).toThrow(SearchQueryError);
+    expect(() => parseQuery('sourceIp:10.0.0.0/40', now)).toThrow('Invalid CIDR range');
+    expect(() => parseQuery('destinationPort:>abc', now)).toThrow('Expected a number');
+    expect(() => parseQuery('severity:high OR', now)).toThrow('Unexpected end of query');
+  });
+
+  it('should translate queries for the MongoDB event store', () => {
+    const filter = toGroupFilter(parseQuery(
+      'sourceIp:192.168.0.0/16 -hostname:web? timestamp:>2026-01-01',
+      now,
+    ));
+
+    expect(filter.$and).toEqual(expect.arrayContaining([
+      { timestamp: { $gt: new Date('2026-01-01') } },
+      { $nor: [{ hostname: /^web.$/is }] },
+    ]));
+    expect(filter.$and[0].sourceIp.test('192.168.4.20')).toBe(true);
+    expect(filter.$and[0].sourceIp.test('192.169.4.20')).toBe(false);
+  });
+});
+
+describe('SIEM event search', () => {
+  const since = (minutes: number) => new Date(Date.now() - minutes * 60000);
+
+  beforeEach(async () => {
+    setEventStore(new MemoryEventStore());
+    setAlertStore(new MemoryAlertStore());
+    setSearchStore(new MemorySearchStore());
+    await siemService.ingestLog(JSON.stringify({
+      message: 'Failed password for root', hostname: 'web-01', sourceIp: '10.1.2.3',
+    }), 'json');
+    await siemService.ingestLog(JSON.stringify({
+      message: 'Accepted password for alice', hostname: 'db-01', sourceIp: '203.0.113.7',
+    }), 'json');
+  });
+
+  it('should return matching events with the parsed filter', async () => {
+    const result = await siemService.searchEvents({
+      query: 'sourceIp:10.0.0.0/8 OR hostname:DB-*',
+      timeRange: { start: since(5), end: new Date() },
+    });
+
+    expect(result.total).toBe(2);
+    expect(result.filter.mode).toBe('or');
+
+    const text = await siemService.searchEvents({ query: 'failed -hostname:db*' });
+    expect(text.events.map((e) => e.hostname)).toEqual(['web-01']);
+  });
+
+  it('should reject unparsable queries as validation errors', async () => {
+    await expect(siemService.searchEvents({ query: 'hostname:(' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('should suggest observed fields with their common values', async () => {
+    const suggestions = await siemService.suggestSearchFields('host');
+    expect(suggestions[0]).toMatchObject({ field: 'hostname', values: ['web-01', 'db-01'] });
+
+    const catalog = new FieldCatalog(1);
+    catalog.observe(event('e1', { hostname: 'a', metadata: { sender: 'x' } }));
+    expect(catalog.size).toBe(1);
+  });
+});
+
+describe('SIEM saved searches', () => {
+  const alice = { id: 'alice', teams: ['soc'] };
+  const bob = { id: 'bob', teams: ['soc'] };
+  const eve = { id: 'eve', teams: [] };
+
+  beforeEach(() => {
+    setSearchStore(new MemorySearchStore());
+    setEventStore(new MemoryEventStore());
+    setAlertStore(new MemoryAlertStore());
+  });
+
+  it('should share team searches with members only', async () => {
+    const shared = await siemService.createSavedSearch({
+      name: 'Root logins', query: 'username:root', visibility: 'team', team: 'soc',
+    }, alice);
+    await siemService.createSavedSearch({
+      name: 'Mine', query: 'hostname:web*', visibility: 'private',
+    }, alice);
+
+    expect((await siemService.listSavedSearches(alice)).map((s) => s.name))
+      .toEqual(['Mine', 'Root logins']);
+    expect((await siemService.listSavedSearches(bob)).map((s) => s.name))
+      .toEqual(['Root logins']);
+    await expect(siemService.getSavedSearch(shared.id, eve))
+      .rejects.toMatchObject({ statusCode: 404 });
+    expect(auditLogService.logAction).toHaveBeenCalledWith(
+      'alice',
+      'siem.saved_search.created',
+      'siem_saved_search',
+      shared.id,
+      expect.objectContaining({ visibility: 'team', team: 'soc' }),
+    );
+  });
+
+  it('should only let the owner change or delete a search', async () => {
+    const search = await siemService.createSavedSearch({
+      name: 'Root logins', query: 'username:root', visibility: 'team', team: 'soc',
+    }, alice);
+
+    await expect(siemService.updateSavedSearch(search.id, { name: 'Mine now' }, bob))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(siemService.deleteSavedSearch(search.id, bob))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(siemService.createSavedSearch({
+      name: 'Elsewhere', query: '*', visibility: 'team', team: 'red',
+    }, alice)).rejects.toMatchObject({ statusCode: 400 });
+
+    const updated = await siemService.updateSavedSearch(search.id, {
+      visibility: 'private',
+    }, alice);
+    expect(updated.team).toBeUndefined();
+    expect(await siemService.listSavedSearches(bob)).toEqual([]);
+  });
+
+  it('should alert once when a scheduled count crosses its threshold', async () => {
+    const scheduler = new SearchScheduler({ schedulerTick: 60, alertEvents: 10, maxFields: 10 });
+    const matches: SavedSearchThresholdMatch[] = [];
+    scheduler.on('threshold', (match) => matches.push(match));
+
+    const search = await siemService.createSavedSearch({
+      name: 'Password failures',
+      query: '"Failed password"',
+      visibility: 'private',
+      schedule: {
+        enabled: true, interval: 300, window: 600, comparison: 'gte', threshold: 2, severity: 'high',
+      },
+    }, alice);
+    await siemService.ingestLog(JSON.stringify({ message: 'Failed password for root' }), 'json');
+
+    const start = Date.now() + 1000;
+    expect(await scheduler.runDue(new Date(start))).toBe(1);
+    expect(matches).toHaveLength(0);
+
+    await siemService.ingestLog(JSON.stringify({ message: 'Failed password for admin' }), 'json');
+    // Not due yet
+    expect(await scheduler.runDue(new Date(start + 60000))).toBe(0);
+
+    await scheduler.runDue(new Date(start + 300000));
+    await scheduler.runDue(new Date(start + 600000));
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ count: 2, search: { id: search.id, thresholdMet: true } });
+  });
+
+  it('should raise an alert from the shared scheduler', async () => {
+    const search: SavedSearch = await siemService.createSavedSearch({
+      name: 'Any event',
+      query: '',
+      visibility: 'private',
+      schedule: {
+        enabled: true, interval: 60, window: 600, comparison: 'gt', threshold: 0, severity: 'low',
+      },
+    }, alice);
+    const { event: ingested } = await siemService.ingestLog(
+      JSON.stringify({ message: 'hello' }),
+      'json',
+    );
+
+    await searchScheduler.run(search, new Date(Date.now() + 1000));
+    await flush();
+    await flush();
+
+    const { alerts } = await siemService.listAlerts();
+    expect(alerts).toEqual([expect.objectContaining({
+      ruleId: search.id,
+      title: 'Saved search: Any event',
+      severity: 'low',
+      events: [ingested.id],
+      metadata: expect.objectContaining({ ruleType: 'saved_search', eventCount: 1 }),
+    })]);
+  });
+
+  it('should compare counts with the schedule', () => {
+    const schedule = {
+      enabled: true, interval: 60, window: 60, threshold: 5, severity: 'low' as const,
+    };
+    expect(meetsThreshold(5, { ...schedule, comparison: 'gt' })).toBe(false);
+    expect(meetsThreshold(5, { ...schedule, comparison: 'gte' })).toBe(true);
+    expect(meetsThreshold(4, { ...schedule, comparison: 'lt' })).toBe(true);
+  });
+});
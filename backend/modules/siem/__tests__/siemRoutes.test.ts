@@ -0,0 +1,304 @@
+/**
+ * Test suite for SIEM ingestion, detection, alert, search and forensic routes
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import siemRouter from '../index';
+import authRouter from '../../auth';
+import User from '../../../models/User';
+import config from '../../../config';
+import {
+  setEventStore, MemoryEventStore, setAlertStore, MemoryAlertStore,
+  setSearchStore, MemorySearchStore,
+} from '../storage';
+import { errorHandler } from '../../../middleware/errorHandler';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+jest.mock('../../../config/sequelize', () => ({
+  initializeSequelize: jest.fn(),
+}));
+
+jest.mock('../../../models/User', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn() },
+}));
+
+const failedLogin = (user: string) => JSON.stringify({
+  eventType: 'auth_failure', username: user, severity: 'medium', timestamp: '2024-05-01T10:00:00Z',
+});
+
+describe('SIEM routes', () => {
+  let server: Server;
+  let baseUrl: string;
+  const token = jwt.sign({ id: 'u-analyst', teams: [] }, config.security.jwt.secret);
+
+  const request = async (method: string, path: string, body?: any, auth?: string) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(auth ? { Authorization: `Bearer ${auth}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll((done) => {
+    setEventStore(new MemoryEventStore());
+    setAlertStore(new MemoryAlertStore());
+    setSearchStore(new MemorySearchStore());
+    const app = express();
+    app.use(express.json());
+    app.use('/siem', siemRouter);
+    app.use(errorHandler);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  it('should raise alerts for ingested logs that match a detection rule', async () => {
+    const rule = await request('POST', '/siem/rules', {
+      name: 'Failed login',
+      type: 'pattern_match',
+      severity: 'high',
+      conditions: [{ field: 'eventType', operator: 'equals', value: 'auth_failure' }],
+    });
+    expect(rule.status).toBe(201);
+    expect(rule.body.data).toMatchObject({ enabled: true, createdBy: 'system', tags: [] });
+
+    const ingested = await request('POST', '/siem/logs', {
+      rawLog: failedLogin('alice'), sourceType: 'json',
+    });
+    expect(ingested.status).toBe(201);
+    expect(ingested.body.data.event)
+      .toMatchObject({ eventType: 'auth_failure', username: 'alice' });
+    expect(ingested.body.data.alerts).toEqual([
+      expect.objectContaining({ ruleId: rule.body.data.id, severity: 'high', status: 'new' }),
+    ]);
+
+    const alerts = await request('GET', '/siem/alerts?status=new&severity=high');
+    expect(alerts.body.data.map((alert: any) => alert.id))
+      .toEqual([ingested.body.data.alerts[0].id]);
+    expect(alerts.body.pagination).toEqual({ total: 1, limit: 50, offset: 0 });
+
+    // Disabled rules are not evaluated
+    await request('PUT', `/siem/rules/${rule.body.data.id}`, { enabled: false });
+    const quiet = await request('POST', '/siem/logs', {
+      rawLog: failedLogin('bob'), sourceType: 'json',
+    });
+    expect(quiet.body.data.alerts).toEqual([]);
+  });
+
+  it('should only allow valid alert status transitions', async () => {
+    const { body: { data: [alert] } } = await request('GET', '/siem/alerts');
+    const setStatus = (status: string) => (
+      request('POST', `/siem/alerts/${alert.id}/status`, { status })
+    );
+
+    expect((await setStatus('investigating')).status).toBe(409);
+    const acknowledged = await setStatus('acknowledged');
+    expect(acknowledged.body.data).toMatchObject({
+      status: 'acknowledged', acknowledgedBy: 'system',
+    });
+    expect((await setStatus('investigating')).status).toBe(200);
+    expect((await setStatus('resolved')).body.data).toMatchObject({
+      status: 'resolved', resolvedBy: 'system',
+    });
+
+    const conflict = await setStatus('acknowledged');
+    expect(conflict.status).toBe(409);
+    expect(conflict.body.error).toBe('Cannot change alert status from resolved to acknowledged');
+
+    // Reopening clears the resolution
+    const reopened = await setStatus('investigating');
+    expect(reopened.body.data.status).toBe('investigating');
+    expect(reopened.body.data.resolvedAt).toBeUndefined();
+
+    expect((await request('POST', '/siem/alerts/unknown/status', { status: 'new' })).status)
+      .toBe(404);
+    expect((await request('GET', '/siem/rules/unknown')).status).toBe(404);
+  });
+
+  it('should report logs that fail in a batch by index', async () => {
+    const batch = await request('POST', '/siem/logs/batch', {
+      logs: [
+        { rawLog: failedLogin('carol'), sourceType: 'json' },
+        { rawLog: 'not json', sourceType: 'json' },
+      ],
+    });
+
+    expect(batch.status).toBe(207);
+    expect(batch.body.data).toMatchObject({
+      accepted: 1,
+      rejected: 1,
+      errors: [{ index: 1, error: 'Invalid JSON format' }],
+    });
+  });
+
+  it('should validate requests before they reach the service', async () => {
+    expect((await request('POST', '/siem/logs', { rawLog: 'x', sourceType: 'pcap' })).status)
+      .toBe(400);
+    expect((await request('POST', '/siem/logs/batch', { logs: [] })).status).toBe(400);
+    const rule = await request('POST', '/siem/rules', { name: 'No conditions', type: 'threshold' });
+    expect(rule.status).toBe(400);
+    expect((await request('POST', '/siem/forensics/search', {
+      timeRange: { start: '2024-05-02T00:00:00Z', end: '2024-05-01T00:00:00Z' },
+    })).status).toBe(400);
+    // Case categories are not incident categories
+    expect((await request('POST', '/siem/alerts/any/escalate', {
+      target: 'incident', category: 'security_incident',
+    })).status).toBe(400);
+    expect((await request('POST', '/siem/search', { query: 'username:(' })).status).toBe(400);
+    expect((await request('POST', '/siem/searches', {
+      name: 'No team', query: '*', visibility: 'team',
+    }, token)).status).toBe(400);
+  });
+
+  it('should search events in the query language and run saved searches', async () => {
+    const search = await request('POST', '/siem/search', {
+      query: 'eventType:auth_failure (username:al* OR username:carol)',
+      timeRange: { start: '2024-05-01T00:00:00Z', end: '2024-05-02T00:00:00Z' },
+    });
+    expect(search.status).toBe(200);
+    expect(search.body.data.total).toBe(2);
+
+    const saved = await request('POST', '/siem/searches', {
+      name: 'Alice', query: 'username:alice',
+    }, token);
+    expect(saved.status).toBe(201);
+    expect(saved.body.data).toMatchObject({ owner: 'u-analyst', visibility: 'private' });
+    const savedPath = `/siem/searches/${saved.body.data.id}`;
+
+    const run = await request('POST', `${savedPath}/run`, {}, token);
+    expect(run.body.data.events.map((event: any) => event.username)).toEqual(['alice']);
+    expect((await request('GET', '/siem/searches', undefined, token)).body.data).toHaveLength(1);
+
+    // Saved searches are never served without a user
+    expect((await request('GET', '/siem/searches')).status).toBe(401);
+    expect((await request('POST', `${savedPath}/run`, {})).status).toBe(401);
+    expect((await request('DELETE', savedPath)).status).toBe(401);
+
+    const fields = await request('GET', '/siem/search/fields?prefix=user');
+    expect(fields.body.data[0]).toMatchObject({ field: 'username' });
+
+    await request('DELETE', savedPath, undefined, token);
+    expect((await request('GET', savedPath, undefined, token)).status).toBe(404);
+  });
+
+  it('should search stored events and rebuild their timeline', async () => {
+    const search = await request('POST', '/siem/forensics/search', {
+      query: 'alice carol',
+      timeRange: { start: '2024-05-01T00:00:00Z', end: '2024-05-02T00:00:00Z' },
+      filters: { severity: ['medium'] },
+    });
+
+    expect(search.status).toBe(200);
+    expect(search.body.data.map((event: any) => event.username).sort()).toEqual(['alice', 'carol']);
+
+    const outside = await request('POST', '/siem/forensics/search', {
+      timeRange: { start: '2024-06-01T00:00:00Z', end: '2024-06-02T00:00:00Z' },
+    });
+    expect(outside.body.data).toEqual([]);
+
+    const timeline = await request('POST', '/siem/timeline', {
+      eventIds: search.body.data.map((event: any) => event.id),
+    });
+    expect(timeline.body.data).toMatchObject({
+      totalEvents: 2, uniqueUsers: 2, bySeverity: { medium: 2 },
+    });
+
+    expect((await request('POST', '/siem/timeline', { eventIds: ['missing'] })).status).toBe(404);
+  });
+});
+
+describe('SIEM saved search sharing', () => {
+  let server: Server;
+  let baseUrl: string;
+  const password = bcrypt.hashSync('correct horse', 4);
+  const users = [
+    { id: 'u-alice', email: 'alice@example.com', teams: ['soc'] },
+    { id: 'u-bob', email: 'bob@example.com', teams: ['soc'] },
+    { id: 'u-eve', email: 'eve@example.com', teams: null },
+  ];
+
+  const request = async (method: string, path: string, token?: string, body?: any) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const login = async (email: string) => {
+    const response = await request('POST', '/auth/login', undefined, {
+      email, password: 'correct horse',
+    });
+    return response.body.data.token as string;
+  };
+
+  beforeAll((done) => {
+    setSearchStore(new MemorySearchStore());
+    const app = express();
+    app.use(express.json());
+    app.use('/auth', authRouter);
+    app.use('/siem', siemRouter);
+    app.use(errorHandler);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    (User.findOne as jest.Mock).mockImplementation(async ({ where }) => {
+      const user = users.find((candidate) => candidate.email === where.email);
+      return user && {
+        ...user, password, role: 'analyst', isActive: true, update: jest.fn(),
+      };
+    });
+  });
+
+  it('should share team searches with the teams stored on the users who log in', async () => {
+    const [alice, bob, eve] = await Promise.all(users.map((user) => login(user.email)));
+
+    const shared = await request('POST', '/siem/searches', alice, {
+      name: 'Root logins', query: 'username:root', visibility: 'team', team: 'soc',
+    });
+    expect(shared.status).toBe(201);
+    expect(shared.body.data).toMatchObject({ owner: 'u-alice', team: 'soc' });
+
+    expect((await request('GET', '/siem/searches', bob)).body.data.map((s: any) => s.name))
+      .toEqual(['Root logins']);
+    expect((await request('GET', '/siem/searches', eve)).body.data).toEqual([]);
+    expect((await request('POST', '/siem/searches', eve, {
+      name: 'Not mine', query: '*', visibility: 'team', team: 'soc',
+    })).status).toBe(400);
+  });
+});
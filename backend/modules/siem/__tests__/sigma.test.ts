@@ -0,0 +1,314 @@
+/**
+ * Test suite for Sigma rule import and compilation
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import siemRouter from '../index';
+import siemService from '../services/siemService';
+import { setAlertStore, MemoryAlertStore } from '../storage';
+import { parseCondition, SigmaConditionError, compileSigmaRule } from '../sigma';
+import { DEFAULT_SIGMA_MAPPING } from '../config/sigma';
+import { evaluateExpression } from '../rules/evaluator';
+import { errorHandler } from '../../../middleware/errorHandler';
+import type { DetectionRule, NormalizedEvent } from '../types';
+
+jest.mock('uuid', () => {
+  let count = 0;
+  return {
+    v4: () => {
+      count += 1;
+      return `uuid-${count}`;
+    },
+  };
+});
+
+const RULES = readFileSync(join(__dirname, 'fixtures', 'sigma-rules.yml'), 'utf8');
+
+const event = (fields: Partial<NormalizedEvent>): NormalizedEvent => ({
+  id: 'event-1',
+  timestamp: new Date(),
+  sourceType: 'windows_event',
+  severity: 'info',
+  category: 'process',
+  eventType: 'process_creation',
+  message: '',
+  rawLog: '',
+  tags: [],
+  metadata: {},
+  normalized: true,
+  ...fields,
+});
+
+const conditionError = (condition: string): SigmaConditionError => {
+  try {
+    parseCondition(condition);
+  } catch (error) {
+    return error as SigmaConditionError;
+  }
+  throw new Error(`'${condition}' parsed`);
+};
+
+describe('Sigma rules', () => {
+  it('should parse conditions with not > and > or precedence and quantifiers', () => {
+    expect(parseCondition('a or b and not c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'selection', name: 'a' },
+        {
+          type: 'and',
+          children: [
+            { type: 'selection', name: 'b' },
+            { type: 'not', child: { type: 'selection', name: 'c' } },
+          ],
+        },
+      ],
+    });
+    expect(parseCondition('(a or b) and all of sel_* and not 1 of them')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [{ type: 'selection', name: 'a' }, { type: 'selection', name: 'b' }],
+        },
+        { type: 'quantified', quantifier: 'all', target: 'sel_*' },
+        { type: 'not', child: { type: 'quantified', quantifier: 'one', target: 'them' } },
+      ],
+    });
+
+    expect(conditionError('selection | count() > 5')).toMatchObject({ unsupported: true });
+    expect(conditionError('2 of selection_*')).toMatchObject({ unsupported: true });
+    expect(conditionError('a and')).toMatchObject({
+      unsupported: false, message: 'Unexpected end of condition at position 5',
+    });
+    expect(conditionError('(a or b')).toMatchObject({ unsupported: false });
+  });
+
+  it('should compile field modifiers, wildcards and the logsource into a rule tree', () => {
+    const compiled = compileSigmaRule({
+      title: 'Test',
+      logsource: { product: 'linux' },
+      detection: {
+        selection: {
+          CommandLine: ['*curl*|*sh', null],
+          'DestinationPort|gte': 1024,
+          Custom: 'x',
+        },
+        condition: 'selection',
+      },
+      level: 'informational',
+    });
+
+    expect(compiled).toMatchObject({
+      severity: 'info', unsupported: [], unmappedFields: ['Custom'],
+    });
+    expect(compiled.expression).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'condition',
+          condition: { field: 'sourceType', operator: 'in', value: ['syslog'] },
+        },
+        {
+          type: 'and',
+          children: [
+            {
+              type: 'or',
+              children: [
+                {
+                  type: 'condition',
+                  condition: {
+                    field: 'commandLine',
+                    operator: 'regex',
+                    value: '^.*curl.*\\|.*sh$',
+                    caseInsensitive: true,
+                  },
+                },
+                {
+                  type: 'condition',
+                  condition: { field: 'commandLine', operator: 'exists', value: false },
+                },
+              ],
+            },
+            { type: 'condition', condition: { field: 'destPort', operator: 'gte', value: 1024 } },
+            {
+              type: 'condition',
+              condition: {
+                field: 'metadata.Custom', operator: 'equals', value: 'x', caseInsensitive: true,
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    const mapped = compileSigmaRule(
+      { title: 'Mapped', detection: { sel: { Custom: 'x' }, condition: 'sel' } },
+      { ...DEFAULT_SIGMA_MAPPING, fields: { custom: 'hostname' } },
+    );
+    expect(mapped.unmappedFields).toEqual([]);
+    expect(compileSigmaRule({ title: 'Broken', detection: { condition: 'missing' } }))
+      .toMatchObject({ error: "Unknown selection 'missing' in condition" });
+  });
+
+  it('should match keywords anywhere in the message', () => {
+    const { expression } = compileSigmaRule({
+      title: 'Keywords',
+      detection: {
+        keywords: ['Accepted publickey for *', 'sudo'],
+        condition: 'keywords',
+      },
+    });
+    expect(expression).toMatchObject({
+      type: 'or',
+      children: [
+        {
+          type: 'or',
+          children: [{
+            type: 'condition',
+            condition: {
+              field: 'message', operator: 'regex', value: 'Accepted publickey for .*',
+            },
+          }, expect.anything()],
+        },
+        expect.anything(),
+      ],
+    });
+
+    const matches = (message: string) => evaluateExpression(event({ message }), expression);
+    expect(matches('sshd[812]: Accepted publickey for bob from 10.20.3.4 port 51122')).toBe(true);
+    expect(matches('pam_unix(sudo:session): session opened for user root')).toBe(true);
+    expect(matches('sshd[812]: Failed password for bob')).toBe(false);
+  });
+
+  describe('import', () => {
+    let rules: DetectionRule[];
+
+    beforeAll(async () => {
+      setAlertStore(new MemoryAlertStore());
+      const result = await siemService.importSigmaRules(RULES, { createdBy: 'analyst' });
+      expect(result).toMatchObject({
+        created: 2, updated: 0, compiled: 0, rejected: 1,
+      });
+      expect(result.rules[2]).toMatchObject({
+        title: 'Many Failed Logons From Encoded Payload',
+        status: 'rejected',
+        unsupported: [
+          'timeframe',
+          "selection.CommandLine|base64offset|contains: modifier 'base64offset'",
+          'condition: Aggregation expressions are not supported at position 10',
+        ],
+      });
+      rules = (await Promise.all(result.rules.slice(0, 2).map((report) => (
+        siemService.getDetectionRule(report.ruleId!)
+      ))));
+    });
+
+    const matches = async (rule: DetectionRule, fields: Partial<NormalizedEvent>) => (
+      (await siemService.evaluateRules(event(fields), [rule])).length > 0
+    );
+
+    it('should evaluate compiled selections, modifiers and filters', async () => {
+      const [powershell, ssh] = rules;
+      const process = {
+        processName: 'C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe',
+        commandLine: 'powershell.exe -NoP -W Hidden -Enc SQBFAFgA',
+        username: 'alice',
+      };
+
+      expect(powershell).toMatchObject({
+        type: 'pattern_match',
+        severity: 'high',
+        conditions: [],
+        tags: ['sigma', 'attack.execution', 'attack.t1059.001'],
+        sigma: { id: '6b0f6a2c-6f0e-4a7e-9a67-1f3c2bb61a8d', status: 'test' },
+      });
+      expect(await matches(powershell, process)).toBe(true);
+      expect(await matches(powershell, { ...process, commandLine: 'powershell.exe -Enc AAAA' }))
+        .toBe(false);
+      expect(await matches(powershell, { ...process, username: 'SVC_backup' })).toBe(false);
+      expect(await matches(powershell, { ...process, sourceType: 'syslog' })).toBe(false);
+
+      const login = {
+        sourceType: 'syslog' as const,
+        message: 'Accepted publickey for bob from 10.20.3.4 port 51122 ssh2',
+        sourceIp: '10.20.3.4',
+      };
+      expect(await matches(ssh, login)).toBe(true);
+      expect(await matches(ssh, { ...login, sourceIp: '10.21.3.4' })).toBe(false);
+      expect(await matches(ssh, { ...login, message: 'Failed password for bob' })).toBe(false);
+    });
+
+    it('should update rules imported again and leave them alone in a dry run', async () => {
+      const dryRun = await siemService.importSigmaRules(RULES, {
+        createdBy: 'analyst', dryRun: true,
+      });
+      expect(dryRun).toMatchObject({ created: 0, updated: 0, compiled: 2 });
+      expect(dryRun.rules[0]).toMatchObject({ ruleId: rules[0].id, status: 'compiled' });
+
+      const again = await siemService.importSigmaRules(RULES, { createdBy: 'analyst' });
+      expect(again).toMatchObject({ created: 0, updated: 2, rejected: 1 });
+      const sigmaRules = (await siemService.listDetectionRules())
+        .filter((rule) => rule.tags.includes('sigma'));
+      expect(sigmaRules).toHaveLength(2);
+    });
+  });
+
+  describe('HTTP endpoint', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll((done) => {
+      const app = express();
+      app.use(express.json());
+      app.use('/siem', siemRouter);
+      app.use(errorHandler);
+      server = app.listen(0, () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        done();
+      });
+    });
+
+    afterAll((done) => {
+      server.close(done);
+    });
+
+    const post = async (body: string, query = '', type = 'application/yaml') => {
+      const response = await fetch(`${baseUrl}/siem/rules/sigma${query}`, {
+        method: 'POST', headers: { 'Content-Type': type }, body,
+      });
+      return { status: response.status, body: await response.json() };
+    };
+
+    it('should import YAML and report rejected files', async () => {
+      const rule = [
+        'title: Whoami',
+        'detection:',
+        '  sel:',
+        '    Image|endswith: \\whoami.exe',
+        '  condition: sel',
+      ].join('\n');
+
+      const dryRun = await post(rule, '?dryRun=true');
+      expect(dryRun.status).toBe(200);
+      expect(dryRun.body.data).toMatchObject({ compiled: 1, created: 0 });
+
+      const created = await post(rule, '?enabled=false');
+      expect(created.status).toBe(201);
+      const { ruleId } = created.body.data.rules[0];
+      expect((await siemService.getDetectionRule(ruleId)).enabled).toBe(false);
+
+      const rejected = await post(rule.replace('Image|endswith', 'CommandLine|wide'));
+      expect(rejected.status).toBe(422);
+      expect(rejected.body.data.rules[0].unsupported)
+        .toEqual(["sel.CommandLine|wide: modifier 'wide'"]);
+
+      expect((await post('title: [unclosed')).status).toBe(400);
+      expect((await post('', '', 'application/yaml')).status).toBe(400);
+      expect((await post('{}', '', 'application/json')).status).toBe(415);
+    });
+  });
+});
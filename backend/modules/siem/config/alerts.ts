@@ -0,0 +1,37 @@
+/**
+ * SIEM Alert Grouping Configuration
+ * An alert whose rule and SIEM_ALERT_GROUP_FIELDS event values match an
+ * unresolved alert last seen within SIEM_ALERT_GROUP_WINDOW seconds is stored
+ * as a duplicate of that alert instead of being raised again.
+ */
+
+export interface AlertConfig {
+  readonly groupWindow: number; // seconds
+  readonly groupFields: readonly string[];
+  readonly maxGroupedEvents: number;
+}
+
+const DEFAULT_GROUP_FIELDS = ['sourceIp', 'destIp', 'username', 'hostname'];
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Read the alert grouping configuration from the environment
+ */
+export const loadAlertConfig = (): AlertConfig => {
+  const fields = (process.env.SIEM_ALERT_GROUP_FIELDS || '')
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  return {
+    groupWindow: numberFromEnv('SIEM_ALERT_GROUP_WINDOW', 3600),
+    groupFields: fields.length ? fields : DEFAULT_GROUP_FIELDS,
+    maxGroupedEvents: numberFromEnv('SIEM_ALERT_MAX_GROUPED_EVENTS', 1000),
+  };
+};
+
+export default { loadAlertConfig };
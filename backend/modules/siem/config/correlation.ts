@@ -0,0 +1,40 @@
+/**
+ * SIEM Streaming Correlation Configuration
+ * State is bounded to SIEM_CORRELATION_MAX_KEYS group keys (least recently
+ * used keys are evicted) with SIEM_CORRELATION_MAX_ENTRIES_PER_KEY events or
+ * partial sequences each. Open windows are written to
+ * SIEM_CORRELATION_SNAPSHOT_PATH every SIEM_CORRELATION_SNAPSHOT_INTERVAL
+ * seconds and restored on start; set the path to an empty string to disable.
+ */
+
+export interface CorrelationConfig {
+  readonly maxKeys: number;
+  readonly maxEntriesPerKey: number;
+  readonly tickInterval: number; // seconds
+  readonly snapshotPath?: string;
+  readonly snapshotInterval: number; // seconds
+}
+
+const DEFAULT_SNAPSHOT_PATH = 'data/siem-correlation-snapshot.json';
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Read the correlation engine configuration from the environment
+ */
+export const loadCorrelationConfig = (): CorrelationConfig => {
+  const snapshotPath = process.env.SIEM_CORRELATION_SNAPSHOT_PATH ?? DEFAULT_SNAPSHOT_PATH;
+
+  return {
+    maxKeys: numberFromEnv('SIEM_CORRELATION_MAX_KEYS', 50000),
+    maxEntriesPerKey: numberFromEnv('SIEM_CORRELATION_MAX_ENTRIES_PER_KEY', 1000),
+    tickInterval: numberFromEnv('SIEM_CORRELATION_TICK_INTERVAL', 5),
+    snapshotPath: snapshotPath || undefined,
+    snapshotInterval: numberFromEnv('SIEM_CORRELATION_SNAPSHOT_INTERVAL', 60),
+  };
+};
+
+export default { loadCorrelationConfig };
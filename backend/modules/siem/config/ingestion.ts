@@ -0,0 +1,67 @@
+/**
+ * SIEM Log Ingestion Configuration
+ * Network listeners only start when their port is set:
+ * SIEM_SYSLOG_UDP_PORT, SIEM_SYSLOG_TCP_PORT and SIEM_SYSLOG_TLS_PORT (with
+ * SIEM_SYSLOG_TLS_CERT / SIEM_SYSLOG_TLS_KEY and optional SIEM_SYSLOG_TLS_CA
+ * file paths). SIEM_SYSLOG_SOURCE_TYPE selects the parser for listener traffic.
+ * SIEM_SYSLOG_MAX_CONNECTIONS caps open TCP and TLS connections per listener and
+ * SIEM_SYSLOG_IDLE_TIMEOUT closes connections that stay silent that many seconds.
+ */
+
+import type { LogSourceType } from '../types';
+
+export interface IngestionConfig {
+  readonly udpPort?: number;
+  readonly tcpPort?: number;
+  readonly tlsPort?: number;
+  readonly tls: {
+    readonly certPath?: string;
+    readonly keyPath?: string;
+    readonly caPath?: string;
+  };
+  readonly host: string;
+  readonly sourceType: LogSourceType;
+  readonly queueCapacity: number;
+  readonly concurrency: number;
+  readonly rateLimit: number; // messages per second per source
+  readonly rateBurst: number;
+  readonly maxMessageBytes: number;
+  readonly maxConnections: number; // per stream listener
+  readonly idleTimeout: number; // seconds, 0 keeps idle connections open
+  readonly deadLetterLimit: number;
+  readonly metricsInterval: number; // seconds
+}
+
+const numberFromEnv = (name: string, fallback?: number): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * Read the ingestion configuration from the environment
+ */
+export const loadIngestionConfig = (): IngestionConfig => {
+  const rateLimit = numberFromEnv('SIEM_INGEST_RATE_LIMIT', 1000)!;
+
+  return {
+    udpPort: numberFromEnv('SIEM_SYSLOG_UDP_PORT'),
+    tcpPort: numberFromEnv('SIEM_SYSLOG_TCP_PORT'),
+    tlsPort: numberFromEnv('SIEM_SYSLOG_TLS_PORT'),
+    tls: {
+      certPath: process.env.SIEM_SYSLOG_TLS_CERT,
+      keyPath: process.env.SIEM_SYSLOG_TLS_KEY,
+      caPath: process.env.SIEM_SYSLOG_TLS_CA,
+    },
+    host: process.env.SIEM_SYSLOG_HOST || '0.0.0.0',
+    sourceType: (process.env.SIEM_SYSLOG_SOURCE_TYPE || 'syslog') as LogSourceType,
+    queueCapacity: numberFromEnv('SIEM_INGEST_QUEUE_SIZE', 10000)!,
+    concurrency: numberFromEnv('SIEM_INGEST_CONCURRENCY', 4)!,
+    rateLimit,
+    rateBurst: numberFromEnv('SIEM_INGEST_RATE_BURST', rateLimit * 2)!,
+    maxMessageBytes: numberFromEnv('SIEM_SYSLOG_MAX_MESSAGE_BYTES', 64 * 1024)!,
+    maxConnections: numberFromEnv('SIEM_SYSLOG_MAX_CONNECTIONS', 1000)!,
+    idleTimeout: numberFromEnv('SIEM_SYSLOG_IDLE_TIMEOUT', 300)!,
+    deadLetterLimit: numberFromEnv('SIEM_DEAD_LETTER_LIMIT', 1000)!,
+    metricsInterval: numberFromEnv('SIEM_INGEST_METRICS_INTERVAL', 60)!,
+  };
+};
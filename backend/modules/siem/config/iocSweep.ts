@@ -0,0 +1,35 @@
+/**
+ * SIEM IOC Sweep Configuration
+ * Every ingested event is matched against the active IOCs held in memory; the
+ * index follows IOC changes and is also fully rebuilt every
+ * SIEM_IOC_SWEEP_REBUILD_INTERVAL seconds. A new IOC with at least
+ * SIEM_IOC_RETRO_HUNT_MIN_CONFIDENCE confidence is hunted for in the events of
+ * the last SIEM_IOC_RETRO_HUNT_DAYS days, reading SIEM_IOC_RETRO_HUNT_BATCH_SIZE
+ * events at a time and at most SIEM_IOC_RETRO_HUNT_MAX_EVENTS in total.
+ */
+
+export interface IocSweepConfig {
+  readonly rebuildInterval: number; // seconds
+  readonly retroHuntMinConfidence: number;
+  readonly retroHuntDays: number;
+  readonly retroHuntBatchSize: number;
+  readonly retroHuntMaxEvents: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Read the IOC sweep configuration from the environment
+ */
+export const loadIocSweepConfig = (): IocSweepConfig => ({
+  rebuildInterval: numberFromEnv('SIEM_IOC_SWEEP_REBUILD_INTERVAL', 3600),
+  retroHuntMinConfidence: numberFromEnv('SIEM_IOC_RETRO_HUNT_MIN_CONFIDENCE', 80),
+  retroHuntDays: numberFromEnv('SIEM_IOC_RETRO_HUNT_DAYS', 30),
+  retroHuntBatchSize: numberFromEnv('SIEM_IOC_RETRO_HUNT_BATCH_SIZE', 1000),
+  retroHuntMaxEvents: numberFromEnv('SIEM_IOC_RETRO_HUNT_MAX_EVENTS', 1000000),
+});
+
+export default { loadIocSweepConfig };
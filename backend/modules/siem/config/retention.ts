@@ -0,0 +1,45 @@
+/**
+ * SIEM Event Retention
+ * Days to keep events per source type. Override with SIEM_RETENTION_DAYS (all
+ * sources) or SIEM_RETENTION_DAYS_<SOURCE TYPE>, e.g. SIEM_RETENTION_DAYS_FIREWALL=14.
+ */
+
+import type { LogSourceType } from '../types';
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+// High-volume network sources are kept for less time than host and detection sources
+const SOURCE_RETENTION_DAYS: Partial<Record<LogSourceType, number>> = {
+  firewall: 30,
+  apache: 30,
+  nginx: 30,
+  windows_event: 180,
+  ids_ips: 180,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fromEnv = (name: string): number | undefined => {
+  const days = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(days) && days > 0 ? days : undefined;
+};
+
+/**
+ * Retention in days for a source type
+ */
+export const retentionDays = (sourceType: LogSourceType | string = 'custom'): number => (
+  fromEnv(`SIEM_RETENTION_DAYS_${sourceType.toUpperCase()}`)
+  ?? fromEnv('SIEM_RETENTION_DAYS')
+  ?? SOURCE_RETENTION_DAYS[sourceType as LogSourceType]
+  ?? DEFAULT_RETENTION_DAYS
+);
+
+/**
+ * When an event expires, counted from its own timestamp
+ */
+export const retentionExpiry = (
+  sourceType: LogSourceType | string = 'custom',
+  timestamp: Date = new Date(),
+): Date => new Date(new Date(timestamp).getTime() + retentionDays(sourceType) * DAY_MS);
+
+export default { retentionDays, retentionExpiry };
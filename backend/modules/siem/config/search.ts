@@ -0,0 +1,29 @@
+/**
+ * SIEM Search Configuration
+ * Scheduled saved searches are checked every SIEM_SEARCH_SCHEDULER_TICK
+ * seconds; an alert raised by one carries up to SIEM_SEARCH_ALERT_EVENTS of the
+ * matching events. Field autocompletion remembers at most SIEM_SEARCH_MAX_FIELDS
+ * observed event fields.
+ */
+
+export interface SearchConfig {
+  readonly schedulerTick: number; // seconds
+  readonly alertEvents: number;
+  readonly maxFields: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * Read the search configuration from the environment
+ */
+export const loadSearchConfig = (): SearchConfig => ({
+  schedulerTick: numberFromEnv('SIEM_SEARCH_SCHEDULER_TICK', 60),
+  alertEvents: numberFromEnv('SIEM_SEARCH_ALERT_EVENTS', 100),
+  maxFields: numberFromEnv('SIEM_SEARCH_MAX_FIELDS', 500),
+});
+
+export default { loadSearchConfig };
@@ -0,0 +1,137 @@
+/**
+ * Sigma Field Mapping
+ * Maps Sigma taxonomy field names and logsources onto NormalizedEvent. Extend
+ * or override it with a JSON file named by SIEM_SIGMA_FIELD_MAPPING, shaped
+ * like SigmaMapping (entries are merged over the defaults).
+ */
+
+import { readFileSync } from 'fs';
+import logger from '../utils/logger';
+import type { LogSourceType } from '../types';
+
+export interface SigmaMapping {
+  // Sigma field name (matched case-insensitively) to event field path
+  readonly fields: Readonly<Record<string, string>>;
+  // logsource product/category/service value to the source types it covers
+  readonly logsources: {
+    readonly product: Readonly<Record<string, readonly LogSourceType[]>>;
+    readonly category: Readonly<Record<string, readonly LogSourceType[]>>;
+    readonly service: Readonly<Record<string, readonly LogSourceType[]>>;
+  };
+  // Fields searched by keyword selections (lists of plain values)
+  readonly keywordFields: readonly string[];
+}
+
+export const DEFAULT_SIGMA_MAPPING: SigmaMapping = {
+  fields: {
+    // Process creation
+    Image: 'processName',
+    OriginalFileName: 'processName',
+    CommandLine: 'commandLine',
+    ProcessId: 'processId',
+    ParentProcessId: 'parentProcessId',
+    ParentImage: 'metadata.parentImage',
+    ParentCommandLine: 'metadata.parentCommandLine',
+    CurrentDirectory: 'metadata.currentDirectory',
+    IntegrityLevel: 'metadata.integrityLevel',
+    // Identity and host
+    User: 'username',
+    SubjectUserName: 'username',
+    TargetUserName: 'username',
+    UserName: 'username',
+    Computer: 'hostname',
+    ComputerName: 'hostname',
+    Hostname: 'hostname',
+    EventID: 'metadata.eventId',
+    Channel: 'metadata.channel',
+    // Files and registry
+    TargetFilename: 'filePath',
+    FileName: 'fileName',
+    Hashes: 'fileHash',
+    Hash: 'fileHash',
+    md5: 'fileHash',
+    sha1: 'fileHash',
+    sha256: 'fileHash',
+    TargetObject: 'registryKey',
+    // Network
+    SourceIp: 'sourceIp',
+    src_ip: 'sourceIp',
+    DestinationIp: 'destIp',
+    dst_ip: 'destIp',
+    SourcePort: 'sourcePort',
+    src_port: 'sourcePort',
+    DestinationPort: 'destPort',
+    dst_port: 'destPort',
+    Protocol: 'protocol',
+    DestinationHostname: 'domain',
+    QueryName: 'domain',
+    query: 'domain',
+    action: 'action',
+    // Web servers and proxies
+    'c-ip': 'sourceIp',
+    'cs-method': 'action',
+    'cs-uri-stem': 'url',
+    'cs-uri-query': 'url',
+    'c-uri': 'url',
+    'cs-uri': 'url',
+    'cs-host': 'domain',
+    'r-dns': 'domain',
+    'sc-status': 'metadata.status',
+    'cs-referrer': 'metadata.referrer',
+    'cs-user-agent': 'metadata.userAgent',
+    'c-useragent': 'metadata.userAgent',
+    // Generic
+    message: 'message',
+  },
+  logsources: {
+    product: {
+      windows: ['windows_event'],
+      linux: ['syslog'],
+    },
+    category: {
+      webserver: ['apache', 'nginx'],
+      firewall: ['firewall'],
+      ids: ['ids_ips'],
+      nids: ['ids_ips'],
+    },
+    service: {
+      security: ['windows_event'],
+      system: ['windows_event'],
+      sysmon: ['windows_event'],
+      syslog: ['syslog'],
+      auth: ['syslog'],
+      sshd: ['syslog'],
+      sudo: ['syslog'],
+      apache: ['apache'],
+      nginx: ['nginx'],
+    },
+  },
+  keywordFields: ['message', 'rawLog'],
+};
+
+/**
+ * Default mapping merged with the SIEM_SIGMA_FIELD_MAPPING file, if any
+ */
+export const loadSigmaMapping = (): SigmaMapping => {
+  const path = process.env.SIEM_SIGMA_FIELD_MAPPING;
+  if (!path) return DEFAULT_SIGMA_MAPPING;
+
+  try {
+    const overrides = JSON.parse(readFileSync(path, 'utf8'));
+    const logsources = overrides.logsources || {};
+    return {
+      fields: { ...DEFAULT_SIGMA_MAPPING.fields, ...overrides.fields },
+      logsources: {
+        product: { ...DEFAULT_SIGMA_MAPPING.logsources.product, ...logsources.product },
+        category: { ...DEFAULT_SIGMA_MAPPING.logsources.category, ...logsources.category },
+        service: { ...DEFAULT_SIGMA_MAPPING.logsources.service, ...logsources.service },
+      },
+      keywordFields: overrides.keywordFields || DEFAULT_SIGMA_MAPPING.keywordFields,
+    };
+  } catch (error) {
+    logger.error('Failed to load Sigma field mapping, using defaults', { path, error });
+    return DEFAULT_SIGMA_MAPPING;
+  }
+};
+
+export default { DEFAULT_SIGMA_MAPPING, loadSigmaMapping };
@@ -1,4 +1,22 @@
+import { v4 as uuidv4 } from 'uuid';
 import siemService from '../services/siemService';
+import { ingestPipeline } from '../ingestion';
+import { AuthenticationError } from '../../../middleware/errors';
+
+// Service errors carry their HTTP status (404 for unknown rules and alerts,
+// 409 for disallowed alert status changes, 401 for saved searches without a
+// user, 403 for changes to another user's saved search); anything else is a bad request
+const sendError = (res, error) => {
+  res.status(error.statusCode || 400).json({ success: false, error: error.message });
+};
+
+// Saved searches are shared through the teams carried by the user's token,
+// which login and token refresh copy from the stored user. They always have an
+// owner, so requests without a user are refused.
+const searchUser = (req) => {
+  if (!req.user?.id) throw new AuthenticationError('Saved searches require an authenticated user');
+  return { id: req.user.id, teams: req.user.teams || [] };
+};
 
 class SiemController {
   async create(req, res) {
@@ -45,6 +63,435 @@ class SiemController {
       res.status(400).json({ error: error.message });
     }
   }
+
+  // ========================================
+  // Log ingestion
+  // ========================================
+
+  async ingestLog(req, res) {
+    try {
+      const result = await siemService.ingestLog(req.body.rawLog, req.body.sourceType);
+      res.status(201).json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async ingestLogs(req, res) {
+    try {
+      const result = await siemService.ingestLogs(req.body.logs);
+      // 207 when only part of the batch was stored
+      const status = result.rejected > 0 && result.accepted > 0 ? 207 : 201;
+      res.status(result.accepted === 0 ? 400 : status).json({
+        success: result.accepted > 0,
+        data: result,
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async bulkIngest(req, res) {
+    try {
+      if (typeof req.body !== 'string') {
+        res.status(415).json({ success: false, error: 'Expected an application/x-ndjson body' });
+        return;
+      }
+      const result = ingestPipeline.submitNdjson(req.body, req.query.sourceType, {
+        source: req.ip || 'unknown',
+        transport: 'http',
+      });
+      // Nothing queued: tell the sender whether to back off or fix the payload
+      let status = 202;
+      if (result.accepted === 0 && result.dropped.queue_full > 0) status = 503;
+      else if (result.accepted === 0 && result.dropped.rate_limited > 0) status = 429;
+      else if (result.accepted === 0) status = 400;
+      if (status === 503 || status === 429) res.set('Retry-After', '1');
+      res.status(status).json({ success: result.accepted > 0, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async ingestStats(req, res) {
+    res.json({ success: true, data: ingestPipeline.stats() });
+  }
+
+  async listDeadLetters(req, res) {
+    res.json({ success: true, data: ingestPipeline.listDeadLetters(req.query.limit) });
+  }
+
+  async clearDeadLetters(req, res) {
+    res.json({ success: true, data: { deleted: ingestPipeline.clearDeadLetters() } });
+  }
+
+  // ========================================
+  // Detection rules
+  // ========================================
+
+  async createRule(req, res) {
+    try {
+      const rule = await siemService.createDetectionRule({
+        ...req.body,
+        createdBy: req.user?.id || 'system',
+      });
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async importSigmaRules(req, res) {
+    try {
+      if (typeof req.body !== 'string') {
+        res.status(415).json({ success: false, error: 'Expected an application/yaml body' });
+        return;
+      }
+      const result = await siemService.importSigmaRules(req.body, {
+        createdBy: req.user?.id || 'system',
+        enabled: req.query.enabled,
+        dryRun: req.query.dryRun,
+      });
+      // Nothing stored and every rule rejected: the file needs fixing
+      let status = result.created + result.updated > 0 ? 201 : 200;
+      if (result.rejected > 0 && result.rules.length === result.rejected) status = 422;
+      res.status(status).json({ success: status !== 422, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async listRules(req, res) {
+    try {
+      const rules = await siemService.listDetectionRules(req.query);
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async getRule(req, res) {
+    try {
+      const rule = await siemService.getDetectionRule(req.params.id);
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async updateRule(req, res) {
+    try {
+      const rule = await siemService.updateDetectionRule(req.params.id, req.body);
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async deleteRule(req, res) {
+    try {
+      const result = await siemService.deleteDetectionRule(req.params.id);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  // ========================================
+  // Alerts
+  // ========================================
+
+  async listAlerts(req, res) {
+    try {
+      const { total, alerts } = await siemService.listAlerts(req.query);
+      res.json({
+        success: true,
+        data: alerts,
+        pagination: { total, limit: req.query.limit, offset: req.query.offset },
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async getAlert(req, res) {
+    try {
+      const alert = await siemService.getAlert(req.params.id);
+      res.json({ success: true, data: alert });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async updateAlertStatus(req, res) {
+    try {
+      const alert = await siemService.updateAlertStatus(
+        req.params.id,
+        req.body.status,
+        req.user?.id || 'system',
+      );
+      res.json({ success: true, data: alert });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async assignAlert(req, res) {
+    try {
+      const alert = await siemService.assignAlert(
+        req.params.id,
+        req.body.assignee,
+        req.user?.id || 'system',
+      );
+      res.json({ success: true, data: alert });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async escalateAlert(req, res) {
+    try {
+      const alert = await siemService.escalateAlert(
+        req.params.id,
+        req.body,
+        req.user?.id || 'system',
+      );
+      res.json({ success: true, data: alert });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async createAlertSuppression(req, res) {
+    try {
+      const suppression = await siemService.createAlertSuppression(
+        req.body,
+        req.user?.id || 'system',
+      );
+      res.status(201).json({ success: true, data: suppression });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async listAlertSuppressions(req, res) {
+    try {
+      const suppressions = await siemService.listAlertSuppressions(req.query);
+      res.json({ success: true, data: suppressions });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async deleteAlertSuppression(req, res) {
+    try {
+      const result = await siemService.deleteAlertSuppression(
+        req.params.id,
+        req.user?.id || 'system',
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  // ========================================
+  // Event search and saved searches
+  // ========================================
+
+  async searchEvents(req, res) {
+    try {
+      const result = await siemService.searchEvents(req.body);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async suggestSearchFields(req, res) {
+    try {
+      const fields = await siemService.suggestSearchFields(req.query.prefix, req.query.limit);
+      res.json({ success: true, data: fields });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async createSavedSearch(req, res) {
+    try {
+      const search = await siemService.createSavedSearch(req.body, searchUser(req));
+      res.status(201).json({ success: true, data: search });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async listSavedSearches(req, res) {
+    try {
+      const searches = await siemService.listSavedSearches(searchUser(req));
+      res.json({ success: true, data: searches });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async getSavedSearch(req, res) {
+    try {
+      const search = await siemService.getSavedSearch(req.params.id, searchUser(req));
+      res.json({ success: true, data: search });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async updateSavedSearch(req, res) {
+    try {
+      const search = await siemService.updateSavedSearch(
+        req.params.id,
+        req.body,
+        searchUser(req),
+      );
+      res.json({ success: true, data: search });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async deleteSavedSearch(req, res) {
+    try {
+      await siemService.deleteSavedSearch(req.params.id, searchUser(req));
+      res.json({ success: true, data: { deleted: true, id: req.params.id } });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async runSavedSearch(req, res) {
+    try {
+      const result = await siemService.runSavedSearch(req.params.id, searchUser(req), req.body);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  // ========================================
+  // Correlation and forensics
+  // ========================================
+
+  async runCorrelation(req, res) {
+    try {
+      const results = await siemService.correlateEvents({
+        ...req.body,
+        id: req.body.id || uuidv4(),
+      });
+      res.json({ success: true, data: results });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async createCorrelationRule(req, res) {
+    try {
+      const rule = await siemService.createCorrelationRule({
+        ...req.body,
+        createdBy: req.user?.id || 'system',
+      });
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async listCorrelationRules(req, res) {
+    try {
+      const rules = await siemService.listCorrelationRules();
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async getCorrelationRule(req, res) {
+    try {
+      const rule = await siemService.getCorrelationRule(req.params.id);
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async updateCorrelationRule(req, res) {
+    try {
+      const rule = await siemService.updateCorrelationRule(req.params.id, req.body);
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async deleteCorrelationRule(req, res) {
+    try {
+      const result = await siemService.deleteCorrelationRule(req.params.id);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async correlationEngineStats(req, res) {
+    try {
+      const stats = await siemService.getCorrelationEngineStats();
+      res.json({ success: true, data: stats });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async iocSweepStats(req, res) {
+    try {
+      const stats = await siemService.getIocSweepStats();
+      res.json({ success: true, data: stats });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async rebuildIocSweep(req, res) {
+    try {
+      const stats = await siemService.rebuildIocSweep();
+      res.json({ success: true, data: stats });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async retroHuntIoc(req, res) {
+    try {
+      const result = await siemService.retroHuntIoc(req.body.iocId, req.body.days);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async forensicSearch(req, res) {
+    try {
+      const events = await siemService.forensicSearch(req.body);
+      res.json({ success: true, data: events });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
+
+  async reconstructTimeline(req, res) {
+    try {
+      const timeline = await siemService.reconstructTimeline(req.body.eventIds);
+      res.json({ success: true, data: timeline });
+    } catch (error) {
+      sendError(res, error);
+    }
+  }
 }
 
 export default new SiemController();
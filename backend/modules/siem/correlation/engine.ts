@@ -0,0 +1,513 @@
+/**
+ * Streaming Correlation Engine
+ * Evaluates streaming correlation rules as events arrive, keeping per-rule,
+ * per-group-key window state in memory instead of querying stored events:
+ * - threshold: count / distinct-count of matching events in a sliding or
+ *   tumbling window
+ * - sequence: steps matched in order within the window
+ * - absence: a trigger event not followed by an expected event in time;
+ *   detected by advance(), which a timer calls while the engine is started
+ *
+ * State is bounded (least recently used keys and the oldest entries of a key
+ * are evicted) and periodically snapshotted so a restart resumes open windows.
+ *
+ * Emits `match` with a StreamingCorrelationMatch.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  mkdir, readFile, rename, writeFile,
+} from 'fs/promises';
+import { dirname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { evaluateExpression, getEventField } from '../rules/evaluator';
+import { loadCorrelationConfig } from '../config/correlation';
+import type { CorrelationConfig } from '../config/correlation';
+import logger from '../utils/logger';
+import type {
+  CorrelationEngineStats,
+  NormalizedEvent,
+  StreamingCorrelationMatch,
+  StreamingCorrelationRule,
+} from '../types';
+
+interface EventRef {
+  readonly id: string;
+  readonly at: number;
+  readonly value?: string; // distinct field value
+}
+
+interface SequenceRun {
+  readonly step: number; // next step to match
+  readonly start: number;
+  readonly last: number;
+  readonly events: string[];
+}
+
+interface PendingAbsence extends EventRef {
+  readonly deadline: number;
+}
+
+interface KeyState {
+  readonly ruleId: string;
+  readonly key: string;
+  readonly window: number; // seconds, for idle expiry
+  updatedAt: number;
+  entries: EventRef[];
+  runs: SequenceRun[];
+  pending: PendingAbsence[];
+  bucket?: number; // tumbling window start
+  fired?: boolean; // tumbling window already matched
+}
+
+export interface CorrelationSnapshot {
+  readonly version: 1;
+  readonly takenAt: string;
+  readonly rules: StreamingCorrelationRule[];
+  readonly states: KeyState[];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+const stateKey = (ruleId: string, key: string): string => `${ruleId}\u0000${key}`;
+
+class CorrelationEngine extends EventEmitter {
+  private rules = new Map<string, StreamingCorrelationRule>();
+
+  // Insertion order doubles as least-recently-used order
+  private states = new Map<string, KeyState>();
+
+  private counters = {
+    processed: 0,
+    matches: 0,
+    evictedKeys: 0,
+    evictedEntries: 0,
+  };
+
+  private lastSnapshotAt?: Date;
+
+  private options: CorrelationConfig;
+
+  private tickTimer?: NodeJS.Timeout;
+
+  private snapshotTimer?: NodeJS.Timeout;
+
+  constructor(options: CorrelationConfig = loadCorrelationConfig()) {
+    super();
+    this.options = options;
+  }
+
+  configure(options: Partial<CorrelationConfig>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // ========================================
+  // Rules
+  // ========================================
+
+  setRule(rule: StreamingCorrelationRule): void {
+    const previous = this.rules.get(rule.id);
+    this.rules.set(rule.id, rule);
+    // Window state from an older definition would not line up with the new one
+    if (previous) this.clearState(rule.id);
+  }
+
+  removeRule(ruleId: string): boolean {
+    this.clearState(ruleId);
+    return this.rules.delete(ruleId);
+  }
+
+  getRule(ruleId: string): StreamingCorrelationRule | undefined {
+    return this.rules.get(ruleId);
+  }
+
+  listRules(): StreamingCorrelationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  // ========================================
+  // Event processing
+  // ========================================
+
+  /**
+   * Feed one event through every enabled rule and return the matches it completes
+   */
+  process(event: NormalizedEvent): StreamingCorrelationMatch[] {
+    this.counters.processed += 1;
+    const at = new Date(event.timestamp).getTime();
+    const matches: StreamingCorrelationMatch[] = [];
+
+    this.rules.forEach((rule) => {
+      if (!rule.enabled) return;
+      const key = this.groupKey(rule, event);
+      if (key === undefined) return;
+
+      let match: StreamingCorrelationMatch | undefined;
+      if (rule.type === 'threshold') match = this.processThreshold(rule, key, event, at);
+      else if (rule.type === 'sequence') match = this.processSequence(rule, key, event, at);
+      else this.processAbsence(rule, key, event, at);
+
+      if (match) matches.push(match);
+    });
+
+    matches.forEach((match) => this.emitMatch(match));
+    return matches;
+  }
+
+  /**
+   * Count events seen under a key in the sliding window ending at the event,
+   * each event counted once. Used by threshold detection rules.
+   */
+  countInWindow(key: string, event: NormalizedEvent, windowSeconds: number): number {
+    const at = new Date(event.timestamp).getTime();
+    const state = this.touch(stateKey('detection', key), 'detection', key, windowSeconds, at);
+    state.entries = state.entries.filter((entry) => entry.at > at - windowSeconds * 1000);
+    if (!state.entries.some((entry) => entry.id === event.id)) {
+      this.addEntry(state, { id: event.id, at });
+    }
+    return state.entries.length;
+  }
+
+  /**
+   * Fire absence rules whose deadline has passed and drop idle keys
+   */
+  advance(now: number = Date.now()): StreamingCorrelationMatch[] {
+    const matches: StreamingCorrelationMatch[] = [];
+
+    Array.from(this.states.keys()).forEach((id) => {
+      const state = this.states.get(id) as KeyState;
+      const rule = this.rules.get(state.ruleId);
+      if (rule?.type === 'absence' && state.pending.length) {
+        const expired = state.pending.filter((pending) => pending.deadline <= now);
+        state.pending = state.pending.filter((pending) => pending.deadline > now);
+        expired.forEach((pending) => matches.push(this.buildMatch(rule, state.key, [pending.id], {
+          windowStart: pending.at,
+          windowEnd: pending.deadline,
+          details: { expected: 'not seen' },
+        })));
+      }
+
+      const idle = state.updatedAt + state.window * 1000 <= now;
+      if (idle && !state.pending.length) this.states.delete(id);
+    });
+
+    matches.forEach((match) => this.emitMatch(match));
+    return matches;
+  }
+
+  stats(): CorrelationEngineStats {
+    let entries = 0;
+    this.states.forEach((state) => {
+      entries += state.entries.length + state.runs.length + state.pending.length;
+    });
+    return {
+      rules: this.rules.size,
+      keys: this.states.size,
+      entries,
+      ...this.counters,
+      ...(this.lastSnapshotAt ? { lastSnapshotAt: this.lastSnapshotAt } : {}),
+    };
+  }
+
+  // ========================================
+  // Snapshots and lifecycle
+  // ========================================
+
+  snapshot(): CorrelationSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      takenAt: new Date().toISOString(),
+      rules: this.listRules(),
+      states: Array.from(this.states.values(), (state) => ({
+        ...state,
+        entries: [...state.entries],
+        runs: state.runs.map((run) => ({ ...run, events: [...run.events] })),
+        pending: [...state.pending],
+      })),
+    };
+  }
+
+  /**
+   * Replace rules and window state with a snapshot
+   */
+  restore(snapshot: CorrelationSnapshot): void {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported correlation snapshot version ${snapshot.version}`);
+    }
+    this.rules = new Map(snapshot.rules.map((rule) => [
+      rule.id, { ...rule, createdAt: new Date(rule.createdAt) },
+    ]));
+    this.states = new Map(snapshot.states.map((state) => [
+      stateKey(state.ruleId, state.key), { ...state },
+    ]));
+  }
+
+  /**
+   * Write a snapshot; the file is replaced atomically
+   */
+  async saveSnapshot(path: string | undefined = this.options.snapshotPath): Promise<void> {
+    if (!path) return;
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(this.snapshot()));
+    await rename(`${path}.tmp`, path);
+    this.lastSnapshotAt = new Date();
+  }
+
+  /**
+   * Restore the snapshot file, if there is one
+   */
+  async loadSnapshot(path: string | undefined = this.options.snapshotPath): Promise<boolean> {
+    if (!path) return false;
+    let content: string;
+    try {
+      content = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+    this.restore(JSON.parse(content));
+    logger.info('Correlation snapshot restored', { path, keys: this.states.size });
+    return true;
+  }
+
+  /**
+   * Restore the last snapshot and start the absence timer and periodic snapshots
+   */
+  async start(): Promise<void> {
+    this.stop();
+    try {
+      await this.loadSnapshot();
+    } catch (error) {
+      logger.error('Failed to restore correlation snapshot', { error });
+    }
+
+    this.tickTimer = setInterval(() => this.advance(), this.options.tickInterval * 1000);
+    this.tickTimer.unref();
+    if (this.options.snapshotPath) {
+      this.snapshotTimer = setInterval(() => {
+        this.saveSnapshot().catch((error) => {
+          logger.error('Failed to write correlation snapshot', { error });
+        });
+      }, this.options.snapshotInterval * 1000);
+      this.snapshotTimer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    if (this.snapshotTimer) clearInterval(this.snapshotTimer);
+    this.tickTimer = undefined;
+    this.snapshotTimer = undefined;
+  }
+
+  // ========================================
+  // Rule types
+  // ========================================
+
+  private processThreshold(
+    rule: Extract<StreamingCorrelationRule, { type: 'threshold' }>,
+    key: string,
+    event: NormalizedEvent,
+    at: number,
+  ): StreamingCorrelationMatch | undefined {
+    if (!evaluateExpression(event, rule.match)) return undefined;
+
+    const size = rule.window.size * 1000;
+    const state = this.touch(stateKey(rule.id, key), rule.id, key, rule.window.size, at);
+    let windowStart = at - size;
+    if (rule.window.type === 'tumbling') {
+      windowStart = Math.floor(at / size) * size;
+      if (state.bucket !== windowStart) {
+        state.bucket = windowStart;
+        state.fired = false;
+        state.entries = [];
+      }
+    } else {
+      state.entries = state.entries.filter((entry) => entry.at > windowStart);
+    }
+
+    const value = rule.distinctField ? getEventField(event, rule.distinctField) : undefined;
+    this.addEntry(state, {
+      id: event.id, at, ...(value !== undefined && value !== null ? { value: String(value) } : {}),
+    });
+
+    if (state.fired) return undefined;
+    const count = state.entries.length;
+    const distinct = new Set(state.entries.map((entry) => entry.value).filter(Boolean)).size;
+    if ((rule.count && count < rule.count)
+      || (rule.distinctCount && distinct < rule.distinctCount)) return undefined;
+
+    const match = this.buildMatch(rule, key, state.entries.map((entry) => entry.id), {
+      windowStart: rule.window.type === 'tumbling'
+        ? windowStart
+        : state.entries[0].at,
+      windowEnd: rule.window.type === 'tumbling' ? windowStart + size : at,
+      details: { count, ...(rule.distinctField ? { distinctCount: distinct } : {}) },
+    });
+    // Start counting again so one burst raises one match
+    if (rule.window.type === 'tumbling') state.fired = true;
+    else state.entries = [];
+    return match;
+  }
+
+  private processSequence(
+    rule: Extract<StreamingCorrelationRule, { type: 'sequence' }>,
+    key: string,
+    event: NormalizedEvent,
+    at: number,
+  ): StreamingCorrelationMatch | undefined {
+    const stepMatches = new Map<number, boolean>();
+    const matchesStep = (step: number): boolean => {
+      if (!stepMatches.has(step)) {
+        stepMatches.set(step, evaluateExpression(event, rule.steps[step].match));
+      }
+      return stepMatches.get(step) as boolean;
+    };
+
+    const id = stateKey(rule.id, key);
+    const existing = this.states.get(id);
+    const size = rule.window.size * 1000;
+    const runs = (existing?.runs || []).filter((run) => at - run.start <= size);
+    const advanced = runs.filter((run) => at >= run.last && matchesStep(run.step));
+    if (!advanced.length && !matchesStep(0)) {
+      if (existing) existing.runs = runs;
+      return undefined;
+    }
+
+    const state = this.touch(id, rule.id, key, rule.window.size, at);
+    state.runs = runs.map((run) => (advanced.includes(run)
+      ? {
+        ...run, step: run.step + 1, last: at, events: [...run.events, event.id],
+      }
+      : run));
+
+    const completed = state.runs.find((run) => run.step === rule.steps.length);
+    if (completed) {
+      state.runs = [];
+      return this.buildMatch(rule, key, completed.events, {
+        windowStart: completed.start,
+        windowEnd: at,
+        details: { steps: rule.steps.map((step) => step.name) },
+      });
+    }
+
+    if (matchesStep(0)) {
+      if (rule.steps.length === 1) {
+        return this.buildMatch(rule, key, [event.id], {
+          windowStart: at, windowEnd: at, details: { steps: [rule.steps[0].name] },
+        });
+      }
+      state.runs.push({
+        step: 1, start: at, last: at, events: [event.id],
+      });
+      if (state.runs.length > this.options.maxEntriesPerKey) {
+        state.runs.shift();
+        this.counters.evictedEntries += 1;
+      }
+    }
+    return undefined;
+  }
+
+  private processAbsence(
+    rule: Extract<StreamingCorrelationRule, { type: 'absence' }>,
+    key: string,
+    event: NormalizedEvent,
+    at: number,
+  ): void {
+    const id = stateKey(rule.id, key);
+    const existing = this.states.get(id);
+
+    if (existing?.pending.length && evaluateExpression(event, rule.expected)) {
+      existing.pending = existing.pending.filter((pending) => (
+        pending.at > at || pending.deadline < at
+      ));
+    }
+    if (evaluateExpression(event, rule.trigger)) {
+      const state = this.touch(id, rule.id, key, rule.window.size, at);
+      state.pending.push({ id: event.id, at, deadline: at + rule.window.size * 1000 });
+      if (state.pending.length > this.options.maxEntriesPerKey) {
+        state.pending.shift();
+        this.counters.evictedEntries += 1;
+      }
+    }
+  }
+
+  // ========================================
+  // State helpers
+  // ========================================
+
+  private groupKey(rule: StreamingCorrelationRule, event: NormalizedEvent): string | undefined {
+    const values = rule.groupBy.map((field) => getEventField(event, field));
+    if (values.some((value) => value === undefined || value === null || value === '')) {
+      return undefined;
+    }
+    return values.map(String).join('|') || '*';
+  }
+
+  /**
+   * Get or create the state of a key and mark it most recently used
+   */
+  private touch(id: string, ruleId: string, key: string, window: number, at: number): KeyState {
+    let state = this.states.get(id);
+    if (state) {
+      this.states.delete(id);
+    } else {
+      state = {
+        ruleId, key, window, updatedAt: at, entries: [], runs: [], pending: [],
+      };
+    }
+    state.updatedAt = Math.max(state.updatedAt, at);
+    this.states.set(id, state);
+
+    while (this.states.size > this.options.maxKeys) {
+      const oldest = this.states.keys().next().value as string;
+      this.states.delete(oldest);
+      this.counters.evictedKeys += 1;
+    }
+    return state;
+  }
+
+  private addEntry(state: KeyState, entry: EventRef): void {
+    state.entries.push(entry);
+    if (state.entries.length > this.options.maxEntriesPerKey) {
+      state.entries.shift();
+      this.counters.evictedEntries += 1;
+    }
+  }
+
+  private clearState(ruleId: string): void {
+    this.states.forEach((state, id) => {
+      if (state.ruleId === ruleId) this.states.delete(id);
+    });
+  }
+
+  private buildMatch(
+    rule: StreamingCorrelationRule,
+    key: string,
+    events: string[],
+    window: { windowStart: number; windowEnd: number; details: Record<string, any> },
+  ): StreamingCorrelationMatch {
+    return {
+      id: uuidv4(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      type: rule.type,
+      severity: rule.severity,
+      key,
+      events: [...events],
+      windowStart: new Date(window.windowStart),
+      windowEnd: new Date(window.windowEnd),
+      matchedAt: new Date(),
+      details: window.details,
+    };
+  }
+
+  private emitMatch(match: StreamingCorrelationMatch): void {
+    this.counters.matches += 1;
+    logger.info('Correlation rule matched', { ruleId: match.ruleId, key: match.key });
+    this.emit('match', match);
+  }
+}
+
+export { CorrelationEngine };
+export default new CorrelationEngine();
@@ -0,0 +1,6 @@
+/**
+ * SIEM Streaming Correlation
+ */
+
+export { default as correlationEngine, CorrelationEngine } from './engine';
+export type { CorrelationSnapshot } from './engine';
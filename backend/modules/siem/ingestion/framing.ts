@@ -0,0 +1,120 @@
+/**
+ * Syslog Stream Framing (RFC 6587)
+ * Splits a TCP/TLS byte stream into messages. Frames starting with a digit use
+ * octet counting ("LEN SP MSG"); anything else is newline-terminated. Both may
+ * be mixed on one connection.
+ */
+
+const LF = 0x0a;
+const CR = 0x0d;
+const SPACE = 0x20;
+
+// Longest octet count prefix accepted ("99999999 ")
+const MAX_COUNT_DIGITS = 8;
+
+const isDigit = (byte: number): boolean => byte >= 0x30 && byte <= 0x39;
+
+export interface FramedMessages {
+  readonly messages: string[];
+  readonly oversized: number;
+}
+
+class SyslogFramer {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  // Bytes of an oversized octet-counted frame still to be discarded
+  private skipBytes = 0;
+
+  // Discarding an oversized newline-framed message up to its newline
+  private skipLine = false;
+
+  private readonly maxMessageBytes: number;
+
+  constructor(maxMessageBytes: number) {
+    this.maxMessageBytes = maxMessageBytes;
+  }
+
+  /**
+   * Add received bytes and return the messages they complete. Messages over
+   * the size limit are discarded and counted as oversized.
+   */
+  push(chunk: Buffer): FramedMessages {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const messages: string[] = [];
+    let oversized = 0;
+
+    for (;;) {
+      if (this.skipBytes > 0) {
+        const skipped = Math.min(this.skipBytes, this.buffer.length);
+        this.skipBytes -= skipped;
+        this.buffer = this.buffer.subarray(skipped);
+        if (this.skipBytes > 0) break;
+      }
+
+      if (this.skipLine) {
+        const newline = this.buffer.indexOf(LF);
+        if (newline === -1) {
+          this.buffer = Buffer.alloc(0);
+          break;
+        }
+        this.skipLine = false;
+        this.buffer = this.buffer.subarray(newline + 1);
+      }
+
+      // Trailers between frames
+      let start = 0;
+      while (start < this.buffer.length && [LF, CR].includes(this.buffer[start])) start += 1;
+      this.buffer = this.buffer.subarray(start);
+      if (!this.buffer.length) break;
+
+      if (isDigit(this.buffer[0])) {
+        const space = this.buffer.subarray(0, MAX_COUNT_DIGITS + 1).indexOf(SPACE);
+        const prefix = space > 0 ? this.buffer.subarray(0, space).toString('ascii') : '';
+        if (space > 0 && /^\d+$/.test(prefix)) {
+          const length = Number(prefix);
+          if (length > this.maxMessageBytes) {
+            oversized += 1;
+            this.skipBytes = length;
+            this.buffer = this.buffer.subarray(space + 1);
+            continue;
+          }
+          if (this.buffer.length < space + 1 + length) break;
+          messages.push(this.buffer.subarray(space + 1, space + 1 + length).toString('utf8'));
+          this.buffer = this.buffer.subarray(space + 1 + length);
+          continue;
+        }
+        // Still reading the count
+        if (space === -1 && this.buffer.length <= MAX_COUNT_DIGITS
+          && /^\d+$/.test(this.buffer.toString('ascii'))) break;
+      }
+
+      const newline = this.buffer.indexOf(LF);
+      if (newline === -1) {
+        if (this.buffer.length > this.maxMessageBytes) {
+          oversized += 1;
+          this.skipLine = true;
+          this.buffer = Buffer.alloc(0);
+        }
+        break;
+      }
+      const end = newline > 0 && this.buffer[newline - 1] === CR ? newline - 1 : newline;
+      messages.push(this.buffer.subarray(0, end).toString('utf8'));
+      this.buffer = this.buffer.subarray(newline + 1);
+    }
+
+    return { messages, oversized };
+  }
+
+  /**
+   * Message left without a trailer when the connection closes
+   */
+  flush(): string | undefined {
+    const rest = this.skipBytes > 0 || this.skipLine ? '' : this.buffer.toString('utf8').trim();
+    this.buffer = Buffer.alloc(0);
+    this.skipBytes = 0;
+    this.skipLine = false;
+    return rest || undefined;
+  }
+}
+
+export default SyslogFramer;
@@ -0,0 +1,16 @@
+/**
+ * SIEM Log Ingestion
+ * Network listeners and the HTTP bulk endpoint feed the shared pipeline
+ */
+
+import pipeline, { IngestPipeline } from './pipeline';
+import listeners, { LogListeners } from './listeners';
+import SyslogFramer from './framing';
+
+export {
+  pipeline as ingestPipeline,
+  listeners as logListeners,
+  IngestPipeline,
+  LogListeners,
+  SyslogFramer,
+};
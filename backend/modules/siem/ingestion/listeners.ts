@@ -0,0 +1,193 @@
+/**
+ * Syslog Network Listeners
+ * UDP (one message per datagram line), TCP and TLS (RFC 6587 octet-counted or
+ * newline framing). Each sender address is rate limited on its own. Stream
+ * sockets are paused while the pipeline queue is saturated; each stream
+ * listener accepts at most `maxConnections` sockets and closes those that stay
+ * idle for `idleTimeout` seconds.
+ */
+
+import dgram from 'dgram';
+import net from 'net';
+import tls from 'tls';
+import { readFileSync } from 'fs';
+import pipeline from './pipeline';
+import SyslogFramer from './framing';
+import { loadIngestionConfig } from '../config/ingestion';
+import type { IngestionConfig } from '../config/ingestion';
+import logger from '../utils/logger';
+import type { IngestTransport } from '../types';
+
+export interface ListenerPorts {
+  udp?: number;
+  tcp?: number;
+  tls?: number;
+}
+
+class LogListeners {
+  private udpSocket?: dgram.Socket;
+
+  private tcpServer?: net.Server;
+
+  private tlsServer?: tls.Server;
+
+  private sockets = new Set<net.Socket>();
+
+  private config: IngestionConfig = loadIngestionConfig();
+
+  private readonly resumeSockets = () => {
+    this.sockets.forEach((socket) => socket.resume());
+  };
+
+  /**
+   * Start the listeners whose port is configured
+   */
+  async start(config: IngestionConfig = loadIngestionConfig()): Promise<ListenerPorts> {
+    await this.stop();
+    this.config = config;
+    pipeline.on('drain', this.resumeSockets);
+
+    if (config.udpPort !== undefined) {
+      const socket = dgram.createSocket('udp4');
+      socket.on('message', (message, remote) => this.handleDatagram(message, remote.address));
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject);
+        socket.bind(config.udpPort, config.host, () => {
+          socket.off('error', reject);
+          resolve();
+        });
+      });
+      socket.on('error', (error) => logger.error('Syslog UDP listener error', { error }));
+      this.udpSocket = socket;
+    }
+
+    if (config.tcpPort !== undefined) {
+      this.tcpServer = net.createServer((socket) => this.handleStream(socket, 'tcp'));
+      this.tcpServer.maxConnections = config.maxConnections;
+      await this.listen(this.tcpServer, config.tcpPort, 'tcp');
+    }
+
+    if (config.tlsPort !== undefined) {
+      const { certPath, keyPath, caPath } = config.tls;
+      if (!certPath || !keyPath) {
+        throw new Error('SIEM_SYSLOG_TLS_CERT and SIEM_SYSLOG_TLS_KEY are required for TLS');
+      }
+      this.tlsServer = tls.createServer({
+        cert: readFileSync(certPath),
+        key: readFileSync(keyPath),
+        ...(caPath ? { ca: readFileSync(caPath), requestCert: true } : {}),
+      }, (socket) => this.handleStream(socket, 'tls'));
+      this.tlsServer.maxConnections = config.maxConnections;
+      this.tlsServer.on('tlsClientError', (error) => {
+        logger.warn('Syslog TLS handshake failed', { error: error.message });
+      });
+      await this.listen(this.tlsServer, config.tlsPort, 'tls');
+    }
+
+    const ports = this.ports();
+    if (Object.keys(ports).length) logger.info('Syslog listeners started', ports);
+    return ports;
+  }
+
+  /**
+   * Close all listeners and open connections
+   */
+  async stop(): Promise<void> {
+    pipeline.off('drain', this.resumeSockets);
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets.clear();
+
+    const closing: Promise<void>[] = [];
+    if (this.udpSocket) {
+      const socket = this.udpSocket;
+      closing.push(new Promise((resolve) => socket.close(() => resolve())));
+    }
+    [this.tcpServer, this.tlsServer].forEach((server) => {
+      if (server) closing.push(new Promise((resolve) => server.close(() => resolve())));
+    });
+    this.udpSocket = undefined;
+    this.tcpServer = undefined;
+    this.tlsServer = undefined;
+    await Promise.all(closing);
+  }
+
+  /**
+   * Bound ports, useful when listening on port 0
+   */
+  ports(): ListenerPorts {
+    const ports: ListenerPorts = {};
+    if (this.udpSocket) ports.udp = this.udpSocket.address().port;
+    if (this.tcpServer) ports.tcp = (this.tcpServer.address() as net.AddressInfo).port;
+    if (this.tlsServer) ports.tls = (this.tlsServer.address() as net.AddressInfo).port;
+    return ports;
+  }
+
+  private listen(server: net.Server, port: number, transport: IngestTransport): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, this.config.host, () => {
+        server.off('error', reject);
+        server.on('error', (error) => {
+          logger.error(`Syslog ${transport} listener error`, { error });
+        });
+        resolve();
+      });
+    });
+  }
+
+  private handleDatagram(message: Buffer, source: string): void {
+    if (message.length > this.config.maxMessageBytes) {
+      pipeline.drop('oversized');
+      return;
+    }
+    message.toString('utf8').split('\n')
+      .map((line) => line.replace(/\r$/, ''))
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        pipeline.submit(line, this.config.sourceType, { source, transport: 'udp' });
+      });
+  }
+
+  private handleStream(socket: net.Socket, transport: IngestTransport): void {
+    const framer = new SyslogFramer(this.config.maxMessageBytes);
+    const source = socket.remoteAddress || 'unknown';
+    const submit = (message: string) => {
+      pipeline.submit(message, this.config.sourceType, { source, transport });
+    };
+    const flush = () => {
+      const rest = framer.flush();
+      if (rest) submit(rest);
+    };
+
+    this.sockets.add(socket);
+    if (pipeline.isSaturated) socket.pause();
+
+    socket.on('data', (chunk: Buffer) => {
+      const { messages, oversized } = framer.push(chunk);
+      if (oversized) pipeline.drop('oversized', oversized);
+      messages.forEach(submit);
+      if (pipeline.isSaturated) socket.pause();
+    });
+    socket.on('end', flush);
+    if (this.config.idleTimeout > 0) {
+      socket.setTimeout(this.config.idleTimeout * 1000);
+      socket.on('timeout', () => {
+        // A socket paused for backpressure is quiet because of us, not the sender
+        if (socket.isPaused()) {
+          socket.setTimeout(this.config.idleTimeout * 1000);
+          return;
+        }
+        logger.info(`Closing idle syslog ${transport} connection`, { source });
+        flush();
+        socket.destroy();
+      });
+    }
+    socket.on('error', (error) => {
+      logger.warn(`Syslog ${transport} connection error`, { source, error: error.message });
+    });
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+}
+
+export { LogListeners };
+export default new LogListeners();
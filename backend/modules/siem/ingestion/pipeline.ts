@@ -0,0 +1,318 @@
+/**
+ * SIEM Ingestion Pipeline
+ * Every listener and the HTTP bulk endpoint submit logs here. Logs pass a
+ * per-source rate limit into a bounded queue drained by a few workers through
+ * siemService.ingestLog (collectLog plus detection rules). When the queue is
+ * full, logs are dropped; stream listeners avoid that by pausing their sockets
+ * on `saturated` and resuming on `drain`. Logs that fail to parse or store go
+ * to a bounded dead-letter list.
+ *
+ * Emits `saturated` when the queue reaches its high-water mark and `drain`
+ * when it falls back below half of it.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import siemService from '../services/siemService';
+import SourceRateLimiter from '../../../utils/sourceRateLimiter';
+import { loadIngestionConfig } from '../config/ingestion';
+import { metricsService } from '../../metrics/service';
+import { MetricCategory, MetricType } from '../../metrics/types';
+import logger from '../utils/logger';
+import { isValidSourceType } from '../types';
+import type {
+  BulkIngestResult,
+  DeadLetter,
+  IngestDropReason,
+  IngestStats,
+  IngestTransport,
+  LogSourceType,
+} from '../types';
+
+export interface PipelineOptions {
+  readonly queueCapacity: number;
+  readonly concurrency: number;
+  readonly rateLimit: number;
+  readonly rateBurst: number;
+  readonly deadLetterLimit: number;
+}
+
+export interface SubmitOrigin {
+  readonly source: string;
+  readonly transport: IngestTransport;
+}
+
+interface QueuedLog extends SubmitOrigin {
+  readonly rawLog: string;
+  readonly sourceType: LogSourceType;
+  readonly receivedAt: Date;
+}
+
+// Stream sockets pause at this share of the queue, leaving room for data in flight
+const HIGH_WATER_RATIO = 0.8;
+
+const emptyDrops = (): Record<IngestDropReason, number> => ({
+  queue_full: 0,
+  rate_limited: 0,
+  oversized: 0,
+});
+
+class IngestPipeline extends EventEmitter {
+  private queue: QueuedLog[] = [];
+
+  private active = 0;
+
+  private saturated = false;
+
+  private deadLetters: DeadLetter[] = [];
+
+  private counters = {
+    received: 0,
+    processed: 0,
+    deadLettered: 0,
+    dropped: emptyDrops(),
+  };
+
+  private options: PipelineOptions;
+
+  private rateLimiter: SourceRateLimiter;
+
+  private metricsTimer?: NodeJS.Timeout;
+
+  private lastFlush = { at: Date.now(), processed: 0 };
+
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(options: PipelineOptions = loadIngestionConfig()) {
+    super();
+    this.options = options;
+    this.rateLimiter = new SourceRateLimiter(options.rateLimit, options.rateBurst);
+  }
+
+  /**
+   * Replace the queue and rate limit settings; queued logs are kept
+   */
+  configure(options: Partial<PipelineOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.rateLimiter = new SourceRateLimiter(this.options.rateLimit, this.options.rateBurst);
+  }
+
+  get isSaturated(): boolean {
+    return this.saturated;
+  }
+
+  /**
+   * Queue a raw log. Returns 'accepted', or why the log was dropped.
+   */
+  submit(
+    rawLog: string,
+    sourceType: LogSourceType,
+    origin: SubmitOrigin,
+  ): 'accepted' | IngestDropReason {
+    this.counters.received += 1;
+
+    if (!this.rateLimiter.tryTake(origin.source)) {
+      return this.drop('rate_limited');
+    }
+    if (this.queue.length >= this.options.queueCapacity) {
+      return this.drop('queue_full');
+    }
+
+    this.queue.push({
+      rawLog, sourceType, ...origin, receivedAt: new Date(),
+    });
+    if (!this.saturated && this.queue.length >= this.highWater()) {
+      this.saturated = true;
+      this.emit('saturated');
+    }
+    this.pump();
+    return 'accepted';
+  }
+
+  /**
+   * Submit NDJSON lines. A line is either an envelope {"rawLog", "sourceType"}
+   * or a JSON event, ingested with the default source type.
+   */
+  submitNdjson(
+    body: string,
+    defaultSourceType: LogSourceType,
+    origin: SubmitOrigin,
+  ): BulkIngestResult {
+    const result = { accepted: 0, invalid: 0, dropped: emptyDrops() };
+
+    for (const line of body.split('\n').map((l) => l.trim()).filter(Boolean)) {
+      let rawLog = line;
+      let sourceType: string = defaultSourceType;
+      let error: string | undefined;
+      try {
+        const parsed = JSON.parse(line);
+        if (parsed && typeof parsed === 'object' && typeof parsed.rawLog === 'string') {
+          rawLog = parsed.rawLog;
+          sourceType = parsed.sourceType || defaultSourceType;
+        }
+        if (!isValidSourceType(sourceType)) error = `Unknown source type '${sourceType}'`;
+      } catch (parseError) {
+        error = 'Invalid NDJSON line';
+      }
+
+      if (error) {
+        this.counters.received += 1;
+        this.deadLetter({
+          rawLog, sourceType: defaultSourceType, ...origin, receivedAt: new Date(),
+        }, error);
+        result.invalid += 1;
+      } else {
+        const outcome = this.submit(rawLog, sourceType as LogSourceType, origin);
+        if (outcome === 'accepted') result.accepted += 1;
+        else result.dropped[outcome] += 1;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Count logs a listener discarded before submitting them
+   */
+  drop(reason: IngestDropReason, count: number = 1): IngestDropReason {
+    this.counters.dropped[reason] += count;
+    return reason;
+  }
+
+  stats(): IngestStats {
+    return {
+      received: this.counters.received,
+      processed: this.counters.processed,
+      deadLettered: this.counters.deadLettered,
+      dropped: { ...this.counters.dropped },
+      queueDepth: this.queue.length,
+      queueCapacity: this.options.queueCapacity,
+      saturated: this.saturated,
+    };
+  }
+
+  /**
+   * Dead letters, newest first
+   */
+  listDeadLetters(limit: number = 100): DeadLetter[] {
+    return this.deadLetters.slice(-limit).reverse();
+  }
+
+  clearDeadLetters(): number {
+    const count = this.deadLetters.length;
+    this.deadLetters = [];
+    return count;
+  }
+
+  /**
+   * Resolve once every queued log has been processed
+   */
+  idle(): Promise<void> {
+    if (!this.queue.length && !this.active) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Periodically publish counters to the metrics module
+   */
+  startMetrics(intervalSeconds: number = loadIngestionConfig().metricsInterval): void {
+    this.stopMetrics();
+    this.lastFlush = { at: Date.now(), processed: this.counters.processed };
+    this.metricsTimer = setInterval(() => {
+      this.flushMetrics().catch((error) => {
+        logger.error('Failed to record ingest metrics', { error });
+      });
+    }, intervalSeconds * 1000);
+    this.metricsTimer.unref();
+  }
+
+  stopMetrics(): void {
+    if (this.metricsTimer) clearInterval(this.metricsTimer);
+    this.metricsTimer = undefined;
+  }
+
+  /**
+   * Record ingest throughput, queue depth and drop counters as metrics
+   */
+  async flushMetrics(now: number = Date.now()): Promise<void> {
+    const seconds = Math.max((now - this.lastFlush.at) / 1000, 1);
+    const throughput = (this.counters.processed - this.lastFlush.processed) / seconds;
+    this.lastFlush = { at: now, processed: this.counters.processed };
+    this.rateLimiter.prune(now);
+
+    const values: [string, MetricType, number][] = [
+      ['siem.ingest.received', MetricType.COUNTER, this.counters.received],
+      ['siem.ingest.processed', MetricType.COUNTER, this.counters.processed],
+      ['siem.ingest.dead_lettered', MetricType.COUNTER, this.counters.deadLettered],
+      ['siem.ingest.throughput', MetricType.GAUGE, Math.round(throughput * 100) / 100],
+      ['siem.ingest.queue_depth', MetricType.GAUGE, this.queue.length],
+      ['siem.ingest.dropped.queue_full', MetricType.COUNTER, this.counters.dropped.queue_full],
+      ['siem.ingest.dropped.rate_limited', MetricType.COUNTER, this.counters.dropped.rate_limited],
+      ['siem.ingest.dropped.oversized', MetricType.COUNTER, this.counters.dropped.oversized],
+    ];
+
+    await Promise.all(values.map(([name, type, value]) => metricsService.recordMetric({
+      name,
+      type,
+      category: MetricCategory.PERFORMANCE,
+      value,
+      unit: name === 'siem.ingest.throughput' ? 'events/s' : undefined,
+    })));
+  }
+
+  private highWater(): number {
+    return Math.max(1, Math.floor(this.options.queueCapacity * HIGH_WATER_RATIO));
+  }
+
+  private pump(): void {
+    while (this.active < this.options.concurrency && this.queue.length) {
+      const item = this.queue.shift() as QueuedLog;
+      this.active += 1;
+      this.process(item).finally(() => {
+        this.active -= 1;
+        this.afterProcess();
+      });
+    }
+  }
+
+  private async process(item: QueuedLog): Promise<void> {
+    try {
+      await siemService.ingestLog(item.rawLog, item.sourceType);
+      this.counters.processed += 1;
+    } catch (error) {
+      this.deadLetter(item, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private afterProcess(): void {
+    if (this.saturated && this.queue.length < this.highWater() / 2) {
+      this.saturated = false;
+      this.emit('drain');
+    }
+    this.pump();
+    if (!this.queue.length && !this.active) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private deadLetter(item: QueuedLog, error: string): void {
+    this.counters.deadLettered += 1;
+    this.deadLetters.push({
+      id: uuidv4(),
+      rawLog: item.rawLog,
+      sourceType: item.sourceType,
+      source: item.source,
+      transport: item.transport,
+      error,
+      receivedAt: item.receivedAt,
+    });
+    if (this.deadLetters.length > this.options.deadLetterLimit) {
+      this.deadLetters.splice(0, this.deadLetters.length - this.options.deadLetterLimit);
+    }
+    logger.warn('Log dead-lettered', { source: item.source, transport: item.transport, error });
+  }
+}
+
+export { IngestPipeline };
+export default new IngestPipeline();
@@ -0,0 +1,8 @@
+/**
+ * SIEM IOC Sweep
+ */
+
+export { default as iocSweep, IocSweep, toSweepIndicator } from './sweep';
+export {
+  IocIndex, parseIp, normalizeDomain, normalizeUrl,
+} from './iocIndex';
@@ -0,0 +1,303 @@
+/**
+ * IOC Index
+ * In-memory lookup of active indicators by event field value:
+ * - IP addresses and CIDR ranges, grouped by prefix length so a lookup masks
+ *   the address once per prefix length in use (an address is a full-length
+ *   prefix; IPv4-mapped IPv6 addresses match IPv4 indicators)
+ * - domains, matching the domain itself and every subdomain
+ * - URLs, hashes and email addresses, matched exactly after normalization
+ *
+ * Indicators are added, replaced and removed one at a time as IOCs change.
+ */
+
+import { isIP } from 'net';
+import { getEventField } from '../rules/evaluator';
+import type {
+  IocMatch,
+  NormalizedEvent,
+  SweepIndicator,
+  SweepIndicatorType,
+} from '../types';
+
+interface ParsedIp {
+  readonly version: 4 | 6;
+  readonly value: bigint;
+}
+
+// Event fields checked for each kind of indicator
+const EVENT_FIELDS = {
+  ip: ['sourceIp', 'destIp'],
+  domain: ['domain', 'url'], // The host of a URL
+  url: ['url'],
+  hash: ['fileHash'],
+  email: ['username', 'metadata.email', 'metadata.sender', 'metadata.recipient'],
+};
+
+const ADDRESS_BITS = { 4: 32, 6: 128 };
+
+const pow2 = (bits: number): bigint => BigInt(2) ** BigInt(bits);
+
+// Leading `prefix` bits of an address
+const networkOf = (value: bigint, bits: number, prefix: number): string => (
+  (value / pow2(bits - prefix)).toString()
+);
+
+const parseIpv4 = (ip: string): bigint => ip.split('.')
+  .reduce((value, octet) => value * pow2(8) + BigInt(Number(octet)), BigInt(0));
+
+/**
+ * Numeric form of an IPv4 or IPv6 address; IPv4-mapped IPv6 addresses are
+ * returned as IPv4
+ */
+export const parseIp = (input: string): ParsedIp | undefined => {
+  const ip = input.trim().split('%')[0];
+  const version = isIP(ip);
+  if (version === 4) return { version, value: parseIpv4(ip) };
+  if (version !== 6) return undefined;
+
+  // Trailing dotted IPv4 becomes the last two groups
+  const embedded = ip.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  const address = embedded
+    ? ip.replace(embedded[1], (() => {
+      const value = parseIpv4(embedded[1]);
+      return `${(value / pow2(16)).toString(16)}:${(value % pow2(16)).toString(16)}`;
+    })())
+    : ip;
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [
+      ...headGroups,
+      ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+      ...tailGroups,
+    ];
+  const value = groups.reduce(
+    (total, group) => total * pow2(16) + BigInt(parseInt(group, 16)),
+    BigInt(0),
+  );
+
+  if (value / pow2(32) === BigInt(0xffff)) {
+    return { version: 4, value: value % pow2(32) };
+  }
+  return { version, value };
+};
+
+/**
+ * Lower-case domain without a trailing dot or leading wildcard label
+ */
+export const normalizeDomain = (value: string): string | undefined => {
+  const domain = value.trim().toLowerCase().replace(/\.$/, '').replace(/^\*\./, '');
+  return /^[a-z0-9_-]+(\.[a-z0-9_-]+)+$/.test(domain) ? domain : undefined;
+};
+
+/**
+ * URL without its fragment or trailing slash; scheme and host lower-cased
+ */
+export const normalizeUrl = (value: string): string | undefined => {
+  try {
+    const url = new URL(value.trim());
+    url.hash = '';
+    return url.toString().replace(/\/$/, '');
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const normalizeHash = (value: string): string | undefined => {
+  const hash = value.trim().toLowerCase();
+  return /^[a-f0-9]{32,128}$/.test(hash) ? hash : undefined;
+};
+
+const normalizeEmail = (value: string): string | undefined => {
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+$/.test(email) ? email : undefined;
+};
+
+const urlHost = (value: string): string | undefined => {
+  try {
+    return new URL(value).hostname;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+class IocIndex {
+  private indicators = new Map<string, SweepIndicator>();
+
+  // IP version -> prefix length -> network -> indicator IDs
+  private networks = new Map<number, Map<number, Map<string, Set<string>>>>();
+
+  // `${type}:${value}` -> indicator IDs, for domains, URLs, hashes and emails
+  private values = new Map<string, Set<string>>();
+
+  /**
+   * Add an indicator, replacing an earlier version with the same ID; false
+   * when its value cannot be indexed
+   */
+  upsert(indicator: SweepIndicator): boolean {
+    this.remove(indicator.id);
+    const key = this.indexKey(indicator);
+    if (!key) return false;
+
+    if (key.network) {
+      const { version, prefix, network } = key.network;
+      const prefixes = this.networks.get(version) || new Map<number, Map<string, Set<string>>>();
+      const networks = prefixes.get(prefix) || new Map<string, Set<string>>();
+      networks.set(network, (networks.get(network) || new Set<string>()).add(indicator.id));
+      prefixes.set(prefix, networks);
+      this.networks.set(version, prefixes);
+    } else {
+      const ids = this.values.get(key.value) || new Set<string>();
+      this.values.set(key.value, ids.add(indicator.id));
+    }
+    this.indicators.set(indicator.id, indicator);
+    return true;
+  }
+
+  remove(id: string): boolean {
+    const indicator = this.indicators.get(id);
+    if (!indicator) return false;
+
+    const key = this.indexKey(indicator);
+    if (key?.network) {
+      const { version, prefix, network } = key.network;
+      const networks = this.networks.get(version)?.get(prefix);
+      networks?.get(network)?.delete(id);
+      if (networks?.get(network)?.size === 0) networks.delete(network);
+      if (networks?.size === 0) this.networks.get(version).delete(prefix);
+    } else if (key) {
+      this.values.get(key.value)?.delete(id);
+      if (this.values.get(key.value)?.size === 0) this.values.delete(key.value);
+    }
+    return this.indicators.delete(id);
+  }
+
+  get(id: string): SweepIndicator | undefined {
+    return this.indicators.get(id);
+  }
+
+  get size(): number {
+    return this.indicators.size;
+  }
+
+  countByType(): Record<SweepIndicatorType, number> {
+    const counts: Record<SweepIndicatorType, number> = {
+      ip: 0, cidr: 0, domain: 0, url: 0, hash: 0, email: 0,
+    };
+    this.indicators.forEach((indicator) => {
+      counts[indicator.type] += 1;
+    });
+    return counts;
+  }
+
+  /**
+   * Indicators found in the event's address, domain, URL, hash and email
+   * fields; an indicator found in several fields is reported for the first
+   */
+  match(event: NormalizedEvent): IocMatch[] {
+    const matches = new Map<string, IocMatch>();
+    const add = (ids: Iterable<string> | undefined, field: string, value: string) => {
+      Array.from(ids || []).filter((id) => !matches.has(id)).forEach((id) => {
+        matches.set(id, { indicator: this.indicators.get(id), field, value });
+      });
+    };
+    const fieldValues = (fields: readonly string[]) => fields
+      .map((field) => ({ field, value: getEventField(event, field) }))
+      .filter(({ value }) => typeof value === 'string' && value !== '');
+
+    fieldValues(EVENT_FIELDS.ip).forEach(({ field, value }) => {
+      this.matchIp(value).forEach((ids) => add(ids, field, value));
+    });
+    fieldValues(EVENT_FIELDS.domain).forEach(({ field, value }) => {
+      const domain = normalizeDomain(field === 'url' ? urlHost(value) || '' : value);
+      const labels = domain ? domain.split('.') : [];
+      labels.slice(0, -1).forEach((label, start) => {
+        add(this.values.get(`domain:${labels.slice(start).join('.')}`), field, value);
+      });
+    });
+    fieldValues(EVENT_FIELDS.url).forEach(({ field, value }) => {
+      const url = normalizeUrl(value);
+      if (url) add(this.values.get(`url:${url}`), field, value);
+    });
+    fieldValues(EVENT_FIELDS.hash).forEach(({ field, value }) => {
+      const hash = normalizeHash(value);
+      if (hash) add(this.values.get(`hash:${hash}`), field, value);
+    });
+    fieldValues(EVENT_FIELDS.email).forEach(({ field, value }) => {
+      const email = normalizeEmail(value);
+      if (email) add(this.values.get(`email:${email}`), field, value);
+    });
+    return Array.from(matches.values());
+  }
+
+  clear(): void {
+    this.indicators.clear();
+    this.networks.clear();
+    this.values.clear();
+  }
+
+  private matchIp(value: string): Set<string>[] {
+    const ip = parseIp(value);
+    const prefixes = ip && this.networks.get(ip.version);
+    if (!prefixes) return [];
+
+    const bits = ADDRESS_BITS[ip.version];
+    return Array.from(prefixes.entries())
+      .map(([prefix, networks]) => networks.get(networkOf(ip.value, bits, prefix)))
+      .filter(Boolean);
+  }
+
+  /**
+   * Where an indicator is kept: a network for addresses and ranges, a
+   * type-qualified value for everything else
+   */
+  private indexKey(indicator: SweepIndicator): {
+    network?: { version: number; prefix: number; network: string };
+    value?: string;
+  } | undefined {
+    switch (indicator.type) {
+      case 'ip':
+      case 'cidr': {
+        const [address, prefixText] = indicator.value.split('/');
+        const ip = parseIp(address);
+        if (!ip) return undefined;
+        const bits = ADDRESS_BITS[ip.version];
+        // A mapped IPv6 range becomes the matching IPv4 range
+        const mappedOffset = isIP(address.split('%')[0]) === 6 && ip.version === 4 ? 96 : 0;
+        const prefix = prefixText === undefined ? bits : Number(prefixText) - mappedOffset;
+        if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return undefined;
+        return {
+          network: {
+            version: ip.version,
+            prefix,
+            network: networkOf(ip.value, bits, prefix),
+          },
+        };
+      }
+      case 'domain': {
+        const domain = normalizeDomain(indicator.value);
+        return domain && { value: `domain:${domain}` };
+      }
+      case 'url': {
+        const url = normalizeUrl(indicator.value);
+        return url && { value: `url:${url}` };
+      }
+      case 'hash': {
+        const hash = normalizeHash(indicator.value);
+        return hash && { value: `hash:${hash}` };
+      }
+      case 'email': {
+        const email = normalizeEmail(indicator.value);
+        return email && { value: `email:${email}` };
+      }
+      default:
+        return undefined;
+    }
+  }
+}
+
+export { IocIndex };
+export default IocIndex;
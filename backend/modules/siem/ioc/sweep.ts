@@ -0,0 +1,265 @@
+/**
+ * IOC Sweep
+ * Matches every ingested event against the active IOCs of the IOC management
+ * module. The in-memory index is loaded on start, follows `ioc:created`,
+ * `ioc:updated` and `ioc:deleted` from iocService one IOC at a time, and is
+ * rebuilt in full periodically to pick up changes made elsewhere. A new IOC
+ * with high enough confidence is retro-hunted in the stored events of the
+ * last days.
+ *
+ * Every live match counts as a sighting of its IOC (iocService.recordSighting).
+ * Retro-hunt matches do not: a hunt can be run again over the same events,
+ * and would count them again each time.
+ * Emits `match` with an IocSweepMatch for live and retro-hunt matches, and
+ * `retro_hunt` with a RetroHuntResult when a hunt finishes.
+ */
+
+import { EventEmitter } from 'events';
+import iocService from '../../ioc-management/services/iocService';
+import { getEventStore } from '../storage';
+import { IocIndex } from './iocIndex';
+import { loadIocSweepConfig } from '../config/iocSweep';
+import type { IocSweepConfig } from '../config/iocSweep';
+import logger from '../utils/logger';
+import type {
+  IocMatch,
+  IocSweepStats,
+  NormalizedEvent,
+  RetroHuntResult,
+  SweepIndicator,
+  SweepIndicatorType,
+} from '../types';
+
+// IOC management types the sweep can match; other types are not indexed
+const SWEEP_TYPES: Record<string, SweepIndicatorType> = {
+  ip: 'ip',
+  domain: 'domain',
+  url: 'url',
+  email: 'email',
+  md5: 'hash',
+  sha1: 'hash',
+  sha256: 'hash',
+  hash_md5: 'hash',
+  hash_sha1: 'hash',
+  hash_sha256: 'hash',
+};
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Sweep form of an IOC record; undefined for IOCs that are not active,
+ * have expired or cannot be matched against events
+ */
+export const toSweepIndicator = (ioc: any, now: Date = new Date()): SweepIndicator | undefined => {
+  const kind = SWEEP_TYPES[ioc?.type];
+  const expiresAt = ioc?.expiresAt || ioc?.expiration_date;
+  if (!kind || ioc.status !== 'active' || (expiresAt && new Date(expiresAt) <= now)) {
+    return undefined;
+  }
+
+  const value = String(ioc.value).trim();
+  return {
+    id: ioc.id,
+    type: kind === 'ip' && value.includes('/') ? 'cidr' : kind,
+    value,
+    confidence: ioc.confidence ?? 50,
+    severity: SEVERITIES.includes(ioc.severity) ? ioc.severity : 'medium',
+    source: ioc.source || ioc.sources?.map((source: any) => source.name).join(', ') || 'unknown',
+    tags: ioc.tags || [],
+  };
+};
+
+class IocSweep extends EventEmitter {
+  private index = new IocIndex();
+
+  private subscribed = false;
+
+  private rebuildTimer?: NodeJS.Timeout;
+
+  private counters = {
+    processed: 0,
+    matches: 0,
+    retroHunts: 0,
+    lastRebuildAt: undefined as Date | undefined,
+  };
+
+  private readonly onCreated = (ioc: any): void => {
+    const indicator = this.apply(ioc);
+    if (indicator && indicator.confidence >= this.options.retroHuntMinConfidence) {
+      this.retroHunt(indicator).catch((error) => {
+        logger.error('IOC retro-hunt failed', { error, iocId: indicator.id });
+      });
+    }
+  };
+
+  private readonly onUpdated = (ioc: any): void => {
+    this.apply(ioc);
+  };
+
+  private readonly onDeleted = ({ id }: { id: string }): void => {
+    this.index.remove(id);
+  };
+
+  constructor(private options: IocSweepConfig = loadIocSweepConfig()) {
+    super();
+  }
+
+  configure(options: Partial<IocSweepConfig>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Indicators found in an event; emits `match` when there are any
+   */
+  process(event: NormalizedEvent): IocMatch[] {
+    this.counters.processed += 1;
+    const matches = this.index.match(event);
+    if (matches.length) {
+      this.counters.matches += matches.length;
+      this.recordSightings(event, matches);
+      this.emit('match', { event, matches, retroHunt: false });
+    }
+    return matches;
+  }
+
+  /**
+   * Add, replace or drop the indicator of a changed IOC
+   */
+  apply(ioc: any): SweepIndicator | undefined {
+    const indicator = toSweepIndicator(ioc);
+    if (!indicator || !this.index.upsert(indicator)) {
+      this.index.remove(ioc.id);
+      return undefined;
+    }
+    return indicator;
+  }
+
+  /**
+   * Reload every active IOC into a new index and swap it in
+   */
+  async rebuild(): Promise<number> {
+    const iocs = await iocService.list({ status: 'active' });
+    const index = new IocIndex();
+    iocs.forEach((ioc) => {
+      const indicator = toSweepIndicator(ioc);
+      if (indicator) index.upsert(indicator);
+    });
+    this.index = index;
+    this.counters.lastRebuildAt = new Date();
+    logger.info('IOC sweep index rebuilt', { indicators: index.size });
+    return index.size;
+  }
+
+  /**
+   * Look for an indicator in the stored events of the last `days` days,
+   * oldest first and in batches, up to the configured event cap
+   */
+  async retroHunt(
+    indicator: SweepIndicator,
+    days: number = this.options.retroHuntDays,
+  ): Promise<RetroHuntResult> {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const index = new IocIndex();
+    index.upsert(indicator);
+    this.counters.retroHunts += 1;
+
+    const { retroHuntBatchSize: batchSize, retroHuntMaxEvents: maxEvents } = this.options;
+    let scanned = 0;
+    let matched = 0;
+    let done = false;
+    while (!done && scanned < maxEvents) {
+      // One page in memory at a time
+      // eslint-disable-next-line no-await-in-loop
+      const events = await getEventStore().find({
+        timeRange: { start: from, end: to },
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+        limit: Math.min(batchSize, maxEvents - scanned),
+        offset: scanned,
+      });
+      const found = events
+        .map((event) => ({ event, matches: index.match(event), retroHunt: true }))
+        .filter(({ matches }) => matches.length);
+      found.forEach((match) => {
+        this.counters.matches += match.matches.length;
+        this.emit('match', match);
+      });
+      matched += found.length;
+      scanned += events.length;
+      done = events.length < batchSize;
+    }
+
+    const result: RetroHuntResult = {
+      iocId: indicator.id,
+      from,
+      to,
+      scanned,
+      matched,
+      truncated: !done,
+    };
+    logger.info('IOC retro-hunt finished', result);
+    this.emit('retro_hunt', result);
+    return result;
+  }
+
+  /**
+   * Retro-hunt a stored IOC by ID
+   */
+  async retroHuntIoc(iocId: string, days?: number): Promise<RetroHuntResult | undefined> {
+    const indicator = toSweepIndicator(await iocService.getById(iocId));
+    return indicator && this.retroHunt(indicator, days);
+  }
+
+  stats(): IocSweepStats {
+    return {
+      indicators: this.index.size,
+      byType: this.index.countByType(),
+      processed: this.counters.processed,
+      matches: this.counters.matches,
+      retroHunts: this.counters.retroHunts,
+      lastRebuildAt: this.counters.lastRebuildAt,
+    };
+  }
+
+  /**
+   * Follow IOC changes, load the index and rebuild it periodically
+   */
+  async start(): Promise<void> {
+    this.stop();
+    iocService.on('ioc:created', this.onCreated);
+    iocService.on('ioc:updated', this.onUpdated);
+    iocService.on('ioc:deleted', this.onDeleted);
+    this.subscribed = true;
+
+    this.rebuildTimer = setInterval(() => {
+      this.rebuild().catch((error) => {
+        logger.error('Failed to rebuild IOC sweep index', { error });
+      });
+    }, this.options.rebuildInterval * 1000);
+    this.rebuildTimer.unref();
+    await this.rebuild();
+  }
+
+  stop(): void {
+    if (this.subscribed) {
+      iocService.off('ioc:created', this.onCreated);
+      iocService.off('ioc:updated', this.onUpdated);
+      iocService.off('ioc:deleted', this.onDeleted);
+      this.subscribed = false;
+    }
+    if (this.rebuildTimer) clearInterval(this.rebuildTimer);
+    this.rebuildTimer = undefined;
+  }
+
+  private recordSightings(event: NormalizedEvent, matches: readonly IocMatch[]): void {
+    matches.forEach(({ indicator }) => {
+      iocService.recordSighting(indicator.id, new Date(event.timestamp)).catch((error) => {
+        logger.warn('Failed to record IOC sighting', { error, iocId: indicator.id });
+      });
+    });
+  }
+}
+
+export { IocSweep };
+export default new IocSweep();
@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+
+// Incident or case the alert was promoted to
+const EscalationSchema = new mongoose.Schema({
+  target: { type: String, enum: ['incident', 'case'], required: true },
+  id: { type: String, required: true },
+  reference: String,
+  correlationIds: [String],
+  escalatedAt: { type: Date, required: true },
+  escalatedBy: { type: String, required: true },
+}, { _id: false });
+
+// Escalation in progress
+const EscalationClaimSchema = new mongoose.Schema({
+  claimedBy: { type: String, required: true },
+  claimedAt: { type: Date, required: true },
+}, { _id: false });
+
+// Open incident or case the alert can be added to
+const EscalationOfferSchema = new mongoose.Schema({
+  target: { type: String, enum: ['incident', 'case'], required: true },
+  id: { type: String, required: true },
+  reference: String,
+  correlationId: { type: String, required: true },
+  alertId: { type: String, required: true },
+}, { _id: false });
+
+/**
+ * SIEM alert, matching Alert in ../types. Duplicates reference their parent
+ * alert through parentId; the parent counts them in occurrences.
+ */
+const SiemAlertSchema = new mongoose.Schema({
+  id: {
+    type: String, required: true, unique: true, index: true,
+  },
+  ruleId: { type: String, required: true },
+  ruleName: { type: String, required: true },
+  severity: {
+    type: String, enum: ['critical', 'high', 'medium', 'low', 'info'], required: true,
+  },
+  status: {
+    type: String,
+    enum: ['new', 'acknowledged', 'investigating', 'resolved', 'false_positive'],
+    default: 'new',
+  },
+  title: { type: String, required: true },
+  description: { type: String, default: '' },
+  events: [String],
+  triggeredAt: { type: Date, required: true },
+  acknowledgedAt: Date,
+  acknowledgedBy: String,
+  resolvedAt: Date,
+  resolvedBy: String,
+  assignee: String,
+  assignedAt: Date,
+  groupKey: { type: String, required: true },
+  parentId: String,
+  occurrences: { type: Number, default: 1 },
+  lastSeenAt: { type: Date, required: true },
+  escalation: EscalationSchema,
+  escalationOffer: EscalationOfferSchema,
+  escalationClaim: EscalationClaimSchema,
+  tags: [String],
+  metadata: { type: mongoose.Schema.Types.Mixed, default: {} },
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  minimize: false,
+});
+
+// Alert listing filters, newest first
+SiemAlertSchema.index({ parentId: 1, triggeredAt: -1 });
+SiemAlertSchema.index({ status: 1, triggeredAt: -1 });
+SiemAlertSchema.index({ ruleId: 1, triggeredAt: -1 });
+SiemAlertSchema.index({ assignee: 1, triggeredAt: -1 });
+
+// Open escalations sharing a correlation ID with a new alert
+SiemAlertSchema.index({ 'escalation.correlationIds': 1, triggeredAt: -1 });
+
+// Open parent lookup when grouping duplicates
+SiemAlertSchema.index({ groupKey: 1, lastSeenAt: -1 });
+
+export default mongoose.model('SiemAlert', SiemAlertSchema);
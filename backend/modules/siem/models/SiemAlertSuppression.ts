@@ -0,0 +1,23 @@
+import mongoose from 'mongoose';
+
+/**
+ * Alert suppression rule, matching AlertSuppression in ../types. Expired
+ * suppressions are kept so their hits stay visible.
+ */
+const SiemAlertSuppressionSchema = new mongoose.Schema({
+  id: {
+    type: String, required: true, unique: true, index: true,
+  },
+  ruleId: { type: String, required: true, index: true },
+  fields: { type: mongoose.Schema.Types.Mixed, default: {} },
+  reason: { type: String, required: true },
+  expiresAt: Date,
+  createdBy: { type: String, required: true },
+  createdAt: { type: Date, required: true },
+  hits: { type: Number, default: 0 },
+  lastHitAt: Date,
+}, {
+  minimize: false,
+});
+
+export default mongoose.model('SiemAlertSuppression', SiemAlertSuppressionSchema);
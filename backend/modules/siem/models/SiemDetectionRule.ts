@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+/**
+ * Detection rule, matching DetectionRule in ../types. Conditions and the
+ * expression tree are stored as they are evaluated.
+ */
+const SiemDetectionRuleSchema = new mongoose.Schema({
+  id: {
+    type: String, required: true, unique: true, index: true,
+  },
+  name: { type: String, required: true },
+  description: { type: String, default: '' },
+  type: {
+    type: String,
+    enum: ['correlation', 'threshold', 'anomaly', 'pattern_match', 'behavioral'],
+    required: true,
+  },
+  enabled: { type: Boolean, default: true },
+  severity: {
+    type: String, enum: ['critical', 'high', 'medium', 'low', 'info'], required: true,
+  },
+  conditions: { type: [mongoose.Schema.Types.Mixed], default: [] },
+  timeWindow: Number,
+  threshold: Number,
+  actions: { type: [mongoose.Schema.Types.Mixed], default: [] },
+  tags: [String],
+  expression: mongoose.Schema.Types.Mixed,
+  sigma: mongoose.Schema.Types.Mixed,
+  createdAt: { type: Date, required: true },
+  updatedAt: { type: Date, required: true },
+  createdBy: { type: String, required: true },
+}, {
+  minimize: false,
+});
+
+// Rules evaluated on ingestion, and Sigma rules matched on re-import
+SiemDetectionRuleSchema.index({ enabled: 1 });
+SiemDetectionRuleSchema.index({ 'sigma.id': 1 });
+
+export default mongoose.model('SiemDetectionRule', SiemDetectionRuleSchema);
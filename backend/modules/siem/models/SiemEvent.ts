@@ -1,15 +1,91 @@
 import mongoose from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
+import { retentionExpiry } from '../config/retention';
 
+/**
+ * Normalized security event, matching NormalizedEvent in ../types.
+ * Events are removed by a TTL index on expiresAt, set from the retention
+ * of their source type (see ../config/retention).
+ */
 const SiemEventSchema = new mongoose.Schema({
   id: {
     type: String, default: uuidv4, unique: true, index: true,
   },
-  name: { type: String, required: true },
-  description: String,
-  status: { type: String, default: 'active' },
+  timestamp: { type: Date, default: Date.now, required: true },
+  sourceType: {
+    type: String,
+    enum: [
+      'syslog', 'json', 'cef', 'leef', 'windows_event',
+      'apache', 'nginx', 'firewall', 'ids_ips', 'custom',
+    ],
+    default: 'custom',
+  },
+  sourceIp: String,
+  destIp: String,
+  sourcePort: Number,
+  destPort: Number,
+  protocol: String,
+  action: String,
+  outcome: { type: String, enum: ['success', 'failure', 'unknown'] },
+  severity: {
+    type: String, enum: ['critical', 'high', 'medium', 'low', 'info'], default: 'info',
+  },
+  category: { type: String, default: 'uncategorized' },
+  eventType: { type: String, default: 'unknown' },
+  message: { type: String, default: '' },
+  rawLog: { type: String, default: '' },
+  userId: String,
+  username: String,
+  hostname: String,
+  processName: String,
+  processId: Number,
+  parentProcessId: Number,
+  commandLine: String,
+  fileHash: String,
+  fileName: String,
+  filePath: String,
+  registryKey: String,
+  url: String,
+  domain: String,
   tags: [String],
-  metadata: mongoose.Schema.Types.Mixed,
-}, { timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' } });
+  metadata: { type: mongoose.Schema.Types.Mixed, default: {} },
+  correlationId: { type: String, index: true },
+  normalized: { type: Boolean, default: true },
+  expiresAt: {
+    type: Date,
+    default(this: any) {
+      return retentionExpiry(this.sourceType, this.timestamp);
+    },
+  },
+}, {
+  timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  minimize: false,
+});
+
+// Time-range queries, alone and combined with the fields forensic search and correlation filter on
+SiemEventSchema.index({ timestamp: -1 });
+SiemEventSchema.index({ eventType: 1, timestamp: -1 });
+SiemEventSchema.index({ sourceIp: 1, timestamp: -1 });
+SiemEventSchema.index({ destIp: 1, timestamp: -1 });
+SiemEventSchema.index({ username: 1, timestamp: -1 });
+SiemEventSchema.index({ hostname: 1, timestamp: -1 });
+SiemEventSchema.index({ severity: 1, timestamp: -1 });
+SiemEventSchema.index({ sourceType: 1, timestamp: -1 });
+
+// Free-text forensic search
+SiemEventSchema.index(
+  {
+    message: 'text', rawLog: 'text', commandLine: 'text', url: 'text', domain: 'text',
+  },
+  {
+    name: 'siem_event_text',
+    weights: {
+      message: 10, commandLine: 5, url: 3, domain: 3, rawLog: 1,
+    },
+  },
+);
+
+// Retention
+SiemEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 
 export default mongoose.model('SiemEvent', SiemEventSchema);
@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+// Periodic run raising an alert when the match count crosses the threshold
+const ScheduleSchema = new mongoose.Schema({
+  enabled: { type: Boolean, default: true },
+  interval: { type: Number, required: true },
+  window: { type: Number, required: true },
+  comparison: { type: String, enum: ['gt', 'gte', 'lt', 'lte'], required: true },
+  threshold: { type: Number, required: true },
+  severity: { type: String, enum: ['low', 'medium', 'high', 'critical'], required: true },
+}, { _id: false });
+
+/**
+ * Saved event search, matching SavedSearch in ../types
+ */
+const SiemSavedSearchSchema = new mongoose.Schema({
+  id: {
+    type: String, required: true, unique: true, index: true,
+  },
+  name: { type: String, required: true },
+  description: String,
+  query: { type: String, required: true },
+  visibility: { type: String, enum: ['private', 'team'], required: true },
+  team: { type: String, index: true },
+  owner: { type: String, required: true, index: true },
+  schedule: ScheduleSchema,
+  lastRunAt: Date,
+  lastCount: Number,
+  thresholdMet: Boolean,
+  createdAt: { type: Date, required: true },
+  updatedAt: { type: Date, required: true },
+});
+
+SiemSavedSearchSchema.index({ 'schedule.enabled': 1 });
+
+export default mongoose.model('SiemSavedSearch', SiemSavedSearchSchema);
@@ -0,0 +1,82 @@
+/**
+ * Web Access Log Parser
+ * Apache and Nginx "combined" format, which both servers share; lines in the
+ * common format (without referrer and user agent) are accepted too.
+ */
+
+import {
+  CONFIDENCE, EventBuilder, asIp, monthIndex, parseFailure,
+} from './common';
+import type { EventSeverity, ParsingResult } from '../types';
+
+const ACCESS_LOG = new RegExp(
+  '^(\\S+) (\\S+) (\\S+) \\[([^\\]]+)\\] "((?:[^"\\\\]|\\\\.)*)" (\\d{3}) (\\d+|-)'
+  + '(?: "((?:[^"\\\\]|\\\\.)*)" "((?:[^"\\\\]|\\\\.)*)")?',
+);
+
+// %t / $time_local, e.g. 10/Oct/2024:13:55:36 -0700
+const LOG_TIME = /^(\d{2})\/([A-Za-z]{3})\/(\d{4}):(\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/;
+
+const REQUEST_LINE = /^([A-Z]+) (\S+)(?: (HTTP\/[\d.]+))?$/;
+
+const parseLogTime = (value: string): Date | undefined => {
+  const match = value.match(LOG_TIME);
+  if (!match || monthIndex(match[2]) < 0) return undefined;
+
+  const [, day, month, year, hours, minutes, seconds, sign, offsetHours, offsetMinutes] = match;
+  const offset = (sign === '-' ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes));
+  const [d, y, h, m, s] = [day, year, hours, minutes, seconds].map(Number);
+  return new Date(Date.UTC(y, monthIndex(month), d, h, m, s) - offset * 60000);
+};
+
+/**
+ * Server errors and refused authentication stand out; everything else is routine
+ */
+const statusSeverity = (status: number): EventSeverity => {
+  if (status >= 500) return 'medium';
+  if (status === 401 || status === 403) return 'low';
+  return 'info';
+};
+
+const unescape = (value?: string): string | undefined => value?.replace(/\\(.)/g, '$1');
+
+/**
+ * Parse an Apache or Nginx access log line
+ */
+export const parseAccessLog = (
+  rawLog: string,
+  sourceType: 'apache' | 'nginx',
+): ParsingResult => {
+  const match = rawLog.match(ACCESS_LOG);
+  if (!match) {
+    return parseFailure(sourceType, 'Invalid access log format');
+  }
+
+  const [, host, , user, time, request, status, bytes, referrer, userAgent] = match;
+  const requestLine = unescape(request) || '';
+  const parsedRequest = requestLine.match(REQUEST_LINE);
+  const statusCode = Number(status);
+
+  return new EventBuilder(sourceType, rawLog)
+    .set('timestamp', parseLogTime(time), CONFIDENCE.EXACT)
+    .set('sourceIp', asIp(host), CONFIDENCE.EXACT)
+    .set('hostname', asIp(host) ? undefined : host, CONFIDENCE.EXACT)
+    .set('username', user, CONFIDENCE.EXACT)
+    .set('action', parsedRequest?.[1], CONFIDENCE.EXACT)
+    .set('url', parsedRequest?.[2], CONFIDENCE.EXACT)
+    .set('protocol', parsedRequest?.[3] ? 'http' : undefined, CONFIDENCE.EXACT)
+    .set('outcome', statusCode < 400 ? 'success' : 'failure', CONFIDENCE.INFERRED)
+    .set('severity', statusSeverity(statusCode), CONFIDENCE.HEURISTIC)
+    .set('message', requestLine, CONFIDENCE.EXACT)
+    .addMetadata({
+      method: parsedRequest?.[1],
+      path: parsedRequest?.[2],
+      httpVersion: parsedRequest?.[3],
+      status: statusCode,
+      bytes: bytes === '-' ? 0 : Number(bytes),
+      referrer: referrer === '-' ? undefined : unescape(referrer),
+      userAgent: userAgent === '-' ? undefined : unescape(userAgent),
+      format: referrer === undefined ? 'common' : 'combined',
+    })
+    .build({ category: 'web', eventType: 'http_request', tags: [sourceType, 'web'] });
+};
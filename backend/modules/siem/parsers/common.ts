@@ -0,0 +1,183 @@
+/**
+ * Shared Parser Helpers
+ * Every parser records how much it trusts each event field it fills in:
+ * EXACT when read verbatim from a field the format defines, INFERRED when
+ * converted or completed (a missing year, a severity scale), HEURISTIC when
+ * guessed from free text and DEFAULTED when the log did not carry it at all.
+ */
+
+import { isIP } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  EventSeverity, LogSourceType, NormalizedEvent, ParsingResult,
+} from '../types';
+
+export const CONFIDENCE = {
+  EXACT: 1,
+  INFERRED: 0.8,
+  HEURISTIC: 0.5,
+  DEFAULTED: 0,
+} as const;
+
+export const MONTHS = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timestamps slightly ahead of the collector clock are skew, not last year's logs
+const MAX_CLOCK_SKEW_MS = DAY_MS;
+
+type EventFields = { -readonly [K in keyof NormalizedEvent]?: NormalizedEvent[K] };
+
+/**
+ * Collects event fields and their confidence, then builds the parsing result
+ */
+export class EventBuilder {
+  private readonly fields: EventFields = {};
+
+  private readonly confidence: Record<string, number> = {};
+
+  private readonly metadata: Record<string, any> = {};
+
+  private readonly sourceType: LogSourceType;
+
+  private readonly rawLog: string;
+
+  constructor(sourceType: LogSourceType, rawLog: string) {
+    this.sourceType = sourceType;
+    this.rawLog = rawLog;
+  }
+
+  /**
+   * Set a field; empty values and the '-' placeholder leave it unset
+   */
+  set<K extends keyof NormalizedEvent>(
+    field: K,
+    value: NormalizedEvent[K] | undefined | null,
+    confidence: number,
+  ): this {
+    if (value === undefined || value === null || value === '' || value === '-') return this;
+    if (typeof value === 'number' && Number.isNaN(value)) return this;
+
+    this.fields[field] = value as EventFields[K];
+    this.confidence[field] = confidence;
+    return this;
+  }
+
+  /**
+   * Add format-specific values that have no normalized field
+   */
+  addMetadata(values: Record<string, any>): this {
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== undefined) this.metadata[key] = value;
+    }
+    return this;
+  }
+
+  has(field: keyof NormalizedEvent): boolean {
+    return this.fields[field] !== undefined;
+  }
+
+  build(defaults: { category: string; eventType: string; tags?: string[] }): ParsingResult {
+    if (!this.has('timestamp')) this.set('timestamp', new Date(), CONFIDENCE.DEFAULTED);
+    if (!this.has('severity')) this.set('severity', 'info', CONFIDENCE.DEFAULTED);
+    if (!this.has('category')) this.set('category', defaults.category, CONFIDENCE.DEFAULTED);
+    if (!this.has('eventType')) this.set('eventType', defaults.eventType, CONFIDENCE.DEFAULTED);
+
+    const fieldConfidence = { ...this.confidence };
+
+    return {
+      success: true,
+      sourceType: this.sourceType,
+      fieldConfidence,
+      event: {
+        ...this.fields,
+        id: uuidv4(),
+        sourceType: this.sourceType,
+        message: this.fields.message || this.rawLog,
+        rawLog: this.rawLog,
+        tags: defaults.tags || [this.sourceType],
+        metadata: { ...this.metadata, fieldConfidence },
+        normalized: true,
+      } as NormalizedEvent,
+    };
+  }
+}
+
+export const parseFailure = (sourceType: LogSourceType, error: string): ParsingResult => ({
+  success: false,
+  error,
+  sourceType,
+});
+
+/**
+ * Build a UTC date for a timestamp without a year, choosing the most recent
+ * year that does not put it in the future (Dec 31 logs read on Jan 1).
+ */
+export const inferYear = (
+  month: number,
+  day: number,
+  time: readonly number[],
+  now: Date,
+): Date => {
+  const [hours = 0, minutes = 0, seconds = 0, millis = 0] = time;
+  const year = now.getUTCFullYear();
+  const candidate = new Date(Date.UTC(year, month, day, hours, minutes, seconds, millis));
+
+  if (candidate.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+    return new Date(Date.UTC(year - 1, month, day, hours, minutes, seconds, millis));
+  }
+  return candidate;
+};
+
+export const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+/**
+ * Milliseconds from a fractional-seconds string of any precision
+ */
+export const fractionToMillis = (fraction?: string): number => (
+  fraction ? Math.floor(Number(`0.${fraction}`) * 1000) : 0
+);
+
+export const toPort = (value?: string | number): number | undefined => {
+  const port = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(port) && port >= 0 && port <= 65535
+    ? port
+    : undefined;
+};
+
+export const asIp = (value?: string): string | undefined => (
+  value && isIP(value) ? value : undefined
+);
+
+/**
+ * Syslog severity (0 emergency - 7 debug) as event severity
+ */
+export const syslogSeverity = (code: number): EventSeverity => {
+  if (code <= 2) return 'critical';
+  if (code <= 4) return 'high';
+  if (code <= 5) return 'medium';
+  return 'info';
+};
+
+/**
+ * 0-10 severity scale used by CEF and LEEF
+ */
+export const scaleSeverity = (value: number): EventSeverity => {
+  if (value >= 8) return 'critical';
+  if (value >= 6) return 'high';
+  if (value >= 4) return 'medium';
+  if (value >= 2) return 'low';
+  return 'info';
+};
+
+/**
+ * Snort/Suricata priority and EVE alert severity (1 is the most severe)
+ */
+export const idsSeverity = (priority: number): EventSeverity => {
+  if (priority <= 1) return 'high';
+  if (priority === 2) return 'medium';
+  if (priority === 3) return 'low';
+  return 'info';
+};
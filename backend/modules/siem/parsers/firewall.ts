@@ -0,0 +1,134 @@
+/**
+ * Firewall Log Parser
+ * Key=value firewall logs such as netfilter/iptables and UFW kernel lines
+ * (SRC= DST= SPT= DPT= PROTO=) and FortiGate-style traffic logs (srcip= dstip=
+ * action=), optionally behind a BSD syslog header.
+ */
+
+import {
+  CONFIDENCE, EventBuilder, asIp, parseFailure, toPort,
+} from './common';
+import { parseRfc3164 } from './syslog';
+import type { ParsingResult } from '../types';
+
+const KEY_VALUE = /([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+// Key aliases per normalized field, lower case, in order of preference
+const ALIASES = {
+  sourceIp: ['src', 'srcip', 'src_ip', 'source'],
+  destIp: ['dst', 'dstip', 'dst_ip', 'destination'],
+  sourcePort: ['spt', 'srcport', 'src_port', 'sport'],
+  destPort: ['dpt', 'dstport', 'dst_port', 'dport'],
+  protocol: ['proto', 'protocol'],
+  action: ['action', 'act'],
+  username: ['user', 'srcuser', 'usrname'],
+  hostname: ['devname', 'hostname'],
+};
+
+const IP_PROTOCOLS: Record<string, string> = {
+  1: 'icmp', 6: 'tcp', 17: 'udp', 58: 'ipv6-icmp',
+};
+
+const DENY_WORDS = /\b(BLOCK(ED)?|DROP(PED)?|DENY|DENIED|REJECT(ED)?)\b/i;
+
+const ALLOW_WORDS = /\b(ALLOW(ED)?|ACCEPT(ED)?|PASS)\b/i;
+
+export const parseKeyValues = (text: string): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const [, key, value] of text.matchAll(KEY_VALUE)) {
+    const name = key.toLowerCase();
+    if (values[name] === undefined) {
+      values[name] = value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+    }
+  }
+  return values;
+};
+
+const pick = (values: Record<string, string>, aliases: readonly string[]): string | undefined => (
+  aliases.map((alias) => values[alias]).find((value) => value !== undefined && value !== '')
+);
+
+/**
+ * FortiGate-style date=YYYY-MM-DD time=HH:MM:SS [tz="+HHMM"]
+ */
+const parseDateTime = (values: Record<string, string>): Date | undefined => {
+  const date = values.date?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const time = values.time?.match(/^(\d{2}):(\d{2}):(\d{2})$/);
+  if (!date || !time) return undefined;
+
+  const zone = values.tz?.match(/^([+-])(\d{2}):?(\d{2})$/);
+  const offset = zone
+    ? (zone[1] === '-' ? -1 : 1) * (Number(zone[2]) * 60 + Number(zone[3]))
+    : 0;
+  const [year, month, day, hours, minutes, seconds] = [...date.slice(1), ...time.slice(1)]
+    .map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) - offset * 60000);
+};
+
+/**
+ * Parse a key=value firewall log line
+ */
+export const parseFirewall = (rawLog: string, now: Date = new Date()): ParsingResult => {
+  const syslog = parseRfc3164(rawLog, now);
+  const header = syslog.success ? syslog.event : undefined;
+  const body = header ? header.message : rawLog;
+  const values = parseKeyValues(body);
+
+  const sourceIp = asIp(pick(values, ALIASES.sourceIp));
+  const destIp = asIp(pick(values, ALIASES.destIp));
+  if (!sourceIp && !destIp) {
+    return parseFailure('firewall', 'Invalid firewall log format');
+  }
+
+  const event = new EventBuilder('firewall', rawLog);
+  if (header) {
+    const confidence = syslog.fieldConfidence || {};
+    event
+      .set('timestamp', header.timestamp, confidence.timestamp)
+      .set('hostname', header.hostname, confidence.hostname)
+      .set('processName', header.processName, confidence.processName);
+  } else {
+    event.set('timestamp', parseDateTime(values), CONFIDENCE.EXACT);
+  }
+
+  const protocol = pick(values, ALIASES.protocol);
+  const protocolName = protocol ? IP_PROTOCOLS[protocol] : undefined;
+  event
+    .set('sourceIp', sourceIp, CONFIDENCE.EXACT)
+    .set('destIp', destIp, CONFIDENCE.EXACT)
+    .set('sourcePort', toPort(pick(values, ALIASES.sourcePort)), CONFIDENCE.EXACT)
+    .set('destPort', toPort(pick(values, ALIASES.destPort)), CONFIDENCE.EXACT)
+    .set(
+      'protocol',
+      protocolName || protocol,
+      protocolName ? CONFIDENCE.INFERRED : CONFIDENCE.EXACT,
+    )
+    .set('username', pick(values, ALIASES.username), CONFIDENCE.EXACT)
+    .set('message', body, CONFIDENCE.EXACT);
+  if (!event.has('hostname')) {
+    event.set('hostname', pick(values, ALIASES.hostname), CONFIDENCE.EXACT);
+  }
+
+  // Netfilter has no action key; the log prefix ("[UFW BLOCK]", "DROP-IN") tells it
+  let action = pick(values, ALIASES.action);
+  let actionConfidence: number = CONFIDENCE.EXACT;
+  if (!action) {
+    const prefix = body.slice(0, body.search(KEY_VALUE));
+    if (DENY_WORDS.test(prefix)) action = 'deny';
+    else if (ALLOW_WORDS.test(prefix)) action = 'allow';
+    actionConfidence = CONFIDENCE.HEURISTIC;
+  }
+  event.set('action', action, actionConfidence);
+  if (action && DENY_WORDS.test(action)) {
+    event.set('severity', 'low', CONFIDENCE.HEURISTIC);
+  }
+
+  return event
+    .addMetadata({
+      inInterface: values.in || values.srcintf || undefined,
+      outInterface: values.out || values.dstintf || undefined,
+      policyId: values.policyid,
+      fields: values,
+    })
+    .build({ category: 'network', eventType: 'firewall_event', tags: ['firewall'] });
+};
@@ -0,0 +1,148 @@
+/**
+ * IDS Parsers
+ * Snort/Suricata fast.log alert lines and Suricata EVE JSON events
+ */
+
+import { isIP } from 'net';
+import {
+  CONFIDENCE, EventBuilder, asIp, fractionToMillis, idsSeverity, inferYear, parseFailure, toPort,
+} from './common';
+import type { ParsingResult } from '../types';
+
+// 10/05/2024-14:12:03.123456  [**] [1:2010935:3] Signature [**] [Classification: ...]
+// [Priority: 2] {TCP} 203.0.113.5:44321 -> 10.0.0.8:1433 (Snort omits the year)
+const FAST_LOG = new RegExp(
+  '^(\\d{2})/(\\d{2})(?:/(\\d{2}|\\d{4}))?-(\\d{2}):(\\d{2}):(\\d{2})(?:\\.(\\d+))?\\s+'
+  + '\\[\\*\\*\\]\\s+\\[(\\d+):(\\d+):(\\d+)\\]\\s+(.*?)\\s+\\[\\*\\*\\]'
+  + '(?:\\s+\\[Classification:\\s*([^\\]]*)\\])?(?:\\s+\\[Priority:\\s*(\\d+)\\])?'
+  + '\\s+\\{([^}]+)\\}\\s+(\\S+)\\s+->\\s+(\\S+)\\s*$',
+);
+
+/**
+ * Split "ip:port", "[ipv6]:port" or a bare address
+ */
+export const parseEndpoint = (value: string): { ip?: string; port?: number } => {
+  if (isIP(value)) return { ip: value };
+
+  const bracketed = value.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) return { ip: asIp(bracketed[1]), port: toPort(bracketed[2]) };
+
+  const colon = value.lastIndexOf(':');
+  if (colon === -1) return {};
+  return { ip: asIp(value.slice(0, colon)), port: toPort(value.slice(colon + 1)) };
+};
+
+/**
+ * Parse a Snort or Suricata fast.log alert line
+ */
+export const parseFastLog = (rawLog: string, now: Date = new Date()): ParsingResult => {
+  const match = rawLog.trim().match(FAST_LOG);
+  if (!match) {
+    return parseFailure('ids_ips', 'Invalid fast.log format');
+  }
+
+  const [
+    , month, day, year, hours, minutes, seconds, fraction,
+    gid, sid, rev, signature, classification, priority, protocol, source, destination,
+  ] = match;
+  const time: [number, number, number, number] = [
+    Number(hours), Number(minutes), Number(seconds), fractionToMillis(fraction),
+  ];
+  let fullYear: number | undefined;
+  if (year) fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  const timestamp = fullYear
+    ? new Date(Date.UTC(fullYear, Number(month) - 1, Number(day), ...time))
+    : inferYear(Number(month) - 1, Number(day), time, now);
+
+  const src = parseEndpoint(source);
+  const dst = parseEndpoint(destination);
+
+  const event = new EventBuilder('ids_ips', rawLog)
+    .set('timestamp', timestamp, fullYear ? CONFIDENCE.EXACT : CONFIDENCE.INFERRED)
+    .set('sourceIp', src.ip, CONFIDENCE.EXACT)
+    .set('sourcePort', src.port, CONFIDENCE.EXACT)
+    .set('destIp', dst.ip, CONFIDENCE.EXACT)
+    .set('destPort', dst.port, CONFIDENCE.EXACT)
+    .set('protocol', protocol.toLowerCase(), CONFIDENCE.EXACT)
+    .set('category', classification, CONFIDENCE.EXACT)
+    .set('message', signature, CONFIDENCE.EXACT);
+
+  if (priority) event.set('severity', idsSeverity(Number(priority)), CONFIDENCE.INFERRED);
+
+  return event
+    .addMetadata({
+      gid: Number(gid),
+      sid: Number(sid),
+      rev: Number(rev),
+      signature,
+      classification,
+      priority: priority ? Number(priority) : undefined,
+    })
+    .build({ category: 'intrusion_detection', eventType: 'ids_alert', tags: ['ids_ips'] });
+};
+
+/**
+ * Parse a Suricata EVE JSON event. Alerts become ids_alert events; other event
+ * types (dns, http, tls, flow, ...) keep their EVE name.
+ */
+export const parseEveJson = (rawLog: string): ParsingResult => {
+  let eve: Record<string, any>;
+  try {
+    eve = JSON.parse(rawLog);
+  } catch (error) {
+    return parseFailure('ids_ips', 'Invalid EVE JSON format');
+  }
+  if (!eve || typeof eve.event_type !== 'string') {
+    return parseFailure('ids_ips', 'Invalid EVE JSON event');
+  }
+
+  const alert = eve.alert || {};
+  const timestamp = eve.timestamp ? new Date(eve.timestamp) : undefined;
+  const event = new EventBuilder('ids_ips', rawLog);
+
+  if (timestamp && !Number.isNaN(timestamp.getTime())) {
+    event.set('timestamp', timestamp, CONFIDENCE.EXACT);
+  }
+  if (typeof alert.severity === 'number') {
+    event.set('severity', idsSeverity(alert.severity), CONFIDENCE.INFERRED);
+  }
+
+  const domain = eve.http?.hostname || eve.dns?.rrname || eve.dns?.query?.[0]?.rrname
+    || eve.tls?.sni;
+
+  return event
+    .set('eventType', eve.event_type === 'alert' ? 'ids_alert' : eve.event_type, CONFIDENCE.EXACT)
+    .set('sourceIp', asIp(eve.src_ip), CONFIDENCE.EXACT)
+    .set('sourcePort', toPort(eve.src_port), CONFIDENCE.EXACT)
+    .set('destIp', asIp(eve.dest_ip), CONFIDENCE.EXACT)
+    .set('destPort', toPort(eve.dest_port), CONFIDENCE.EXACT)
+    .set('protocol', eve.proto?.toLowerCase(), CONFIDENCE.EXACT)
+    .set('action', alert.action, CONFIDENCE.EXACT)
+    .set('category', alert.category, CONFIDENCE.EXACT)
+    .set('message', alert.signature, CONFIDENCE.EXACT)
+    .set('hostname', eve.host, CONFIDENCE.EXACT)
+    .set('domain', domain, CONFIDENCE.EXACT)
+    .set('url', eve.http?.url, CONFIDENCE.EXACT)
+    .set('fileName', eve.fileinfo?.filename, CONFIDENCE.EXACT)
+    .set('fileHash', eve.fileinfo?.sha256 || eve.fileinfo?.md5, CONFIDENCE.EXACT)
+    .addMetadata({
+      flowId: eve.flow_id,
+      appProto: eve.app_proto,
+      inIface: eve.in_iface,
+      gid: alert.gid,
+      sid: alert.signature_id,
+      rev: alert.rev,
+      signature: alert.signature,
+      eve: eve.event_type,
+    })
+    .build({
+      category: 'intrusion_detection', eventType: eve.event_type, tags: ['ids_ips', 'eve'],
+    });
+};
+
+/**
+ * Parse either IDS format; EVE events are JSON objects
+ */
+export const parseIds = (rawLog: string, now: Date = new Date()): ParsingResult => (
+  rawLog.trimStart().startsWith('{') ? parseEveJson(rawLog) : parseFastLog(rawLog, now)
+);
@@ -0,0 +1,14 @@
+/**
+ * SIEM Log Parsers
+ * Format parsers return a ParsingResult whose fieldConfidence (also kept in
+ * event.metadata.fieldConfidence) says how reliably each field was parsed.
+ */
+
+export { CONFIDENCE } from './common';
+export {
+  parseSyslog, parseRfc5424, parseRfc3164, parseStructuredData,
+} from './syslog';
+export { parseLeef } from './leef';
+export { parseAccessLog } from './accessLog';
+export { parseFastLog, parseEveJson, parseIds } from './ids';
+export { parseFirewall } from './firewall';
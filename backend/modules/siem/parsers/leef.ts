@@ -0,0 +1,156 @@
+/**
+ * LEEF Parser
+ * IBM Log Event Extended Format 1.0 (tab-delimited attributes) and 2.0, whose
+ * header names the attribute delimiter as a character or hex code (^, x5E, 0x09).
+ */
+
+import {
+  CONFIDENCE, EventBuilder, asIp, fractionToMillis, monthIndex, parseFailure, scaleSeverity,
+  toPort,
+} from './common';
+import type { NormalizedEvent, ParsingResult } from '../types';
+
+const HEADER_START = /LEEF:(1|2)(?:\.0)?\|/;
+
+const DEFAULT_DELIMITER = '\t';
+
+// devTime in the default devTimeFormat, "MMM dd yyyy HH:mm:ss[.SSS] [zzz]"
+const DEFAULT_DEV_TIME = /^(\w{3}) (\d{1,2}) (\d{4}) (\d\d):(\d\d):(\d\d)(?:\.(\d+))?(?: (\S+))?$/;
+
+// Predefined LEEF attributes with a normalized field
+const ATTRIBUTE_FIELDS: Record<string, keyof NormalizedEvent> = {
+  src: 'sourceIp',
+  dst: 'destIp',
+  srcPort: 'sourcePort',
+  dstPort: 'destPort',
+  proto: 'protocol',
+  usrName: 'username',
+  identHostName: 'hostname',
+  cat: 'category',
+  url: 'url',
+  domain: 'domain',
+};
+
+/**
+ * Attribute delimiter from a LEEF 2.0 header field, if the field is one
+ */
+const toDelimiter = (field: string): string | undefined => {
+  if (field.length === 1) return field;
+  const hex = field.match(/^(?:0x|x)([0-9a-f]{1,4})$/i);
+  return hex ? String.fromCharCode(parseInt(hex[1], 16)) : undefined;
+};
+
+/**
+ * Split attributes on the delimiter; pieces without '=' belong to the previous
+ * value, so values may contain the delimiter (common with space delimiters)
+ */
+export const parseAttributes = (text: string, delimiter: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  let last: string | undefined;
+
+  for (const piece of text.split(delimiter)) {
+    const eq = piece.indexOf('=');
+    if (eq > 0 && /^[\w.-]+$/.test(piece.slice(0, eq))) {
+      last = piece.slice(0, eq);
+      attributes[last] = piece.slice(eq + 1);
+    } else if (last !== undefined) {
+      attributes[last] += `${delimiter}${piece}`;
+    }
+  }
+  return attributes;
+};
+
+/**
+ * Parse devTime: epoch milliseconds, the default format, or anything Date understands
+ */
+const parseDevTime = (value: string): { date: Date; confidence: number } | undefined => {
+  if (/^\d{10,13}$/.test(value)) {
+    const epoch = Number(value) * (value.length === 10 ? 1000 : 1);
+    return { date: new Date(epoch), confidence: CONFIDENCE.EXACT };
+  }
+
+  const match = value.match(DEFAULT_DEV_TIME);
+  if (match && monthIndex(match[1]) >= 0) {
+    const [, month, day, year, hours, minutes, seconds, fraction, zone] = match;
+    const [d, y, h, m, s] = [day, year, hours, minutes, seconds].map(Number);
+    const utc = Date.UTC(y, monthIndex(month), d, h, m, s, fractionToMillis(fraction));
+    const offset = zone?.match(/^([+-])(\d{2}):?(\d{2})$/);
+    if (offset) {
+      const sign = offset[1] === '-' ? -1 : 1;
+      const offsetMinutes = sign * (Number(offset[2]) * 60 + Number(offset[3]));
+      return { date: new Date(utc - offsetMinutes * 60000), confidence: CONFIDENCE.EXACT };
+    }
+    // Named zones other than UTC are not resolved; the time is taken as UTC
+    const known = !zone || ['UTC', 'GMT', 'Z'].includes(zone.toUpperCase());
+    return { date: new Date(utc), confidence: known ? CONFIDENCE.EXACT : CONFIDENCE.INFERRED };
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime())
+    ? undefined
+    : { date: parsed, confidence: CONFIDENCE.HEURISTIC };
+};
+
+/**
+ * Parse a LEEF 1.0 or 2.0 event, optionally preceded by a syslog header
+ */
+export const parseLeef = (rawLog: string): ParsingResult => {
+  const start = rawLog.search(HEADER_START);
+  if (start === -1) {
+    return parseFailure('leef', 'Invalid LEEF format');
+  }
+
+  const version = rawLog[start + 5] === '2' ? '2.0' : '1.0';
+  const parts = rawLog.slice(start).split('|');
+  if (parts.length < 5) {
+    return parseFailure('leef', 'Invalid LEEF header');
+  }
+
+  const [, vendor, product, productVersion, eventId] = parts;
+  let delimiter = DEFAULT_DELIMITER;
+  let attributeText = parts.slice(5).join('|');
+
+  if (version === '2.0') {
+    // The delimiter field is optional; an empty one means tab
+    const custom = parts[5] === '' ? DEFAULT_DELIMITER : toDelimiter(parts[5]);
+    if (custom !== undefined && parts.length > 6) {
+      delimiter = custom;
+      attributeText = parts.slice(6).join('|');
+    }
+  }
+
+  const attributes = parseAttributes(attributeText, delimiter);
+  const event = new EventBuilder('leef', rawLog);
+
+  for (const [attribute, field] of Object.entries(ATTRIBUTE_FIELDS)) {
+    const value = attributes[attribute];
+    if (field === 'sourcePort' || field === 'destPort') {
+      event.set(field, toPort(value), CONFIDENCE.EXACT);
+    } else if (field === 'sourceIp' || field === 'destIp') {
+      event.set(field, asIp(value), CONFIDENCE.EXACT);
+    } else {
+      event.set(field, value, CONFIDENCE.EXACT);
+    }
+  }
+  if (!event.has('username')) event.set('username', attributes.accountName, CONFIDENCE.INFERRED);
+
+  const devTime = attributes.devTime ? parseDevTime(attributes.devTime) : undefined;
+  if (devTime) event.set('timestamp', devTime.date, devTime.confidence);
+
+  if (attributes.sev !== undefined && /^\d+$/.test(attributes.sev)) {
+    event.set('severity', scaleSeverity(Number(attributes.sev)), CONFIDENCE.INFERRED);
+  }
+
+  return event
+    .set('eventType', eventId, CONFIDENCE.EXACT)
+    .addMetadata({
+      version,
+      vendor,
+      product,
+      productVersion,
+      delimiter,
+      attributes,
+      syslogHeader: start > 0 ? rawLog.slice(0, start).trim() : undefined,
+    })
+    .build({ category: 'leef', eventType: 'leef_event', tags: ['leef', vendor, product] });
+};
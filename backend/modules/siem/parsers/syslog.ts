@@ -0,0 +1,184 @@
+/**
+ * Syslog Parsers
+ * RFC 5424 with structured data, and BSD syslog (RFC 3164) whose timestamps
+ * carry no year or zone: the year is inferred and the time is taken as UTC.
+ */
+
+import {
+  CONFIDENCE, EventBuilder, fractionToMillis, inferYear, monthIndex, parseFailure,
+  syslogSeverity,
+} from './common';
+import type { ParsingResult } from '../types';
+
+export type StructuredData = Record<string, Record<string, string>>;
+
+const RFC5424_HEADER = /^<(\d{1,3})>(\d{1,2}) (\S+) (\S+) (\S+) (\S+) (\S+) ?([\s\S]*)$/;
+
+const RFC3164_HEADER = new RegExp(
+  '^(?:<(\\d{1,3})>)?([A-Za-z]{3}) {1,2}(\\d{1,2})(?: (\\d{4}))? '
+  + '(\\d{2}):(\\d{2}):(\\d{2})(?:\\.(\\d+))? ([\\s\\S]*)$',
+);
+
+const TAG = /^([\w\-./]{1,48})(?:\[(\d+)\])?:\s?([\s\S]*)$/;
+
+const NIL = '-';
+
+const MAX_PRIORITY = 191;
+
+/**
+ * Parse RFC 5424 STRUCTURED-DATA, returning the elements and the text after them
+ */
+export const parseStructuredData = (text: string): { data: StructuredData; rest: string } => {
+  if (text === NIL || text.startsWith(`${NIL} `)) {
+    return { data: {}, rest: text.slice(2) };
+  }
+
+  const data: StructuredData = {};
+  let i = 0;
+
+  const fail = () => {
+    throw new Error('Invalid RFC 5424 structured data');
+  };
+
+  if (text[i] !== '[') fail();
+
+  while (text[i] === '[') {
+    i += 1;
+    const idEnd = text.slice(i).search(/[ \]]/);
+    if (idEnd <= 0) fail();
+    const id = text.slice(i, i + idEnd);
+    const params: Record<string, string> = {};
+    i += idEnd;
+
+    while (text[i] === ' ') {
+      i += 1;
+      const eq = text.indexOf('=', i);
+      if (eq <= i || text[eq + 1] !== '"') fail();
+      const name = text.slice(i, eq);
+      i = eq + 2;
+
+      let value = '';
+      while (i < text.length && text[i] !== '"') {
+        // Only '"', '\' and ']' are escaped; other backslashes are literal
+        if (text[i] === '\\' && ['"', '\\', ']'].includes(text[i + 1])) i += 1;
+        value += text[i];
+        i += 1;
+      }
+      if (text[i] !== '"') fail();
+      params[name] = value;
+      i += 1;
+    }
+
+    if (text[i] !== ']') fail();
+    data[id] = params;
+    i += 1;
+  }
+
+  if (i < text.length && text[i] !== ' ') fail();
+  return { data, rest: text.slice(i + 1) };
+};
+
+/**
+ * Parse an RFC 5424 syslog message
+ */
+export const parseRfc5424 = (rawLog: string): ParsingResult => {
+  const match = rawLog.match(RFC5424_HEADER);
+  if (!match || Number(match[1]) > MAX_PRIORITY) {
+    return parseFailure('syslog', 'Invalid RFC 5424 syslog format');
+  }
+
+  const [, priority, version, timestamp, hostname, appName, procId, msgId, remainder] = match;
+  let structured: { data: StructuredData; rest: string };
+  try {
+    structured = parseStructuredData(remainder);
+  } catch (error) {
+    return parseFailure('syslog', (error as Error).message);
+  }
+
+  const event = new EventBuilder('syslog', rawLog);
+  if (timestamp !== NIL) {
+    const date = new Date(timestamp);
+    if (Number.isNaN(date.getTime())) {
+      return parseFailure('syslog', 'Invalid RFC 5424 timestamp');
+    }
+    event.set('timestamp', date, CONFIDENCE.EXACT);
+  }
+
+  const code = Number(priority) % 8;
+  const origin = structured.data.origin || {};
+
+  return event
+    .set('severity', syslogSeverity(code), CONFIDENCE.INFERRED)
+    .set('hostname', hostname, CONFIDENCE.EXACT)
+    .set('processName', appName, CONFIDENCE.EXACT)
+    .set('processId', /^\d+$/.test(procId) ? Number(procId) : undefined, CONFIDENCE.EXACT)
+    .set('eventType', msgId, CONFIDENCE.EXACT)
+    .set('sourceIp', origin.ip, CONFIDENCE.EXACT)
+    .set('message', structured.rest.replace(/^\uFEFF/, ''), CONFIDENCE.EXACT)
+    .addMetadata({
+      priority: Number(priority),
+      facility: Math.floor(Number(priority) / 8),
+      syslogSeverity: code,
+      version: Number(version),
+      procId: procId === NIL ? undefined : procId,
+      structuredData: structured.data,
+    })
+    .build({ category: 'system', eventType: 'syslog_event', tags: ['syslog'] });
+};
+
+/**
+ * Parse a BSD (RFC 3164) syslog message. PRI and HOSTNAME are optional since
+ * relays commonly write lines without them.
+ */
+export const parseRfc3164 = (rawLog: string, now: Date = new Date()): ParsingResult => {
+  const match = rawLog.match(RFC3164_HEADER);
+  const month = match ? monthIndex(match[2]) : -1;
+  if (!match || month < 0 || (match[1] && Number(match[1]) > MAX_PRIORITY)) {
+    return parseFailure('syslog', 'Invalid RFC 3164 syslog format');
+  }
+
+  const [, priority, , day, year, hours, minutes, seconds, fraction, remainder] = match;
+  const time: [number, number, number, number] = [
+    Number(hours), Number(minutes), Number(seconds), fractionToMillis(fraction),
+  ];
+  const timestamp = year
+    ? new Date(Date.UTC(Number(year), month, Number(day), ...time))
+    : inferYear(month, Number(day), time, now);
+
+  // The HOSTNAME is absent when the first word is already the TAG
+  let hostname: string | undefined;
+  let body = remainder;
+  if (!TAG.test(body.split(' ')[0])) {
+    const space = body.indexOf(' ');
+    hostname = space === -1 ? body : body.slice(0, space);
+    body = space === -1 ? '' : body.slice(space + 1);
+  }
+  const tag = body.match(TAG);
+
+  const event = new EventBuilder('syslog', rawLog)
+    .set('timestamp', timestamp, year ? CONFIDENCE.EXACT : CONFIDENCE.INFERRED)
+    .set('hostname', hostname, CONFIDENCE.EXACT)
+    .set('processName', tag?.[1], CONFIDENCE.EXACT)
+    .set('processId', tag?.[2] ? Number(tag[2]) : undefined, CONFIDENCE.EXACT)
+    .set('message', tag ? tag[3] : body, CONFIDENCE.EXACT);
+
+  if (priority) {
+    const code = Number(priority) % 8;
+    event.set('severity', syslogSeverity(code), CONFIDENCE.INFERRED).addMetadata({
+      priority: Number(priority),
+      facility: Math.floor(Number(priority) / 8),
+      syslogSeverity: code,
+    });
+  }
+
+  return event
+    .addMetadata({ tag: tag?.[1] })
+    .build({ category: 'system', eventType: 'syslog_event', tags: ['syslog'] });
+};
+
+/**
+ * Parse either syslog format; RFC 5424 is recognised by its version number
+ */
+export const parseSyslog = (rawLog: string, now: Date = new Date()): ParsingResult => (
+  /^<\d{1,3}>\d{1,2} /.test(rawLog) ? parseRfc5424(rawLog) : parseRfc3164(rawLog, now)
+);
@@ -1,12 +1,184 @@
 import express from 'express';
 import siemController from '../controllers/siemController';
 import { validate, commonSchemas, Joi } from '../../../middleware/validator';
+import authMiddleware from '../../../middleware/auth';
 import validatorSchemas from '../validators/siemValidator';
 
+const { authenticate } = authMiddleware;
+
 const router = express.Router();
 
-const { siemSchema, siemUpdateSchema } = validatorSchemas;
+const {
+  siemSchema,
+  siemUpdateSchema,
+  logIngestSchema,
+  logBatchSchema,
+  bulkIngestQuerySchema,
+  deadLetterQuerySchema,
+  detectionRuleSchema,
+  detectionRuleUpdateSchema,
+  sigmaImportQuerySchema,
+  ruleListQuerySchema,
+  alertListQuerySchema,
+  alertStatusSchema,
+  alertAssignSchema,
+  alertEscalationSchema,
+  alertSuppressionSchema,
+  alertSuppressionListQuerySchema,
+  correlationSchema,
+  correlationRuleSchema,
+  iocRetroHuntSchema,
+  eventSearchSchema,
+  savedSearchRunSchema,
+  fieldSuggestionQuerySchema,
+  savedSearchSchema,
+  savedSearchUpdateSchema,
+  forensicSearchSchema,
+  timelineSchema,
+  idParamsSchema,
+} = validatorSchemas;
+
+// Log ingestion
+router.post('/logs', validate({ body: logIngestSchema }), siemController.ingestLog);
+router.post('/logs/batch', validate({ body: logBatchSchema }), siemController.ingestLogs);
+
+// Pipeline ingestion (queued, rate limited per sender)
+router.post(
+  '/ingest/bulk',
+  express.text({ type: ['application/x-ndjson', 'application/ndjson'], limit: '10mb' }),
+  validate({ query: bulkIngestQuerySchema }),
+  siemController.bulkIngest,
+);
+router.get('/ingest/stats', siemController.ingestStats);
+router.get(
+  '/ingest/dead-letters',
+  validate({ query: deadLetterQuerySchema }),
+  siemController.listDeadLetters,
+);
+router.delete('/ingest/dead-letters', siemController.clearDeadLetters);
+
+// Detection rules
+router.post('/rules', validate({ body: detectionRuleSchema }), siemController.createRule);
+router.post(
+  '/rules/sigma',
+  express.text({
+    type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'],
+    limit: '5mb',
+  }),
+  validate({ query: sigmaImportQuerySchema }),
+  siemController.importSigmaRules,
+);
+router.get('/rules', validate({ query: ruleListQuerySchema }), siemController.listRules);
+router.get('/rules/:id', validate({ params: idParamsSchema }), siemController.getRule);
+router.put('/rules/:id', validate({
+  params: idParamsSchema,
+  body: detectionRuleUpdateSchema,
+}), siemController.updateRule);
+router.delete('/rules/:id', validate({ params: idParamsSchema }), siemController.deleteRule);
+
+// Alerts
+router.get('/alerts', validate({ query: alertListQuerySchema }), siemController.listAlerts);
+router.get('/alerts/:id', validate({ params: idParamsSchema }), siemController.getAlert);
+router.post('/alerts/:id/status', validate({
+  params: idParamsSchema,
+  body: alertStatusSchema,
+}), siemController.updateAlertStatus);
+router.post('/alerts/:id/assign', validate({
+  params: idParamsSchema,
+  body: alertAssignSchema,
+}), siemController.assignAlert);
+router.post('/alerts/:id/escalate', validate({
+  params: idParamsSchema,
+  body: alertEscalationSchema,
+}), siemController.escalateAlert);
+router.post(
+  '/alert-suppressions',
+  validate({ body: alertSuppressionSchema }),
+  siemController.createAlertSuppression,
+);
+router.get(
+  '/alert-suppressions',
+  validate({ query: alertSuppressionListQuerySchema }),
+  siemController.listAlertSuppressions,
+);
+router.delete(
+  '/alert-suppressions/:id',
+  validate({ params: idParamsSchema }),
+  siemController.deleteAlertSuppression,
+);
+
+// Correlation
+router.post('/correlations', validate({ body: correlationSchema }), siemController.runCorrelation);
+router.post(
+  '/correlation-rules',
+  validate({ body: correlationRuleSchema }),
+  siemController.createCorrelationRule,
+);
+router.get('/correlation-rules', siemController.listCorrelationRules);
+router.get(
+  '/correlation-rules/:id',
+  validate({ params: idParamsSchema }),
+  siemController.getCorrelationRule,
+);
+router.put('/correlation-rules/:id', validate({
+  params: idParamsSchema,
+  body: correlationRuleSchema,
+}), siemController.updateCorrelationRule);
+router.delete(
+  '/correlation-rules/:id',
+  validate({ params: idParamsSchema }),
+  siemController.deleteCorrelationRule,
+);
+router.get('/correlation-engine/stats', siemController.correlationEngineStats);
+
+// IOC sweep
+router.get('/ioc-sweep/stats', siemController.iocSweepStats);
+router.post('/ioc-sweep/rebuild', siemController.rebuildIocSweep);
+router.post(
+  '/ioc-sweep/retro-hunt',
+  validate({ body: iocRetroHuntSchema }),
+  siemController.retroHuntIoc,
+);
+
+// Event search and saved searches
+router.post('/search', validate({ body: eventSearchSchema }), siemController.searchEvents);
+router.get(
+  '/search/fields',
+  validate({ query: fieldSuggestionQuerySchema }),
+  siemController.suggestSearchFields,
+);
+// Saved searches belong to the user, and are shared with the teams, in their token
+router.use('/searches', authenticate);
+router.post('/searches', validate({ body: savedSearchSchema }), siemController.createSavedSearch);
+router.get('/searches', siemController.listSavedSearches);
+router.get(
+  '/searches/:id',
+  validate({ params: idParamsSchema }),
+  siemController.getSavedSearch,
+);
+router.put('/searches/:id', validate({
+  params: idParamsSchema,
+  body: savedSearchUpdateSchema,
+}), siemController.updateSavedSearch);
+router.delete(
+  '/searches/:id',
+  validate({ params: idParamsSchema }),
+  siemController.deleteSavedSearch,
+);
+router.post('/searches/:id/run', validate({
+  params: idParamsSchema,
+  body: savedSearchRunSchema,
+}), siemController.runSavedSearch);
+
+// Forensics
+router.post(
+  '/forensics/search',
+  validate({ body: forensicSearchSchema }),
+  siemController.forensicSearch,
+);
+router.post('/timeline', validate({ body: timelineSchema }), siemController.reconstructTimeline);
 
+// Generic event records; registered last so /:id does not shadow the routes above
 router.post('/', validate({ body: siemSchema }), siemController.create);
 router.get('/', siemController.list);
 router.get('/:id', validate({ params: Joi.object({ id: commonSchemas.objectId.required() }) }), siemController.getById);
@@ -0,0 +1,106 @@
+/**
+ * Rule Evaluation
+ * Evaluates detection rule conditions and expression trees against a
+ * normalized event. Shared by the detection rules and the streaming
+ * correlation engine.
+ */
+
+import { BlockList, isIP } from 'net';
+import type { NormalizedEvent, RuleCondition, RuleExpression } from '../types';
+
+/**
+ * Get a (dotted) field from an event, e.g. `metadata.eventId`
+ */
+export const getEventField = (event: any, path: string): any => (
+  path.split('.').reduce((current, key) => current?.[key], event)
+);
+
+/**
+ * Whether an IP address falls in a CIDR block (a bare address matches itself)
+ */
+const inCidr = (ip: string, cidr: string): boolean => {
+  const [network, prefix] = cidr.split('/');
+  const version = isIP(network);
+  if (!version || isIP(ip) !== version) return false;
+
+  const family = version === 6 ? 'ipv6' : 'ipv4';
+  const maxPrefix = version === 6 ? 128 : 32;
+  const blockList = new BlockList();
+  try {
+    blockList.addSubnet(network, prefix ? Number(prefix) : maxPrefix, family);
+  } catch (error) {
+    return false;
+  }
+  return blockList.check(ip, family);
+};
+
+/**
+ * Evaluate single condition; string operators ignore case when caseInsensitive is set
+ */
+export const evaluateCondition = (event: any, condition: RuleCondition): boolean => {
+  const fieldValue = getEventField(event, condition.field);
+  const exists = fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
+
+  if (condition.operator === 'exists') {
+    return exists === (condition.value !== false);
+  }
+  if (fieldValue === undefined || fieldValue === null) {
+    return false;
+  }
+
+  const fold = (value: any): string => (
+    condition.caseInsensitive ? String(value).toLowerCase() : String(value)
+  );
+
+  switch (condition.operator) {
+    case 'equals':
+      return condition.caseInsensitive
+        ? fold(fieldValue) === fold(condition.value)
+        : fieldValue === condition.value;
+    case 'contains':
+      return fold(fieldValue).includes(fold(condition.value));
+    case 'startswith':
+      return fold(fieldValue).startsWith(fold(condition.value));
+    case 'endswith':
+      return fold(fieldValue).endsWith(fold(condition.value));
+    case 'regex':
+      return new RegExp(condition.value, condition.caseInsensitive ? 'i' : '')
+        .test(String(fieldValue));
+    case 'cidr':
+      return inCidr(String(fieldValue), String(condition.value));
+    case 'gt':
+      return fieldValue > condition.value;
+    case 'lt':
+      return fieldValue < condition.value;
+    case 'gte':
+      return fieldValue >= condition.value;
+    case 'lte':
+      return fieldValue <= condition.value;
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(fieldValue);
+    case 'not_in':
+      return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a rule expression tree
+ */
+export const evaluateExpression = (event: NormalizedEvent, expression: RuleExpression): boolean => {
+  switch (expression.type) {
+    case 'and':
+      return expression.children.every((child) => evaluateExpression(event, child));
+    case 'or':
+      return expression.children.some((child) => evaluateExpression(event, child));
+    case 'not':
+      return !evaluateExpression(event, expression.child);
+    case 'condition':
+      return evaluateCondition(event, expression.condition);
+    default:
+      return false;
+  }
+};
+
+export default { evaluateCondition, evaluateExpression, getEventField };
@@ -0,0 +1,106 @@
+/**
+ * Field Catalog
+ * Remembers the fields seen on ingested events, with how often each was
+ * present and its most common short values, to autocomplete search queries.
+ * Metadata is flattened into dotted paths (`metadata.sender`). Once the
+ * catalog holds its maximum number of fields, new fields are ignored.
+ */
+
+import { loadSearchConfig } from '../config/search';
+import type { FieldSuggestion, NormalizedEvent } from '../types';
+
+// Fields not worth suggesting: unique per event or searched as free text
+const SKIPPED_FIELDS = ['id', 'rawLog', 'message', 'normalized'];
+
+// Nesting depth followed into metadata
+const MAX_DEPTH = 3;
+
+// Values tracked per field, and the longest value kept
+const MAX_VALUES = 50;
+const MAX_VALUE_LENGTH = 64;
+
+// Values listed with each suggestion
+const SUGGESTED_VALUES = 5;
+
+interface FieldEntry {
+  count: number;
+  values: Map<string, number>;
+}
+
+class FieldCatalog {
+  private fields = new Map<string, FieldEntry>();
+
+  private maxFields: number;
+
+  constructor(maxFields: number = loadSearchConfig().maxFields) {
+    this.maxFields = maxFields;
+  }
+
+  observe(event: NormalizedEvent): void {
+    Object.entries(event)
+      .filter(([field]) => !SKIPPED_FIELDS.includes(field))
+      .forEach(([field, value]) => this.record(field, value, 1));
+  }
+
+  /**
+   * Most common fields whose path, or last path segment, starts with the prefix
+   */
+  suggest(prefix: string = '', limit: number = 20): FieldSuggestion[] {
+    const needle = prefix.toLowerCase();
+    return Array.from(this.fields.entries())
+      .filter(([field]) => (
+        field.toLowerCase().startsWith(needle)
+        || field.split('.').pop().toLowerCase().startsWith(needle)
+      ))
+      .sort(([a, left], [b, right]) => right.count - left.count || a.localeCompare(b))
+      .slice(0, limit)
+      .map(([field, entry]) => ({
+        field,
+        count: entry.count,
+        values: Array.from(entry.values.entries())
+          .sort(([, left], [, right]) => right - left)
+          .slice(0, SUGGESTED_VALUES)
+          .map(([value]) => value),
+      }));
+  }
+
+  get size(): number {
+    return this.fields.size;
+  }
+
+  clear(): void {
+    this.fields.clear();
+  }
+
+  private record(field: string, value: unknown, depth: number): void {
+    if (value === undefined || value === null || value === '') return;
+
+    if (typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      if (depth < MAX_DEPTH) {
+        Object.entries(value).forEach(([key, nested]) => {
+          this.record(`${field}.${key}`, nested, depth + 1);
+        });
+      }
+      return;
+    }
+
+    let entry = this.fields.get(field);
+    if (!entry) {
+      if (this.fields.size >= this.maxFields) return;
+      entry = { count: 0, values: new Map() };
+      this.fields.set(field, entry);
+    }
+    entry.count += 1;
+
+    const { values } = entry;
+    (Array.isArray(value) ? value : [value])
+      .filter((item) => ['string', 'number', 'boolean'].includes(typeof item))
+      .map(String)
+      .filter((item) => item.length <= MAX_VALUE_LENGTH)
+      .filter((item) => values.has(item) || values.size < MAX_VALUES)
+      .forEach((item) => values.set(item, (values.get(item) || 0) + 1));
+  }
+}
+
+export { FieldCatalog };
+export default new FieldCatalog();
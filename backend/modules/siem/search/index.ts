@@ -0,0 +1,9 @@
+/**
+ * SIEM Event Search
+ */
+
+export {
+  default as parseQuery, SearchQueryError, TEXT_FIELDS, DATE_FIELDS,
+} from './queryParser';
+export { default as fieldCatalog, FieldCatalog } from './fieldCatalog';
+export { default as searchScheduler, SearchScheduler, meetsThreshold } from './scheduler';
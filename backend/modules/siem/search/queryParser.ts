@@ -0,0 +1,346 @@
+/**
+ * SIEM Search Query Parser
+ * Parses the event search language into a FilterGroup:
+ * - `field:value` matches a field, ignoring case; `*` and `?` in a value are
+ *   wildcards, a quoted value is matched literally and `field:*` requires the
+ *   field to be present
+ * - `field:10.0.0.0/8` matches IPv4 or IPv6 addresses in a CIDR range
+ * - `field:[a TO b]` and `field:{a TO b}` are inclusive and exclusive ranges
+ *   (`*` leaves an end open); `field:>a`, `>=`, `<` and `<=` compare. Ranges on
+ *   `timestamp` take dates and relative times such as `now-15m`
+ * - a term without a field matches the event text (TEXT_FIELDS)
+ * - AND, OR, NOT (or a leading `-`) and parentheses; adjacent terms are ANDed.
+ *   Precedence is NOT > AND > OR.
+ */
+
+import { isIP } from 'net';
+import { emptyFilterGroup } from '../../../utils/filtering';
+import type {
+  Filter, FilterGroup, FilterMode, FilterOperator,
+} from '../../../utils/filtering';
+
+/**
+ * Error raised for a query that cannot be parsed
+ */
+export class SearchQueryError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'SearchQueryError';
+    this.position = position;
+  }
+}
+
+// Event fields searched by terms without a field
+export const TEXT_FIELDS = ['message', 'rawLog', 'commandLine', 'url', 'domain'];
+
+// Fields whose range bounds are dates, kept as epoch milliseconds
+export const DATE_FIELDS = ['timestamp'];
+
+const FIELD_PATTERN = /^[A-Za-z_][\w.]*$/;
+const CIDR_PATTERN = /^([\da-f:.]+)\/(\d{1,3})$/i;
+const RELATIVE_TIME = /^now(?:([+-])(\d+)([smhdw]))?$/;
+const UNIT_SECONDS = {
+  s: 1, m: 60, h: 3600, d: 86400, w: 604800,
+};
+const COMPARISONS: Record<string, FilterOperator> = {
+  '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte',
+};
+
+interface Token {
+  readonly type: 'lparen' | 'rparen' | 'not' | 'term' | 'eof';
+  readonly value: string; // Backslash escapes kept unless quoted
+  readonly field?: string;
+  readonly quoted?: boolean;
+  readonly position: number;
+}
+
+type Node = Filter | FilterGroup;
+
+const isGroup = (node: Node): node is FilterGroup => 'filterGroups' in node;
+
+const group = (mode: FilterMode, nodes: readonly Node[]): FilterGroup => ({
+  mode,
+  filters: nodes.filter((node): node is Filter => !isGroup(node)),
+  filterGroups: nodes.filter(isGroup),
+});
+
+/**
+ * Join operands; nested groups of the same mode are flattened
+ */
+const combine = (mode: 'and' | 'or', nodes: readonly Node[]): Node => (
+  nodes.length === 1 ? nodes[0] : group(mode, nodes.flatMap((node) => (
+    isGroup(node) && node.mode === mode ? [...node.filters, ...node.filterGroups] : [node]
+  )))
+);
+
+/**
+ * Index of the first unescaped occurrence of one of the characters, or -1
+ */
+const findUnescaped = (value: string, chars: string): number => {
+  for (let i = 0; i < value.length; i += 1) {
+    if (value[i] === '\\') i += 1;
+    else if (chars.includes(value[i])) return i;
+  }
+  return -1;
+};
+
+const unescape = (value: string): string => value.replace(/\\(.)/g, '$1');
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+
+  const readQuoted = (start: number): { value: string; end: number } => {
+    let value = '';
+    let i = start + 1;
+    while (i < input.length && input[i] !== '"') {
+      if (input[i] === '\\' && i + 1 < input.length) i += 1;
+      value += input[i];
+      i += 1;
+    }
+    if (i >= input.length) throw new SearchQueryError('Unterminated quoted value', start);
+    return { value, end: i + 1 };
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i += 1;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({
+        type: 'term', value, quoted: true, position: i,
+      });
+      i = end;
+    } else if (char === '-' && i + 1 < input.length && !/[\s()]/.test(input[i + 1])) {
+      tokens.push({ type: 'not', value: char, position: i });
+      i += 1;
+    } else {
+      const start = i;
+      let word = '';
+      while (i < input.length && !/[\s()"]/.test(input[i])) {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          word += input[i];
+          i += 1;
+        }
+        word += input[i];
+        i += 1;
+      }
+
+      const colon = findUnescaped(word, ':');
+      const field = colon > 0 ? word.slice(0, colon) : '';
+      if (!FIELD_PATTERN.test(field)) {
+        // Not a field: free text, a keyword or a range end
+        tokens.push({ type: 'term', value: word, position: start });
+      } else if (colon === word.length - 1 && input[i] === '"') {
+        const { value, end } = readQuoted(i);
+        tokens.push({
+          type: 'term', field, value, quoted: true, position: start,
+        });
+        i = end;
+      } else {
+        tokens.push({
+          type: 'term', field, value: word.slice(colon + 1), position: start,
+        });
+      }
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+};
+
+class QueryParser {
+  private tokens: Token[];
+
+  private index = 0;
+
+  constructor(input: string, private now: Date) {
+    this.tokens = tokenize(input);
+  }
+
+  parse(): FilterGroup {
+    if (this.peek().type === 'eof') return emptyFilterGroup();
+
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new SearchQueryError(`Unexpected '${token.value}'`, token.position);
+    }
+    return isGroup(node) ? node : group('and', [node]);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index += 1;
+    return token;
+  }
+
+  private isKeyword(keyword: string, token: Token = this.peek()): boolean {
+    return token.type === 'term' && !token.field && !token.quoted && token.value === keyword;
+  }
+
+  private parseOr(): Node {
+    const children = [this.parseAnd()];
+    while (this.isKeyword('OR')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return combine('or', children);
+  }
+
+  private parseAnd(): Node {
+    const children = [this.parseNot()];
+    let more = true;
+    while (more) {
+      const token = this.peek();
+      if (this.isKeyword('AND')) {
+        this.next();
+        children.push(this.parseNot());
+      } else if (token.type !== 'eof' && token.type !== 'rparen' && !this.isKeyword('OR')) {
+        // Adjacent terms
+        children.push(this.parseNot());
+      } else {
+        more = false;
+      }
+    }
+    return combine('and', children);
+  }
+
+  private parseNot(): Node {
+    if (this.peek().type === 'not' || this.isKeyword('NOT')) {
+      this.next();
+      return group('not', [this.parseNot()]);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    if (token.type === 'lparen') {
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== 'rparen') {
+        throw new SearchQueryError('Expected \')\'', closing.position);
+      }
+      return node;
+    }
+    if (token.type !== 'term' || ['AND', 'OR', 'TO'].some((word) => this.isKeyword(word, token))) {
+      throw new SearchQueryError(
+        token.type === 'eof' ? 'Unexpected end of query' : `Unexpected '${token.value}'`,
+        token.position,
+      );
+    }
+    return token.field ? this.fieldTerm(token) : this.textTerm(token);
+  }
+
+  private fieldTerm({
+    field, value, quoted, position,
+  }: Token): Node {
+    if (quoted) return { key: field, operator: 'eq', values: [value] };
+    if (value === '') {
+      throw new SearchQueryError(`Expected a value after '${field}:'`, position);
+    }
+    if (value === '*') return { key: field, operator: 'not_nil', values: [] };
+    if (value[0] === '[' || value[0] === '{') return this.range(field, value, position);
+
+    const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+    if (comparison) {
+      return {
+        key: field,
+        operator: COMPARISONS[comparison[1]],
+        values: [this.bound(field, unescape(comparison[2]), position)],
+      };
+    }
+    if (findUnescaped(value, '*?') >= 0) {
+      return { key: field, operator: 'wildcard', values: [value] };
+    }
+
+    const literal = unescape(value);
+    const cidr = literal.match(CIDR_PATTERN);
+    if (cidr && isIP(cidr[1])) {
+      if (Number(cidr[2]) > (isIP(cidr[1]) === 6 ? 128 : 32)) {
+        throw new SearchQueryError(`Invalid CIDR range '${literal}'`, position);
+      }
+      return { key: field, operator: 'cidr', values: [literal] };
+    }
+    return { key: field, operator: 'eq', values: [literal] };
+  }
+
+  private range(field: string, value: string, position: number): Node {
+    const to = this.next();
+    if (!this.isKeyword('TO', to)) {
+      throw new SearchQueryError('Expected \'TO\'', to.position);
+    }
+    const end = this.next();
+    const closing = end.value.slice(-1);
+    if (end.type !== 'term' || end.field || end.quoted || ![']', '}'].includes(closing)) {
+      throw new SearchQueryError('Expected a range end followed by \']\' or \'}\'', end.position);
+    }
+
+    const low = value.slice(1);
+    const high = end.value.slice(0, -1);
+    const filters: Filter[] = [];
+    if (low !== '*') {
+      filters.push({
+        key: field,
+        operator: value[0] === '[' ? 'gte' : 'gt',
+        values: [this.bound(field, unescape(low), position)],
+      });
+    }
+    if (high !== '*') {
+      filters.push({
+        key: field,
+        operator: closing === ']' ? 'lte' : 'lt',
+        values: [this.bound(field, unescape(high), end.position)],
+      });
+    }
+    if (!filters.length) return { key: field, operator: 'not_nil', values: [] };
+    return filters.length === 1 ? filters[0] : group('and', filters);
+  }
+
+  /**
+   * Range or comparison bound: a number, or epoch milliseconds for dates
+   */
+  private bound(field: string, text: string, position: number): string {
+    if (DATE_FIELDS.includes(field)) {
+      const relative = text.match(RELATIVE_TIME);
+      const time = relative
+        ? this.now.getTime() + (relative[1] === '-' ? -1 : 1)
+          * Number(relative[2] || 0) * (UNIT_SECONDS[relative[3]] || 0) * 1000
+        : Date.parse(text);
+      if (Number.isNaN(time)) throw new SearchQueryError(`Invalid date '${text}'`, position);
+      return String(time);
+    }
+    if (text.trim() === '' || !Number.isFinite(Number(text))) {
+      throw new SearchQueryError(`Expected a number, got '${text}'`, position);
+    }
+    return text;
+  }
+
+  private textTerm({ value, quoted }: Token): FilterGroup {
+    const wildcard = !quoted && findUnescaped(value, '*?') >= 0;
+    return group('or', TEXT_FIELDS.map((key): Filter => (wildcard
+      ? { key, operator: 'wildcard', values: [`*${value}*`] }
+      : { key, operator: 'contains', values: [quoted ? value : unescape(value)] })));
+  }
+}
+
+/**
+ * Parse a search query; relative times are taken from `now`
+ */
+export const parseQuery = (input: string, now: Date = new Date()): FilterGroup => (
+  new QueryParser(input, now).parse()
+);
+
+export default parseQuery;
@@ -0,0 +1,115 @@
+/**
+ * Saved Search Scheduler
+ * Runs the saved searches with an enabled schedule once their interval has
+ * passed, counting the events their query matches in the last `window`
+ * seconds. Each run records its time, count and whether the threshold was
+ * met; a run that meets the threshold when the previous one did not emits
+ * `threshold` with a SavedSearchThresholdMatch, so a count that stays over the
+ * threshold raises one alert rather than one per run.
+ */
+
+import { EventEmitter } from 'events';
+import { getEventStore, getSearchStore } from '../storage';
+import { parseQuery } from './queryParser';
+import { loadSearchConfig } from '../config/search';
+import type { SearchConfig } from '../config/search';
+import logger from '../utils/logger';
+import type { SavedSearch, SavedSearchSchedule } from '../types';
+
+const meetsThreshold = (count: number, { comparison, threshold }: SavedSearchSchedule) => {
+  switch (comparison) {
+    case 'gt':
+      return count > threshold;
+    case 'gte':
+      return count >= threshold;
+    case 'lt':
+      return count < threshold;
+    default:
+      return count <= threshold;
+  }
+};
+
+class SearchScheduler extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+
+  private running = false;
+
+  constructor(private options: SearchConfig = loadSearchConfig()) {
+    super();
+  }
+
+  configure(options: Partial<SearchConfig>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Run every scheduled search that is due; returns how many ran
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    const due = (await getSearchStore().find({ scheduled: true })).filter((search) => (
+      !search.lastRunAt
+      || new Date(search.lastRunAt).getTime() + search.schedule.interval * 1000 <= now.getTime()
+    ));
+
+    // One at a time to keep the load on the event store predictable
+    await due.reduce(async (previous, search) => {
+      await previous;
+      try {
+        await this.run(search, now);
+      } catch (error) {
+        logger.error('Scheduled search failed', { error, searchId: search.id });
+      }
+    }, Promise.resolve());
+    return due.length;
+  }
+
+  /**
+   * Count a saved search's matches over its schedule window and record the run
+   */
+  async run(search: SavedSearch, now: Date = new Date()): Promise<SavedSearch> {
+    const from = new Date(now.getTime() - search.schedule.window * 1000);
+    const count = await getEventStore().count({
+      timeRange: { start: from, end: now },
+      filter: parseQuery(search.query, now),
+    });
+    const met = meetsThreshold(count, search.schedule);
+
+    const updated = await getSearchStore().update(search.id, {
+      lastRunAt: now,
+      lastCount: count,
+      thresholdMet: met,
+    });
+    if (met && !search.thresholdMet) {
+      logger.info('Saved search threshold met', { searchId: search.id, count });
+      this.emit('threshold', {
+        search: updated || search, count, from, to: now,
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Check for due searches every scheduler tick
+   */
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.running = true;
+      this.runDue()
+        .catch((error) => logger.error('Saved search scheduler failed', { error }))
+        .finally(() => {
+          this.running = false;
+        });
+    }, this.options.schedulerTick * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export { SearchScheduler, meetsThreshold };
+export default new SearchScheduler();
@@ -10,9 +10,33 @@
  * 7. Compliance reporting
  */
 
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import SiemEvent from '../models/SiemEvent';
+import { getEventStore, getAlertStore, getSearchStore } from '../storage';
+import {
+  parseSyslog, parseLeef, parseAccessLog, parseFirewall, parseIds,
+} from '../parsers';
+import { parseSigmaDocuments, compileSigmaRule } from '../sigma';
+import { evaluateCondition, evaluateExpression, getEventField } from '../rules/evaluator';
+import { correlationEngine } from '../correlation';
+import { iocSweep } from '../ioc';
+import {
+  parseQuery, SearchQueryError, fieldCatalog, searchScheduler,
+} from '../search';
+import { loadAlertConfig } from '../config/alerts';
+import type { AlertConfig } from '../config/alerts';
+import { loadSearchConfig } from '../config/search';
+import type { FilterGroup } from '../../../utils/filtering';
+import incidentService from '../../incident-response/services/incidentService';
+import { caseManagementService } from '../../case-management/service';
+import {
+  CaseCategory, CasePriority, CaseStatus, CommentType,
+} from '../../case-management/types';
 import logger from '../utils/logger';
+import {
+  NotFoundError, ConflictError, ValidationError, AuthorizationError,
+} from '../../../middleware/errors';
 import type {
   LogSourceType,
   EventSeverity,
@@ -20,9 +44,23 @@ import type {
   NormalizedEvent,
   ParsingResult,
   DetectionRule,
+  SigmaImportReport,
+  SigmaImportResult,
   Alert,
+  AlertEscalation,
+  AlertEscalationOffer,
+  AlertEscalationRequest,
+  AlertSuppression,
+  AlertSuppressionFilters,
   CorrelationPattern,
   CorrelationResult,
+  CorrelationEngineStats,
+  IocSweepMatch,
+  IocSweepStats,
+  RetroHuntResult,
+  StreamingCorrelationMatch,
+  StreamingCorrelationRule,
+  StreamingCorrelationRuleInput,
   DashboardWidget,
   DashboardQuery,
   ForensicQuery,
@@ -30,13 +68,159 @@ import type {
   ComplianceReport,
   AlertTuning,
   LogStatistics,
+  LogSubmission,
+  IngestResult,
+  BatchIngestResult,
+  DetectionRuleFilters,
+  AlertFilters,
+  EventQuery,
+  EventSearchRequest,
+  EventSearchResult,
+  FieldSuggestion,
+  SavedSearch,
+  SavedSearchInput,
+  SavedSearchThresholdMatch,
+  SearchUser,
 } from '../types';
 
-class SiemService {
+/**
+ * Allowed alert status changes; any open alert can be dismissed as a false
+ * positive, and closed alerts are reopened for investigation
+ */
+const ALERT_TRANSITIONS: Record<AlertStatus, readonly AlertStatus[]> = {
+  new: ['acknowledged', 'false_positive'],
+  acknowledged: ['investigating', 'false_positive'],
+  investigating: ['resolved', 'false_positive'],
+  resolved: ['investigating'],
+  false_positive: ['investigating'],
+};
+
+// Rule ID of the alerts raised for IOC sweep matches
+const IOC_SWEEP_RULE_ID = 'ioc-sweep';
+
+// Stored events field autocompletion learns from when nothing was ingested yet
+const FIELD_SAMPLE_SIZE = 500;
+
+const isVisibleTo = (search: SavedSearch, user: SearchUser): boolean => (
+  search.owner === user.id || (search.visibility === 'team' && user.teams.includes(search.team))
+);
+
+// An escalation claim left by a process that stopped mid-escalation is taken over after this long
+const ESCALATION_CLAIM_TIMEOUT = 5 * 60 * 1000;
+
+type EscalationLink = Pick<AlertEscalation, 'target' | 'id' | 'reference'>;
+
+// Incidents and cases in these statuses are not offered for new alerts
+const CLOSED_INCIDENT_STATUSES = ['resolved', 'closed'];
+const CLOSED_CASE_STATUSES: readonly string[] = [
+  CaseStatus.RESOLVED, CaseStatus.CLOSED, CaseStatus.ARCHIVED,
+];
+
+/**
+ * Event fields copied into incident and case timeline entries
+ */
+const timelineEntry = (event: NormalizedEvent): Record<string, any> => ({
+  eventId: event.id,
+  eventType: event.eventType,
+  category: event.category,
+  severity: event.severity,
+  sourceIp: event.sourceIp,
+  destIp: event.destIp,
+  hostname: event.hostname,
+  username: event.username,
+});
+
+/**
+ * Add an alert to the metadata.siem back-link of an incident or case
+ */
+const mergeSiemLink = (
+  metadata: Record<string, any> = {},
+  alertId: string,
+  correlationIds: readonly string[],
+): Record<string, any> => ({
+  ...metadata,
+  siem: {
+    alertIds: Array.from(new Set([...(metadata.siem?.alertIds || []), alertId])),
+    correlationIds: Array.from(new Set([
+      ...(metadata.siem?.correlationIds || []), ...correlationIds,
+    ])),
+  },
+});
+
+/**
+ * Emits `alert:raised` for each new alert created by a detection rule or a
+ * streaming correlation rule, `alert:grouped` (duplicate, parent) when an
+ * alert is grouped under an unresolved alert, and `alert:escalated` when an
+ * alert is promoted to an incident or case
+ */
+class SiemService extends EventEmitter {
+  private alertConfig: AlertConfig = loadAlertConfig();
+
+  private searchConfig = loadSearchConfig();
+
+  constructor() {
+    super();
+    correlationEngine.on('match', (match: StreamingCorrelationMatch) => {
+      this.raiseCorrelationAlert(match).catch((error) => {
+        logger.error('Error raising correlation alert', { error, ruleId: match.ruleId });
+      });
+    });
+    iocSweep.on('match', (match: IocSweepMatch) => {
+      this.raiseIocAlerts(match).catch((error) => {
+        logger.error('Error raising IOC alert', { error, eventId: match.event.id });
+      });
+    });
+    searchScheduler.on('threshold', (match: SavedSearchThresholdMatch) => {
+      this.raiseSearchAlert(match).catch((error) => {
+        logger.error('Error raising saved search alert', { error, searchId: match.search.id });
+      });
+    });
+  }
+
   // ========================================
   // 1. Log Collection and Normalization
   // ========================================
 
+  /**
+   * Collect a log, evaluate it against the enabled detection rules and feed it
+   * to the streaming correlation rules and the IOC sweep (their alerts are
+   * raised as they match); its fields are offered by search autocompletion
+   */
+  async ingestLog(rawLog: string, sourceType: LogSourceType): Promise<IngestResult> {
+    const event = await this.collectLog(rawLog, sourceType);
+    const rules = await getAlertStore().findRules({ enabled: true });
+    const alerts = await this.evaluateRules(event, rules);
+    correlationEngine.process(event);
+    iocSweep.process(event);
+    fieldCatalog.observe(event);
+    return { event, alerts };
+  }
+
+  /**
+   * Ingest a batch of logs; a log that fails to parse or store is reported
+   * by its index and does not stop the rest of the batch
+   */
+  async ingestLogs(logs: readonly LogSubmission[]): Promise<BatchIngestResult> {
+    const results: (IngestResult & { index: number })[] = [];
+    const errors: { index: number; error: string }[] = [];
+
+    for (const [index, log] of logs.entries()) {
+      try {
+        results.push({ index, ...await this.ingestLog(log.rawLog, log.sourceType) });
+      } catch (error) {
+        errors.push({ index, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    logger.info('Log batch ingested', { accepted: results.length, rejected: errors.length });
+    return {
+      accepted: results.length,
+      rejected: errors.length,
+      results,
+      errors,
+    };
+  }
+
   /**
    * Collect and normalize log from various sources
    */
@@ -53,16 +237,14 @@ class SiemService {
       const normalizedEvent = parsingResult.event;
 
       // Store the normalized event
-      const event = new SiemEvent({
+      const event = await getEventStore().insert({
         ...normalizedEvent,
         id: normalizedEvent.id || uuidv4(),
         normalized: true,
-        createdAt: new Date(),
       });
-      await event.save();
 
       logger.info('Log collected and normalized', { eventId: event.id });
-      return normalizedEvent;
+      return event;
     } catch (error) {
       logger.error('Error collecting log', { error, rawLog });
       throw error;
@@ -76,7 +258,16 @@ class SiemService {
     try {
       switch (sourceType) {
         case 'syslog':
-          return this.parseSyslog(rawLog);
+          return parseSyslog(rawLog);
+        case 'leef':
+          return parseLeef(rawLog);
+        case 'apache':
+        case 'nginx':
+          return parseAccessLog(rawLog, sourceType);
+        case 'firewall':
+          return parseFirewall(rawLog);
+        case 'ids_ips':
+          return parseIds(rawLog);
         case 'json':
           return this.parseJson(rawLog);
         case 'cef':
@@ -95,40 +286,6 @@ class SiemService {
     }
   }
 
-  /**
-   * Parse syslog format
-   */
-  private parseSyslog(rawLog: string): ParsingResult {
-    const syslogRegex = /^<(\d+)>(\w+\s+\d+\s+\d+:\d+:\d+)\s+(\S+)\s+(\S+):\s+(.+)$/;
-    const match = rawLog.match(syslogRegex);
-
-    if (!match) {
-      return { success: false, error: 'Invalid syslog format', sourceType: 'syslog' };
-    }
-
-    const [, priority, timestamp, hostname, process, message] = match;
-
-    return {
-      success: true,
-      sourceType: 'syslog',
-      event: {
-        id: uuidv4(),
-        timestamp: new Date(timestamp),
-        sourceType: 'syslog',
-        hostname,
-        processName: process,
-        message,
-        rawLog,
-        severity: this.calculateSeverityFromPriority(parseInt(priority, 10)),
-        category: 'system',
-        eventType: 'syslog_event',
-        tags: ['syslog'],
-        metadata: { priority },
-        normalized: true,
-      },
-    };
-  }
-
   /**
    * Parse JSON format
    */
@@ -158,6 +315,9 @@ class SiemService {
           userId: parsed.user_id || parsed.userId,
           username: parsed.username,
           hostname: parsed.hostname,
+          fileHash: parsed.file_hash || parsed.fileHash,
+          url: parsed.url,
+          domain: parsed.domain,
           tags: parsed.tags || [],
           metadata: parsed.metadata || {},
           normalized: true,
@@ -327,11 +487,12 @@ class SiemService {
       const timeWindowStart = new Date(Date.now() - pattern.timeWindow * 1000);
 
       // Find events matching the pattern within time window
-      const events = await SiemEvent.find({
-        eventType: { $in: pattern.eventTypes },
-        timestamp: { $gte: timeWindowStart },
-        normalized: true,
-      }).sort('timestamp');
+      const events = await getEventStore().find({
+        timeRange: { start: timeWindowStart },
+        fields: { eventType: pattern.eventTypes, normalized: true },
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+      });
 
       // Group events by correlation criteria
       const correlationGroups = this.groupEventsByCorrelation(events, pattern);
@@ -353,10 +514,7 @@ class SiemService {
 
           // Update events with correlation ID
           const eventIds = groupEvents.map((e) => e.id);
-          await SiemEvent.updateMany(
-            { id: { $in: eventIds } },
-            { $set: { correlationId } },
-          );
+          await getEventStore().setCorrelationId(eventIds, correlationId);
         }
       }
 
@@ -431,6 +589,163 @@ class SiemService {
     return Math.min(Math.max(confidence, 0), 100);
   }
 
+  /**
+   * Create a streaming correlation rule, evaluated on every ingested event
+   */
+  async createCorrelationRule(
+    input: StreamingCorrelationRuleInput,
+  ): Promise<StreamingCorrelationRule> {
+    const rule = { ...input, id: uuidv4(), createdAt: new Date() } as StreamingCorrelationRule;
+    correlationEngine.setRule(rule);
+    logger.info('Correlation rule created', { ruleId: rule.id, type: rule.type });
+    return rule;
+  }
+
+  async listCorrelationRules(): Promise<StreamingCorrelationRule[]> {
+    return correlationEngine.listRules();
+  }
+
+  async getCorrelationRule(ruleId: string): Promise<StreamingCorrelationRule> {
+    const rule = correlationEngine.getRule(ruleId);
+    if (!rule) throw new NotFoundError('Correlation rule');
+    return rule;
+  }
+
+  /**
+   * Replace a correlation rule's definition; its open windows are discarded
+   */
+  async updateCorrelationRule(
+    ruleId: string,
+    input: StreamingCorrelationRuleInput,
+  ): Promise<StreamingCorrelationRule> {
+    const existing = await this.getCorrelationRule(ruleId);
+    const rule = {
+      ...input, id: ruleId, createdAt: existing.createdAt, createdBy: existing.createdBy,
+    } as StreamingCorrelationRule;
+    correlationEngine.setRule(rule);
+    logger.info('Correlation rule updated', { ruleId });
+    return rule;
+  }
+
+  async deleteCorrelationRule(ruleId: string): Promise<{ deleted: boolean; id: string }> {
+    await this.getCorrelationRule(ruleId);
+    correlationEngine.removeRule(ruleId);
+    logger.info('Correlation rule deleted', { ruleId });
+    return { deleted: true, id: ruleId };
+  }
+
+  async getCorrelationEngineStats(): Promise<CorrelationEngineStats> {
+    return correlationEngine.stats();
+  }
+
+  /**
+   * Raise an alert for a streaming correlation match and tag its events
+   */
+  private async raiseCorrelationAlert(
+    match: StreamingCorrelationMatch,
+  ): Promise<Alert | undefined> {
+    const rule = correlationEngine.getRule(match.ruleId);
+    await getEventStore().setCorrelationId([...match.events], match.id);
+    const events = await getEventStore().find({ fields: { id: [...match.events] } });
+
+    return this.raiseAlert({
+      id: uuidv4(),
+      ruleId: match.ruleId,
+      ruleName: match.ruleName,
+      severity: match.severity,
+      status: 'new',
+      title: match.ruleName,
+      description: rule?.description || '',
+      events: match.events,
+      triggeredAt: match.matchedAt,
+      groupKey: `${match.ruleId}|${match.key}`,
+      occurrences: 1,
+      lastSeenAt: match.matchedAt,
+      tags: rule?.tags || [],
+      metadata: {
+        ruleType: 'correlation',
+        correlationType: match.type,
+        correlationId: match.id,
+        key: match.key,
+        windowStart: match.windowStart,
+        windowEnd: match.windowEnd,
+        eventCount: match.events.length,
+        ...match.details,
+      },
+    }, events);
+  }
+
+  /**
+   * Raise one alert per IOC found in an event; alerts of the same IOC and
+   * entity group as duplicates
+   */
+  private async raiseIocAlerts({
+    event, matches, retroHunt,
+  }: IocSweepMatch): Promise<Alert[]> {
+    const alerts = await Promise.all(matches.map(({ indicator, field, value }) => {
+      const now = new Date();
+      return this.raiseAlert({
+        id: uuidv4(),
+        ruleId: IOC_SWEEP_RULE_ID,
+        ruleName: 'IOC match',
+        severity: indicator.severity,
+        status: 'new',
+        title: `IOC match: ${indicator.value}`,
+        description: `${field} ${value} matches ${indicator.type} IOC ${indicator.value}`
+          + ` (${indicator.source}, confidence ${indicator.confidence})`,
+        events: [event.id],
+        triggeredAt: now,
+        groupKey: this.alertGroupKey(`${IOC_SWEEP_RULE_ID}:${indicator.id}`, [event]),
+        occurrences: 1,
+        lastSeenAt: now,
+        tags: [...indicator.tags],
+        metadata: {
+          ruleType: 'ioc_match',
+          iocId: indicator.id,
+          iocType: indicator.type,
+          iocValue: indicator.value,
+          confidence: indicator.confidence,
+          source: indicator.source,
+          field,
+          value,
+          retroHunt,
+          eventCount: 1,
+        },
+      }, [event]);
+    }));
+    return alerts.filter(Boolean);
+  }
+
+  async getIocSweepStats(): Promise<IocSweepStats> {
+    return iocSweep.stats();
+  }
+
+  /**
+   * Reload the IOC sweep index from the IOC store
+   */
+  async rebuildIocSweep(): Promise<IocSweepStats> {
+    await iocSweep.rebuild();
+    return iocSweep.stats();
+  }
+
+  /**
+   * Hunt an IOC in the stored events of the last `days` days; matches raise
+   * alerts like live ones
+   */
+  async retroHuntIoc(iocId: string, days?: number): Promise<RetroHuntResult> {
+    let result: RetroHuntResult | undefined;
+    try {
+      result = await iocSweep.retroHuntIoc(iocId, days);
+    } catch (error) {
+      if ((error as Error).message === 'IoC not found') throw new NotFoundError('IOC');
+      throw error;
+    }
+    if (!result) {
+      throw new ValidationError('Only active IP, CIDR, domain, URL, hash and email IOCs can be hunted');
+    }
+    return result;
+  }
+
   // ========================================
   // 3. Custom Detection Rules Engine
   // ========================================
@@ -449,8 +764,7 @@ class SiemService {
         updatedAt: new Date(),
       };
 
-      // Store rule (in a real implementation, this would be in a database)
-      // For now, we'll just return the rule
+      await getAlertStore().insertRule(newRule);
       logger.info('Detection rule created', { ruleId: newRule.id });
       return newRule;
     } catch (error) {
@@ -459,6 +773,118 @@ class SiemService {
     }
   }
 
+  /**
+   * List detection rules, optionally filtered
+   */
+  async listDetectionRules(filters: DetectionRuleFilters = {}): Promise<DetectionRule[]> {
+    return getAlertStore().findRules(filters);
+  }
+
+  /**
+   * Get a detection rule
+   */
+  async getDetectionRule(ruleId: string): Promise<DetectionRule> {
+    const rule = await getAlertStore().getRule(ruleId);
+    if (!rule) throw new NotFoundError('Detection rule');
+    return rule;
+  }
+
+  /**
+   * Update a detection rule
+   */
+  async updateDetectionRule(
+    ruleId: string,
+    updates: Partial<Omit<DetectionRule, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>>,
+  ): Promise<DetectionRule> {
+    const updated = await getAlertStore().updateRule(ruleId, { ...updates, updatedAt: new Date() });
+    if (!updated) throw new NotFoundError('Detection rule');
+
+    logger.info('Detection rule updated', { ruleId });
+    return updated;
+  }
+
+  /**
+   * Delete a detection rule; alerts it raised are kept
+   */
+  async deleteDetectionRule(ruleId: string): Promise<{ deleted: boolean; id: string }> {
+    if (!(await getAlertStore().deleteRule(ruleId))) throw new NotFoundError('Detection rule');
+    logger.info('Detection rule deleted', { ruleId });
+    return { deleted: true, id: ruleId };
+  }
+
+  /**
+   * Import Sigma YAML rules. Each rule is compiled into an expression; rules
+   * with unsupported constructs or errors are rejected and reported. A rule
+   * imported again (same Sigma id) updates the existing detection rule.
+   */
+  async importSigmaRules(
+    content: string,
+    options: { createdBy: string; enabled?: boolean; dryRun?: boolean },
+  ): Promise<SigmaImportResult> {
+    const documents = parseSigmaDocuments(content);
+    if (!documents.length) throw new ValidationError('No Sigma rules found');
+    const reports: SigmaImportReport[] = [];
+
+    for (const document of documents) {
+      const compiled = compileSigmaRule(document);
+      const report = {
+        title: compiled.title,
+        sigmaId: compiled.source.id,
+        unsupported: compiled.unsupported,
+        unmappedFields: compiled.unmappedFields,
+      };
+
+      if (!compiled.expression) {
+        reports.push({ ...report, status: 'rejected', error: compiled.error });
+        continue;
+      }
+
+      const definition = {
+        name: compiled.title,
+        description: compiled.description,
+        type: 'pattern_match' as const,
+        severity: compiled.severity,
+        conditions: [],
+        expression: compiled.expression,
+        sigma: compiled.source,
+        actions: [{ type: 'alert' as const, config: {} }],
+        tags: compiled.tags,
+      };
+      const existing = compiled.source.id
+        ? (await getAlertStore().findRules({ sigmaId: compiled.source.id }))[0]
+        : undefined;
+
+      const compiledReport = { ...report, expression: compiled.expression };
+      if (options.dryRun) {
+        reports.push({ ...compiledReport, status: 'compiled', ruleId: existing?.id });
+      } else if (existing) {
+        await this.updateDetectionRule(existing.id, definition);
+        reports.push({ ...compiledReport, status: 'updated', ruleId: existing.id });
+      } else {
+        const rule = await this.createDetectionRule({
+          ...definition,
+          enabled: options.enabled ?? true,
+          createdBy: options.createdBy,
+        });
+        reports.push({ ...compiledReport, status: 'created', ruleId: rule.id });
+      }
+    }
+
+    const count = (status: SigmaImportReport['status']) => (
+      reports.filter((report) => report.status === status).length
+    );
+    logger.info('Sigma rules imported', {
+      created: count('created'), updated: count('updated'), rejected: count('rejected'),
+    });
+    return {
+      created: count('created'),
+      updated: count('updated'),
+      compiled: count('compiled'),
+      rejected: count('rejected'),
+      rules: reports,
+    };
+  }
+
   /**
    * Evaluate event against detection rules
    */
@@ -470,7 +896,7 @@ class SiemService {
 
       if (await this.evaluateRule(event, rule)) {
         const alert = await this.createAlert(rule, [event]);
-        alerts.push(alert);
+        if (alert) alerts.push(alert);
       }
     }
 
@@ -481,11 +907,27 @@ class SiemService {
    * Evaluate single rule against event
    */
   private async evaluateRule(event: NormalizedEvent, rule: DetectionRule): Promise<boolean> {
+    const matches = this.matchesConditions(event, rule);
+
+    // For threshold rules, also count the matching events in the time window
+    if (matches && rule.type === 'threshold' && rule.threshold && rule.timeWindow) {
+      return correlationEngine.countInWindow(rule.id, event, rule.timeWindow) >= rule.threshold;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Evaluate a rule's conditions, combined left to right with their logical operators
+   */
+  private matchesConditions(event: NormalizedEvent, rule: DetectionRule): boolean {
+    if (rule.expression) return evaluateExpression(event, rule.expression);
+
     let matches = true;
 
     for (let i = 0; i < rule.conditions.length; i++) {
       const condition = rule.conditions[i];
-      const conditionMatch = this.evaluateCondition(event, condition);
+      const conditionMatch = evaluateCondition(event, condition);
 
       if (i === 0) {
         matches = conditionMatch;
@@ -501,92 +943,140 @@ class SiemService {
       }
     }
 
-    // For threshold rules, check event count
-    if (rule.type === 'threshold' && rule.threshold && rule.timeWindow) {
-      const recentEvents = await this.getRecentMatchingEvents(rule, rule.timeWindow);
-      return recentEvents.length >= rule.threshold;
-    }
-
     return matches;
   }
 
-  /**
-   * Evaluate single condition
-   */
-  private evaluateCondition(event: any, condition: any): boolean {
-    const fieldValue = this.getNestedField(event, condition.field);
-
-    if (fieldValue === undefined || fieldValue === null) {
-      return false;
-    }
-
-    switch (condition.operator) {
-      case 'equals':
-        return fieldValue === condition.value;
-      case 'contains':
-        return String(fieldValue).includes(String(condition.value));
-      case 'regex':
-        return new RegExp(condition.value).test(String(fieldValue));
-      case 'gt':
-        return fieldValue > condition.value;
-      case 'lt':
-        return fieldValue < condition.value;
-      case 'gte':
-        return fieldValue >= condition.value;
-      case 'lte':
-        return fieldValue <= condition.value;
-      case 'in':
-        return Array.isArray(condition.value) && condition.value.includes(fieldValue);
-      case 'not_in':
-        return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
-      default:
-        return false;
-    }
-  }
-
-  /**
-   * Get recent events matching rule
-   */
-  private async getRecentMatchingEvents(rule: DetectionRule, timeWindowSeconds: number): Promise<any[]> {
-    const since = new Date(Date.now() - timeWindowSeconds * 1000);
-
-    return SiemEvent.find({
-      timestamp: { $gte: since },
-      // Additional filtering based on rule conditions would go here
-    });
-  }
-
   // ========================================
   // 4. Alert Management and Tuning
   // ========================================
 
   /**
-   * Create an alert from rule match
+   * Create an alert from rule match; undefined when it is suppressed
    */
-  private async createAlert(rule: DetectionRule, events: NormalizedEvent[]): Promise<Alert> {
-    const alert: Alert = {
+  private async createAlert(
+    rule: DetectionRule,
+    events: NormalizedEvent[],
+  ): Promise<Alert | undefined> {
+    const now = new Date();
+    return this.raiseAlert({
       id: uuidv4(),
       ruleId: rule.id,
       ruleName: rule.name,
       severity: rule.severity,
-      status: 'open',
+      status: 'new',
       title: rule.name,
       description: rule.description,
       events: events.map((e) => e.id),
-      triggeredAt: new Date(),
+      triggeredAt: now,
+      groupKey: this.alertGroupKey(rule.id, events),
+      occurrences: 1,
+      lastSeenAt: now,
       tags: rule.tags,
       metadata: {
         ruleType: rule.type,
         eventCount: events.length,
       },
-    };
+    }, events);
+  }
+
+  /**
+   * Store a new alert unless a suppression rule covers its events. Duplicates
+   * of an unresolved alert seen within the group window are stored under it
+   * and counted as occurrences instead of being raised again.
+   */
+  private async raiseAlert(
+    alert: Alert,
+    events: readonly NormalizedEvent[],
+  ): Promise<Alert | undefined> {
+    const store = getAlertStore();
+    const suppression = await this.findSuppression(alert.ruleId, events, alert.triggeredAt);
+    if (suppression) {
+      await store.recordSuppressionHit(suppression.id, alert.triggeredAt);
+      logger.info('Alert suppressed', { ruleId: alert.ruleId, suppressionId: suppression.id });
+      return undefined;
+    }
+
+    const since = new Date(alert.triggeredAt.getTime() - this.alertConfig.groupWindow * 1000);
+    const parent = await store.findGroupParent(alert.groupKey, since);
+    if (parent) {
+      const duplicate: Alert = { ...alert, parentId: parent.id };
+      await store.insert(duplicate);
+      // Past the cap the parent keeps counting occurrences without their events
+      const room = Math.max(0, this.alertConfig.maxGroupedEvents - parent.events.length);
+      const updated = await store.addOccurrence(
+        parent.id,
+        alert.events.slice(0, room),
+        alert.triggeredAt,
+      );
+      logger.info('Alert grouped', {
+        alertId: alert.id, parentId: parent.id, occurrences: updated?.occurrences,
+      });
+      this.emit('alert:grouped', duplicate, updated);
+      return duplicate;
+    }
+
+    const offer = await this.findEscalationOffer(alert, events);
+    const raised: Alert = offer ? { ...alert, escalationOffer: offer } : alert;
+    await store.insert(raised);
+    logger.info('Alert created', { alertId: alert.id, ruleId: alert.ruleId });
+    this.emit('alert:raised', raised);
+    return raised;
+  }
+
+  /**
+   * Rule plus the configured entity field values of the first event
+   */
+  private alertGroupKey(ruleId: string, events: readonly NormalizedEvent[]): string {
+    const [event] = events;
+    const values = this.alertConfig.groupFields.map((field) => {
+      const value = event ? getEventField(event, field) : undefined;
+      return value === undefined || value === null ? '' : String(value);
+    });
+    return [ruleId, ...values].join('|');
+  }
 
-    logger.info('Alert created', { alertId: alert.id, ruleId: rule.id });
+  /**
+   * Active suppression of the rule whose field values all appear on one event
+   */
+  private async findSuppression(
+    ruleId: string,
+    events: readonly NormalizedEvent[],
+    at: Date,
+  ): Promise<AlertSuppression | undefined> {
+    const suppressions = await getAlertStore().findSuppressions({ ruleId, activeAt: at });
+    return suppressions.find((suppression) => events.some((event) => (
+      Object.entries(suppression.fields).every(([field, expected]) => {
+        const value = getEventField(event, field);
+        return value !== undefined && value !== null && String(value) === String(expected);
+      })
+    )));
+  }
+
+  /**
+   * Change grouping settings (window, entity fields, event cap)
+   */
+  configureAlerts(options: Partial<AlertConfig>): void {
+    this.alertConfig = { ...this.alertConfig, ...options };
+  }
+
+  /**
+   * List parent alerts newest first, or the duplicates of filters.parentId
+   */
+  async listAlerts(filters: AlertFilters = {}): Promise<{ total: number; alerts: Alert[] }> {
+    return getAlertStore().find(filters);
+  }
+
+  /**
+   * Get an alert
+   */
+  async getAlert(alertId: string): Promise<Alert> {
+    const alert = await getAlertStore().get(alertId);
+    if (!alert) throw new NotFoundError('Alert');
     return alert;
   }
 
   /**
-   * Update alert status
+   * Update alert status, following ALERT_TRANSITIONS
    */
   async updateAlertStatus(
     alertId: string,
@@ -596,21 +1086,30 @@ class SiemService {
     try {
       logger.info('Updating alert status', { alertId, status, userId });
 
-      // In a real implementation, fetch from database
-      const alert: any = { id: alertId };
+      const current = await this.getAlert(alertId);
+      if (!ALERT_TRANSITIONS[current.status].includes(status)) {
+        throw new ConflictError(`Cannot change alert status from ${current.status} to ${status}`);
+      }
 
+      const changes: Record<string, any> = { status };
       const now = new Date();
 
-      if (status === 'investigating') {
-        alert.acknowledgedAt = now;
-        alert.acknowledgedBy = userId;
-      } else if (status === 'resolved' || status === 'closed') {
-        alert.resolvedAt = now;
-        alert.resolvedBy = userId;
+      if (status === 'acknowledged') {
+        changes.acknowledgedAt = now;
+        changes.acknowledgedBy = userId;
+      } else if (status === 'resolved' || status === 'false_positive') {
+        changes.resolvedAt = now;
+        changes.resolvedBy = userId;
+      } else if (current.resolvedAt) {
+        // Reopened
+        changes.resolvedAt = undefined;
+        changes.resolvedBy = undefined;
       }
 
-      alert.status = status;
-
+      const alert = await getAlertStore().update(alertId, changes);
+      await this.audit(userId, 'siem.alert.status_changed', 'siem_alert', alertId, {
+        from: current.status, to: status,
+      });
       logger.info('Alert status updated', { alertId });
       return alert;
     } catch (error) {
@@ -619,6 +1118,398 @@ class SiemService {
     }
   }
 
+  /**
+   * Assign an alert to an analyst, or unassign it with a null assignee
+   */
+  async assignAlert(alertId: string, assignee: string | null, userId: string): Promise<Alert> {
+    const current = await this.getAlert(alertId);
+    const alert = await getAlertStore().update(alertId, assignee
+      ? { assignee, assignedAt: new Date() }
+      : { assignee: undefined, assignedAt: undefined });
+
+    await this.audit(userId, 'siem.alert.assigned', 'siem_alert', alertId, {
+      from: current.assignee || null, to: assignee,
+    });
+    logger.info('Alert assigned', { alertId, assignee });
+    return alert;
+  }
+
+  /**
+   * Suppress alerts of a detection or correlation rule, a scheduled saved
+   * search (rule ID is the search ID) or the IOC sweep (rule ID `ioc-sweep`)
+   * whose events carry the given field values, until expiresAt (indefinitely
+   * when omitted)
+   */
+  async createAlertSuppression(
+    input: Pick<AlertSuppression, 'ruleId' | 'fields' | 'reason' | 'expiresAt'>,
+    userId: string,
+  ): Promise<AlertSuppression> {
+    if (
+      input.ruleId !== IOC_SWEEP_RULE_ID
+      && !(await getAlertStore().getRule(input.ruleId))
+      && !correlationEngine.getRule(input.ruleId)
+      && !(await getSearchStore().get(input.ruleId))
+    ) {
+      throw new NotFoundError('Rule');
+    }
+
+    const suppression = await getAlertStore().insertSuppression({
+      ...input,
+      id: uuidv4(),
+      createdBy: userId,
+      createdAt: new Date(),
+      hits: 0,
+    });
+    await this.audit(
+      userId,
+      'siem.alert_suppression.created',
+      'siem_alert_suppression',
+      suppression.id,
+      {
+        ruleId: suppression.ruleId,
+        fields: suppression.fields,
+        reason: suppression.reason,
+        expiresAt: suppression.expiresAt,
+      },
+    );
+    logger.info('Alert suppression created', { suppressionId: suppression.id });
+    return suppression;
+  }
+
+  /**
+   * List suppression rules, newest first; `active` leaves out expired ones
+   */
+  async listAlertSuppressions(
+    filters: { ruleId?: string; active?: boolean } = {},
+  ): Promise<AlertSuppression[]> {
+    const query: AlertSuppressionFilters = {
+      ruleId: filters.ruleId,
+      activeAt: filters.active ? new Date() : undefined,
+    };
+    return getAlertStore().findSuppressions(query);
+  }
+
+  async deleteAlertSuppression(
+    suppressionId: string,
+    userId: string,
+  ): Promise<{ deleted: boolean; id: string }> {
+    const suppression = await getAlertStore().getSuppression(suppressionId);
+    if (!suppression) throw new NotFoundError('Alert suppression');
+
+    await getAlertStore().deleteSuppression(suppressionId);
+    await this.audit(
+      userId,
+      'siem.alert_suppression.deleted',
+      'siem_alert_suppression',
+      suppressionId,
+      { ruleId: suppression.ruleId, fields: suppression.fields, hits: suppression.hits },
+    );
+    logger.info('Alert suppression deleted', { suppressionId });
+    return { deleted: true, id: suppressionId };
+  }
+
+  /**
+   * Promote an alert to a new incident or case, or add it to the open one
+   * given by request.targetId. The alert's events are attached as evidence and
+   * their reconstructed timeline is added to the incident or case timeline;
+   * the alert and the incident or case link to each other.
+   */
+  async escalateAlert(
+    alertId: string,
+    request: AlertEscalationRequest,
+    userId: string,
+  ): Promise<Alert> {
+    // Claimed before the incident or case is created, so it is created once
+    const alert = await getAlertStore().claimEscalation(
+      alertId,
+      { claimedBy: userId, claimedAt: new Date() },
+      new Date(Date.now() - ESCALATION_CLAIM_TIMEOUT),
+    );
+    if (!alert) {
+      const { escalation } = await this.getAlert(alertId);
+      if (!escalation) throw new ConflictError('Alert is being escalated');
+      throw new ConflictError(
+        `Alert already escalated to ${escalation.target} ${escalation.reference || escalation.id}`,
+      );
+    }
+
+    let link: EscalationLink | undefined;
+    let correlationIds: readonly string[] = [];
+    try {
+      const timeline = await this.alertTimeline(alert);
+      correlationIds = this.alertCorrelationIds(alert, timeline?.events || []);
+      if (request.target === 'incident') {
+        link = await this.openIncident(alert, request, correlationIds, userId);
+        await this.attachToIncident(alert, link, timeline, userId);
+      } else {
+        link = await this.openCase(alert, request, correlationIds, userId);
+        await this.attachToCase(alert, link, timeline, userId);
+      }
+    } catch (error) {
+      if (link && !request.targetId) {
+        await this.discardEscalation(alert, link, correlationIds, userId);
+      }
+      await getAlertStore().update(alertId, { escalationClaim: undefined });
+      throw error;
+    }
+
+    const escalation: AlertEscalation = {
+      ...link,
+      correlationIds,
+      escalatedAt: new Date(),
+      escalatedBy: userId,
+    };
+    const updated = await getAlertStore().update(alertId, {
+      escalation, escalationOffer: undefined, escalationClaim: undefined,
+    });
+    await this.audit(userId, 'siem.alert.escalated', 'siem_alert', alertId, {
+      target: link.target, id: link.id, reference: link.reference, created: !request.targetId,
+    });
+    logger.info('Alert escalated', { alertId, target: link.target, id: link.id });
+    this.emit('alert:escalated', updated);
+    return updated;
+  }
+
+  /**
+   * Undo a failed escalation that created an incident or case, so a retry does
+   * not create another. The incident or case is deleted; when that fails too,
+   * the alert is linked to it instead.
+   */
+  private async discardEscalation(
+    alert: Alert,
+    link: EscalationLink,
+    correlationIds: readonly string[],
+    userId: string,
+  ): Promise<void> {
+    try {
+      await (link.target === 'incident'
+        ? incidentService.deleteIncident(link.id)
+        : caseManagementService.deleteCase(link.id));
+      logger.warn('Escalation failed, created target deleted', {
+        alertId: alert.id, target: link.target, id: link.id,
+      });
+    } catch (error) {
+      logger.error('Escalation failed, alert linked to the partly escalated target', {
+        alertId: alert.id, target: link.target, id: link.id, error: (error as Error).message,
+      });
+      await getAlertStore().update(alert.id, {
+        escalation: {
+          ...link, correlationIds, escalatedAt: new Date(), escalatedBy: userId,
+        },
+      });
+    }
+  }
+
+  /**
+   * Create the incident, or link the alert to the open one given by request.targetId
+   */
+  private async openIncident(
+    alert: Alert,
+    request: AlertEscalationRequest,
+    correlationIds: readonly string[],
+    userId: string,
+  ): Promise<EscalationLink> {
+    let incident: any;
+    if (request.targetId) {
+      incident = await incidentService.getIncident(request.targetId).catch(() => undefined);
+      if (!incident) throw new NotFoundError('Incident');
+      if (CLOSED_INCIDENT_STATUSES.includes(incident.status)) {
+        throw new ConflictError(`Incident ${incident.ticket_number} is ${incident.status}`);
+      }
+      await incidentService.updateIncident(incident.id, {
+        metadata: mergeSiemLink(incident.metadata, alert.id, correlationIds),
+      }, userId);
+    } else {
+      const severity = alert.severity === 'info' ? 'low' : alert.severity;
+      incident = await incidentService.createIncident({
+        title: request.title || alert.title,
+        description: request.description || alert.description
+          || `Escalated from SIEM alert ${alert.id}`,
+        severity,
+        priority: request.priority || severity,
+        category: request.category || 'other',
+        reported_by: userId,
+        assigned_to: alert.assignee,
+        tags: [...alert.tags],
+        metadata: mergeSiemLink({}, alert.id, correlationIds),
+      });
+    }
+    return { target: 'incident', id: incident.id, reference: incident.ticket_number };
+  }
+
+  private async attachToIncident(
+    alert: Alert,
+    link: EscalationLink,
+    timeline: EventTimeline | undefined,
+    userId: string,
+  ): Promise<void> {
+    if (timeline) {
+      await incidentService.addEvidence(link.id, {
+        type: 'log',
+        description: `${timeline.totalEvents} SIEM events of alert "${alert.title}"`,
+        collected_by: userId,
+        metadata: {
+          source: 'siem', alertId: alert.id, ruleId: alert.ruleId, events: timeline.events,
+        },
+      });
+    }
+    await incidentService.addTimelineEvents(link.id, [
+      ...(timeline?.events || []).map((event) => ({
+        event_type: 'siem_event',
+        timestamp: event.timestamp,
+        description: event.message || event.eventType,
+        metadata: timelineEntry(event),
+      })),
+      {
+        event_type: 'escalated',
+        timestamp: new Date(),
+        description: `SIEM alert escalated: ${alert.title}`,
+        user_id: userId,
+        metadata: { alertId: alert.id, ruleId: alert.ruleId },
+      },
+    ]);
+  }
+
+  /**
+   * Create the case, or link the alert to the open one given by request.targetId
+   */
+  private async openCase(
+    alert: Alert,
+    request: AlertEscalationRequest,
+    correlationIds: readonly string[],
+    userId: string,
+  ): Promise<EscalationLink> {
+    let caseData = request.targetId
+      ? await caseManagementService.getCase(request.targetId)
+      : undefined;
+    if (request.targetId) {
+      if (!caseData) throw new NotFoundError('Case');
+      if (CLOSED_CASE_STATUSES.includes(caseData.status)) {
+        throw new ConflictError(`Case ${caseData.id} is ${caseData.status}`);
+      }
+      await caseManagementService.updateCase(caseData.id, {
+        metadata: mergeSiemLink(caseData.metadata, alert.id, correlationIds),
+      }, userId);
+    } else {
+      const severity = alert.severity === 'info' ? 'low' : alert.severity;
+      caseData = await caseManagementService.createCase({
+        title: request.title || alert.title,
+        description: request.description || alert.description
+          || `Escalated from SIEM alert ${alert.id}`,
+        priority: (request.priority || severity) as CasePriority,
+        category: (request.category as CaseCategory) || CaseCategory.SECURITY_INCIDENT,
+        assignee_id: alert.assignee,
+        tags: [...alert.tags],
+        metadata: mergeSiemLink({}, alert.id, correlationIds),
+      }, userId);
+    }
+    return { target: 'case', id: caseData.id };
+  }
+
+  private async attachToCase(
+    alert: Alert,
+    link: EscalationLink,
+    timeline: EventTimeline | undefined,
+    userId: string,
+  ): Promise<void> {
+    if (!timeline) return;
+    await caseManagementService.addComment(link.id, {
+      content: `${timeline.totalEvents} SIEM events of alert "${alert.title}"`,
+      type: CommentType.SYSTEM,
+      metadata: {
+        source: 'siem', alertId: alert.id, ruleId: alert.ruleId, events: timeline.events,
+      },
+    }, userId);
+    await caseManagementService.addTimelineEvents(link.id, timeline.events.map((event) => ({
+      event_type: 'siem_event',
+      event_data: { ...timelineEntry(event), message: event.message },
+      timestamp: event.timestamp,
+    })), userId);
+  }
+
+  /**
+   * Timeline of the alert's events; undefined once they have all expired
+   */
+  private async alertTimeline(alert: Alert): Promise<EventTimeline | undefined> {
+    if (!alert.events.length) return undefined;
+    try {
+      return await this.reconstructTimeline([...alert.events]);
+    } catch (error) {
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Correlation ID of a correlation alert plus those carried by its events
+   */
+  private alertCorrelationIds(alert: Alert, events: readonly NormalizedEvent[]): string[] {
+    const ids = [alert.metadata.correlationId, ...events.map((event) => event.correlationId)];
+    return Array.from(new Set(ids.filter(Boolean)));
+  }
+
+  /**
+   * Open incident or case that an earlier alert sharing a correlation ID with
+   * this one was escalated to; a failed lookup never blocks the alert
+   */
+  private async findEscalationOffer(
+    alert: Alert,
+    events: readonly NormalizedEvent[],
+  ): Promise<AlertEscalationOffer | undefined> {
+    try {
+      const candidates = await Promise.all(
+        this.alertCorrelationIds(alert, events).map(async (correlationId) => {
+          const { alerts: [escalated] } = await getAlertStore().find({
+            escalationCorrelationId: correlationId, limit: 1,
+          });
+          return escalated && await this.isEscalationOpen(escalated.escalation)
+            ? { escalated, correlationId }
+            : undefined;
+        }),
+      );
+      const match = candidates.find(Boolean);
+      if (!match) return undefined;
+
+      const { target, id, reference } = match.escalated.escalation;
+      return {
+        target, id, reference, correlationId: match.correlationId, alertId: match.escalated.id,
+      };
+    } catch (error) {
+      logger.warn('Escalation offer lookup failed', { error, alertId: alert.id });
+      return undefined;
+    }
+  }
+
+  private async isEscalationOpen(escalation: AlertEscalation): Promise<boolean> {
+    if (escalation.target === 'incident') {
+      const incident = await incidentService.getIncident(escalation.id).catch(() => undefined);
+      return !!incident && !CLOSED_INCIDENT_STATUSES.includes(incident.status);
+    }
+    const caseData = await caseManagementService.getCase(escalation.id);
+    return !!caseData && !CLOSED_CASE_STATUSES.includes(caseData.status);
+  }
+
+  /**
+   * Record an alert or suppression change in the audit log; a failed write is
+   * logged and does not undo the change. The audit service is loaded on first
+   * use since its repositories need a database connection when imported.
+   */
+  private async audit(
+    userId: string,
+    action: string,
+    resource: string,
+    resourceId: string,
+    details: Record<string, any>,
+  ): Promise<void> {
+    try {
+      // eslint-disable-next-line global-require
+      const { auditLogService } = require('../../../services/AuditLogService');
+      await auditLogService.logAction(userId, action, resource, resourceId, details);
+    } catch (error) {
+      logger.warn('Audit log write failed', { error, action, resourceId });
+    }
+  }
+
   /**
    * Apply alert tuning rules
    */
@@ -685,20 +1576,11 @@ class SiemService {
     try {
       logger.info('Fetching dashboard data', { query });
 
-      const filter: any = {
-        timestamp: {
-          $gte: query.timeRange.start,
-          $lte: query.timeRange.end,
-        },
-      };
-
-      if (query.filters) {
-        Object.assign(filter, query.filters);
-      }
-
-      const events = await SiemEvent.find(filter)
-        .limit(query.limit || 1000)
-        .sort('-timestamp');
+      const events = await getEventStore().find({
+        timeRange: query.timeRange,
+        fields: query.filters,
+        limit: query.limit || 1000,
+      });
 
       let result: any = { events };
 
@@ -764,55 +1646,240 @@ class SiemService {
     try {
       logger.info('Performing forensic search', { query });
 
-      const filter: any = {
-        timestamp: {
-          $gte: query.timeRange.start,
-          $lte: query.timeRange.end,
+      const filters = query.filters || {};
+      const events = await getEventStore().find({
+        timeRange: query.timeRange,
+        fields: {
+          sourceIp: filters.sourceIp,
+          destIp: filters.destIp,
+          username: filters.username,
+          hostname: filters.hostname,
+          eventType: filters.eventType,
+          severity: filters.severity,
         },
-      };
+        text: query.query || undefined,
+        // Newest first unless a sort field is given, which defaults to ascending
+        sortBy: (query.sortBy || 'timestamp') as keyof NormalizedEvent,
+        sortOrder: query.sortBy ? query.sortOrder || 'asc' : 'desc',
+        limit: query.limit || 100,
+        offset: query.offset || 0,
+      });
 
-      if (query.filters) {
-        if (query.filters.sourceIp) filter.sourceIp = query.filters.sourceIp;
-        if (query.filters.destIp) filter.destIp = query.filters.destIp;
-        if (query.filters.username) filter.username = query.filters.username;
-        if (query.filters.hostname) filter.hostname = query.filters.hostname;
-        if (query.filters.eventType) filter.eventType = query.filters.eventType;
-        if (query.filters.severity) filter.severity = { $in: query.filters.severity };
-      }
+      logger.info('Forensic search complete', { results: events.length });
+      return events;
+    } catch (error) {
+      logger.error('Error performing forensic search', { error });
+      throw error;
+    }
+  }
 
-      if (query.query) {
-        filter.$text = { $search: query.query };
-      }
+  /**
+   * Search events with the query language (see search/queryParser), newest
+   * first unless a sort field is given
+   */
+  async searchEvents(request: EventSearchRequest): Promise<EventSearchResult> {
+    const filter = this.parseSearchQuery(request.query);
+    const query: EventQuery = { timeRange: request.timeRange, filter };
+    const [total, events] = await Promise.all([
+      getEventStore().count(query),
+      getEventStore().find({
+        ...query,
+        sortBy: (request.sortBy || 'timestamp') as keyof NormalizedEvent,
+        sortOrder: request.sortOrder || (request.sortBy ? 'asc' : 'desc'),
+        limit: request.limit || 100,
+        offset: request.offset || 0,
+      }),
+    ]);
+    return { total, events, filter };
+  }
 
-      const sort: any = {};
-      if (query.sortBy) {
-        sort[query.sortBy] = query.sortOrder === 'desc' ? -1 : 1;
-      } else {
-        sort.timestamp = -1;
-      }
+  /**
+   * Event fields for search autocompletion, most common first. Before any
+   * event is ingested the fields are learned from the newest stored events.
+   */
+  async suggestSearchFields(prefix?: string, limit?: number): Promise<FieldSuggestion[]> {
+    if (!fieldCatalog.size) {
+      const events = await getEventStore().find({
+        sortBy: 'timestamp', sortOrder: 'desc', limit: FIELD_SAMPLE_SIZE,
+      });
+      events.forEach((event) => fieldCatalog.observe(event));
+    }
+    return fieldCatalog.suggest(prefix, limit);
+  }
 
-      const events = await SiemEvent.find(filter)
-        .sort(sort)
-        .limit(query.limit || 100)
-        .skip(query.offset || 0);
+  /**
+   * Save a search for its owner, or for a team the owner belongs to
+   */
+  async createSavedSearch(input: SavedSearchInput, user: SearchUser): Promise<SavedSearch> {
+    this.checkSavedSearch(input, user);
+    const now = new Date();
+    const search = await getSearchStore().insert({
+      ...input,
+      id: uuidv4(),
+      team: input.visibility === 'team' ? input.team : undefined,
+      owner: user.id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await this.audit(user.id, 'siem.saved_search.created', 'siem_saved_search', search.id, {
+      name: search.name, query: search.query, visibility: search.visibility, team: search.team,
+    });
+    logger.info('Saved search created', { searchId: search.id });
+    return search;
+  }
 
-      logger.info('Forensic search complete', { results: events.length });
-      return events as any as NormalizedEvent[];
+  /**
+   * Saved searches the user owns or shares through a team
+   */
+  async listSavedSearches(user: SearchUser): Promise<SavedSearch[]> {
+    return getSearchStore().find({ visibleTo: user });
+  }
+
+  /**
+   * Get a saved search; searches the user cannot see are not found
+   */
+  async getSavedSearch(searchId: string, user: SearchUser): Promise<SavedSearch> {
+    const search = await getSearchStore().get(searchId);
+    if (!search || !isVisibleTo(search, user)) throw new NotFoundError('Saved search');
+    return search;
+  }
+
+  /**
+   * Change a saved search; only its owner can. A changed query or schedule
+   * starts the schedule afresh.
+   */
+  async updateSavedSearch(
+    searchId: string,
+    changes: Partial<SavedSearchInput>,
+    user: SearchUser,
+  ): Promise<SavedSearch> {
+    const current = await this.getSavedSearch(searchId, user);
+    if (current.owner !== user.id) {
+      throw new AuthorizationError('Only the owner can change a saved search');
+    }
+
+    const merged = { ...current, ...changes };
+    this.checkSavedSearch(merged, user);
+    const restart = changes.query !== undefined || 'schedule' in changes;
+    const search = await getSearchStore().update(searchId, {
+      ...changes,
+      ...('schedule' in changes ? { schedule: changes.schedule || undefined } : {}),
+      team: merged.visibility === 'team' ? merged.team : undefined,
+      ...(restart ? { lastRunAt: undefined, lastCount: undefined, thresholdMet: undefined } : {}),
+      updatedAt: new Date(),
+    });
+    await this.audit(user.id, 'siem.saved_search.updated', 'siem_saved_search', searchId, {
+      changes: Object.keys(changes),
+    });
+    logger.info('Saved search updated', { searchId });
+    return search;
+  }
+
+  /**
+   * Delete a saved search; only its owner can
+   */
+  async deleteSavedSearch(searchId: string, user: SearchUser): Promise<void> {
+    const search = await this.getSavedSearch(searchId, user);
+    if (search.owner !== user.id) {
+      throw new AuthorizationError('Only the owner can delete a saved search');
+    }
+    await getSearchStore().delete(searchId);
+    await this.audit(user.id, 'siem.saved_search.deleted', 'siem_saved_search', searchId, {
+      name: search.name,
+    });
+    logger.info('Saved search deleted', { searchId });
+  }
+
+  /**
+   * Run a saved search now
+   */
+  async runSavedSearch(
+    searchId: string,
+    user: SearchUser,
+    options: Omit<EventSearchRequest, 'query'> = {},
+  ): Promise<EventSearchResult> {
+    const search = await this.getSavedSearch(searchId, user);
+    return this.searchEvents({ ...options, query: search.query });
+  }
+
+  private parseSearchQuery(query: string, now?: Date): FilterGroup {
+    try {
+      return parseQuery(query, now);
     } catch (error) {
-      logger.error('Error performing forensic search', { error });
+      if (error instanceof SearchQueryError) {
+        throw new ValidationError(`Invalid search query: ${error.message}`);
+      }
       throw error;
     }
   }
 
+  /**
+   * Reject unparsable queries and teams the user is not a member of
+   */
+  private checkSavedSearch(search: SavedSearchInput, user: SearchUser): void {
+    this.parseSearchQuery(search.query);
+    if (search.visibility === 'team' && !user.teams.includes(search.team)) {
+      throw new ValidationError('Team searches must be shared with a team you belong to');
+    }
+  }
+
+  /**
+   * Raise an alert for a scheduled search whose count started meeting its
+   * threshold, carrying the newest matching events
+   */
+  private async raiseSearchAlert({
+    search, count, from, to,
+  }: SavedSearchThresholdMatch): Promise<Alert | undefined> {
+    const { comparison, threshold, severity } = search.schedule;
+    const events = await getEventStore().find({
+      timeRange: { start: from, end: to },
+      filter: this.parseSearchQuery(search.query, to),
+      sortBy: 'timestamp',
+      sortOrder: 'desc',
+      limit: this.searchConfig.alertEvents,
+    });
+
+    const now = new Date();
+    return this.raiseAlert({
+      id: uuidv4(),
+      ruleId: search.id,
+      ruleName: search.name,
+      severity,
+      status: 'new',
+      title: `Saved search: ${search.name}`,
+      description: `${count} events matched "${search.query}" between ${from.toISOString()}`
+        + ` and ${to.toISOString()} (threshold ${comparison} ${threshold})`,
+      events: events.map((event) => event.id),
+      triggeredAt: now,
+      groupKey: this.alertGroupKey(search.id, []),
+      occurrences: 1,
+      lastSeenAt: now,
+      tags: [],
+      metadata: {
+        ruleType: 'saved_search',
+        searchId: search.id,
+        query: search.query,
+        comparison,
+        threshold,
+        window: search.schedule.window,
+        eventCount: count,
+      },
+    }, events);
+  }
+
   /**
    * Reconstruct event timeline
    */
   async reconstructTimeline(eventIds: string[]): Promise<EventTimeline> {
     try {
-      const events = await SiemEvent.find({ id: { $in: eventIds } }).sort('timestamp');
+      const events = await getEventStore().find({
+        fields: { id: eventIds },
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+      });
 
       if (events.length === 0) {
-        throw new Error('No events found');
+        throw new NotFoundError('Events');
       }
 
       const uniqueHosts = new Set(events.map((e) => e.hostname).filter(Boolean));
@@ -829,7 +1896,7 @@ class SiemService {
       }
 
       return {
-        events: events as any as readonly NormalizedEvent[],
+        events,
         startTime: events[0].timestamp,
         endTime: events[events.length - 1].timestamp,
         totalEvents: events.length,
@@ -859,9 +1926,7 @@ class SiemService {
       logger.info('Generating compliance report', { framework, period });
 
       // Fetch relevant events for the period
-      const events = await SiemEvent.find({
-        timestamp: { $gte: period.start, $lte: period.end },
-      });
+      const events = await getEventStore().find({ timeRange: period });
 
       // Map events to compliance controls (this would be framework-specific)
       const controls = this.mapEventsToControls(events, framework);
@@ -922,9 +1987,7 @@ class SiemService {
    */
   async getLogStatistics(period: { start: Date; end: Date }): Promise<LogStatistics> {
     try {
-      const events = await SiemEvent.find({
-        timestamp: { $gte: period.start, $lte: period.end },
-      });
+      const events = await getEventStore().find({ timeRange: period });
 
       const bySourceType: Record<string, number> = {};
       const bySeverity: Record<string, number> = {};
@@ -974,17 +2037,6 @@ class SiemService {
     return ip.trim().toLowerCase();
   }
 
-  /**
-   * Calculate severity from syslog priority
-   */
-  private calculateSeverityFromPriority(priority: number): EventSeverity {
-    const severity = priority % 8;
-    if (severity <= 2) return 'critical';
-    if (severity <= 4) return 'high';
-    if (severity <= 5) return 'medium';
-    return 'info';
-  }
-
   /**
    * Map CEF severity to standard severity
    */
@@ -1007,13 +2059,6 @@ class SiemService {
     return 'info'; // Information
   }
 
-  /**
-   * Get nested field from object
-   */
-  private getNestedField(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
-  }
-
   // ========================================
   // Legacy CRUD Methods (kept for backward compatibility)
   // ========================================
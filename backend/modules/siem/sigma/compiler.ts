@@ -0,0 +1,351 @@
+/**
+ * Sigma Rule Compiler
+ * Compiles a parsed Sigma rule document into a RuleExpression over
+ * NormalizedEvent fields. Selections become AND (maps) / OR (lists) nodes,
+ * field modifiers become condition operators, and the logsource restricts the
+ * rule to the source types it maps to. Constructs without an equivalent are
+ * collected in `unsupported` and leave the rule without an expression.
+ */
+
+import { parseCondition, SigmaConditionError } from './condition';
+import type { ConditionNode } from './condition';
+import { loadSigmaMapping } from '../config/sigma';
+import type { SigmaMapping } from '../config/sigma';
+import type {
+  EventSeverity,
+  LogSourceType,
+  RuleCondition,
+  RuleExpression,
+  RuleOperator,
+  SigmaRuleSource,
+} from '../types';
+
+export interface SigmaCompilation {
+  readonly title: string;
+  readonly description: string;
+  readonly severity: EventSeverity;
+  readonly tags: string[];
+  readonly source: SigmaRuleSource;
+  readonly expression?: RuleExpression;
+  readonly unsupported: string[];
+  readonly unmappedFields: string[];
+  readonly error?: string;
+}
+
+const LEVELS: Record<string, EventSeverity> = {
+  informational: 'info',
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  critical: 'critical',
+};
+
+// Modifiers that pick the operator; the rest adjust how values are matched
+const OPERATOR_MODIFIERS: Record<string, RuleOperator> = {
+  contains: 'contains',
+  startswith: 'startswith',
+  endswith: 'endswith',
+  re: 'regex',
+  cidr: 'cidr',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  exists: 'exists',
+};
+const VALUE_MODIFIERS = ['all', 'i'];
+
+// Detection keys that are not selections
+const RESERVED_KEYS = ['condition', 'timeframe'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const isScalar = (value: unknown): boolean => (
+  value === null || ['string', 'number', 'boolean'].includes(typeof value)
+);
+
+const combine = (type: 'and' | 'or', children: RuleExpression[]): RuleExpression => (
+  children.length === 1 ? children[0] : { type, children }
+);
+
+const leaf = (condition: RuleCondition): RuleExpression => ({ type: 'condition', condition });
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Split a Sigma string on its unescaped `*` / `?` wildcards. Returns the
+ * literal text when there are none.
+ */
+const parseWildcards = (value: string): { literal: string; regex?: string } => {
+  let literal = '';
+  let regex = '';
+  let wildcard = false;
+
+  for (let i = 0; i < value.length; i += 1) {
+    const ch = value[i];
+    if (ch === '\\' && ['*', '?', '\\'].includes(value[i + 1])) {
+      literal += value[i + 1];
+      regex += escapeRegExp(value[i + 1]);
+      i += 1;
+    } else if (ch === '*' || ch === '?') {
+      wildcard = true;
+      regex += ch === '*' ? '.*' : '.';
+    } else {
+      literal += ch;
+      regex += escapeRegExp(ch);
+    }
+  }
+  return wildcard ? { literal, regex } : { literal };
+};
+
+/**
+ * Condition for one selection value; wildcard values become anchored regexes
+ */
+const compileValue = (
+  field: string,
+  operator: RuleOperator,
+  modifiers: string[],
+  value: unknown,
+): RuleExpression => {
+  if (operator === 'exists') return leaf({ field, operator, value: value !== false });
+  if (value === null) return leaf({ field, operator: 'exists', value: false });
+  if (operator === 'regex') {
+    return leaf({
+      field, operator, value: String(value), caseInsensitive: modifiers.includes('i'),
+    });
+  }
+  if (['gt', 'gte', 'lt', 'lte'].includes(operator)) {
+    return leaf({ field, operator, value: Number(value) });
+  }
+  if (operator === 'cidr') return leaf({ field, operator, value: String(value) });
+
+  const { literal, regex } = typeof value === 'string'
+    ? parseWildcards(value)
+    : { literal: value, regex: undefined };
+  if (regex === undefined) {
+    return leaf({
+      field, operator, value: literal, caseInsensitive: true,
+    });
+  }
+  const prefix = ['equals', 'startswith'].includes(operator) ? '^' : '';
+  const suffix = ['equals', 'endswith'].includes(operator) ? '$' : '';
+  return leaf({
+    field, operator: 'regex', value: `${prefix}${regex}${suffix}`, caseInsensitive: true,
+  });
+};
+
+class SigmaCompiler {
+  private readonly unsupported: string[] = [];
+
+  private readonly unmappedFields = new Set<string>();
+
+  private readonly fields: Map<string, string>;
+
+  private readonly mapping: SigmaMapping;
+
+  constructor(mapping: SigmaMapping) {
+    this.mapping = mapping;
+    this.fields = new Map(
+      Object.entries(mapping.fields).map(([name, path]) => [name.toLowerCase(), path]),
+    );
+  }
+
+  compile(document: unknown): SigmaCompilation {
+    const rule = isPlainObject(document) ? document : {};
+    const title = typeof rule.title === 'string' ? rule.title : 'Untitled Sigma rule';
+    const logsource: Record<string, string> = {};
+    if (isPlainObject(rule.logsource)) {
+      Object.entries(rule.logsource).forEach(([key, value]) => {
+        logsource[key] = String(value);
+      });
+    }
+    const base = {
+      title,
+      description: typeof rule.description === 'string' ? rule.description : '',
+      severity: LEVELS[String(rule.level).toLowerCase()] || 'medium',
+      tags: ['sigma', ...(Array.isArray(rule.tags) ? rule.tags.map(String) : [])],
+      source: {
+        ...(rule.id ? { id: String(rule.id) } : {}),
+        title,
+        ...(rule.status ? { status: String(rule.status) } : {}),
+        logsource,
+      },
+    };
+    const result = (expression?: RuleExpression, error?: string): SigmaCompilation => ({
+      ...base,
+      ...(expression && !this.unsupported.length ? { expression } : {}),
+      unsupported: this.unsupported,
+      unmappedFields: Array.from(this.unmappedFields),
+      ...(error ? { error } : {}),
+    });
+
+    if (!isPlainObject(document)) return result(undefined, 'Rule is not a YAML mapping');
+    if (typeof rule.title !== 'string') return result(undefined, 'Rule has no title');
+    const { detection } = rule;
+    if (!isPlainObject(detection)) return result(undefined, 'Rule has no detection');
+    if (detection.condition === undefined) return result(undefined, 'Detection has no condition');
+    if (detection.timeframe !== undefined) this.unsupported.push('timeframe');
+
+    const selections = new Map<string, RuleExpression | null>();
+    Object.entries(detection)
+      .filter(([name]) => !RESERVED_KEYS.includes(name))
+      .forEach(([name, value]) => selections.set(name, this.compileSelection(name, value)));
+
+    let expression: RuleExpression;
+    try {
+      const conditions = Array.isArray(detection.condition)
+        ? detection.condition
+        : [detection.condition];
+      expression = combine('or', conditions.map((condition) => (
+        this.compileCondition(parseCondition(String(condition)), selections)
+      )));
+    } catch (error) {
+      if (error instanceof SigmaConditionError && error.unsupported) {
+        this.unsupported.push(`condition: ${error.message}`);
+        return result();
+      }
+      return result(undefined, error instanceof Error ? error.message : String(error));
+    }
+
+    const sourceTypes = this.sourceTypes(logsource);
+    if (sourceTypes) {
+      expression = combine('and', [
+        leaf({ field: 'sourceType', operator: 'in', value: sourceTypes }),
+        expression,
+      ]);
+    }
+    return result(expression);
+  }
+
+  private compileCondition(
+    node: ConditionNode,
+    selections: Map<string, RuleExpression | null>,
+  ): RuleExpression {
+    const resolve = (name: string): RuleExpression => {
+      if (!selections.has(name)) throw new Error(`Unknown selection '${name}' in condition`);
+      // Unsupported selections are reported already; keep the tree shape
+      return selections.get(name) || { type: 'and', children: [] };
+    };
+
+    switch (node.type) {
+      case 'and':
+      case 'or':
+        return combine(node.type, node.children.map((child) => (
+          this.compileCondition(child, selections)
+        )));
+      case 'not':
+        return { type: 'not', child: this.compileCondition(node.child, selections) };
+      case 'selection':
+        return resolve(node.name);
+      case 'quantified': {
+        const names = Array.from(selections.keys()).filter((name) => (
+          node.target === 'them'
+            ? !name.startsWith('_')
+            : new RegExp(`^${parseWildcards(node.target).regex || escapeRegExp(node.target)}$`)
+              .test(name)
+        ));
+        if (!names.length) throw new Error(`No selection matches '${node.target}' in condition`);
+        return combine(node.quantifier === 'all' ? 'and' : 'or', names.map(resolve));
+      }
+      default:
+        throw new Error('Unknown condition node');
+    }
+  }
+
+  private compileSelection(name: string, value: unknown): RuleExpression | null {
+    if (isPlainObject(value)) return this.compileMap(name, value);
+    if (Array.isArray(value) && value.length && value.every(isPlainObject)) {
+      const maps = value.map((item) => this.compileMap(name, item as Record<string, unknown>));
+      return maps.includes(null) ? null : combine('or', maps as RuleExpression[]);
+    }
+    if (Array.isArray(value) && value.length && value.every(isScalar)) {
+      return this.compileValues(name, this.mapping.keywordFields, [], value, 'contains');
+    }
+    if (isScalar(value) && value !== null) {
+      return this.compileValues(name, this.mapping.keywordFields, [], [value], 'contains');
+    }
+    this.unsupported.push(`${name}: selection must be a map, a list of maps or a list of values`);
+    return null;
+  }
+
+  private compileMap(name: string, selection: Record<string, unknown>): RuleExpression | null {
+    const children = Object.entries(selection).map(([key, value]) => {
+      const [field, ...modifiers] = key.split('|');
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.every(isScalar)) {
+        this.unsupported.push(`${name}.${key}: nested values`);
+        return null;
+      }
+      const label = `${name}.${key}`;
+      return field
+        ? this.compileValues(label, [this.mapField(field)], modifiers, values)
+        : this.compileValues(label, this.mapping.keywordFields, modifiers, values, 'contains');
+    });
+    return children.includes(null) ? null : combine('and', children as RuleExpression[]);
+  }
+
+  /**
+   * Values of one field, or keywords searched in the keyword fields; keywords
+   * match anywhere in a field unless a modifier says otherwise
+   */
+  private compileValues(
+    label: string,
+    paths: readonly string[],
+    modifiers: string[],
+    values: unknown[],
+    defaultOperator: RuleOperator = 'equals',
+  ): RuleExpression | null {
+    const unknown = modifiers.filter((modifier) => (
+      !OPERATOR_MODIFIERS[modifier] && !VALUE_MODIFIERS.includes(modifier)
+    ));
+    const operators = modifiers.filter((modifier) => OPERATOR_MODIFIERS[modifier]);
+    if (unknown.length) {
+      this.unsupported.push(`${label}: modifier ${unknown.map((m) => `'${m}'`).join(', ')}`);
+      return null;
+    }
+    if (operators.length > 1) {
+      this.unsupported.push(`${label}: combined modifiers ${operators.join('|')}`);
+      return null;
+    }
+    if (!values.length) {
+      this.unsupported.push(`${label}: empty value list`);
+      return null;
+    }
+
+    const operator = operators.length ? OPERATOR_MODIFIERS[operators[0]] : defaultOperator;
+    const leaves = values.map((value) => combine('or', paths.map((field) => (
+      compileValue(field, operator, modifiers, value)
+    ))));
+    return combine(modifiers.includes('all') ? 'and' : 'or', leaves);
+  }
+
+  private mapField(field: string): string {
+    const path = this.fields.get(field.toLowerCase());
+    if (path) return path;
+    this.unmappedFields.add(field);
+    return `metadata.${field}`;
+  }
+
+  private sourceTypes(logsource: Record<string, string>): LogSourceType[] | undefined {
+    const { product, category, service } = this.mapping.logsources;
+    const lookup = (table: Readonly<Record<string, readonly LogSourceType[]>>, key?: string) => (
+      key ? table[key.toLowerCase()] : undefined
+    );
+    const types = lookup(service, logsource.service)
+      || lookup(category, logsource.category)
+      || lookup(product, logsource.product);
+    return types ? [...types] : undefined;
+  }
+}
+
+/**
+ * Compile one Sigma rule document (already parsed from YAML)
+ */
+export const compileSigmaRule = (
+  document: unknown,
+  mapping: SigmaMapping = loadSigmaMapping(),
+): SigmaCompilation => new SigmaCompiler(mapping).compile(document);
+
+export default compileSigmaRule;
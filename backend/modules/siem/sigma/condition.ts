@@ -0,0 +1,178 @@
+/**
+ * Sigma Condition Parser
+ * Parses a detection `condition` ("selection and not 1 of filter_*") into a
+ * tree. Precedence is not > and > or. Aggregations (`| count() by ...`) and
+ * `near` are reported as unsupported.
+ */
+
+export type ConditionNode =
+  | { readonly type: 'and' | 'or'; readonly children: readonly ConditionNode[] }
+  | { readonly type: 'not'; readonly child: ConditionNode }
+  | { readonly type: 'selection'; readonly name: string }
+  | { readonly type: 'quantified'; readonly quantifier: 'one' | 'all'; readonly target: string };
+
+/**
+ * Error raised for a condition that cannot be parsed; `unsupported` marks valid
+ * Sigma that this compiler does not handle
+ */
+export class SigmaConditionError extends Error {
+  position: number;
+
+  unsupported: boolean;
+
+  constructor(message: string, position: number, unsupported: boolean = false) {
+    super(`${message} at position ${position}`);
+    this.name = 'SigmaConditionError';
+    this.position = position;
+    this.unsupported = unsupported;
+  }
+}
+
+interface Token {
+  readonly type: 'lparen' | 'rparen' | 'pipe' | 'word' | 'eof';
+  readonly value: string;
+  readonly position: number;
+}
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\()|(\))|(\|)|([\w*.-]+)|(\S))/g;
+  let match = pattern.exec(input);
+
+  while (match && match[0].trim()) {
+    const position = match.index + match[0].length - match[0].trimStart().length;
+    if (match[1]) tokens.push({ type: 'lparen', value: '(', position });
+    else if (match[2]) tokens.push({ type: 'rparen', value: ')', position });
+    else if (match[3]) {
+      // The rest is an aggregation, reported by the parser
+      tokens.push({ type: 'pipe', value: '|', position });
+      break;
+    } else if (match[4]) tokens.push({ type: 'word', value: match[4], position });
+    else throw new SigmaConditionError(`Unexpected character '${match[5]}'`, position);
+    match = pattern.exec(input);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+};
+
+class ConditionParser {
+  private tokens: Token[];
+
+  private index = 0;
+
+  constructor(input: string) {
+    this.tokens = tokenize(input);
+  }
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type === 'pipe') {
+      throw new SigmaConditionError(
+        'Aggregation expressions are not supported',
+        token.position,
+        true,
+      );
+    }
+    if (token.type !== 'eof') {
+      throw new SigmaConditionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index += 1;
+    return token;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private parseOr(): ConditionNode {
+    const children = [this.parseAnd()];
+    while (this.isKeyword('or')) {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): ConditionNode {
+    const children = [this.parseNot()];
+    while (this.isKeyword('and')) {
+      this.next();
+      children.push(this.parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword('not')) {
+      this.next();
+      return { type: 'not', child: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    if (token.type === 'lparen') {
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== 'rparen') {
+        throw new SigmaConditionError('Expected \')\'', closing.position);
+      }
+      return node;
+    }
+    if (token.type !== 'word') {
+      throw new SigmaConditionError(
+        token.type === 'eof' ? 'Unexpected end of condition' : `Unexpected '${token.value}'`,
+        token.position,
+      );
+    }
+
+    const word = token.value.toLowerCase();
+    if (this.isKeyword('of')) {
+      if (word !== '1' && word !== 'all') {
+        throw new SigmaConditionError(
+          `Quantifier '${token.value} of' is not supported`,
+          token.position,
+          true,
+        );
+      }
+      this.next();
+      const target = this.next();
+      if (target.type !== 'word') {
+        throw new SigmaConditionError('Expected a selection name or \'them\'', target.position);
+      }
+      return {
+        type: 'quantified',
+        quantifier: word === 'all' ? 'all' : 'one',
+        target: target.value.toLowerCase() === 'them' ? 'them' : target.value,
+      };
+    }
+    if (word === 'near') {
+      throw new SigmaConditionError('\'near\' is not supported', token.position, true);
+    }
+    if (['and', 'or', 'not', 'of'].includes(word)) {
+      throw new SigmaConditionError(`Unexpected '${token.value}'`, token.position);
+    }
+    return { type: 'selection', name: token.value };
+  }
+}
+
+/**
+ * Parse a Sigma condition expression
+ */
+export const parseCondition = (input: string): ConditionNode => new ConditionParser(input).parse();
+
+export default parseCondition;
@@ -0,0 +1,27 @@
+/**
+ * Sigma Rule Support
+ * Reads Sigma YAML (one or more `---` separated rules) and compiles each rule
+ * into a detection rule expression.
+ */
+
+import yaml from 'js-yaml';
+import { ValidationError } from '../../../middleware/errors';
+
+/**
+ * Parse the YAML documents in a Sigma rule file; empty documents are skipped
+ */
+export const parseSigmaDocuments = (content: string): unknown[] => {
+  try {
+    return yaml.loadAll(content).filter((document) => (
+      document !== null && document !== undefined
+    ));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ValidationError(`Invalid Sigma YAML: ${message}`);
+  }
+};
+
+export { compileSigmaRule } from './compiler';
+export type { SigmaCompilation } from './compiler';
+export { parseCondition, SigmaConditionError } from './condition';
+export type { ConditionNode } from './condition';
@@ -0,0 +1,50 @@
+/**
+ * SIEM Event, Alert and Saved Search Storage
+ * The service reads and writes events through getEventStore(), alerts
+ * through getAlertStore() and saved searches through getSearchStore().
+ * MongoDB is used unless SIEM_EVENT_STORE=memory; tests can install stores
+ * with setEventStore(), setAlertStore() and setSearchStore().
+ */
+
+import MongoEventStore from './mongoEventStore';
+import MemoryEventStore from './memoryEventStore';
+import MongoAlertStore from './mongoAlertStore';
+import MemoryAlertStore from './memoryAlertStore';
+import MongoSearchStore from './mongoSearchStore';
+import MemorySearchStore from './memorySearchStore';
+import type { AlertStore, EventStore, SearchStore } from '../types';
+
+const inMemory = process.env.SIEM_EVENT_STORE === 'memory';
+
+let store: EventStore = inMemory ? new MemoryEventStore() : new MongoEventStore();
+
+let alertStore: AlertStore = inMemory ? new MemoryAlertStore() : new MongoAlertStore();
+
+let searchStore: SearchStore = inMemory ? new MemorySearchStore() : new MongoSearchStore();
+
+export const getEventStore = (): EventStore => store;
+
+export const setEventStore = (next: EventStore): void => {
+  store = next;
+};
+
+export const getAlertStore = (): AlertStore => alertStore;
+
+export const setAlertStore = (next: AlertStore): void => {
+  alertStore = next;
+};
+
+export const getSearchStore = (): SearchStore => searchStore;
+
+export const setSearchStore = (next: SearchStore): void => {
+  searchStore = next;
+};
+
+export {
+  MongoEventStore,
+  MemoryEventStore,
+  MongoAlertStore,
+  MemoryAlertStore,
+  MongoSearchStore,
+  MemorySearchStore,
+};
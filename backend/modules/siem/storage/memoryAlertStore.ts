@@ -0,0 +1,187 @@
+/**
+ * In-Memory Alert Store
+ * Same semantics as the MongoDB store, for tests and local development
+ */
+
+import type {
+  Alert,
+  AlertEscalationClaim,
+  AlertFilters,
+  AlertStore,
+  AlertSuppression,
+  AlertSuppressionFilters,
+  DetectionRule,
+  DetectionRuleFilters,
+} from '../types';
+
+// Parents accept duplicates until they are resolved
+const GROUPABLE_STATUSES = ['new', 'acknowledged', 'investigating'];
+
+class MemoryAlertStore implements AlertStore {
+  private alerts = new Map<string, Alert>();
+
+  private suppressions = new Map<string, AlertSuppression>();
+
+  private rules = new Map<string, DetectionRule>();
+
+  async insert(alert: Alert): Promise<Alert> {
+    this.alerts.set(alert.id, { ...alert });
+    return alert;
+  }
+
+  async get(id: string): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    return alert && { ...alert };
+  }
+
+  async update(id: string, changes: Partial<Alert>): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert) return undefined;
+
+    const updated = { ...alert, ...changes };
+    Object.keys(changes)
+      .filter((field) => changes[field] === undefined)
+      .forEach((field) => delete updated[field]);
+    this.alerts.set(id, updated);
+    return { ...updated };
+  }
+
+  async find(filters: AlertFilters): Promise<{ total: number; alerts: Alert[] }> {
+    const matching = Array.from(this.alerts.values())
+      .filter((alert) => (
+        alert.parentId === filters.parentId
+        && (!filters.status?.length || filters.status.includes(alert.status))
+        && (!filters.severity?.length || filters.severity.includes(alert.severity))
+        && (!filters.ruleId || alert.ruleId === filters.ruleId)
+        && (!filters.assignee || alert.assignee === filters.assignee)
+        && (!filters.escalationCorrelationId
+          || !!alert.escalation?.correlationIds.includes(filters.escalationCorrelationId))
+      ))
+      .sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime());
+
+    const offset = filters.offset || 0;
+    return {
+      total: matching.length,
+      alerts: matching.slice(offset, offset + (filters.limit || 50)).map((alert) => ({ ...alert })),
+    };
+  }
+
+  async findGroupParent(groupKey: string, since: Date): Promise<Alert | undefined> {
+    const parent = Array.from(this.alerts.values())
+      .filter((alert) => (
+        alert.groupKey === groupKey
+        && !alert.parentId
+        && GROUPABLE_STATUSES.includes(alert.status)
+        && alert.lastSeenAt >= since
+      ))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())[0];
+    return parent && { ...parent };
+  }
+
+  async addOccurrence(
+    parentId: string,
+    eventIds: readonly string[],
+    at: Date,
+  ): Promise<Alert | undefined> {
+    const parent = this.alerts.get(parentId);
+    if (!parent) return undefined;
+
+    return this.update(parentId, {
+      occurrences: parent.occurrences + 1,
+      lastSeenAt: at > parent.lastSeenAt ? at : parent.lastSeenAt,
+      events: Array.from(new Set([...parent.events, ...eventIds])),
+    });
+  }
+
+  async claimEscalation(
+    id: string,
+    claim: AlertEscalationClaim,
+    staleBefore: Date,
+  ): Promise<Alert | undefined> {
+    const alert = this.alerts.get(id);
+    if (!alert || alert.escalation
+      || (alert.escalationClaim && alert.escalationClaim.claimedAt >= staleBefore)) {
+      return undefined;
+    }
+    return this.update(id, { escalationClaim: claim });
+  }
+
+  async insertSuppression(suppression: AlertSuppression): Promise<AlertSuppression> {
+    this.suppressions.set(suppression.id, { ...suppression });
+    return suppression;
+  }
+
+  async getSuppression(id: string): Promise<AlertSuppression | undefined> {
+    const suppression = this.suppressions.get(id);
+    return suppression && { ...suppression };
+  }
+
+  async findSuppressions(filters: AlertSuppressionFilters): Promise<AlertSuppression[]> {
+    return Array.from(this.suppressions.values())
+      .filter((suppression) => (
+        (!filters.ruleId || suppression.ruleId === filters.ruleId)
+        && (!filters.activeAt || !suppression.expiresAt || suppression.expiresAt > filters.activeAt)
+      ))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map((suppression) => ({ ...suppression }));
+  }
+
+  async deleteSuppression(id: string): Promise<boolean> {
+    return this.suppressions.delete(id);
+  }
+
+  async recordSuppressionHit(id: string, at: Date): Promise<void> {
+    const suppression = this.suppressions.get(id);
+    if (suppression) {
+      this.suppressions.set(id, { ...suppression, hits: suppression.hits + 1, lastHitAt: at });
+    }
+  }
+
+  async insertRule(rule: DetectionRule): Promise<DetectionRule> {
+    this.rules.set(rule.id, { ...rule });
+    return rule;
+  }
+
+  async getRule(id: string): Promise<DetectionRule | undefined> {
+    const rule = this.rules.get(id);
+    return rule && { ...rule };
+  }
+
+  async updateRule(
+    id: string,
+    changes: Partial<DetectionRule>,
+  ): Promise<DetectionRule | undefined> {
+    const rule = this.rules.get(id);
+    if (!rule) return undefined;
+
+    const updated = { ...rule, ...changes };
+    this.rules.set(id, updated);
+    return { ...updated };
+  }
+
+  async findRules(filters: DetectionRuleFilters): Promise<DetectionRule[]> {
+    return Array.from(this.rules.values())
+      .filter((rule) => (
+        (filters.enabled === undefined || rule.enabled === filters.enabled)
+        && (!filters.type || rule.type === filters.type)
+        && (!filters.severity || rule.severity === filters.severity)
+        && (!filters.sigmaId || rule.sigma?.id === filters.sigmaId)
+      ))
+      .map((rule) => ({ ...rule }));
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    return this.rules.delete(id);
+  }
+
+  /**
+   * Remove every alert, suppression rule and detection rule
+   */
+  clear(): void {
+    this.alerts.clear();
+    this.suppressions.clear();
+    this.rules.clear();
+  }
+}
+
+export default MemoryAlertStore;
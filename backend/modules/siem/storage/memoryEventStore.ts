@@ -0,0 +1,79 @@
+/**
+ * In-Memory Event Store
+ * Same query semantics as the MongoDB store, for tests and local development
+ */
+
+import { booleanLogicEngine } from '../../../utils/filtering';
+import type { EventQuery, EventStore, NormalizedEvent } from '../types';
+
+// Fields covered by the MongoDB text index
+const TEXT_FIELDS = ['message', 'rawLog', 'commandLine', 'url', 'domain'];
+
+const comparable = (value: any) => (value instanceof Date ? value.getTime() : value);
+
+class MemoryEventStore implements EventStore {
+  private events: NormalizedEvent[] = [];
+
+  async insert(event: NormalizedEvent): Promise<NormalizedEvent> {
+    this.events.push({ ...event });
+    return event;
+  }
+
+  async find(query: EventQuery): Promise<NormalizedEvent[]> {
+    const field = query.sortBy || 'timestamp';
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const offset = query.offset || 0;
+
+    return this.events
+      .filter((event) => this.matches(event, query))
+      .sort((a, b) => {
+        const left = comparable(a[field]);
+        const right = comparable(b[field]);
+        if (left === right) return 0;
+        return (left > right ? 1 : -1) * direction;
+      })
+      .slice(offset, query.limit ? offset + query.limit : undefined)
+      .map((event) => ({ ...event }));
+  }
+
+  async count(query: EventQuery): Promise<number> {
+    return this.events.filter((event) => this.matches(event, query)).length;
+  }
+
+  async setCorrelationId(eventIds: readonly string[], correlationId: string): Promise<void> {
+    this.events = this.events.map((event) => (
+      eventIds.includes(event.id) ? { ...event, correlationId } : event
+    ));
+  }
+
+  /**
+   * Remove every event
+   */
+  clear(): void {
+    this.events = [];
+  }
+
+  private matches(event: NormalizedEvent, query: EventQuery): boolean {
+    const time = new Date(event.timestamp).getTime();
+    if (query.timeRange?.start && time < query.timeRange.start.getTime()) return false;
+    if (query.timeRange?.end && time > query.timeRange.end.getTime()) return false;
+
+    for (const [field, expected] of Object.entries(query.fields || {})) {
+      if (expected === undefined) continue;
+      const values = Array.isArray(expected) ? expected : [expected];
+      if (!values.includes(event[field])) return false;
+    }
+
+    if (query.text) {
+      const haystack = TEXT_FIELDS.map((field) => event[field] || '').join(' ').toLowerCase();
+      const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+      if (!words.some((word) => haystack.includes(word))) return false;
+    }
+
+    if (query.filter && !booleanLogicEngine.evaluate(query.filter, event)) return false;
+
+    return true;
+  }
+}
+
+export default MemoryEventStore;
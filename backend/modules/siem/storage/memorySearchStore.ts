@@ -0,0 +1,61 @@
+/**
+ * In-Memory Search Store
+ * Same semantics as the MongoDB store, for tests and local development
+ */
+
+import type {
+  SavedSearch,
+  SavedSearchFilters,
+  SearchStore,
+} from '../types';
+
+class MemorySearchStore implements SearchStore {
+  private searches = new Map<string, SavedSearch>();
+
+  async insert(search: SavedSearch): Promise<SavedSearch> {
+    this.searches.set(search.id, { ...search });
+    return search;
+  }
+
+  async get(id: string): Promise<SavedSearch | undefined> {
+    const search = this.searches.get(id);
+    return search && { ...search };
+  }
+
+  async update(id: string, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    const search = this.searches.get(id);
+    if (!search) return undefined;
+
+    const updated = { ...search, ...changes };
+    Object.keys(changes)
+      .filter((field) => changes[field] === undefined)
+      .forEach((field) => delete updated[field]);
+    this.searches.set(id, updated);
+    return { ...updated };
+  }
+
+  async find(filters: SavedSearchFilters): Promise<SavedSearch[]> {
+    const user = filters.visibleTo;
+    return Array.from(this.searches.values())
+      .filter((search) => (
+        (!user || search.owner === user.id
+          || (search.visibility === 'team' && user.teams.includes(search.team)))
+        && (!filters.scheduled || !!search.schedule?.enabled)
+      ))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((search) => ({ ...search }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.searches.delete(id);
+  }
+
+  /**
+   * Remove every saved search
+   */
+  clear(): void {
+    this.searches.clear();
+  }
+}
+
+export default MemorySearchStore;
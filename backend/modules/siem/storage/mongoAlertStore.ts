@@ -0,0 +1,199 @@
+/**
+ * MongoDB Alert Store
+ * Stores alerts in the SiemAlert collection, suppression rules in
+ * SiemAlertSuppression and detection rules in SiemDetectionRule
+ */
+
+import SiemAlert from '../models/SiemAlert';
+import SiemAlertSuppression from '../models/SiemAlertSuppression';
+import SiemDetectionRule from '../models/SiemDetectionRule';
+import type {
+  Alert,
+  AlertEscalationClaim,
+  AlertFilters,
+  AlertStore,
+  AlertSuppression,
+  AlertSuppressionFilters,
+  DetectionRule,
+  DetectionRuleFilters,
+} from '../types';
+
+// Storage-only fields left out of query results
+const HIDDEN_FIELDS = '-_id -__v -created_at -updated_at';
+
+// Parents accept duplicates until they are resolved
+const GROUPABLE_STATUSES = ['new', 'acknowledged', 'investigating'];
+
+/**
+ * Translate alert listing filters into a MongoDB filter
+ */
+export const toAlertFilter = (filters: AlertFilters): Record<string, any> => {
+  const filter: Record<string, any> = {
+    parentId: filters.parentId || { $exists: false },
+  };
+  if (filters.status?.length) filter.status = { $in: filters.status };
+  if (filters.severity?.length) filter.severity = { $in: filters.severity };
+  if (filters.ruleId) filter.ruleId = filters.ruleId;
+  if (filters.assignee) filter.assignee = filters.assignee;
+  if (filters.escalationCorrelationId) {
+    filter['escalation.correlationIds'] = filters.escalationCorrelationId;
+  }
+  return filter;
+};
+
+class MongoAlertStore implements AlertStore {
+  async insert(alert: Alert): Promise<Alert> {
+    await new SiemAlert(alert).save();
+    return alert;
+  }
+
+  async get(id: string): Promise<Alert | undefined> {
+    const alert = await SiemAlert.findOne({ id }).select(HIDDEN_FIELDS).lean();
+    return (alert as unknown as Alert) || undefined;
+  }
+
+  async update(id: string, changes: Partial<Alert>): Promise<Alert | undefined> {
+    // Fields set to undefined are removed, e.g. the resolution of a reopened alert
+    const entries = Object.entries(changes);
+    const set = Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+    const unset = Object.fromEntries(entries
+      .filter(([, value]) => value === undefined)
+      .map(([field]) => [field, 1]));
+    const alert = await SiemAlert.findOneAndUpdate(
+      { id },
+      { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true },
+    ).select(HIDDEN_FIELDS).lean();
+    return (alert as unknown as Alert) || undefined;
+  }
+
+  async find(filters: AlertFilters): Promise<{ total: number; alerts: Alert[] }> {
+    const filter = toAlertFilter(filters);
+    const [total, alerts] = await Promise.all([
+      SiemAlert.countDocuments(filter),
+      SiemAlert.find(filter)
+        .select(HIDDEN_FIELDS)
+        .sort({ triggeredAt: -1 })
+        .skip(filters.offset || 0)
+        .limit(filters.limit || 50)
+        .lean(),
+    ]);
+    return { total, alerts: alerts as unknown as Alert[] };
+  }
+
+  async findGroupParent(groupKey: string, since: Date): Promise<Alert | undefined> {
+    const alert = await SiemAlert.findOne({
+      groupKey,
+      parentId: { $exists: false },
+      status: { $in: GROUPABLE_STATUSES },
+      lastSeenAt: { $gte: since },
+    }).select(HIDDEN_FIELDS).sort({ lastSeenAt: -1 }).lean();
+    return (alert as unknown as Alert) || undefined;
+  }
+
+  async addOccurrence(
+    parentId: string,
+    eventIds: readonly string[],
+    at: Date,
+  ): Promise<Alert | undefined> {
+    const alert = await SiemAlert.findOneAndUpdate(
+      { id: parentId },
+      {
+        $inc: { occurrences: 1 },
+        $max: { lastSeenAt: at },
+        $addToSet: { events: { $each: eventIds } },
+      },
+      { new: true },
+    ).select(HIDDEN_FIELDS).lean();
+    return (alert as unknown as Alert) || undefined;
+  }
+
+  async claimEscalation(
+    id: string,
+    claim: AlertEscalationClaim,
+    staleBefore: Date,
+  ): Promise<Alert | undefined> {
+    const alert = await SiemAlert.findOneAndUpdate(
+      {
+        id,
+        escalation: null,
+        $or: [{ escalationClaim: null }, { 'escalationClaim.claimedAt': { $lt: staleBefore } }],
+      },
+      { $set: { escalationClaim: claim } },
+      { new: true },
+    ).select(HIDDEN_FIELDS).lean();
+    return (alert as unknown as Alert) || undefined;
+  }
+
+  async insertSuppression(suppression: AlertSuppression): Promise<AlertSuppression> {
+    await new SiemAlertSuppression(suppression).save();
+    return suppression;
+  }
+
+  async getSuppression(id: string): Promise<AlertSuppression | undefined> {
+    const suppression = await SiemAlertSuppression.findOne({ id }).select('-_id -__v').lean();
+    return (suppression as unknown as AlertSuppression) || undefined;
+  }
+
+  async findSuppressions(filters: AlertSuppressionFilters): Promise<AlertSuppression[]> {
+    const filter: Record<string, any> = {};
+    if (filters.ruleId) filter.ruleId = filters.ruleId;
+    if (filters.activeAt) {
+      filter.$or = [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: filters.activeAt } }];
+    }
+    const suppressions = await SiemAlertSuppression.find(filter)
+      .select('-_id -__v')
+      .sort({ createdAt: -1 })
+      .lean();
+    return suppressions as unknown as AlertSuppression[];
+  }
+
+  async deleteSuppression(id: string): Promise<boolean> {
+    const result = await SiemAlertSuppression.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+
+  async recordSuppressionHit(id: string, at: Date): Promise<void> {
+    await SiemAlertSuppression.updateOne({ id }, { $inc: { hits: 1 }, $set: { lastHitAt: at } });
+  }
+
+  async insertRule(rule: DetectionRule): Promise<DetectionRule> {
+    await new SiemDetectionRule(rule).save();
+    return rule;
+  }
+
+  async getRule(id: string): Promise<DetectionRule | undefined> {
+    const rule = await SiemDetectionRule.findOne({ id }).select('-_id -__v').lean();
+    return (rule as unknown as DetectionRule) || undefined;
+  }
+
+  async updateRule(
+    id: string,
+    changes: Partial<DetectionRule>,
+  ): Promise<DetectionRule | undefined> {
+    const rule = await SiemDetectionRule.findOneAndUpdate({ id }, { $set: changes }, { new: true })
+      .select('-_id -__v')
+      .lean();
+    return (rule as unknown as DetectionRule) || undefined;
+  }
+
+  async findRules(filters: DetectionRuleFilters): Promise<DetectionRule[]> {
+    const filter: Record<string, any> = {};
+    if (filters.enabled !== undefined) filter.enabled = filters.enabled;
+    if (filters.type) filter.type = filters.type;
+    if (filters.severity) filter.severity = filters.severity;
+    if (filters.sigmaId) filter['sigma.id'] = filters.sigmaId;
+    const rules = await SiemDetectionRule.find(filter)
+      .select('-_id -__v')
+      .sort({ createdAt: 1 })
+      .lean();
+    return rules as unknown as DetectionRule[];
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const result = await SiemDetectionRule.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+}
+
+export default MongoAlertStore;
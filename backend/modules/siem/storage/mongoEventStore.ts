@@ -0,0 +1,173 @@
+/**
+ * MongoDB Event Store
+ * Stores normalized events in the SiemEvent collection
+ */
+
+import { isIP } from 'net';
+import SiemEvent from '../models/SiemEvent';
+import { wildcardToRegExp } from '../../../utils/filtering';
+import type { Filter, FilterGroup } from '../../../utils/filtering';
+import { DATE_FIELDS } from '../search/queryParser';
+import { ValidationError } from '../../../middleware/errors';
+import type { EventQuery, EventStore, NormalizedEvent } from '../types';
+
+// Storage-only fields left out of query results
+const HIDDEN_FIELDS = '-_id -__v -expiresAt -created_at -updated_at';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regular expression matching the IPv4 addresses (plain or IPv4-mapped IPv6)
+ * of a CIDR range: fixed leading octets, then the values the partial octet
+ * can take. IPv6 ranges cannot be matched on the stored strings.
+ */
+export const cidrToRegExp = (cidr: string): RegExp => {
+  const [network, prefixText = '32'] = cidr.split('/');
+  const prefix = Number(prefixText);
+  if (isIP(network) !== 4 || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new ValidationError(`CIDR range ${cidr} is not supported by the MongoDB event store`);
+  }
+
+  const octets = network.split('.').map(Number);
+  const fixed = Math.floor(prefix / 8);
+  const parts = octets.slice(0, fixed).map(String);
+  if (fixed < 4) {
+    const size = 2 ** (8 - (prefix % 8));
+    const base = octets[fixed] - (octets[fixed] % size);
+    const values = Array.from({ length: size }, (_, offset) => base + offset);
+    parts.push(size === 256 ? '\\d{1,3}' : `(?:${values.join('|')})`);
+    while (parts.length < 4) parts.push('\\d{1,3}');
+  }
+  return new RegExp(`^(?:::ffff:)?${parts.join('\\.')}$`, 'i');
+};
+
+/**
+ * Translate a parsed search filter into a MongoDB filter with the semantics of
+ * the in-memory BooleanLogicEngine: equality ignores case (and matches numbers
+ * given as text), range bounds are numbers or, on date fields, epoch
+ * milliseconds
+ */
+export const toGroupFilter = (group: FilterGroup): Record<string, any> => {
+  const combine = (operator: '$and' | '$or', conditions: Record<string, any>[]) => (
+    conditions.length === 1 ? conditions[0] : { [operator]: conditions }
+  );
+
+  const convert = ({
+    key, operator, values, mode,
+  }: Filter): Record<string, any> => {
+    const each = (condition: (value: string) => any) => combine(
+      mode === 'and' ? '$and' : '$or',
+      values.map((value) => ({ [key]: condition(value) })),
+    );
+    const exact = () => values.flatMap((value) => [
+      new RegExp(`^${escapeRegExp(value)}$`, 'i'),
+      ...(value.trim() !== '' && Number.isFinite(Number(value)) ? [Number(value)] : []),
+    ]);
+    const bound = (value: string) => (
+      DATE_FIELDS.includes(key) ? new Date(Number(value)) : Number(value)
+    );
+
+    switch (operator) {
+      case 'eq':
+      case 'in':
+        return { [key]: { $in: exact() } };
+      case 'not_eq':
+      case 'not_in':
+        return { [key]: { $nin: exact() } };
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return each((value) => ({ [`$${operator}`]: bound(value) }));
+      case 'contains':
+        return each((value) => new RegExp(escapeRegExp(value), 'i'));
+      case 'not_contains':
+        return each((value) => ({ $not: new RegExp(escapeRegExp(value), 'i') }));
+      case 'starts_with':
+        return each((value) => new RegExp(`^${escapeRegExp(value)}`, 'i'));
+      case 'ends_with':
+        return each((value) => new RegExp(`${escapeRegExp(value)}$`, 'i'));
+      case 'wildcard':
+        return each(wildcardToRegExp);
+      case 'cidr':
+        return each(cidrToRegExp);
+      case 'nil':
+        return { [key]: null };
+      case 'not_nil':
+        return { [key]: { $ne: null } };
+      default:
+        throw new ValidationError(`Unsupported filter operator ${operator}`);
+    }
+  };
+
+  const conditions = [...group.filters.map(convert), ...group.filterGroups.map(toGroupFilter)];
+  if (!conditions.length) return {};
+
+  switch (group.mode) {
+    case 'or':
+      return combine('$or', conditions);
+    case 'not':
+      return { $nor: [combine('$and', conditions)] };
+    default:
+      return combine('$and', conditions);
+  }
+};
+
+/**
+ * Translate an event query into a MongoDB filter
+ */
+export const toFilter = (query: EventQuery): Record<string, any> => {
+  const filter: Record<string, any> = {};
+
+  if (query.timeRange?.start || query.timeRange?.end) {
+    filter.timestamp = {};
+    if (query.timeRange.start) filter.timestamp.$gte = query.timeRange.start;
+    if (query.timeRange.end) filter.timestamp.$lte = query.timeRange.end;
+  }
+
+  for (const [field, value] of Object.entries(query.fields || {})) {
+    if (value === undefined) continue;
+    filter[field] = Array.isArray(value) ? { $in: value } : value;
+  }
+
+  if (query.text) {
+    filter.$text = { $search: query.text };
+  }
+
+  const search = query.filter ? toGroupFilter(query.filter) : {};
+  if (Object.keys(search).length) {
+    filter.$and = [search];
+  }
+
+  return filter;
+};
+
+class MongoEventStore implements EventStore {
+  async insert(event: NormalizedEvent): Promise<NormalizedEvent> {
+    await new SiemEvent(event).save();
+    return event;
+  }
+
+  async find(query: EventQuery): Promise<NormalizedEvent[]> {
+    let cursor = SiemEvent.find(toFilter(query))
+      .select(HIDDEN_FIELDS)
+      .sort({ [query.sortBy || 'timestamp']: query.sortOrder === 'asc' ? 1 : -1 })
+      .skip(query.offset || 0);
+
+    if (query.limit) {
+      cursor = cursor.limit(query.limit);
+    }
+
+    return cursor.lean() as unknown as Promise<NormalizedEvent[]>;
+  }
+
+  async count(query: EventQuery): Promise<number> {
+    return SiemEvent.countDocuments(toFilter(query));
+  }
+
+  async setCorrelationId(eventIds: readonly string[], correlationId: string): Promise<void> {
+    await SiemEvent.updateMany({ id: { $in: eventIds } }, { $set: { correlationId } });
+  }
+}
+
+export default MongoEventStore;
@@ -0,0 +1,71 @@
+/**
+ * MongoDB Search Store
+ * Stores saved searches in the SiemSavedSearch collection
+ */
+
+import SiemSavedSearch from '../models/SiemSavedSearch';
+import type {
+  SavedSearch,
+  SavedSearchFilters,
+  SearchStore,
+} from '../types';
+
+// Storage-only fields left out of query results
+const HIDDEN_FIELDS = '-_id -__v';
+
+/**
+ * Translate saved search listing filters into a MongoDB filter
+ */
+export const toSearchFilter = (filters: SavedSearchFilters): Record<string, any> => {
+  const filter: Record<string, any> = {};
+  if (filters.visibleTo) {
+    filter.$or = [
+      { owner: filters.visibleTo.id },
+      { visibility: 'team', team: { $in: filters.visibleTo.teams } },
+    ];
+  }
+  if (filters.scheduled) filter['schedule.enabled'] = true;
+  return filter;
+};
+
+class MongoSearchStore implements SearchStore {
+  async insert(search: SavedSearch): Promise<SavedSearch> {
+    await new SiemSavedSearch(search).save();
+    return search;
+  }
+
+  async get(id: string): Promise<SavedSearch | undefined> {
+    const search = await SiemSavedSearch.findOne({ id }).select(HIDDEN_FIELDS).lean();
+    return (search as unknown as SavedSearch) || undefined;
+  }
+
+  async update(id: string, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined> {
+    // Fields set to undefined are removed, e.g. a dropped schedule
+    const entries = Object.entries(changes);
+    const set = Object.fromEntries(entries.filter(([, value]) => value !== undefined));
+    const unset = Object.fromEntries(entries
+      .filter(([, value]) => value === undefined)
+      .map(([field]) => [field, 1]));
+    const search = await SiemSavedSearch.findOneAndUpdate(
+      { id },
+      { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) },
+      { new: true },
+    ).select(HIDDEN_FIELDS).lean();
+    return (search as unknown as SavedSearch) || undefined;
+  }
+
+  async find(filters: SavedSearchFilters): Promise<SavedSearch[]> {
+    const searches = await SiemSavedSearch.find(toSearchFilter(filters))
+      .select(HIDDEN_FIELDS)
+      .sort({ name: 1 })
+      .lean();
+    return searches as unknown as SavedSearch[];
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await SiemSavedSearch.deleteOne({ id });
+    return result.deletedCount > 0;
+  }
+}
+
+export default MongoSearchStore;
@@ -3,6 +3,8 @@
  * Comprehensive types for Security Information and Event Management
  */
 
+import type { FilterGroup } from '../../utils/filtering';
+
 /**
  * Log source types
  */
@@ -29,14 +31,15 @@ export type EventSeverity =
   | 'info';
 
 /**
- * Alert status
+ * Alert status; alerts move new → acknowledged → investigating → resolved or
+ * false_positive
  */
 export type AlertStatus =
-  | 'open'
+  | 'new'
+  | 'acknowledged'
   | 'investigating'
   | 'resolved'
-  | 'false_positive'
-  | 'closed';
+  | 'false_positive';
 
 /**
  * Detection rule type
@@ -86,6 +89,12 @@ export interface NormalizedEvent {
   readonly normalized: boolean;
 }
 
+/**
+ * Confidence (0-1) per event field that a parser filled in; 0 means the log
+ * did not carry the field and a default was used
+ */
+export type FieldConfidence = Readonly<Record<string, number>>;
+
 /**
  * Log parsing result
  */
@@ -94,8 +103,10 @@ export interface ParsingResult {
   readonly event?: NormalizedEvent;
   readonly error?: string;
   readonly sourceType: LogSourceType;
+  readonly fieldConfidence?: FieldConfidence;
 }
 
+
 /**
  * Detection rule definition
  */
@@ -111,19 +122,83 @@ export interface DetectionRule {
   readonly threshold?: number;
   readonly actions: RuleAction[];
   readonly tags: readonly string[];
+  readonly expression?: RuleExpression; // replaces conditions when set
+  readonly sigma?: SigmaRuleSource;
   readonly createdAt: Date;
   readonly updatedAt: Date;
   readonly createdBy: string;
 }
 
+/**
+ * Rule condition operator
+ */
+export type RuleOperator =
+  | 'equals'
+  | 'contains'
+  | 'startswith'
+  | 'endswith'
+  | 'regex'
+  | 'gt'
+  | 'lt'
+  | 'gte'
+  | 'lte'
+  | 'in'
+  | 'not_in'
+  | 'cidr'
+  | 'exists';
+
 /**
  * Rule condition
  */
 export interface RuleCondition {
   readonly field: string;
-  readonly operator: 'equals' | 'contains' | 'regex' | 'gt' | 'lt' | 'gte' | 'lte' | 'in' | 'not_in';
+  readonly operator: RuleOperator;
   readonly value: any;
   readonly logicalOperator?: 'AND' | 'OR';
+  readonly caseInsensitive?: boolean;
+}
+
+/**
+ * Evaluable rule tree, e.g. compiled from a Sigma detection
+ */
+export type RuleExpression =
+  | { readonly type: 'and' | 'or'; readonly children: readonly RuleExpression[] }
+  | { readonly type: 'not'; readonly child: RuleExpression }
+  | { readonly type: 'condition'; readonly condition: RuleCondition };
+
+/**
+ * Where an imported Sigma rule came from
+ */
+export interface SigmaRuleSource {
+  readonly id?: string;
+  readonly title: string;
+  readonly status?: string;
+  readonly logsource: Readonly<Record<string, string>>;
+}
+
+/**
+ * Outcome of importing one Sigma rule
+ */
+export interface SigmaImportReport {
+  readonly title: string;
+  readonly sigmaId?: string;
+  readonly status: 'created' | 'updated' | 'compiled' | 'rejected';
+  readonly ruleId?: string;
+  readonly expression?: RuleExpression;
+  readonly unsupported: readonly string[];
+  readonly unmappedFields: readonly string[];
+  readonly error?: string;
+}
+
+/**
+ * Outcome of a Sigma import; `compiled` counts rules checked in a dry run
+ */
+export interface SigmaImportResult {
+  readonly created: number;
+  readonly updated: number;
+  readonly compiled: number;
+  readonly rejected: number;
+  readonly rules: readonly SigmaImportReport[];
 }
 
 /**
@@ -151,10 +226,95 @@ export interface Alert {
   readonly acknowledgedBy?: string;
   readonly resolvedAt?: Date;
   readonly resolvedBy?: string;
+  readonly assignee?: string;
+  readonly assignedAt?: Date;
+  readonly groupKey: string; // Rule and entity values duplicates share
+  readonly parentId?: string; // Set on duplicates grouped under a parent alert
+  readonly occurrences: number; // Parent alerts: this alert plus its duplicates
+  readonly lastSeenAt: Date;
+  readonly escalation?: AlertEscalation; // Incident or case the alert was promoted to
+  readonly escalationOffer?: AlertEscalationOffer; // Open escalation sharing a correlation ID
+  readonly escalationClaim?: AlertEscalationClaim; // Escalation in progress
   readonly tags: readonly string[];
   readonly metadata: Record<string, any>;
 }
 
+/**
+ * Where an alert was escalated to
+ */
+export type AlertEscalationTarget = 'incident' | 'case';
+
+/**
+ * Link from an alert to the incident or case it was promoted to or added to;
+ * the incident or case links back through metadata.siem.alertIds
+ */
+export interface AlertEscalation {
+  readonly target: AlertEscalationTarget;
+  readonly id: string;
+  readonly reference?: string; // Incident ticket number
+  readonly correlationIds: readonly string[];
+  readonly escalatedAt: Date;
+  readonly escalatedBy: string;
+}
+
+/**
+ * Held while an alert's incident or case is created, so that concurrent
+ * requests escalate it only once
+ */
+export interface AlertEscalationClaim {
+  readonly claimedBy: string;
+  readonly claimedAt: Date;
+}
+
+/**
+ * Open incident or case an alert can be added to, found through the
+ * correlation ID it shares with an alert escalated earlier
+ */
+export interface AlertEscalationOffer {
+  readonly target: AlertEscalationTarget;
+  readonly id: string;
+  readonly reference?: string;
+  readonly correlationId: string;
+  readonly alertId: string; // The alert escalated earlier
+}
+
+/**
+ * Escalate an alert into a new incident or case, or into the existing one
+ * given by targetId
+ */
+export interface AlertEscalationRequest {
+  readonly target: AlertEscalationTarget;
+  readonly targetId?: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly category?: string;
+  readonly priority?: 'low' | 'medium' | 'high' | 'critical';
+}
+
+/**
+ * Suppression rule; alerts of the rule whose events carry all of the field
+ * values are dropped until the suppression expires
+ */
+export interface AlertSuppression {
+  readonly id: string;
+  readonly ruleId: string;
+  readonly fields: Readonly<Record<string, string | number | boolean>>;
+  readonly reason: string;
+  readonly expiresAt?: Date;
+  readonly createdBy: string;
+  readonly createdAt: Date;
+  readonly hits: number;
+  readonly lastHitAt?: Date;
+}
+
+/**
+ * Suppression listing filters
+ */
+export interface AlertSuppressionFilters {
+  readonly ruleId?: string;
+  readonly activeAt?: Date; // Only suppressions not expired at this time
+}
+
 /**
  * Correlation pattern
  */
@@ -181,6 +341,257 @@ export interface CorrelationResult {
   readonly severity: EventSeverity;
 }
 
+/**
+ * Streaming correlation window: sliding windows cover the last `size` seconds
+ * before each event, tumbling windows are fixed `size`-second buckets
+ */
+export interface CorrelationWindow {
+  readonly type: 'sliding' | 'tumbling';
+  readonly size: number; // seconds
+}
+
+/**
+ * Fields shared by every streaming correlation rule
+ */
+export interface StreamingRuleBase {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly enabled: boolean;
+  readonly severity: EventSeverity;
+  readonly groupBy: readonly string[];
+  readonly window: CorrelationWindow;
+  readonly tags: readonly string[];
+  readonly createdAt: Date;
+  readonly createdBy: string;
+}
+
+/**
+ * Streaming correlation rule; state is kept per `groupBy` key (event field
+ * values, e.g. ['username'] or ['sourceIp', 'hostname'])
+ */
+export type StreamingCorrelationRule = StreamingRuleBase & (
+  | {
+    // At least `count` matching events, or `distinctCount` distinct values of
+    // `distinctField` among them, in one window
+    readonly type: 'threshold';
+    readonly match: RuleExpression;
+    readonly count?: number;
+    readonly distinctField?: string;
+    readonly distinctCount?: number;
+  }
+  | {
+    // Events matching each step in order within the window
+    readonly type: 'sequence';
+    readonly steps: readonly { readonly name: string; readonly match: RuleExpression }[];
+  }
+  | {
+    // A trigger event not followed by an expected event within the window
+    readonly type: 'absence';
+    readonly trigger: RuleExpression;
+    readonly expected: RuleExpression;
+  }
+);
+
+/**
+ * Streaming correlation rule as submitted to createCorrelationRule
+ */
+export type StreamingCorrelationRuleInput = StreamingCorrelationRule extends infer R
+  ? (R extends unknown ? Omit<R, 'id' | 'createdAt'> : never)
+  : never;
+
+/**
+ * A streaming correlation rule firing for one group key
+ */
+export interface StreamingCorrelationMatch {
+  readonly id: string;
+  readonly ruleId: string;
+  readonly ruleName: string;
+  readonly type: StreamingCorrelationRule['type'];
+  readonly severity: EventSeverity;
+  readonly key: string;
+  readonly events: readonly string[]; // Event IDs
+  readonly windowStart: Date;
+  readonly windowEnd: Date;
+  readonly matchedAt: Date;
+  readonly details: Record<string, any>;
+}
+
+/**
+ * Streaming correlation engine counters
+ */
+export interface CorrelationEngineStats {
+  readonly rules: number;
+  readonly keys: number;
+  readonly entries: number;
+  readonly processed: number;
+  readonly matches: number;
+  readonly evictedKeys: number;
+  readonly evictedEntries: number;
+  readonly lastSnapshotAt?: Date;
+}
+
+/**
+ * Indicator kinds the IOC sweep matches events against
+ */
+export type SweepIndicatorType = 'ip' | 'cidr' | 'domain' | 'url' | 'hash' | 'email';
+
+/**
+ * Active IOC as held in the IOC sweep index
+ */
+export interface SweepIndicator {
+  readonly id: string;
+  readonly type: SweepIndicatorType;
+  readonly value: string; // Normalized
+  readonly confidence: number; // 0-100
+  readonly severity: 'low' | 'medium' | 'high' | 'critical';
+  readonly source: string;
+  readonly tags: readonly string[];
+}
+
+/**
+ * An indicator found in one event field
+ */
+export interface IocMatch {
+  readonly indicator: SweepIndicator;
+  readonly field: string;
+  readonly value: string;
+}
+
+/**
+ * Indicators found in an event, live or by a retro-hunt
+ */
+export interface IocSweepMatch {
+  readonly event: NormalizedEvent;
+  readonly matches: readonly IocMatch[];
+  readonly retroHunt: boolean;
+}
+
+/**
+ * Outcome of hunting one indicator in stored events
+ */
+export interface RetroHuntResult {
+  readonly iocId: string;
+  readonly from: Date;
+  readonly to: Date;
+  readonly scanned: number;
+  readonly matched: number;
+  readonly truncated: boolean; // Stopped at the event cap
+}
+
+/**
+ * IOC sweep counters
+ */
+export interface IocSweepStats {
+  readonly indicators: number;
+  readonly byType: Readonly<Record<SweepIndicatorType, number>>;
+  readonly processed: number;
+  readonly matches: number;
+  readonly retroHunts: number;
+  readonly lastRebuildAt?: Date;
+}
+
+/**
+ * Event search in the query language, newest first by default
+ */
+export interface EventSearchRequest {
+  readonly query: string;
+  readonly timeRange?: {
+    readonly start?: Date;
+    readonly end?: Date;
+  };
+  readonly limit?: number;
+  readonly offset?: number;
+  readonly sortBy?: string;
+  readonly sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * Events found by a search, with the filter its query was parsed into
+ */
+export interface EventSearchResult {
+  readonly total: number;
+  readonly events: NormalizedEvent[];
+  readonly filter: FilterGroup;
+}
+
+/**
+ * Event field offered by search autocompletion
+ */
+export interface FieldSuggestion {
+  readonly field: string;
+  readonly count: number; // Events seen with the field
+  readonly values: readonly string[]; // Most common values first
+}
+
+/**
+ * Who a saved search is shared with besides its owner
+ */
+export type SavedSearchVisibility = 'private' | 'team';
+
+/**
+ * Periodic run of a saved search; an alert is raised when the number of
+ * events matched in the last `window` seconds starts meeting the threshold
+ */
+export interface SavedSearchSchedule {
+  readonly enabled: boolean;
+  readonly interval: number; // seconds between runs
+  readonly window: number; // seconds
+  readonly comparison: 'gt' | 'gte' | 'lt' | 'lte';
+  readonly threshold: number;
+  readonly severity: 'low' | 'medium' | 'high' | 'critical';
+}
+
+/**
+ * Saved search; team searches are visible to every member of the team
+ */
+export interface SavedSearch {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string;
+  readonly query: string;
+  readonly visibility: SavedSearchVisibility;
+  readonly team?: string;
+  readonly owner: string;
+  readonly schedule?: SavedSearchSchedule;
+  readonly lastRunAt?: Date;
+  readonly lastCount?: number;
+  readonly thresholdMet?: boolean; // On the last scheduled run
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+export type SavedSearchInput = Pick<
+  SavedSearch,
+  'name' | 'description' | 'query' | 'visibility' | 'team' | 'schedule'
+>;
+
+/**
+ * User a saved search is listed for, and the teams they belong to
+ */
+export interface SearchUser {
+  readonly id: string;
+  readonly teams: readonly string[];
+}
+
+/**
+ * Saved search listing filters
+ */
+export interface SavedSearchFilters {
+  readonly visibleTo?: SearchUser;
+  readonly scheduled?: boolean; // Only searches with an enabled schedule
+}
+
+/**
+ * Scheduled run whose count started meeting its search's threshold
+ */
+export interface SavedSearchThresholdMatch {
+  readonly search: SavedSearch;
+  readonly count: number;
+  readonly from: Date;
+  readonly to: Date;
+}
+
 /**
  * Dashboard widget data
  */
@@ -309,6 +720,196 @@ export interface LogStatistics {
   };
 }
 
+/**
+ * Raw log submitted for ingestion
+ */
+export interface LogSubmission {
+  readonly rawLog: string;
+  readonly sourceType: LogSourceType;
+}
+
+/**
+ * Normalized event and the alerts its ingestion raised
+ */
+export interface IngestResult {
+  readonly event: NormalizedEvent;
+  readonly alerts: readonly Alert[];
+}
+
+/**
+ * Batch ingestion outcome; failed logs do not stop the batch
+ */
+export interface BatchIngestResult {
+  readonly accepted: number;
+  readonly rejected: number;
+  readonly results: readonly (IngestResult & { readonly index: number })[];
+  readonly errors: readonly { readonly index: number; readonly error: string }[];
+}
+
+/**
+ * Detection rule listing filters
+ */
+export interface DetectionRuleFilters {
+  readonly enabled?: boolean;
+  readonly type?: RuleType;
+  readonly severity?: EventSeverity;
+  readonly sigmaId?: string; // rules imported from this Sigma rule
+}
+
+/**
+ * Alert listing filters, newest first
+ */
+export interface AlertFilters {
+  readonly status?: readonly AlertStatus[];
+  readonly severity?: readonly EventSeverity[];
+  readonly ruleId?: string;
+  readonly assignee?: string;
+  readonly parentId?: string; // Duplicates of this alert; parent alerts when omitted
+  readonly escalationCorrelationId?: string; // Escalated with this correlation ID
+  readonly limit?: number;
+  readonly offset?: number;
+}
+
+/**
+ * Event fields that can be matched exactly in an event query
+ */
+export type EventQueryField =
+  | 'id'
+  | 'sourceType'
+  | 'sourceIp'
+  | 'destIp'
+  | 'protocol'
+  | 'action'
+  | 'outcome'
+  | 'severity'
+  | 'category'
+  | 'eventType'
+  | 'userId'
+  | 'username'
+  | 'hostname'
+  | 'processName'
+  | 'fileHash'
+  | 'domain'
+  | 'correlationId'
+  | 'normalized';
+
+export type EventQueryValue = string | boolean;
+
+/**
+ * Storage-independent event query. Field values in an array match any of them;
+ * text matches events containing any of its words; filter is a parsed search
+ * query.
+ */
+export interface EventQuery {
+  readonly timeRange?: {
+    readonly start?: Date;
+    readonly end?: Date;
+  };
+  readonly fields?: Partial<Record<EventQueryField, EventQueryValue | readonly EventQueryValue[]>>;
+  readonly text?: string;
+  readonly filter?: FilterGroup;
+  readonly sortBy?: keyof NormalizedEvent;
+  readonly sortOrder?: 'asc' | 'desc';
+  readonly limit?: number;
+  readonly offset?: number;
+}
+
+/**
+ * Where normalized events are kept; MongoDB in production, memory in tests
+ */
+export interface EventStore {
+  insert(event: NormalizedEvent): Promise<NormalizedEvent>;
+  find(query: EventQuery): Promise<NormalizedEvent[]>;
+  count(query: EventQuery): Promise<number>;
+  setCorrelationId(eventIds: readonly string[], correlationId: string): Promise<void>;
+}
+
+/**
+ * Where alerts, suppression rules and detection rules are kept; same backend
+ * as the events
+ */
+export interface AlertStore {
+  insert(alert: Alert): Promise<Alert>;
+  get(id: string): Promise<Alert | undefined>;
+  update(id: string, changes: Partial<Alert>): Promise<Alert | undefined>;
+  find(filters: AlertFilters): Promise<{ total: number; alerts: Alert[] }>;
+  findGroupParent(groupKey: string, since: Date): Promise<Alert | undefined>;
+  addOccurrence(parentId: string, eventIds: readonly string[], at: Date): Promise<Alert | undefined>;
+  // Undefined when the alert is escalated or claimed already; claims from
+  // before staleBefore are taken over
+  claimEscalation(
+    id: string,
+    claim: AlertEscalationClaim,
+    staleBefore: Date,
+  ): Promise<Alert | undefined>;
+  insertSuppression(suppression: AlertSuppression): Promise<AlertSuppression>;
+  getSuppression(id: string): Promise<AlertSuppression | undefined>;
+  findSuppressions(filters: AlertSuppressionFilters): Promise<AlertSuppression[]>;
+  deleteSuppression(id: string): Promise<boolean>;
+  recordSuppressionHit(id: string, at: Date): Promise<void>;
+  insertRule(rule: DetectionRule): Promise<DetectionRule>;
+  getRule(id: string): Promise<DetectionRule | undefined>;
+  updateRule(id: string, changes: Partial<DetectionRule>): Promise<DetectionRule | undefined>;
+  findRules(filters: DetectionRuleFilters): Promise<DetectionRule[]>;
+  deleteRule(id: string): Promise<boolean>;
+}
+
+/**
+ * Where saved searches are kept; same backend as the events
+ */
+export interface SearchStore {
+  insert(search: SavedSearch): Promise<SavedSearch>;
+  get(id: string): Promise<SavedSearch | undefined>;
+  update(id: string, changes: Partial<SavedSearch>): Promise<SavedSearch | undefined>;
+  find(filters: SavedSearchFilters): Promise<SavedSearch[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * How a log reached the ingestion pipeline
+ */
+export type IngestTransport = 'udp' | 'tcp' | 'tls' | 'http';
+
+/**
+ * Why the pipeline refused a log before parsing it
+ */
+export type IngestDropReason = 'queue_full' | 'rate_limited' | 'oversized';
+
+/**
+ * A log that could not be parsed or stored, kept for inspection
+ */
+export interface DeadLetter {
+  readonly id: string;
+  readonly rawLog: string;
+  readonly sourceType: LogSourceType;
+  readonly source: string;
+  readonly transport: IngestTransport;
+  readonly error: string;
+  readonly receivedAt: Date;
+}
+
+/**
+ * Ingestion pipeline counters since startup
+ */
+export interface IngestStats {
+  readonly received: number;
+  readonly processed: number;
+  readonly deadLettered: number;
+  readonly dropped: Record<IngestDropReason, number>;
+  readonly queueDepth: number;
+  readonly queueCapacity: number;
+  readonly saturated: boolean;
+}
+
+/**
+ * Outcome of an NDJSON bulk submission; lines are processed asynchronously
+ */
+export interface BulkIngestResult {
+  readonly accepted: number;
+  readonly invalid: number;
+  readonly dropped: Record<IngestDropReason, number>;
+}
+
 /**
  * Type guards
  */
@@ -316,8 +917,15 @@ export function isValidSeverity(severity: string): severity is EventSeverity {
   return ['critical', 'high', 'medium', 'low', 'info'].includes(severity);
 }
 
+export function isValidSourceType(sourceType: string): sourceType is LogSourceType {
+  return [
+    'syslog', 'json', 'cef', 'leef', 'windows_event',
+    'apache', 'nginx', 'firewall', 'ids_ips', 'custom',
+  ].includes(sourceType);
+}
+
 export function isValidAlertStatus(status: string): status is AlertStatus {
-  return ['open', 'investigating', 'resolved', 'false_positive', 'closed'].includes(status);
+  return ['new', 'acknowledged', 'investigating', 'resolved', 'false_positive'].includes(status);
 }
 
 export function isError(error: unknown): error is Error {
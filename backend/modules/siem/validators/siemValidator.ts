@@ -37,7 +37,362 @@ const siemUpdateSchema = Joi.object({
   correlation_id: Joi.string().optional(),
 }).min(1);
 
+const LOG_SOURCE_TYPES = [
+  'syslog', 'json', 'cef', 'leef', 'windows_event',
+  'apache', 'nginx', 'firewall', 'ids_ips', 'custom',
+];
+const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'];
+const ALERT_STATUSES = ['new', 'acknowledged', 'investigating', 'resolved', 'false_positive'];
+const RULE_TYPES = ['correlation', 'threshold', 'anomaly', 'pattern_match', 'behavioral'];
+const CONDITION_OPERATORS = [
+  'equals', 'contains', 'startswith', 'endswith', 'regex',
+  'gt', 'lt', 'gte', 'lte', 'in', 'not_in', 'cidr', 'exists',
+];
+
+// Raw log ingestion, single and batch
+const logIngestSchema = Joi.object({
+  rawLog: Joi.string().max(65536).required(),
+  sourceType: Joi.string().valid(...LOG_SOURCE_TYPES).required(),
+});
+
+const logBatchSchema = Joi.object({
+  logs: Joi.array().items(logIngestSchema).min(1).max(1000)
+    .required(),
+});
+
+// NDJSON bulk ingestion through the pipeline; lines without an envelope use sourceType
+const bulkIngestQuerySchema = Joi.object({
+  sourceType: Joi.string().valid(...LOG_SOURCE_TYPES).default('json'),
+});
+
+const deadLetterQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(1000)
+    .default(100),
+});
+
+// Detection rules
+const ruleConditionSchema = Joi.object({
+  field: Joi.string().required(),
+  operator: Joi.string().valid(...CONDITION_OPERATORS).required(),
+  value: Joi.any().required(),
+  logicalOperator: Joi.string().valid('AND', 'OR').optional(),
+  caseInsensitive: Joi.boolean().optional(),
+});
+
+const ruleActionSchema = Joi.object({
+  type: Joi.string().valid('alert', 'email', 'webhook', 'log', 'block').required(),
+  config: Joi.object().default({}),
+});
+
+const detectionRuleSchema = Joi.object({
+  name: Joi.string().max(200).required(),
+  description: Joi.string().allow('').default(''),
+  type: Joi.string().valid(...RULE_TYPES).required(),
+  enabled: Joi.boolean().default(true),
+  severity: Joi.string().valid(...SEVERITIES).required(),
+  conditions: Joi.array().items(ruleConditionSchema).min(1).required(),
+  timeWindow: Joi.number().integer().min(1).optional(),
+  threshold: Joi.number().integer().min(1).optional(),
+  actions: Joi.array().items(ruleActionSchema).default([]),
+  tags: Joi.array().items(Joi.string()).default([]),
+});
+
+const detectionRuleUpdateSchema = Joi.object({
+  name: Joi.string().max(200).optional(),
+  description: Joi.string().allow('').optional(),
+  type: Joi.string().valid(...RULE_TYPES).optional(),
+  enabled: Joi.boolean().optional(),
+  severity: Joi.string().valid(...SEVERITIES).optional(),
+  conditions: Joi.array().items(ruleConditionSchema).min(1).optional(),
+  timeWindow: Joi.number().integer().min(1).optional(),
+  threshold: Joi.number().integer().min(1).optional(),
+  actions: Joi.array().items(ruleActionSchema).optional(),
+  tags: Joi.array().items(Joi.string()).optional(),
+}).min(1);
+
+// Sigma YAML import; dryRun only compiles and reports
+const sigmaImportQuerySchema = Joi.object({
+  dryRun: Joi.boolean().default(false),
+  enabled: Joi.boolean().default(true),
+});
+
+const ruleListQuerySchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  type: Joi.string().valid(...RULE_TYPES).optional(),
+  severity: Joi.string().valid(...SEVERITIES).optional(),
+});
+
+// Alerts; status and severity accept one value or a repeated query parameter
+const alertListQuerySchema = Joi.object({
+  status: Joi.array().items(Joi.string().valid(...ALERT_STATUSES)).single().optional(),
+  severity: Joi.array().items(Joi.string().valid(...SEVERITIES)).single().optional(),
+  ruleId: Joi.string().optional(),
+  assignee: Joi.string().optional(),
+  parentId: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(500)
+    .default(50),
+  offset: Joi.number().integer().min(0).default(0),
+});
+
+const alertStatusSchema = Joi.object({
+  status: Joi.string().valid(...ALERT_STATUSES).required(),
+});
+
+// null unassigns the alert
+const alertAssignSchema = Joi.object({
+  assignee: Joi.string().max(200).allow(null).required(),
+});
+
+// Categories of the incident-response and case-management modules
+const INCIDENT_CATEGORIES = [
+  'malware', 'phishing', 'data_breach', 'ddos', 'unauthorized_access',
+  'insider_threat', 'ransomware', 'other',
+];
+const CASE_CATEGORIES = [
+  'security_incident', 'threat_investigation', 'vulnerability_remediation',
+  'compliance_review', 'malware_analysis', 'data_breach', 'phishing', 'other',
+];
+
+// Escalation into a new incident or case, or into the open one given by targetId
+const alertEscalationSchema = Joi.object({
+  target: Joi.string().valid('incident', 'case').required(),
+  targetId: Joi.string().max(100).optional(),
+  title: Joi.string().max(500).optional(),
+  description: Joi.string().max(10000).optional(),
+  category: Joi.string().when('target', {
+    is: 'incident',
+    then: Joi.valid(...INCIDENT_CATEGORIES),
+    otherwise: Joi.valid(...CASE_CATEGORIES),
+  }).optional(),
+  priority: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
+});
+
+// Suppression rules; fields are event field values (e.g. { sourceIp: '10.0.0.5' })
+const alertSuppressionSchema = Joi.object({
+  ruleId: Joi.string().required(),
+  fields: Joi.object().pattern(
+    Joi.string(),
+    Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()),
+  ).default({}),
+  reason: Joi.string().max(1000).required(),
+  expiresAt: Joi.date().iso().greater('now').optional(),
+});
+
+const alertSuppressionListQuerySchema = Joi.object({
+  ruleId: Joi.string().optional(),
+  active: Joi.boolean().default(false),
+});
+
+// Correlation run over stored events
+const correlationSchema = Joi.object({
+  id: Joi.string().optional(),
+  name: Joi.string().required(),
+  description: Joi.string().allow('').default(''),
+  eventTypes: Joi.array().items(Joi.string()).min(1).required(),
+  timeWindow: Joi.number().integer().min(1).max(30 * 24 * 3600)
+    .required(),
+  minimumEvents: Joi.number().integer().min(1).default(2),
+  conditions: Joi.object().default({}),
+  severity: Joi.string().valid(...SEVERITIES).default('medium'),
+});
+
+// Streaming correlation rules; match expressions are and/or/not trees of conditions
+const ruleExpressionSchema = Joi.object({
+  type: Joi.string().valid('and', 'or', 'not', 'condition').required(),
+  children: Joi.when('type', {
+    is: Joi.valid('and', 'or'),
+    then: Joi.array().items(Joi.link('#ruleExpression')).min(1).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  child: Joi.when('type', {
+    is: 'not',
+    then: Joi.link('#ruleExpression').required(),
+    otherwise: Joi.forbidden(),
+  }),
+  condition: Joi.when('type', {
+    is: 'condition',
+    then: ruleConditionSchema.required(),
+    otherwise: Joi.forbidden(),
+  }),
+}).id('ruleExpression');
+
+const correlationRuleSchema = Joi.object({
+  name: Joi.string().max(200).required(),
+  description: Joi.string().allow('').default(''),
+  type: Joi.string().valid('threshold', 'sequence', 'absence').required(),
+  enabled: Joi.boolean().default(true),
+  severity: Joi.string().valid(...SEVERITIES).required(),
+  groupBy: Joi.array().items(Joi.string()).default([]),
+  window: Joi.object({
+    type: Joi.string().valid('sliding', 'tumbling').default('sliding'),
+    size: Joi.number().integer().min(1).max(7 * 24 * 3600)
+      .required(),
+  }).required(),
+  tags: Joi.array().items(Joi.string()).default([]),
+  match: Joi.when('type', {
+    is: 'threshold', then: ruleExpressionSchema.required(), otherwise: Joi.forbidden(),
+  }),
+  count: Joi.when('type', {
+    is: 'threshold', then: Joi.number().integer().min(1), otherwise: Joi.forbidden(),
+  }),
+  distinctField: Joi.when('type', {
+    is: 'threshold', then: Joi.string(), otherwise: Joi.forbidden(),
+  }),
+  distinctCount: Joi.when('type', {
+    is: 'threshold', then: Joi.number().integer().min(1), otherwise: Joi.forbidden(),
+  }),
+  steps: Joi.when('type', {
+    is: 'sequence',
+    then: Joi.array().items(Joi.object({
+      name: Joi.string().required(),
+      match: ruleExpressionSchema.required(),
+    })).min(2).max(20)
+      .required(),
+    otherwise: Joi.forbidden(),
+  }),
+  trigger: Joi.when('type', {
+    is: 'absence', then: ruleExpressionSchema.required(), otherwise: Joi.forbidden(),
+  }),
+  expected: Joi.when('type', {
+    is: 'absence', then: ruleExpressionSchema.required(), otherwise: Joi.forbidden(),
+  }),
+})
+  .shared(ruleExpressionSchema)
+  .and('distinctField', 'distinctCount')
+  .when(Joi.object({ type: 'threshold' }).unknown(), {
+    then: Joi.object().or('count', 'distinctCount'),
+  });
+
+// IOC retro-hunt over the stored events of the last `days` days
+const iocRetroHuntSchema = Joi.object({
+  iocId: Joi.string().required(),
+  days: Joi.number().integer().min(1).max(365)
+    .optional(),
+});
+
+// Event search in the query language
+const searchOptions = {
+  timeRange: Joi.object({
+    start: Joi.date().iso().optional(),
+    end: Joi.date().iso().optional(),
+  }).optional(),
+  limit: Joi.number().integer().min(1).max(1000)
+    .default(100),
+  offset: Joi.number().integer().min(0).default(0),
+  sortBy: Joi.string()
+    .valid('timestamp', 'severity', 'eventType', 'sourceIp', 'hostname')
+    .optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional(),
+};
+
+const eventSearchSchema = Joi.object({
+  query: Joi.string().allow('').max(4000).required(),
+  ...searchOptions,
+});
+
+const savedSearchRunSchema = Joi.object(searchOptions);
+
+const fieldSuggestionQuerySchema = Joi.object({
+  prefix: Joi.string().allow('').max(200).default(''),
+  limit: Joi.number().integer().min(1).max(100)
+    .default(20),
+});
+
+// Scheduled runs count the matches of the last `window` seconds
+const savedSearchScheduleSchema = Joi.object({
+  enabled: Joi.boolean().default(true),
+  interval: Joi.number().integer().min(60).max(7 * 86400)
+    .required(),
+  window: Joi.number().integer().min(60).max(30 * 86400)
+    .required(),
+  comparison: Joi.string().valid('gt', 'gte', 'lt', 'lte').default('gt'),
+  threshold: Joi.number().integer().min(0).required(),
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical').default('medium'),
+});
+
+const savedSearchSchema = Joi.object({
+  name: Joi.string().max(200).required(),
+  description: Joi.string().max(2000).optional(),
+  query: Joi.string().allow('').max(4000).required(),
+  visibility: Joi.string().valid('private', 'team').default('private'),
+  team: Joi.string().max(200).when('visibility', {
+    is: 'team',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  schedule: savedSearchScheduleSchema.optional(),
+});
+
+// null removes the schedule
+const savedSearchUpdateSchema = Joi.object({
+  name: Joi.string().max(200).optional(),
+  description: Joi.string().max(2000).optional(),
+  query: Joi.string().allow('').max(4000).optional(),
+  visibility: Joi.string().valid('private', 'team').optional(),
+  team: Joi.string().max(200).optional(),
+  schedule: savedSearchScheduleSchema.allow(null).optional(),
+}).min(1);
+
+// Forensics
+const forensicSearchSchema = Joi.object({
+  query: Joi.string().allow('').max(500).default(''),
+  timeRange: Joi.object({
+    start: Joi.date().iso().required(),
+    end: Joi.date().iso().min(Joi.ref('start')).required(),
+  }).required(),
+  filters: Joi.object({
+    sourceIp: Joi.string().ip().optional(),
+    destIp: Joi.string().ip().optional(),
+    username: Joi.string().optional(),
+    hostname: Joi.string().optional(),
+    eventType: Joi.string().optional(),
+    severity: Joi.array().items(Joi.string().valid(...SEVERITIES)).optional(),
+  }).optional(),
+  limit: Joi.number().integer().min(1).max(1000)
+    .default(100),
+  offset: Joi.number().integer().min(0).default(0),
+  sortBy: Joi.string()
+    .valid('timestamp', 'severity', 'eventType', 'sourceIp', 'hostname')
+    .optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+});
+
+const timelineSchema = Joi.object({
+  eventIds: Joi.array().items(Joi.string()).min(1).max(1000)
+    .required(),
+});
+
+// Rule and alert IDs are UUIDs rather than ObjectIds
+const idParamsSchema = Joi.object({
+  id: Joi.string().required(),
+});
+
 export default {
   siemSchema,
   siemUpdateSchema,
+  logIngestSchema,
+  logBatchSchema,
+  bulkIngestQuerySchema,
+  deadLetterQuerySchema,
+  detectionRuleSchema,
+  detectionRuleUpdateSchema,
+  sigmaImportQuerySchema,
+  ruleListQuerySchema,
+  alertListQuerySchema,
+  alertStatusSchema,
+  alertAssignSchema,
+  alertEscalationSchema,
+  alertSuppressionSchema,
+  alertSuppressionListQuerySchema,
+  correlationSchema,
+  correlationRuleSchema,
+  iocRetroHuntSchema,
+  eventSearchSchema,
+  savedSearchRunSchema,
+  fieldSuggestionQuerySchema,
+  savedSearchSchema,
+  savedSearchUpdateSchema,
+  forensicSearchSchema,
+  timelineSchema,
+  idParamsSchema,
 };
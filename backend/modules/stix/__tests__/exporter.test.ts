@@ -0,0 +1,374 @@
+/**
+ * STIX Exporter Tests
+ */
+
+import { Op } from 'sequelize';
+import { STIXExporter } from '../exporter';
+import { stixConverter } from '../converter';
+import { TLP_MARKING_DEFINITIONS } from '../types';
+import {
+  iocRepository,
+  threatActorRepository,
+  malwareRepository,
+  vulnerabilityRepository,
+  entityRelationshipRepository
+} from '../../../repositories';
+import ThreatActorProfile from '../../threat-actors/models/ThreatActor';
+
+// Deterministic IDs need the real UUIDv5 implementation
+jest.mock('uuid', () => jest.requireActual('uuid'));
+
+jest.mock('../../../repositories', () => ({
+  iocRepository: { findMany: jest.fn() },
+  threatActorRepository: { findMany: jest.fn() },
+  malwareRepository: { findMany: jest.fn() },
+  vulnerabilityRepository: { findMany: jest.fn() },
+  entityRelationshipRepository: { findForEntityIds: jest.fn(), findMany: jest.fn() }
+}));
+
+jest.mock('../../threat-actors/models/ThreatActor', () => ({
+  __esModule: true,
+  default: { find: jest.fn() }
+}));
+
+const mocked = (repository: any) => repository as Record<string, jest.Mock>;
+
+const findProfiles = (profiles: any[]) => mocked(ThreatActorProfile).find.mockReturnValue({
+  sort: () => ({ limit: () => ({ lean: async () => profiles }) })
+});
+
+const created = new Date('2024-03-01T00:00:00Z');
+const updated = new Date('2024-03-02T00:00:00Z');
+
+const ioc = {
+  id: '6f1c9a52-0000-4000-8000-000000000001',
+  type: 'sha256',
+  value: 'E3B0C44298FC1C149AFBF4C8996FB92427AE41E4649B934CA495991B7852B855',
+  confidence: 90,
+  firstSeen: created,
+  tags: ['ransomware', 'tlp:green'],
+  metadata: {},
+  createdAt: created,
+  updatedAt: updated
+};
+
+const actor = {
+  id: '6f1c9a52-0000-4000-8000-000000000002',
+  stixId: 'intrusion-set--0c7e22ad-b099-4dc3-b0df-2ea3f49ae2e6',
+  name: 'APT99',
+  aliases: [],
+  motivation: ['financial-gain', 'espionage'],
+  tags: [],
+  metadata: {
+    stix_type: 'intrusion-set',
+    created_by_ref: 'identity--partner',
+    object_marking_refs: [TLP_MARKING_DEFINITIONS.red.id]
+  },
+  createdAt: created,
+  updatedAt: updated
+};
+
+describe('STIXExporter', () => {
+  const exporter = new STIXExporter();
+
+  beforeEach(() => {
+    [iocRepository, threatActorRepository, malwareRepository, vulnerabilityRepository]
+      .forEach(repository => mocked(repository).findMany.mockResolvedValue([]));
+    mocked(iocRepository).findMany.mockResolvedValue([ioc]);
+    mocked(threatActorRepository).findMany.mockResolvedValue([actor]);
+    findProfiles([]);
+    mocked(entityRelationshipRepository).findForEntityIds.mockResolvedValue([
+      {
+        id: 'rel-1',
+        relationshipType: 'attributed-to',
+        sourceType: 'ioc',
+        sourceId: ioc.id,
+        targetType: 'threat_actor',
+        targetId: actor.id,
+        createdAt: created,
+        updatedAt: updated
+      },
+      {
+        id: 'rel-2',
+        relationshipType: 'sighting',
+        sourceType: 'ioc',
+        sourceId: ioc.id,
+        count: 4,
+        firstSeen: created,
+        lastSeen: updated,
+        createdAt: created,
+        updatedAt: updated
+      },
+      {
+        id: 'rel-3',
+        relationshipType: 'uses',
+        sourceType: 'threat_actor',
+        sourceId: actor.id,
+        targetType: 'malware',
+        targetId: 'not-exported',
+        createdAt: created,
+        updatedAt: updated
+      }
+    ]);
+  });
+
+  it('should export stored entities with identity, markings and relationships', async () => {
+    const { bundle, skipped } = await exporter.exportEntities({ tlp: 'amber' });
+    const byType = (type: string) => bundle.objects.filter(object => object.type === type);
+    const identity = stixConverter.organizationIdentity();
+
+    expect(skipped).toEqual([]);
+    expect(bundle.objects[0]).toEqual(identity);
+    expect(byType('marking-definition').map(object => object.id)).toEqual([
+      TLP_MARKING_DEFINITIONS.green.id,
+      TLP_MARKING_DEFINITIONS.red.id
+    ]);
+
+    const [indicator] = byType('indicator') as any[];
+    expect(indicator).toMatchObject({
+      pattern: "[file:hashes.'SHA-256' = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855']",
+      created: created.toISOString(),
+      modified: updated.toISOString(),
+      labels: ['ransomware'],
+      created_by_ref: identity.id,
+      object_marking_refs: [TLP_MARKING_DEFINITIONS.green.id]
+    });
+
+    const [intrusionSet] = byType('intrusion-set') as any[];
+    expect(intrusionSet).toMatchObject({
+      id: actor.stixId,
+      primary_motivation: 'financial-gain',
+      secondary_motivations: ['espionage'],
+      created_by_ref: 'identity--partner',
+      object_marking_refs: [TLP_MARKING_DEFINITIONS.red.id]
+    });
+
+    expect(byType('relationship')).toEqual([expect.objectContaining({
+      relationship_type: 'attributed-to',
+      source_ref: indicator.id,
+      target_ref: actor.stixId,
+      object_marking_refs: [TLP_MARKING_DEFINITIONS.red.id]
+    })]);
+    expect(byType('sighting')).toEqual([expect.objectContaining({
+      sighting_of_ref: indicator.id,
+      count: 4,
+      where_sighted_refs: [identity.id]
+    })]);
+  });
+
+  it('should produce the same object IDs on every export', async () => {
+    const first = await exporter.exportEntities();
+    const second = await exporter.exportEntities();
+
+    expect(second.bundle.objects.map(object => object.id)).toEqual(first.bundle.objects.map(object => object.id));
+    expect(second.bundle.id).not.toEqual(first.bundle.id);
+  });
+
+  it('should select entities by ID and filter', async () => {
+    await exporter.exportEntities({
+      ids: [ioc.id], entityTypes: ['ioc'], tags: ['ransomware'], includeRelationships: false
+    });
+
+    expect(mocked(threatActorRepository).findMany).not.toHaveBeenCalled();
+    const [where, options] = mocked(iocRepository).findMany.mock.calls[0];
+    expect(Object.getOwnPropertySymbols(where.id)).toHaveLength(1);
+    expect(where.tags).toBeDefined();
+    expect(options.limit).toBe(5000);
+    expect(mocked(entityRelationshipRepository).findForEntityIds).not.toHaveBeenCalled();
+  });
+
+  it('should include spec-compliant observables and skip IOCs without a STIX equivalent', async () => {
+    mocked(iocRepository).findMany.mockResolvedValue([
+      { ...ioc, type: 'ip', value: '198.51.100.7', tags: [] },
+      { ...ioc, id: 'ioc-ua', type: 'user_agent', value: 'curl/8.0' }
+    ]);
+
+    const { bundle, skipped } = await exporter.exportEntities({
+      entityTypes: ['ioc'], includeObservables: true
+    });
+
+    // Deterministic SCO ID per STIX 2.1 section 2.9 for {"value":"198.51.100.7"}
+    const observable = stixConverter.observableToSTIX('ip', '198.51.100.7');
+    expect(observable.id).toMatch(/^ipv4-addr--[0-9a-f-]{36}$/);
+    expect(bundle.objects).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: observable.id, value: '198.51.100.7', created_by_ref: undefined }),
+      expect.objectContaining({ type: 'relationship', relationship_type: 'based-on', target_ref: observable.id })
+    ]));
+    expect(skipped).toEqual([
+      { entityType: 'ioc', entityId: 'ioc-ua', reason: "No STIX pattern for IOC type 'user_agent'" }
+    ]);
+  });
+
+  it('should export the campaigns of threat actor profiles, attributed to the profile', async () => {
+    findProfiles([{
+      id: 'profile-1',
+      name: 'Carbon Spider',
+      type: 'cybercrime',
+      aliases: [],
+      tags: ['tlp:green'],
+      campaigns: [{ campaign_id: 'camp-1', name: 'Operation Ledger', start_date: created }],
+      created_at: created,
+      updated_at: updated
+    }]);
+
+    const { bundle } = await exporter.exportEntities({ ids: ['camp-1'], entityTypes: ['campaign'] });
+
+    expect(mocked(ThreatActorProfile).find)
+      .toHaveBeenCalledWith(expect.objectContaining({ 'campaigns.campaign_id': { $in: ['camp-1'] } }));
+    const campaign = bundle.objects.find(object => object.type === 'campaign') as any;
+    expect(campaign).toMatchObject({
+      id: stixConverter.generateDeterministicId('campaign', 'camp-1'),
+      name: 'Operation Ledger',
+      first_seen: created.toISOString(),
+      modified: updated.toISOString(),
+      object_marking_refs: [TLP_MARKING_DEFINITIONS.green.id]
+    });
+    const profile = bundle.objects.find(object => object.type === 'threat-actor') as any;
+    expect(profile).toMatchObject({
+      id: stixConverter.generateDeterministicId('threat-actor', 'profile-1'),
+      name: 'Carbon Spider',
+      threat_actor_types: ['crime-syndicate']
+    });
+    expect(bundle.objects).toContainEqual(expect.objectContaining({
+      type: 'relationship',
+      relationship_type: 'attributed-to',
+      source_ref: campaign.id,
+      target_ref: profile.id
+    }));
+  });
+});
+
+describe('STIXExporter listing', () => {
+  const exporter = new STIXExporter();
+  const order = [['updatedAt', 'ASC'], ['id', 'ASC']];
+  const link = {
+    id: '6f1c9a52-0000-4000-8000-000000000010',
+    relationshipType: 'attributed-to',
+    sourceType: 'ioc',
+    sourceId: ioc.id,
+    targetType: 'threat_actor',
+    targetId: actor.id,
+    createdAt: created,
+    updatedAt: updated
+  };
+
+  beforeEach(() => {
+    [iocRepository, threatActorRepository, malwareRepository, vulnerabilityRepository]
+      .forEach(repository => mocked(repository).findMany.mockResolvedValue([]));
+    mocked(iocRepository).findMany.mockResolvedValue([ioc]);
+    mocked(threatActorRepository).findMany.mockResolvedValue([actor]);
+    mocked(entityRelationshipRepository).findMany.mockResolvedValue([link]);
+  });
+
+  it('should filter, order and page in the store queries', async () => {
+    const first = await exporter.listObjects({
+      entityTypes: ['ioc', 'threat_actor'],
+      types: ['indicator', 'intrusion-set', 'relationship'],
+      modifiedAfter: '2024-01-01T00:00:00.000Z',
+      batchSize: 1
+    });
+
+    // Every store filled its batch, so only objects up to the earliest last row are complete
+    expect(first.objects.map(({ object }) => object.type)).toEqual(['indicator']);
+    expect(first.next).toEqual({ modified: updated.toISOString(), key: ioc.id });
+    const [where, options] = mocked(iocRepository).findMany.mock.calls[0];
+    expect(where[Op.and]).toContainEqual({ updatedAt: { [Op.gt]: new Date('2024-01-01T00:00:00.000Z') } });
+    expect(options).toEqual({ limit: 1, order });
+    expect(mocked(entityRelationshipRepository).findMany)
+      .toHaveBeenCalledWith(expect.anything(), { limit: 1, order });
+    expect(mocked(malwareRepository).findMany).not.toHaveBeenCalled();
+
+    const second = await exporter.listObjects({
+      entityTypes: ['ioc', 'threat_actor'],
+      types: ['indicator', 'intrusion-set', 'relationship'],
+      after: first.next,
+      batchSize: 10
+    });
+
+    expect(second.objects.map(({ object }) => object.type)).toEqual(['intrusion-set', 'relationship']);
+    expect(second.objects[1].object).toMatchObject({ target_ref: actor.stixId });
+    expect(second.next).toBeUndefined();
+    const [afterWhere] = mocked(iocRepository).findMany.mock.calls
+      .find(([, findOptions]) => findOptions.limit === 10);
+    expect(afterWhere[Op.and]).toContainEqual({
+      [Op.or]: [
+        { updatedAt: { [Op.gt]: updated } },
+        { updatedAt: updated, id: { [Op.gt]: ioc.id } }
+      ]
+    });
+  });
+
+  it('should list nothing for STIX types collections do not hold', async () => {
+    const { objects, next } = await exporter.listObjects({
+      types: ['attack-pattern', 'campaign', 'course-of-action', 'infrastructure', 'tool']
+    });
+
+    expect(objects).toEqual([]);
+    expect(next).toBeUndefined();
+    [iocRepository, threatActorRepository, malwareRepository, vulnerabilityRepository,
+      entityRelationshipRepository]
+      .forEach(repository => expect(mocked(repository).findMany).not.toHaveBeenCalled());
+  });
+
+  it('should only query the stores that can hold the requested IDs', async () => {
+    const { objects, next } = await exporter.listObjects({ ids: [actor.stixId] });
+
+    expect(objects.map(({ object }) => object.id)).toEqual([actor.stixId]);
+    expect(next).toBeUndefined();
+    expect(mocked(iocRepository).findMany).not.toHaveBeenCalled();
+    expect(mocked(entityRelationshipRepository).findMany).not.toHaveBeenCalled();
+    const [where] = mocked(threatActorRepository).findMany.mock.calls[0];
+    expect(where[Op.and]).toContainEqual({ stixId: { [Op.in]: [actor.stixId] } });
+  });
+
+  it('should store the STIX IDs of rows that have none', async () => {
+    const iocRow = { ...ioc, update: jest.fn() };
+    const linkRow = { ...link, update: jest.fn() };
+    mocked(iocRepository).findMany.mockReset()
+      .mockResolvedValueOnce([iocRow])
+      .mockResolvedValue([ioc]);
+    mocked(threatActorRepository).findMany.mockReset()
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([actor]);
+    mocked(entityRelationshipRepository).findMany.mockResolvedValue([linkRow]);
+
+    const stored = await exporter.backfillStixIds(10);
+
+    const indicatorId = stixConverter.generateDeterministicId('indicator', ioc.id);
+    expect(stored).toBe(2);
+    expect(mocked(iocRepository).findMany)
+      .toHaveBeenCalledWith({ stixId: null }, { limit: 10, order: [['id', 'ASC']] });
+    expect(iocRow.update).toHaveBeenCalledWith({ stixId: indicatorId }, { silent: true });
+    expect(linkRow.update).toHaveBeenCalledWith({
+      stixId: stixConverter.generateDeterministicId('relationship', `${indicatorId}|attributed-to|${actor.stixId}`)
+    }, { silent: true });
+  });
+});
+
+describe('STIXConverter SDO conversion', () => {
+  it('should convert every SDO type with deterministic IDs', () => {
+    const bundle = stixConverter.exportToBundle({
+      attackPatterns: [{ name: 'Phishing', mitre_id: 'T1566.001' }],
+      campaigns: [{ name: 'Operation Dusk' }],
+      coursesOfAction: [{ name: 'Block macros' }],
+      identities: [{ name: 'Finance Dept', identity_class: 'group' }],
+      infrastructure: [{ name: 'C2 cluster', types: ['command-and-control'] }],
+      intrusionSets: [{ name: 'APT99' }],
+      tools: [{ name: 'Cobalt Strike' }]
+    });
+
+    expect(bundle.objects.map(object => object.type)).toEqual([
+      'identity', 'intrusion-set', 'attack-pattern', 'campaign', 'course-of-action', 'infrastructure', 'tool'
+    ]);
+    expect(bundle.objects[2].external_references).toEqual([expect.objectContaining({
+      external_id: 'T1566.001',
+      url: 'https://attack.mitre.org/techniques/T1566/001/'
+    })]);
+    expect(stixConverter.campaignToSTIX({ name: 'Operation Dusk' }).id).toBe(bundle.objects[3].id);
+  });
+
+  it('should escape values in generated patterns', () => {
+    expect(stixConverter.iocToPattern('registry_key', "HKLM\\Software\\it's"))
+      .toBe("[windows-registry-key:key = 'HKLM\\\\Software\\\\it\\'s']");
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * STIX Importer Tests
+ */
+
+import { STIXImporter } from '../importer';
+import {
+  iocRepository,
+  threatActorRepository,
+  malwareRepository,
+  vulnerabilityRepository,
+  entityRelationshipRepository
+} from '../../../repositories';
+import AllowListHit from '../../ioc-management/models/AllowListHit';
+import type { STIXBundle } from '../types';
+
+jest.mock('../../../repositories', () => {
+  const store = () => ({
+    findByStixId: jest.fn(),
+    findById: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn()
+  });
+  return {
+    iocRepository: { ...store(), findByTypeAndValue: jest.fn() },
+    threatActorRepository: { ...store(), findByName: jest.fn() },
+    malwareRepository: { ...store(), findByName: jest.fn() },
+    vulnerabilityRepository: { ...store(), findByCveId: jest.fn() },
+    entityRelationshipRepository: { ...store(), findLink: jest.fn() }
+  };
+});
+
+jest.mock('../../ioc-management/models/AllowListHit', () => ({
+  __esModule: true,
+  default: { insertMany: jest.fn() }
+}));
+
+const mocked = (repository: any) => repository as Record<string, jest.Mock>;
+
+const bundle: STIXBundle = {
+  type: 'bundle',
+  id: 'bundle--1',
+  objects: [
+    {
+      type: 'relationship',
+      spec_version: '2.1',
+      id: 'relationship--1',
+      created: '2024-01-01T00:00:00Z',
+      modified: '2024-01-01T00:00:00Z',
+      relationship_type: 'indicates',
+      source_ref: 'indicator--1',
+      target_ref: 'malware--1'
+    } as any,
+    {
+      type: 'indicator',
+      spec_version: '2.1',
+      id: 'indicator--1',
+      created: '2024-01-01T00:00:00Z',
+      modified: '2024-01-02T00:00:00Z',
+      pattern: "[file:hashes.'SHA-256' = 'ABCDEF'] AND [ipv4-addr:value = '203.0.113.9']",
+      pattern_type: 'stix',
+      valid_from: '2024-01-01T00:00:00Z',
+      confidence: 80
+    } as any,
+    {
+      type: 'malware',
+      spec_version: '2.1',
+      id: 'malware--1',
+      created: '2024-01-01T00:00:00Z',
+      modified: '2024-01-01T00:00:00Z',
+      name: 'Emotet',
+      is_family: true
+    } as any,
+    {
+      type: 'identity',
+      spec_version: '2.1',
+      id: 'identity--1',
+      created: '2024-01-01T00:00:00Z',
+      modified: '2024-01-01T00:00:00Z',
+      name: 'Partner ISAC',
+      identity_class: 'organization'
+    } as any
+  ]
+};
+
+describe('STIXImporter', () => {
+  const importer = new STIXImporter();
+
+  beforeEach(() => {
+    [iocRepository, threatActorRepository, malwareRepository, vulnerabilityRepository, entityRelationshipRepository]
+      .forEach(repository => {
+        Object.values(mocked(repository)).forEach(fn => fn.mockResolvedValue(null));
+      });
+    mocked(AllowListHit).insertMany.mockResolvedValue([]);
+  });
+
+  it('should create entities and resolve relationships within the bundle', async () => {
+    mocked(iocRepository).create.mockResolvedValue({ id: 'ioc-1' });
+    mocked(malwareRepository).create.mockResolvedValue({ id: 'malware-1' });
+    mocked(entityRelationshipRepository).create.mockResolvedValue({ id: 'rel-1' });
+
+    const report = await importer.importBundle(bundle, { source: 'partner-isac' });
+
+    expect(report.counts).toEqual({
+      created: 3, updated: 0, skipped: 1, error: 0
+    });
+    expect(mocked(iocRepository).create).toHaveBeenCalledWith(expect.objectContaining({
+      stixId: 'indicator--1',
+      type: 'hash',
+      value: 'abcdef',
+      source: 'partner-isac',
+      severity: 'high',
+      metadata: expect.objectContaining({ hash_type: 'SHA256', pattern: bundle.objects[1].pattern })
+    }));
+    expect(mocked(entityRelationshipRepository).create).toHaveBeenCalledWith(expect.objectContaining({
+      stixId: 'relationship--1',
+      relationshipType: 'indicates',
+      sourceType: 'ioc',
+      sourceId: 'ioc-1',
+      targetType: 'malware',
+      targetId: 'malware-1'
+    }));
+    expect(report.results.find(r => r.stixId === 'identity--1')).toMatchObject({ status: 'skipped' });
+  });
+
+  it('should skip objects whose stored version is up to date', async () => {
+    mocked(iocRepository).findByStixId.mockResolvedValue({
+      id: 'ioc-1', stixId: 'indicator--1', metadata: { stix_modified: '2024-01-02T00:00:00Z' }
+    });
+
+    const report = await importer.importBundle({ ...bundle, objects: [bundle.objects[1]] });
+
+    expect(report.results[0]).toMatchObject({ status: 'skipped', entityId: 'ioc-1' });
+    expect(mocked(iocRepository).update).not.toHaveBeenCalled();
+  });
+
+  it('should update entities matched by natural key and keep their original stix id', async () => {
+    mocked(threatActorRepository).findByName.mockResolvedValue({
+      id: 'actor-1', stixId: 'threat-actor--original', aliases: ['TA1'], tags: [], motivation: [], metadata: {}
+    });
+
+    const report = await importer.importBundle({
+      type: 'bundle',
+      id: 'bundle--2',
+      objects: [{
+        type: 'intrusion-set',
+        spec_version: '2.1',
+        id: 'intrusion-set--other',
+        created: '2024-01-01T00:00:00Z',
+        modified: '2024-01-01T00:00:00Z',
+        name: 'APT99',
+        aliases: ['TA2']
+      } as any]
+    });
+
+    expect(report.results[0]).toMatchObject({ status: 'updated', entityType: 'threat_actor' });
+    const [, update] = mocked(threatActorRepository).update.mock.calls[0];
+    expect(update.stixId).toBeUndefined();
+    expect(update.aliases).toEqual(['TA1', 'TA2']);
+    expect(update.metadata.stix_aliases).toEqual(['intrusion-set--other']);
+  });
+
+  it('should link observables to the observables they resolve to', async () => {
+    mocked(iocRepository).create
+      .mockResolvedValueOnce({ id: 'ioc-domain' })
+      .mockResolvedValueOnce({ id: 'ioc-ip' });
+
+    const report = await importer.importBundle({
+      type: 'bundle',
+      id: 'bundle--3',
+      objects: [
+        {
+          type: 'domain-name',
+          spec_version: '2.1',
+          id: 'domain-name--1',
+          value: 'evil.example.com',
+          resolves_to_refs: ['ipv4-addr--1', 'ipv4-addr--unknown']
+        } as any,
+        {
+          type: 'ipv4-addr', spec_version: '2.1', id: 'ipv4-addr--1', value: '203.0.113.9'
+        } as any
+      ]
+    }, { source: 'partner-isac' });
+
+    expect(report.counts.created).toBe(2);
+    expect(mocked(entityRelationshipRepository).create).toHaveBeenCalledTimes(1);
+    expect(mocked(entityRelationshipRepository).create).toHaveBeenCalledWith(expect.objectContaining({
+      relationshipType: 'resolves-to',
+      sourceType: 'ioc',
+      sourceId: 'ioc-domain',
+      targetType: 'ioc',
+      targetId: 'ioc-ip',
+      source: 'partner-isac'
+    }));
+  });
+
+  it('should count a resolution once for each bundle that reports it', async () => {
+    const reported = {
+      type: 'bundle',
+      id: 'bundle--5',
+      objects: [
+        {
+          type: 'domain-name',
+          spec_version: '2.1',
+          id: 'domain-name--1',
+          value: 'evil.example.com',
+          resolves_to_refs: ['ipv4-addr--1']
+        } as any,
+        {
+          type: 'ipv4-addr', spec_version: '2.1', id: 'ipv4-addr--1', value: '203.0.113.9'
+        } as any
+      ]
+    } as STIXBundle;
+    mocked(iocRepository).create
+      .mockResolvedValueOnce({ id: 'ioc-domain' })
+      .mockResolvedValueOnce({ id: 'ioc-ip' });
+
+    await importer.importBundle(reported);
+    const [link] = mocked(entityRelationshipRepository).create.mock.calls[0];
+    expect(link.metadata).toEqual({ observations: ['bundle--5|domain-name--1'] });
+
+    mocked(iocRepository).findByStixId.mockImplementation(async (stixId: string) => ({
+      id: stixId === 'domain-name--1' ? 'ioc-domain' : 'ioc-ip', stixId
+    }));
+    mocked(entityRelationshipRepository).findLink.mockResolvedValue({ ...link, id: 'link-1', count: 1 });
+
+    await importer.importBundle(reported);
+    expect(mocked(entityRelationshipRepository).update).not.toHaveBeenCalled();
+
+    await importer.importBundle({ ...reported, id: 'bundle--6' });
+    expect(mocked(entityRelationshipRepository).update)
+      .toHaveBeenCalledWith('link-1', expect.objectContaining({
+        count: 2,
+        metadata: { observations: ['bundle--5|domain-name--1', 'bundle--6|domain-name--1'] }
+      }));
+  });
+
+  it('should skip allow-listed IOCs and record the hits', async () => {
+    const report = await importer.importBundle({
+      type: 'bundle',
+      id: 'bundle--4',
+      objects: [
+        {
+          type: 'ipv4-addr', spec_version: '2.1', id: 'ipv4-addr--2', value: '8.8.8.8'
+        } as any
+      ]
+    }, { source: 'partner-isac' });
+
+    expect(report.results[0]).toMatchObject({
+      status: 'skipped',
+      entityType: 'ioc',
+      reason: expect.stringContaining('cidr 8.8.8.0/24 on the cloud-provider-ranges allow-list')
+    });
+    expect(mocked(iocRepository).create).not.toHaveBeenCalled();
+    expect(mocked(AllowListHit).insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      value: '8.8.8.8', context: 'stix_import', source: 'partner-isac', sourceId: 'ipv4-addr--2'
+    })]);
+  });
+
+  it('should report unresolved references and per-object errors', async () => {
+    mocked(malwareRepository).create.mockRejectedValue(new Error('constraint violation'));
+
+    const report = await importer.importBundle({ ...bundle, objects: [bundle.objects[0], bundle.objects[2]] });
+
+    expect(report.results).toEqual([
+      expect.objectContaining({ stixId: 'malware--1', status: 'error', reason: 'constraint violation' }),
+      expect.objectContaining({ stixId: 'relationship--1', status: 'skipped', reason: 'Unresolved reference indicator--1' })
+    ]);
+  });
+});
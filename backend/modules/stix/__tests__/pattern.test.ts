@@ -0,0 +1,287 @@
+/**
+ * STIX Pattern Parser and Evaluator Tests
+ */
+
+import { parseSTIXPattern, STIXPatternError } from '../pattern-parser';
+import { evaluatePatternSchema, MAX_EVALUATION_ITEMS, MAX_PATTERN_LENGTH } from '../validators';
+import { STIXPatternEvaluator, iocToObservation, eventToObservation } from '../pattern-evaluator';
+import { stixConverter } from '../converter';
+import { MAX_MATCH_LENGTH } from '../../playbooks/expression-evaluator';
+import type { PatternObservation } from '../types';
+import type { NormalizedEvent } from '../../siem/types';
+
+const observation = (time: string, ...objects: any[]): PatternObservation => ({
+  first_observed: time,
+  objects
+});
+
+describe('STIX pattern parser', () => {
+  it('should parse a single comparison', () => {
+    const parsed = parseSTIXPattern("[ipv4-addr:value = '198.51.100.1']");
+
+    expect(parsed.objectTypes).toEqual(['ipv4-addr']);
+    expect(parsed.ast).toMatchObject({
+      kind: 'observation',
+      comparison: {
+        kind: 'comparison',
+        operator: '=',
+        negated: false,
+        path: { objectType: 'ipv4-addr', components: [{ kind: 'property', name: 'value' }] },
+        value: { type: 'string', value: '198.51.100.1' }
+      }
+    });
+  });
+
+  it('should parse quoted path components and list indexes', () => {
+    const parsed = parseSTIXPattern(
+      "[file:hashes.'SHA-256' = 'abc' AND file:parent_directory_ref.path LIKE 'C:\\\\Temp%']"
+    );
+    expect(parsed.ast.kind).toBe('observation');
+
+    const indexed = parseSTIXPattern("[network-traffic:protocols[*] = 'tcp' OR network-traffic:protocols[0] = 'udp']");
+    expect(indexed.ast).toMatchObject({
+      comparison: {
+        kind: 'or',
+        operands: [
+          { path: { components: [{ name: 'protocols' }, { kind: 'index', index: '*' }] } },
+          { path: { components: [{ name: 'protocols' }, { kind: 'index', index: 0 }] } }
+        ]
+      }
+    });
+  });
+
+  it('should give AND precedence over OR in comparisons', () => {
+    const parsed = parseSTIXPattern("[file:name = 'a' OR file:name = 'b' AND file:size > 10]");
+
+    expect(parsed.ast).toMatchObject({
+      comparison: { kind: 'or', operands: [{ kind: 'comparison' }, { kind: 'and' }] }
+    });
+  });
+
+  it('should parse observation operators and qualifiers', () => {
+    const parsed = parseSTIXPattern(
+      "([domain-name:value = 'evil.example'] FOLLOWEDBY [url:value MATCHES '^https?://evil']) WITHIN 300 SECONDS"
+    );
+
+    expect(parsed.ast).toMatchObject({
+      kind: 'followedby',
+      qualifiers: [{ kind: 'within', seconds: 300 }]
+    });
+    expect(parsed.objectTypes).toEqual(['domain-name', 'url']);
+  });
+
+  it('should parse IN sets, NOT, EXISTS and typed literals', () => {
+    const parsed = parseSTIXPattern(
+      "[network-traffic:dst_port NOT IN (80, 443) AND EXISTS network-traffic:src_ref "
+      + "AND network-traffic:start > t'2024-01-01T00:00:00Z'] REPEATS 3 TIMES "
+      + "START t'2024-01-01T00:00:00Z' STOP t'2024-02-01T00:00:00Z'"
+    );
+
+    expect(parsed.ast).toMatchObject({
+      comparison: {
+        kind: 'and',
+        operands: [
+          { operator: 'IN', negated: true, value: [{ type: 'integer', value: 80 }, { type: 'integer', value: 443 }] },
+          { kind: 'exists' },
+          { value: { type: 'timestamp', value: '2024-01-01T00:00:00Z' } }
+        ]
+      },
+      qualifiers: [{ kind: 'repeats', times: 3 }, { kind: 'start-stop' }]
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseSTIXPattern("[ipv4-addr:value = '1.2.3.4'")).toThrow(STIXPatternError);
+
+    try {
+      parseSTIXPattern("[ipv4-addr:value ~ '1.2.3.4']");
+      throw new Error('expected parse failure');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(STIXPatternError);
+      expect(error.position).toBe(17);
+    }
+  });
+
+  it('should reject unknown observable types and properties', () => {
+    expect(() => parseSTIXPattern("[ip-address:value = '1.2.3.4']")).toThrow(/Unknown cyber-observable type/);
+    expect(() => parseSTIXPattern("[ipv4-addr:address = '1.2.3.4']")).toThrow(/Unknown property/);
+  });
+
+  it('should accept custom objects and properties', () => {
+    expect(() => parseSTIXPattern("[x-acme-sensor:reading > 5]")).not.toThrow();
+    expect(() => parseSTIXPattern("[file:x_acme_score > 5]")).not.toThrow();
+  });
+
+  it('should reject AND across different object types within one observation', () => {
+    expect(() => parseSTIXPattern("[ipv4-addr:value = '1.2.3.4' AND domain-name:value = 'a.example']"))
+      .toThrow(/same object type/);
+    expect(() => parseSTIXPattern("[ipv4-addr:value = '1.2.3.4' OR domain-name:value = 'a.example']"))
+      .not.toThrow();
+  });
+
+  it('should reject invalid MATCHES expressions and timestamps', () => {
+    expect(() => parseSTIXPattern("[file:name MATCHES '(unclosed']")).toThrow(/regular expression/);
+    expect(() => parseSTIXPattern("[file:ctime > t'2024-13-45']")).toThrow(/timestamp/);
+    expect(() => parseSTIXPattern(`[file:name MATCHES '${'a'.repeat(201)}']`))
+      .toThrow(/longer than/);
+    expect(() => parseSTIXPattern("[file:name MATCHES '(a+)+$']")).toThrow(STIXPatternError);
+    expect(() => parseSTIXPattern("[file:name MATCHES '(a+)+$']")).toThrow(/nested quantifiers/);
+  });
+
+  it('should bound the pattern and the data of evaluation requests', () => {
+    const pattern = "[ipv4-addr:value = '1.2.3.4']";
+    expect(evaluatePatternSchema.validate({ pattern, iocs: [{ value: '1.2.3.4' }] }).value)
+      .toEqual({ pattern, observations: [], iocs: [{ value: '1.2.3.4' }], events: [] });
+
+    const errorOf = (body: unknown) => evaluatePatternSchema.validate(body).error?.message;
+    expect(errorOf({})).toMatch(/"pattern" is required/);
+    expect(errorOf({ pattern: 'x'.repeat(MAX_PATTERN_LENGTH + 1) })).toMatch(/pattern/);
+    expect(errorOf({ pattern, events: {} })).toMatch(/"events" must be an array/);
+    expect(errorOf({ pattern, observations: ['1.2.3.4'] })).toMatch(/must be of type object/);
+    expect(errorOf({ pattern, iocs: Array(MAX_EVALUATION_ITEMS + 1).fill({}) }))
+      .toMatch(/"iocs" must contain less than or equal to/);
+    expect(errorOf({ pattern, events: [{ sourceIp: ['10.0.0.1'] }] }))
+      .toMatch(/"events\[0\].sourceIp" must be a string/);
+    const event = { sourceIp: '10.0.0.1', port: 22 };
+    expect(evaluatePatternSchema.validate({ pattern, events: [event] }).value.events)
+      .toEqual([event]);
+  });
+});
+
+describe('STIX pattern evaluator', () => {
+  const evaluator = new STIXPatternEvaluator();
+
+  it('should match comparison operators against object values', () => {
+    const observations = [
+      observation('2024-01-01T00:00:00Z', { type: 'file', name: 'invoice.exe', size: 2048, hashes: { 'SHA-256': 'abc' } })
+    ];
+
+    expect(evaluator.evaluate("[file:hashes.'SHA-256' = 'abc']", observations).matched).toBe(true);
+    expect(evaluator.evaluate("[file:name LIKE '%.exe' AND file:size >= 1024]", observations).matched).toBe(true);
+    expect(evaluator.evaluate("[file:name MATCHES '^inv.*\\\\.exe$']", observations).matched).toBe(true);
+    const name = 'a'.repeat(MAX_MATCH_LENGTH + 1);
+    const long = [observation('2024-01-01T00:00:00Z', { type: 'file', name })];
+    expect(evaluator.evaluate("[file:name MATCHES '^a']", long).matched).toBe(false);
+    expect(evaluator.evaluate("[file:name IN ('a.exe', 'b.exe')]", observations).matched).toBe(false);
+    expect(evaluator.evaluate("[file:name NOT = 'invoice.exe']", observations).matched).toBe(false);
+    expect(evaluator.evaluate("[file:mime_type NOT = 'text/plain']", observations).matched).toBe(false);
+  });
+
+  it('should evaluate CIDR subset and superset operators', () => {
+    const observations = [
+      observation('2024-01-01T00:00:00Z', { type: 'ipv4-addr', value: '10.1.2.3' }),
+      observation('2024-01-01T00:00:01Z', { type: 'ipv6-addr', value: '2001:db8::/48' })
+    ];
+
+    expect(evaluator.evaluate("[ipv4-addr:value ISSUBSET '10.0.0.0/8']", observations).matched).toBe(true);
+    expect(evaluator.evaluate("[ipv4-addr:value ISSUBSET '192.168.0.0/16']", observations).matched).toBe(false);
+    expect(evaluator.evaluate("[ipv6-addr:value ISSUPERSET '2001:db8:0:1::1']", observations).matched).toBe(true);
+  });
+
+  it('should follow reference properties within an observation', () => {
+    const observations = [observation(
+      '2024-01-01T00:00:00Z',
+      { type: 'ipv4-addr', value: '203.0.113.5' },
+      { type: 'network-traffic', src_ref: '0', dst_port: 4444, protocols: ['tcp'] }
+    )];
+
+    const result = evaluator.evaluate(
+      "[network-traffic:src_ref.value = '203.0.113.5' AND network-traffic:protocols[*] = 'tcp']",
+      observations
+    );
+    expect(result.matched).toBe(true);
+    expect(result.matches).toEqual([{ observations: [0] }]);
+  });
+
+  it('should require ordering for FOLLOWEDBY', () => {
+    const observations = [
+      observation('2024-01-01T00:00:10Z', { type: 'domain-name', value: 'evil.example' }),
+      observation('2024-01-01T00:00:20Z', { type: 'url', value: 'http://evil.example/payload' })
+    ];
+
+    expect(evaluator.evaluate(
+      "[domain-name:value = 'evil.example'] FOLLOWEDBY [url:value LIKE 'http://evil.example/%']",
+      observations
+    ).matches).toEqual([{ observations: [0, 1] }]);
+
+    expect(evaluator.evaluate(
+      "[url:value LIKE 'http://evil.example/%'] FOLLOWEDBY [domain-name:value = 'evil.example']",
+      observations
+    ).matched).toBe(false);
+  });
+
+  it('should apply WITHIN, REPEATS and START/STOP qualifiers', () => {
+    const observations = [0, 30, 40, 50, 500].map(seconds => observation(
+      new Date(Date.UTC(2024, 0, 1) + seconds * 1000).toISOString(),
+      { type: 'user-account', account_login: 'admin' }
+    ));
+
+    expect(evaluator.evaluate(
+      "[user-account:account_login = 'admin'] REPEATS 3 TIMES WITHIN 30 SECONDS",
+      observations
+    ).matches).toEqual([{ observations: [1, 2, 3] }]);
+
+    expect(evaluator.evaluate(
+      "[user-account:account_login = 'admin'] REPEATS 5 TIMES WITHIN 60 SECONDS",
+      observations
+    ).matched).toBe(false);
+
+    expect(evaluator.evaluate(
+      "[user-account:account_login = 'admin'] START t'2024-01-01T00:05:00Z' STOP t'2024-01-01T01:00:00Z'",
+      observations
+    ).matches).toEqual([{ observations: [4] }]);
+  });
+
+  it('should evaluate patterns against IOCs and normalized events', () => {
+    const ioc = { type: 'hash_sha256', value: 'deadbeef', last_seen: '2024-01-01T00:00:00Z' };
+    expect(evaluator.evaluate("[file:hashes.'SHA-256' = 'deadbeef']", [iocToObservation(ioc)]).matched).toBe(true);
+
+    const event = {
+      id: 'evt-1',
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      sourceType: 'firewall',
+      sourceIp: '10.0.0.5',
+      destIp: '198.51.100.7',
+      destPort: 443,
+      protocol: 'TCP',
+      username: 'jdoe',
+      severity: 'medium',
+      category: 'network',
+      eventType: 'connection',
+      message: '',
+      rawLog: '',
+      tags: [],
+      metadata: {},
+      normalized: true
+    } as NormalizedEvent;
+
+    const observations = [eventToObservation(event)];
+    expect(evaluator.evaluate(
+      "[network-traffic:dst_ref.value = '198.51.100.7' AND network-traffic:dst_port = 443]",
+      observations
+    ).matched).toBe(true);
+    expect(evaluator.evaluate("[user-account:account_login = 'jdoe']", observations).matched).toBe(true);
+  });
+});
+
+describe('STIXConverter.parsePattern', () => {
+  it('should keep type and value for single comparison patterns', () => {
+    const parsed = stixConverter.parsePattern("[domain-name:value = 'evil.example']");
+
+    expect(parsed.type).toBe('domain-name');
+    expect(parsed.value).toBe('evil.example');
+  });
+
+  it('should list every comparison of compound patterns', () => {
+    const parsed = stixConverter.parsePattern(
+      "[file:hashes.'SHA-256' = 'abc' OR file:hashes.MD5 = 'def'] AND [ipv4-addr:value = '1.2.3.4']"
+    );
+
+    expect(parsed.type).toBeUndefined();
+    expect(parsed.comparisons.map(c => c.path)).toEqual([
+      "file:hashes.'SHA-256'",
+      'file:hashes.MD5',
+      'ipv4-addr:value'
+    ]);
+  });
+});
@@ -5,25 +5,62 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { stixConverter } from './converter';
+import { stixImporter } from './importer';
+import { stixExporter } from './exporter';
+import { TLP_MARKING_DEFINITIONS } from './types';
+import type { TLPLevel } from './types';
+import { STIXPatternError } from './pattern-parser';
+import { iocToObservation, eventToObservation } from './pattern-evaluator';
 
 export class STIXController {
   /**
-   * Export entities to STIX 2.1 bundle
+   * Export entities to STIX 2.1 bundle.
+   * Stored entities are selected by `ids` or filter; entities passed inline are converted as-is.
    */
   async exportBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { indicators, threats, threatActors, vulnerabilities } = req.body;
+      const inlineKeys = [
+        'indicators', 'threats', 'threatActors', 'intrusionSets', 'vulnerabilities', 'attackPatterns',
+        'campaigns', 'coursesOfAction', 'identities', 'infrastructure', 'tools', 'sightings', 'relationships'
+      ];
 
-      const bundle = stixConverter.exportToBundle({
-        indicators,
-        threats,
-        threatActors,
-        vulnerabilities
+      if (inlineKeys.some(key => Array.isArray(req.body[key]))) {
+        const bundle = stixConverter.exportToBundle(req.body);
+
+        res.json({
+          success: true,
+          data: bundle
+        });
+        return;
+      }
+
+      const {
+        ids, entityTypes, modifiedSince, tags, tlp, includeRelationships, includeObservables, limit
+      } = req.body;
+
+      if (tlp && !TLP_MARKING_DEFINITIONS[tlp as TLPLevel]) {
+        res.status(400).json({
+          success: false,
+          error: `Unsupported TLP level: ${tlp}`
+        });
+        return;
+      }
+
+      const result = await stixExporter.exportEntities({
+        ids,
+        entityTypes,
+        modifiedSince,
+        tags,
+        tlp,
+        includeRelationships,
+        includeObservables,
+        limit
       });
 
       res.json({
         success: true,
-        data: bundle
+        data: result.bundle,
+        skipped: result.skipped
       });
     } catch (error: any) {
       next(error);
@@ -31,7 +68,7 @@ export class STIXController {
   }
 
   /**
-   * Import STIX 2.1 bundle
+   * Import STIX 2.1 bundle into the IOC, threat actor, malware and vulnerability stores
    */
   async importBundle(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -45,18 +82,14 @@ export class STIXController {
         return;
       }
 
-      const result = stixConverter.importBundle(bundle);
+      const report = await stixImporter.importBundle(bundle, {
+        source: req.body.source
+      });
 
       res.json({
         success: true,
-        data: result,
-        counts: {
-          indicators: result.indicators.length,
-          threats: result.threats.length,
-          threatActors: result.threatActors.length,
-          vulnerabilities: result.vulnerabilities.length,
-          relationships: result.relationships.length
-        }
+        data: report,
+        counts: report.counts
       });
     } catch (error: any) {
       next(error);
@@ -90,9 +123,43 @@ export class STIXController {
         case 'threat-actor':
           stixObject = stixConverter.threatActorToSTIX(entity);
           break;
+        case 'intrusion-set':
+          stixObject = stixConverter.intrusionSetToSTIX(entity);
+          break;
         case 'vulnerability':
           stixObject = stixConverter.vulnerabilityToSTIX(entity);
           break;
+        case 'attack-pattern':
+          stixObject = stixConverter.attackPatternToSTIX(entity);
+          break;
+        case 'campaign':
+          stixObject = stixConverter.campaignToSTIX(entity);
+          break;
+        case 'course-of-action':
+          stixObject = stixConverter.courseOfActionToSTIX(entity);
+          break;
+        case 'identity':
+          stixObject = stixConverter.identityToSTIX(entity);
+          break;
+        case 'infrastructure':
+          stixObject = stixConverter.infrastructureToSTIX(entity);
+          break;
+        case 'tool':
+          stixObject = stixConverter.toolToSTIX(entity);
+          break;
+        case 'sighting':
+          stixObject = stixConverter.sightingToSTIX(entity);
+          break;
+        case 'observable':
+          stixObject = stixConverter.observableToSTIX(entity.type, entity.value, entity.hash_type);
+          if (!stixObject) {
+            res.status(400).json({
+              success: false,
+              error: `No STIX observable for IOC type: ${entity.type}`
+            });
+            return;
+          }
+          break;
         default:
           res.status(400).json({
             success: false,
@@ -127,19 +194,54 @@ export class STIXController {
 
       const parsed = stixConverter.parsePattern(pattern);
 
-      if (!parsed) {
+      res.json({
+        success: true,
+        data: parsed
+      });
+    } catch (error: any) {
+      if (error instanceof STIXPatternError) {
         res.status(400).json({
           success: false,
-          error: 'Invalid STIX pattern'
+          error: 'Invalid STIX pattern',
+          details: error.message,
+          position: error.position
         });
         return;
       }
+      next(error);
+    }
+  }
+
+  /**
+   * Evaluate STIX pattern against observations, IOCs or normalized SIEM events
+   */
+  async evaluatePattern(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validated against evaluatePatternSchema
+      const { pattern, observations, iocs, events } = req.body;
+
+      const allObservations = [
+        ...observations,
+        ...iocs.map(iocToObservation),
+        ...events.map(eventToObservation)
+      ];
+
+      const result = stixConverter.evaluatePattern(pattern, allObservations);
 
       res.json({
         success: true,
-        data: parsed
+        data: result
       });
     } catch (error: any) {
+      if (error instanceof STIXPatternError) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid STIX pattern',
+          details: error.message,
+          position: error.position
+        });
+        return;
+      }
       next(error);
     }
   }
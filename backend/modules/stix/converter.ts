@@ -4,8 +4,116 @@
  * Adapted from OpenCTI Platform
  */
 
-import { v4 as uuidv4 } from 'uuid';
-import type { STIXObject, STIXBundle, Indicator, Malware, ThreatActor, Vulnerability, Relationship } from './types';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { APP } from '../../constants';
+import type {
+  STIXObject,
+  STIXBundle,
+  AttackPattern,
+  Campaign,
+  CourseOfAction,
+  Identity,
+  Indicator,
+  Infrastructure,
+  Malware,
+  ThreatActor,
+  Tool,
+  Vulnerability,
+  Relationship,
+  Sighting,
+  IntrusionSet,
+  ObservedObject,
+  ParsedPattern,
+  PatternObservation,
+  PatternEvaluationResult
+} from './types';
+import { parseSTIXPattern, collectComparisons, formatObjectPath } from './pattern-parser';
+import { stixPatternEvaluator } from './pattern-evaluator';
+
+/**
+ * IOC types for the observable paths an indicator pattern can test with '='
+ */
+const PATTERN_PATH_IOC_TYPES: { [path: string]: string } = {
+  'ipv4-addr:value': 'ip',
+  'ipv6-addr:value': 'ip',
+  'domain-name:value': 'domain',
+  'url:value': 'url',
+  'email-addr:value': 'email',
+  'file:name': 'file_name',
+  'windows-registry-key:key': 'registry_key',
+  'mutex:name': 'mutex'
+};
+
+/**
+ * Derive a severity from a STIX confidence value
+ */
+const severityFromConfidence = (confidence?: number): string => {
+  if (confidence === undefined || confidence === null) return 'medium';
+  if (confidence >= 85) return 'critical';
+  if (confidence >= 70) return 'high';
+  if (confidence >= 40) return 'medium';
+  return 'low';
+};
+
+/**
+ * Namespace for deterministic identifiers of objects this platform authors
+ */
+const BLACK_CROSS_STIX_NAMESPACE = 'a4b5ce5f-0e58-4c2d-9c0e-5f3f0c5d7b2e';
+
+/**
+ * Namespace the STIX 2.1 specification mandates for SCO identifiers (section 2.9)
+ */
+const SCO_NAMESPACE = '00abedb4-aa42-4ac5-bd03-6ef9637d3f9d';
+
+/**
+ * Stable creation time for the organisation identity, so re-exports are identical
+ */
+const ORGANIZATION_IDENTITY_CREATED = '2024-01-01T00:00:00.000Z';
+
+/**
+ * STIX hash algorithm names for IOC hash types, in the order SCO IDs prefer them
+ */
+const IOC_HASH_ALGORITHMS: { [type: string]: string } = {
+  md5: 'MD5',
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha512: 'SHA-512'
+};
+
+/**
+ * Observable type and property for each IOC type with a direct STIX equivalent
+ */
+const IOC_OBSERVABLE_PATHS: { [type: string]: { type: string; property: string } } = {
+  domain: { type: 'domain-name', property: 'value' },
+  url: { type: 'url', property: 'value' },
+  email: { type: 'email-addr', property: 'value' },
+  file_name: { type: 'file', property: 'name' },
+  registry_key: { type: 'windows-registry-key', property: 'key' },
+  mutex: { type: 'mutex', property: 'name' }
+};
+
+/**
+ * Escape a value for use inside a quoted pattern string literal
+ */
+const escapePatternString = (value: string): string => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+/**
+ * Serialize a value as JSON with sorted keys, as SCO identifiers require (RFC 8785 subset)
+ */
+const canonicalJSON = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const toTimestamp = (value: any): string | undefined => {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : value;
+};
 
 export class STIXConverter {
   /**
@@ -15,6 +123,45 @@ export class STIXConverter {
     return `${type}--${uuidv4()}`;
   }
 
+  /**
+   * Generate a STIX 2.1 ID that is the same every time for the same name
+   */
+  generateDeterministicId(type: string, name: string): string {
+    return `${type}--${uuidv5(`${type}:${name}`, BLACK_CROSS_STIX_NAMESPACE)}`;
+  }
+
+  /**
+   * ID for an entity: its stored stix_id, else derived from its platform ID or content
+   */
+  private entityId(type: string, entity: any, ...content: any[]): string {
+    if (entity.stix_id) {
+      return entity.stix_id;
+    }
+    if (entity.id) {
+      return this.generateDeterministicId(type, String(entity.id));
+    }
+    const name = content.filter(part => part !== undefined && part !== null).join('|');
+    return name ? this.generateDeterministicId(type, name) : this.generateSTIXId(type);
+  }
+
+  /**
+   * Properties shared by every SDO and SRO
+   */
+  private commonProperties(entity: any): Partial<STIXObject> {
+    const timestamp = this.getSTIXTimestamp();
+
+    return {
+      spec_version: '2.1',
+      created: toTimestamp(entity.created_at) || timestamp,
+      modified: toTimestamp(entity.updated_at) || toTimestamp(entity.created_at) || timestamp,
+      created_by_ref: entity.created_by_ref,
+      confidence: entity.confidence,
+      labels: entity.labels,
+      external_references: entity.external_references,
+      object_marking_refs: entity.object_marking_refs
+    };
+  }
+
   /**
    * Get current timestamp in STIX format
    */
@@ -22,124 +169,342 @@ export class STIXConverter {
     return new Date().toISOString();
   }
 
+  /**
+   * Identity object for the organisation running this platform
+   */
+  organizationIdentity(): Identity {
+    const name = process.env.STIX_ORGANIZATION_NAME || APP.NAME;
+
+    return {
+      type: 'identity',
+      spec_version: '2.1',
+      id: this.generateDeterministicId('identity', name),
+      created: ORGANIZATION_IDENTITY_CREATED,
+      modified: ORGANIZATION_IDENTITY_CREATED,
+      name,
+      identity_class: 'organization',
+      contact_information: APP.CONTACT.EMAIL
+    };
+  }
+
+  /**
+   * Build a pattern testing a single IOC value, or null for IOC types without a STIX equivalent
+   */
+  iocToPattern(type: string, value: string, hashType?: string): string | null {
+    const observable = this.observableToSTIX(type, value, hashType);
+    if (!observable) {
+      return null;
+    }
+
+    const escaped = escapePatternString(value);
+    if (observable.type === 'file' && observable.hashes) {
+      const algorithm = Object.keys(observable.hashes)[0];
+      return `[file:hashes.'${algorithm}' = '${escapePatternString(observable.hashes[algorithm])}']`;
+    }
+    const property = Object.keys(observable).find(key => !['type', 'spec_version', 'id'].includes(key));
+    return `[${observable.type}:${property} = '${escaped}']`;
+  }
+
+  /**
+   * Convert an IOC type and value to a cyber-observable with a spec-compliant deterministic ID
+   */
+  observableToSTIX(type: string, value: string, hashType?: string): any | null {
+    let observable: any = null;
+
+    if (type === 'ip') {
+      observable = { type: value.includes(':') ? 'ipv6-addr' : 'ipv4-addr', value };
+    } else if (IOC_HASH_ALGORITHMS[type] || type === 'hash') {
+      const algorithm = this.hashAlgorithm(type, value, hashType);
+      observable = algorithm ? { type: 'file', hashes: { [algorithm]: value.toLowerCase() } } : null;
+    } else if (IOC_OBSERVABLE_PATHS[type]) {
+      const path = IOC_OBSERVABLE_PATHS[type];
+      observable = { type: path.type, [path.property]: value };
+    }
+
+    if (!observable) {
+      return null;
+    }
+
+    const { type: observableType, ...contributing } = observable;
+    return {
+      type: observableType,
+      spec_version: '2.1',
+      id: `${observableType}--${uuidv5(canonicalJSON(contributing), SCO_NAMESPACE)}`,
+      ...contributing
+    };
+  }
+
+  /**
+   * STIX hash algorithm for an IOC hash, from its type, recorded hash type or length
+   */
+  private hashAlgorithm(type: string, value: string, hashType?: string): string | null {
+    if (IOC_HASH_ALGORITHMS[type]) {
+      return IOC_HASH_ALGORITHMS[type];
+    }
+    const normalized = (hashType || '').replace('-', '').toLowerCase();
+    if (IOC_HASH_ALGORITHMS[normalized]) {
+      return IOC_HASH_ALGORITHMS[normalized];
+    }
+    const byLength: { [length: number]: string } = {
+      32: 'MD5', 40: 'SHA-1', 64: 'SHA-256', 128: 'SHA-512'
+    };
+    return byLength[value.length] || null;
+  }
+
   /**
    * Convert Black-Cross indicator to STIX Indicator
    */
   indicatorToSTIX(indicator: any): Indicator {
-    const timestamp = this.getSTIXTimestamp();
-    
+    const common = this.commonProperties(indicator);
+    const pattern = indicator.pattern
+      || this.iocToPattern(indicator.type, indicator.value, indicator.hash_type)
+      || `[${indicator.type}:value = '${escapePatternString(String(indicator.value))}']`;
+
     return {
+      ...common,
       type: 'indicator',
-      spec_version: '2.1',
-      id: indicator.stix_id || this.generateSTIXId('indicator'),
-      created: indicator.created_at || timestamp,
-      modified: indicator.updated_at || timestamp,
+      id: this.entityId('indicator', indicator, pattern),
       name: indicator.name,
       description: indicator.description,
       indicator_types: indicator.types || ['malicious-activity'],
-      pattern: indicator.pattern || `[${indicator.type}:value = '${indicator.value}']`,
+      pattern,
       pattern_type: 'stix',
-      valid_from: indicator.valid_from || timestamp,
-      valid_until: indicator.valid_until,
-      confidence: indicator.confidence,
-      labels: indicator.labels
-    };
+      valid_from: toTimestamp(indicator.valid_from) || common.created,
+      valid_until: toTimestamp(indicator.valid_until),
+      kill_chain_phases: indicator.kill_chain_phases
+    } as Indicator;
   }
 
   /**
    * Convert Black-Cross threat to STIX Malware
    */
   threatToSTIX(threat: any): Malware {
-    const timestamp = this.getSTIXTimestamp();
-    
     return {
+      ...this.commonProperties(threat),
       type: 'malware',
-      spec_version: '2.1',
-      id: threat.stix_id || this.generateSTIXId('malware'),
-      created: threat.created_at || timestamp,
-      modified: threat.updated_at || timestamp,
+      id: this.entityId('malware', threat, threat.name),
       name: threat.name,
       description: threat.description,
       malware_types: threat.types || ['trojan'],
       is_family: threat.is_family || false,
       aliases: threat.aliases,
-      first_seen: threat.first_seen,
-      last_seen: threat.last_seen,
-      labels: threat.labels
-    };
+      kill_chain_phases: threat.kill_chain_phases,
+      first_seen: toTimestamp(threat.first_seen),
+      last_seen: toTimestamp(threat.last_seen),
+      capabilities: threat.capabilities,
+      implementation_languages: threat.implementation_languages,
+      architecture_execution_envs: threat.architecture_execution_envs
+    } as Malware;
   }
 
   /**
    * Convert Black-Cross threat actor to STIX ThreatActor
    */
   threatActorToSTIX(actor: any): ThreatActor {
-    const timestamp = this.getSTIXTimestamp();
-    
     return {
+      ...this.commonProperties(actor),
       type: 'threat-actor',
-      spec_version: '2.1',
-      id: actor.stix_id || this.generateSTIXId('threat-actor'),
-      created: actor.created_at || timestamp,
-      modified: actor.updated_at || timestamp,
+      id: this.entityId('threat-actor', actor, actor.name),
       name: actor.name,
       description: actor.description,
       threat_actor_types: actor.types || ['criminal'],
       aliases: actor.aliases,
-      first_seen: actor.first_seen,
-      last_seen: actor.last_seen,
+      first_seen: toTimestamp(actor.first_seen),
+      last_seen: toTimestamp(actor.last_seen),
       goals: actor.goals,
       sophistication: actor.sophistication,
       resource_level: actor.resource_level,
       primary_motivation: actor.primary_motivation,
-      labels: actor.labels
-    };
+      secondary_motivations: actor.secondary_motivations
+    } as ThreatActor;
+  }
+
+  /**
+   * Convert Black-Cross intrusion set (threat actor tracked as a group of activity) to STIX
+   */
+  intrusionSetToSTIX(intrusionSet: any): IntrusionSet {
+    return {
+      ...this.commonProperties(intrusionSet),
+      type: 'intrusion-set',
+      id: this.entityId('intrusion-set', intrusionSet, intrusionSet.name),
+      name: intrusionSet.name,
+      description: intrusionSet.description,
+      aliases: intrusionSet.aliases,
+      first_seen: toTimestamp(intrusionSet.first_seen),
+      last_seen: toTimestamp(intrusionSet.last_seen),
+      goals: intrusionSet.goals,
+      resource_level: intrusionSet.resource_level,
+      primary_motivation: intrusionSet.primary_motivation,
+      secondary_motivations: intrusionSet.secondary_motivations
+    } as IntrusionSet;
   }
 
   /**
    * Convert Black-Cross vulnerability to STIX Vulnerability
    */
   vulnerabilityToSTIX(vuln: any): Vulnerability {
-    const timestamp = this.getSTIXTimestamp();
-    
+    const cveReference = vuln.cve_id ? [{
+      source_name: 'cve',
+      external_id: vuln.cve_id,
+      url: `https://cve.mitre.org/cgi-bin/cvename.cgi?name=${vuln.cve_id}`
+    }] : [];
+    const externalReferences = [...cveReference, ...(vuln.external_references || [])];
+
     return {
+      ...this.commonProperties(vuln),
       type: 'vulnerability',
-      spec_version: '2.1',
-      id: vuln.stix_id || this.generateSTIXId('vulnerability'),
-      created: vuln.created_at || timestamp,
-      modified: vuln.updated_at || timestamp,
+      id: this.entityId('vulnerability', vuln, vuln.cve_id || vuln.name),
       name: vuln.name || vuln.cve_id,
       description: vuln.description,
-      external_references: vuln.cve_id ? [{
-        source_name: 'cve',
-        external_id: vuln.cve_id,
-        url: `https://cve.mitre.org/cgi-bin/cvename.cgi?name=${vuln.cve_id}`
-      }] : undefined,
-      labels: vuln.labels
-    };
+      external_references: externalReferences.length > 0 ? externalReferences : undefined
+    } as Vulnerability;
+  }
+
+  /**
+   * Convert Black-Cross attack pattern (e.g. a MITRE ATT&CK technique) to STIX
+   */
+  attackPatternToSTIX(attackPattern: any): AttackPattern {
+    const mitreReference = attackPattern.mitre_id ? [{
+      source_name: 'mitre-attack',
+      external_id: attackPattern.mitre_id,
+      url: `https://attack.mitre.org/techniques/${attackPattern.mitre_id.replace('.', '/')}/`
+    }] : [];
+    const externalReferences = [...mitreReference, ...(attackPattern.external_references || [])];
+
+    return {
+      ...this.commonProperties(attackPattern),
+      type: 'attack-pattern',
+      id: this.entityId('attack-pattern', attackPattern, attackPattern.mitre_id || attackPattern.name),
+      name: attackPattern.name,
+      description: attackPattern.description,
+      aliases: attackPattern.aliases,
+      kill_chain_phases: attackPattern.kill_chain_phases,
+      external_references: externalReferences.length > 0 ? externalReferences : undefined
+    } as AttackPattern;
+  }
+
+  /**
+   * Convert Black-Cross campaign to STIX Campaign
+   */
+  campaignToSTIX(campaign: any): Campaign {
+    return {
+      ...this.commonProperties(campaign),
+      type: 'campaign',
+      id: this.entityId('campaign', campaign, campaign.name),
+      name: campaign.name,
+      description: campaign.description,
+      aliases: campaign.aliases,
+      first_seen: toTimestamp(campaign.first_seen),
+      last_seen: toTimestamp(campaign.last_seen),
+      objective: campaign.objective
+    } as Campaign;
+  }
+
+  /**
+   * Convert Black-Cross mitigation to STIX CourseOfAction
+   */
+  courseOfActionToSTIX(courseOfAction: any): CourseOfAction {
+    return {
+      ...this.commonProperties(courseOfAction),
+      type: 'course-of-action',
+      id: this.entityId('course-of-action', courseOfAction, courseOfAction.name),
+      name: courseOfAction.name,
+      description: courseOfAction.description
+    } as CourseOfAction;
+  }
+
+  /**
+   * Convert Black-Cross organisation, team or person to STIX Identity
+   */
+  identityToSTIX(identity: any): Identity {
+    return {
+      ...this.commonProperties(identity),
+      type: 'identity',
+      id: this.entityId('identity', identity, identity.name),
+      name: identity.name,
+      description: identity.description,
+      identity_class: identity.identity_class || 'organization',
+      roles: identity.roles,
+      sectors: identity.sectors,
+      contact_information: identity.contact_information
+    } as Identity;
+  }
+
+  /**
+   * Convert Black-Cross infrastructure (C2 servers, botnets, hosting) to STIX Infrastructure
+   */
+  infrastructureToSTIX(infrastructure: any): Infrastructure {
+    return {
+      ...this.commonProperties(infrastructure),
+      type: 'infrastructure',
+      id: this.entityId('infrastructure', infrastructure, infrastructure.name),
+      name: infrastructure.name,
+      description: infrastructure.description,
+      infrastructure_types: infrastructure.types,
+      aliases: infrastructure.aliases,
+      kill_chain_phases: infrastructure.kill_chain_phases,
+      first_seen: toTimestamp(infrastructure.first_seen),
+      last_seen: toTimestamp(infrastructure.last_seen)
+    } as Infrastructure;
+  }
+
+  /**
+   * Convert Black-Cross tool to STIX Tool
+   */
+  toolToSTIX(tool: any): Tool {
+    return {
+      ...this.commonProperties(tool),
+      type: 'tool',
+      id: this.entityId('tool', tool, tool.name),
+      name: tool.name,
+      description: tool.description,
+      tool_types: tool.types,
+      aliases: tool.aliases,
+      kill_chain_phases: tool.kill_chain_phases,
+      tool_version: tool.tool_version
+    } as Tool;
   }
 
   /**
-   * Create STIX Relationship
+   * Convert Black-Cross sighting to STIX Sighting
+   */
+  sightingToSTIX(sighting: any): Sighting {
+    return {
+      ...this.commonProperties(sighting),
+      type: 'sighting',
+      id: this.entityId('sighting', sighting, sighting.sighting_of_ref, toTimestamp(sighting.first_seen)),
+      description: sighting.description,
+      first_seen: toTimestamp(sighting.first_seen),
+      last_seen: toTimestamp(sighting.last_seen),
+      count: sighting.count,
+      sighting_of_ref: sighting.sighting_of_ref,
+      observed_data_refs: sighting.observed_data_refs,
+      where_sighted_refs: sighting.where_sighted_refs
+    } as Sighting;
+  }
+
+  /**
+   * Create STIX Relationship.
+   * The ID is derived from its endpoints and type, so the same link always exports the same way.
    */
   createRelationship(
     sourceRef: string,
     targetRef: string,
     relationshipType: string,
-    description?: string
+    description?: string,
+    entity: any = {}
   ): Relationship {
-    const timestamp = this.getSTIXTimestamp();
-    
     return {
+      ...this.commonProperties(entity),
       type: 'relationship',
-      spec_version: '2.1',
-      id: this.generateSTIXId('relationship'),
-      created: timestamp,
-      modified: timestamp,
+      id: entity.stix_id || this.generateDeterministicId('relationship', `${sourceRef}|${relationshipType}|${targetRef}`),
       relationship_type: relationshipType,
       source_ref: sourceRef,
       target_ref: targetRef,
-      description
-    };
+      description,
+      start_time: toTimestamp(entity.start_time),
+      stop_time: toTimestamp(entity.stop_time)
+    } as Relationship;
   }
 
   /**
@@ -173,16 +538,209 @@ export class STIXConverter {
   }
 
   /**
-   * Parse STIX pattern to extract IOC value
+   * Map a STIX indicator to IOC model attributes.
+   * The first '=' comparison on a known observable becomes the IOC type/value;
+   * the full pattern is kept in metadata so it can be evaluated as-is.
    */
-  parsePattern(pattern: string): { type: string; value: string } | null {
-    // Simple pattern parser for basic patterns
-    // Example: [ipv4-addr:value = '192.168.1.1']
-    const match = pattern.match(/\[([^:]+):value\s*=\s*'([^']+)'\]/);
-    if (match) {
-      return { type: match[1], value: match[2] };
+  stixToIOC(indicator: Indicator): any {
+    let type = 'stix_pattern';
+    let value = indicator.pattern;
+    const metadata: any = {
+      stix_type: 'indicator',
+      stix_modified: indicator.modified,
+      pattern: indicator.pattern,
+      pattern_type: indicator.pattern_type,
+      indicator_types: indicator.indicator_types,
+      valid_until: indicator.valid_until,
+      kill_chain_phases: indicator.kill_chain_phases,
+      object_marking_refs: indicator.object_marking_refs
+    };
+
+    if (indicator.pattern_type === 'stix') {
+      const comparisons = this.parsePattern(indicator.pattern).comparisons;
+      const observables = comparisons
+        .filter(comparison => comparison.operator === '=' && !comparison.negated)
+        .map(comparison => this.patternValueToIOC(comparison.path, String(comparison.value)))
+        .filter(observable => observable !== null);
+
+      if (observables.length > 0) {
+        ({ type, value } = observables[0]);
+        Object.assign(metadata, observables[0].metadata);
+        metadata.observables = observables;
+      }
     }
-    return null;
+
+    return {
+      stixId: indicator.id,
+      type,
+      value,
+      description: indicator.description || indicator.name,
+      severity: severityFromConfidence(indicator.confidence),
+      confidence: indicator.confidence ?? 50,
+      firstSeen: new Date(indicator.valid_from || indicator.created),
+      lastSeen: new Date(indicator.modified || indicator.created),
+      tags: indicator.labels || [],
+      isActive: !indicator.revoked,
+      metadata
+    };
+  }
+
+  /**
+   * Map a cyber-observable (SCO) to IOC model attributes, or null if it has no IOC equivalent
+   */
+  observableToIOC(observable: ObservedObject): any | null {
+    let mapped: { type: string; value: string; metadata: any } | null = null;
+
+    if (observable.type === 'file' && observable.hashes) {
+      const [algorithm, hash] = Object.entries(observable.hashes as { [algorithm: string]: string })[0] || [];
+      mapped = hash ? this.patternValueToIOC(`file:hashes.'${algorithm}'`, hash) : null;
+    } else {
+      const property = { 'windows-registry-key': 'key', mutex: 'name', file: 'name' }[observable.type] || 'value';
+      if (observable[property]) {
+        mapped = this.patternValueToIOC(`${observable.type}:${property}`, String(observable[property]));
+      }
+    }
+
+    if (!mapped) {
+      return null;
+    }
+
+    const timestamp = observable.modified || observable.created || new Date().toISOString();
+    return {
+      stixId: observable.id,
+      type: mapped.type,
+      value: mapped.value,
+      severity: 'medium',
+      confidence: observable.confidence ?? 50,
+      firstSeen: new Date(observable.created || timestamp),
+      lastSeen: new Date(timestamp),
+      tags: observable.labels || [],
+      isActive: true,
+      metadata: { ...mapped.metadata, stix_type: observable.type, stix_modified: observable.modified }
+    };
+  }
+
+  /**
+   * Map an object path and value from a pattern to an IOC type and value
+   */
+  patternValueToIOC(path: string, value: string): { type: string; value: string; metadata: any } | null {
+    const hashMatch = path.match(/^file:hashes\.'?([^']+)'?$/);
+    if (hashMatch) {
+      const hashType = hashMatch[1].replace('-', '').toUpperCase();
+      return { type: 'hash', value: value.toLowerCase(), metadata: { hash_type: hashType } };
+    }
+    const type = PATTERN_PATH_IOC_TYPES[path];
+    return type ? { type, value, metadata: {} } : null;
+  }
+
+  /**
+   * Map a STIX threat actor or intrusion set to ThreatActor model attributes
+   */
+  stixToThreatActor(actor: ThreatActor | IntrusionSet): any {
+    const motivations = [actor.primary_motivation, ...(actor.secondary_motivations || [])].filter(Boolean);
+
+    return {
+      stixId: actor.id,
+      name: actor.name,
+      aliases: actor.aliases || [],
+      description: actor.description,
+      sophistication: actor.type === 'threat-actor' ? actor.sophistication : undefined,
+      motivation: motivations,
+      firstSeen: actor.first_seen ? new Date(actor.first_seen) : undefined,
+      lastSeen: actor.last_seen ? new Date(actor.last_seen) : undefined,
+      tags: actor.labels || [],
+      metadata: {
+        stix_type: actor.type,
+        stix_modified: actor.modified,
+        goals: actor.goals,
+        resource_level: actor.resource_level,
+        threat_actor_types: actor.type === 'threat-actor' ? actor.threat_actor_types : undefined,
+        object_marking_refs: actor.object_marking_refs
+      }
+    };
+  }
+
+  /**
+   * Map a STIX malware object to Malware model attributes
+   */
+  stixToMalware(malware: Malware): any {
+    return {
+      stixId: malware.id,
+      name: malware.name || (malware.aliases && malware.aliases[0]) || malware.id,
+      description: malware.description,
+      malwareTypes: malware.malware_types || [],
+      isFamily: malware.is_family,
+      aliases: malware.aliases || [],
+      capabilities: malware.capabilities || [],
+      firstSeen: malware.first_seen ? new Date(malware.first_seen) : undefined,
+      lastSeen: malware.last_seen ? new Date(malware.last_seen) : undefined,
+      tags: malware.labels || [],
+      metadata: {
+        stix_type: 'malware',
+        stix_modified: malware.modified,
+        kill_chain_phases: malware.kill_chain_phases,
+        implementation_languages: malware.implementation_languages,
+        architecture_execution_envs: malware.architecture_execution_envs,
+        object_marking_refs: malware.object_marking_refs
+      }
+    };
+  }
+
+  /**
+   * Map a STIX vulnerability to Vulnerability model attributes
+   */
+  stixToVulnerability(vuln: Vulnerability): any {
+    const cve = (vuln.external_references || []).find(ref => ref.source_name === 'cve');
+    const cveId = cve ? cve.external_id : (/^CVE-\d{4}-\d+$/i.test(vuln.name) ? vuln.name.toUpperCase() : undefined);
+
+    return {
+      stixId: vuln.id,
+      cveId,
+      title: vuln.name,
+      description: vuln.description,
+      severity: severityFromConfidence(vuln.confidence),
+      affectedSystems: [],
+      discoveredAt: new Date(vuln.created),
+      metadata: { stix_type: 'vulnerability', stix_modified: vuln.modified }
+    };
+  }
+
+  /**
+   * Parse a STIX pattern into its AST and the comparisons it contains.
+   * For single-comparison patterns, `type` and `value` hold the tested value.
+   * @throws STIXPatternError when the pattern is malformed or uses unknown observables
+   */
+  parsePattern(pattern: string): ParsedPattern & {
+    type?: string;
+    value?: string;
+    comparisons: { path: string; operator: string; negated: boolean; value: any }[];
+  } {
+    const parsed = parseSTIXPattern(pattern);
+    const comparisons = collectComparisons(parsed.ast);
+    const single = comparisons.length === 1 && comparisons[0].operator === '=' && !comparisons[0].negated
+      ? comparisons[0]
+      : null;
+
+    return {
+      ...parsed,
+      type: single ? single.path.objectType : undefined,
+      value: single && !Array.isArray(single.value) ? String(single.value.value) : undefined,
+      comparisons: comparisons.map(comparison => ({
+        path: formatObjectPath(comparison.path),
+        operator: comparison.operator,
+        negated: comparison.negated,
+        value: Array.isArray(comparison.value)
+          ? comparison.value.map(literal => literal.value)
+          : comparison.value.value
+      }))
+    };
+  }
+
+  /**
+   * Evaluate a STIX pattern against observations (see iocToObservation / eventToObservation)
+   */
+  evaluatePattern(pattern: string, observations: PatternObservation[]): PatternEvaluationResult {
+    return stixPatternEvaluator.evaluate(parseSTIXPattern(pattern), observations);
   }
 
   /**
@@ -192,25 +750,45 @@ export class STIXConverter {
     indicators?: any[];
     threats?: any[];
     threatActors?: any[];
+    intrusionSets?: any[];
     vulnerabilities?: any[];
+    attackPatterns?: any[];
+    campaigns?: any[];
+    coursesOfAction?: any[];
+    identities?: any[];
+    infrastructure?: any[];
+    tools?: any[];
+    sightings?: any[];
+    relationships?: any[];
   }): STIXBundle {
-    const objects: STIXObject[] = [];
+    const converters: [any[] | undefined, (entity: any) => STIXObject][] = [
+      [entities.identities, i => this.identityToSTIX(i)],
+      [entities.indicators, i => this.indicatorToSTIX(i)],
+      [entities.threats, t => this.threatToSTIX(t)],
+      [entities.threatActors, a => this.threatActorToSTIX(a)],
+      [entities.intrusionSets, s => this.intrusionSetToSTIX(s)],
+      [entities.vulnerabilities, v => this.vulnerabilityToSTIX(v)],
+      [entities.attackPatterns, p => this.attackPatternToSTIX(p)],
+      [entities.campaigns, c => this.campaignToSTIX(c)],
+      [entities.coursesOfAction, c => this.courseOfActionToSTIX(c)],
+      [entities.infrastructure, i => this.infrastructureToSTIX(i)],
+      [entities.tools, t => this.toolToSTIX(t)],
+      [entities.sightings, s => this.sightingToSTIX(s)],
+      [entities.relationships, r => this.createRelationship(
+        r.source_ref,
+        r.target_ref,
+        r.relationship_type,
+        r.description,
+        r
+      )]
+    ];
 
-    if (entities.indicators) {
-      objects.push(...entities.indicators.map(i => this.indicatorToSTIX(i)));
-    }
-
-    if (entities.threats) {
-      objects.push(...entities.threats.map(t => this.threatToSTIX(t)));
-    }
-
-    if (entities.threatActors) {
-      objects.push(...entities.threatActors.map(a => this.threatActorToSTIX(a)));
-    }
-
-    if (entities.vulnerabilities) {
-      objects.push(...entities.vulnerabilities.map(v => this.vulnerabilityToSTIX(v)));
-    }
+    const objects: STIXObject[] = [];
+    converters.forEach(([list, convert]) => {
+      if (list) {
+        objects.push(...list.map(convert));
+      }
+    });
 
     return this.createBundle(objects);
   }
@@ -0,0 +1,792 @@
+/**
+ * STIX 2.1 Exporter
+ * Builds STIX bundles from the platform's stored intelligence
+ *
+ * Every object gets a stable identifier (its imported stix_id, or a UUIDv5
+ * derived from the platform ID), so consumers deduplicate repeated exports.
+ * The identifier is stored on the row, so listings select objects by ID in
+ * the database.
+ * Objects we author reference our organisation identity, and every object
+ * carries a TLP marking resolved from the entity or the export default.
+ *
+ * Only what the platform stores is exported: indicators and their
+ * observables, threat actors and intrusion sets, campaigns, malware,
+ * vulnerabilities, relationships and sightings. Campaigns are those of threat
+ * actor profiles and export with the profile they are attributed to; they are
+ * not listed, as collections are read from the database stores. Attack
+ * patterns, courses of action, infrastructure and tools have no store (the
+ * importer skips them), so exports and collections never contain them;
+ * `POST /stix/convert` still builds them from the data it is given.
+ */
+
+import { Op } from 'sequelize';
+import type { Model, ModelStatic } from 'sequelize';
+import { validate as isUuid } from 'uuid';
+import {
+  iocRepository,
+  threatActorRepository,
+  malwareRepository,
+  vulnerabilityRepository,
+  entityRelationshipRepository
+} from '../../repositories';
+import {
+  IOC,
+  ThreatActor,
+  Malware,
+  Vulnerability,
+  EntityRelationship
+} from '../../models';
+import ThreatActorProfile from '../threat-actors/models/ThreatActor';
+import { stixConverter } from './converter';
+import { TLP_MARKING_DEFINITIONS } from './types';
+import type {
+  STIXObject,
+  Identity,
+  TLPLevel,
+  STIXExportEntityType,
+  STIXListEntityType,
+  STIXExportOptions,
+  STIXExportResult,
+  STIXListOptions,
+  STIXListPosition,
+  STIXListedObject,
+  STIXListResult
+} from './types';
+
+interface EntitySource {
+  findMany(where?: any, options?: any): Promise<any[]>;
+}
+
+const ENTITY_SOURCES: { [type in STIXListEntityType]: EntitySource } = {
+  ioc: iocRepository,
+  threat_actor: threatActorRepository,
+  malware: malwareRepository,
+  vulnerability: vulnerabilityRepository
+};
+
+const ENTITY_MODELS: { [type in STIXListEntityType]: ModelStatic<Model> } = {
+  ioc: IOC,
+  threat_actor: ThreatActor,
+  malware: Malware,
+  vulnerability: Vulnerability
+};
+
+const LIST_ENTITY_TYPES: STIXListEntityType[] = ['ioc', 'threat_actor', 'malware', 'vulnerability'];
+
+const EXPORT_ENTITY_TYPES: STIXExportEntityType[] = [...LIST_ENTITY_TYPES, 'campaign'];
+
+/**
+ * STIX types each entity type exports as
+ */
+const ENTITY_STIX_TYPES: { [type in STIXListEntityType]: string[] } = {
+  ioc: ['indicator'],
+  threat_actor: ['threat-actor', 'intrusion-set'],
+  malware: ['malware'],
+  vulnerability: ['vulnerability']
+};
+
+/**
+ * TLP levels from least to most restrictive
+ */
+const TLP_ORDER: TLPLevel[] = ['white', 'green', 'amber', 'red'];
+
+const TLP_TAG = /^tlp:(white|clear|green|amber|red)$/i;
+
+/**
+ * STIX threat actor types of threat actor profile types
+ */
+const PROFILE_ACTOR_TYPES: { [type: string]: string } = {
+  nation_state: 'nation-state',
+  cybercrime: 'crime-syndicate',
+  hacktivist: 'activist',
+  unknown: 'unknown'
+};
+
+const DEFAULT_EXPORT_LIMIT = 5000;
+const DEFAULT_LIST_BATCH_SIZE = 500;
+
+interface ExportedEntity {
+  stixId: string;
+  tlp: TLPLevel;
+}
+
+interface ListedBatch {
+  objects: STIXListedObject[];
+  /** Position of the last row read, when the store may hold more */
+  last?: STIXListPosition;
+}
+
+/**
+ * Listing order. Stored rows are ordered by updatedAt and ID in the database;
+ * the identity and markings have no platform ID and come first on a tie.
+ */
+export const comparePositions = (a: STIXListPosition, b: STIXListPosition): number => (
+  a.modified.localeCompare(b.modified)
+  || Number(isUuid(a.key)) - Number(isUuid(b.key))
+  || (a.key < b.key ? -1 : Number(a.key > b.key))
+);
+
+export class STIXExporter {
+  /**
+   * Store the STIX ID of every row that exports: new rows get theirs when
+   * created, rows stored before then are backfilled.
+   */
+  async start(): Promise<void> {
+    LIST_ENTITY_TYPES.forEach(entityType => {
+      ENTITY_MODELS[entityType].addHook('beforeCreate', 'stixId', (entity: any) => {
+        if (!entity.stixId) {
+          entity.set('stixId', this.entityStixIds(entityType, [entity]).get(entity.id));
+        }
+      });
+    });
+    EntityRelationship.addHook('beforeCreate', 'stixId', async (link: any) => {
+      if (!link.stixId) {
+        link.set('stixId', (await this.linkStixIds([link])).get(link.id));
+      }
+    });
+
+    await this.backfillStixIds();
+  }
+
+  /**
+   * Store the STIX IDs of rows that have none, in batches of ID order.
+   * updatedAt is left alone, as it is the listed version of the object.
+   * Returns how many rows were updated.
+   */
+  async backfillStixIds(batchSize: number = DEFAULT_LIST_BATCH_SIZE): Promise<number> {
+    const types: (STIXListEntityType | 'link')[] = [...LIST_ENTITY_TYPES, 'link'];
+    let updated = 0;
+
+    for (const type of types) {
+      const source: EntitySource = type === 'link' ? entityRelationshipRepository : ENTITY_SOURCES[type];
+      let after: string | undefined;
+      do {
+        // eslint-disable-next-line no-await-in-loop
+        const rows = await source.findMany(
+          after ? { stixId: null, id: { [Op.gt]: after } } : { stixId: null },
+          { limit: batchSize, order: [['id', 'ASC']] }
+        );
+        // eslint-disable-next-line no-await-in-loop
+        const stixIds = type === 'link' ? await this.linkStixIds(rows) : this.entityStixIds(type, rows);
+        // eslint-disable-next-line no-await-in-loop
+        await Promise.all(rows
+          .filter(row => stixIds.has(row.id))
+          .map(row => row.update({ stixId: stixIds.get(row.id) }, { silent: true })));
+        updated += stixIds.size;
+        after = rows.length === batchSize ? rows[rows.length - 1].id : undefined;
+      } while (after);
+    }
+    return updated;
+  }
+
+  /**
+   * Export stored entities selected by ID list or filter as a STIX bundle
+   */
+  async exportEntities(options: STIXExportOptions = {}): Promise<STIXExportResult> {
+    const identity = stixConverter.organizationIdentity();
+    const defaultTlp = options.tlp || (process.env.STIX_DEFAULT_TLP as TLPLevel) || 'amber';
+    const objects = new Map<string, STIXObject>();
+    const exported = new Map<string, ExportedEntity>();
+    const skipped: STIXExportResult['skipped'] = [];
+    const markings = new Set<TLPLevel>();
+
+    const add = (object: STIXObject, tlp: TLPLevel) => {
+      markings.add(tlp);
+      objects.set(object.id, this.decorate(object, tlp, identity));
+    };
+
+    for (const entityType of options.entityTypes || EXPORT_ENTITY_TYPES) {
+      // eslint-disable-next-line no-await-in-loop
+      const entities = await this.findEntities(entityType, options);
+
+      entities.forEach(entity => {
+        const tlp = this.resolveTlp(entity, defaultTlp);
+        const converted = this.convertEntity(entityType, entity, options);
+
+        if (!converted) {
+          skipped.push({
+            entityType,
+            entityId: entity.id,
+            reason: `No STIX pattern for IOC type '${entity.type}'`
+          });
+          return;
+        }
+
+        converted.forEach(object => add(object, tlp));
+        exported.set(`${entityType}:${entity.id}`, { stixId: converted[0].id, tlp });
+      });
+    }
+
+    if (options.includeRelationships !== false && exported.size > 0) {
+      const entityIds = [...exported.keys()].map(key => key.split(':')[1]);
+      const links = await entityRelationshipRepository.findForEntityIds(entityIds);
+
+      links.forEach(link => {
+        const source = exported.get(`${link.sourceType}:${link.sourceId}`);
+        const target = link.targetType ? exported.get(`${link.targetType}:${link.targetId}`) : undefined;
+        // Only links whose ends are both in the bundle, so every reference resolves
+        if (!source || (link.relationshipType !== 'sighting' && !target)) {
+          return;
+        }
+
+        const tlp = target ? this.mostRestrictive(source.tlp, target.tlp) : source.tlp;
+        add(this.convertLink(link, source, target, identity), tlp);
+      });
+    }
+
+    const bundleObjects: STIXObject[] = [
+      identity,
+      // Marking definitions carry no modified timestamp, unlike the other objects
+      ...TLP_ORDER
+        .filter(tlp => markings.has(tlp))
+        .map(tlp => TLP_MARKING_DEFINITIONS[tlp] as unknown as STIXObject),
+      ...objects.values()
+    ];
+
+    return { bundle: stixConverter.createBundle(bundleObjects), skipped };
+  }
+
+  /**
+   * List the objects of a collection in position order, one batch per store.
+   * Filters, order and paging run in the database; while a store has rows
+   * left, `next` is where to continue and every object returned precedes it.
+   */
+  async listObjects(options: STIXListOptions = {}): Promise<STIXListResult> {
+    const identity = stixConverter.organizationIdentity();
+    const defaultTlp = options.tlp || (process.env.STIX_DEFAULT_TLP as TLPLevel) || 'amber';
+    const batchSize = options.batchSize || DEFAULT_LIST_BATCH_SIZE;
+    const entityTypes = options.entityTypes || LIST_ENTITY_TYPES;
+    const types = this.requestedTypes(options);
+    const wanted = (type: string) => !types || types.includes(type);
+
+    const batches: ListedBatch[] = await Promise.all([
+      ...entityTypes
+        .filter(entityType => ENTITY_STIX_TYPES[entityType].some(wanted))
+        .map(entityType => this.listEntities(entityType, options, batchSize, defaultTlp, identity)),
+      ...(['relationship', 'sighting'].some(wanted)
+        ? [this.listLinks(entityTypes, options, batchSize, defaultTlp, identity, wanted)]
+        : [])
+    ]);
+
+    const fixed: STIXListedObject[] = [
+      identity,
+      ...TLP_ORDER.map(tlp => TLP_MARKING_DEFINITIONS[tlp] as unknown as STIXObject)
+    ].map(object => ({
+      object,
+      position: { modified: object.modified || object.created, key: object.id }
+    }));
+
+    const next = batches
+      .map(batch => batch.last)
+      .filter(Boolean)
+      .sort(comparePositions)[0];
+    const modifiedAfter = options.modifiedAfter ? Date.parse(options.modifiedAfter) : undefined;
+
+    const objects = [...fixed, ...batches.flatMap(batch => batch.objects)]
+      .filter(({ object, position }) => wanted(object.type)
+        && (!options.ids || options.ids.includes(object.id))
+        && (modifiedAfter === undefined || Date.parse(position.modified) > modifiedAfter)
+        && (!options.after || comparePositions(position, options.after) > 0)
+        && (!next || comparePositions(position, next) <= 0))
+      .sort((a, b) => comparePositions(a.position, b.position));
+
+    return { objects, next };
+  }
+
+  /**
+   * STIX types a listing can return: the requested types, narrowed to those of the requested IDs
+   */
+  private requestedTypes(options: STIXListOptions): string[] | undefined {
+    const idTypes = options.ids && [...new Set(options.ids.map(id => id.split('--')[0]))];
+    if (!options.types) {
+      return idTypes;
+    }
+    return idTypes ? options.types.filter(type => idTypes.includes(type)) : options.types;
+  }
+
+  /**
+   * Conditions selecting the rows of a store that a listing can still return
+   */
+  private listConditions(options: STIXListOptions): any[] {
+    const conditions: any[] = [];
+
+    if (options.modifiedAfter) {
+      conditions.push({ updatedAt: { [Op.gt]: new Date(options.modifiedAfter) } });
+    }
+    if (options.after) {
+      const modified = new Date(options.after.modified);
+      conditions.push(isUuid(options.after.key)
+        ? {
+          [Op.or]: [
+            { updatedAt: { [Op.gt]: modified } },
+            { updatedAt: modified, id: { [Op.gt]: options.after.key } }
+          ]
+        }
+        : { updatedAt: { [Op.gte]: modified } });
+    }
+    if (options.ids) {
+      conditions.push({ stixId: { [Op.in]: options.ids } });
+    }
+    return conditions;
+  }
+
+  private lastPosition(rows: any[], batchSize: number): STIXListPosition | undefined {
+    if (rows.length < batchSize) {
+      return undefined;
+    }
+    const last = rows[rows.length - 1];
+    return { modified: new Date(last.updatedAt).toISOString(), key: last.id };
+  }
+
+  /**
+   * Next batch of the stored entities of one type, as their primary STIX objects
+   */
+  private async listEntities(
+    entityType: STIXListEntityType,
+    options: STIXListOptions,
+    batchSize: number,
+    defaultTlp: TLPLevel,
+    identity: Identity
+  ): Promise<ListedBatch> {
+    const conditions = this.listConditions(options);
+    if (options.tags && options.tags.length > 0) {
+      if (entityType === 'vulnerability') {
+        // Vulnerabilities are not tagged, so a tag filter never selects them
+        return { objects: [] };
+      }
+      conditions.push({ tags: { [Op.overlap]: options.tags } });
+    }
+
+    const entities = await ENTITY_SOURCES[entityType].findMany({ [Op.and]: conditions }, {
+      limit: batchSize,
+      order: [['updatedAt', 'ASC'], ['id', 'ASC']]
+    });
+
+    const objects = entities.flatMap(entity => {
+      const converted = this.convertEntity(entityType, entity, {});
+      if (!converted) {
+        return [];
+      }
+      const object = this.decorate(converted[0], this.resolveTlp(entity, defaultTlp), identity);
+      return [{ object, position: { modified: object.modified, key: entity.id } }];
+    });
+
+    return { objects, last: this.lastPosition(entities, batchSize) };
+  }
+
+  /**
+   * Next batch of the links between entities of the listed types, as relationships and sightings
+   */
+  private async listLinks(
+    entityTypes: STIXListEntityType[],
+    options: STIXListOptions,
+    batchSize: number,
+    defaultTlp: TLPLevel,
+    identity: Identity,
+    wanted: (type: string) => boolean
+  ): Promise<ListedBatch> {
+    const conditions = [
+      ...this.listConditions(options),
+      { sourceType: { [Op.in]: entityTypes } },
+      { [Op.or]: [{ relationshipType: 'sighting' }, { targetType: { [Op.in]: entityTypes } }] }
+    ];
+    if (!wanted('sighting')) {
+      conditions.push({ relationshipType: { [Op.ne]: 'sighting' } });
+    }
+    if (!wanted('relationship')) {
+      conditions.push({ relationshipType: 'sighting' });
+    }
+
+    const links = await entityRelationshipRepository.findMany({ [Op.and]: conditions }, {
+      limit: batchSize,
+      order: [['updatedAt', 'ASC'], ['id', 'ASC']]
+    });
+    const ends = await this.findLinkEnds(links, options, defaultTlp);
+
+    const objects = links.flatMap(link => {
+      const source = ends.get(`${link.sourceType}:${link.sourceId}`);
+      const target = link.targetType ? ends.get(`${link.targetType}:${link.targetId}`) : undefined;
+      // Only links whose ends are in the collection, so every reference resolves
+      if (!source || (link.relationshipType !== 'sighting' && !target)) {
+        return [];
+      }
+
+      const tlp = target ? this.mostRestrictive(source.tlp, target.tlp) : source.tlp;
+      const object = this.decorate(this.convertLink(link, source, target, identity), tlp, identity);
+      return [{ object, position: { modified: object.modified, key: link.id } }];
+    });
+
+    return { objects, last: this.lastPosition(links, batchSize) };
+  }
+
+  /**
+   * Exported IDs and TLPs of the entities at the ends of links
+   */
+  private async findLinkEnds(
+    links: any[],
+    options: STIXListOptions,
+    defaultTlp: TLPLevel
+  ): Promise<Map<string, ExportedEntity>> {
+    const idsByType = new Map<STIXListEntityType, Set<string>>();
+    links.forEach(link => {
+      [[link.sourceType, link.sourceId], [link.targetType, link.targetId]]
+        .filter(([type]) => ENTITY_SOURCES[type])
+        .forEach(([type, id]) => idsByType.set(type, (idsByType.get(type) || new Set()).add(id)));
+    });
+
+    const ends = new Map<string, ExportedEntity>();
+    await Promise.all([...idsByType].map(async ([entityType, ids]) => {
+      const entities = await this.findEntities(entityType, { ids: [...ids], tags: options.tags });
+      entities.forEach(entity => {
+        const converted = this.convertEntity(entityType, entity, {});
+        if (converted) {
+          ends.set(`${entityType}:${entity.id}`, {
+            stixId: converted[0].id,
+            tlp: this.resolveTlp(entity, defaultTlp)
+          });
+        }
+      });
+    }));
+    return ends;
+  }
+
+  /**
+   * STIX IDs of the stored entities that export, by platform ID
+   */
+  private entityStixIds(entityType: STIXExportEntityType, entities: any[]): Map<string, string> {
+    const stixIds = new Map<string, string>();
+    entities.forEach(entity => {
+      const converted = this.convertEntity(entityType, entity, {});
+      if (converted) {
+        stixIds.set(entity.id, converted[0].id);
+      }
+    });
+    return stixIds;
+  }
+
+  /**
+   * STIX IDs of the stored links whose ends export, by platform ID
+   */
+  private async linkStixIds(links: any[]): Promise<Map<string, string>> {
+    const identity = stixConverter.organizationIdentity();
+    const ends = await this.findLinkEnds(links, {}, 'white');
+    const stixIds = new Map<string, string>();
+    links.forEach(link => {
+      const source = ends.get(`${link.sourceType}:${link.sourceId}`);
+      const target = link.targetType ? ends.get(`${link.targetType}:${link.targetId}`) : undefined;
+      if (source && (link.relationshipType === 'sighting' || target)) {
+        stixIds.set(link.id, this.convertLink(link, source, target, identity).id);
+      }
+    });
+    return stixIds;
+  }
+
+  /**
+   * Load the stored entities of one type matching the export options
+   */
+  private async findEntities(
+    entityType: STIXExportEntityType,
+    options: STIXExportOptions
+  ): Promise<any[]> {
+    if (entityType === 'campaign') {
+      return this.findCampaigns(options);
+    }
+
+    const where: any = {};
+
+    if (options.ids) {
+      where.id = { [Op.in]: options.ids };
+    }
+    if (options.modifiedSince) {
+      where.updatedAt = { [Op.gte]: new Date(options.modifiedSince) };
+    }
+    if (options.tags && options.tags.length > 0) {
+      if (entityType === 'vulnerability') {
+        // Vulnerabilities are not tagged, so a tag filter never selects them
+        return [];
+      }
+      where.tags = { [Op.overlap]: options.tags };
+    }
+
+    // Newest first, so a capped export drops the oldest entities
+    return await ENTITY_SOURCES[entityType].findMany(where, {
+      limit: options.limit || DEFAULT_EXPORT_LIMIT,
+      order: [['updatedAt', 'DESC']]
+    });
+  }
+
+  /**
+   * Load the campaigns of the threat actor profiles matching the export options.
+   * A campaign carries the tags and metadata of its profile, and the profile itself.
+   */
+  private async findCampaigns(options: STIXExportOptions): Promise<any[]> {
+    const limit = options.limit || DEFAULT_EXPORT_LIMIT;
+    const query: any = { 'campaigns.0': { $exists: true } };
+
+    if (options.ids) {
+      query['campaigns.campaign_id'] = { $in: options.ids };
+    }
+    if (options.modifiedSince) {
+      query.updated_at = { $gte: new Date(options.modifiedSince) };
+    }
+    if (options.tags && options.tags.length > 0) {
+      query.tags = { $in: options.tags };
+    }
+
+    // Newest first, so a capped export drops the oldest campaigns
+    const actors: any[] = await ThreatActorProfile.find(query)
+      .sort({ updated_at: -1 })
+      .limit(limit)
+      .lean();
+    return actors
+      .flatMap(actor => actor.campaigns
+        .filter((campaign: any) => campaign.campaign_id
+          && (!options.ids || options.ids.includes(campaign.campaign_id)))
+        .map((campaign: any) => ({
+          id: campaign.campaign_id,
+          name: campaign.name || campaign.campaign_id,
+          firstSeen: campaign.start_date,
+          lastSeen: campaign.end_date,
+          tags: actor.tags,
+          metadata: actor.metadata,
+          createdAt: actor.created_at,
+          updatedAt: actor.updated_at,
+          actor
+        })))
+      .slice(0, limit);
+  }
+
+  /**
+   * Convert a stored entity to its STIX objects; the primary object comes first.
+   * Returns null when an IOC has no STIX equivalent.
+   */
+  private convertEntity(
+    entityType: STIXExportEntityType,
+    entity: any,
+    options: STIXExportOptions
+  ): STIXObject[] | null {
+    const metadata = entity.metadata || {};
+    const nonEmpty = (values?: string[]) => (values && values.length > 0 ? values : undefined);
+    const common = {
+      stix_id: entity.stixId,
+      id: entity.id,
+      description: entity.description,
+      labels: this.labels(entity.tags),
+      created_by_ref: metadata.created_by_ref,
+      created_at: entity.createdAt,
+      updated_at: entity.updatedAt
+    };
+
+    switch (entityType) {
+      case 'ioc':
+        return this.convertIOC(entity, common, options);
+      case 'threat_actor': {
+        const [primaryMotivation, ...secondaryMotivations] = entity.motivation || [];
+        const actor = {
+          ...common,
+          name: entity.name,
+          aliases: nonEmpty(entity.aliases),
+          types: metadata.threat_actor_types,
+          goals: metadata.goals,
+          sophistication: entity.sophistication,
+          resource_level: metadata.resource_level,
+          primary_motivation: primaryMotivation,
+          secondary_motivations: nonEmpty(secondaryMotivations),
+          first_seen: entity.firstSeen,
+          last_seen: entity.lastSeen
+        };
+        return [metadata.stix_type === 'intrusion-set'
+          ? stixConverter.intrusionSetToSTIX(actor)
+          : stixConverter.threatActorToSTIX(actor)];
+      }
+      case 'campaign':
+        return this.convertCampaign(entity, common, options);
+      case 'malware':
+        return [stixConverter.threatToSTIX({
+          ...common,
+          name: entity.name,
+          types: nonEmpty(entity.malwareTypes) || ['unknown'],
+          is_family: entity.isFamily,
+          aliases: nonEmpty(entity.aliases),
+          capabilities: nonEmpty(entity.capabilities),
+          kill_chain_phases: metadata.kill_chain_phases,
+          implementation_languages: metadata.implementation_languages,
+          architecture_execution_envs: metadata.architecture_execution_envs,
+          first_seen: entity.firstSeen,
+          last_seen: entity.lastSeen
+        })];
+      case 'vulnerability':
+        return [stixConverter.vulnerabilityToSTIX({
+          ...common,
+          name: entity.cveId || entity.title,
+          cve_id: entity.cveId
+        })];
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * An IOC exports as an indicator, plus its observable and a based-on link when requested
+   */
+  private convertIOC(ioc: any, common: any, options: STIXExportOptions): STIXObject[] | null {
+    const metadata = ioc.metadata || {};
+    const pattern = metadata.pattern
+      || stixConverter.iocToPattern(ioc.type, ioc.value, metadata.hash_type);
+    if (!pattern) {
+      return null;
+    }
+
+    const indicator = stixConverter.indicatorToSTIX({
+      ...common,
+      name: ioc.type === 'stix_pattern' ? undefined : ioc.value,
+      pattern,
+      types: metadata.indicator_types,
+      valid_from: ioc.firstSeen,
+      valid_until: metadata.valid_until,
+      confidence: ioc.confidence,
+      kill_chain_phases: metadata.kill_chain_phases
+    });
+    const objects: STIXObject[] = [indicator];
+
+    const observable = options.includeObservables
+      ? stixConverter.observableToSTIX(ioc.type, ioc.value, metadata.hash_type)
+      : null;
+    if (observable) {
+      objects.push(observable);
+      objects.push(stixConverter.createRelationship(indicator.id, observable.id, 'based-on', undefined, {
+        created_at: ioc.createdAt,
+        updated_at: ioc.updatedAt
+      }));
+    }
+
+    return objects;
+  }
+
+  /**
+   * A campaign exports with the threat actor profile it belongs to, linked by
+   * attributed-to, unless relationships are left out
+   */
+  private convertCampaign(campaign: any, common: any, options: STIXExportOptions): STIXObject[] {
+    const object = stixConverter.campaignToSTIX({
+      ...common,
+      name: campaign.name,
+      first_seen: campaign.firstSeen,
+      last_seen: campaign.lastSeen
+    });
+    if (options.includeRelationships === false) {
+      return [object];
+    }
+
+    const { actor } = campaign;
+    const attributed = stixConverter.threatActorToSTIX({
+      id: actor.id,
+      name: actor.name,
+      description: actor.description,
+      labels: common.labels,
+      types: [PROFILE_ACTOR_TYPES[actor.type] || 'unknown'],
+      aliases: actor.aliases && actor.aliases.length > 0 ? actor.aliases : undefined,
+      first_seen: actor.first_seen,
+      last_seen: actor.last_seen,
+      created_at: actor.created_at,
+      updated_at: actor.updated_at
+    });
+    return [
+      object,
+      attributed,
+      stixConverter.createRelationship(object.id, attributed.id, 'attributed-to', undefined, {
+        created_at: common.created_at,
+        updated_at: common.updated_at
+      })
+    ];
+  }
+
+  /**
+   * Convert a stored link to a relationship or sighting SRO
+   */
+  private convertLink(
+    link: any,
+    source: ExportedEntity,
+    target: ExportedEntity | undefined,
+    identity: Identity
+  ): STIXObject {
+    const metadata = link.metadata || {};
+    const common = {
+      stix_id: link.stixId,
+      id: link.id,
+      confidence: link.confidence,
+      created_at: link.createdAt,
+      updated_at: link.updatedAt
+    };
+
+    if (link.relationshipType === 'sighting') {
+      return stixConverter.sightingToSTIX({
+        ...common,
+        description: link.description,
+        sighting_of_ref: source.stixId,
+        count: link.count,
+        first_seen: link.firstSeen,
+        last_seen: link.lastSeen,
+        observed_data_refs: metadata.observed_data_refs,
+        where_sighted_refs: metadata.where_sighted_refs || [identity.id]
+      });
+    }
+
+    return stixConverter.createRelationship(
+      source.stixId,
+      target.stixId,
+      link.relationshipType,
+      link.description,
+      { ...common, start_time: link.firstSeen, stop_time: link.lastSeen }
+    );
+  }
+
+  /**
+   * TLP of an entity: an explicit setting, a tlp:* tag, an imported marking, else the default
+   */
+  private resolveTlp(entity: any, defaultTlp: TLPLevel): TLPLevel {
+    const metadata = entity.metadata || {};
+    if (TLP_ORDER.includes(metadata.tlp)) {
+      return metadata.tlp;
+    }
+
+    const tag = (entity.tags || []).find((t: string) => TLP_TAG.test(t));
+    if (tag) {
+      const level = tag.split(':')[1].toLowerCase();
+      return level === 'clear' ? 'white' : level as TLPLevel;
+    }
+
+    const markingRefs: string[] = metadata.object_marking_refs || [];
+    const imported = TLP_ORDER.filter(tlp => markingRefs.includes(TLP_MARKING_DEFINITIONS[tlp].id));
+    return imported.length > 0 ? imported[imported.length - 1] : defaultTlp;
+  }
+
+  /**
+   * Objects we author reference our identity; every object carries its TLP marking
+   */
+  private decorate(object: STIXObject, tlp: TLPLevel, identity: Identity): STIXObject {
+    return {
+      ...object,
+      // Observables have no creator, only domain and relationship objects do
+      created_by_ref: object.created ? object.created_by_ref || identity.id : undefined,
+      object_marking_refs: [TLP_MARKING_DEFINITIONS[tlp].id]
+    };
+  }
+
+  private mostRestrictive(a: TLPLevel, b: TLPLevel): TLPLevel {
+    return TLP_ORDER.indexOf(a) >= TLP_ORDER.indexOf(b) ? a : b;
+  }
+
+  /**
+   * Tags become labels, except TLP tags which are expressed as markings
+   */
+  private labels(tags?: string[]): string[] | undefined {
+    const labels = (tags || []).filter(tag => !TLP_TAG.test(tag));
+    return labels.length > 0 ? labels : undefined;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const stixExporter = new STIXExporter();
@@ -0,0 +1,490 @@
+/**
+ * STIX 2.1 Importer
+ * Persists STIX bundles into the platform's intelligence stores
+ *
+ * SDOs and observables are upserted by stix_id (falling back to each
+ * entity's natural key), then relationship and sighting SROs are resolved
+ * to stored entities and saved as links. Each object gets its own result,
+ * so one bad object never aborts the rest of the bundle. Observables that
+ * reference what they resolve to (resolves_to_refs) are linked 'resolves-to'.
+ */
+
+import {
+  iocRepository,
+  threatActorRepository,
+  malwareRepository,
+  vulnerabilityRepository,
+  entityRelationshipRepository
+} from '../../repositories';
+import type { RelatedEntityType } from '../../models/EntityRelationship';
+import { createModuleLogger } from '../../utils/logger';
+import { stixConverter } from './converter';
+import allowListService, { describeMatch } from '../ioc-management/services/allowListService';
+import type {
+  STIXObject,
+  STIXBundle,
+  Indicator,
+  Malware,
+  ThreatActor,
+  IntrusionSet,
+  Vulnerability,
+  Relationship,
+  Sighting,
+  ObservedObject,
+  DomainName,
+  IPv4Address,
+  IPv6Address,
+  STIXImportObjectResult,
+  STIXImportOptions,
+  STIXImportReport
+} from './types';
+
+interface ResolvedEntity {
+  entityType: RelatedEntityType;
+  entityId: string;
+}
+
+interface EntityStore {
+  findByStixId(stixId: string): Promise<any | null>;
+  create(data: any): Promise<any>;
+  update(id: string, data: any): Promise<any>;
+}
+
+const logger = createModuleLogger('stix');
+
+// Entity types with a store of their own; campaigns and incidents are not imported
+type StoredEntityType = Exclude<RelatedEntityType, 'campaign' | 'incident'>;
+
+const ENTITY_STORES: { [type in StoredEntityType]: EntityStore } = {
+  ioc: iocRepository,
+  threat_actor: threatActorRepository,
+  malware: malwareRepository,
+  vulnerability: vulnerabilityRepository
+};
+
+/**
+ * Which store each STIX type is persisted to
+ */
+export const STIX_TYPE_ENTITIES: { [stixType: string]: StoredEntityType } = {
+  indicator: 'ioc',
+  'ipv4-addr': 'ioc',
+  'ipv6-addr': 'ioc',
+  'domain-name': 'ioc',
+  url: 'ioc',
+  'email-addr': 'ioc',
+  file: 'ioc',
+  'windows-registry-key': 'ioc',
+  mutex: 'ioc',
+  'threat-actor': 'threat_actor',
+  'intrusion-set': 'threat_actor',
+  malware: 'malware',
+  vulnerability: 'vulnerability'
+};
+
+const stixTypeOf = (stixId: string): string => stixId.split('--')[0];
+
+export class STIXImporter {
+  /**
+   * Import every object of a bundle and report what happened to each
+   */
+  async importBundle(bundle: STIXBundle, options: STIXImportOptions = {}): Promise<STIXImportReport> {
+    const resolved = new Map<string, ResolvedEntity>();
+    const results: STIXImportObjectResult[] = [];
+    const objects = bundle.objects || [];
+    const isRelationship = (object: STIXObject) => object.type === 'relationship' || object.type === 'sighting';
+
+    // Entities first so relationships in the same bundle resolve regardless of order
+    for (const object of objects.filter(o => !isRelationship(o))) {
+      // eslint-disable-next-line no-await-in-loop
+      results.push(await this.importEntity(object, options, resolved));
+    }
+
+    const resolving = objects.filter(o => (o as DomainName).resolves_to_refs?.length);
+    for (const object of resolving as (DomainName | IPv4Address | IPv6Address)[]) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.linkResolutions(object, bundle.id, options, resolved);
+    }
+
+    for (const object of objects.filter(isRelationship)) {
+      // eslint-disable-next-line no-await-in-loop
+      results.push(await this.importRelationship(object as Relationship | Sighting, options, resolved));
+    }
+
+    const counts = {
+      created: 0, updated: 0, skipped: 0, error: 0
+    };
+    results.forEach(result => { counts[result.status] += 1; });
+
+    return { bundleId: bundle.id, results, counts };
+  }
+
+  /**
+   * Upsert a single SDO or observable
+   */
+  private async importEntity(
+    object: STIXObject,
+    options: STIXImportOptions,
+    resolved: Map<string, ResolvedEntity>
+  ): Promise<STIXImportObjectResult> {
+    const base = { stixId: object.id, type: object.type };
+    const entityType = STIX_TYPE_ENTITIES[object.type];
+
+    if (!entityType) {
+      return { ...base, status: 'skipped', reason: `Unsupported object type '${object.type}'` };
+    }
+
+    try {
+      const attributes = this.toAttributes(object);
+      if (!attributes) {
+        return { ...base, status: 'skipped', entityType, reason: 'Observable has no IOC equivalent' };
+      }
+      if (options.source && entityType === 'ioc') {
+        attributes.source = options.source;
+      }
+
+      if (entityType === 'ioc') {
+        const allowListed = allowListService.check(attributes.value, attributes.type, {
+          context: 'stix_import',
+          source: options.source || 'stix-import',
+          sourceId: object.id
+        });
+        if (allowListed) {
+          const reason = `Allow-listed: matches ${describeMatch(allowListed)}`;
+          return {
+            ...base, status: 'skipped', entityType, reason
+          };
+        }
+      }
+
+      const existing = await this.findExisting(entityType, attributes);
+
+      if (!existing) {
+        const created = await ENTITY_STORES[entityType].create(attributes);
+        resolved.set(object.id, { entityType, entityId: created.id });
+        return {
+          ...base, status: 'created', entityType, entityId: created.id
+        };
+      }
+
+      resolved.set(object.id, { entityType, entityId: existing.id });
+
+      const storedModified = existing.metadata && existing.metadata.stix_modified;
+      if (existing.stixId === object.id && storedModified && object.modified
+        && Date.parse(storedModified) >= Date.parse(object.modified)) {
+        return {
+          ...base, status: 'skipped', entityType, entityId: existing.id, reason: 'Stored version is up to date'
+        };
+      }
+
+      await ENTITY_STORES[entityType].update(existing.id, this.mergeAttributes(entityType, existing, attributes));
+      return {
+        ...base, status: 'updated', entityType, entityId: existing.id
+      };
+    } catch (error: any) {
+      logger.error('STIX import failed', {
+        stixId: object.id,
+        type: object.type,
+        entityType,
+        error: error.message
+      });
+      return {
+        ...base, status: 'error', entityType, reason: error.message
+      };
+    }
+  }
+
+  /**
+   * Store a relationship or sighting between resolved entities
+   */
+  private async importRelationship(
+    object: Relationship | Sighting,
+    options: STIXImportOptions,
+    resolved: Map<string, ResolvedEntity>
+  ): Promise<STIXImportObjectResult> {
+    const base = { stixId: object.id, type: object.type };
+
+    try {
+      let attributes: any;
+
+      if (object.type === 'relationship') {
+        const source = await this.resolveRef(object.source_ref, resolved);
+        const target = await this.resolveRef(object.target_ref, resolved);
+        if (!source || !target) {
+          const missing = !source ? object.source_ref : object.target_ref;
+          return { ...base, status: 'skipped', reason: `Unresolved reference ${missing}` };
+        }
+        attributes = {
+          relationshipType: object.relationship_type,
+          sourceType: source.entityType,
+          sourceId: source.entityId,
+          targetType: target.entityType,
+          targetId: target.entityId,
+          firstSeen: object.start_time ? new Date(object.start_time) : undefined,
+          lastSeen: object.stop_time ? new Date(object.stop_time) : undefined
+        };
+      } else {
+        const sighted = await this.resolveRef(object.sighting_of_ref, resolved);
+        if (!sighted) {
+          return { ...base, status: 'skipped', reason: `Unresolved reference ${object.sighting_of_ref}` };
+        }
+        attributes = {
+          relationshipType: 'sighting',
+          sourceType: sighted.entityType,
+          sourceId: sighted.entityId,
+          count: object.count ?? 1,
+          firstSeen: object.first_seen ? new Date(object.first_seen) : undefined,
+          lastSeen: object.last_seen ? new Date(object.last_seen) : undefined
+        };
+        await this.recordSighting(sighted, attributes.lastSeen);
+      }
+
+      Object.assign(attributes, {
+        stixId: object.id,
+        description: object.description,
+        confidence: object.confidence,
+        source: options.source || 'stix-import',
+        metadata: {
+          stix_modified: object.modified,
+          where_sighted_refs: object.type === 'sighting' ? object.where_sighted_refs : undefined,
+          observed_data_refs: object.type === 'sighting' ? object.observed_data_refs : undefined,
+          object_marking_refs: object.object_marking_refs
+        }
+      });
+
+      const existing = await entityRelationshipRepository.findByStixId(object.id)
+        || await entityRelationshipRepository.findLink(
+          attributes.sourceType,
+          attributes.sourceId,
+          attributes.relationshipType,
+          attributes.targetType,
+          attributes.targetId
+        );
+
+      if (!existing) {
+        const created = await entityRelationshipRepository.create(attributes);
+        return {
+          ...base, status: 'created', entityType: 'relationship', entityId: created.id
+        };
+      }
+
+      if (existing.stixId && existing.stixId !== object.id) {
+        // Same link asserted under another identifier; keep the original and just refresh it
+        delete attributes.stixId;
+      }
+      await entityRelationshipRepository.update(existing.id, attributes);
+      return {
+        ...base, status: 'updated', entityType: 'relationship', entityId: existing.id
+      };
+    } catch (error: any) {
+      logger.error('STIX import failed', {
+        stixId: object.id,
+        type: object.type,
+        entityType: 'relationship',
+        error: error.message
+      });
+      return { ...base, status: 'error', reason: error.message };
+    }
+  }
+
+  /**
+   * Link an imported observable to the observables it resolves to. These
+   * links are not STIX objects, so they get no result of their own. A link
+   * counts each bundle and observable that reported it once, so importing the
+   * same bundle again does not count it again.
+   */
+  private async linkResolutions(
+    object: DomainName | IPv4Address | IPv6Address,
+    bundleId: string,
+    options: STIXImportOptions,
+    resolved: Map<string, ResolvedEntity>
+  ): Promise<void> {
+    const source = resolved.get(object.id);
+    if (!source) {
+      return;
+    }
+    const observation = `${bundleId}|${object.id}`;
+
+    for (const ref of object.resolves_to_refs) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const target = await this.resolveRef(ref, resolved);
+        if (!target) {
+          continue;
+        }
+        // eslint-disable-next-line no-await-in-loop
+        const existing = await entityRelationshipRepository.findLink(
+          source.entityType,
+          source.entityId,
+          'resolves-to',
+          target.entityType,
+          target.entityId
+        );
+        const now = new Date();
+        if (existing) {
+          const metadata = existing.metadata || {};
+          const observations: string[] = metadata.observations || [];
+          if (observations.includes(observation)) {
+            continue;
+          }
+          // eslint-disable-next-line no-await-in-loop
+          await entityRelationshipRepository.update(existing.id, {
+            count: existing.count + 1,
+            lastSeen: now,
+            metadata: { ...metadata, observations: [...observations, observation] }
+          });
+        } else {
+          // eslint-disable-next-line no-await-in-loop
+          await entityRelationshipRepository.create({
+            relationshipType: 'resolves-to',
+            sourceType: source.entityType,
+            sourceId: source.entityId,
+            targetType: target.entityType,
+            targetId: target.entityId,
+            firstSeen: now,
+            lastSeen: now,
+            source: options.source || 'stix-import',
+            metadata: { observations: [observation] }
+          });
+        }
+      } catch (error: any) {
+        logger.error('STIX import failed to link a resolution', {
+          stixId: object.id,
+          ref,
+          error: error.message
+        });
+      }
+    }
+  }
+
+  /**
+   * Convert a STIX object into attributes for its store
+   */
+  private toAttributes(object: STIXObject): any | null {
+    let attributes: any;
+    switch (object.type) {
+      case 'indicator':
+        attributes = stixConverter.stixToIOC(object as Indicator);
+        break;
+      case 'threat-actor':
+      case 'intrusion-set':
+        attributes = stixConverter.stixToThreatActor(object as ThreatActor | IntrusionSet);
+        break;
+      case 'malware':
+        attributes = stixConverter.stixToMalware(object as Malware);
+        break;
+      case 'vulnerability':
+        attributes = stixConverter.stixToVulnerability(object as Vulnerability);
+        break;
+      default:
+        attributes = stixConverter.observableToIOC(object as unknown as ObservedObject);
+    }
+
+    if (attributes && object.created_by_ref) {
+      // Kept so re-exports credit the original producer rather than us
+      attributes.metadata.created_by_ref = object.created_by_ref;
+    }
+    return attributes;
+  }
+
+  /**
+   * Find the stored entity for incoming attributes, by stix_id then natural key
+   */
+  private async findExisting(entityType: StoredEntityType, attributes: any): Promise<any | null> {
+    const byStixId = await ENTITY_STORES[entityType].findByStixId(attributes.stixId);
+    if (byStixId) {
+      return byStixId;
+    }
+
+    switch (entityType) {
+      case 'ioc':
+        return await iocRepository.findByTypeAndValue(attributes.type, attributes.value);
+      case 'threat_actor':
+        return await threatActorRepository.findByName(attributes.name);
+      case 'malware':
+        return await malwareRepository.findByName(attributes.name);
+      case 'vulnerability':
+        return attributes.cveId ? await vulnerabilityRepository.findByCveId(attributes.cveId) : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Merge incoming attributes over a stored entity, keeping its identity and history
+   */
+  private mergeAttributes(entityType: StoredEntityType, existing: any, attributes: any): any {
+    const merged = { ...attributes };
+
+    if (entityType === 'vulnerability') {
+      // Triage state is owned by the vulnerability workflow, not the feed
+      delete merged.severity;
+      delete merged.discoveredAt;
+    }
+    const metadata = { ...(existing.metadata || {}), ...attributes.metadata };
+
+    if (existing.stixId && existing.stixId !== attributes.stixId) {
+      // Matched on natural key under another identifier: remember the alias, keep the original id
+      metadata.stix_aliases = [...new Set([...(metadata.stix_aliases || []), attributes.stixId])];
+      delete merged.stixId;
+    }
+
+    for (const key of ['tags', 'aliases', 'motivation', 'capabilities', 'malwareTypes', 'affectedSystems']) {
+      if (Array.isArray(existing[key]) && Array.isArray(attributes[key])) {
+        merged[key] = [...new Set([...existing[key], ...attributes[key]])];
+      }
+    }
+
+    if (existing.firstSeen && attributes.firstSeen && existing.firstSeen < attributes.firstSeen) {
+      merged.firstSeen = existing.firstSeen;
+    }
+    if (existing.lastSeen && attributes.lastSeen && existing.lastSeen > attributes.lastSeen) {
+      merged.lastSeen = existing.lastSeen;
+    }
+
+    merged.metadata = metadata;
+    return merged;
+  }
+
+  /**
+   * Resolve a STIX reference to a stored entity, from this import or a previous one
+   */
+  private async resolveRef(ref: string, resolved: Map<string, ResolvedEntity>): Promise<ResolvedEntity | null> {
+    const known = resolved.get(ref);
+    if (known) {
+      return known;
+    }
+
+    const entityType = STIX_TYPE_ENTITIES[stixTypeOf(ref)];
+    if (!entityType) {
+      return null;
+    }
+
+    const entity = await ENTITY_STORES[entityType].findByStixId(ref);
+    if (!entity) {
+      return null;
+    }
+
+    const result = { entityType, entityId: entity.id };
+    resolved.set(ref, result);
+    return result;
+  }
+
+  /**
+   * Sightings of an IOC move its last-seen date forward
+   */
+  private async recordSighting(sighted: ResolvedEntity, lastSeen?: Date): Promise<void> {
+    if (sighted.entityType !== 'ioc') {
+      return;
+    }
+    const ioc = await iocRepository.findById(sighted.entityId);
+    const seen = lastSeen || new Date();
+    if (ioc && (!ioc.lastSeen || ioc.lastSeen < seen)) {
+      await iocRepository.update(ioc.id, { lastSeen: seen });
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const stixImporter = new STIXImporter();
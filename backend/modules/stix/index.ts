@@ -7,6 +7,8 @@ import express from 'express';
 import { stixController } from './controller';
 import { requireCapability } from '../../middleware/access-control';
 import { CAPABILITIES } from '../../utils/access';
+import { validate } from '../../middleware/validator';
+import { evaluatePatternSchema } from './validators';
 
 const router = express.Router();
 
@@ -34,4 +36,11 @@ router.post('/parse-pattern',
   stixController.parsePattern.bind(stixController)
 );
 
+// Evaluate STIX pattern against observations
+router.post('/evaluate-pattern',
+  requireCapability(CAPABILITIES.KNOWLEDGE_READ),
+  validate({ body: evaluatePatternSchema }),
+  stixController.evaluatePattern.bind(stixController)
+);
+
 export default router;
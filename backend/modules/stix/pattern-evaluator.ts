@@ -0,0 +1,507 @@
+/**
+ * STIX 2.1 Pattern Evaluator
+ * Evaluates parsed STIX patterns against sets of observed cyber-observables
+ *
+ * Observations follow the shape of STIX observed-data: a timestamp plus the
+ * objects seen together. Helpers are provided to build observations from
+ * stored IOCs and normalized SIEM events.
+ */
+
+import { parseSTIXPattern, STIXPatternError } from './pattern-parser';
+import { compilePattern } from '../playbooks/expression-parser';
+import { MAX_MATCH_LENGTH } from '../playbooks/expression-evaluator';
+import type {
+  ComparisonExpression,
+  ObjectPathComponent,
+  ObservedObject,
+  ObservationExpression,
+  ParsedPattern,
+  PatternComparison,
+  PatternEvaluationResult,
+  PatternLiteral,
+  PatternObservation,
+  PatternQualifier
+} from './types';
+import type { NormalizedEvent } from '../siem/types';
+
+// Upper bound on candidate matches kept per expression, to keep AND/FOLLOWEDBY combinations bounded
+const MAX_BINDINGS = 1000;
+
+interface Binding {
+  observations: number[];
+  first: number;
+  last: number;
+}
+
+type ObjectMap = { [key: string]: ObservedObject };
+
+const toObjectMap = (objects: PatternObservation['objects']): ObjectMap => {
+  if (!Array.isArray(objects)) {
+    return objects || {};
+  }
+  return objects.reduce((map, object, index) => {
+    map[String(index)] = object;
+    return map;
+  }, {} as ObjectMap);
+};
+
+/**
+ * Follow a *_ref value to the object it points at, by observation key or STIX id
+ */
+const dereference = (ref: unknown, objects: ObjectMap): unknown => {
+  if (typeof ref !== 'string') {
+    return undefined;
+  }
+  return objects[ref] || Object.values(objects).find(object => object.id === ref);
+};
+
+/**
+ * Resolve an object path to the list of values it designates on one object
+ */
+const resolvePath = (object: ObservedObject, components: ObjectPathComponent[], objects: ObjectMap): unknown[] => {
+  let current: unknown[] = [object];
+
+  for (const component of components) {
+    const nextValues: unknown[] = [];
+
+    for (const value of current) {
+      if (component.kind === 'property') {
+        if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+          const property = (value as { [key: string]: unknown })[component.name];
+          if (component.name.endsWith('_ref')) {
+            nextValues.push(dereference(property, objects));
+          } else if (component.name.endsWith('_refs') && Array.isArray(property)) {
+            nextValues.push(property.map(ref => dereference(ref, objects)));
+          } else {
+            nextValues.push(property);
+          }
+        }
+      } else if (Array.isArray(value)) {
+        if (component.index === '*') {
+          nextValues.push(...value);
+        } else {
+          nextValues.push(value[component.index]);
+        }
+      }
+    }
+
+    current = nextValues.filter(value => value !== undefined && value !== null);
+  }
+
+  // Unindexed lists compare element-wise
+  return current.flatMap(value => (Array.isArray(value) ? value : [value]));
+};
+
+/**
+ * Parse an IPv4/IPv6 address or CIDR block into a numeric range
+ */
+const parseNetwork = (input: string): { version: 4 | 6; start: bigint; end: bigint } | null => {
+  const [address, prefixText] = input.trim().split('/');
+  let version: 4 | 6;
+  let bits: number;
+  let value = BigInt(0);
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    const octets = address.split('.').map(Number);
+    if (octets.some(octet => octet > 255)) {
+      return null;
+    }
+    version = 4;
+    bits = 32;
+    octets.forEach(octet => { value = (value << BigInt(8)) + BigInt(octet); });
+  } else if (address.includes(':')) {
+    const halves = address.split('::');
+    if (halves.length > 2) {
+      return null;
+    }
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+    const missing = 8 - head.length - tail.length;
+    if (missing < 0 || (halves.length === 1 && missing !== 0)) {
+      return null;
+    }
+    const groups = [...head, ...Array(missing).fill('0'), ...tail];
+    if (groups.some(group => !/^[0-9a-fA-F]{1,4}$/.test(group))) {
+      return null;
+    }
+    version = 6;
+    bits = 128;
+    groups.forEach(group => { value = (value << BigInt(16)) + BigInt(parseInt(group, 16)); });
+  } else {
+    return null;
+  }
+
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    return null;
+  }
+
+  const hostBits = BigInt(bits - prefix);
+  const start = (value >> hostBits) << hostBits;
+  const end = start + (BigInt(1) << hostBits) - BigInt(1);
+  return { version, start, end };
+};
+
+const isSubnetOf = (inner: string, outer: string): boolean => {
+  const a = parseNetwork(inner);
+  const b = parseNetwork(outer);
+  return !!a && !!b && a.version === b.version && a.start >= b.start && a.end <= b.end;
+};
+
+/**
+ * Translate a SQL LIKE pattern into an anchored regular expression
+ */
+const likeToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map(ch => {
+      if (ch === '%') return '.*';
+      if (ch === '_') return '.';
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 's');
+};
+
+/**
+ * MATCHES through the playbook regex screen and its bounded cache; values too
+ * long to test safely do not match
+ */
+const matchesRegExp = (source: string, value: string): boolean => (
+  value.length <= MAX_MATCH_LENGTH && compilePattern(source, 0, STIXPatternError).test(value)
+);
+
+/**
+ * Compare two scalar values according to the literal's type
+ */
+const compareScalar = (value: unknown, literal: PatternLiteral): number | null => {
+  switch (literal.type) {
+    case 'integer':
+    case 'float': {
+      const numeric = typeof value === 'number' ? value : Number(value);
+      if (Number.isNaN(numeric)) return null;
+      return numeric - (literal.value as number);
+    }
+    case 'timestamp': {
+      const time = Date.parse(String(value));
+      if (Number.isNaN(time)) return null;
+      return time - Date.parse(literal.value as string);
+    }
+    case 'boolean':
+      return value === literal.value ? 0 : null;
+    case 'hex': {
+      const text = String(value).toLowerCase();
+      if (text === literal.value) return 0;
+      return text < (literal.value as string) ? -1 : 1;
+    }
+    default: {
+      const text = String(value);
+      if (text === literal.value) return 0;
+      return text < (literal.value as string) ? -1 : 1;
+    }
+  }
+};
+
+const compareValue = (
+  value: unknown,
+  comparison: PatternComparison
+): boolean => {
+  const { operator } = comparison;
+
+  if (operator === 'IN') {
+    return (comparison.value as PatternLiteral[]).some(literal => compareScalar(value, literal) === 0);
+  }
+
+  const literal = comparison.value as PatternLiteral;
+  switch (operator) {
+    case '=':
+      return compareScalar(value, literal) === 0;
+    case '!=': {
+      const result = compareScalar(value, literal);
+      return result !== null && result !== 0;
+    }
+    case '>':
+    case '<':
+    case '>=':
+    case '<=': {
+      const result = compareScalar(value, literal);
+      if (result === null) return false;
+      if (operator === '>') return result > 0;
+      if (operator === '<') return result < 0;
+      if (operator === '>=') return result >= 0;
+      return result <= 0;
+    }
+    case 'LIKE':
+      return likeToRegExp(literal.value as string).test(String(value));
+    case 'MATCHES':
+      return matchesRegExp(literal.value as string, String(value));
+    case 'ISSUBSET':
+      return isSubnetOf(String(value), literal.value as string);
+    case 'ISSUPERSET':
+      return isSubnetOf(literal.value as string, String(value));
+    default:
+      return false;
+  }
+};
+
+/**
+ * Test a comparison expression against a single object.
+ * A property that is absent never matches, even under NOT.
+ */
+const testObject = (expression: ComparisonExpression, object: ObservedObject, objects: ObjectMap): boolean => {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every(operand => testObject(operand, object, objects));
+    case 'or':
+      return expression.operands.some(operand => testObject(operand, object, objects));
+    case 'exists':
+      return object.type === expression.path.objectType
+        && resolvePath(object, expression.path.components, objects).length > 0;
+    default: {
+      if (object.type !== expression.path.objectType) {
+        return false;
+      }
+      const values = resolvePath(object, expression.path.components, objects);
+      return values.some(value => compareValue(value, expression) !== expression.negated);
+    }
+  }
+};
+
+/**
+ * Test a comparison expression against an observation. OR branches may be
+ * satisfied by different objects; everything else must hold for one object.
+ */
+const testObservation = (expression: ComparisonExpression, objects: ObjectMap): boolean => {
+  if (expression.kind === 'or') {
+    return expression.operands.some(operand => testObservation(operand, objects));
+  }
+  return Object.values(objects).some(object => testObject(expression, object, objects));
+};
+
+const mergeBindings = (a: Binding, b: Binding): Binding => ({
+  observations: [...new Set([...a.observations, ...b.observations])].sort((x, y) => x - y),
+  first: Math.min(a.first, b.first),
+  last: Math.max(a.last, b.last)
+});
+
+const applyQualifier = (bindings: Binding[], qualifier: PatternQualifier): Binding[] => {
+  switch (qualifier.kind) {
+    case 'within':
+      return bindings.filter(binding => binding.last - binding.first <= qualifier.seconds * 1000);
+    case 'start-stop': {
+      const start = Date.parse(qualifier.start);
+      const stop = Date.parse(qualifier.stop);
+      return bindings.filter(binding => binding.first >= start && binding.last < stop);
+    }
+    case 'repeats': {
+      // Consecutive runs of distinct matches give the tightest time spans for any following WITHIN
+      const sorted = [...bindings].sort((a, b) => a.first - b.first);
+      const repeated: Binding[] = [];
+      for (let i = 0; i + qualifier.times <= sorted.length && repeated.length < MAX_BINDINGS; i++) {
+        repeated.push(sorted.slice(i, i + qualifier.times).reduce(mergeBindings));
+      }
+      return repeated;
+    }
+    default:
+      return bindings;
+  }
+};
+
+export class STIXPatternEvaluator {
+  /**
+   * Evaluate a pattern against a set of observations
+   * @param pattern Pattern string or an already parsed pattern
+   * @param observations Observations to match, in any order
+   */
+  evaluate(pattern: string | ParsedPattern, observations: PatternObservation[]): PatternEvaluationResult {
+    const parsed = typeof pattern === 'string' ? parseSTIXPattern(pattern) : pattern;
+    const prepared = observations.map(observation => {
+      const first = Date.parse(observation.first_observed);
+      const last = observation.last_observed ? Date.parse(observation.last_observed) : first;
+      return { objects: toObjectMap(observation.objects), first, last };
+    });
+
+    const bindings = this.evaluateExpression(parsed.ast, prepared);
+    return {
+      matched: bindings.length > 0,
+      matches: bindings.map(binding => ({ observations: binding.observations }))
+    };
+  }
+
+  /**
+   * Check whether any single observation satisfies the pattern's comparisons,
+   * ignoring temporal operators. Handy for per-event screening.
+   */
+  matchesObservation(pattern: string | ParsedPattern, observation: PatternObservation): boolean {
+    const parsed = typeof pattern === 'string' ? parseSTIXPattern(pattern) : pattern;
+    const objects = toObjectMap(observation.objects);
+
+    const walk = (expression: ObservationExpression): boolean => {
+      if (expression.kind === 'observation') {
+        return testObservation(expression.comparison, objects);
+      }
+      return expression.kind === 'and'
+        ? expression.operands.every(walk)
+        : expression.operands.some(walk);
+    };
+
+    return walk(parsed.ast);
+  }
+
+  private evaluateExpression(
+    expression: ObservationExpression,
+    observations: { objects: ObjectMap; first: number; last: number }[]
+  ): Binding[] {
+    let bindings: Binding[];
+
+    if (expression.kind === 'observation') {
+      bindings = [];
+      observations.forEach((observation, index) => {
+        if (bindings.length < MAX_BINDINGS && testObservation(expression.comparison, observation.objects)) {
+          bindings.push({ observations: [index], first: observation.first, last: observation.last });
+        }
+      });
+    } else {
+      const operandBindings = expression.operands.map(operand => this.evaluateExpression(operand, observations));
+
+      if (expression.kind === 'or') {
+        bindings = operandBindings.flat().slice(0, MAX_BINDINGS);
+      } else {
+        bindings = operandBindings.reduce((left, right) => {
+          const combined: Binding[] = [];
+          for (const a of left) {
+            for (const b of right) {
+              if (combined.length >= MAX_BINDINGS) break;
+              if (expression.kind === 'and') {
+                combined.push(mergeBindings(a, b));
+              } else if (a.last <= b.first && !a.observations.some(index => b.observations.includes(index))) {
+                combined.push(mergeBindings(a, b));
+              }
+            }
+          }
+          return combined;
+        });
+      }
+    }
+
+    return expression.qualifiers.reduce(applyQualifier, bindings);
+  }
+}
+
+const HASH_ALGORITHMS: { [type: string]: string } = {
+  md5: 'MD5',
+  hash_md5: 'MD5',
+  sha1: 'SHA-1',
+  hash_sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  hash_sha256: 'SHA-256'
+};
+
+const hashAlgorithmForLength = (hash: string): string | undefined => (
+  ({ 32: 'MD5', 40: 'SHA-1', 64: 'SHA-256', 128: 'SHA-512' } as { [length: number]: string })[hash.length]
+);
+
+const toISOString = (value: unknown): string => {
+  const date = value ? new Date(value as string) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+/**
+ * Build an observation from a stored IOC (Sequelize or module shape)
+ */
+export const iocToObservation = (ioc: any): PatternObservation => {
+  const value = String(ioc.value);
+  const type = String(ioc.type).toLowerCase();
+  let object: ObservedObject | null = null;
+
+  if (type === 'ip') {
+    object = { type: value.includes(':') ? 'ipv6-addr' : 'ipv4-addr', value };
+  } else if (type === 'domain') {
+    object = { type: 'domain-name', value };
+  } else if (type === 'url') {
+    object = { type: 'url', value };
+  } else if (type === 'email') {
+    object = { type: 'email-addr', value };
+  } else if (HASH_ALGORITHMS[type]) {
+    object = { type: 'file', hashes: { [HASH_ALGORITHMS[type]]: value } };
+  } else if (type === 'file_name' || type === 'file_path') {
+    object = { type: 'file', name: value.split(/[\\/]/).pop() };
+  } else if (type === 'registry_key') {
+    object = { type: 'windows-registry-key', key: value };
+  } else if (type === 'mutex') {
+    object = { type: 'mutex', name: value };
+  }
+
+  return {
+    first_observed: toISOString(ioc.lastSeen || ioc.last_seen || ioc.firstSeen || ioc.first_seen),
+    objects: object ? [object] : []
+  };
+};
+
+/**
+ * Build an observation from a normalized SIEM event
+ */
+export const eventToObservation = (event: NormalizedEvent): PatternObservation => {
+  const objects: ObjectMap = {};
+  let next = 0;
+  const add = (object: ObservedObject): string => {
+    const key = String(next);
+    next += 1;
+    objects[key] = object;
+    return key;
+  };
+  const addressType = (ip: string) => (ip.includes(':') ? 'ipv6-addr' : 'ipv4-addr');
+
+  const srcRef = event.sourceIp ? add({ type: addressType(event.sourceIp), value: event.sourceIp }) : undefined;
+  const dstRef = event.destIp ? add({ type: addressType(event.destIp), value: event.destIp }) : undefined;
+
+  if (srcRef || dstRef || event.sourcePort || event.destPort) {
+    add({
+      type: 'network-traffic',
+      src_ref: srcRef,
+      dst_ref: dstRef,
+      src_port: event.sourcePort,
+      dst_port: event.destPort,
+      protocols: event.protocol ? [event.protocol.toLowerCase()] : []
+    });
+  }
+
+  if (event.username || event.userId) {
+    add({ type: 'user-account', account_login: event.username, user_id: event.userId });
+  }
+
+  if (event.fileHash || event.fileName || event.filePath) {
+    const algorithm = event.fileHash ? hashAlgorithmForLength(event.fileHash) : undefined;
+    add({
+      type: 'file',
+      name: event.fileName || (event.filePath ? event.filePath.split(/[\\/]/).pop() : undefined),
+      hashes: algorithm ? { [algorithm]: event.fileHash } : undefined
+    });
+  }
+
+  if (event.processName || event.processId || event.commandLine) {
+    add({
+      type: 'process',
+      pid: event.processId,
+      command_line: event.commandLine,
+      image_ref: event.processName ? add({ type: 'file', name: event.processName }) : undefined
+    });
+  }
+
+  if (event.registryKey) {
+    add({ type: 'windows-registry-key', key: event.registryKey });
+  }
+  if (event.url) {
+    add({ type: 'url', value: event.url });
+  }
+  if (event.domain) {
+    add({ type: 'domain-name', value: event.domain });
+  }
+
+  return { first_observed: toISOString(event.timestamp), objects };
+};
+
+/**
+ * Singleton instance
+ */
+export const stixPatternEvaluator = new STIXPatternEvaluator();
@@ -0,0 +1,560 @@
+/**
+ * STIX 2.1 Pattern Parser
+ * Grammar-based parser for the STIX patterning language
+ *
+ * Builds an AST from a pattern string and validates object paths
+ * against the cyber-observable types known to this module.
+ */
+
+import { STIX_OBSERVABLE_PROPERTIES } from './types';
+import { compilePattern } from '../playbooks/expression-parser';
+import type {
+  ComparisonExpression,
+  ComparisonOperator,
+  ObjectPath,
+  ObjectPathComponent,
+  ObservationExpression,
+  ParsedPattern,
+  PatternComparison,
+  PatternLiteral,
+  PatternQualifier
+} from './types';
+
+/**
+ * Error raised for syntax and validation problems, carrying the
+ * character offset in the pattern where the problem was found
+ */
+export class STIXPatternError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'STIXPatternError';
+    this.position = position;
+  }
+}
+
+type TokenType =
+  | 'lbracket' | 'rbracket' | 'lparen' | 'rparen' | 'colon' | 'dot' | 'comma'
+  | 'operator' | 'keyword' | 'identifier' | 'string' | 'integer' | 'float'
+  | 'timestamp' | 'hex' | 'binary' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = [
+  'AND', 'OR', 'NOT', 'FOLLOWEDBY', 'LIKE', 'MATCHES', 'ISSUBSET', 'ISSUPERSET', 'IN', 'EXISTS',
+  'WITHIN', 'SECONDS', 'REPEATS', 'TIMES', 'START', 'STOP', 'true', 'false'
+];
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Split a pattern string into tokens
+ */
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    let value = '';
+    let j = start + 1;
+    while (j < input.length) {
+      const ch = input[j];
+      if (ch === '\\') {
+        const next = input[j + 1];
+        if (next !== '\\' && next !== '\'') {
+          throw new STIXPatternError('Invalid escape sequence in string literal', j);
+        }
+        value += next;
+        j += 2;
+      } else if (ch === '\'') {
+        i = j + 1;
+        return value;
+      } else {
+        value += ch;
+        j += 1;
+      }
+    }
+    throw new STIXPatternError('Unterminated string literal', start);
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if ('[]():.,'.includes(ch)) {
+      const types: { [key: string]: TokenType } = {
+        '[': 'lbracket', ']': 'rbracket', '(': 'lparen', ')': 'rparen', ':': 'colon', '.': 'dot', ',': 'comma'
+      };
+      tokens.push({ type: types[ch], value: ch, position: start });
+      i += 1;
+    } else if ('=!<>'.includes(ch)) {
+      const two = input.slice(i, i + 2);
+      if (['!=', '<=', '>=', '=='].includes(two)) {
+        tokens.push({ type: 'operator', value: two === '==' ? '=' : two, position: start });
+        i += 2;
+      } else if (ch === '!') {
+        throw new STIXPatternError('Unexpected character \'!\'', start);
+      } else {
+        tokens.push({ type: 'operator', value: ch, position: start });
+        i += 1;
+      }
+    } else if (ch === '\'') {
+      tokens.push({ type: 'string', value: readQuoted(start), position: start });
+    } else if (/[thb]/.test(ch) && input[i + 1] === '\'') {
+      i += 1;
+      const value = readQuoted(i);
+      const types: { [key: string]: TokenType } = { t: 'timestamp', h: 'hex', b: 'binary' };
+      tokens.push({ type: types[ch], value, position: start });
+    } else if (/[-+\d]/.test(ch)) {
+      const match = input.slice(i).match(/^[-+]?\d+(\.\d+)?/);
+      if (!match) {
+        throw new STIXPatternError(`Unexpected character '${ch}'`, start);
+      }
+      tokens.push({ type: match[1] ? 'float' : 'integer', value: match[0], position: start });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = input.slice(i).match(/^[A-Za-z_][A-Za-z0-9_-]*/) as RegExpMatchArray;
+      const word = match[0];
+      tokens.push({ type: KEYWORDS.includes(word) ? 'keyword' : 'identifier', value: word, position: start });
+      i += word.length;
+    } else if (ch === '*') {
+      tokens.push({ type: 'identifier', value: '*', position: start });
+      i += 1;
+    } else {
+      throw new STIXPatternError(`Unexpected character '${ch}'`, start);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+};
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class PatternParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ObservationExpression {
+    const expression = this.parseObservationExpressions();
+    this.expect('eof');
+    return expression;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.pos += 1;
+    return token;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  private expect(type: TokenType, value?: string): Token {
+    const token = this.peek();
+    if (token.type !== type || (value !== undefined && token.value !== value)) {
+      const expected = value || type;
+      const found = token.type === 'eof' ? 'end of pattern' : `'${token.value}'`;
+      throw new STIXPatternError(`Expected ${expected} but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  // observationExpressions: orExpr (FOLLOWEDBY orExpr)*
+  private parseObservationExpressions(): ObservationExpression {
+    return this.parseObservationBinary('followedby', 'FOLLOWEDBY', () => (
+      this.parseObservationBinary('or', 'OR', () => (
+        this.parseObservationBinary('and', 'AND', () => this.parseObservation())
+      ))
+    ));
+  }
+
+  private parseObservationBinary(
+    kind: 'and' | 'or' | 'followedby',
+    keyword: string,
+    parseOperand: () => ObservationExpression
+  ): ObservationExpression {
+    const operands = [parseOperand()];
+    while (this.isKeyword(keyword)) {
+      this.next();
+      operands.push(parseOperand());
+    }
+    return operands.length === 1 ? operands[0] : { kind, operands, qualifiers: [] };
+  }
+
+  // observation: '[' comparison ']' qualifier* | '(' observationExpressions ')' qualifier*
+  private parseObservation(): ObservationExpression {
+    let expression: ObservationExpression;
+    const token = this.peek();
+
+    if (token.type === 'lbracket') {
+      this.next();
+      const comparison = this.parseComparisonOr();
+      this.expect('rbracket');
+      expression = { kind: 'observation', comparison, qualifiers: [] };
+    } else if (token.type === 'lparen') {
+      this.next();
+      const inner = this.parseObservationExpressions();
+      this.expect('rparen');
+      expression = { ...inner, qualifiers: [...inner.qualifiers] };
+    } else {
+      const found = token.type === 'eof' ? 'end of pattern' : `'${token.value}'`;
+      throw new STIXPatternError(`Expected '[' or '(' but found ${found}`, token.position);
+    }
+
+    let qualifier = this.parseQualifier();
+    while (qualifier) {
+      expression.qualifiers.push(qualifier);
+      qualifier = this.parseQualifier();
+    }
+    return expression;
+  }
+
+  private parseQualifier(): PatternQualifier | null {
+    if (this.isKeyword('WITHIN')) {
+      this.next();
+      const amount = this.peek();
+      if (amount.type !== 'integer' && amount.type !== 'float') {
+        throw new STIXPatternError('WITHIN requires a number of seconds', amount.position);
+      }
+      this.next();
+      const seconds = Number(amount.value);
+      if (seconds <= 0) {
+        throw new STIXPatternError('WITHIN requires a positive number of seconds', amount.position);
+      }
+      this.expect('keyword', 'SECONDS');
+      return { kind: 'within', seconds };
+    }
+
+    if (this.isKeyword('REPEATS')) {
+      this.next();
+      const amount = this.expect('integer');
+      const times = Number(amount.value);
+      if (times <= 0) {
+        throw new STIXPatternError('REPEATS requires a positive integer', amount.position);
+      }
+      this.expect('keyword', 'TIMES');
+      return { kind: 'repeats', times };
+    }
+
+    if (this.isKeyword('START')) {
+      this.next();
+      const start = this.expect('timestamp');
+      this.expect('keyword', 'STOP');
+      const stop = this.expect('timestamp');
+      this.checkTimestamp(start);
+      this.checkTimestamp(stop);
+      if (Date.parse(stop.value) <= Date.parse(start.value)) {
+        throw new STIXPatternError('STOP must be later than START', stop.position);
+      }
+      return { kind: 'start-stop', start: start.value, stop: stop.value };
+    }
+
+    return null;
+  }
+
+  // comparisonOr: comparisonAnd (OR comparisonAnd)*
+  private parseComparisonOr(): ComparisonExpression {
+    const operands = [this.parseComparisonAnd()];
+    while (this.isKeyword('OR')) {
+      this.next();
+      operands.push(this.parseComparisonAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  // comparisonAnd: propTest (AND propTest)*
+  private parseComparisonAnd(): ComparisonExpression {
+    const operands = [this.parsePropTest()];
+    while (this.isKeyword('AND')) {
+      this.next();
+      operands.push(this.parsePropTest());
+    }
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parsePropTest(): ComparisonExpression {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      this.next();
+      const inner = this.parseComparisonOr();
+      this.expect('rparen');
+      return inner;
+    }
+
+    if (this.isKeyword('EXISTS')) {
+      this.next();
+      return { kind: 'exists', path: this.parseObjectPath(), position: token.position };
+    }
+
+    const path = this.parseObjectPath();
+    let negated = false;
+    if (this.isKeyword('NOT')) {
+      this.next();
+      negated = true;
+    }
+
+    const operatorToken = this.next();
+    const operator = operatorToken.value as ComparisonOperator;
+
+    if (operatorToken.type === 'operator') {
+      const value = this.parseLiteral();
+      if (['>', '<', '>=', '<='].includes(operator) && ['boolean', 'binary'].includes(value.type)) {
+        throw new STIXPatternError(`Operator ${operator} cannot compare ${value.type} values`, operatorToken.position);
+      }
+      return { kind: 'comparison', path, operator, negated, value, position: token.position };
+    }
+
+    if (operatorToken.type === 'keyword' && operator === 'IN') {
+      return {
+        kind: 'comparison', path, operator, negated, value: this.parseSet(), position: token.position
+      };
+    }
+
+    if (operatorToken.type === 'keyword' && ['LIKE', 'MATCHES', 'ISSUBSET', 'ISSUPERSET'].includes(operator)) {
+      const valueToken = this.expect('string');
+      if (operator === 'MATCHES') {
+        // Same screen as playbook `matches`: length, nested quantifiers, syntax
+        compilePattern(valueToken.value, valueToken.position, STIXPatternError);
+      }
+      return {
+        kind: 'comparison',
+        path,
+        operator,
+        negated,
+        value: { type: 'string', value: valueToken.value },
+        position: token.position
+      };
+    }
+
+    const found = operatorToken.type === 'eof' ? 'end of pattern' : `'${operatorToken.value}'`;
+    throw new STIXPatternError(`Expected comparison operator but found ${found}`, operatorToken.position);
+  }
+
+  // objectPath: objectType ':' property ('.' property | '[' index ']')*
+  private parseObjectPath(): ObjectPath {
+    const typeToken = this.expect('identifier');
+    this.expect('colon');
+    const components: ObjectPathComponent[] = [this.parsePropertyName()];
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'dot') {
+        this.next();
+        components.push(this.parsePropertyName());
+      } else if (token.type === 'lbracket' && this.isIndexAhead()) {
+        this.next();
+        const indexToken = this.next();
+        if (indexToken.type === 'integer' && Number(indexToken.value) >= 0) {
+          components.push({ kind: 'index', index: Number(indexToken.value) });
+        } else if (indexToken.type === 'identifier' && indexToken.value === '*') {
+          components.push({ kind: 'index', index: '*' });
+        } else {
+          throw new STIXPatternError('List index must be a non-negative integer or *', indexToken.position);
+        }
+        this.expect('rbracket');
+      } else {
+        break;
+      }
+    }
+
+    return { objectType: typeToken.value, components };
+  }
+
+  private isIndexAhead(): boolean {
+    const inner = this.peek(1);
+    return this.peek(2).type === 'rbracket' && (inner.type === 'integer' || inner.value === '*');
+  }
+
+  private parsePropertyName(): ObjectPathComponent {
+    const token = this.next();
+    if (token.type === 'identifier' || token.type === 'string' || token.type === 'keyword') {
+      return { kind: 'property', name: token.value };
+    }
+    throw new STIXPatternError('Expected property name', token.position);
+  }
+
+  private parseSet(): PatternLiteral[] {
+    this.expect('lparen');
+    const values: PatternLiteral[] = [];
+    if (this.peek().type !== 'rparen') {
+      values.push(this.parseLiteral());
+      while (this.peek().type === 'comma') {
+        this.next();
+        values.push(this.parseLiteral());
+      }
+    }
+    this.expect('rparen');
+    return values;
+  }
+
+  private parseLiteral(): PatternLiteral {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'integer':
+        return { type: 'integer', value: parseInt(token.value, 10) };
+      case 'float':
+        return { type: 'float', value: parseFloat(token.value) };
+      case 'timestamp':
+        this.checkTimestamp(token);
+        return { type: 'timestamp', value: token.value };
+      case 'hex':
+        if (!/^([0-9a-fA-F]{2})*$/.test(token.value)) {
+          throw new STIXPatternError('Invalid hex literal', token.position);
+        }
+        return { type: 'hex', value: token.value.toLowerCase() };
+      case 'binary':
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(token.value)) {
+          throw new STIXPatternError('Invalid binary literal', token.position);
+        }
+        return { type: 'binary', value: token.value };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'boolean', value: token.value === 'true' };
+        }
+        break;
+      default:
+        break;
+    }
+    const found = token.type === 'eof' ? 'end of pattern' : `'${token.value}'`;
+    throw new STIXPatternError(`Expected literal value but found ${found}`, token.position);
+  }
+
+  private checkTimestamp(token: Token): void {
+    if (!TIMESTAMP_PATTERN.test(token.value) || Number.isNaN(Date.parse(token.value))) {
+      throw new STIXPatternError('Invalid timestamp literal', token.position);
+    }
+  }
+}
+
+/**
+ * Collect every object type referenced in a comparison expression
+ */
+const comparisonObjectTypes = (expression: ComparisonExpression): Set<string> => {
+  if (expression.kind === 'and' || expression.kind === 'or') {
+    const types = new Set<string>();
+    expression.operands.forEach(operand => comparisonObjectTypes(operand).forEach(t => types.add(t)));
+    return types;
+  }
+  return new Set([expression.path.objectType]);
+};
+
+const firstPosition = (expression: ComparisonExpression): number => (
+  expression.kind === 'and' || expression.kind === 'or'
+    ? firstPosition(expression.operands[0])
+    : expression.position
+);
+
+/**
+ * Check object types and properties against the known cyber-observables.
+ * Custom objects (x-*) and custom properties (x_*) are accepted as-is.
+ */
+const validateComparison = (expression: ComparisonExpression): void => {
+  if (expression.kind === 'and' || expression.kind === 'or') {
+    expression.operands.forEach(validateComparison);
+
+    // All comparisons joined by AND inside one observation must target the same object type
+    if (expression.kind === 'and') {
+      const types = comparisonObjectTypes(expression);
+      if (types.size > 1) {
+        throw new STIXPatternError(
+          `Comparisons joined by AND must reference the same object type (found ${[...types].join(', ')})`,
+          firstPosition(expression)
+        );
+      }
+    }
+    return;
+  }
+
+  const { objectType, components } = expression.path;
+  if (objectType.startsWith('x-')) {
+    return;
+  }
+
+  const properties = STIX_OBSERVABLE_PROPERTIES[objectType];
+  if (!properties) {
+    throw new STIXPatternError(`Unknown cyber-observable type '${objectType}'`, expression.position);
+  }
+
+  const first = components[0];
+  if (first.kind === 'property' && !first.name.startsWith('x_') && !properties.includes(first.name)) {
+    throw new STIXPatternError(`Unknown property '${first.name}' for type '${objectType}'`, expression.position);
+  }
+};
+
+const validateObservation = (expression: ObservationExpression, types: Set<string>): void => {
+  if (expression.kind === 'observation') {
+    validateComparison(expression.comparison);
+    comparisonObjectTypes(expression.comparison).forEach(t => types.add(t));
+    return;
+  }
+  expression.operands.forEach(operand => validateObservation(operand, types));
+};
+
+/**
+ * Parse and validate a STIX 2.1 pattern
+ * @throws STIXPatternError when the pattern is malformed or references unknown observables
+ */
+export const parseSTIXPattern = (pattern: string): ParsedPattern => {
+  if (typeof pattern !== 'string' || pattern.trim() === '') {
+    throw new STIXPatternError('Pattern is empty', 0);
+  }
+
+  const ast = new PatternParser(tokenize(pattern)).parse();
+  const types = new Set<string>();
+  validateObservation(ast, types);
+
+  return { pattern, ast, objectTypes: [...types] };
+};
+
+/**
+ * Collect every (object type, path, value) comparison in a parsed pattern.
+ * Useful for reducing a pattern to the literal values it tests for.
+ */
+export const collectComparisons = (expression: ObservationExpression): PatternComparison[] => {
+  const walk = (comparison: ComparisonExpression): PatternComparison[] => {
+    if (comparison.kind === 'and' || comparison.kind === 'or') {
+      return comparison.operands.flatMap(walk);
+    }
+    return comparison.kind === 'comparison' ? [comparison] : [];
+  };
+
+  if (expression.kind === 'observation') {
+    return walk(expression.comparison);
+  }
+  return expression.operands.flatMap(collectComparisons);
+};
+
+/**
+ * Render an object path back to pattern syntax, e.g. file:hashes.'SHA-256'
+ */
+export const formatObjectPath = (path: ObjectPath): string => {
+  const rendered = path.components.map((component, index) => {
+    if (component.kind === 'index') {
+      return `[${component.index}]`;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*$/.test(component.name)
+      ? component.name
+      : `'${component.name.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+    return index === 0 ? name : `.${name}`;
+  });
+  return `${path.objectType}:${rendered.join('')}`;
+};
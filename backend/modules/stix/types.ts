@@ -247,6 +247,7 @@ export interface EmailMessage extends ObservableObject {
   to_refs?: string[];
   cc_refs?: string[];
   bcc_refs?: string[];
+  message_id?: string;
   subject?: string;
   received_lines?: string[];
   additional_header_fields?: { [key: string]: any };
@@ -262,6 +263,122 @@ export interface EmailMIMEPart {
   content_disposition?: string;
 }
 
+export interface NetworkTraffic extends ObservableObject {
+  type: 'network-traffic';
+  start?: string;
+  end?: string;
+  is_active?: boolean;
+  src_ref?: string;
+  dst_ref?: string;
+  src_port?: number;
+  dst_port?: number;
+  protocols: string[];
+  src_byte_count?: number;
+  dst_byte_count?: number;
+  src_packets?: number;
+  dst_packets?: number;
+  ipfix?: { [key: string]: any };
+  extensions?: { [key: string]: any };
+}
+
+export interface Process extends ObservableObject {
+  type: 'process';
+  is_hidden?: boolean;
+  pid?: number;
+  created_time?: string;
+  cwd?: string;
+  command_line?: string;
+  environment_variables?: { [key: string]: string };
+  opened_connection_refs?: string[];
+  creator_user_ref?: string;
+  image_ref?: string;
+  parent_ref?: string;
+  child_refs?: string[];
+}
+
+export interface UserAccount extends ObservableObject {
+  type: 'user-account';
+  user_id?: string;
+  credential?: string;
+  account_login?: string;
+  account_type?: string;
+  display_name?: string;
+  is_service_account?: boolean;
+  is_privileged?: boolean;
+  can_escalate_privs?: boolean;
+  is_disabled?: boolean;
+}
+
+export interface WindowsRegistryKey extends ObservableObject {
+  type: 'windows-registry-key';
+  key?: string;
+  values?: { name?: string; data?: string; data_type?: string }[];
+  modified_time?: string;
+  creator_user_ref?: string;
+  number_of_subkeys?: number;
+}
+
+export interface Mutex extends ObservableObject {
+  type: 'mutex';
+  name: string;
+}
+
+export interface MACAddress extends ObservableObject {
+  type: 'mac-addr';
+  value: string;
+}
+
+export interface AutonomousSystem extends ObservableObject {
+  type: 'autonomous-system';
+  number: number;
+  name?: string;
+  rir?: string;
+}
+
+export interface X509Certificate extends ObservableObject {
+  type: 'x509-certificate';
+  is_self_signed?: boolean;
+  hashes?: { [algorithm: string]: string };
+  version?: string;
+  serial_number?: string;
+  signature_algorithm?: string;
+  issuer?: string;
+  validity_not_before?: string;
+  validity_not_after?: string;
+  subject?: string;
+  subject_public_key_algorithm?: string;
+}
+
+export interface Artifact extends ObservableObject {
+  type: 'artifact';
+  mime_type?: string;
+  payload_bin?: string;
+  url?: string;
+  hashes?: { [algorithm: string]: string };
+  encryption_algorithm?: string;
+  decryption_key?: string;
+}
+
+export interface Directory extends ObservableObject {
+  type: 'directory';
+  path: string;
+  path_enc?: string;
+  ctime?: string;
+  mtime?: string;
+  atime?: string;
+  contains_refs?: string[];
+}
+
+export interface Software extends ObservableObject {
+  type: 'software';
+  name: string;
+  cpe?: string;
+  swid?: string;
+  languages?: string[];
+  vendor?: string;
+  version?: string;
+}
+
 // Helper types
 export interface KillChainPhase {
   kill_chain_name: string;
@@ -298,6 +415,299 @@ export type STIXCyberObservable =
   | URL 
   | File 
   | EmailAddress 
-  | EmailMessage;
+  | EmailMessage
+  | NetworkTraffic
+  | Process
+  | UserAccount
+  | WindowsRegistryKey
+  | Mutex
+  | MACAddress
+  | AutonomousSystem
+  | X509Certificate
+  | Artifact
+  | Directory
+  | Software;
 
 export type AnySTIXObject = STIXDomainObject | STIXRelationshipObject | STIXCyberObservable;
+
+/**
+ * Properties that may be referenced by a pattern object path, per
+ * cyber-observable type. Kept in line with the SCO interfaces above.
+ */
+const COMMON_OBSERVABLE_PROPERTIES = [
+  'id', 'type', 'spec_version', 'object_marking_refs', 'granular_markings', 'defanged', 'extensions'
+];
+
+export const STIX_OBSERVABLE_PROPERTIES: { [type: string]: string[] } = {
+  artifact: ['mime_type', 'payload_bin', 'url', 'hashes', 'encryption_algorithm', 'decryption_key'],
+  'autonomous-system': ['number', 'name', 'rir'],
+  directory: ['path', 'path_enc', 'ctime', 'mtime', 'atime', 'contains_refs'],
+  'domain-name': ['value', 'resolves_to_refs'],
+  'email-addr': ['value', 'display_name', 'belongs_to_ref'],
+  'email-message': [
+    'is_multipart', 'date', 'content_type', 'from_ref', 'sender_ref', 'to_refs', 'cc_refs', 'bcc_refs',
+    'message_id', 'subject', 'received_lines', 'additional_header_fields', 'body', 'body_multipart', 'raw_email_ref'
+  ],
+  file: [
+    'hashes', 'size', 'name', 'name_enc', 'magic_number_hex', 'mime_type', 'ctime', 'mtime', 'atime',
+    'parent_directory_ref', 'contains_refs', 'content_ref'
+  ],
+  'ipv4-addr': ['value', 'resolves_to_refs', 'belongs_to_refs'],
+  'ipv6-addr': ['value', 'resolves_to_refs', 'belongs_to_refs'],
+  'mac-addr': ['value'],
+  mutex: ['name'],
+  'network-traffic': [
+    'start', 'end', 'is_active', 'src_ref', 'dst_ref', 'src_port', 'dst_port', 'protocols', 'src_byte_count',
+    'dst_byte_count', 'src_packets', 'dst_packets', 'ipfix', 'src_payload_ref', 'dst_payload_ref', 'encapsulates_refs',
+    'encapsulated_by_ref'
+  ],
+  process: [
+    'is_hidden', 'pid', 'created_time', 'cwd', 'command_line', 'environment_variables', 'opened_connection_refs',
+    'creator_user_ref', 'image_ref', 'parent_ref', 'child_refs'
+  ],
+  software: ['name', 'cpe', 'swid', 'languages', 'vendor', 'version'],
+  url: ['value'],
+  'user-account': [
+    'user_id', 'credential', 'account_login', 'account_type', 'display_name', 'is_service_account', 'is_privileged',
+    'can_escalate_privs', 'is_disabled', 'account_created', 'account_expires', 'credential_last_changed',
+    'account_first_login', 'account_last_login'
+  ],
+  'windows-registry-key': ['key', 'values', 'modified_time', 'creator_user_ref', 'number_of_subkeys'],
+  'x509-certificate': [
+    'is_self_signed', 'hashes', 'version', 'serial_number', 'signature_algorithm', 'issuer', 'validity_not_before',
+    'validity_not_after', 'subject', 'subject_public_key_algorithm', 'subject_public_key_modulus',
+    'subject_public_key_exponent', 'x509_v3_extensions'
+  ]
+};
+
+for (const type of Object.keys(STIX_OBSERVABLE_PROPERTIES)) {
+  STIX_OBSERVABLE_PROPERTIES[type].push(...COMMON_OBSERVABLE_PROPERTIES);
+}
+
+// STIX Patterning AST
+export type PatternLiteralType = 'string' | 'integer' | 'float' | 'boolean' | 'timestamp' | 'hex' | 'binary';
+
+export interface PatternLiteral {
+  type: PatternLiteralType;
+  value: string | number | boolean;
+}
+
+// A path component is either a property name or a list index ('*' for any element)
+export type ObjectPathComponent =
+  | { kind: 'property'; name: string }
+  | { kind: 'index'; index: number | '*' };
+
+export interface ObjectPath {
+  objectType: string;
+  components: ObjectPathComponent[];
+}
+
+export type ComparisonOperator =
+  | '=' | '!=' | '>' | '<' | '>=' | '<='
+  | 'IN' | 'LIKE' | 'MATCHES' | 'ISSUBSET' | 'ISSUPERSET';
+
+export interface PatternComparison {
+  kind: 'comparison';
+  path: ObjectPath;
+  operator: ComparisonOperator;
+  negated: boolean;
+  value: PatternLiteral | PatternLiteral[];
+  position: number;
+}
+
+export interface PatternExists {
+  kind: 'exists';
+  path: ObjectPath;
+  position: number;
+}
+
+export type ComparisonExpression =
+  | PatternComparison
+  | PatternExists
+  | { kind: 'and'; operands: ComparisonExpression[] }
+  | { kind: 'or'; operands: ComparisonExpression[] };
+
+export type PatternQualifier =
+  | { kind: 'within'; seconds: number }
+  | { kind: 'repeats'; times: number }
+  | { kind: 'start-stop'; start: string; stop: string };
+
+export type ObservationExpression =
+  | { kind: 'observation'; comparison: ComparisonExpression; qualifiers: PatternQualifier[] }
+  | { kind: 'and'; operands: ObservationExpression[]; qualifiers: PatternQualifier[] }
+  | { kind: 'or'; operands: ObservationExpression[]; qualifiers: PatternQualifier[] }
+  | { kind: 'followedby'; operands: ObservationExpression[]; qualifiers: PatternQualifier[] };
+
+export interface ParsedPattern {
+  pattern: string;
+  ast: ObservationExpression;
+  objectTypes: string[];
+}
+
+// A cyber-observable as seen in an observation; only `type` is required
+export interface ObservedObject {
+  type: string;
+  id?: string;
+  [property: string]: any;
+}
+
+// A set of cyber-observables seen together at one point in time (the shape of observed-data)
+export interface PatternObservation {
+  first_observed: string;
+  last_observed?: string;
+  number_observed?: number;
+  objects: { [key: string]: ObservedObject } | ObservedObject[];
+}
+
+export interface PatternMatch {
+  observations: number[];
+}
+
+export interface PatternEvaluationResult {
+  matched: boolean;
+  matches: PatternMatch[];
+}
+
+// STIX import reporting
+export type STIXImportStatus = 'created' | 'updated' | 'skipped' | 'error';
+
+export interface STIXImportObjectResult {
+  stixId: string;
+  type: string;
+  status: STIXImportStatus;
+  entityType?: string;
+  entityId?: string;
+  reason?: string;
+}
+
+export interface STIXImportReport {
+  bundleId: string;
+  results: STIXImportObjectResult[];
+  counts: { [status in STIXImportStatus]: number };
+}
+
+export interface STIXImportOptions {
+  source?: string;
+}
+
+// Data markings
+export type TLPLevel = 'white' | 'green' | 'amber' | 'red';
+
+export interface MarkingDefinition {
+  type: 'marking-definition';
+  spec_version: string;
+  id: string;
+  created: string;
+  created_by_ref?: string;
+  name?: string;
+  definition_type?: string;
+  definition?: { tlp?: TLPLevel; statement?: string };
+}
+
+/**
+ * Predefined TLP marking definitions from the STIX 2.1 specification (section 7.2.1.4).
+ * Their IDs are fixed so consumers recognise them without resolving the objects.
+ */
+export const TLP_MARKING_DEFINITIONS: { [level in TLPLevel]: MarkingDefinition } = {
+  white: {
+    type: 'marking-definition',
+    spec_version: '2.1',
+    id: 'marking-definition--613f2e26-407d-48c7-9eca-b8e91df99dc9',
+    created: '2017-01-20T00:00:00.000Z',
+    name: 'TLP:WHITE',
+    definition_type: 'tlp',
+    definition: { tlp: 'white' }
+  },
+  green: {
+    type: 'marking-definition',
+    spec_version: '2.1',
+    id: 'marking-definition--34098fce-860f-48ae-8e50-ebd3cc5e41da',
+    created: '2017-01-20T00:00:00.000Z',
+    name: 'TLP:GREEN',
+    definition_type: 'tlp',
+    definition: { tlp: 'green' }
+  },
+  amber: {
+    type: 'marking-definition',
+    spec_version: '2.1',
+    id: 'marking-definition--f88d31f6-486f-44da-b317-01333bde0b82',
+    created: '2017-01-20T00:00:00.000Z',
+    name: 'TLP:AMBER',
+    definition_type: 'tlp',
+    definition: { tlp: 'amber' }
+  },
+  red: {
+    type: 'marking-definition',
+    spec_version: '2.1',
+    id: 'marking-definition--5e57c739-391a-4eb3-b6be-7d15ca92d5ed',
+    created: '2017-01-20T00:00:00.000Z',
+    name: 'TLP:RED',
+    definition_type: 'tlp',
+    definition: { tlp: 'red' }
+  }
+};
+
+// STIX export
+export type STIXExportEntityType = 'ioc' | 'threat_actor' | 'campaign' | 'malware' | 'vulnerability';
+
+/** Entity types listed from the database stores; campaigns live on threat actor profiles */
+export type STIXListEntityType = Exclude<STIXExportEntityType, 'campaign'>;
+
+export interface STIXExportOptions {
+  /** Stored entity IDs to export, of any supported type */
+  ids?: string[];
+  /** Entity types to export when selecting by filter */
+  entityTypes?: STIXExportEntityType[];
+  /** Only entities updated at or after this time */
+  modifiedSince?: string;
+  /** Only entities carrying at least one of these tags */
+  tags?: string[];
+  /** Marking for entities that carry no TLP of their own */
+  tlp?: TLPLevel;
+  includeRelationships?: boolean;
+  includeObservables?: boolean;
+  limit?: number;
+}
+
+export interface STIXExportResult {
+  bundle: STIXBundle;
+  skipped: { entityType: string; entityId: string; reason: string }[];
+}
+
+/**
+ * Place of an object in listing order: by modified timestamp, then by the
+ * platform ID of the stored entity or link (the STIX ID for fixed objects)
+ */
+export interface STIXListPosition {
+  modified: string;
+  key: string;
+}
+
+export interface STIXListOptions {
+  entityTypes?: STIXListEntityType[];
+  /** Only entities carrying at least one of these tags */
+  tags?: string[];
+  /** Marking for entities that carry no TLP of their own */
+  tlp?: TLPLevel;
+  /** Only objects of these STIX types */
+  types?: string[];
+  /** Only objects with these STIX IDs */
+  ids?: string[];
+  /** Only objects modified after this time */
+  modifiedAfter?: string;
+  /** Only objects listed after this position */
+  after?: STIXListPosition;
+  /** Rows read from each store per call */
+  batchSize?: number;
+}
+
+export interface STIXListedObject {
+  object: STIXObject;
+  position: STIXListPosition;
+}
+
+export interface STIXListResult {
+  objects: STIXListedObject[];
+  /** Position to continue from when the stores hold more rows */
+  next?: STIXListPosition;
+}
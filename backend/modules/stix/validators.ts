@@ -0,0 +1,33 @@
+/**
+ * STIX Request Validators
+ * Joi schemas for the STIX routes
+ */
+
+import { Joi } from '../../middleware/validator';
+
+// Longest pattern accepted for evaluation; MATCHES regexes are capped by the parser
+export const MAX_PATTERN_LENGTH = 4096;
+
+// Most observations, IOCs or events evaluated per request, each
+export const MAX_EVALUATION_ITEMS = 1000;
+
+const items = (item = Joi.object()) => (
+  Joi.array().items(item).max(MAX_EVALUATION_ITEMS).default([])
+);
+
+// Event fields eventToObservation reads as strings
+const event = Joi.object({
+  sourceIp: Joi.string(),
+  destIp: Joi.string(),
+  protocol: Joi.string(),
+  fileHash: Joi.string(),
+  fileName: Joi.string(),
+  filePath: Joi.string()
+}).unknown(true);
+
+export const evaluatePatternSchema = Joi.object({
+  pattern: Joi.string().max(MAX_PATTERN_LENGTH).required(),
+  observations: items(),
+  iocs: items(),
+  events: items(event)
+});
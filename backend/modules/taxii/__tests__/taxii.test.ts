@@ -0,0 +1,270 @@
+/**
+ * TAXII 2.1 Server Tests
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import taxiiRouter from '../index';
+import { TAXIIService } from '../service';
+import { TAXIIError } from '../errors';
+import { READ_COLLECTIONS, INBOX_COLLECTION } from '../collections';
+import { stixExporter } from '../../stix/exporter';
+import { stixImporter } from '../../stix/importer';
+import { CAPABILITIES } from '../../../utils/access';
+
+jest.mock('../../stix/exporter', () => ({
+  stixExporter: { listObjects: jest.fn() }
+}));
+
+jest.mock('../../stix/importer', () => ({
+  stixImporter: { importBundle: jest.fn() }
+}));
+
+jest.mock('../../../middleware/auth', () => ({
+  __esModule: true,
+  default: {
+    authenticate: (req: any, _res: any, next: any) => {
+      const capabilities = req.get('X-Test-Capabilities');
+      req.user = { id: 'user-1', role: 'analyst', capabilities: capabilities ? capabilities.split(',') : [] };
+      next();
+    }
+  }
+}));
+
+const reader = { id: 'user-1', role: 'analyst', capabilities: [CAPABILITIES.KNOWLEDGE_READ] };
+const writer = { ...reader, capabilities: [CAPABILITIES.KNOWLEDGE_READ, CAPABILITIES.KNOWLEDGE_IMPORT] };
+
+const object = (type: string, id: string, modified: string) => ({
+  type, spec_version: '2.1', id: `${type}--${id}`, created: '2024-01-01T00:00:00.000Z', modified
+});
+
+const objects = [
+  object('identity', 'org', '2024-01-01T00:00:00.000Z'),
+  object('indicator', 'a', '2024-02-01T00:00:00.000Z'),
+  object('indicator', 'b', '2024-02-01T00:00:00.000Z'),
+  object('malware', 'c', '2024-03-01T00:00:00.000Z'),
+  object('relationship', 'd', '2024-04-01T00:00:00.000Z')
+];
+
+const indicators = READ_COLLECTIONS[0].id;
+
+const positionOf = (o: any) => ({ modified: o.modified, key: o.id });
+const before = (a: any, b: any) => (
+  a.modified < b.modified || (a.modified === b.modified && a.key < b.key)
+);
+
+/**
+ * Lists the objects above like the exporter does, `batchSize` at a time
+ */
+const listObjects = async (options: any) => {
+  const matching = objects
+    .filter(o => !options.types || options.types.includes(o.type))
+    .filter(o => !options.ids || options.ids.includes(o.id))
+    .filter(o => !options.modifiedAfter || o.modified > options.modifiedAfter)
+    .filter(o => !options.after || before(options.after, positionOf(o)));
+  const batch = matching.slice(0, options.batchSize);
+  return {
+    objects: batch.map(o => ({ object: o, position: positionOf(o) })),
+    next: matching.length > batch.length ? positionOf(batch[batch.length - 1]) : undefined
+  };
+};
+
+describe('TAXIIService', () => {
+  const service = new TAXIIService();
+
+  beforeEach(() => {
+    delete process.env.TAXII_INBOX_ENABLED;
+    (stixExporter.listObjects as jest.Mock).mockImplementation(listObjects);
+  });
+
+  it('should list collections with access rights from capabilities', () => {
+    expect(service.listCollections(reader as any).map(c => [c.alias, c.can_read, c.can_write])).toEqual([
+      ['indicators', true, false],
+      ['threat-actors', true, false],
+      ['all', true, false]
+    ]);
+    expect(service.listCollections({ ...reader, capabilities: [] } as any)).toEqual([]);
+
+    process.env.TAXII_INBOX_ENABLED = 'true';
+    expect(service.getCollection('inbox', writer as any)).toMatchObject({
+      id: INBOX_COLLECTION.id, can_read: true, can_write: true
+    });
+  });
+
+  it('should list collection content from the exporter for the collection entity types', async () => {
+    await service.getObjects(indicators, {}, reader as any);
+
+    expect(stixExporter.listObjects).toHaveBeenCalledWith(expect.objectContaining({
+      entityTypes: ['ioc'], batchSize: 101
+    }));
+  });
+
+  it('should pass the filters and cursor to the store queries', async () => {
+    const first = await service.getObjects(indicators, {
+      addedAfter: '2024-01-15T00:00:00.000Z', matchTypes: ['indicator'], limit: 1
+    }, reader as any);
+    await service.getObjects(indicators, { matchTypes: ['indicator'], limit: 1, next: first.next }, reader as any);
+
+    expect(stixExporter.listObjects).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      types: ['indicator'], modifiedAfter: '2024-01-15T00:00:00.000Z', after: undefined, batchSize: 2
+    }));
+    expect(stixExporter.listObjects).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      after: { modified: '2024-02-01T00:00:00.000Z', key: 'indicator--a' }
+    }));
+  });
+
+  it('should read further batches when filters leave a page short', async () => {
+    const page = await service.getObjects(indicators, {
+      matchSpecVersions: ['2.1'], matchVersions: ['2024-03-01T00:00:00.000Z'], limit: 1
+    }, reader as any);
+
+    expect(page.items.map(o => o.id)).toEqual(['malware--c']);
+    expect(page.more).toBe(false);
+    expect(stixExporter.listObjects).toHaveBeenCalledTimes(3);
+  });
+
+  it('should filter by added_after, type and id', async () => {
+    const after = await service.getObjects(indicators, { addedAfter: '2024-02-01T00:00:00.000Z' }, reader as any);
+    expect(after.items.map(o => o.id)).toEqual(['malware--c', 'relationship--d']);
+    expect(after.dateAddedFirst).toBe('2024-03-01T00:00:00.000Z');
+    expect(after.dateAddedLast).toBe('2024-04-01T00:00:00.000Z');
+
+    const typed = await service.getObjects(indicators, { matchTypes: ['indicator', 'malware'] }, reader as any);
+    expect(typed.items.map(o => o.id)).toEqual(['indicator--a', 'indicator--b', 'malware--c']);
+
+    const byId = await service.getObjects(indicators, { matchIds: ['indicator--b'] }, reader as any);
+    expect(byId.items.map(o => o.id)).toEqual(['indicator--b']);
+
+    await expect(service.getObjects(indicators, { addedAfter: 'yesterday' }, reader as any))
+      .rejects.toThrow('Invalid added_after timestamp');
+  });
+
+  it('should paginate with a next cursor', async () => {
+    const first = await service.getObjects(indicators, { limit: 2 }, reader as any);
+    expect(first.items.map(o => o.id)).toEqual(['identity--org', 'indicator--a']);
+    expect(first.more).toBe(true);
+
+    const second = await service.getObjects(indicators, { limit: 2, next: first.next }, reader as any);
+    expect(second.items.map(o => o.id)).toEqual(['indicator--b', 'malware--c']);
+
+    const last = await service.getObjects(indicators, { limit: 2, next: second.next }, reader as any);
+    expect(last.items.map(o => o.id)).toEqual(['relationship--d']);
+    expect(last.more).toBe(false);
+    expect(last.next).toBeUndefined();
+
+    await expect(service.getObjects(indicators, { next: 'garbage' }, reader as any)).rejects.toThrow(TAXIIError);
+  });
+
+  it('should return manifest records and object versions', async () => {
+    const manifest = await service.getManifest(indicators, { matchTypes: ['malware'] }, reader as any);
+    expect(manifest.items).toEqual([{
+      id: 'malware--c',
+      date_added: '2024-03-01T00:00:00.000Z',
+      version: '2024-03-01T00:00:00.000Z',
+      media_type: 'application/stix+json;version=2.1'
+    }]);
+
+    const versions = await service.getObjectVersions(indicators, 'malware--c', {}, reader as any);
+    expect(versions.items).toEqual(['2024-03-01T00:00:00.000Z']);
+
+    await expect(service.getObject(indicators, 'malware--missing', {}, reader as any))
+      .rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should only accept objects into the write collection for users with import rights', async () => {
+    await expect(service.addObjects(indicators, { objects: [] }, writer as any))
+      .rejects.toMatchObject({ status: 403, message: 'Collection is read-only' });
+
+    process.env.TAXII_INBOX_ENABLED = 'true';
+    await expect(service.addObjects('inbox', { objects: [] }, reader as any)).rejects.toMatchObject({ status: 403 });
+
+    (stixImporter.importBundle as jest.Mock).mockResolvedValue({
+      bundleId: 'bundle--x',
+      results: [
+        { stixId: 'indicator--a', type: 'indicator', status: 'created', entityId: 'ioc-1' },
+        { stixId: 'malware--c', type: 'malware', status: 'skipped', entityId: 'malware-1' },
+        { stixId: 'report--r', type: 'report', status: 'skipped', reason: "Unsupported object type 'report'" }
+      ],
+      counts: {
+        created: 1, updated: 0, skipped: 2, error: 0
+      }
+    });
+
+    const status = await service.addObjects('inbox', {
+      objects: [objects[1], objects[3], object('report', 'r', '2024-01-01T00:00:00.000Z'), { foo: 'bar' }]
+    }, writer as any);
+
+    expect(stixImporter.importBundle).toHaveBeenCalledWith(
+      expect.objectContaining({ objects: expect.any(Array) }),
+      { source: 'taxii' }
+    );
+    expect(status).toMatchObject({
+      status: 'complete', total_count: 4, success_count: 2, failure_count: 2, pending_count: 0
+    });
+    expect(status.failures[0]).toEqual({
+      id: 'report--r', version: '2024-01-01T00:00:00.000Z', message: "Unsupported object type 'report'"
+    });
+    expect(service.getStatus(status.id)).toBe(status);
+  });
+});
+
+describe('TAXII routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const get = (path: string, headers: { [name: string]: string } = {}) => fetch(`${baseUrl}${path}`, { headers });
+
+  beforeAll(done => {
+    const app = express();
+    app.use('/taxii2', taxiiRouter);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    (stixExporter.listObjects as jest.Mock).mockImplementation(listObjects);
+  });
+
+  it('should serve discovery with the TAXII media type', async () => {
+    const response = await get('/taxii2/', {
+      Accept: 'application/taxii+json;version=2.1',
+      'X-Test-Capabilities': CAPABILITIES.KNOWLEDGE_READ
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('application/taxii+json');
+    expect(body.api_roots).toEqual([expect.stringMatching(/\/taxii2\/api\/$/)]);
+  });
+
+  it('should parse match filters and set date-added headers', async () => {
+    const response = await get(
+      `/taxii2/api/collections/${indicators}/objects/?match[type]=indicator&limit=1`,
+      { 'X-Test-Capabilities': CAPABILITIES.KNOWLEDGE_READ }
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.objects.map((o: any) => o.id)).toEqual(['indicator--a']);
+    expect(body.more).toBe(true);
+    expect(response.headers.get('x-taxii-date-added-first')).toBe('2024-02-01T00:00:00.000Z');
+  });
+
+  it('should answer errors with TAXII error messages', async () => {
+    const missing = await get('/taxii2/api/collections/unknown/', {
+      'X-Test-Capabilities': CAPABILITIES.KNOWLEDGE_READ
+    });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ http_status: '404' });
+
+    expect((await get('/taxii2/api/collections/')).status).toBe(403);
+    expect((await get('/taxii2/', { Accept: 'text/html' })).status).toBe(406);
+  });
+});
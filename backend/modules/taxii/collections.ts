@@ -0,0 +1,56 @@
+/**
+ * TAXII Collections
+ * Collections served by the platform and the stored intelligence behind each
+ */
+
+import type { CollectionDefinition } from './types';
+
+/**
+ * Read-only collections. IDs are fixed so client bookmarks survive restarts.
+ */
+export const READ_COLLECTIONS: CollectionDefinition[] = [
+  {
+    id: '2f3b8c6e-5d1a-4f0e-9b7c-1a2d3e4f5a01',
+    title: 'Indicators',
+    alias: 'indicators',
+    description: 'Indicators of compromise with their sightings and relationships',
+    entityTypes: ['ioc'],
+    writable: false
+  },
+  {
+    id: '2f3b8c6e-5d1a-4f0e-9b7c-1a2d3e4f5a02',
+    title: 'Threat Actors and Malware',
+    alias: 'threat-actors',
+    description: 'Threat actors, intrusion sets and malware families',
+    entityTypes: ['threat_actor', 'malware'],
+    writable: false
+  },
+  {
+    id: '2f3b8c6e-5d1a-4f0e-9b7c-1a2d3e4f5a03',
+    title: 'All Intelligence',
+    alias: 'all',
+    description: 'Every indicator, threat actor, malware family and vulnerability',
+    entityTypes: ['ioc', 'threat_actor', 'malware', 'vulnerability'],
+    writable: false
+  }
+];
+
+/**
+ * Write collection for partner submissions. Added objects are imported into the
+ * platform's stores, so reading it returns the merged intelligence.
+ */
+export const INBOX_COLLECTION: CollectionDefinition = {
+  id: '2f3b8c6e-5d1a-4f0e-9b7c-1a2d3e4f5a04',
+  title: 'Inbox',
+  alias: 'inbox',
+  description: 'Submit STIX objects for import into the platform',
+  entityTypes: ['ioc', 'threat_actor', 'malware', 'vulnerability'],
+  writable: true
+};
+
+/**
+ * Collections currently served; the inbox is opt-in via TAXII_INBOX_ENABLED
+ */
+export const getCollectionDefinitions = (): CollectionDefinition[] => (
+  process.env.TAXII_INBOX_ENABLED === 'true' ? [...READ_COLLECTIONS, INBOX_COLLECTION] : READ_COLLECTIONS
+);
@@ -0,0 +1,210 @@
+/**
+ * TAXII Controller
+ * Handles TAXII 2.1 discovery, collection, object and status requests
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { taxiiService } from './service';
+import { TAXIIError } from './errors';
+import { TAXII_MEDIA_TYPE } from './types';
+import type { ObjectQuery, ObjectPage, TAXIIErrorMessage } from './types';
+
+/**
+ * Split a comma-separated TAXII filter value
+ */
+const listParam = (value: unknown): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+export class TAXIIController {
+  /**
+   * Get server discovery information
+   */
+  async getDiscovery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+      this.send(res, 200, taxiiService.getDiscovery(baseUrl));
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get API root information
+   */
+  async getApiRoot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.send(res, 200, taxiiService.getApiRoot());
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * List collections
+   */
+  async getCollections(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const collections = taxiiService.listCollections(req.user);
+      this.send(res, 200, collections.length > 0 ? { collections } : {});
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get a single collection
+   */
+  async getCollection(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.send(res, 200, taxiiService.getCollection(req.params.collectionId, req.user));
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get objects from a collection
+   */
+  async getObjects(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { collectionId } = req.params;
+      const page = await taxiiService.getObjects(collectionId, this.parseQuery(req), req.user);
+      this.sendPage(res, page, { objects: page.items });
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Add objects to a collection
+   */
+  async addObjects(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await taxiiService.addObjects(req.params.collectionId, req.body, req.user);
+      this.send(res, 202, status);
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get a single object from a collection
+   */
+  async getObject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = await taxiiService.getObject(
+        req.params.collectionId,
+        req.params.objectId,
+        this.parseQuery(req),
+        req.user
+      );
+      this.sendPage(res, page, { objects: page.items });
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get the versions of an object in a collection
+   */
+  async getObjectVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const page = await taxiiService.getObjectVersions(
+        req.params.collectionId,
+        req.params.objectId,
+        this.parseQuery(req),
+        req.user
+      );
+      this.sendPage(res, page, { versions: page.items });
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get the manifest of a collection
+   */
+  async getManifest(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { collectionId } = req.params;
+      const page = await taxiiService.getManifest(collectionId, this.parseQuery(req), req.user);
+      this.sendPage(res, page, { objects: page.items });
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Get the status of an add-objects request
+   */
+  async getStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.send(res, 200, taxiiService.getStatus(req.params.statusId));
+    } catch (error: any) {
+      this.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * Read added_after, limit, next and match[...] filters
+   */
+  private parseQuery(req: Request): ObjectQuery {
+    const match = (req.query.match || {}) as { [field: string]: unknown };
+    const limit = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined;
+
+    if (limit !== undefined && (Number.isNaN(limit) || limit < 1)) {
+      throw new TAXIIError(400, 'limit must be a positive integer');
+    }
+
+    return {
+      addedAfter: req.query.added_after ? String(req.query.added_after) : undefined,
+      limit,
+      next: req.query.next ? String(req.query.next) : undefined,
+      matchIds: listParam(match.id),
+      matchTypes: listParam(match.type),
+      matchVersions: listParam(match.version),
+      matchSpecVersions: listParam(match.spec_version)
+    };
+  }
+
+  private sendPage<T>(res: Response, page: ObjectPage<T>, body: any): void {
+    if (page.dateAddedFirst) {
+      res.set('X-TAXII-Date-Added-First', page.dateAddedFirst);
+      res.set('X-TAXII-Date-Added-Last', page.dateAddedLast);
+    }
+    this.send(res, 200, {
+      more: page.more,
+      next: page.next,
+      ...(page.items.length > 0 ? body : {})
+    });
+  }
+
+  private send(res: Response, status: number, body: any): void {
+    res.status(status).set('Content-Type', TAXII_MEDIA_TYPE).json(body);
+  }
+
+  /**
+   * Errors are returned as TAXII error messages
+   */
+  private handleError(error: any, res: Response, next: NextFunction): void {
+    if (error instanceof TAXIIError) {
+      const message: TAXIIErrorMessage = {
+        title: error.message,
+        http_status: String(error.status)
+      };
+      this.send(res, error.status, message);
+      return;
+    }
+    next(error);
+  }
+}
+
+export const taxiiController = new TAXIIController();
@@ -0,0 +1,16 @@
+/**
+ * TAXII Errors
+ */
+
+/**
+ * Error carrying the HTTP status of a TAXII error message
+ */
+export class TAXIIError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'TAXIIError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * TAXII 2.1 Module - Main Router
+ * Serves the platform's intelligence over TAXII 2.1
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { taxiiController } from './controller';
+import { TAXII_MEDIA_TYPE } from './types';
+import { requireCapability } from '../../middleware/access-control';
+import authMiddleware from '../../middleware/auth';
+import { CAPABILITIES } from '../../utils/access';
+
+const { authenticate } = authMiddleware;
+
+const router = express.Router();
+
+/**
+ * Reject requests that cannot accept a TAXII response
+ */
+const negotiate = (req: Request, res: Response, next: NextFunction) => {
+  const accept = req.get('Accept');
+  if (accept && !/application\/taxii\+json|application\/json|\*\/\*/.test(accept)) {
+    res.status(406).set('Content-Type', TAXII_MEDIA_TYPE).json({
+      title: 'Not Acceptable',
+      description: `Supported media type: ${TAXII_MEDIA_TYPE}`,
+      http_status: '406'
+    });
+    return;
+  }
+  next();
+};
+
+router.use(negotiate);
+router.use(authenticate);
+router.use(express.json({ type: ['application/taxii+json', 'application/json'], limit: '10mb' }));
+
+const read = requireCapability(CAPABILITIES.KNOWLEDGE_READ);
+const write = requireCapability(CAPABILITIES.KNOWLEDGE_IMPORT);
+
+// Server discovery
+router.get('/', read, taxiiController.getDiscovery.bind(taxiiController));
+
+// API root information
+router.get('/api/', read, taxiiController.getApiRoot.bind(taxiiController));
+
+// Collections
+router.get('/api/collections/', read, taxiiController.getCollections.bind(taxiiController));
+router.get('/api/collections/:collectionId/', read, taxiiController.getCollection.bind(taxiiController));
+
+// Collection manifest
+router.get('/api/collections/:collectionId/manifest/', read, taxiiController.getManifest.bind(taxiiController));
+
+// Collection objects
+router.get('/api/collections/:collectionId/objects/', read, taxiiController.getObjects.bind(taxiiController));
+router.post('/api/collections/:collectionId/objects/', write, taxiiController.addObjects.bind(taxiiController));
+router.get(
+  '/api/collections/:collectionId/objects/:objectId/',
+  read,
+  taxiiController.getObject.bind(taxiiController)
+);
+router.get(
+  '/api/collections/:collectionId/objects/:objectId/versions/',
+  read,
+  taxiiController.getObjectVersions.bind(taxiiController)
+);
+
+// Status of add-objects requests
+router.get('/api/status/:statusId/', write, taxiiController.getStatus.bind(taxiiController));
+
+export default router;
@@ -0,0 +1,367 @@
+/**
+ * TAXII 2.1 Service
+ * Serves the platform's intelligence as TAXII collections
+ *
+ * Collection content is listed by the STIX exporter, so objects carry the same
+ * stable IDs, identity and markings as any other export. An object's
+ * date_added is its modified timestamp: every update adds a new version.
+ * Filters and pages are applied by the store queries, never to a full export.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { APP } from '../../constants';
+import { isUserHasCapability, CAPABILITIES } from '../../utils/access';
+import { stixExporter } from '../stix/exporter';
+import { stixImporter } from '../stix/importer';
+import { stixConverter } from '../stix/converter';
+import type { STIXObject, STIXListPosition } from '../stix/types';
+import { getCollectionDefinitions } from './collections';
+import { TAXIIError } from './errors';
+import { TAXII_MEDIA_TYPE, STIX_MEDIA_TYPE } from './types';
+import type {
+  Discovery,
+  APIRoot,
+  Collection,
+  CollectionDefinition,
+  ManifestRecord,
+  ObjectQuery,
+  ObjectPage,
+  Status
+} from './types';
+
+type TAXIIUser = Express.Request['user'];
+
+interface CollectionRecord {
+  object: STIXObject;
+  position: STIXListPosition; // its modified timestamp is the date_added
+  version: string;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const MAX_CONTENT_LENGTH = 10 * 1024 * 1024;
+const MAX_STORED_STATUSES = 1000;
+
+const encodeCursor = (record: CollectionRecord): string => Buffer
+  .from(JSON.stringify([record.position.modified, record.position.key]))
+  .toString('base64url');
+
+const decodeCursor = (next: string): STIXListPosition => {
+  try {
+    const cursor = JSON.parse(Buffer.from(next, 'base64url').toString('utf8'));
+    if (Array.isArray(cursor) && cursor.length === 2 && cursor.every(part => typeof part === 'string')
+      && !Number.isNaN(Date.parse(cursor[0]))) {
+      return { modified: cursor[0], key: cursor[1] };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new TAXIIError(400, 'Invalid next parameter');
+};
+
+export class TAXIIService {
+  private statuses = new Map<string, Status>();
+
+  /**
+   * Server discovery resource
+   */
+  getDiscovery(baseUrl: string): Discovery {
+    const apiRoot = `${baseUrl}/api/`;
+
+    return {
+      title: `${APP.NAME} TAXII Server`,
+      description: `TAXII 2.1 access to ${APP.NAME} threat intelligence`,
+      contact: APP.CONTACT.EMAIL,
+      default: apiRoot,
+      api_roots: [apiRoot]
+    };
+  }
+
+  /**
+   * API root information resource
+   */
+  getApiRoot(): APIRoot {
+    return {
+      title: `${APP.NAME} Intelligence`,
+      description: 'Indicators, threat actors, malware and vulnerabilities',
+      versions: [TAXII_MEDIA_TYPE],
+      max_content_length: MAX_CONTENT_LENGTH
+    };
+  }
+
+  /**
+   * Collections the user can see, with their access rights
+   */
+  listCollections(user: TAXIIUser): Collection[] {
+    if (!isUserHasCapability(user as any, CAPABILITIES.KNOWLEDGE_READ)) {
+      return [];
+    }
+    return getCollectionDefinitions().map(definition => this.toCollection(definition, user));
+  }
+
+  /**
+   * A single collection, looked up by ID or alias
+   */
+  getCollection(collectionId: string, user: TAXIIUser): Collection {
+    return this.toCollection(this.resolveCollection(collectionId, user, 'read'), user);
+  }
+
+  /**
+   * Page of objects in a collection
+   */
+  async getObjects(
+    collectionId: string,
+    query: ObjectQuery,
+    user: TAXIIUser
+  ): Promise<ObjectPage<STIXObject>> {
+    const limit = this.pageSize(query);
+    const records = await this.findRecords(
+      this.resolveCollection(collectionId, user, 'read'),
+      query,
+      limit + 1
+    );
+    return this.paginate(records, limit, record => record.object);
+  }
+
+  /**
+   * Page of versions of one object in a collection
+   */
+  async getObject(
+    collectionId: string,
+    objectId: string,
+    query: ObjectQuery,
+    user: TAXIIUser
+  ): Promise<ObjectPage<STIXObject>> {
+    const page = await this.getObjects(collectionId, { ...query, matchIds: [objectId] }, user);
+    if (page.items.length === 0 && !query.next) {
+      throw new TAXIIError(404, `Object ${objectId} not found in collection`);
+    }
+    return page;
+  }
+
+  /**
+   * Versions available for one object in a collection
+   */
+  async getObjectVersions(
+    collectionId: string,
+    objectId: string,
+    query: ObjectQuery,
+    user: TAXIIUser
+  ): Promise<ObjectPage<string>> {
+    const definition = this.resolveCollection(collectionId, user, 'read');
+    const limit = this.pageSize(query);
+    const records = await this.findRecords(definition, {
+      ...query, matchIds: [objectId], matchVersions: ['all']
+    }, limit + 1);
+    if (records.length === 0 && !query.next) {
+      throw new TAXIIError(404, `Object ${objectId} not found in collection`);
+    }
+    return this.paginate(records, limit, record => record.version);
+  }
+
+  /**
+   * Page of manifest records for a collection
+   */
+  async getManifest(
+    collectionId: string,
+    query: ObjectQuery,
+    user: TAXIIUser
+  ): Promise<ObjectPage<ManifestRecord>> {
+    const limit = this.pageSize(query);
+    const records = await this.findRecords(
+      this.resolveCollection(collectionId, user, 'read'),
+      query,
+      limit + 1
+    );
+    return this.paginate(records, limit, record => ({
+      id: record.object.id,
+      date_added: record.position.modified,
+      version: record.version,
+      media_type: STIX_MEDIA_TYPE
+    }));
+  }
+
+  /**
+   * Import an envelope of objects into a writable collection
+   */
+  async addObjects(collectionId: string, envelope: any, user: TAXIIUser): Promise<Status> {
+    this.resolveCollection(collectionId, user, 'write');
+
+    if (!envelope || !Array.isArray(envelope.objects)) {
+      throw new TAXIIError(400, 'Request body must be a TAXII envelope with an objects list');
+    }
+
+    const requestTimestamp = new Date().toISOString();
+    const valid = envelope.objects.filter((object: any) => object && object.id && object.type);
+    const report = await stixImporter.importBundle(
+      { type: 'bundle', id: stixConverter.generateSTIXId('bundle'), objects: valid },
+      { source: 'taxii' }
+    );
+
+    const versions = new Map<string, string>(
+      valid.map((object: any) => [object.id, object.modified || object.created])
+    );
+    const successes = [];
+    const failures = [];
+
+    report.results.forEach(result => {
+      const details = { id: result.stixId, version: versions.get(result.stixId) };
+      // Skips with a stored entity are up-to-date objects; other skips were not stored
+      if (result.status === 'error' || (result.status === 'skipped' && !result.entityId)) {
+        failures.push({ ...details, message: result.reason });
+      } else {
+        successes.push(details);
+      }
+    });
+    envelope.objects
+      .filter((object: any) => !valid.includes(object))
+      .forEach((object: any) => failures.push({
+        id: object && object.id, version: undefined, message: 'Not a STIX object'
+      }));
+
+    const status: Status = {
+      id: uuidv4(),
+      status: 'complete',
+      request_timestamp: requestTimestamp,
+      total_count: envelope.objects.length,
+      success_count: successes.length,
+      successes,
+      failure_count: failures.length,
+      failures,
+      pending_count: 0,
+      pendings: []
+    };
+
+    this.statuses.set(status.id, status);
+    if (this.statuses.size > MAX_STORED_STATUSES) {
+      this.statuses.delete(this.statuses.keys().next().value);
+    }
+    return status;
+  }
+
+  /**
+   * Status of an earlier add-objects request
+   */
+  getStatus(statusId: string): Status {
+    const status = this.statuses.get(statusId);
+    if (!status) {
+      throw new TAXIIError(404, `Status ${statusId} not found`);
+    }
+    return status;
+  }
+
+  /**
+   * Find a collection the user may access, or throw the matching TAXII error
+   */
+  private resolveCollection(collectionId: string, user: TAXIIUser, access: 'read' | 'write'): CollectionDefinition {
+    const definition = getCollectionDefinitions()
+      .find(candidate => candidate.id === collectionId || candidate.alias === collectionId);
+
+    if (!definition || !isUserHasCapability(user as any, CAPABILITIES.KNOWLEDGE_READ)) {
+      throw new TAXIIError(404, `Collection ${collectionId} not found`);
+    }
+    if (access === 'write' && !definition.writable) {
+      throw new TAXIIError(403, 'Collection is read-only');
+    }
+    if (access === 'write' && !isUserHasCapability(user as any, CAPABILITIES.KNOWLEDGE_IMPORT)) {
+      throw new TAXIIError(403, 'Adding objects requires import rights');
+    }
+    return definition;
+  }
+
+  private toCollection(definition: CollectionDefinition, user: TAXIIUser): Collection {
+    return {
+      id: definition.id,
+      title: definition.title,
+      description: definition.description,
+      alias: definition.alias,
+      can_read: isUserHasCapability(user as any, CAPABILITIES.KNOWLEDGE_READ),
+      can_write: definition.writable
+        && isUserHasCapability(user as any, CAPABILITIES.KNOWLEDGE_IMPORT),
+      media_types: [STIX_MEDIA_TYPE]
+    };
+  }
+
+  /**
+   * Collection content matching the request filters, oldest first, from the
+   * `next` cursor on. Reads the stores in batches until `count` records are found.
+   */
+  private async findRecords(
+    definition: CollectionDefinition,
+    query: ObjectQuery,
+    count: number
+  ): Promise<CollectionRecord[]> {
+    if (query.addedAfter && Number.isNaN(Date.parse(query.addedAfter))) {
+      throw new TAXIIError(400, 'Invalid added_after timestamp');
+    }
+
+    const records: CollectionRecord[] = [];
+    let after = query.next ? decodeCursor(query.next) : undefined;
+
+    do {
+      // eslint-disable-next-line no-await-in-loop
+      const result = await stixExporter.listObjects({
+        entityTypes: definition.entityTypes,
+        tags: definition.tags,
+        types: query.matchTypes,
+        ids: query.matchIds,
+        modifiedAfter: query.addedAfter,
+        after,
+        batchSize: count
+      });
+
+      result.objects
+        .map(({ object, position }) => ({ object, position, version: position.modified }))
+        .filter(record => !query.matchSpecVersions
+          || query.matchSpecVersions.includes(record.object.spec_version))
+        .filter(record => this.matchesVersion(record, query.matchVersions))
+        .forEach(record => records.push(record));
+      after = result.next;
+    } while (after && records.length < count);
+
+    return records.slice(0, count);
+  }
+
+  /**
+   * Only one version of each object is kept, so first, last and all select the same one
+   */
+  private matchesVersion(record: CollectionRecord, versions?: string[]): boolean {
+    if (!versions || versions.some(version => ['first', 'last', 'all'].includes(version))) {
+      return true;
+    }
+    return versions.some(version => Date.parse(version) === Date.parse(record.version));
+  }
+
+  /**
+   * Page size requested by the client, within the server's limits
+   */
+  private pageSize(query: ObjectQuery): number {
+    return Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  }
+
+  /**
+   * Keyset pagination: `next` encodes the listing position of the last item returned.
+   * Records are read one past the page size to tell whether there are more.
+   */
+  private paginate<T>(
+    records: CollectionRecord[],
+    limit: number,
+    toItem: (record: CollectionRecord) => T
+  ): ObjectPage<T> {
+    const page = records.slice(0, limit);
+    const more = records.length > limit;
+
+    return {
+      items: page.map(toItem),
+      more,
+      next: more ? encodeCursor(page[page.length - 1]) : undefined,
+      dateAddedFirst: page.length > 0 ? page[0].position.modified : undefined,
+      dateAddedLast: page.length > 0 ? page[page.length - 1].position.modified : undefined
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const taxiiService = new TAXIIService();
@@ -0,0 +1,133 @@
+/**
+ * TAXII 2.1 Type Definitions
+ * Resources from the TAXII 2.1 specification (OASIS, section 4-5)
+ */
+
+import type { STIXObject, STIXListEntityType } from '../stix/types';
+
+export const TAXII_MEDIA_TYPE = 'application/taxii+json;version=2.1';
+export const STIX_MEDIA_TYPE = 'application/stix+json;version=2.1';
+
+export interface Discovery {
+  title: string;
+  description?: string;
+  contact?: string;
+  default?: string;
+  api_roots?: string[];
+}
+
+export interface APIRoot {
+  title: string;
+  description?: string;
+  versions: string[];
+  max_content_length: number;
+}
+
+export interface Collection {
+  id: string;
+  title: string;
+  description?: string;
+  alias?: string;
+  can_read: boolean;
+  can_write: boolean;
+  media_types?: string[];
+}
+
+export interface Collections {
+  collections?: Collection[];
+}
+
+export interface Envelope {
+  more?: boolean;
+  next?: string;
+  objects?: STIXObject[];
+}
+
+export interface ManifestRecord {
+  id: string;
+  date_added: string;
+  version: string;
+  media_type?: string;
+}
+
+export interface Manifest {
+  more?: boolean;
+  next?: string;
+  objects?: ManifestRecord[];
+}
+
+export interface Versions {
+  more?: boolean;
+  next?: string;
+  versions?: string[];
+}
+
+export type TAXIIStatusValue = 'pending' | 'complete';
+
+export interface StatusDetails {
+  id: string;
+  version: string;
+  message?: string;
+}
+
+export interface Status {
+  id: string;
+  status: TAXIIStatusValue;
+  request_timestamp?: string;
+  total_count: number;
+  success_count: number;
+  successes?: StatusDetails[];
+  failure_count: number;
+  failures?: StatusDetails[];
+  pending_count: number;
+  pendings?: StatusDetails[];
+}
+
+export interface TAXIIErrorMessage {
+  title: string;
+  description?: string;
+  error_id?: string;
+  error_code?: string;
+  http_status?: string;
+  external_details?: string;
+  details?: { [key: string]: string };
+}
+
+/**
+ * A collection served by this platform and the stored intelligence it contains
+ */
+export interface CollectionDefinition {
+  id: string;
+  title: string;
+  description: string;
+  alias?: string;
+  entityTypes: STIXListEntityType[];
+  /** Only entities carrying at least one of these tags */
+  tags?: string[];
+  /** Whether clients with import rights may add objects */
+  writable: boolean;
+}
+
+/**
+ * Filters from a TAXII objects or manifest request
+ */
+export interface ObjectQuery {
+  addedAfter?: string;
+  limit?: number;
+  next?: string;
+  matchIds?: string[];
+  matchTypes?: string[];
+  matchVersions?: string[];
+  matchSpecVersions?: string[];
+}
+
+/**
+ * A page of collection content with the date range it spans
+ */
+export interface ObjectPage<T> {
+  items: T[];
+  more: boolean;
+  next?: string;
+  dateAddedFirst?: string;
+  dateAddedLast?: string;
+}
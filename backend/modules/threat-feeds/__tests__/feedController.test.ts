@@ -164,4 +164,40 @@ describe('FeedController', () => {
       expect(res.json).toHaveBeenCalledWith({ error: error.message });
     });
   });
+
+  describe('configureTaxiiFeed', () => {
+    it('should configure a TAXII feed source', async () => {
+      const mockItem = { id: 'feed-1', format: 'taxii' };
+      req.body = {
+        name: 'Partner TAXII',
+        type: 'community',
+        discovery_url: 'https://taxii.example.com/taxii2/',
+        collection_id: 'collection-1',
+      };
+      (feedService.configureFeedSource as jest.Mock).mockResolvedValue(mockItem);
+
+      await feedController.configureTaxiiFeed(req, res);
+
+      expect(feedService.configureFeedSource).toHaveBeenCalledWith(
+        'Partner TAXII',
+        'community',
+        'taxii',
+        'https://taxii.example.com/taxii2/',
+        undefined,
+        { collectionId: 'collection-1', apiRoot: undefined, pageSize: undefined },
+      );
+      expect(res.status).toHaveBeenCalledWith(201);
+      expect(res.json).toHaveBeenCalledWith({ success: true, data: mockItem });
+    });
+
+    it('should handle errors when configuring a TAXII feed', async () => {
+      const error = new Error('TAXII feeds require a collection ID');
+      (feedService.configureFeedSource as jest.Mock).mockRejectedValue(error);
+
+      await feedController.configureTaxiiFeed(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ success: false, error: error.message });
+    });
+  });
 });
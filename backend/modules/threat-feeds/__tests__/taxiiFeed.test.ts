@@ -0,0 +1,251 @@
+/**
+ * Test suite for TAXII 2.1 feed polling
+ * Runs the client against a local stand-in TAXII server
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import feedService from '../services/feedService';
+import taxiiClient from '../services/taxiiClient';
+import ThreatFeed from '../models/ThreatFeed';
+
+jest.mock('../models/ThreatFeed', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn() },
+}));
+
+const COLLECTION_ID = 'collection-1';
+const AUTHORIZATION = `Basic ${Buffer.from('feed:secret').toString('base64')}`;
+
+const indicator = (id: string, pattern: string, added: string, confidence = 80) => ({
+  type: 'indicator',
+  spec_version: '2.1',
+  id: `indicator--${id}`,
+  created: added,
+  modified: added,
+  pattern,
+  pattern_type: 'stix',
+  valid_from: added,
+  confidence,
+  labels: ['botnet'],
+});
+
+// Objects in date_added order, as a TAXII server returns them
+const collection = [
+  indicator('a', "[ipv4-addr:value = '198.51.100.7']", '2024-01-01T00:00:00.000Z'),
+  indicator('b', "[domain-name:value = 'EVIL.example.com']", '2024-01-02T00:00:00.000Z', 50),
+  {
+    type: 'url',
+    spec_version: '2.1',
+    id: 'url--c',
+    value: 'http://evil.example.com/payload',
+  },
+  indicator('d', "[file:hashes.'SHA-256' = 'not a pattern", '2024-01-04T00:00:00.000Z'),
+  indicator('e', "[ipv4-addr:value = '198.51.100.7']", '2024-01-05T00:00:00.000Z', 20),
+];
+// Plain STIX feed with links between its indicators
+const bundle = {
+  type: 'bundle',
+  id: 'bundle--1',
+  objects: [
+    {
+      type: 'domain-name', id: 'domain-name--1', value: 'evil.example.com', resolves_to_refs: ['ipv4-addr--1'],
+    },
+    { type: 'ipv4-addr', id: 'ipv4-addr--1', value: '198.51.100.7' },
+    { type: 'url', id: 'url--1', value: 'http://evil.example.com/payload' },
+    {
+      type: 'relationship',
+      id: 'relationship--1',
+      relationship_type: 'communicates-with',
+      source_ref: 'url--1',
+      target_ref: 'ipv4-addr--1',
+    },
+    {
+      type: 'relationship',
+      id: 'relationship--2',
+      relationship_type: 'indicates',
+      source_ref: 'url--1',
+      target_ref: 'malware--1',
+    },
+  ],
+};
+
+const dateAdded = [
+  '2024-01-01T00:00:00.000Z',
+  '2024-01-02T00:00:00.000Z',
+  '2024-01-03T00:00:00.000Z',
+  '2024-01-04T00:00:00.000Z',
+  '2024-01-05T00:00:00.000Z',
+];
+
+describe('TAXII feeds', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: any[];
+
+  beforeAll((done) => {
+    const app = express();
+
+    app.use((req, res, next) => {
+      requests.push({ path: req.path, query: req.query, accept: req.get('Accept') });
+      if (req.get('Authorization') !== AUTHORIZATION) {
+        res.status(401).json({ title: 'Unauthorized', http_status: '401' });
+        return;
+      }
+      next();
+    });
+
+    app.get('/taxii2/', (req, res) => {
+      res.json({ title: 'Stand-in', default: '/api1/', api_roots: ['/api1/'] });
+    });
+
+    app.get(`/api1/collections/${COLLECTION_ID}/objects/`, (req, res) => {
+      const after = req.query.added_after ? Date.parse(String(req.query.added_after)) : 0;
+      const offset = req.query.next ? Number(req.query.next) : 0;
+      const limit = Number(req.query.limit || 100);
+      const indexes = dateAdded
+        .map((date, index) => index)
+        .filter((index) => Date.parse(dateAdded[index]) > after)
+        .slice(offset);
+      const page = indexes.slice(0, limit);
+      const more = indexes.length > limit;
+
+      if (page.length > 0) {
+        res.set('X-TAXII-Date-Added-First', dateAdded[page[0]]);
+        res.set('X-TAXII-Date-Added-Last', dateAdded[page[page.length - 1]]);
+      }
+      res.set('Content-Type', 'application/taxii+json;version=2.1');
+      res.send(JSON.stringify({
+        more,
+        next: more ? String(offset + limit) : undefined,
+        objects: page.map((index) => collection[index]),
+      }));
+    });
+
+    app.get('/bundle.json', (req, res) => {
+      res.json(bundle);
+    });
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    jest.clearAllMocks();
+  });
+
+  const storedFeed = (addedAfter?: string) => ({
+    id: 'feed-1',
+    name: 'Partner TAXII',
+    format: 'taxii',
+    url: `${baseUrl}/taxii2/`,
+    authentication: { type: 'basic', credentials: { username: 'feed', password: 'secret' } },
+    taxii: { collection_id: COLLECTION_ID, page_size: 2, added_after: addedAfter },
+    total_indicators: 0,
+    save: jest.fn().mockResolvedValue(undefined),
+  });
+
+  it('should discover the API root and follow pagination', async () => {
+    const result = await taxiiClient.pollCollection({
+      discoveryUrl: `${baseUrl}/taxii2/`,
+      collectionId: COLLECTION_ID,
+      limit: 2,
+      headers: { Authorization: AUTHORIZATION },
+    });
+
+    expect(result.apiRoot).toBe(`${baseUrl}/api1/`);
+    expect(result.objects.map((object) => object.id)).toEqual(collection.map((object) => object.id));
+    expect(result.pages).toBe(3);
+    expect(result.complete).toBe(true);
+    expect(result.addedAfter).toBe('2024-01-05T00:00:00.000Z');
+    expect(requests.map((request) => request.query.next)).toEqual([undefined, undefined, '2', '4']);
+    expect(requests[0].accept).toBe('application/taxii+json;version=2.1');
+  });
+
+  it('should normalize, deduplicate and bookmark polled indicators', async () => {
+    const feed = storedFeed();
+    (ThreatFeed.findOne as jest.Mock).mockResolvedValue(feed);
+
+    const result = await feedService.fetchAndParseFeed('feed-1');
+
+    expect(result.indicators.map((item) => [item.type, item.indicator, item.confidence])).toEqual([
+      ['ip', '198.51.100.7', 'high'],
+      ['domain', 'evil.example.com', 'medium'],
+      ['url', 'http://evil.example.com/payload', 'medium'],
+    ]);
+    expect(result.indicators[0].metadata.stix_id).toBe('indicator--a');
+    expect(result.totalItems).toBe(4);
+    expect(feed.taxii.added_after).toBe('2024-01-05T00:00:00.000Z');
+    expect(feed.save).toHaveBeenCalled();
+  });
+
+  it('should only request objects added after the stored bookmark', async () => {
+    const feed = storedFeed('2024-01-03T00:00:00.000Z');
+    (ThreatFeed.findOne as jest.Mock).mockResolvedValue(feed);
+
+    const result = await feedService.fetchAndParseFeed('feed-1');
+
+    expect(requests.slice(1).every((request) => (
+      request.query.added_after === '2024-01-03T00:00:00.000Z'
+    ))).toBe(true);
+    expect(result.indicators.map((item) => item.indicator)).toEqual(['198.51.100.7']);
+    expect(result.indicators[0].confidence).toBe('low');
+    expect(feed.taxii.added_after).toBe('2024-01-05T00:00:00.000Z');
+  });
+
+  it('should keep the bookmark when polling fails', async () => {
+    const feed = storedFeed('2024-01-03T00:00:00.000Z');
+    feed.authentication.credentials.password = 'wrong';
+    (ThreatFeed.findOne as jest.Mock).mockResolvedValue(feed);
+
+    await expect(feedService.fetchAndParseFeed('feed-1')).rejects.toThrow('401');
+    expect(feed.taxii.added_after).toBe('2024-01-03T00:00:00.000Z');
+    expect(feed.save).not.toHaveBeenCalled();
+  });
+
+  it('should report relationships between the indicators of STIX feeds', async () => {
+    const feed = {
+      ...storedFeed(),
+      id: 'feed-2',
+      name: 'Partner STIX',
+      format: 'stix',
+      url: `${baseUrl}/bundle.json`,
+    };
+    (ThreatFeed.findOne as jest.Mock).mockResolvedValue(feed);
+    const relationships = jest.fn();
+    feedService.on('feed:relationships', relationships);
+
+    const result = await feedService.fetchAndParseFeed('feed-2');
+    feedService.off('feed:relationships', relationships);
+
+    const ip = { value: '198.51.100.7', type: 'ip' };
+    expect(result.validIndicators).toBe(3);
+    expect(relationships).toHaveBeenCalledWith({
+      feedId: 'feed-2',
+      links: [
+        { source: { value: 'evil.example.com', type: 'domain' }, edgeType: 'resolves-to', target: ip },
+        {
+          source: { value: 'http://evil.example.com/payload', type: 'url' },
+          edgeType: 'communicates-with',
+          target: ip,
+        },
+      ],
+      source: {
+        name: 'Partner STIX', reliability: 50, sourceType: 'community', feedId: 'feed-2',
+      },
+    });
+  });
+
+  it('should require a collection ID when configuring a TAXII source', async () => {
+    await expect(feedService.configureFeedSource('Partner', 'community', 'taxii', `${baseUrl}/taxii2/`))
+      .rejects.toThrow('TAXII feeds require a collection ID');
+  });
+});
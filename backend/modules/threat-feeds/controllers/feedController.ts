@@ -10,6 +10,25 @@ class FeedController {
     }
   }
 
+  async configureTaxiiFeed(req, res) {
+    try {
+      const {
+        name, type, discovery_url, api_root, collection_id, page_size, authentication,
+      } = req.body;
+      const item = await feedService.configureFeedSource(
+        name,
+        type,
+        'taxii',
+        discovery_url,
+        authentication,
+        { collectionId: collection_id, apiRoot: api_root, pageSize: page_size },
+      );
+      res.status(201).json({ success: true, data: item });
+    } catch (error) {
+      res.status(400).json({ success: false, error: error.message });
+    }
+  }
+
   async getById(req, res) {
     try {
       const item = await feedService.getById(req.params.id);
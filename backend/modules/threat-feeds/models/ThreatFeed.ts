@@ -32,6 +32,13 @@ const ThreatFeedSchema = new mongoose.Schema({
     credentials: mongoose.Schema.Types.Mixed,
     headers: mongoose.Schema.Types.Mixed,
   },
+  taxii: {
+    api_root: String,
+    collection_id: String,
+    page_size: Number,
+    added_after: String,
+    last_polled: Date,
+  },
   parser: {
     format: { type: String, enum: ['rss', 'json', 'xml', 'stix', 'taxii', 'csv', 'txt', 'api'] },
     mapping: mongoose.Schema.Types.Mixed,
@@ -5,10 +5,11 @@ import validatorSchemas from '../validators/feedValidator';
 
 const router = express.Router();
 
-const { feedSchema, feedUpdateSchema } = validatorSchemas;
+const { feedSchema, feedUpdateSchema, taxiiFeedSchema } = validatorSchemas;
 
 // Base CRUD routes
 router.post('/', validate({ body: feedSchema }), feedController.create);
+router.post('/taxii', validate({ body: taxiiFeedSchema }), feedController.configureTaxiiFeed);
 router.get('/', feedController.list);
 router.get('/:id', validate({ params: Joi.object({ id: commonSchemas.objectId.required() }) }), feedController.getById);
 router.put('/:id', validate({
@@ -10,9 +10,18 @@
  * 7. Duplicate detection and deduplication
  */
 
+import { EventEmitter } from 'events';
+import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import ThreatFeed from '../models/ThreatFeed';
 import logger from '../utils/logger';
+import taxiiClient from './taxiiClient';
+import allowListService, { describeMatch } from '../../ioc-management/services/allowListService';
+import { stixConverter } from '../../stix/converter';
+import type { Indicator as STIXIndicator, ObservedObject } from '../../stix/types';
+import type {
+  GraphEdgeType, IndicatorEdge, IndicatorRef, IoCSource, IoCType,
+} from '../../ioc-management/types';
 import type {
   FeedType,
   FeedFormat,
@@ -41,9 +50,45 @@ import type {
   ScheduledJob,
   JobHistory,
   FieldMapping,
+  TaxiiSourceConfig,
 } from '../types';
 
-class FeedService {
+// STIX IOC types that have a feed indicator equivalent
+const STIX_IOC_TYPES: Record<string, IndicatorType> = {
+  ip: 'ip',
+  domain: 'domain',
+  url: 'url',
+  hash: 'hash',
+  email: 'email',
+  file_name: 'file',
+  registry_key: 'registry',
+  mutex: 'mutex',
+};
+
+// STIX IOC types that are IoC types as they are; other indicators are typed when recorded
+const STIX_GRAPH_TYPES: readonly IoCType[] = ['ip', 'domain', 'url', 'email', 'registry_key', 'mutex'];
+
+// STIX relationship types between indicators that become graph edges, and
+// whether the edge points the other way
+const STIX_GRAPH_EDGES: Record<string, { type: GraphEdgeType; reverse: boolean }> = {
+  'resolves-to': { type: 'resolves-to', reverse: false },
+  'communicates-with': { type: 'communicates-with', reverse: false },
+  'dropped-by': { type: 'dropped-by', reverse: false },
+  drops: { type: 'dropped-by', reverse: true },
+  downloads: { type: 'dropped-by', reverse: true },
+};
+
+const FEED_SOURCE_TYPES: Record<string, IoCSource['sourceType']> = {
+  commercial: 'commercial',
+  open_source: 'open_source',
+  custom: 'internal',
+};
+
+/**
+ * Emits `feed:relationships` with { feedId, source, links }: the graph edges
+ * between the indicators of a parsed feed and the IoC source they come from
+ */
+class FeedService extends EventEmitter {
   // Supported feed parsers
   private readonly supportedFormats: FeedFormat[] = ['rss', 'json', 'xml', 'stix', 'taxii', 'csv', 'txt', 'api'];
 
@@ -155,10 +200,15 @@ class FeedService {
     format: FeedFormat,
     url: string,
     authentication?: FeedAuthentication,
+    taxii?: TaxiiSourceConfig,
   ): Promise<any> {
     try {
       logger.info('Configuring feed source', { name, type, format });
 
+      if (format === 'taxii' && !taxii?.collectionId) {
+        throw new Error('TAXII feeds require a collection ID');
+      }
+
       const feed = new ThreatFeed({
         id: uuidv4(),
         name,
@@ -168,6 +218,11 @@ class FeedService {
         status: 'active',
         enabled: true,
         authentication,
+        taxii: taxii && {
+          api_root: taxii.apiRoot,
+          collection_id: taxii.collectionId,
+          page_size: taxii.pageSize,
+        },
         created_at: new Date(),
         updated_at: new Date(),
       });
@@ -401,11 +456,8 @@ class FeedService {
 
       const startTime = Date.now();
 
-      // Fetch feed data
-      const rawData = await this.fetchFeedData(feed.url, feed.authentication as any);
-
-      // Parse based on format
-      const indicators = await this.parseFeedData(rawData, feed.format, feed.parser as any);
+      // Fetch and parse based on format
+      const { indicators, links, addedAfter } = await this.fetchIndicators(feed);
 
       // Normalize indicators
       const normalized = await this.normalizeIndicators(indicators);
@@ -413,13 +465,22 @@ class FeedService {
       // Detect duplicates
       const deduplicated = await this.detectAndRemoveDuplicates(normalized);
 
+      // Drop allow-listed indicators, and the relationships they are part of
+      const { allowed, blocked } = allowListService.screen(
+        deduplicated,
+        (indicator) => ({ value: indicator.indicator, type: indicator.type }),
+        { context: 'feed', source: feed.name, sourceId: feed.id },
+      );
+      const allowedLinks = links.filter((link) => [link.source, link.target]
+        .every((end) => !('value' in end) || !allowListService.match(end.value, end.type)));
+
       const parseTime = Date.now() - startTime;
 
       // Calculate statistics
       const byType: Record<string, number> = {};
       const byConfidence: Record<string, number> = {};
 
-      for (const indicator of deduplicated) {
+      for (const indicator of allowed) {
         byType[indicator.type] = (byType[indicator.type] || 0) + 1;
         byConfidence[indicator.confidence] = (byConfidence[indicator.confidence] || 0) + 1;
       }
@@ -431,12 +492,14 @@ class FeedService {
         format: feed.format,
         parsedAt: new Date(),
         totalItems: indicators.length,
-        validIndicators: deduplicated.length,
+        validIndicators: allowed.length,
         invalidIndicators: indicators.length - deduplicated.length,
         duplicates: indicators.length - deduplicated.length,
-        indicators: deduplicated,
+        indicators: allowed,
         errors: [],
-        warnings: [],
+        warnings: blocked.map(({ item, match }) => (
+          `Allow-listed indicator dropped: ${item.indicator} matches ${describeMatch(match)}`
+        )),
         statistics: {
           parseTime,
           byType: byType as any,
@@ -444,15 +507,27 @@ class FeedService {
         },
       };
 
+      if (allowedLinks.length) {
+        this.emit('feed:relationships', {
+          feedId: feed.id, source: this.iocSource(feed), links: allowedLinks,
+        });
+      }
+
       // Update feed statistics
       feed.last_fetched = new Date();
       feed.last_success = new Date();
-      feed.total_indicators = (feed.total_indicators || 0) + deduplicated.length;
+      feed.total_indicators = (feed.total_indicators || 0) + allowed.length;
+      if (feed.format === 'taxii') {
+        // Advance the bookmark only once the whole poll has been processed
+        feed.taxii.added_after = addedAfter;
+        feed.taxii.last_polled = new Date();
+      }
       await feed.save();
 
       logger.info('Feed parsed successfully', {
         feedId,
-        indicators: deduplicated.length,
+        indicators: allowed.length,
+        allowListed: blocked.length,
         parseTime,
       });
 
@@ -463,13 +538,85 @@ class FeedService {
     }
   }
 
+  /**
+   * Fetch a feed's indicators, polling TAXII collections from the stored bookmark
+   */
+  private async fetchIndicators(
+    feed: any,
+  ): Promise<{ indicators: FeedIndicator[]; links: IndicatorEdge[]; addedAfter?: string }> {
+    if (feed.format !== 'taxii') {
+      const rawData = await this.fetchFeedData(feed.url, feed.authentication as any);
+      const indicators = await this.parseFeedData(rawData, feed.format, feed.parser as any);
+      // STIX data that parsed into indicators is a valid bundle
+      const links = feed.format === 'stix' && indicators.length
+        ? this.stixObjectsToLinks(this.stixBundleObjects(rawData))
+        : [];
+      return { indicators, links };
+    }
+
+    const taxii = feed.taxii || {};
+    const poll = await taxiiClient.pollCollection({
+      discoveryUrl: feed.url,
+      apiRoot: taxii.api_root,
+      collectionId: taxii.collection_id,
+      addedAfter: taxii.added_after,
+      limit: taxii.page_size,
+      headers: this.buildAuthHeaders(feed.authentication as any),
+    });
+
+    logger.info('TAXII collection polled', {
+      feedId: feed.id,
+      objects: poll.objects.length,
+      pages: poll.pages,
+      addedAfter: poll.addedAfter,
+    });
+
+    return {
+      indicators: this.stixObjectsToIndicators(poll.objects),
+      links: this.stixObjectsToLinks(poll.objects),
+      addedAfter: poll.addedAfter,
+    };
+  }
+
   /**
    * Fetch feed data from URL
    */
   private async fetchFeedData(url: string, auth?: FeedAuthentication): Promise<string> {
-    // In production, make HTTP request with authentication
-    // For now, return placeholder
-    return JSON.stringify({ indicators: [] });
+    const response = await axios.get(url, {
+      headers: this.buildAuthHeaders(auth),
+      responseType: 'text',
+      timeout: 30000,
+    });
+    return response.data;
+  }
+
+  /**
+   * Build request headers for a feed's authentication settings
+   */
+  private buildAuthHeaders(auth?: FeedAuthentication): Record<string, string> {
+    if (!auth) return {};
+
+    const credentials = auth.credentials || {};
+    const headers: Record<string, string> = {};
+
+    switch (auth.type) {
+      case 'api_key':
+        headers[credentials.headerName || 'X-API-Key'] = credentials.apiKey;
+        break;
+      case 'basic': {
+        const { username, password } = credentials;
+        headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+        break;
+      }
+      case 'bearer':
+      case 'oauth':
+        headers.Authorization = `Bearer ${credentials.token || credentials.accessToken}`;
+        break;
+      default:
+        break;
+    }
+
+    return { ...headers, ...(auth.headers || {}) };
   }
 
   /**
@@ -491,6 +638,7 @@ class FeedService {
         case 'xml':
           return this.parseXmlFeed(rawData, config);
         case 'stix':
+        case 'taxii':
           return this.parseStixFeed(rawData, config);
         case 'txt':
           return this.parseTextFeed(rawData, config);
@@ -565,8 +713,126 @@ class FeedService {
    * Parse STIX feed
    */
   private parseStixFeed(data: string, config?: ParserConfig): FeedIndicator[] {
-    // In production, use STIX parser
-    return [];
+    return this.stixObjectsToIndicators(this.stixBundleObjects(data));
+  }
+
+  /**
+   * Objects of a STIX bundle, or of a bare array of STIX objects
+   */
+  private stixBundleObjects(data: string): any[] {
+    const parsed = JSON.parse(data);
+    return Array.isArray(parsed) ? parsed : (parsed.objects || []);
+  }
+
+  /**
+   * Convert STIX indicators and cyber-observables to feed indicators
+   */
+  private stixObjectsToIndicators(objects: any[]): FeedIndicator[] {
+    const indicators: FeedIndicator[] = [];
+
+    for (const object of objects) {
+      try {
+        const ioc = this.stixObjectToIOC(object);
+        const type = ioc && STIX_IOC_TYPES[ioc.type];
+        if (type) {
+          indicators.push({
+            id: uuidv4(),
+            feedId: '',
+            feedName: '',
+            indicator: ioc.value,
+            type,
+            confidence: this.confidenceLevel(ioc.confidence),
+            confidenceScore: ioc.confidence,
+            firstSeen: ioc.firstSeen,
+            lastSeen: ioc.lastSeen,
+            active: ioc.isActive,
+            description: ioc.description,
+            tags: ioc.tags,
+            sources: [],
+            references: [],
+            metadata: { ...ioc.metadata, stix_id: ioc.stixId },
+            isDuplicate: false,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          });
+        }
+      } catch (error) {
+        logger.warn('Skipping unparseable STIX object', { id: object?.id, error });
+      }
+    }
+
+    return indicators;
+  }
+
+  /**
+   * IOC attributes of a STIX indicator or cyber-observable, null for others
+   */
+  private stixObjectToIOC(object: any): any | null {
+    if (object.type === 'indicator') {
+      return stixConverter.stixToIOC(object as STIXIndicator);
+    }
+    if (object.type !== 'relationship' && object.type !== 'sighting') {
+      return stixConverter.observableToIOC(object as ObservedObject);
+    }
+    return null;
+  }
+
+  /**
+   * Graph edges between the indicators of STIX objects: relationships of
+   * graph edge types and the resolutions of domain and IP observables
+   */
+  private stixObjectsToLinks(objects: any[]): IndicatorEdge[] {
+    const refs = new Map<string, IndicatorRef>();
+    objects.forEach((object) => {
+      try {
+        const ioc = this.stixObjectToIOC(object);
+        if (ioc && STIX_IOC_TYPES[ioc.type]) {
+          const type = STIX_GRAPH_TYPES.find((graphType) => graphType === ioc.type);
+          refs.set(object.id, { value: ioc.value, type });
+        }
+      } catch {
+        // Already reported while parsing the indicators
+      }
+    });
+
+    const link = (sourceRef: string, edgeType: GraphEdgeType, targetRef: string) => (
+      refs.has(sourceRef) && refs.has(targetRef)
+        ? [{ source: refs.get(sourceRef), edgeType, target: refs.get(targetRef) }]
+        : []
+    );
+
+    return objects.flatMap((object): IndicatorEdge[] => {
+      if (object.type === 'relationship') {
+        const edge = STIX_GRAPH_EDGES[object.relationship_type];
+        if (!edge) return [];
+        return edge.reverse
+          ? link(object.target_ref, edge.type, object.source_ref)
+          : link(object.source_ref, edge.type, object.target_ref);
+      }
+      return (object.resolves_to_refs || [])
+        .flatMap((ref: string) => link(object.id, 'resolves-to', ref));
+    });
+  }
+
+  /**
+   * Source that IoCs recorded from a feed are attributed to
+   */
+  private iocSource(feed: any): IoCSource {
+    return {
+      name: feed.name,
+      reliability: feed.reliability?.score || 50,
+      sourceType: FEED_SOURCE_TYPES[feed.type] || 'community',
+      feedId: feed.id,
+    };
+  }
+
+  /**
+   * Map a 0-100 confidence score to a confidence level
+   */
+  private confidenceLevel(score: number): ConfidenceLevel {
+    if (score >= 70) return 'high';
+    if (score >= 40) return 'medium';
+    return 'low';
   }
 
   /**
@@ -974,8 +1240,7 @@ class FeedService {
       const startTime = Date.now();
 
       // Test connection and parsing
-      const rawData = await this.fetchFeedData(feed.url, feed.authentication as any);
-      const indicators = await this.parseFeedData(rawData, feed.format, feed.parser as any);
+      const { indicators } = await this.fetchIndicators(feed);
 
       const responseTime = Date.now() - startTime;
 
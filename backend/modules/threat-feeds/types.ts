@@ -30,6 +30,7 @@ export interface ThreatFeed {
   reliability: FeedReliability;
   schedule: FeedSchedule;
   authentication?: FeedAuthentication;
+  taxii?: TaxiiFeedState;
   parser: ParserConfig;
   lastFetched?: Date;
   lastSuccess?: Date;
@@ -75,6 +76,38 @@ export interface FeedAuthentication {
   headers?: Record<string, string>;
 }
 
+// ========================================
+// TAXII Feed Sources
+// ========================================
+
+export interface TaxiiSourceConfig {
+  collectionId: string;
+  apiRoot?: string;
+  pageSize?: number;
+}
+
+export interface TaxiiFeedState extends TaxiiSourceConfig {
+  addedAfter?: string;
+  lastPolled?: Date;
+}
+
+export interface TaxiiPollOptions {
+  discoveryUrl: string;
+  apiRoot?: string;
+  collectionId: string;
+  addedAfter?: string;
+  limit?: number;
+  headers?: Record<string, string>;
+}
+
+export interface TaxiiPollResult {
+  apiRoot: string;
+  objects: any[];
+  addedAfter?: string;
+  pages: number;
+  complete: boolean;
+}
+
 export interface ParserConfig {
   format: FeedFormat;
   mapping: FieldMapping;
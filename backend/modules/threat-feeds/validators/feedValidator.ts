@@ -9,7 +9,7 @@ const feedSchema = Joi.object({
   name: Joi.string().min(2).max(200).required(),
   description: Joi.string().optional(),
   url: Joi.string().uri().required(),
-  feed_type: Joi.string().valid('rss', 'api', 'json', 'csv', 'xml', 'stix').required(),
+  feed_type: Joi.string().valid('rss', 'api', 'json', 'csv', 'xml', 'stix', 'taxii').required(),
   frequency: Joi.number().min(1).max(86400).default(3600),
   enabled: Joi.boolean().default(true),
   api_key: Joi.string().optional(),
@@ -19,12 +19,29 @@ const feedSchema = Joi.object({
   reliability: Joi.number().min(0).max(100).default(50),
 }).min(1);
 
+// TAXII 2.1 feed source schema
+const taxiiFeedSchema = Joi.object({
+  name: Joi.string().min(2).max(200).required(),
+  type: Joi.string()
+    .valid('commercial', 'open_source', 'community', 'custom', 'government', 'industry')
+    .default('community'),
+  discovery_url: Joi.string().uri().required(),
+  api_root: Joi.string().uri().optional(),
+  collection_id: Joi.string().required(),
+  page_size: Joi.number().integer().min(1).max(1000).optional(),
+  authentication: Joi.object({
+    type: Joi.string().valid('api_key', 'basic', 'bearer', 'none').required(),
+    credentials: Joi.object().pattern(Joi.string(), Joi.string()).default({}),
+    headers: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+  }).optional(),
+});
+
 // Update threat feed schema (partial)
 const feedUpdateSchema = Joi.object({
   name: Joi.string().min(2).max(200).optional(),
   description: Joi.string().optional(),
   url: Joi.string().uri().optional(),
-  feed_type: Joi.string().valid('rss', 'api', 'json', 'csv', 'xml', 'stix').optional(),
+  feed_type: Joi.string().valid('rss', 'api', 'json', 'csv', 'xml', 'stix', 'taxii').optional(),
   frequency: Joi.number().min(1).max(86400).optional(),
   enabled: Joi.boolean().optional(),
   api_key: Joi.string().optional(),
@@ -37,4 +54,5 @@ const feedUpdateSchema = Joi.object({
 export default {
   feedSchema,
   feedUpdateSchema,
+  taxiiFeedSchema,
 };
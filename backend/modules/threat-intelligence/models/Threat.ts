@@ -106,9 +106,13 @@ const ThreatSchema = new mongoose.Schema({
         lat: Number,
         lng: Number,
       },
+      locations: mongoose.Schema.Types.Mixed,
+      primary_location: mongoose.Schema.Types.Mixed,
     },
     reputation: {
       score: Number,
+      overall_score: Number,
+      indicators: mongoose.Schema.Types.Mixed,
       vendors: [{
         name: String,
         score: Number,
@@ -119,7 +123,12 @@ const ThreatSchema = new mongoose.Schema({
     dns: {
       records: mongoose.Schema.Types.Mixed,
       history: mongoose.Schema.Types.Mixed,
+      historical_ips: [String],
+      related_domains: [String],
     },
+    // What each enrichment connector returned, and when
+    sources: [mongoose.Schema.Types.Mixed],
+    enriched_at: Date,
     related_threats: [{
       id: String,
       name: String,
@@ -1,10 +1,49 @@
 /**
  * Threat Enrichment Service
- * Handles threat intelligence enrichment
+ * Handles threat intelligence enrichment. Geolocation, reputation and DNS
+ * come from the enrichment module connectors, looked up once per indicator;
+ * what each source returned is kept in `enrichment_data.sources`.
  */
 
 import Threat from '../models/Threat';
 import logger from '../utils/logger';
+import connectorService, {
+  normalizeObservable,
+  toObservableType,
+} from '../../enrichment/services/enrichmentService';
+import { reputationCategory } from '../../enrichment/connectors';
+import type {
+  EnrichmentRecord, FindingKind, Observable, ObservableType,
+} from '../../enrichment/types';
+
+// Connector findings behind each enrichment source
+const SOURCE_FINDINGS: Record<string, FindingKind[]> = {
+  geolocation: ['geolocation', 'asn'],
+  reputation: ['reputation'],
+  dns: ['dns', 'whois'],
+};
+
+const urlHost = (value: string): string | undefined => {
+  try {
+    return new URL(value).hostname;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Records about one observable
+ */
+const recordsFor = (
+  records: readonly EnrichmentRecord[],
+  type: ObservableType,
+  value: string,
+): EnrichmentRecord[] => {
+  const target = normalizeObservable({ type, value });
+  return records.filter(({ observable }) => (
+    observable.type === target.type && observable.value === target.value
+  ));
+};
 
 class EnrichmentService {
   /**
@@ -25,23 +64,32 @@ class EnrichmentService {
       const enrichmentData: any = threat.enrichment_data || {};
       enrichmentData.related_threats = enrichmentData.related_threats || [];
 
+      const wanted = (source: string) => sources.includes('all') || sources.includes(source);
+      const findings = Object.keys(SOURCE_FINDINGS)
+        .filter(wanted)
+        .flatMap((source) => SOURCE_FINDINGS[source]);
+      const records = findings.length ? await this.lookupIndicators(threat, findings) : [];
+
       // Perform enrichment based on sources
-      if (sources.includes('all') || sources.includes('geolocation')) {
-        enrichmentData.geolocation = await this.enrichGeolocation(threat);
+      if (wanted('geolocation')) {
+        enrichmentData.geolocation = await this.enrichGeolocation(threat, records);
       }
 
-      if (sources.includes('all') || sources.includes('reputation')) {
-        enrichmentData.reputation = await this.enrichReputation(threat);
+      if (wanted('reputation')) {
+        enrichmentData.reputation = await this.enrichReputation(threat, records);
       }
 
-      if (sources.includes('all') || sources.includes('osint')) {
+      if (wanted('osint')) {
         enrichmentData.osint = await this.enrichOSINT(threat);
       }
 
-      if (sources.includes('all') || sources.includes('dns')) {
-        enrichmentData.dns = await this.enrichDNS(threat);
+      if (wanted('dns')) {
+        enrichmentData.dns = await this.enrichDNS(threat, records);
       }
 
+      enrichmentData.sources = connectorService.mergeRecords(enrichmentData.sources || [], records);
+      enrichmentData.enriched_at = new Date();
+
       // Update threat with enrichment data
       threat.enrichment_data = enrichmentData;
       await threat.save();
@@ -54,12 +102,40 @@ class EnrichmentService {
     }
   }
 
+  /**
+   * Look the threat's indicators up in the connectors providing the findings;
+   * URL hosts are looked up as domains for DNS and WHOIS
+   * @param {Object} threat - Threat object
+   * @param {Array} findings - Connector findings wanted
+   * @returns {Promise<Array>} Enrichment records
+   */
+  async lookupIndicators(threat: any, findings: FindingKind[]): Promise<EnrichmentRecord[]> {
+    const indicators = threat.indicators || [];
+    const observables: Observable[] = indicators
+      .filter((indicator) => indicator.value && toObservableType(indicator.type))
+      .map((indicator) => ({ type: toObservableType(indicator.type), value: indicator.value }));
+    if (findings.includes('dns') || findings.includes('whois')) {
+      indicators
+        .filter((indicator) => indicator.type === 'url')
+        .map((indicator) => urlHost(indicator.value))
+        .filter(Boolean)
+        .forEach((host) => observables.push({ type: 'domain', value: host }));
+    }
+
+    const unique = Array.from(new Map(observables.map((observable) => {
+      const { type, value } = normalizeObservable(observable);
+      return [`${type}:${value}`, observable];
+    })).values());
+    return connectorService.enrichAll(unique, { findings });
+  }
+
   /**
    * Enrich with geolocation data
    * @param {Object} threat - Threat object
+   * @param {Array} records - Enrichment records of the threat's indicators
    * @returns {Promise<Object>} Geolocation data
    */
-  async enrichGeolocation(threat: any) {
+  async enrichGeolocation(threat: any, records: readonly EnrichmentRecord[] = []) {
     try {
       // Extract IP addresses from indicators
       const ipIndicators = threat.indicators?.filter((i) => i.type === 'ip') || [];
@@ -68,22 +144,31 @@ class EnrichmentService {
         return null;
       }
 
-      // Mock geolocation enrichment (in production, use real geolocation API)
-      const geoData = {
-        locations: ipIndicators.map((ip) => ({
-          ip: ip.value,
-          country: this.mockGetCountry(ip.value),
-          city: 'Unknown',
-          coordinates: { lat: 0, lng: 0 },
-        })),
-        primary_location: {
-          country: this.mockGetCountry(ipIndicators[0].value),
-          city: 'Unknown',
-          coordinates: { lat: 0, lng: 0 },
-        },
-      };
+      const locations = ipIndicators
+        .map((ip) => {
+          const { geolocation, asn } = connectorService.summarize(
+            recordsFor(records, 'ip', ip.value),
+          );
+          if (!geolocation && !asn) return null;
+          return {
+            ip: ip.value,
+            country: geolocation?.country,
+            city: geolocation?.city,
+            coordinates: { lat: geolocation?.latitude, lng: geolocation?.longitude },
+            asn: asn?.asn,
+            organization: asn?.organization || geolocation?.isp,
+          };
+        })
+        .filter(Boolean);
 
-      return geoData;
+      return {
+        locations,
+        primary_location: locations.length ? {
+          country: locations[0].country,
+          city: locations[0].city,
+          coordinates: locations[0].coordinates,
+        } : null,
+      };
     } catch (error) {
       logger.error('Error enriching geolocation', { error: error.message });
       return null;
@@ -93,42 +178,53 @@ class EnrichmentService {
   /**
    * Enrich with reputation data
    * @param {Object} threat - Threat object
-   * @returns {Promise<Object>} Reputation data
+   * @param {Array} records - Enrichment records of the threat's indicators
+   * @returns {Promise<Object>} Reputation data (0 is malicious, 100 clean)
    */
-  async enrichReputation(threat: any) {
+  async enrichReputation(threat: any, records: readonly EnrichmentRecord[] = []) {
     try {
-      // Mock reputation scoring (in production, use real reputation APIs)
       const indicators = threat.indicators || [];
-      const scores = [];
-
-      for (const indicator of indicators) {
-        const score = this.mockCalculateReputation(indicator);
-        let category = 'clean';
-        if (score < 30) {
-          category = 'malicious';
-        } else if (score < 70) {
-          category = 'suspicious';
-        }
-
-        scores.push({
-          indicator: indicator.value,
-          type: indicator.type,
-          score,
-          category,
-        });
+      const scores = indicators
+        .filter((indicator) => toObservableType(indicator.type))
+        .map((indicator) => {
+          const { reputation } = connectorService.summarize(
+            recordsFor(records, toObservableType(indicator.type), indicator.value),
+          );
+          return reputation && {
+            indicator: indicator.value,
+            type: indicator.type,
+            score: reputation.score,
+            category: reputation.category,
+          };
+        })
+        .filter(Boolean);
+
+      if (scores.length === 0) {
+        return null;
       }
 
-      const avgScore = scores.length > 0
-        ? scores.reduce((sum, s) => sum + s.score, 0) / scores.length
-        : 50;
+      // Average score given by each source
+      const bySource = new Map<string, number[]>();
+      records
+        .filter((record) => record.status === 'ok' && record.findings?.reputation)
+        .forEach((record) => {
+          bySource.set(record.source, [
+            ...(bySource.get(record.source) || []),
+            record.findings.reputation.score,
+          ]);
+        });
+      const average = (values: number[]) => Math.round(
+        values.reduce((sum, value) => sum + value, 0) / values.length,
+      );
 
       return {
-        overall_score: Math.round(avgScore),
+        overall_score: average(scores.map((s) => s.score)),
         indicators: scores,
-        vendors: [
-          { name: 'VirusTotal', score: Math.round(avgScore * 0.95) },
-          { name: 'AlienVault', score: Math.round(avgScore * 1.05) },
-        ],
+        vendors: Array.from(bySource.entries()).map(([name, values]) => ({
+          name,
+          score: average(values),
+          category: reputationCategory(average(values)),
+        })),
       };
     } catch (error) {
       logger.error('Error enriching reputation', { error: error.message });
@@ -162,9 +258,10 @@ class EnrichmentService {
   /**
    * Enrich with DNS data
    * @param {Object} threat - Threat object
+   * @param {Array} records - Enrichment records of the threat's indicators
    * @returns {Promise<Object>} DNS data
    */
-  async enrichDNS(threat: any) {
+  async enrichDNS(threat: any, records: readonly EnrichmentRecord[] = []) {
     try {
       // Extract domain indicators
       const domainIndicators = threat.indicators?.filter(
@@ -175,21 +272,43 @@ class EnrichmentService {
         return null;
       }
 
-      // Mock DNS enrichment (in production, use real passive DNS APIs)
-      const dnsData = {
-        records: domainIndicators.map((d) => ({
-          domain: d.value,
-          a_records: [`192.168.${Math.floor(Math.random() * 255)}.${Math.floor(Math.random() * 255)}`],
-          mx_records: [],
-          ns_records: [],
-          first_seen: new Date(Date.now() - Math.random() * 90 * 24 * 60 * 60 * 1000),
-          last_seen: new Date(),
-        })),
-        historical_ips: [],
-        related_domains: [],
-      };
+      const domains: string[] = Array.from(new Set(domainIndicators
+        .map((d) => (d.type === 'url' ? urlHost(d.value) : d.value))
+        .filter(Boolean)
+        .map((domain) => normalizeObservable({ type: 'domain', value: domain }).value)));
+
+      const dnsRecords = domains.map((domain) => {
+        const { dns = [], whois } = connectorService.summarize(
+          recordsFor(records, 'domain', domain),
+        );
+        const rdata = (...types: string[]) => Array.from(new Set(dns
+          .filter((record) => types.includes(record.rrtype))
+          .map((record) => record.rdata)));
+        const firstSeen = dns.map((record) => record.firstSeen).filter(Boolean).sort();
+        const lastSeen = dns.map((record) => record.lastSeen).filter(Boolean).sort();
+        return {
+          domain,
+          a_records: rdata('A', 'AAAA'),
+          mx_records: rdata('MX'),
+          ns_records: rdata('NS'),
+          first_seen: firstSeen.length ? new Date(firstSeen[0]) : null,
+          last_seen: lastSeen.length ? new Date(lastSeen[lastSeen.length - 1]) : null,
+          whois: whois || null,
+        };
+      });
+
+      // Other names seen resolving to the threat's IP addresses
+      const ips = threat.indicators.filter((i) => i.type === 'ip').map((i) => i.value);
+      const relatedDomains = ips
+        .flatMap((ip) => connectorService.summarize(recordsFor(records, 'ip', ip)).dns || [])
+        .map((record) => record.rrname)
+        .filter((name) => !domains.includes(name));
 
-      return dnsData;
+      return {
+        records: dnsRecords,
+        historical_ips: Array.from(new Set(dnsRecords.flatMap((record) => record.a_records))),
+        related_domains: Array.from(new Set(relatedDomains)),
+      };
     } catch (error) {
       logger.error('Error enriching DNS', { error: error.message });
       return null;
@@ -256,16 +375,6 @@ class EnrichmentService {
   }
 
   // Mock helper methods (replace with real implementations in production)
-  mockGetCountry(_ip: any) {
-    const countries = ['US', 'CN', 'RU', 'DE', 'GB', 'FR', 'JP', 'KR'];
-    return countries[Math.floor(Math.random() * countries.length)];
-  }
-
-  mockCalculateReputation(_indicator: any) {
-    // Random reputation score (0-100, lower is worse)
-    return Math.floor(Math.random() * 100);
-  }
-
   mockIndustryTargeting(_threat: any) {
     const industries = ['Financial', 'Healthcare', 'Government', 'Technology', 'Retail'];
     return industries.slice(0, Math.floor(Math.random() * 3) + 1);
@@ -0,0 +1,113 @@
+/**
+ * EntityRelationship Repository
+ * Type-safe repository for links between intelligence entities
+ */
+
+import { Op } from 'sequelize';
+import type { FindOptions } from 'sequelize';
+import type { EntityRelationship } from '../utils/sequelize';
+import { BaseRepository } from '../utils/BaseRepository';
+import EntityRelationshipModel from '../models/EntityRelationship';
+import type { RelatedEntityType } from '../models/EntityRelationship';
+
+class EntityRelationshipRepository extends BaseRepository<EntityRelationship> {
+  protected model = EntityRelationshipModel;
+
+  /**
+   * Find relationship by STIX identifier
+   */
+  async findByStixId(stixId: string): Promise<EntityRelationship | null> {
+    return await this.model.findOne({
+      where: { stixId },
+    });
+  }
+
+  /**
+   * Find an existing link between two entities
+   */
+  async findLink(
+    sourceType: RelatedEntityType,
+    sourceId: string,
+    relationshipType: string,
+    targetType?: RelatedEntityType,
+    targetId?: string,
+  ): Promise<EntityRelationship | null> {
+    return await this.model.findOne({
+      where: {
+        sourceType,
+        sourceId,
+        relationshipType,
+        targetType: targetType || null,
+        targetId: targetId || null,
+      },
+    });
+  }
+
+  /**
+   * Find all relationships where the entity is source or target
+   */
+  async findForEntity(entityType: RelatedEntityType, entityId: string): Promise<EntityRelationship[]> {
+    return await this.model.findAll({
+      where: {
+        [Op.or]: [
+          { sourceType: entityType, sourceId: entityId },
+          { targetType: entityType, targetId: entityId },
+        ],
+      },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+
+  /**
+   * Find relationships touching any of the given entity IDs
+   */
+  async findForEntityIds(entityIds: string[]): Promise<EntityRelationship[]> {
+    return await this.model.findAll({
+      where: {
+        [Op.or]: [
+          { sourceId: { [Op.in]: entityIds } },
+          { targetId: { [Op.in]: entityIds } },
+        ],
+      },
+    });
+  }
+
+  /**
+   * Find relationships touching any of the given entities, optionally only
+   * those of the given relationship types, in the given order and up to the
+   * given number of rows
+   */
+  async findForEntities(
+    entities: { type: RelatedEntityType; id: string }[],
+    relationshipTypes?: string[],
+    options: Pick<FindOptions<any>, 'limit' | 'order'> = {},
+  ): Promise<EntityRelationship[]> {
+    if (!entities.length) {
+      return [];
+    }
+    return await this.model.findAll({
+      where: {
+        [Op.or]: entities.flatMap(({ type, id }) => [
+          { sourceType: type, sourceId: id },
+          { targetType: type, targetId: id },
+        ]),
+        ...(relationshipTypes ? { relationshipType: { [Op.in]: relationshipTypes } } : {}),
+      },
+      ...options,
+    });
+  }
+
+  /**
+   * Find relationships by type
+   */
+  async findByType(relationshipType: string): Promise<EntityRelationship[]> {
+    return await this.model.findAll({
+      where: { relationshipType },
+      order: [['createdAt', 'DESC']],
+    });
+  }
+}
+
+// Export singleton instance
+export const entityRelationshipRepository = new EntityRelationshipRepository();
+export default entityRelationshipRepository;
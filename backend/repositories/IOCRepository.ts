@@ -11,6 +11,15 @@ import IOCModel from '../models/IOC';
 class IOCRepository extends BaseRepository<IOC> {
   protected model = IOCModel;
 
+  /**
+   * Find IOC by STIX identifier
+   */
+  async findByStixId(stixId: string): Promise<IOC | null> {
+    return await this.model.findOne({
+      where: { stixId },
+    });
+  }
+
   /**
    * Find IOC by value
    */
@@ -20,6 +29,15 @@ class IOCRepository extends BaseRepository<IOC> {
     });
   }
 
+  /**
+   * Find IOC by type and value
+   */
+  async findByTypeAndValue(type: string, value: string): Promise<IOC | null> {
+    return await this.model.findOne({
+      where: { type, value },
+    });
+  }
+
   /**
    * Find IOCs by type
    */
@@ -0,0 +1,76 @@
+/**
+ * Malware Repository
+ * Type-safe repository for Malware model operations
+ */
+
+import { Op } from 'sequelize';
+import type { Malware } from '../utils/sequelize';
+import { BaseRepository } from '../utils/BaseRepository';
+import MalwareModel from '../models/Malware';
+
+class MalwareRepository extends BaseRepository<Malware> {
+  protected model = MalwareModel;
+
+  /**
+   * Find malware by STIX identifier
+   */
+  async findByStixId(stixId: string): Promise<Malware | null> {
+    return await this.model.findOne({
+      where: { stixId },
+    });
+  }
+
+  /**
+   * Find malware by name
+   */
+  async findByName(name: string): Promise<Malware | null> {
+    return await this.model.findOne({
+      where: { name },
+    });
+  }
+
+  /**
+   * Find malware by alias
+   */
+  async findByAlias(alias: string): Promise<Malware[]> {
+    return await this.model.findAll({
+      where: {
+        aliases: {
+          [Op.contains]: [alias],
+        },
+      },
+      order: [['name', 'ASC']],
+    });
+  }
+
+  /**
+   * Find malware families
+   */
+  async findFamilies(): Promise<Malware[]> {
+    return await this.model.findAll({
+      where: { isFamily: true },
+      order: [['name', 'ASC']],
+    });
+  }
+
+  /**
+   * Build where clause with search support
+   */
+  protected override buildWhereClause(filters: any, search?: string): any {
+    const where: any = { ...filters };
+
+    if (search) {
+      where[Op.or] = [
+        { name: { [Op.iLike]: `%${search}%` } },
+        { description: { [Op.iLike]: `%${search}%` } },
+        { aliases: { [Op.overlap]: [search] } },
+      ];
+    }
+
+    return where;
+  }
+}
+
+// Export singleton instance
+export const malwareRepository = new MalwareRepository();
+export default malwareRepository;
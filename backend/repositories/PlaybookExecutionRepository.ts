@@ -92,6 +92,15 @@ class PlaybookExecutionRepository extends BaseRepository<PlaybookExecution> {
     });
   }
 
+  /**
+   * Update an execution only while it has the given status; false when its
+   * status has changed
+   */
+  async updateIfStatus(id: string, status: string, data: any): Promise<boolean> {
+    const [updated] = await this.model.update(data, { where: { id, status } });
+    return updated > 0;
+  }
+
   /**
    * Update execution status
    */
@@ -11,6 +11,15 @@ import ThreatActorModel from '../models/ThreatActor';
 class ThreatActorRepository extends BaseRepository<ThreatActor> {
   protected model = ThreatActorModel;
 
+  /**
+   * Find threat actor by STIX identifier
+   */
+  async findByStixId(stixId: string): Promise<ThreatActor | null> {
+    return await this.model.findOne({
+      where: { stixId },
+    });
+  }
+
   /**
    * Find threat actor by name
    */
@@ -11,6 +11,15 @@ import VulnerabilityModel from '../models/Vulnerability';
 class VulnerabilityRepository extends BaseRepository<Vulnerability> {
   protected model = VulnerabilityModel;
 
+  /**
+   * Find vulnerability by STIX identifier
+   */
+  async findByStixId(stixId: string): Promise<Vulnerability | null> {
+    return await this.model.findOne({
+      where: { stixId },
+    });
+  }
+
   /**
    * Find vulnerabilities by CVE ID
    */
@@ -11,6 +11,8 @@ export { auditLogRepository } from './AuditLogRepository';
 export { iocRepository } from './IOCRepository';
 export { threatActorRepository } from './ThreatActorRepository';
 export { playbookExecutionRepository } from './PlaybookExecutionRepository';
+export { malwareRepository } from './MalwareRepository';
+export { entityRelationshipRepository } from './EntityRelationshipRepository';
 
 // Export types
 export type {
@@ -22,5 +24,7 @@ export type {
   IOC,
   ThreatActor,
   PlaybookExecution,
+  Malware,
+  EntityRelationship,
 } from '../utils/sequelize';
 export type { ListFilters, PaginatedResponse } from '../utils/BaseRepository';
@@ -9,6 +9,7 @@ declare namespace Express {
       id: string;
       email: string;
       role: string;
+      teams?: string[];
       [key: string]: unknown;
     };
     correlationId?: string;
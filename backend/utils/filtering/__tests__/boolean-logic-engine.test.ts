@@ -250,6 +250,53 @@ describe('BooleanLogicEngine', () => {
     });
   });
 
+  describe('Pattern and Network Operators', () => {
+    it('should evaluate wildcard operator correctly', () => {
+      const filterGroup: FilterGroup = {
+        mode: 'and',
+        filters: [
+          { key: 'host', operator: 'wildcard', values: ['web-??.prod*', 'db\\*'] }
+        ],
+        filterGroups: []
+      };
+
+      expect(engine.evaluate(filterGroup, { host: 'WEB-01.prod.example' })).toBe(true);
+      expect(engine.evaluate(filterGroup, { host: 'db*' })).toBe(true);
+      expect(engine.evaluate(filterGroup, { host: 'db-01' })).toBe(false);
+      expect(engine.evaluate(filterGroup, { host: 'web-1.prod' })).toBe(false);
+    });
+
+    it('should evaluate cidr operator correctly', () => {
+      const filterGroup: FilterGroup = {
+        mode: 'and',
+        filters: [
+          { key: 'ip', operator: 'cidr', values: ['10.1.0.0/16', '2001:db8::/32'] }
+        ],
+        filterGroups: []
+      };
+
+      expect(engine.evaluate(filterGroup, { ip: '10.1.200.7' })).toBe(true);
+      expect(engine.evaluate(filterGroup, { ip: '::ffff:10.1.0.1' })).toBe(true);
+      expect(engine.evaluate(filterGroup, { ip: '2001:db8:1::1' })).toBe(true);
+      expect(engine.evaluate(filterGroup, { ip: '10.2.0.1' })).toBe(false);
+      expect(engine.evaluate(filterGroup, { ip: 'not-an-ip' })).toBe(false);
+    });
+
+    it('should match array values by element', () => {
+      const filterGroup: FilterGroup = {
+        mode: 'and',
+        filters: [
+          { key: 'tags', operator: 'eq', values: ['malware'] },
+          { key: 'tags', operator: 'not_eq', values: ['benign'] }
+        ],
+        filterGroups: []
+      };
+
+      expect(engine.evaluate(filterGroup, { tags: ['c2', 'malware'] })).toBe(true);
+      expect(engine.evaluate(filterGroup, { tags: ['malware', 'benign'] })).toBe(false);
+    });
+  });
+
   describe('Empty Filter Groups', () => {
     it('should return true for empty filter groups', () => {
       const filterGroup: FilterGroup = {
@@ -6,8 +6,58 @@
  * Supports AND, OR, NOT operations with nested groups.
  */
 
+import { BlockList, isIP } from 'net';
 import type { FilterGroup, Filter, FilterOperator } from './filter-types';
 
+// Negated operators must hold for every element of an array value, not just one
+const NEGATED_OPERATORS: FilterOperator[] = ['not_eq', 'not_contains', 'not_in'];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Convert a wildcard pattern to an anchored, case-insensitive regular
+ * expression; a backslash makes the next character literal
+ */
+export const wildcardToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      i++;
+      source += escapeRegExp(pattern[i]);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+};
+
+/**
+ * Check whether an IPv4 or IPv6 address lies within a CIDR range; IPv4-mapped
+ * IPv6 addresses match IPv4 ranges
+ */
+export const cidrContains = (cidr: string, address: string): boolean => {
+  const [network, prefixText] = cidr.split('/');
+  const networkVersion = isIP(network);
+  const addressVersion = isIP(address);
+  const prefix = prefixText === undefined ? (networkVersion === 6 ? 128 : 32) : Number(prefixText);
+  if (!networkVersion || !addressVersion || !Number.isInteger(prefix)) {
+    return false;
+  }
+
+  try {
+    const list = new BlockList();
+    list.addSubnet(network, prefix, networkVersion === 6 ? 'ipv6' : 'ipv4');
+    return list.check(address, addressVersion === 6 ? 'ipv6' : 'ipv4');
+  } catch {
+    return false; // Prefix out of range
+  }
+};
+
 export class BooleanLogicEngine {
   /**
    * Evaluate a filter group against an entity
@@ -69,6 +119,12 @@ export class BooleanLogicEngine {
       return false;
     }
 
+    // Array values (e.g. tags) match when an element does
+    if (Array.isArray(value)) {
+      const matches = (element: any) => this.applyOperator(element, filter.operator, filter.values, filter.mode);
+      return NEGATED_OPERATORS.includes(filter.operator) ? value.every(matches) : value.some(matches);
+    }
+
     // Apply operator
     return this.applyOperator(value, filter.operator, filter.values, filter.mode);
   }
@@ -127,6 +183,12 @@ export class BooleanLogicEngine {
         case 'not_in':
           return stringValue !== stringFilterValue;
         
+        case 'wildcard':
+          return wildcardToRegExp(String(filterValue)).test(String(value));
+        
+        case 'cidr':
+          return cidrContains(String(filterValue), String(value));
+        
         default:
           console.warn(`Unknown operator: ${operator}`);
           return false;
@@ -38,7 +38,9 @@ export type FilterOperator =
   | 'in'           // In list
   | 'not_in'       // Not in list
   | 'nil'          // Is null
-  | 'not_nil';     // Is not null
+  | 'not_nil'      // Is not null
+  | 'wildcard'     // Matches a pattern (* any characters, ? one character)
+  | 'cidr';        // IP address within a CIDR range
 
 /**
  * Factory function to create an empty filter group
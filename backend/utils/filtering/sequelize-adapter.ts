@@ -54,6 +54,11 @@ export class SequelizeFilterAdapter {
    * Convert a single filter to Sequelize syntax
    */
   private convertFilter(filter: Filter): any {
+    // SQL has no portable CIDR containment; evaluate these in memory instead
+    if (filter.operator === 'cidr') {
+      throw new Error(`CIDR filter on '${filter.key}' cannot be converted to a WHERE clause`);
+    }
+
     const operator = this.getSequelizeOperator(filter.operator);
     let values = filter.values;
 
@@ -64,6 +69,8 @@ export class SequelizeFilterAdapter {
       values = values.map(v => `${v}%`);
     } else if (filter.operator === 'ends_with') {
       values = values.map(v => `%${v}`);
+    } else if (filter.operator === 'wildcard') {
+      values = values.map(v => this.wildcardToLike(v));
     }
 
     // Special handling for nil operators
@@ -93,7 +100,7 @@ export class SequelizeFilterAdapter {
    * Map our FilterOperator to Sequelize Op symbol
    */
   private getSequelizeOperator(operator: FilterOperator): symbol {
-    const operatorMap: Record<FilterOperator, symbol> = {
+    const operatorMap: Partial<Record<FilterOperator, symbol>> = {
       eq: Op.eq,
       not_eq: Op.ne,
       gt: Op.gt,
@@ -107,12 +114,34 @@ export class SequelizeFilterAdapter {
       in: Op.in,
       not_in: Op.notIn,
       nil: Op.is,
-      not_nil: Op.not
+      not_nil: Op.not,
+      wildcard: Op.like
     };
 
     return operatorMap[operator] || Op.eq;
   }
 
+  /**
+   * Convert a wildcard pattern (* and ?, backslash escapes) to a LIKE pattern
+   */
+  private wildcardToLike(pattern: string): string {
+    let like = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '\\' && i + 1 < pattern.length) {
+        i++;
+        like += pattern[i].replace(/[%_\\]/g, '\\$&');
+      } else if (char === '*') {
+        like += '%';
+      } else if (char === '?') {
+        like += '_';
+      } else {
+        like += char.replace(/[%_\\]/g, '\\$&');
+      }
+    }
+    return like;
+  }
+
   /**
    * Helper: Create a simple equality filter
    */
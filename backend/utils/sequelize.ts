@@ -16,6 +16,8 @@ export type AuditLog = InstanceType<typeof Models.AuditLog>;
 export type IOC = InstanceType<typeof Models.IOC>;
 export type ThreatActor = InstanceType<typeof Models.ThreatActor>;
 export type PlaybookExecution = InstanceType<typeof Models.PlaybookExecution>;
+export type Malware = InstanceType<typeof Models.Malware>;
+export type EntityRelationship = InstanceType<typeof Models.EntityRelationship>;
 
 /**
  * Get Sequelize instance
@@ -0,0 +1,63 @@
+/**
+ * Per-Source Rate Limiter
+ * Token bucket per source (a log sender address, an enrichment connector):
+ * `rate` requests per second with bursts up to `burst`. A rate of 0 disables
+ * limiting.
+ */
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+class SourceRateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  private readonly rate: number;
+
+  private readonly burst: number;
+
+  constructor(rate: number, burst: number = rate) {
+    this.rate = rate;
+    this.burst = Math.max(burst, 1);
+  }
+
+  /**
+   * Take a token for the source; false when it is over its rate
+   */
+  tryTake(source: string, now: number = Date.now()): boolean {
+    if (this.rate <= 0) return true;
+
+    const bucket = this.refill(source, now);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Forget sources whose bucket has refilled, so idle senders do not accumulate
+   */
+  prune(now: number = Date.now()): void {
+    for (const source of Array.from(this.buckets.keys())) {
+      if (this.refill(source, now).tokens >= this.burst) this.buckets.delete(source);
+    }
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  private refill(source: string, now: number): Bucket {
+    let bucket = this.buckets.get(source);
+    if (!bucket) {
+      bucket = { tokens: this.burst, updatedAt: now };
+      this.buckets.set(source, bucket);
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + elapsed * this.rate);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
+
+export default SourceRateLimiter;